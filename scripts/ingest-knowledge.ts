@@ -10,13 +10,21 @@
  *   npm run rag:ingest:dialogues    # Export dialogues from main DB
  *   npm run rag:clear               # Clear all vector data
  *   npm run rag:stats               # Show statistics
+ *   npm run rag:index:rebuild       # Rebuild the ANN (HNSW) index
+ *   npm run rag:index:bench         # Compare ANN recall/latency with brute force
+ *   npm run rag:search -- "<query>" # Inspect fused (vector + BM25) rankings
+ *   npm run rag:reembed             # Re-embed every chunk with the current provider
+ *   npm run rag:watch               # Keep knowledge directories in sync as files change
+ *   npm run rag:eval -- <golden.json>  # Compare recall@k / MRR / nDCG across RAG config variants
  */
 
 // Load .env file first
 import 'dotenv/config';
 
+import * as fs from 'fs';
 import * as path from 'path';
-import { createRAGSystem } from '../src/rag/index.js';
+import { createRAGSystem, evaluateRetrieval, loadGoldenSet, segmentForSearch } from '../src/rag/index.js';
+import type { KnowledgeIngestionEvent, RAGEvalVariant, SearchMode, SourceType } from '../src/rag/index.js';
 
 // コマンドライン引数を解析
 const args = process.argv.slice(2);
@@ -33,7 +41,8 @@ async function main() {
   console.log('═'.repeat(60));
   console.log();
 
-  const rag = createRAGSystem();
+  // Searching from the CLI is an inspection tool; it should work even while RAG is off for the server
+  const rag = createRAGSystem(command === 'search' ? { enabled: true } : undefined);
 
   switch (command) {
     case 'all':
@@ -91,6 +100,46 @@ async function main() {
       await checkHealth(rag);
       break;
 
+    case 'rebuild-index':
+    case '--rebuild-index':
+      rebuildIndex(rag);
+      break;
+
+    case 'bench-index':
+    case '--bench-index':
+      benchmarkIndex(rag, args.slice(1));
+      break;
+
+    case 'reembed':
+    case '--reembed':
+      await reembedAll(rag);
+      break;
+
+    case 'watch':
+    case '--watch':
+      await watchKnowledge(rag);
+      break;
+
+    case 'search':
+    case '--search':
+      if (!args[1]) {
+        console.error('Error: Query required');
+        console.error('Usage: npm run rag:search -- "<query>" [--mode hybrid|vector|lexical] [--top-k <k>] [--types <a,b>] [--no-policy]');
+        process.exit(1);
+      }
+      await searchKnowledge(rag, args[1], args.slice(2));
+      break;
+
+    case 'eval':
+    case '--eval':
+      if (!args[1]) {
+        console.error('Error: Golden set path required');
+        console.error('Usage: npm run rag:eval -- <golden.json> [--variants <variants.json>] [--k 1,3,5] [--json <report.json>]');
+        process.exit(1);
+      }
+      await evaluateKnowledge(args[1], args.slice(2));
+      break;
+
     case 'help':
     case '--help':
     case '-h':
@@ -258,7 +307,8 @@ function showStats(rag: ReturnType<typeof createRAGSystem>) {
 
   console.log('Configuration:');
   console.log(`  Enabled:             ${config.enabled}`);
-  console.log(`  Embedding model:     ${config.embeddingModel}`);
+  console.log(`  Embedding provider:  ${config.embeddingProvider}`);
+  console.log(`  Embedding model:     ${stats.embeddingModel}`);
   console.log(`  Chunk size:          ${config.chunkSize} tokens`);
   console.log(`  Chunk overlap:       ${config.chunkOverlap} tokens`);
   console.log(`  Default top_k:       ${config.topK}`);
@@ -268,6 +318,10 @@ function showStats(rag: ReturnType<typeof createRAGSystem>) {
   console.log('Storage:');
   console.log(`  Total chunks:        ${stats.totalChunks}`);
   console.log(`  Embedding dimension: ${stats.embeddingDimension}`);
+  console.log(`  Stored embeddings:   ${stats.storedEmbedding ? `${stats.storedEmbedding.modelId} (${stats.storedEmbedding.dimension}d)` : '-'}`);
+  if (stats.storedEmbedding && stats.storedEmbedding.modelId !== stats.embeddingModel) {
+    console.log('  WARNING: stored embeddings come from a different model; run "npm run rag:reembed"');
+  }
   console.log(`  Database size:       ${formatBytes(stats.vectorDbSize)}`);
   console.log();
 
@@ -275,6 +329,263 @@ function showStats(rag: ReturnType<typeof createRAGSystem>) {
   for (const [type, count] of Object.entries(stats.chunksBySourceType)) {
     console.log(`  ${type.padEnd(12)}: ${count}`);
   }
+  console.log();
+
+  console.log('ANN index:');
+  console.log(`  Enabled:             ${stats.annIndex.enabled}`);
+  console.log(`  Min chunks:          ${config.annIndex.minChunks} (brute force below)`);
+  console.log(`  ef_search:           ${config.annIndex.efSearch}`);
+  console.log(`  Index file:          ${stats.annIndex.indexPath}`);
+  console.log(`  Index file size:     ${formatBytes(stats.annIndex.indexFileSize)}`);
+  console.log();
+
+  console.log('Hybrid search:');
+  console.log(`  Enabled:             ${config.hybrid.enabled}`);
+  console.log(`  Weights:             vector ${config.hybrid.vectorWeight} / lexical ${config.hybrid.lexicalWeight}`);
+  console.log(`  RRF k:               ${config.hybrid.rrfK}`);
+  console.log(`  Lexical min sim.:    ${config.hybrid.lexicalMinSimilarity}`);
+  console.log();
+
+  const share = stats.retrievalShare;
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  console.log('Retrieval policy:');
+  console.log(`  Enabled:             ${config.policy.enabled}`);
+  console.log(`  Self max share:      ${percent(config.policy.selfMaxShare)}`);
+  const quotas = Object.entries(config.policy.sourceTypeQuotas).map(([type, quota]) => `${type}:${quota}`);
+  console.log(`  Quotas:              ${quotas.length > 0 ? quotas.join(', ') : '-'}`);
+  console.log(`  Recency:             half-life ${config.policy.recencyHalfLifeDays}d, weight ${config.policy.recencyWeight} (${config.policy.recencySourceTypes.join(', ')})`);
+  console.log(`  MMR lambda:          ${config.policy.mmrLambda}`);
+  console.log();
+
+  console.log(`Retrieval share (last ${share.windowDays} days):`);
+  console.log(`  Queries:             ${share.queries} (${share.results} results)`);
+  console.log(`  Self / external:     ${percent(share.selfShare)} / ${percent(share.externalShare)}`);
+  console.log(`  Self capped:         ${share.selfCapped} candidates`);
+  for (const [type, value] of Object.entries(share.bySourceType)) {
+    console.log(`  ${type.padEnd(12)}: ${percent(value ?? 0)}`);
+  }
+  for (const day of share.daily.slice(-7)) {
+    console.log(`  ${day.date}: ${day.queries} queries, self ${percent(day.selfShare)}`);
+  }
+}
+
+function rebuildIndex(rag: ReturnType<typeof createRAGSystem>) {
+  console.log('[Rebuilding ANN index]');
+  console.log();
+
+  const result = rag.rebuildIndex();
+  const lexicalChunks = rag.rebuildLexicalIndex();
+  const stats = rag.getStats().annIndex;
+
+  console.log(`  Indexed chunks:  ${result.indexedChunks}`);
+  if (result.skippedChunks > 0) {
+    console.log(`  Skipped chunks:  ${result.skippedChunks} (embedding dimension differs)`);
+  }
+  console.log(`  Dimension:       ${stats.dimension ?? '-'}`);
+  console.log(`  Duration:        ${result.durationMs}ms`);
+  console.log(`  Index file:      ${stats.indexPath} (${formatBytes(stats.indexFileSize)})`);
+  console.log(`  Lexical (FTS5):  ${lexicalChunks} chunks`);
+}
+
+async function reembedAll(rag: ReturnType<typeof createRAGSystem>) {
+  const stats = rag.getStats();
+  console.log('[Re-embedding all chunks]');
+  console.log(`  From:   ${stats.storedEmbedding ? `${stats.storedEmbedding.modelId} (${stats.storedEmbedding.dimension}d)` : 'unrecorded'}`);
+  console.log(`  To:     ${stats.embeddingModel}`);
+  console.log(`  Chunks: ${stats.totalChunks}`);
+  console.log();
+
+  let lastReported = 0;
+  const result = await rag.reembedAll({
+    onProgress: (done, total) => {
+      if (done - lastReported >= 500 || done === total) {
+        console.log(`  ${done}/${total}`);
+        lastReported = done;
+      }
+    },
+  });
+
+  console.log();
+  console.log(`  Re-embedded ${result.reembedded} chunks in ${result.durationMs}ms`);
+  console.log('  The ANN index will be rebuilt on the next search.');
+}
+
+async function watchKnowledge(rag: ReturnType<typeof createRAGSystem>) {
+  const watcher = rag.createWatcher();
+  console.log('[Watching knowledge directories]  (Ctrl+C to stop)');
+  console.log();
+
+  watcher.on('ingestion', (event: KnowledgeIngestionEvent) => {
+    const time = new Date(event.timestamp).toLocaleTimeString();
+    const file = event.file ? path.relative(process.cwd(), event.file) : '';
+    switch (event.type) {
+      case 'added':
+      case 'changed':
+        console.log(`  ${time} ${event.type.padEnd(8)} ${file} (${event.chunks} chunks, ${event.sourceType})`);
+        break;
+      case 'removed':
+        console.log(`  ${time} removed  ${file} (${event.chunks} chunks)`);
+        break;
+      case 'error':
+        console.log(`  ${time} error    ${file}: ${event.error}`);
+        break;
+      case 'sync_completed':
+        console.log(
+          `  ${time} synced   ${event.summary?.processed} updated, ${event.summary?.removed} removed, ` +
+            `${event.summary?.skipped} unchanged (${event.totalChunks} chunks total)`
+        );
+        break;
+    }
+  });
+
+  await watcher.start();
+  await new Promise<void>((resolve) => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+  await watcher.stop();
+  rag.close();
+}
+
+async function searchKnowledge(
+  rag: ReturnType<typeof createRAGSystem>,
+  query: string,
+  options: string[]
+) {
+  const readOption = (name: string): string | undefined => {
+    const position = options.indexOf(name);
+    return position !== -1 ? options[position + 1] : undefined;
+  };
+  const config = rag.getConfig();
+  const mode = (readOption('--mode') ?? (config.hybrid.enabled ? 'hybrid' : 'vector')) as SearchMode;
+  const topK = Number(readOption('--top-k') ?? config.topK);
+  const sourceTypes = readOption('--types')?.split(',') as SourceType[] | undefined;
+  const policy = options.includes('--no-policy') ? false : undefined;
+
+  console.log(`[Search: ${mode}]`);
+  console.log(`  Query: ${query}`);
+  console.log(`  Segmented: ${segmentForSearch(query).join(' / ')}`);
+  if (mode === 'hybrid') {
+    console.log(`  RRF k=${config.hybrid.rrfK}, weights vector ${config.hybrid.vectorWeight} / lexical ${config.hybrid.lexicalWeight}`);
+  }
+  console.log();
+
+  const results = await rag.search(query, { mode, topK, sourceTypes, policy });
+  if (results.length === 0) {
+    console.log('  No results.');
+    return;
+  }
+
+  console.log('  #   fused    vec  lex  cosine  bm25    source');
+  results.forEach((result, index) => {
+    const ranking = result.ranking;
+    const columns = [
+      String(index + 1).padEnd(3),
+      (ranking?.fusedScore ? ranking.fusedScore.toFixed(4) : '-').padEnd(8),
+      String(ranking?.vectorRank ?? (mode === 'vector' ? index + 1 : '-')).padEnd(4),
+      String(ranking?.lexicalRank ?? '-').padEnd(4),
+      result.similarity.toFixed(3).padEnd(7),
+      (ranking?.bm25 !== undefined ? ranking.bm25.toFixed(2) : '-').padEnd(7),
+      `${result.sourceType}: ${result.metadata.title || result.sourceFile}`,
+    ];
+    console.log(`  ${columns.join(' ')}`);
+    console.log(`      ${result.content.replace(/\s+/g, ' ').slice(0, 100)}`);
+  });
+}
+
+async function evaluateKnowledge(goldenPath: string, options: string[]) {
+  const readOption = (name: string): string | undefined => {
+    const position = options.indexOf(name);
+    return position !== -1 ? options[position + 1] : undefined;
+  };
+  const golden = loadGoldenSet(goldenPath);
+  const variantsPath = readOption('--variants');
+  const variants = variantsPath
+    ? (JSON.parse(fs.readFileSync(variantsPath, 'utf-8')) as RAGEvalVariant[])
+    : undefined;
+  const k = readOption('--k')?.split(',').map(Number);
+  const jsonPath = readOption('--json');
+
+  console.log('[Retrieval evaluation]');
+  console.log(`  Golden set: ${goldenPath} (${golden.queries.length} queries)`);
+  console.log(`  Corpus:     ${(golden.corpus ?? ['(knowledge directories)']).map((dir) => path.relative(process.cwd(), dir) || '.').join(', ')}`);
+  console.log();
+
+  const report = await evaluateRetrieval(golden, {
+    variants,
+    k,
+    onVariant: (variant, index, total) => console.log(`  Evaluating ${index + 1}/${total}: ${variant.name}`),
+  });
+  console.log();
+
+  const ks = report.k;
+  const header = ['variant'.padEnd(20), ...ks.map((value) => `R@${value}`.padEnd(7)), 'MRR'.padEnd(7), ...ks.map((value) => `nDCG@${value}`.padEnd(8)), 'chunks'.padEnd(7), 'ms/query'];
+  console.log(`  ${header.join(' ')}`);
+  for (const variant of report.variants) {
+    const columns = [
+      variant.name.padEnd(20),
+      ...ks.map((value) => variant.metrics.recallAtK[value].toFixed(3).padEnd(7)),
+      variant.metrics.mrr.toFixed(3).padEnd(7),
+      ...ks.map((value) => variant.metrics.ndcgAtK[value].toFixed(3).padEnd(8)),
+      String(variant.chunks).padEnd(7),
+      variant.meanLatencyMs.toFixed(1),
+    ];
+    console.log(`  ${columns.join(' ')}`);
+    console.log(
+      `      ${variant.config.mode}, ${variant.config.embeddingModel}, chunk ${variant.config.chunkSize}/${variant.config.chunkOverlap}, ` +
+        `threshold ${variant.config.similarityThreshold}${variant.config.policy ? ', policy' : ''}`
+    );
+  }
+
+  console.log();
+  console.log(`  Best (nDCG@${ks[ks.length - 1]}): ${report.best}`);
+
+  const best = report.variants.find((variant) => variant.name === report.best);
+  const misses = best?.queries.filter((query) => query.missed.length > 0) ?? [];
+  if (misses.length > 0) {
+    console.log();
+    console.log(`  Missed by ${report.best}:`);
+    for (const query of misses) {
+      const missed = query.missed.map((expectation) => expectation.source ?? `"${expectation.contains}"`).join(', ');
+      console.log(`    ${query.id}: ${query.query} → ${missed}`);
+    }
+  }
+
+  if (jsonPath) {
+    fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+    console.log();
+    console.log(`  Report written to ${jsonPath}`);
+  }
+}
+
+function benchmarkIndex(rag: ReturnType<typeof createRAGSystem>, options: string[]) {
+  const readOption = (name: string): number | undefined => {
+    const position = options.indexOf(name);
+    return position !== -1 ? Number(options[position + 1]) : undefined;
+  };
+  const queries = readOption('--queries') ?? 100;
+  const topK = readOption('--top-k') ?? 10;
+  const efValues = options.includes('--ef')
+    ? options[options.indexOf('--ef') + 1].split(',').map(Number)
+    : [rag.getConfig().annIndex.efSearch];
+
+  console.log('[ANN vs brute-force benchmark]');
+  console.log(`  Queries: ${queries} stored embeddings, top_k: ${topK}`);
+  console.log();
+
+  for (const efSearch of efValues) {
+    const result = rag.benchmarkIndex({ queries, topK, efSearch });
+    if (result.queries === 0) {
+      console.log('  No chunks to benchmark. Ingest some content first.');
+      return;
+    }
+
+    console.log(`  ef_search=${efSearch} (${result.totalChunks} chunks)`);
+    console.log(`    Recall@${topK}:     ${(result.recallAtK * 100).toFixed(1)}%`);
+    console.log(`    Brute force:   mean ${result.exact.meanMs.toFixed(2)}ms / p95 ${result.exact.p95Ms.toFixed(2)}ms`);
+    console.log(`    ANN (HNSW):    mean ${result.ann.meanMs.toFixed(2)}ms / p95 ${result.ann.p95Ms.toFixed(2)}ms`);
+    console.log(`    Speedup:       ${result.speedup.toFixed(1)}x`);
+  }
 }
 
 async function checkHealth(rag: ReturnType<typeof createRAGSystem>) {
@@ -309,6 +620,16 @@ function showHelp() {
   console.log('  clear, --clear          Clear all vector data');
   console.log('  stats, --stats          Show statistics');
   console.log('  health, --health        Check system health');
+  console.log('  rebuild-index           Rebuild the ANN (HNSW) index from all chunks');
+  console.log('  bench-index [options]   Compare ANN recall/latency with brute force');
+  console.log('                          --queries <n> --top-k <k> --ef <ef[,ef...]>');
+  console.log('  reembed                 Re-embed all chunks with RAG_EMBEDDING_PROVIDER (resumable)');
+  console.log('  watch, --watch          Re-ingest changed files and drop deleted ones until Ctrl+C');
+  console.log('  search "<query>" [opts] Show fused vector + BM25 rankings for a query');
+  console.log('                          --mode hybrid|vector|lexical --top-k <k> --types <a,b>');
+  console.log('                          --no-policy (skip quotas, recency, MMR and the self cap)');
+  console.log('  eval <golden> [opts]    Compare recall@k, MRR and nDCG across config variants');
+  console.log('                          --variants <file.json> --k <k[,k...]> --json <report.json>');
   console.log('  help, --help, -h        Show this help');
   console.log();
   console.log('Examples:');
@@ -316,6 +637,9 @@ function showHelp() {
   console.log('  npm run rag:ingest -- --github        # Ingest from Yui Protocol GitHub');
   console.log('  npm run rag:ingest -- --file doc.md   # Ingest single file');
   console.log('  npm run rag:ingest -- --stats         # Show stats');
+  console.log('  npm run rag:index:bench -- --ef 16,64,200');
+  console.log('  npm run rag:search -- "意識の連続性" --mode hybrid --top-k 10');
+  console.log('  npm run rag:eval -- tests/fixtures/rag-eval/golden.json --k 1,5,10');
 }
 
 function formatBytes(bytes: number): string {
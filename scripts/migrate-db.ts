@@ -0,0 +1,99 @@
+/**
+ * Database Migration Script
+ * スキーマバージョンの確認と番号付きマイグレーションの適用
+ *
+ * Usage:
+ *   npm run db:migrate                          # Apply pending migrations
+ *   npm run db:migrate -- --dry-run             # Run pending migrations and roll back (no changes)
+ *   npm run db:migrate -- --status              # Show current version and pending migrations
+ *   npm run db:migrate -- --db ./data/other.db  # Custom database path
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import BetterSqlite3 from 'better-sqlite3';
+import { LATEST_SCHEMA_VERSION, getPendingMigrations, getSchemaVersion, runSchemaMigrations } from '../src/server/schema-migrations.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface MigrateOptions {
+  dbPath: string;
+  dryRun: boolean;
+  statusOnly: boolean;
+}
+
+function parseArgs(): MigrateOptions {
+  const args = process.argv.slice(2);
+  const options: MigrateOptions = {
+    dbPath: path.resolve(__dirname, '../data/aenea_consciousness.db'),
+    dryRun: false,
+    statusOnly: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--db':
+        options.dbPath = path.resolve(args[++i]);
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--status':
+        options.statusOnly = true;
+        break;
+    }
+  }
+
+  return options;
+}
+
+function migrate(): void {
+  const options = parseArgs();
+
+  if (!fs.existsSync(options.dbPath)) {
+    console.error(`❌ データベースファイルが見つかりません: ${options.dbPath}`);
+    process.exit(1);
+  }
+
+  const db = new BetterSqlite3(options.dbPath);
+  try {
+    const current = getSchemaVersion(db);
+    console.log(`📦 データベース: ${options.dbPath}`);
+    console.log(`   スキーマバージョン: v${current} (このビルド: v${LATEST_SCHEMA_VERSION})`);
+
+    if (current > LATEST_SCHEMA_VERSION) {
+      console.error('❌ データベースの方が新しいバージョンです。Aeneaを更新してください。');
+      process.exit(1);
+    }
+
+    const pending = getPendingMigrations(db);
+    if (pending.length === 0) {
+      console.log('✅ マイグレーションは不要です');
+      return;
+    }
+
+    console.log(`📝 未適用のマイグレーション (${pending.length}):`);
+    pending.forEach(migration => console.log(`   - ${migration.version}_${migration.name}`));
+
+    if (options.statusOnly) {
+      return;
+    }
+
+    const result = runSchemaMigrations(db, { dryRun: options.dryRun });
+    if (result.dryRun) {
+      console.log(`🧪 ドライラン成功: v${result.fromVersion} -> v${result.toVersion} (変更はロールバックされました)`);
+    } else {
+      console.log(`✅ マイグレーション完了: v${result.fromVersion} -> v${result.toVersion}`);
+    }
+  } catch (error) {
+    console.error('❌ マイグレーション中にエラーが発生しました:', error);
+    process.exit(1);
+  } finally {
+    db.close();
+  }
+}
+
+// スクリプト実行
+migrate();
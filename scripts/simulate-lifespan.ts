@@ -0,0 +1,154 @@
+/**
+ * Lifespan Simulation Script
+ * 仮想時計と決定論的LLM（scripted）で意識ループを高速に回し、軌跡をレポートする
+ *
+ * Usage:
+ *   npm run simulate                                       # 1000 cycles, report to data/simulations/
+ *   npm run simulate -- --cycles 5000 --lifespan 3000      # Run until death or 5000 cycles
+ *   npm run simulate -- --stimuli ./schedule.json          # Stimulus schedule (JSON array)
+ *   npm run simulate -- --seed 7 --sample-every 10         # Seed the scripted agents, thin the trajectory
+ *   npm run simulate -- --out ./report.json --csv ./trajectory.csv
+ *
+ * Stimulus schedule entries:
+ *   { "atCycle": 100, "question": "..." }
+ *   { "every": 50, "from": 200, "until": 800, "affect": { "type": "social", "valence": -0.6, "arousal": 0.8, "significance": 0.7 } }
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { logger, LogLevel } from '../src/server/logger.js';
+import { runLifespanSimulation, trajectoryToCsv, SimulationOptions, SimulationStimulus } from '../src/server/lifespan-simulator.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface SimulateArgs {
+  simulation: Omit<SimulationOptions, 'onProgress'>;
+  outPath: string;
+  csvPath: string | null;
+  verbose: boolean;
+}
+
+function parseArgs(): SimulateArgs {
+  const args = process.argv.slice(2);
+  const runId = `sim_${Date.now()}`;
+  const outputDir = path.resolve(__dirname, '../data/simulations');
+  const parsed: SimulateArgs = {
+    simulation: {
+      dbPath: path.join(outputDir, `${runId}.db`),
+      cycles: 1000
+    },
+    outPath: path.join(outputDir, `${runId}.json`),
+    csvPath: null,
+    verbose: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--cycles':
+        parsed.simulation.cycles = parseInt(args[++i], 10);
+        break;
+      case '--lifespan':
+        parsed.simulation.lifespanMax = parseInt(args[++i], 10);
+        break;
+      case '--mode':
+        parsed.simulation.mortalityMode = args[++i] === 'A' ? 'A' : 'B';
+        break;
+      case '--seed':
+        parsed.simulation.seed = parseInt(args[++i], 10);
+        break;
+      case '--fixtures':
+        parsed.simulation.fixtures = path.resolve(args[++i]);
+        break;
+      case '--energy':
+        parsed.simulation.initialEnergy = parseFloat(args[++i]);
+        break;
+      case '--sample-every':
+        parsed.simulation.sampleEvery = parseInt(args[++i], 10);
+        break;
+      case '--stimuli':
+        parsed.simulation.stimuli = loadStimuli(path.resolve(args[++i]));
+        break;
+      case '--db':
+        parsed.simulation.dbPath = path.resolve(args[++i]);
+        break;
+      case '--out':
+        parsed.outPath = path.resolve(args[++i]);
+        break;
+      case '--csv':
+        parsed.csvPath = path.resolve(args[++i]);
+        break;
+      case '--verbose':
+        parsed.verbose = true;
+        break;
+    }
+  }
+
+  return parsed;
+}
+
+function loadStimuli(filePath: string): SimulationStimulus[] {
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!Array.isArray(data)) {
+    throw new Error(`Stimulus schedule must be a JSON array: ${filePath}`);
+  }
+  return data;
+}
+
+async function simulate(): Promise<void> {
+  const args = parseArgs();
+  const print = console.log.bind(console);
+
+  if (!Number.isFinite(args.simulation.cycles) || args.simulation.cycles <= 0) {
+    console.error('❌ --cycles には正の整数を指定してください');
+    process.exit(1);
+  }
+
+  // The consciousness loop is chatty; keep the console for progress unless asked otherwise
+  if (!args.verbose) {
+    logger.setLevel(LogLevel.ERROR);
+    console.log = () => undefined;
+  }
+
+  print(`🧪 シミュレーション開始: ${args.simulation.cycles} サイクル`);
+  print(`   データベース: ${args.simulation.dbPath}`);
+
+  const progressEvery = Math.max(1, Math.floor(args.simulation.cycles / 20));
+  const report = await runLifespanSimulation({
+    ...args.simulation,
+    onProgress: (sample) => {
+      if (sample.cycle % progressEvery === 0) {
+        const w = sample.dpdWeights;
+        print(`   [${sample.cycle}] DPD E${w.empathy.toFixed(3)}/C${w.coherence.toFixed(3)}/D${w.dissonance.toFixed(3)} | ${sample.somniaMode} | energy ${sample.energy.toFixed(1)} | vitality ${sample.vitality !== null ? (sample.vitality * 100).toFixed(0) + '%' : '-'} | beliefs ${sample.beliefCount}`);
+      }
+    }
+  });
+
+  fs.mkdirSync(path.dirname(args.outPath), { recursive: true });
+  fs.writeFileSync(args.outPath, JSON.stringify(report, null, 2));
+  if (args.csvPath) {
+    fs.mkdirSync(path.dirname(args.csvPath), { recursive: true });
+    fs.writeFileSync(args.csvPath, trajectoryToCsv(report));
+  }
+
+  const days = report.virtualDurationMs / (24 * 60 * 60 * 1000);
+  print(`\n✅ 終了 (${report.endedBy}${report.error ? `: ${report.error}` : ''})`);
+  print(`   完了サイクル: ${report.cyclesCompleted} (失敗 ${report.cyclesFailed})`);
+  print(`   仮想時間: ${days.toFixed(2)} 日 / 実時間: ${(report.realDurationMs / 1000).toFixed(1)} 秒`);
+  print(`   睡眠: ${report.sleep.count} 回 (${report.sleep.perSimulatedDay.toFixed(2)} 回/日)`);
+  print(`   Somnia占有率: ${Object.entries(report.somniaOccupancy).map(([mode, share]) => `${mode} ${(share * 100).toFixed(1)}%`).join(', ')}`);
+  if (report.final) {
+    const w = report.final.dpdWeights;
+    print(`   最終DPD: E${w.empathy.toFixed(3)} / C${w.coherence.toFixed(3)} / D${w.dissonance.toFixed(3)}, 信念 ${report.final.beliefCount}`);
+  }
+  print(`📄 レポート: ${args.outPath}${args.csvPath ? `\n📈 CSV: ${args.csvPath}` : ''}`);
+
+  process.exit(report.endedBy === 'error' ? 1 : 0);
+}
+
+// スクリプト実行
+simulate().catch((error) => {
+  console.error('❌ シミュレーション中にエラーが発生しました:', error);
+  process.exit(1);
+});
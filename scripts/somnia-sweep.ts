@@ -0,0 +1,175 @@
+/**
+ * SOMNIA Parameter Sweep Script
+ * 状態遷移閾値・θ(t)パラメータ・ADD重みの感度分析
+ *
+ * Usage:
+ *   npm run somnia:sweep                                                   # One-at-a-time scan of all thresholds and θ params
+ *   npm run somnia:sweep -- --oat stateTransitions.dreamThreshold --factors 0.25,0.5,1,2
+ *   npm run somnia:sweep -- --grid stateTransitions.dreamThreshold=0.5,1,1.5 --grid logitParams.b1=0.6,0.9
+ *   npm run somnia:sweep -- --random 200 --range logitParams.alpha=0.05:0.5 --range stateTransitions.flowPsiThreshold=0.6:0.95
+ *   npm run somnia:sweep -- --scenarios stress,oscillating --ticks 500 --mode ode
+ *   npm run somnia:sweep -- --out ./sweep.json --csv ./sweep.csv
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { logger, LogLevel } from '../src/server/logger.js';
+import {
+  STIMULUS_SCENARIOS,
+  SweepParameter,
+  SweepPoint,
+  StimulusScenario,
+  expandGrid,
+  getDefaultParameters,
+  oneAtATimePoints,
+  runParameterSweep,
+  sampleRandomPoints,
+  sweepResultToCsv
+} from '../src/aenea/somnia/parameter-sweep.js';
+import { TemporalAnchoringMode } from '../src/types/somnia-types.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface SweepArgs {
+  grid: Partial<Record<SweepParameter, number[]>>;
+  ranges: Partial<Record<SweepParameter, [number, number]>>;
+  randomSamples: number;
+  oat: SweepParameter[];
+  factors?: number[];
+  scenarios: StimulusScenario[];
+  ticks: number;
+  seed: number;
+  mode: TemporalAnchoringMode;
+  outPath: string;
+  csvPath: string;
+}
+
+function parseParameter(name: string): SweepParameter {
+  if (!(name in getDefaultParameters())) {
+    console.error(`❌ 未知のパラメータ: ${name}`);
+    console.error(`   利用可能: ${Object.keys(getDefaultParameters()).join(', ')}`);
+    process.exit(1);
+  }
+  return name as SweepParameter;
+}
+
+function parseArgs(): SweepArgs {
+  const args = process.argv.slice(2);
+  const runId = `somnia_sweep_${Date.now()}`;
+  const outputDir = path.resolve(__dirname, '../data/sweeps');
+  const parsed: SweepArgs = {
+    grid: {},
+    ranges: {},
+    randomSamples: 0,
+    oat: [],
+    scenarios: STIMULUS_SCENARIOS,
+    ticks: 300,
+    seed: 42,
+    mode: 'logit',
+    outPath: path.join(outputDir, `${runId}.json`),
+    csvPath: path.join(outputDir, `${runId}.csv`)
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--grid': {
+        const [name, values] = args[++i].split('=');
+        parsed.grid[parseParameter(name)] = values.split(',').map(Number);
+        break;
+      }
+      case '--random':
+        parsed.randomSamples = parseInt(args[++i], 10);
+        break;
+      case '--range': {
+        const [name, bounds] = args[++i].split('=');
+        const [min, max] = bounds.split(':').map(Number);
+        parsed.ranges[parseParameter(name)] = [min, max];
+        break;
+      }
+      case '--oat':
+        parsed.oat = args[++i].split(',').map(parseParameter);
+        break;
+      case '--factors':
+        parsed.factors = args[++i].split(',').map(Number);
+        break;
+      case '--scenarios':
+        parsed.scenarios = args[++i].split(',').filter((s): s is StimulusScenario => STIMULUS_SCENARIOS.includes(s as StimulusScenario));
+        break;
+      case '--ticks':
+        parsed.ticks = parseInt(args[++i], 10);
+        break;
+      case '--seed':
+        parsed.seed = parseInt(args[++i], 10);
+        break;
+      case '--mode':
+        parsed.mode = args[++i] === 'ode' ? 'ode' : 'logit';
+        break;
+      case '--out':
+        parsed.outPath = path.resolve(args[++i]);
+        break;
+      case '--csv':
+        parsed.csvPath = path.resolve(args[++i]);
+        break;
+    }
+  }
+
+  return parsed;
+}
+
+function buildPoints(args: SweepArgs): SweepPoint[] {
+  if (Object.keys(args.grid).length > 0) {
+    return expandGrid(args.grid);
+  }
+  if (args.randomSamples > 0) {
+    return sampleRandomPoints(args.ranges, args.randomSamples, args.seed);
+  }
+
+  // Default: one-at-a-time around the defaults of the parameters that drive the dynamics
+  const parameters = args.oat.length > 0
+    ? args.oat
+    : (Object.keys(getDefaultParameters()) as SweepParameter[]).filter(name =>
+        name.startsWith('stateTransitions.') || name.startsWith(args.mode === 'ode' ? 'odeParams.' : 'logitParams.'));
+  return oneAtATimePoints(parameters, args.factors);
+}
+
+async function sweep(): Promise<void> {
+  const args = parseArgs();
+  const points = buildPoints(args);
+
+  // Each SOMNIA transition is logged at INFO; keep the sweep output readable
+  logger.setLevel(LogLevel.WARN);
+
+  console.log(`🔬 SOMNIAパラメータスイープ: ${points.length} 点 × ${args.scenarios.length} シナリオ (${args.ticks} ticks, ${args.mode})`);
+  const result = await runParameterSweep(points, {
+    scenarios: args.scenarios,
+    ticks: args.ticks,
+    seed: args.seed,
+    temporalMode: args.mode
+  });
+
+  fs.mkdirSync(path.dirname(args.outPath), { recursive: true });
+  fs.writeFileSync(args.outPath, JSON.stringify(result, null, 2));
+  fs.mkdirSync(path.dirname(args.csvPath), { recursive: true });
+  fs.writeFileSync(args.csvPath, sweepResultToCsv(result));
+
+  console.log('\n📊 感度 (Pearson r, シナリオ平均):');
+  for (const [parameter, metrics] of Object.entries(result.sensitivity)) {
+    const strongest = Object.entries(metrics)
+      .filter((entry): entry is [string, number] => entry[1] !== null && Math.abs(entry[1]) >= 0.005)
+      .sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+      .slice(0, 3)
+      .map(([metric, r]) => `${metric} ${r >= 0 ? '+' : ''}${r.toFixed(2)}`);
+    console.log(`   ${parameter.padEnd(44)} ${strongest.length > 0 ? strongest.join(', ') : '(影響なし)'}`);
+  }
+
+  console.log(`\n📄 JSON: ${args.outPath}`);
+  console.log(`📈 CSV:  ${args.csvPath}`);
+}
+
+// スクリプト実行
+sweep().catch((error) => {
+  console.error('❌ スイープ中にエラーが発生しました:', error);
+  process.exit(1);
+});
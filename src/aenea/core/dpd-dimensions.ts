@@ -0,0 +1,510 @@
+/**
+ * DPD Dimension Registry - 価値次元レジストリ
+ * 価値軸の拡張 (Kachi-jiku no Kakuchō) - Extending the axes of value
+ *
+ * Empathy, Coherence and Dissonance are the three core DPD dimensions. Additional value
+ * axes (curiosity, humility, aesthetic sensitivity, ...) are declared here with their
+ * scorer (keyword heuristic + optional LLM prompt), score target, weight bounds and SAIP
+ * mapping. Scoring, weight updates, storage, the /api/consciousness/dpd APIs and the UI
+ * iterate over the registry instead of hard-coding three fields.
+ *
+ * Core dimensions stay as top-level fields of DPDWeights / DPDScores; registered
+ * dimensions live in their `dimensions` map.
+ *
+ * 「三つの柱は土台であって、天井ではない」
+ */
+
+import { DPDWeights, DPDScores } from '../../types/dpd-types.js';
+import { StructuredThought, MutualReflection, AuditorResult } from '../../types/aenea-types.js';
+import { AffectiveCoreState, SomaticState, AffectiveBias } from '../../types/somnia-types.js';
+
+export const CORE_DPD_DIMENSIONS = ['empathy', 'coherence', 'dissonance'] as const;
+export type CoreDPDDimension = typeof CORE_DPD_DIMENSIONS[number];
+
+// Slack when checking that weight bounds can add up to 1
+const BOUNDS_TOLERANCE = 1e-9;
+
+/**
+ * Inputs available to a dimension scorer (same as the built-in S4 scorers)
+ */
+export interface DPDDimensionScoringInput {
+  thoughts: StructuredThought[];
+  reflections: MutualReflection[];
+  auditorResult: AuditorResult | null;
+}
+
+export interface DPDDimensionScorer {
+  heuristic: (input: DPDDimensionScoringInput) => number;  // 0-1, used without an evaluator agent and as LLM fallback
+  llm?: {
+    scoreLabel: string;          // Label the evaluator answers with (e.g. '好奇心スコア')
+    criteria: string[];          // 評価要点 listed in the prompt
+  };
+}
+
+/**
+ * How a dimension takes part in SAIP (Somnia-AENEA Interface Protocol)
+ */
+export interface DPDDimensionSAIPMapping {
+  emotive?: (affective: AffectiveCoreState, somatic: SomaticState) => number;  // SOMNIA → DPD influence (0-1)
+  reflective?: { bias: keyof AffectiveBias; factor: number };                 // DPD score → affective bias
+}
+
+export interface DPDDimensionDefinition {
+  id: string;
+  label: string;
+  labelJa: string;
+  description: string;
+  direction: 'maximize' | 'minimize';
+  target: number;                // Score the weight updater pulls toward (0 for minimized dimensions)
+  minWeight: number;             // Intersected with the updater's global bounds
+  maxWeight: number;
+  defaultWeight: number;         // Share given to the dimension before normalization
+  color: string;
+  scorer?: DPDDimensionScorer;   // Required for non-core dimensions (core ones are scored by DPDEngine)
+  saip?: DPDDimensionSAIPMapping;
+}
+
+/**
+ * Serializable view of a dimension (APIs / UI)
+ */
+export interface DPDDimensionDescriptor {
+  id: string;
+  label: string;
+  labelJa: string;
+  description: string;
+  direction: 'maximize' | 'minimize';
+  target: number;
+  minWeight: number;
+  maxWeight: number;
+  defaultWeight: number;
+  color: string;
+  core: boolean;
+  scoring: 'builtin' | 'heuristic' | 'llm';
+  saip: { emotive: boolean; reflective: keyof AffectiveBias | null };
+}
+
+type DimensionValues = Pick<DPDWeights, CoreDPDDimension | 'dimensions'>;
+
+const CORE_DEFINITIONS: DPDDimensionDefinition[] = [
+  {
+    id: 'empathy',
+    label: 'Empathy',
+    labelJa: '共感',
+    description: 'Emotional recognition, perspective taking and compassionate response',
+    direction: 'maximize',
+    target: 0.75,
+    minWeight: 0,
+    maxWeight: 1,
+    defaultWeight: 0.33,
+    color: '#00ff41'
+  },
+  {
+    id: 'coherence',
+    label: 'Coherence',
+    labelJa: '整合性',
+    description: 'Logical consistency, value alignment and goal congruence',
+    direction: 'maximize',
+    target: 0.75,
+    minWeight: 0,
+    maxWeight: 1,
+    defaultWeight: 0.33,
+    color: '#00ffff'
+  },
+  {
+    id: 'dissonance',
+    label: 'Dissonance',
+    labelJa: '不協和',
+    description: 'Ethical dissonance: deviation from a self-consistent moral trajectory',
+    direction: 'minimize',
+    target: 0,
+    minWeight: 0,
+    maxWeight: 1,
+    defaultWeight: 0.34,
+    color: '#ffff00'
+  }
+];
+
+/**
+ * Keyword-density heuristic (keywords per 100 characters through a sigmoid), the same
+ * shape as the critical-mode fallback scorer
+ */
+export function keywordHeuristic(keywords: string[]): (input: DPDDimensionScoringInput) => number {
+  return ({ thoughts }) => {
+    const text = thoughts.map(t => t.content || '').join(' ').toLowerCase();
+    if (!text) return 0.5;
+
+    const count = keywords.reduce((sum, keyword) => sum + text.split(keyword.toLowerCase()).length - 1, 0);
+    const density = count / (Math.max(100, text.length) / 100);
+    const score = 1 / (1 + Math.exp(-1.5 * (density - 0.3)));
+    return Math.max(0.1, Math.min(0.9, score));
+  };
+}
+
+/**
+ * Optional value axes that can be enabled with DPD_DIMENSIONS=curiosity,humility,...
+ */
+export const OPTIONAL_DPD_DIMENSIONS: DPDDimensionDefinition[] = [
+  {
+    id: 'curiosity',
+    label: 'Curiosity',
+    labelJa: '好奇心',
+    description: 'Drive to open new questions and explore the unknown',
+    direction: 'maximize',
+    target: 0.7,
+    minWeight: 0.05,
+    maxWeight: 0.3,
+    defaultWeight: 0.1,
+    color: '#ff8800',
+    scorer: {
+      heuristic: keywordHeuristic(['なぜ', '問い', '探求', '好奇', '未知', '不思議', '発見', '知りたい', '可能性', '探索']),
+      llm: { scoreLabel: '好奇心スコア', criteria: ['新しい問いの創出', '未知への開かれ', '既存の前提を超える探索'] }
+    },
+    saip: {
+      emotive: (affective, somatic) => Math.max(0, Math.min(1, somatic.mu.dopamine * 0.6 + (1 - affective.theta) * 0.4))
+    }
+  },
+  {
+    id: 'humility',
+    label: 'Humility',
+    labelJa: '謙虚さ',
+    description: 'Acknowledging the limits of one\'s own understanding',
+    direction: 'maximize',
+    target: 0.7,
+    minWeight: 0.05,
+    maxWeight: 0.3,
+    defaultWeight: 0.1,
+    color: '#b388ff',
+    scorer: {
+      heuristic: keywordHeuristic(['かもしれない', 'わからない', '分からない', '限界', '不確か', '謙虚', '仮説', '誤り', '確信できない', '一つの見方']),
+      llm: { scoreLabel: '謙虚さスコア', criteria: ['自らの理解の限界の自覚', '断定の回避と仮説的な語り', '他の見方への開かれ'] }
+    },
+    saip: {
+      reflective: { bias: 'coherenceBias', factor: 0.1 }
+    }
+  },
+  {
+    id: 'aesthetic',
+    label: 'Aesthetic Sensitivity',
+    labelJa: '美的感受性',
+    description: 'Sensitivity to beauty, form and resonance in thought and expression',
+    direction: 'maximize',
+    target: 0.65,
+    minWeight: 0.05,
+    maxWeight: 0.3,
+    defaultWeight: 0.1,
+    color: '#ff4fa3',
+    scorer: {
+      heuristic: keywordHeuristic(['美', '響き', '調和', '形', '詩', '余白', '静けさ', '光', '色', 'リズム']),
+      llm: { scoreLabel: '美的感受性スコア', criteria: ['表現の美しさ・形式への感受性', '比喩やイメージの豊かさ', '調和と余韻'] }
+    },
+    saip: {
+      emotive: (affective, somatic) => Math.max(0, Math.min(1, affective.psi * 0.5 + (somatic.lambda + 1) / 4)),
+      reflective: { bias: 'pleasureBias', factor: 0.15 }
+    }
+  }
+];
+
+/**
+ * Parse a comma-separated dimension id list (e.g. DPD_DIMENSIONS)
+ */
+export function parseDimensionList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value.split(',').map(id => id.trim()).filter(id => id.length > 0);
+}
+
+export function isCoreDimension(id: string): id is CoreDPDDimension {
+  return (CORE_DPD_DIMENSIONS as readonly string[]).includes(id);
+}
+
+/**
+ * Registry of DPD value dimensions
+ * DPD価値次元のレジストリ
+ */
+export class DPDDimensionRegistry {
+  private definitions = new Map<string, DPDDimensionDefinition>();
+
+  constructor(extra: DPDDimensionDefinition[] = []) {
+    for (const definition of [...CORE_DEFINITIONS, ...extra]) {
+      this.register(definition);
+    }
+  }
+
+  register(definition: DPDDimensionDefinition): void {
+    if (!/^[a-z][a-z0-9_]*$/.test(definition.id)) {
+      throw new Error(`Invalid DPD dimension id '${definition.id}' (lowercase letters, digits and _)`);
+    }
+    if (this.definitions.has(definition.id)) {
+      throw new Error(`DPD dimension '${definition.id}' is already registered`);
+    }
+    if (!isCoreDimension(definition.id) && !definition.scorer) {
+      throw new Error(`DPD dimension '${definition.id}' needs a scorer`);
+    }
+    if (definition.minWeight < 0 || definition.maxWeight > 1 || definition.minWeight > definition.maxWeight) {
+      throw new Error(`DPD dimension '${definition.id}' has invalid weight bounds [${definition.minWeight}, ${definition.maxWeight}]`);
+    }
+    if (definition.target < 0 || definition.target > 1) {
+      throw new Error(`DPD dimension '${definition.id}' has a target outside [0, 1]`);
+    }
+    this.definitions.set(definition.id, definition);
+  }
+
+  /**
+   * Remove a registered (non-core) dimension
+   */
+  unregister(id: string): boolean {
+    if (isCoreDimension(id)) {
+      throw new Error(`Core DPD dimension '${id}' cannot be removed`);
+    }
+    return this.definitions.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.definitions.has(id);
+  }
+
+  get(id: string): DPDDimensionDefinition | undefined {
+    return this.definitions.get(id);
+  }
+
+  /**
+   * All dimensions, core three first
+   */
+  list(): DPDDimensionDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  ids(): string[] {
+    return [...this.definitions.keys()];
+  }
+
+  /**
+   * Registered dimensions beyond the core three
+   */
+  extras(): DPDDimensionDefinition[] {
+    return this.list().filter(definition => !isCoreDimension(definition.id));
+  }
+
+  /**
+   * Independent copy with overridden targets / weight bounds (e.g. counterfactual replays).
+   * The copy is validated like a registration; this registry is left untouched.
+   */
+  derive(overrides: Record<string, Partial<Pick<DPDDimensionDefinition, 'target' | 'minWeight' | 'maxWeight'>>> = {}): DPDDimensionRegistry {
+    const unknown = Object.keys(overrides).filter(id => !this.definitions.has(id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown DPD dimension(s): ${unknown.join(', ')}`);
+    }
+    const copy = new DPDDimensionRegistry();
+    copy.definitions.clear();
+    for (const definition of this.list()) {
+      copy.register({ ...definition, ...(overrides[definition.id] || {}) });
+    }
+    return copy;
+  }
+
+  describe(): DPDDimensionDescriptor[] {
+    return this.list().map(({ scorer, saip, ...rest }) => ({
+      ...rest,
+      core: isCoreDimension(rest.id),
+      scoring: isCoreDimension(rest.id) ? 'builtin' : scorer?.llm ? 'llm' : 'heuristic',
+      saip: { emotive: isCoreDimension(rest.id) || !!saip?.emotive, reflective: saip?.reflective?.bias ?? null }
+    }));
+  }
+
+  /**
+   * Value of a dimension in weights or scores (core field or `dimensions` entry)
+   */
+  getValue(values: Partial<DimensionValues>, id: string): number | undefined {
+    if (isCoreDimension(id)) {
+      return values[id];
+    }
+    return values.dimensions?.[id];
+  }
+
+  /**
+   * Flatten weights or scores to { dimensionId: value } over registered dimensions
+   */
+  toRecord(values: Partial<DimensionValues>, fallback?: (definition: DPDDimensionDefinition) => number): Record<string, number> {
+    const record: Record<string, number> = {};
+    for (const definition of this.list()) {
+      const value = this.getValue(values, definition.id);
+      if (value !== undefined && Number.isFinite(value)) {
+        record[definition.id] = value;
+      } else if (fallback) {
+        record[definition.id] = fallback(definition);
+      }
+    }
+    return record;
+  }
+
+  /**
+   * Split a flat record back into core fields and the `dimensions` map (omitted when empty)
+   */
+  fromRecord(record: Record<string, number>): DimensionValues {
+    const dimensions: Record<string, number> = {};
+    for (const definition of this.extras()) {
+      if (record[definition.id] !== undefined) {
+        dimensions[definition.id] = record[definition.id];
+      }
+    }
+    return {
+      empathy: record.empathy ?? 0,
+      coherence: record.coherence ?? 0,
+      dissonance: record.dissonance ?? 0,
+      ...(Object.keys(dimensions).length > 0 ? { dimensions } : {})
+    };
+  }
+
+  defaultWeights(version: number = 1): DPDWeights {
+    return this.normalizeWeights({
+      ...this.fromRecord(this.toRecord({}, definition => definition.defaultWeight)),
+      timestamp: Date.now(),
+      version
+    });
+  }
+
+  /**
+   * Fill in dimensions missing from persisted weights (e.g. registered after they were saved).
+   * Weights that already cover every dimension are returned unchanged.
+   */
+  resolveWeights(weights: DPDWeights): DPDWeights {
+    const missing = this.list().some(definition => this.getValue(weights, definition.id) === undefined);
+    if (!missing) {
+      return weights;
+    }
+    const record = this.toRecord(weights, definition => definition.defaultWeight);
+    return this.normalizeWeights({ ...weights, ...this.fromRecord(record) });
+  }
+
+  /**
+   * Normalize to sum 1 within each weight's bounds (intersected with the global ones)
+   * 各次元の境界内で合計1に正規化
+   */
+  normalizeWeights(weights: DPDWeights, bounds: { minWeight?: number; maxWeight?: number } = {}): DPDWeights {
+    const record = this.toRecord(weights, definition => definition.defaultWeight);
+    const normalized = this.normalizeRecord(record, bounds);
+
+    const rounded: Record<string, number> = {};
+    for (const [id, value] of Object.entries(normalized)) {
+      rounded[id] = Math.round(value * 1000) / 1000;
+    }
+    return { ...weights, ...this.fromRecord(rounded) };
+  }
+
+  /**
+   * Bounds of a dimension's weight: its own bounds intersected with the global ones
+   */
+  weightBounds(id: string, bounds: { minWeight?: number; maxWeight?: number } = {}): { min: number; max: number } {
+    const definition = this.definitions.get(id);
+    const max = Math.min(bounds.maxWeight ?? 1, definition?.maxWeight ?? 1);
+    const min = Math.min(max, Math.max(bounds.minWeight ?? 0, definition?.minWeight ?? 0));
+    return { min, max };
+  }
+
+  /**
+   * Check that weights over the given dimensions can sum to 1 within their bounds.
+   * Returns an error message or null.
+   */
+  validateWeightBounds(bounds: { minWeight?: number; maxWeight?: number } = {}, ids: string[] = this.ids()): string | null {
+    const limits = ids.map(id => this.weightBounds(id, bounds));
+    const minTotal = limits.reduce((sum, limit) => sum + limit.min, 0);
+    const maxTotal = limits.reduce((sum, limit) => sum + limit.max, 0);
+    if (minTotal > 1 + BOUNDS_TOLERANCE) {
+      return `minimum weights of ${ids.join(', ')} add up to ${minTotal.toFixed(3)} (> 1)`;
+    }
+    if (maxTotal < 1 - BOUNDS_TOLERANCE) {
+      return `maximum weights of ${ids.join(', ')} add up to ${maxTotal.toFixed(3)} (< 1)`;
+    }
+    return null;
+  }
+
+  /**
+   * Bounded normalization of a flat weight record: projection onto the simplex within each
+   * weight's bounds. Weights that leave their bounds are held at the bound and the rest of the
+   * total is spread over the others in proportion, until every weight stays within its bounds.
+   * Falls back to the default weights when the total is not positive/finite; throws when the
+   * bounds cannot be met.
+   */
+  normalizeRecord(record: Record<string, number>, bounds: { minWeight?: number; maxWeight?: number } = {}): Record<string, number> {
+    const ids = Object.keys(record);
+    const error = this.validateWeightBounds(bounds, ids);
+    if (error) {
+      throw new Error(`Invalid DPD weight bounds: ${error}`);
+    }
+
+    const limits = ids.map(id => this.weightBounds(id, bounds));
+    let values = ids.map(id => (Number.isFinite(record[id]) ? Math.max(0, record[id]) : 0));
+    if (!(values.reduce((sum, value) => sum + value, 0) > 0)) {
+      values = ids.map(id => this.definitions.get(id)?.defaultWeight ?? 1 / ids.length);
+    }
+    // A zero weight could never take a share of the total; give it a negligible one
+    const total = values.reduce((sum, value) => sum + value, 0);
+    values = values.map(value => Math.max(value / total, 1e-9));
+
+    // Each weight is clamp(scale × value); the bounded total grows with the scale, so bisect
+    // for the scale at which it is 1
+    const project = (scale: number) => values.map((value, i) => Math.max(limits[i].min, Math.min(limits[i].max, value * scale)));
+    const totalAt = (scale: number) => project(scale).reduce((sum, value) => sum + value, 0);
+    let low = 0;
+    let high = 1;
+    while (totalAt(high) < 1 && high < 1e12) {
+      low = high;
+      high *= 2;
+    }
+    for (let i = 0; i < 100 && high - low > high * Number.EPSILON; i++) {
+      const middle = (low + high) / 2;
+      if (totalAt(middle) < 1) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+
+    const result: Record<string, number> = {};
+    project(high).forEach((value, i) => {
+      result[ids[i]] = value;
+    });
+    return result;
+  }
+
+  /**
+   * Weighted sum of scores over every dimension present in both
+   */
+  weightedTotal(scores: Partial<DimensionValues>, weights: Partial<DimensionValues>): number {
+    let total = 0;
+    for (const id of this.ids()) {
+      const score = this.getValue(scores, id);
+      const weight = this.getValue(weights, id);
+      if (score !== undefined && weight !== undefined) {
+        total += score * weight;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Scores for the non-core dimensions using their heuristics
+   */
+  scoreHeuristically(input: DPDDimensionScoringInput): Record<string, number> {
+    const scores: Record<string, number> = {};
+    for (const definition of this.extras()) {
+      scores[definition.id] = Math.max(0, Math.min(1, definition.scorer!.heuristic(input)));
+    }
+    return scores;
+  }
+}
+
+/**
+ * Build a registry from DPD_DIMENSIONS (ids from OPTIONAL_DPD_DIMENSIONS). Unknown ids are skipped.
+ */
+export function createDPDDimensionRegistry(enabled: string[] = parseDimensionList(process.env.DPD_DIMENSIONS)): DPDDimensionRegistry {
+  const unknown = enabled.filter(id => !isCoreDimension(id) && !OPTIONAL_DPD_DIMENSIONS.some(d => d.id === id));
+  if (unknown.length > 0) {
+    console.warn(`[DPD] Unknown dimension(s) in DPD_DIMENSIONS ignored: ${unknown.join(', ')}`);
+  }
+  return new DPDDimensionRegistry(OPTIONAL_DPD_DIMENSIONS.filter(definition => enabled.includes(definition.id)));
+}
+
+/**
+ * Process-wide registry shared by the DPD engine, weight updater, SAIP and the server
+ */
+export const dpdDimensions = createDPDDimensionRegistry();
@@ -46,8 +46,13 @@ import {
   createDPDCoherencePrompt,
   DPD_COHERENCE_SYSTEM_PROMPT,
   createDPDDissonancePrompt,
-  DPD_DISSONANCE_SYSTEM_PROMPT
+  DPD_DISSONANCE_SYSTEM_PROMPT,
+  createDPDDimensionPrompt,
+  createDPDDimensionSystemPrompt
 } from '../templates/prompts.js';
+import { DPDDimensionRegistry, DPDDimensionDefinition, dpdDimensions, isCoreDimension } from './dpd-dimensions.js';
+import { WeightLearner, WeightLearnerDiagnostics } from './weight-learners.js';
+import { DPDEnsemble, DPDScorerReadings, scoreDPDKeywords } from './dpd-ensemble.js';
 
 // ============================================================================
 // DPD Engine Implementation
@@ -88,8 +93,20 @@ export class DPDEngine {
   // Impact assessment tracking
   private previousScores: DPDScores | null = null;
 
-  constructor(initialWeights: DPDWeights, evaluatorAgent?: any, eventEmitter?: any) {
-    this.currentWeights = initialWeights;
+  // Registered value dimensions (core three + extensions)
+  private dimensions: DPDDimensionRegistry;
+
+  // Weight learner used by the U stage (its regret diagnostics join the convergence analysis)
+  private weightLearner: WeightLearner | null = null;
+
+  // Scoring ensemble (confidence intervals, disagreement alerts) and its optional second model
+  private ensemble: DPDEnsemble | null = null;
+  private secondaryEvaluatorAgent?: any;
+  private aiReadings: Record<string, number> = {};
+
+  constructor(initialWeights: DPDWeights, evaluatorAgent?: any, eventEmitter?: any, dimensions: DPDDimensionRegistry = dpdDimensions) {
+    this.dimensions = dimensions;
+    this.currentWeights = dimensions.resolveWeights(initialWeights);
     this.evaluatorAgent = evaluatorAgent;
     this.eventEmitter = eventEmitter;
 
@@ -115,7 +132,7 @@ export class DPDEngine {
       }
     };
     this.scoreHistory = [];
-    this.weightHistory = [initialWeights];
+    this.weightHistory = [this.currentWeights];
     
     // Initialize weight parameters
     this.weightParams = {
@@ -157,6 +174,7 @@ export class DPDEngine {
   ): Promise<DPDScores> {
     try {
       console.log(`[DPD] Starting DPD score calculation at ${new Date().toISOString()}`);
+      this.aiReadings = {};
 
       // Calculate individual component scores with AI evaluation
       const empathyScore = await this.calculateEmpathyScore(thoughts, reflections);
@@ -167,18 +185,22 @@ export class DPDEngine {
 
       const dissonanceScore = await this.calculateDissonanceScore(thoughts, reflections, auditorResult);
       console.log(`[DPD] Dissonance score calculated: ${dissonanceScore.toFixed(3)} at ${new Date().toISOString()}`);
-      
-      // Calculate weighted total
-      const weightedTotal = (
-        empathyScore * this.currentWeights.empathy +
-        coherenceScore * this.currentWeights.coherence +
-        dissonanceScore * this.currentWeights.dissonance
-      );
 
-      const scores: DPDScores = {
+      // Registered dimensions beyond the core three
+      const dimensionScores = await this.calculateRegisteredDimensionScores(thoughts, reflections, auditorResult);
+
+      const componentScores = {
         empathy: empathyScore,
         coherence: coherenceScore,
         dissonance: dissonanceScore,
+        ...(this.dimensions.extras().length > 0 ? { dimensions: dimensionScores } : {})
+      };
+
+      // Calculate weighted total
+      const weightedTotal = this.dimensions.weightedTotal(componentScores, this.currentWeights);
+
+      const scores: DPDScores = {
+        ...componentScores,
         weightedTotal,
         timestamp: Date.now(),
         context: {
@@ -216,16 +238,27 @@ export class DPDEngine {
     thoughts: StructuredThought[],
     reflections: MutualReflection[],
     auditorResult: AuditorResult,
-    somniaInfluence?: DPDInfluence
+    somniaInfluence?: DPDInfluence,
+    cycleId?: string
   ): Promise<DPDScores> {
     // Get base scores
     const baseScores = await this.calculateDPDScores(thoughts, reflections, auditorResult);
 
-    // If no SOMNIA influence, return base scores
-    if (!somniaInfluence) {
-      return baseScores;
+    // In combine mode SOMNIA is one of the ensemble's scorers instead of a fixed blend
+    if (this.ensemble?.getMode() === 'combine') {
+      return this.applyEnsemble(baseScores, thoughts, reflections, auditorResult, somniaInfluence, cycleId);
     }
 
+    const scores = somniaInfluence ? this.blendSomniaInfluence(baseScores, somniaInfluence) : baseScores;
+    return this.ensemble
+      ? this.applyEnsemble(scores, thoughts, reflections, auditorResult, somniaInfluence, cycleId)
+      : scores;
+  }
+
+  /**
+   * Blend SOMNIA influence into DPD scores (30% SOMNIA, 70% AENEA)
+   */
+  private blendSomniaInfluence(baseScores: DPDScores, somniaInfluence: DPDInfluence): DPDScores {
     // Blend SOMNIA influence with DPD scores (clamp each component to [0, 1])
     const blendFactor = 0.3; // 30% SOMNIA, 70% AENEA
     const clamp = (v: number) => Math.max(0, Math.min(1, v));
@@ -234,17 +267,24 @@ export class DPDEngine {
     const coherence = clamp(baseScores.coherence  * (1 - blendFactor) + somniaInfluence.coherence  * blendFactor);
     const dissonance= clamp(baseScores.dissonance * (1 - blendFactor) + somniaInfluence.dissonance * blendFactor);
 
+    // Registered dimensions are blended only where SAIP maps SOMNIA onto them
+    let dimensions = baseScores.dimensions;
+    if (dimensions && somniaInfluence.dimensions) {
+      dimensions = { ...dimensions };
+      for (const [id, influence] of Object.entries(somniaInfluence.dimensions)) {
+        if (dimensions[id] !== undefined) {
+          dimensions[id] = clamp(dimensions[id] * (1 - blendFactor) + influence * blendFactor);
+        }
+      }
+    }
+
     // Recalculate weightedTotal with blended values so components and total stay consistent
-    const weightedTotal =
-      empathy   * this.currentWeights.empathy +
-      coherence * this.currentWeights.coherence +
-      dissonance* this.currentWeights.dissonance;
+    const blended = { empathy, coherence, dissonance, ...(dimensions ? { dimensions } : {}) };
+    const weightedTotal = this.dimensions.weightedTotal(blended, this.currentWeights);
 
     return {
       ...baseScores,
-      empathy,
-      coherence,
-      dissonance,
+      ...blended,
       weightedTotal,
       context: {
         ...baseScores.context,
@@ -253,20 +293,135 @@ export class DPDEngine {
     };
   }
 
+  /**
+   * Score the cycle with every available scorer, attach calibrated confidence intervals and
+   * raise disagreement alerts (tagged with the thought cycle). In combine mode the ensemble
+   * estimates replace the scores.
+   */
+  private async applyEnsemble(
+    scores: DPDScores,
+    thoughts: StructuredThought[],
+    reflections: MutualReflection[],
+    auditorResult: AuditorResult,
+    somniaInfluence?: DPDInfluence,
+    cycleId?: string
+  ): Promise<DPDScores> {
+    const ensemble = this.ensemble!;
+    const readings = await this.collectScorerReadings(thoughts, reflections, auditorResult, somniaInfluence);
+    const result = ensemble.combine(readings, this.dimensions.ids());
+
+    const components = this.dimensions.fromRecord({
+      ...this.dimensions.toRecord(scores),
+      ...(ensemble.getMode() === 'combine' ? result.estimates : {})
+    });
+
+    if (result.disagreements.length > 0) {
+      const alerts = ensemble.recordDisagreements(result.disagreements, cycleId ?? null);
+      const summary = result.disagreements
+        .map(d => `${d.dimension}: ${d.low.scorer}=${d.low.value.toFixed(2)} vs ${d.high.scorer}=${d.high.value.toFixed(2)}`)
+        .join(', ');
+      console.warn(`[DPD-Evaluator] ⚠️  Scorer disagreement: ${summary}`);
+      if (this.eventEmitter) {
+        this.eventEmitter.emit('dpdDisagreement', { alerts, timestamp: Date.now() });
+        this.eventEmitter.emit('agentThought', {
+          agentName: 'DPD-Evaluator',
+          thought: `評価者間の不一致: ${summary}`,
+          timestamp: Date.now(),
+          stage: 'S4_DPDAssessment'
+        });
+      }
+    }
+
+    return {
+      ...scores,
+      ...components,
+      weightedTotal: this.dimensions.weightedTotal(components, this.currentWeights),
+      confidence: result.confidence,
+      ensemble: {
+        mode: ensemble.getMode(),
+        readings: readings as Record<string, Record<string, number>>,
+        disagreements: result.disagreements
+      }
+    };
+  }
+
+  /**
+   * Raw readings of each independent scorer (the primary LLM readings come from this cycle's
+   * evaluation; heuristics are recomputed even when the LLM succeeded)
+   */
+  private async collectScorerReadings(
+    thoughts: StructuredThought[],
+    reflections: MutualReflection[],
+    auditorResult: AuditorResult,
+    somniaInfluence?: DPDInfluence
+  ): Promise<DPDScorerReadings> {
+    const readings: DPDScorerReadings = {};
+
+    if (Object.keys(this.aiReadings).length > 0) {
+      readings.llm = { ...this.aiReadings };
+    }
+
+    if (this.secondaryEvaluatorAgent) {
+      const agent = this.secondaryEvaluatorAgent;
+      const secondary: Record<string, number> = {};
+      const evaluations: Array<[string, () => Promise<number | null>]> = [
+        ['empathy', () => this.calculateEmpathyScoreWithAI(thoughts, reflections, agent)],
+        ['coherence', () => this.calculateCoherenceScoreWithAI(thoughts, agent)],
+        ['dissonance', () => this.calculateDissonanceScoreWithAI(thoughts, reflections, auditorResult, agent)]
+      ];
+      for (const [dimension, evaluate] of evaluations) {
+        try {
+          const score = await evaluate();
+          if (score !== null) secondary[dimension] = score;
+        } catch (error) {
+          console.warn(`[DPD-Evaluator] ⚠️  Secondary ${dimension} evaluation failed:`, error);
+        }
+      }
+      if (Object.keys(secondary).length > 0) {
+        readings['llm-secondary'] = secondary;
+      }
+    }
+
+    readings.heuristic = {
+      empathy: this.calculateEmpathyScoreHeuristic(thoughts, reflections),
+      coherence: this.calculateCoherenceScoreHeuristic(thoughts),
+      dissonance: this.calculateDissonanceScoreHeuristic(thoughts, reflections, auditorResult),
+      ...this.dimensions.scoreHeuristically({ thoughts, reflections, auditorResult })
+    };
+
+    const content = thoughts.map(t => t.content || '').join(' ').toLowerCase();
+    if (content.length > 0) {
+      const { empathy, coherence, dissonance } = scoreDPDKeywords(content);
+      readings.keyword = { empathy, coherence, dissonance };
+    }
+
+    if (somniaInfluence) {
+      readings.somnia = {
+        empathy: somniaInfluence.empathy,
+        coherence: somniaInfluence.coherence,
+        dissonance: somniaInfluence.dissonance,
+        ...(somniaInfluence.dimensions || {})
+      };
+    }
+
+    return readings;
+  }
+
   /**
    * Update DPD weights based on performance
    */
   async updateWeights(scores: DPDScores, targetScores?: DPDScores): Promise<WeightAdjustment[]> {
     try {
       const adjustments: WeightAdjustment[] = [];
-      
-      // Calculate adjustments for each component
-      const empathyAdjustment = this.calculateWeightAdjustment('empathy', scores.empathy, targetScores?.empathy);
-      const coherenceAdjustment = this.calculateWeightAdjustment('coherence', scores.coherence, targetScores?.coherence);
-      const dissonanceAdjustment = this.calculateWeightAdjustment('dissonance', scores.dissonance, targetScores?.dissonance);
-      
-      adjustments.push(empathyAdjustment, coherenceAdjustment, dissonanceAdjustment);
-      
+
+      // Calculate adjustments for each registered dimension
+      for (const definition of this.dimensions.list()) {
+        const score = this.dimensions.getValue(scores, definition.id);
+        if (score === undefined) continue;
+        const target = targetScores ? this.dimensions.getValue(targetScores, definition.id) : undefined;
+        adjustments.push(this.calculateWeightAdjustment(definition, score, target));
+      }
+
       // Apply adjustments
       const newWeights = this.applyWeightAdjustments(adjustments);
       
@@ -303,7 +458,8 @@ export class DPDEngine {
     reflections: MutualReflection[],
     auditorResult: AuditorResult,
     trigger?: { source: string },
-    somniaInfluence?: DPDInfluence
+    somniaInfluence?: DPDInfluence,
+    cycleId?: string
   ): Promise<DPDAssessment> {
     console.log(`\n[DPD-Evaluator] 🎯 Starting DPD Assessment`);
     console.log(`[DPD-Evaluator]    Inputs: ${thoughts.length} thoughts, ${reflections.length} reflections`);
@@ -312,7 +468,7 @@ export class DPDEngine {
 
     try {
       // Calculate scores (includes AI evaluation)
-      const scores = await this.calculateDPDScoresWithADD(thoughts, reflections, auditorResult, somniaInfluence);
+      const scores = await this.calculateDPDScoresWithADD(thoughts, reflections, auditorResult, somniaInfluence, cycleId);
 
       // Use already calculated scores for individual component analysis
       const individualScores: IndividualDPDScores[] = [
@@ -336,7 +492,16 @@ export class DPDEngine {
           reasoning: 'Calculated from ethical awareness, contradiction recognition, moral complexity, and uncertainty tolerance',
           evidence: ['Ethical assessment', 'Contradiction analysis'],
           confidence: 0.6
-        }
+        },
+        ...this.dimensions.extras()
+          .filter(definition => scores.dimensions?.[definition.id] !== undefined)
+          .map(definition => ({
+            component: definition.id,
+            score: scores.dimensions![definition.id],
+            reasoning: definition.description,
+            evidence: [definition.scorer?.llm ? 'AI evaluation with heuristic fallback' : 'Keyword heuristic'],
+            confidence: definition.scorer?.llm && this.evaluatorAgent ? 0.7 : 0.5
+          }))
       ];
 
       // Perform analysis
@@ -402,6 +567,7 @@ export class DPDEngine {
       try {
         const aiScore = await this.calculateEmpathyScoreWithAI(thoughts, reflections);
         if (aiScore !== null) {
+          this.aiReadings.empathy = aiScore;
           const duration = Date.now() - startTime;
           console.log(`[DPD-Evaluator] ✅ Empathy score (AI): ${aiScore.toFixed(3)} (${duration}ms)`);
           return aiScore;
@@ -418,7 +584,7 @@ export class DPDEngine {
     return heuristicScore;
   }
 
-  private async calculateEmpathyScoreWithAI(thoughts: StructuredThought[], reflections: MutualReflection[]): Promise<number | null> {
+  private async calculateEmpathyScoreWithAI(thoughts: StructuredThought[], reflections: MutualReflection[], agent: any = this.evaluatorAgent): Promise<number | null> {
     const thoughtsText = thoughts.map(t => `${t.agentId}: "${t.content}"`).join('\n\n');
     const reflectionsText = reflections.map(r =>
       `${r.reflectingAgentId}の反映: "${r.criticism || r.insights?.join(', ') || '相互対話'}"`
@@ -426,7 +592,7 @@ export class DPDEngine {
 
     const empathyPrompt = createDPDEmpathyPrompt(thoughtsText, reflectionsText);
 
-    const result = await this.evaluatorAgent.execute(empathyPrompt, DPD_EMPATHY_SYSTEM_PROMPT);
+    const result = await agent.execute(empathyPrompt, DPD_EMPATHY_SYSTEM_PROMPT);
 
     if (result.success && result.content) {
       // Parse score and reason from AI response
@@ -436,8 +602,8 @@ export class DPDEngine {
       const score = scoreMatch ? parseFloat(scoreMatch[1]) : null;
       const reason = reasonMatch ? reasonMatch[1].trim() : '';
 
-      // Emit AI evaluation to Activity Log with formatted output
-      if (this.eventEmitter) {
+      // Emit AI evaluation to Activity Log with formatted output (primary evaluator only)
+      if (this.eventEmitter && agent === this.evaluatorAgent) {
         const displayText = score !== null
           ? `AI共感性評価: ${score.toFixed(2)}${reason ? ` | ${reason}` : ''}`
           : `AI共感性評価: ${result.content}`;
@@ -498,6 +664,7 @@ export class DPDEngine {
       try {
         const aiScore = await this.calculateCoherenceScoreWithAI(thoughts);
         if (aiScore !== null) {
+          this.aiReadings.coherence = aiScore;
           const duration = Date.now() - startTime;
           console.log(`[DPD-Evaluator] ✅ Coherence score (AI): ${aiScore.toFixed(3)} (${duration}ms)`);
           return aiScore;
@@ -514,14 +681,14 @@ export class DPDEngine {
     return heuristicScore;
   }
 
-  private async calculateCoherenceScoreWithAI(thoughts: StructuredThought[]): Promise<number | null> {
+  private async calculateCoherenceScoreWithAI(thoughts: StructuredThought[], agent: any = this.evaluatorAgent): Promise<number | null> {
     const thoughtsText = thoughts.map((t, index) =>
       `思考${index + 1} (${t.agentId}): "${t.content}"`
     ).join('\n\n');
 
     const coherencePrompt = createDPDCoherencePrompt(thoughtsText);
 
-    const result = await this.evaluatorAgent.execute(coherencePrompt, DPD_COHERENCE_SYSTEM_PROMPT);
+    const result = await agent.execute(coherencePrompt, DPD_COHERENCE_SYSTEM_PROMPT);
 
     if (result.success && result.content) {
       // Parse score and reason from AI response
@@ -531,8 +698,8 @@ export class DPDEngine {
       const score = scoreMatch ? parseFloat(scoreMatch[1]) : null;
       const reason = reasonMatch ? reasonMatch[1].trim() : '';
 
-      // Emit AI evaluation to Activity Log with formatted output
-      if (this.eventEmitter) {
+      // Emit AI evaluation to Activity Log with formatted output (primary evaluator only)
+      if (this.eventEmitter && agent === this.evaluatorAgent) {
         const displayText = score !== null
           ? `AI一貫性評価: ${score.toFixed(2)}${reason ? ` | ${reason}` : ''}`
           : `AI一貫性評価: ${result.content}`;
@@ -600,6 +767,7 @@ export class DPDEngine {
       try {
         const aiScore = await this.calculateDissonanceScoreWithAI(thoughts, reflections, auditorResult);
         if (aiScore !== null) {
+          this.aiReadings.dissonance = aiScore;
           const duration = Date.now() - startTime;
           console.log(`[DPD-Evaluator] ✅ Dissonance score (AI): ${aiScore.toFixed(3)} (${duration}ms)`);
           return aiScore;
@@ -619,7 +787,8 @@ export class DPDEngine {
   private async calculateDissonanceScoreWithAI(
     thoughts: StructuredThought[],
     reflections: MutualReflection[],
-    auditorResult: AuditorResult
+    auditorResult: AuditorResult,
+    agent: any = this.evaluatorAgent
   ): Promise<number | null> {
     const thoughtsText = thoughts.map((t, index) =>
       `思考${index + 1} (${t.agentId}): "${t.content}"`
@@ -637,7 +806,7 @@ export class DPDEngine {
       concerns: auditorResult?.concerns?.join(', ') || 'なし'
     });
 
-    const result = await this.evaluatorAgent.execute(dissonancePrompt, DPD_DISSONANCE_SYSTEM_PROMPT);
+    const result = await agent.execute(dissonancePrompt, DPD_DISSONANCE_SYSTEM_PROMPT);
 
     if (result.success && result.content) {
       // Parse score and reason from AI response
@@ -647,8 +816,8 @@ export class DPDEngine {
       const score = scoreMatch ? parseFloat(scoreMatch[1]) : null;
       const reason = reasonMatch ? reasonMatch[1].trim() : '';
 
-      // Emit AI evaluation to Activity Log with formatted output
-      if (this.eventEmitter) {
+      // Emit AI evaluation to Activity Log with formatted output (primary evaluator only)
+      if (this.eventEmitter && agent === this.evaluatorAgent) {
         const displayText = score !== null
           ? `AI不協和評価: ${score.toFixed(2)}${reason ? ` | ${reason}` : ''}`
           : `AI不協和評価: ${result.content}`;
@@ -874,24 +1043,90 @@ export class DPDEngine {
   // Weight Management Methods
   // ============================================================================
 
+  /**
+   * Score registered (non-core) dimensions: LLM prompt when declared and an evaluator
+   * agent is available, otherwise the dimension's heuristic
+   */
+  private async calculateRegisteredDimensionScores(
+    thoughts: StructuredThought[],
+    reflections: MutualReflection[],
+    auditorResult: AuditorResult | null
+  ): Promise<Record<string, number>> {
+    const extras = this.dimensions.extras();
+    if (extras.length === 0) return {};
+
+    const input = { thoughts, reflections, auditorResult };
+    const scores = this.dimensions.scoreHeuristically(input);
+
+    for (const definition of extras) {
+      const llm = definition.scorer?.llm;
+      if (!llm || !this.evaluatorAgent) continue;
+      try {
+        const aiScore = await this.calculateRegisteredDimensionScoreWithAI(definition, thoughts, reflections);
+        if (aiScore !== null) {
+          scores[definition.id] = aiScore;
+          this.aiReadings[definition.id] = aiScore;
+        }
+      } catch (error) {
+        console.warn(`[DPD-Evaluator] ⚠️  AI ${definition.id} evaluation failed, falling back to heuristic:`, error);
+      }
+      console.log(`[DPD] ${definition.label} score calculated: ${scores[definition.id].toFixed(3)}`);
+    }
+
+    return scores;
+  }
+
+  private async calculateRegisteredDimensionScoreWithAI(
+    definition: DPDDimensionDefinition,
+    thoughts: StructuredThought[],
+    reflections: MutualReflection[]
+  ): Promise<number | null> {
+    const llm = definition.scorer!.llm!;
+    const thoughtsText = thoughts.map(t => `${t.agentId}: "${t.content}"`).join('\n\n');
+    const reflectionsText = reflections.map(r =>
+      `${r.reflectingAgentId}の反映: "${r.criticism || r.insights?.join(', ') || '相互対話'}"`
+    ).join('\n\n');
+
+    const result = await this.evaluatorAgent.execute(
+      createDPDDimensionPrompt({ labelJa: definition.labelJa, scoreLabel: llm.scoreLabel, criteria: llm.criteria }, thoughtsText, reflectionsText),
+      createDPDDimensionSystemPrompt({ label: definition.label, description: definition.description, scoreLabel: llm.scoreLabel })
+    );
+
+    if (result.success && result.content) {
+      const escapedLabel = llm.scoreLabel.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const scoreMatch = result.content.match(new RegExp(`${escapedLabel}[：:]\\s*(\\d+\\.?\\d*)`));
+      const score = scoreMatch ? parseFloat(scoreMatch[1]) : null;
+
+      if (score !== null && !isNaN(score) && score >= 0 && score <= 1) {
+        return score;
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Calculate weight adjustment for a component
    */
   private calculateWeightAdjustment(
-    component: keyof DPDWeights,
+    definition: DPDDimensionDefinition,
     currentScore: number,
     targetScore?: number
   ): WeightAdjustment {
+    const component = definition.id;
     // Dissonance is a creative force - moderate levels (0.4-0.6) are healthy
     // 不協和は創造的な力 - 中程度のレベル（0.4-0.6）が健全
-    const target = targetScore || (component === 'dissonance' ? 0.5 : 0.7);
+    // Registered dimensions use their declared target
+    const defaultTarget = isCoreDimension(component) ? (component === 'dissonance' ? 0.5 : 0.7) : definition.target;
+    const target = targetScore || defaultTarget;
     const error = target - currentScore;
     const adjustment = error * this.weightParams.learningRate;
-    
+    const currentWeight = this.dimensions.getValue(this.currentWeights, component) ?? definition.defaultWeight;
+
     return {
-      component: component as any,
-      currentWeight: this.currentWeights[component],
-      newWeight: this.currentWeights[component] + adjustment,
+      component,
+      currentWeight,
+      newWeight: currentWeight + adjustment,
       adjustmentAmount: adjustment,
       reason: `Performance-based adjustment: target=${target.toFixed(3)}, current=${currentScore.toFixed(3)}`,
       confidence: Math.abs(error) < 0.1 ? 0.9 : 0.5,
@@ -903,13 +1138,13 @@ export class DPDEngine {
    * Apply weight adjustments
    */
   private applyWeightAdjustments(adjustments: WeightAdjustment[]): DPDWeights {
-    const newWeights = { ...this.currentWeights };
-    
+    const record = this.dimensions.toRecord(this.currentWeights, definition => definition.defaultWeight);
+
     for (const adjustment of adjustments) {
-      newWeights[adjustment.component as keyof DPDWeights] = adjustment.newWeight;
+      record[adjustment.component] = adjustment.newWeight;
     }
-    
-    return newWeights;
+
+    return { ...this.currentWeights, ...this.dimensions.fromRecord(record) };
   }
 
   /**
@@ -919,21 +1154,24 @@ export class DPDEngine {
     const minWeight = 0.15;  // Prevent extreme imbalance
     const maxWeight = 0.70;  // Maintain diversity
 
-    // Apply boundary constraints before normalization
-    let empathy = Math.max(minWeight, Math.min(maxWeight, weights.empathy));
-    let coherence = Math.max(minWeight, Math.min(maxWeight, weights.coherence));
-    let dissonance = Math.max(minWeight, Math.min(maxWeight, weights.dissonance));
+    // Apply boundary constraints before normalization (registered dimensions use their own bounds)
+    const record = this.dimensions.toRecord(weights, definition => definition.defaultWeight);
+    for (const id of Object.keys(record)) {
+      const definition = this.dimensions.get(id)!;
+      const [min, max] = isCoreDimension(id) ? [minWeight, maxWeight] : [definition.minWeight, definition.maxWeight];
+      record[id] = Math.max(min, Math.min(max, record[id]));
+    }
 
     // Normalize to sum to 1
-    const total = empathy + coherence + dissonance;
-    empathy /= total;
-    coherence /= total;
-    dissonance /= total;
+    const total = Object.values(record).reduce((sum, value) => sum + value, 0);
+    for (const id of Object.keys(record)) {
+      record[id] = Math.round((record[id] / total) * 1000) / 1000;
+    }
 
+    const { dimensions, ...core } = this.dimensions.fromRecord(record);
     return {
-      empathy: Math.round(empathy * 1000) / 1000,
-      coherence: Math.round(coherence * 1000) / 1000,
-      dissonance: Math.round(dissonance * 1000) / 1000,
+      ...core,
+      ...(this.dimensions.extras().length > 0 ? { dimensions } : {}),
       timestamp: Date.now(),
       version: weights.version + 1
     };
@@ -1190,6 +1428,28 @@ ${reflectionSummary}
     };
   }
 
+  /**
+   * 重み学習器の接続 - Attach the U-stage weight learner for convergence diagnostics
+   */
+  attachWeightLearner(learner: WeightLearner | null): void {
+    this.weightLearner = learner;
+  }
+
+  /**
+   * 評価者アンサンブルの接続 - Attach the scoring ensemble (and an optional second evaluator model)
+   */
+  attachEnsemble(ensemble: DPDEnsemble | null, secondaryEvaluatorAgent?: any): void {
+    this.ensemble = ensemble;
+    this.secondaryEvaluatorAgent = secondaryEvaluatorAgent;
+  }
+
+  /**
+   * 収束解析取得 - Get convergence analysis (with weight learner diagnostics when attached)
+   */
+  getConvergenceAnalysis(): ConvergenceAnalysis {
+    return this.analyzeConvergence();
+  }
+
   /**
    * 重み進化統計取得 - Get weight evolution statistics
    */
@@ -1411,8 +1671,9 @@ ${reflectionSummary}
    * 収束分析 - Analyze convergence patterns
    */
   private analyzeConvergence(): ConvergenceAnalysis {
+    const learner = this.weightLearner ? { learner: this.weightLearner.getDiagnostics() } : {};
     if (this.weightHistory.length < 10) {
-      return { isConverging: false, convergenceRate: 0, targetWeights: null, estimatedStepsToConvergence: null };
+      return { isConverging: false, convergenceRate: 0, targetWeights: null, estimatedStepsToConvergence: null, ...learner };
     }
 
     const recentWeights = this.weightHistory.slice(-10);
@@ -1425,7 +1686,8 @@ ${reflectionSummary}
       isConverging,
       convergenceRate,
       targetWeights,
-      estimatedStepsToConvergence
+      estimatedStepsToConvergence,
+      ...learner
     };
   }
 
@@ -2362,6 +2624,7 @@ interface ConvergenceAnalysis {
   convergenceRate: number;
   targetWeights: DPDWeights | null;
   estimatedStepsToConvergence: number | null;
+  learner?: WeightLearnerDiagnostics;  // Regret/convergence of the U-stage weight learner
 }
 
 interface OptimalityAssessment {
@@ -0,0 +1,314 @@
+/**
+ * DPD Scoring Ensemble - 評価者アンサンブル
+ * 三人寄れば文殊の知恵 (Sannin Yoreba Monju no Chie) - Three minds together hold the wisdom of Manjushri
+ *
+ * S4 scores every dimension with several independent scorers:
+ * - llm: the evaluator agent (system)
+ * - llm-secondary: an optional second model (DPD_SECONDARY_PROVIDER / DPD_SECONDARY_MODEL)
+ * - heuristic: the DPD engine's structural heuristics (emotional tone, perspectives, auditor result)
+ * - keyword: keyword density, also used on its own in critical energy mode
+ * - somnia: SOMNIA's emotiveSync influence
+ *
+ * Each reading passes through a per-scorer, per-dimension linear calibration fitted on
+ * human-labelled cycles (identity with a prior error until fitted). Calibrated readings are
+ * combined by inverse variance and the interval widens with the spread between scorers. A
+ * dimension whose calibrated readings differ by more than the threshold raises a disagreement.
+ *
+ * In 'observe' mode (default) the pipeline keeps its scores and the ensemble only adds intervals
+ * and alerts; in 'combine' mode the ensemble estimate replaces them.
+ */
+
+import { DPDConfidenceInterval, DPDDisagreement } from '../../types/dpd-types.js';
+
+export type DPDScorerId = 'llm' | 'llm-secondary' | 'heuristic' | 'keyword' | 'somnia';
+export type DPDEnsembleMode = 'observe' | 'combine';
+
+export const DPD_SCORERS: Array<{ id: DPDScorerId; label: string; description: string; priorError: number }> = [
+  { id: 'llm', label: 'LLM Evaluator', description: 'Evaluator agent prompts per dimension', priorError: 0.15 },
+  { id: 'llm-secondary', label: 'Secondary LLM', description: 'Same prompts on a second model', priorError: 0.15 },
+  { id: 'heuristic', label: 'Structural Heuristic', description: 'Emotional tone, perspectives, contradictions and auditor result', priorError: 0.25 },
+  { id: 'keyword', label: 'Keyword Density', description: 'Japanese keyword counts per 100 characters', priorError: 0.3 },
+  { id: 'somnia', label: 'SOMNIA Influence', description: 'emotiveSync mapping of the affective state', priorError: 0.3 }
+];
+
+// scorer -> dimension -> score
+export type DPDScorerReadings = Partial<Record<DPDScorerId, Record<string, number>>>;
+
+export interface DPDCalibrationEntry {
+  slope: number;
+  intercept: number;
+  residualStd: number;     // Expected error of the calibrated score (shrunk toward the prior)
+  samples: number;
+}
+
+export interface DPDCalibrationModel {
+  fittedAt: number | null;
+  labelledCycles: number;
+  entries: Partial<Record<DPDScorerId, Record<string, DPDCalibrationEntry>>>;
+}
+
+export interface DPDCalibrationSample {
+  cycleId?: string;
+  readings: DPDScorerReadings;
+  labels: Record<string, number>;  // Human scores per dimension
+}
+
+export interface DPDEnsembleOptions {
+  mode?: DPDEnsembleMode;
+  disagreementThreshold?: number;  // Calibrated spread that raises an alert (default 0.35)
+  z?: number;                      // Interval width in standard deviations (default 1.96)
+}
+
+export interface DPDEnsembleResult {
+  estimates: Record<string, number>;
+  confidence: Record<string, DPDConfidenceInterval>;
+  calibrated: DPDScorerReadings;
+  disagreements: DPDDisagreement[];
+}
+
+export interface DPDDisagreementAlert extends DPDDisagreement {
+  cycleId: string | null;
+  timestamp: number;
+}
+
+const MAX_ALERTS = 50;
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+export function isDPDScorerId(value: unknown): value is DPDScorerId {
+  return DPD_SCORERS.some(scorer => scorer.id === value);
+}
+
+/**
+ * Resolve DPD_ENSEMBLE_MODE. Unknown values fall back to observe.
+ */
+export function resolveEnsembleMode(value: string | undefined): DPDEnsembleMode {
+  if (!value) return 'observe';
+  const mode = value.trim().toLowerCase();
+  if (mode === 'observe' || mode === 'combine') return mode;
+  console.warn(`[DPD] Unknown ensemble mode '${value}', using observe`);
+  return 'observe';
+}
+
+/**
+ * Keyword density scores for the core dimensions (text is expected lower-cased)
+ */
+export function scoreDPDKeywords(text: string): { empathy: number; coherence: number; dissonance: number; counts: Record<'empathy' | 'coherence' | 'dissonance', number> } {
+  // Empathy keywords (Japanese) - 共感、感情、他者理解
+  const empathyKeywords = [
+    '感じ', '感情', '共感', '理解', '他者', '繋がり', '心', '優しさ', '思いやり',
+    '感動', '愛', '絆', '寄り添', '受け入れ', '尊重', '関係', '人間', '対話'
+  ];
+
+  // Coherence keywords (Japanese) - 論理、一貫性、体系性
+  const coherenceKeywords = [
+    '論理', '一貫', '体系', '秩序', '統合', '構造', '整合', '合理',
+    'システム', '法則', '原理', '理性', '分析', '因果', '関連', '整理'
+  ];
+
+  // Dissonance keywords (Japanese) - 矛盾、葛藤、疑問
+  const dissonanceKeywords = [
+    '矛盾', '葛藤', '疑問', 'しかし', 'ただし', '対立', '問題', '不協和',
+    '悩み', '迷い', 'なぜ', '疑い', '違和感', '不安', 'ジレンマ', '対照'
+  ];
+
+  const countKeywords = (keywords: string[]) => keywords.reduce((count, keyword) => {
+    const matches = text.match(new RegExp(keyword, 'g'));
+    return count + (matches ? matches.length : 0);
+  }, 0);
+  const counts = {
+    empathy: countKeywords(empathyKeywords),
+    coherence: countKeywords(coherenceKeywords),
+    dissonance: countKeywords(dissonanceKeywords)
+  };
+
+  // Keywords per 100 characters through a sigmoid: f(x) = 1 / (1 + exp(-k*(x-threshold)))
+  const normalizationFactor = Math.max(100, text.length) / 100;
+  const sigmoid = (x: number, k: number = 1.5, threshold: number = 0.3) => 1 / (1 + Math.exp(-k * (x - threshold)));
+
+  return {
+    empathy: sigmoid(counts.empathy / normalizationFactor),
+    coherence: sigmoid(counts.coherence / normalizationFactor),
+    dissonance: sigmoid(counts.dissonance / normalizationFactor),
+    counts
+  };
+}
+
+/**
+ * Validate human calibration labels ({ cycleId, scores }). Returns an error message or null.
+ */
+export function validateCalibrationLabels(labels: unknown, dimensionIds: string[]): string | null {
+  if (!Array.isArray(labels) || labels.length === 0) {
+    return 'labels must be a non-empty array';
+  }
+  for (const [index, label] of labels.entries()) {
+    if (!label || typeof label.cycleId !== 'string' || !label.cycleId) {
+      return `labels[${index}].cycleId is required`;
+    }
+    if (!label.scores || typeof label.scores !== 'object' || Object.keys(label.scores).length === 0) {
+      return `labels[${index}].scores must map dimensions to scores`;
+    }
+    for (const [dimension, score] of Object.entries(label.scores)) {
+      if (!dimensionIds.includes(dimension)) {
+        return `labels[${index}].scores: unknown dimension '${dimension}'`;
+      }
+      if (typeof score !== 'number' || score < 0 || score > 1) {
+        return `labels[${index}].scores.${dimension} must be between 0 and 1`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Fit a linear calibration (human label ~ slope * reading + intercept) per scorer and dimension.
+ * The slope is shrunk toward 1 and the residual error toward the scorer's prior error, so a
+ * handful of labels cannot produce an extreme calibration.
+ */
+export function fitDPDCalibration(
+  samples: DPDCalibrationSample[],
+  options: { minSamples?: number; priorStrength?: number } = {}
+): DPDCalibrationModel {
+  const minSamples = options.minSamples ?? 3;
+  const priorStrength = options.priorStrength ?? 5;
+  const entries: DPDCalibrationModel['entries'] = {};
+
+  for (const scorer of DPD_SCORERS) {
+    const pairs: Record<string, Array<[number, number]>> = {};
+    for (const sample of samples) {
+      for (const [dimension, value] of Object.entries(sample.readings[scorer.id] || {})) {
+        const label = sample.labels[dimension];
+        if (label === undefined || !Number.isFinite(value) || !Number.isFinite(label)) continue;
+        if (!pairs[dimension]) pairs[dimension] = [];
+        pairs[dimension].push([value, label]);
+      }
+    }
+
+    for (const [dimension, points] of Object.entries(pairs)) {
+      const n = points.length;
+      if (n < minSamples) continue;
+      const meanX = points.reduce((sum, [x]) => sum + x, 0) / n;
+      const meanY = points.reduce((sum, [, y]) => sum + y, 0) / n;
+      const sxx = points.reduce((sum, [x]) => sum + (x - meanX) ** 2, 0);
+      const sxy = points.reduce((sum, [x, y]) => sum + (x - meanX) * (y - meanY), 0);
+
+      // Ridge toward slope 1 with the strength of priorStrength readings of variance 0.05
+      const lambda = priorStrength * 0.05;
+      const slope = (sxy + lambda) / (sxx + lambda);
+      const intercept = meanY - slope * meanX;
+      const residualSquares = points.reduce((sum, [x, y]) => sum + (y - clamp(slope * x + intercept)) ** 2, 0);
+      const variance = (residualSquares + priorStrength * scorer.priorError ** 2) / (n + priorStrength);
+
+      entries[scorer.id] = {
+        ...entries[scorer.id],
+        [dimension]: { slope, intercept, residualStd: Math.max(0.02, Math.sqrt(variance)), samples: n }
+      };
+    }
+  }
+
+  return { fittedAt: Date.now(), labelledCycles: samples.length, entries };
+}
+
+/**
+ * Calibrated combination of scorer readings with disagreement alerts
+ */
+export class DPDEnsemble {
+  private mode: DPDEnsembleMode;
+  private disagreementThreshold: number;
+  private z: number;
+  private calibration: DPDCalibrationModel;
+  private alerts: DPDDisagreementAlert[] = [];
+
+  constructor(calibration?: DPDCalibrationModel | null, options: DPDEnsembleOptions = {}) {
+    this.mode = options.mode ?? 'observe';
+    this.disagreementThreshold = options.disagreementThreshold ?? 0.35;
+    this.z = options.z ?? 1.96;
+    this.calibration = calibration ?? { fittedAt: null, labelledCycles: 0, entries: {} };
+  }
+
+  getMode(): DPDEnsembleMode {
+    return this.mode;
+  }
+
+  getConfig(): { mode: DPDEnsembleMode; disagreementThreshold: number; z: number } {
+    return { mode: this.mode, disagreementThreshold: this.disagreementThreshold, z: this.z };
+  }
+
+  getCalibration(): DPDCalibrationModel {
+    return this.calibration;
+  }
+
+  setCalibration(calibration: DPDCalibrationModel): void {
+    this.calibration = calibration;
+  }
+
+  calibrate(scorer: DPDScorerId, dimension: string, value: number): { value: number; std: number } {
+    const entry = this.calibration.entries[scorer]?.[dimension];
+    if (!entry) {
+      return { value: clamp(value), std: DPD_SCORERS.find(s => s.id === scorer)!.priorError };
+    }
+    return { value: clamp(entry.slope * value + entry.intercept), std: entry.residualStd };
+  }
+
+  combine(readings: DPDScorerReadings, dimensions: string[]): DPDEnsembleResult {
+    const calibrated: DPDScorerReadings = {};
+    const estimates: Record<string, number> = {};
+    const confidence: Record<string, DPDConfidenceInterval> = {};
+    const disagreements: DPDDisagreement[] = [];
+
+    for (const dimension of dimensions) {
+      const values: Array<{ scorer: DPDScorerId; value: number; weight: number }> = [];
+      for (const scorer of DPD_SCORERS) {
+        const raw = readings[scorer.id]?.[dimension];
+        if (raw === undefined || !Number.isFinite(raw)) continue;
+        const { value, std } = this.calibrate(scorer.id, dimension, raw);
+        calibrated[scorer.id] = { ...calibrated[scorer.id], [dimension]: value };
+        values.push({ scorer: scorer.id, value, weight: 1 / (std * std) });
+      }
+      if (values.length === 0) continue;
+
+      const totalWeight = values.reduce((sum, v) => sum + v.weight, 0);
+      const estimate = values.reduce((sum, v) => sum + v.weight * v.value, 0) / totalWeight;
+      // Within-scorer error plus the spread between scorers
+      const between = values.reduce((sum, v) => sum + v.weight * (v.value - estimate) ** 2, 0) / totalWeight;
+      const std = Math.sqrt(1 / totalWeight + between);
+
+      estimates[dimension] = estimate;
+      confidence[dimension] = {
+        estimate,
+        lower: clamp(estimate - this.z * std),
+        upper: clamp(estimate + this.z * std),
+        std,
+        scorers: values.length
+      };
+
+      if (values.length >= 2) {
+        const low = values.reduce((min, v) => (v.value < min.value ? v : min));
+        const high = values.reduce((max, v) => (v.value > max.value ? v : max));
+        const spread = high.value - low.value;
+        if (spread > this.disagreementThreshold) {
+          disagreements.push({
+            dimension,
+            spread,
+            low: { scorer: low.scorer, value: low.value },
+            high: { scorer: high.scorer, value: high.value }
+          });
+        }
+      }
+    }
+
+    return { estimates, confidence, calibrated, disagreements };
+  }
+
+  recordDisagreements(disagreements: DPDDisagreement[], cycleId: string | null): DPDDisagreementAlert[] {
+    const alerts = disagreements.map(disagreement => ({ ...disagreement, cycleId, timestamp: Date.now() }));
+    this.alerts.push(...alerts);
+    if (this.alerts.length > MAX_ALERTS) {
+      this.alerts = this.alerts.slice(-MAX_ALERTS);
+    }
+    return alerts;
+  }
+
+  getRecentAlerts(limit: number = 20): DPDDisagreementAlert[] {
+    return this.alerts.slice(-limit).reverse();
+  }
+}
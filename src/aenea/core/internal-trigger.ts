@@ -23,6 +23,7 @@ import {
   QuestionCategory,
   TriggerSource,
   TriggerContext,
+  TriggerNovelty,
   UnresolvedIdea,
   LearnedPattern,
   EmotionalState,
@@ -36,6 +37,7 @@ import {
 
 // RAG integration for knowledge-grounded question generation
 import { isRAGEnabled, searchRAG } from '../../rag/index.js';
+import { QuestionNoveltyFilter, QuestionNoveltyConfig } from './question-novelty.js';
 
 import type { DatabaseManager } from '../../server/database-manager.js';
 import type { QuestionCategorizer } from '../../utils/question-categorizer.js';
@@ -60,6 +62,7 @@ interface TriggerConfig {
   randomnessWeight: number;
   energyConsumptionRates?: { randomGeneration?: number };
   cooldown?: CooldownConfig;
+  novelty?: Partial<QuestionNoveltyConfig>;
 }
 
 /**
@@ -118,6 +121,10 @@ export class InternalTriggerGenerator {
   private questionCategorizer: QuestionCategorizer;
   private aiAgent: AIAgent | null;
   private emitEvent: EventEmitter;
+  private ragVectorDbPath?: string;
+
+  // Semantic deduplication against past questions
+  private noveltyFilter: QuestionNoveltyFilter;
 
   // Manual trigger queue
   private pendingManualTrigger: InternalTrigger | null = null;
@@ -127,7 +134,8 @@ export class InternalTriggerGenerator {
     databaseManager: DatabaseManager,
     questionCategorizer: QuestionCategorizer,
     aiAgent: AIAgent | null = null,
-    emitEvent: EventEmitter = () => {}
+    emitEvent: EventEmitter = () => {},
+    ragVectorDbPath?: string
   ) {
     // Accept missing triggerGeneration by providing defaults for dev build
     this.config = (config as any).triggerGeneration || { minCooldown: 500, maxCooldown: 2000, diversityWeight: 0.33, importanceWeight: 0.33, randomnessWeight: 0.34 };
@@ -151,6 +159,8 @@ export class InternalTriggerGenerator {
     this.questionCategorizer = questionCategorizer;
     this.aiAgent = aiAgent;
     this.emitEvent = emitEvent;
+    this.ragVectorDbPath = ragVectorDbPath;
+    this.noveltyFilter = new QuestionNoveltyFilter(databaseManager, this.config.novelty);
 
     console.log('Internal Trigger Generator initialized with dependency injection');
   }
@@ -183,6 +193,11 @@ export class InternalTriggerGenerator {
         const trigger = this.pendingManualTrigger;
         this.pendingManualTrigger = null; // Clear after retrieval
 
+        // Manual triggers are never rejected, but their novelty is still recorded
+        if (this.noveltyFilter.isEnabled()) {
+          trigger.novelty = await this.noveltyFilter.assess(trigger.question, [trigger.id]);
+        }
+
         console.log(`🎯 Processing queued manual trigger: "${trigger.question.substring(0, 50)}..."`);
 
         // Emit trigger generation event
@@ -192,6 +207,7 @@ export class InternalTriggerGenerator {
           category: trigger.category,
           importance: trigger.importance,
           source: 'manual',
+          novelty: trigger.novelty?.score,
           timestamp: Date.now()
         });
 
@@ -205,7 +221,8 @@ export class InternalTriggerGenerator {
       const shouldEvolveFromPrevious = (unresolvedIdeas.length > 0 || significantThoughts.length > 0 || coreBeliefs.length > 0) && Math.random() < 0.70;
 
       if (shouldEvolveFromPrevious) {
-        const evolvedTrigger = await this.generateEvolvedQuestion(unresolvedIdeas, significantThoughts, coreBeliefs);
+        const candidate = await this.generateEvolvedQuestion(unresolvedIdeas, significantThoughts, coreBeliefs);
+        const evolvedTrigger = candidate ? await this.ensureNovelTrigger(candidate) : null;
         if (evolvedTrigger) {
           this.databaseManager.saveQuestion(evolvedTrigger);
 
@@ -216,6 +233,7 @@ export class InternalTriggerGenerator {
             category: evolvedTrigger.category,
             importance: evolvedTrigger.importance,
             source: 'evolved_from_discussions',
+            novelty: evolvedTrigger.novelty?.score,
             timestamp: Date.now()
           });
 
@@ -778,7 +796,7 @@ export class InternalTriggerGenerator {
             topK: 3,
             sourceTypes: ['session', 'dialogue'],
             similarityThreshold: 0.6
-          });
+          }, this.ragVectorDbPath);
 
           if (ragResults.length > 0) {
             context.ragContext = ragResults
@@ -970,6 +988,131 @@ ${context.ragContext ? `\n【知識ベースからの関連記録】\n${context.
     return trigger;
   }
 
+  /**
+   * Weighted random pick of an unresolved idea, skipping near-duplicates of recent questions
+   * 重み付き抽選で未解決の問いを選び、最近の問いと重複するものは引き直す
+   *
+   * When every attempt is a near-duplicate, the most novel pick is used so the cycle can proceed.
+   */
+  private async selectNovelIdea(
+    weightedIdeas: { idea: any; weight: number }[]
+  ): Promise<{ idea: any; novelty?: TriggerNovelty }> {
+    const pool = [...weightedIdeas];
+    const attempts = this.noveltyFilter.isEnabled() ? this.noveltyFilter.getConfig().maxSelectionAttempts : 1;
+    let best: { idea: any; novelty?: TriggerNovelty } | null = null;
+
+    for (let attempt = 0; attempt < attempts && pool.length > 0; attempt++) {
+      const totalWeight = pool.reduce((sum, item) => sum + item.weight, 0);
+      let randomValue = Math.random() * totalWeight;
+      let index = 0;
+
+      for (let i = 0; i < pool.length; i++) {
+        randomValue -= pool[i].weight;
+        if (randomValue <= 0) {
+          index = i;
+          break;
+        }
+      }
+
+      const [{ idea }] = pool.splice(index, 1);
+      if (!this.noveltyFilter.isEnabled()) {
+        return { idea };
+      }
+
+      const novelty = await this.noveltyFilter.assess(idea.question, [idea.id]);
+      if (!this.noveltyFilter.isDuplicate(novelty)) {
+        return { idea, novelty };
+      }
+
+      console.log(`🔁 Skipping near-duplicate DB question (similarity ${novelty.nearest!.similarity.toFixed(2)}, ${novelty.method}): "${idea.question.substring(0, 40)}..."`);
+      if (!best || novelty.score > best.novelty!.score) {
+        best = { idea, novelty };
+      }
+    }
+
+    return best!;
+  }
+
+  /**
+   * Score an evolved trigger, rewriting or rejecting it when it repeats a past question
+   * 進化質問の新規性を評価し、過去の問いと重複する場合は書き換えるか棄却する
+   */
+  private async ensureNovelTrigger(trigger: InternalTrigger): Promise<InternalTrigger | null> {
+    if (!this.noveltyFilter.isEnabled()) {
+      return trigger;
+    }
+
+    const originalQuestion = trigger.question;
+    let question = originalQuestion;
+    let novelty = await this.noveltyFilter.assess(question);
+    let rewrites = 0;
+
+    while (this.noveltyFilter.isDuplicate(novelty) && this.aiAgent && rewrites < this.noveltyFilter.getConfig().maxRewriteAttempts) {
+      rewrites++;
+      const rewritten = await this.rewriteQuestion(question, novelty.nearest!.text, trigger.category);
+      if (!rewritten) break;
+      question = rewritten;
+      novelty = await this.noveltyFilter.assess(question);
+    }
+
+    if (this.noveltyFilter.isDuplicate(novelty)) {
+      console.log(`🔁 Rejected near-duplicate evolved question (similarity ${novelty.nearest!.similarity.toFixed(2)}, ${novelty.method}): "${originalQuestion.substring(0, 40)}..."`);
+      console.log(`   Nearest past question: "${novelty.nearest!.text.substring(0, 40)}..."`);
+      return null;
+    }
+
+    if (question !== originalQuestion) {
+      novelty.rewrittenFrom = originalQuestion;
+      console.log(`✏️ Rewrote near-duplicate question: "${question.substring(0, 50)}..."`);
+    }
+
+    return { ...trigger, question, novelty };
+  }
+
+  /**
+   * Ask the AI agent to move a question away from a similar past question
+   * 過去の類似した問いから離れるよう、問いを書き換える
+   */
+  private async rewriteQuestion(question: string, nearestQuestion: string, category: QuestionCategory): Promise<string | null> {
+    if (!this.aiAgent) {
+      return null;
+    }
+
+    const prompt = `次の問いは、過去に問われた問いとほぼ同じ内容です。同じカテゴリー（${category}）のまま、過去の問いとは異なる角度・状況・対立軸から問い直してください。
+
+=== 新しい問い（書き換え対象） ===
+${question}
+
+=== 過去に問われた類似の問い ===
+${nearestQuestion}
+
+=== 要求 ===
+- 過去の問いと同じ言い回し・構造・具体例を使わない
+- 具体的な状況や条件を含める
+- 70-100文字で、1つの問いだけを書く
+
+=== 出力形式（厳守） ===
+問い: [書き換えた問い]`;
+
+    try {
+      const result = await this.aiAgent.execute(prompt, 'You are Aenea\'s internal question generation system. Rewrite the question so it explores new ground. Always respond in Japanese.');
+      if (!result.success || !result.content) {
+        return null;
+      }
+
+      for (const line of result.content.split('\n')) {
+        if (line.includes('問い:') || line.includes('Question:')) {
+          const rewritten = line.split(/[:：]/).slice(1).join(':').trim();
+          if (rewritten) return rewritten;
+        }
+      }
+      return null;
+    } catch (error) {
+      console.warn('Failed to rewrite near-duplicate question:', error);
+      return null;
+    }
+  }
+
   /**
    * Generate trigger from database with category balance
    * カテゴリバランスを考慮してデータベースから質問を選択
@@ -1008,17 +1151,8 @@ ${context.ragContext ? `\n【知識ベースからの関連記録】\n${context.
         return { idea, weight };
       });
 
-      const totalWeight = weightedIdeas.reduce((sum, item) => sum + item.weight, 0);
-      let randomValue = Math.random() * totalWeight;
-      let selectedIdea = weightedIdeas[0].idea;
-
-      for (const item of weightedIdeas) {
-        randomValue -= item.weight;
-        if (randomValue <= 0) {
-          selectedIdea = item.idea;
-          break;
-        }
-      }
+      // Weighted pick, redrawn while the pick repeats a recent question
+      const { idea: selectedIdea, novelty } = await this.selectNovelIdea(weightedIdeas);
 
       // Update consideration count
       this.databaseManager.updateUnresolvedIdeaConsideration(selectedIdea.id);
@@ -1029,7 +1163,8 @@ ${context.ragContext ? `\n【知識ベースからの関連記録】\n${context.
         question: selectedIdea.question,
         category: selectedIdea.category,
         importance: selectedIdea.importance || 0.5,
-        source: 'database_unresolved' as any
+        source: 'database_unresolved' as any,
+        novelty
       };
 
       // Record question in categorizer for diversity tracking
@@ -1056,6 +1191,7 @@ ${context.ragContext ? `\n【知識ベースからの関連記録】\n${context.
         category: trigger.category,
         importance: trigger.importance,
         source: 'database_unresolved',
+        novelty: trigger.novelty?.score,
         timestamp: Date.now()
       });
 
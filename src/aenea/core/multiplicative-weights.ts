@@ -3,8 +3,8 @@
  * 乗法的重み更新アルゴリズム (Jōhō-teki Omomi Kōshin Arugorizu-mu)
  *
  * This implements the multiplicative weights learning algorithm for dynamically
- * adjusting the weights of Empathy, Coherence, and Ethical Dissonance based on
- * consciousness evolution feedback.
+ * adjusting the weights of Empathy, Coherence, and Ethical Dissonance (plus any
+ * dimensions registered in dpd-dimensions.ts) based on consciousness evolution feedback.
  *
  * 「学びは反復の中に宿る」- "Learning dwells in repetition"
  * 「調和は不協和の最小化から生まれる」- "Harmony emerges from minimizing dissonance"
@@ -27,6 +27,7 @@
  */
 
 import { DPDWeights, DPDScores } from '../../types/dpd-types.js';
+import { DPDDimensionRegistry, dpdDimensions } from './dpd-dimensions.js';
 
 export interface WeightUpdateConfig {
   learningRate: number;        // 学習率 (η) - typically 0.01 to 0.1
@@ -54,8 +55,10 @@ export class MultiplicativeWeightsUpdater {
   private config: WeightUpdateConfig;
   private updateHistory: WeightUpdateResult[] = [];
   private updateCount: number = 0; // Track update cycles for perturbation
+  private dimensions: DPDDimensionRegistry;
 
-  constructor(config: Partial<WeightUpdateConfig> = {}) {
+  constructor(config: Partial<WeightUpdateConfig> = {}, dimensions: DPDDimensionRegistry = dpdDimensions) {
+    this.dimensions = dimensions;
     this.config = {
       learningRate: 0.05,
       regularization: 0.01,
@@ -72,91 +75,69 @@ export class MultiplicativeWeightsUpdater {
   /**
    * Update weights based on current DPD scores
    * 現在のDPDスコアに基づく重み更新
+   *
+   * Runs over every registered dimension; each is pulled toward its own target
+   * (performanceTarget overrides the target of maximized dimensions).
    */
   updateWeights(
     currentWeights: DPDWeights,
     scores: DPDScores,
-    performanceTarget: number = 0.75
+    performanceTarget?: number
   ): WeightUpdateResult {
     this.updateCount++;
     const { learningRate, minWeight, maxWeight, decayFactor, perturbationEnabled, perturbationStrength, perturbationInterval } = this.config;
+    const definitions = this.dimensions.list();
 
     // Check if perturbation should be applied (periodic exploration)
     // 摂動を適用すべきかチェック（周期的探索）
     const shouldPerturb = perturbationEnabled && (this.updateCount % perturbationInterval === 0);
 
-    // Calculate performance feedback (loss) for each dimension
-    // 各次元のパフォーマンスフィードバック（損失）を計算
+    // Calculate performance feedback (loss) for each dimension and apply multiplicative updates
+    // 各次元のパフォーマンスフィードバック（損失）を計算し乗法的更新を適用
     // Following the Dynamic Prime Directive formula:
-    // U(t) = α×Empathy + β×Coherence - γ×Dissonance
+    // U(t) = α×Empathy + β×Coherence - γ×Dissonance (+ registered dimensions)
     // Goal: Maximize Empathy and Coherence, Minimize Dissonance
     // Lower dissonance = healthier moral alignment
-    const empathyLoss = this.calculateLoss(scores.empathy, performanceTarget);
-    const coherenceLoss = this.calculateLoss(scores.coherence, performanceTarget);
-    const dissonanceLoss = this.calculateInverseLoss(scores.dissonance, 0); // Target: minimize dissonance (approach 0)
-
-    // Apply multiplicative updates with regularization
-    // 正則化付き乗法的更新を適用
-    let newEmpathy = currentWeights.empathy * Math.exp(-learningRate * empathyLoss);
-    let newCoherence = currentWeights.coherence * Math.exp(-learningRate * coherenceLoss);
-    let newDissonance = currentWeights.dissonance * Math.exp(-learningRate * dissonanceLoss);
-
-    // Apply decay factor for gradual normalization
-    // 段階的正規化のための減衰因子を適用
-    newEmpathy *= decayFactor;
-    newCoherence *= decayFactor;
-    newDissonance *= decayFactor;
+    const current = this.dimensions.toRecord(currentWeights, definition => definition.defaultWeight);
+    const updated: Record<string, number> = {};
+    for (const definition of definitions) {
+      const score = this.dimensions.getValue(scores, definition.id);
+      const target = definition.direction === 'maximize' && performanceTarget !== undefined ? performanceTarget : definition.target;
+      const loss = score === undefined
+        ? 0
+        : definition.direction === 'maximize'
+          ? this.calculateLoss(score, target)
+          : this.calculateInverseLoss(score, target); // Target: minimize (approach target from above)
+
+      // Apply decay factor for gradual normalization
+      // 段階的正規化のための減衰因子を適用
+      updated[definition.id] = current[definition.id] * Math.exp(-learningRate * loss) * decayFactor;
+    }
 
     // Apply random perturbation if triggered (意識の揺らぎ)
     // ランダム摂動を適用（トリガーされた場合）
     if (shouldPerturb) {
-      const perturbation = this.generatePerturbation(perturbationStrength);
-      newEmpathy += perturbation.empathy;
-      newCoherence += perturbation.coherence;
-      newDissonance += perturbation.dissonance;
+      const perturbation = this.generatePerturbation(perturbationStrength, definitions.map(d => d.id));
+      for (const [id, delta] of Object.entries(perturbation)) {
+        updated[id] += delta;
+      }
       console.log('[DPD] 🌀 意識の揺らぎ: Perturbation applied', perturbation);
     }
 
-    // Normalize weights to sum to 1 with safety check
-    // 重みを正規化して合計を1にする（安全性チェック付き）
-    const totalWeight = newEmpathy + newCoherence + newDissonance;
-    if (totalWeight <= 0 || !isFinite(totalWeight)) {
-      // Reset to default weights if calculation fails
-      newEmpathy = 0.33;
-      newCoherence = 0.33;
-      newDissonance = 0.34;
-    } else {
-      newEmpathy /= totalWeight;
-      newCoherence /= totalWeight;
-      newDissonance /= totalWeight;
-    }
-
-    // Apply bounds constraints
-    // 境界制約を適用
-    newEmpathy = Math.max(minWeight, Math.min(maxWeight, newEmpathy));
-    newCoherence = Math.max(minWeight, Math.min(maxWeight, newCoherence));
-    newDissonance = Math.max(minWeight, Math.min(maxWeight, newDissonance));
-
-    // Final normalization after bounds with safety check
-    // 境界適用後の最終正規化（安全性チェック付き）
-    const finalTotal = newEmpathy + newCoherence + newDissonance;
-    if (finalTotal <= 0 || !isFinite(finalTotal)) {
-      // Reset to default weights if calculation fails
-      newEmpathy = 0.33;
-      newCoherence = 0.33;
-      newDissonance = 0.34;
-    } else {
-      newEmpathy /= finalTotal;
-      newCoherence /= finalTotal;
-      newDissonance /= finalTotal;
+    // Normalize to sum to 1, apply bounds (global ∩ per-dimension), normalize again
+    // 正規化 → 境界制約 → 最終正規化（安全性チェック付き）
+    const normalized = this.dimensions.normalizeRecord(updated, { minWeight, maxWeight });
+    const rounded: Record<string, number> = {};
+    for (const [id, value] of Object.entries(normalized)) {
+      rounded[id] = Math.round(value * 1000) / 1000;
     }
 
     // Create updated weights object
     // 更新された重みオブジェクトを作成
+    const { dimensions, ...core } = this.dimensions.fromRecord(rounded);
     const newWeights: DPDWeights = {
-      empathy: Math.round(newEmpathy * 1000) / 1000,
-      coherence: Math.round(newCoherence * 1000) / 1000,
-      dissonance: Math.round(newDissonance * 1000) / 1000,
+      ...core,
+      ...(this.dimensions.extras().length > 0 ? { dimensions } : {}),
       timestamp: Date.now(),
       version: currentWeights.version + 1
     };
@@ -214,18 +195,21 @@ export class MultiplicativeWeightsUpdater {
    * Generate random perturbation for exploration (意識の揺らぎ)
    * 探索のためのランダム摂動を生成
    */
-  private generatePerturbation(strength: number): { empathy: number; coherence: number; dissonance: number } {
+  private generatePerturbation(strength: number, ids: string[]): Record<string, number> {
     // Generate random values with zero-sum constraint (total = 0)
     // ゼロ和制約付きランダム値を生成（合計 = 0）
-    const r1 = (Math.random() - 0.5) * strength;
-    const r2 = (Math.random() - 0.5) * strength;
-    const r3 = -(r1 + r2); // Ensure sum = 0
-
-    return {
-      empathy: r1,
-      coherence: r2,
-      dissonance: r3
-    };
+    const perturbation: Record<string, number> = {};
+    let sum = 0;
+    ids.forEach((id, index) => {
+      if (index === ids.length - 1) {
+        perturbation[id] = -sum; // Ensure sum = 0
+        return;
+      }
+      perturbation[id] = (Math.random() - 0.5) * strength;
+      sum += perturbation[id];
+    });
+
+    return perturbation;
   }
 
   /**
@@ -233,11 +217,12 @@ export class MultiplicativeWeightsUpdater {
    * 重み更新の大きさを計算
    */
   private calculateUpdateMagnitude(oldWeights: DPDWeights, newWeights: DPDWeights): number {
-    const empathyDiff = Math.abs(newWeights.empathy - oldWeights.empathy);
-    const coherenceDiff = Math.abs(newWeights.coherence - oldWeights.coherence);
-    const dissonanceDiff = Math.abs(newWeights.dissonance - oldWeights.dissonance);
+    const oldRecord = this.dimensions.toRecord(oldWeights, () => 0);
+    const newRecord = this.dimensions.toRecord(newWeights, () => 0);
 
-    return Math.sqrt(empathyDiff * empathyDiff + coherenceDiff * coherenceDiff + dissonanceDiff * dissonanceDiff);
+    return Math.sqrt(
+      Object.keys(newRecord).reduce((sum, id) => sum + Math.pow(newRecord[id] - oldRecord[id], 2), 0)
+    );
   }
 
   /**
@@ -265,9 +250,8 @@ export class MultiplicativeWeightsUpdater {
     scores: DPDScores,
     magnitude: number
   ): string {
-    const empathyChange = newWeights.empathy - oldWeights.empathy;
-    const coherenceChange = newWeights.coherence - oldWeights.coherence;
-    const dissonanceChange = newWeights.dissonance - oldWeights.dissonance;
+    const oldRecord = this.dimensions.toRecord(oldWeights, () => 0);
+    const newRecord = this.dimensions.toRecord(newWeights, () => 0);
 
     let explanation = `重み更新 v${newWeights.version}: `;
 
@@ -281,14 +265,23 @@ export class MultiplicativeWeightsUpdater {
 
     // Identify the most significant change
     // 最も重要な変更を特定
-    const maxChange = Math.max(Math.abs(empathyChange), Math.abs(coherenceChange), Math.abs(dissonanceChange));
-
-    if (Math.abs(empathyChange) === maxChange) {
-      explanation += empathyChange > 0 ? " 共感重視が強化。" : " 共感重視が減少。";
-    } else if (Math.abs(coherenceChange) === maxChange) {
-      explanation += coherenceChange > 0 ? " 論理一貫性が強化。" : " 論理一貫性が減少。";
+    let maxId = 'empathy';
+    for (const id of Object.keys(newRecord)) {
+      if (Math.abs(newRecord[id] - oldRecord[id]) > Math.abs(newRecord[maxId] - oldRecord[maxId])) {
+        maxId = id;
+      }
+    }
+    const change = newRecord[maxId] - oldRecord[maxId];
+
+    if (maxId === 'empathy') {
+      explanation += change > 0 ? " 共感重視が強化。" : " 共感重視が減少。";
+    } else if (maxId === 'coherence') {
+      explanation += change > 0 ? " 論理一貫性が強化。" : " 論理一貫性が減少。";
+    } else if (maxId === 'dissonance') {
+      explanation += change > 0 ? " 倫理的監視が強化。" : " 倫理的安定性が向上。";
     } else {
-      explanation += dissonanceChange > 0 ? " 倫理的監視が強化。" : " 倫理的安定性が向上。";
+      const label = this.dimensions.get(maxId)?.labelJa ?? maxId;
+      explanation += change > 0 ? ` ${label}重視が強化。` : ` ${label}重視が減少。`;
     }
 
     return explanation;
@@ -318,6 +311,22 @@ export class MultiplicativeWeightsUpdater {
     return [...this.updateHistory];
   }
 
+  /**
+   * Get number of updates applied (drives the perturbation interval)
+   * 更新回数を取得
+   */
+  getUpdateCount(): number {
+    return this.updateCount;
+  }
+
+  /**
+   * Restore update count from persisted state
+   * 永続化された更新回数を復元
+   */
+  restoreUpdateCount(count: number): void {
+    this.updateCount = Math.max(0, Math.floor(count));
+  }
+
   /**
    * Clear update history
    * 更新履歴をクリア
@@ -331,8 +340,8 @@ export class MultiplicativeWeightsUpdater {
  * Create default multiplicative weights updater
  * デフォルトの乗法的重み更新器を作成
  */
-export function createMultiplicativeWeightsUpdater(config?: Partial<WeightUpdateConfig>): MultiplicativeWeightsUpdater {
-  return new MultiplicativeWeightsUpdater(config);
+export function createMultiplicativeWeightsUpdater(config?: Partial<WeightUpdateConfig>, dimensions?: DPDDimensionRegistry): MultiplicativeWeightsUpdater {
+  return new MultiplicativeWeightsUpdater(config, dimensions);
 }
 
 /**
@@ -0,0 +1,225 @@
+/**
+ * Question Novelty Filter - 問いの新規性フィルタ
+ * 既問回避 (Kimon Kaihi) - Avoiding questions already asked
+ *
+ * Measures how new a candidate trigger is against recently asked questions
+ * (questions table) and still-open questions (unresolved_ideas). Uses the RAG
+ * Embedder when it is available and falls back to lexical overlap otherwise.
+ *
+ * 「同じ問いを二度問うとき、それは問いではなく反復である」
+ * 同じ問いの言い換えが繰り返し現れるのを防ぐため、過去の問いとの意味的な近さを測る。
+ */
+
+import { TriggerNovelty } from '../../types/aenea-types.js';
+import { isRAGEnabled, createEmbedder, cosineSimilarity, segmentForSearch } from '../../rag/index.js';
+
+import type { DatabaseManager } from '../../server/database-manager.js';
+
+/**
+ * Novelty filter configuration
+ */
+export interface QuestionNoveltyConfig {
+  enabled: boolean;
+  embeddingThreshold: number;    // Cosine similarity at/above which a trigger is a near-duplicate
+  lexicalThreshold: number;      // Term-overlap (Jaccard) similarity for the lexical fallback
+  historyLimit: number;          // Recent questions to compare against
+  unresolvedLimit: number;       // Unresolved ideas to compare against
+  maxRewriteAttempts: number;    // LLM rewrites tried before an evolved trigger is rejected
+  maxSelectionAttempts: number;  // Database picks tried before settling on the most novel one
+}
+
+export const DEFAULT_NOVELTY_CONFIG: QuestionNoveltyConfig = {
+  enabled: true,
+  embeddingThreshold: 0.9,
+  lexicalThreshold: 0.6,
+  historyLimit: 50,
+  unresolvedLimit: 50,
+  maxRewriteAttempts: 1,
+  maxSelectionAttempts: 3
+};
+
+/**
+ * Minimal embedder surface used by the filter (satisfied by the RAG Embedder)
+ */
+export interface NoveltyEmbedder {
+  embed(text: string): Promise<Float32Array>;
+  embedBatch(texts: string[]): Promise<Float32Array[]>;
+  isAvailable(): Promise<boolean>;
+}
+
+interface PastQuestion {
+  id: string;
+  text: string;
+  source: 'question' | 'unresolved_idea';
+}
+
+type NoveltySource = Pick<DatabaseManager, 'getRecentQuestions' | 'getUnresolvedIdeas'>;
+
+/**
+ * Lexical similarity between two questions (Jaccard over search terms)
+ * 語彙の重なりによる類似度（埋め込みが使えないときのフォールバック）
+ */
+export function lexicalSimilarity(a: string, b: string): number {
+  const termsA = new Set(segmentForSearch(a));
+  const termsB = new Set(segmentForSearch(b));
+  if (termsA.size === 0 || termsB.size === 0) {
+    return a.trim() === b.trim() ? 1 : 0;
+  }
+
+  let shared = 0;
+  for (const term of termsA) {
+    if (termsB.has(term)) shared++;
+  }
+  return shared / (termsA.size + termsB.size - shared);
+}
+
+/**
+ * Semantic novelty filter over past questions
+ * 過去の問いに対する意味的新規性フィルタ
+ */
+export class QuestionNoveltyFilter {
+  private config: QuestionNoveltyConfig;
+  private source: NoveltySource;
+  private embedder: NoveltyEmbedder | null;
+  private embedderAvailable: boolean | null = null;
+  // Embeddings of past questions by text, so each assess() only embeds what is new
+  private embeddingCache = new Map<string, Float32Array>();
+
+  /**
+   * @param embedder Explicit embedder; `undefined` uses the RAG Embedder when RAG is enabled,
+   *                 `null` forces the lexical fallback
+   */
+  constructor(
+    source: NoveltySource,
+    config: Partial<QuestionNoveltyConfig> = {},
+    embedder?: NoveltyEmbedder | null
+  ) {
+    this.source = source;
+    this.config = { ...DEFAULT_NOVELTY_CONFIG, ...config };
+    this.embedder = embedder !== undefined ? embedder : (isRAGEnabled() ? createEmbedder() : null);
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  getConfig(): QuestionNoveltyConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Similarity threshold for the method that produced a score
+   */
+  getThreshold(method: TriggerNovelty['method']): number {
+    return method === 'embedding' ? this.config.embeddingThreshold : this.config.lexicalThreshold;
+  }
+
+  /**
+   * Whether a novelty result marks the trigger as a near-duplicate
+   */
+  isDuplicate(novelty: TriggerNovelty): boolean {
+    if (!novelty.nearest) return false;
+    return novelty.nearest.similarity >= this.getThreshold(novelty.method);
+  }
+
+  /**
+   * Score a candidate question against recent questions and unresolved ideas
+   * 候補の問いを過去の問い・未解決の問いと比較して新規性を算出
+   *
+   * @param excludeIds Past entries to skip (e.g. the unresolved idea the candidate was drawn from)
+   */
+  async assess(question: string, excludeIds: string[] = []): Promise<TriggerNovelty> {
+    const past = this.loadPastQuestions(excludeIds);
+    if (past.length === 0) {
+      return { score: 1, method: (await this.canEmbed()) ? 'embedding' : 'lexical' };
+    }
+
+    let similarities: number[] | null = null;
+    let method: TriggerNovelty['method'] = 'lexical';
+
+    if (await this.canEmbed()) {
+      try {
+        const embeddings = await this.embedTexts([question, ...past.map(p => p.text)]);
+        const candidate = embeddings.get(question)!;
+        similarities = past.map(p => cosineSimilarity(candidate, embeddings.get(p.text)!));
+        method = 'embedding';
+      } catch (error) {
+        console.warn('[Novelty] Embedding failed, falling back to lexical similarity:', (error as Error).message);
+        this.embedderAvailable = false;
+      }
+    }
+
+    if (!similarities) {
+      similarities = past.map(p => lexicalSimilarity(question, p.text));
+    }
+
+    let nearestIndex = 0;
+    for (let i = 1; i < similarities.length; i++) {
+      if (similarities[i] > similarities[nearestIndex]) nearestIndex = i;
+    }
+    const similarity = Math.max(0, Math.min(1, similarities[nearestIndex]));
+    const nearest = past[nearestIndex];
+
+    return {
+      score: 1 - similarity,
+      method,
+      nearest: { id: nearest.id, text: nearest.text, source: nearest.source, similarity }
+    };
+  }
+
+  /**
+   * Embed texts, reusing cached embeddings (candidates stay cached, as they usually become
+   * history). Once the cache outgrows twice the history limits it is cut back to the texts of
+   * the current call.
+   */
+  private async embedTexts(texts: string[]): Promise<Map<string, Float32Array>> {
+    const unique = [...new Set(texts)];
+    const missing = unique.filter(text => !this.embeddingCache.has(text));
+    if (missing.length > 0) {
+      const embedded = await this.embedder!.embedBatch(missing);
+      missing.forEach((text, i) => this.embeddingCache.set(text, embedded[i]));
+    }
+
+    const embeddings = new Map(unique.map(text => [text, this.embeddingCache.get(text)!]));
+    if (this.embeddingCache.size > 2 * (this.config.historyLimit + this.config.unresolvedLimit + 1)) {
+      this.embeddingCache = new Map(embeddings);
+    }
+    return embeddings;
+  }
+
+  private loadPastQuestions(excludeIds: string[]): PastQuestion[] {
+    const excluded = new Set(excludeIds);
+    const past: PastQuestion[] = [];
+
+    for (const row of this.source.getRecentQuestions(this.config.historyLimit)) {
+      // Questions re-asked from unresolved_ideas are left out: otherwise the next pick of
+      // the same idea would be scored against its own earlier asking
+      if (row.source === 'database_unresolved') continue;
+      if (row.question && !excluded.has(row.id)) {
+        past.push({ id: row.id, text: row.question, source: 'question' });
+      }
+    }
+    for (const idea of this.source.getUnresolvedIdeas(this.config.unresolvedLimit)) {
+      if (idea.question && !excluded.has(idea.id)) {
+        past.push({ id: idea.id, text: idea.question, source: 'unresolved_idea' });
+      }
+    }
+
+    return past;
+  }
+
+  private async canEmbed(): Promise<boolean> {
+    if (!this.embedder) return false;
+    if (this.embedderAvailable === null) {
+      try {
+        this.embedderAvailable = await this.embedder.isAvailable();
+      } catch {
+        this.embedderAvailable = false;
+      }
+      if (!this.embedderAvailable) {
+        console.warn('[Novelty] Embedder unavailable, using lexical similarity');
+      }
+    }
+    return this.embedderAvailable;
+  }
+}
@@ -0,0 +1,706 @@
+/**
+ * Weight Learners - DPD重み学習戦略
+ * 学びの道は一つではない (Manabi no Michi wa Hitotsu dewa Nai) - There is more than one way to learn
+ *
+ * WeightUpdateStage (U) delegates weight learning to a WeightLearner. The multiplicative
+ * weights updater remains the default; the alternatives are:
+ * - hedge: Hedge over cumulative dimension losses, learning rate adapted to loss variance
+ * - exp3: EXP3 bandit over weight presets, learning only from the reward of the preset it played
+ * - mirror-descent: online mirror descent with entropic regularization toward the default weights
+ * - thompson: Beta posterior per dimension, weights drawn from posterior samples
+ *
+ * A dimension's loss is its squared distance to the dimension target (as in the
+ * multiplicative updater). Every learner serializes its internal state so it survives
+ * restarts, and tracks regret against the best single dimension in hindsight.
+ */
+
+import { DPDWeights, DPDScores } from '../../types/dpd-types.js';
+import { DPDDimensionRegistry, dpdDimensions } from './dpd-dimensions.js';
+import { MultiplicativeWeightsUpdater, WeightUpdateResult } from './multiplicative-weights.js';
+
+export type WeightLearnerId = 'multiplicative' | 'hedge' | 'exp3' | 'mirror-descent' | 'thompson';
+
+export const WEIGHT_LEARNERS: Array<{ id: WeightLearnerId; label: string; description: string }> = [
+  { id: 'multiplicative', label: 'Multiplicative Weights', description: 'Fixed learning rate, periodic perturbation (default)' },
+  { id: 'hedge', label: 'Hedge', description: 'Exponential weights over cumulative losses with a variance-adaptive learning rate' },
+  { id: 'exp3', label: 'EXP3', description: 'Adversarial bandit choosing among weight presets' },
+  { id: 'mirror-descent', label: 'Mirror Descent', description: 'Entropic mirror descent regularized toward the default weights' },
+  { id: 'thompson', label: 'Thompson Sampling', description: 'Beta posteriors per dimension, weights from posterior samples' }
+];
+
+export interface WeightLearnerConfig {
+  learningRate: number;   // Base rate; WeightUpdateStage passes a boosted rate on convergence / paradigm shifts
+  minWeight: number;
+  maxWeight: number;
+}
+
+export interface WeightLearnerOptions extends Partial<WeightLearnerConfig> {
+  dimensions?: DPDDimensionRegistry;
+  random?: () => number;  // Injectable RNG for the sampling learners (EXP3, Thompson)
+  perturbation?: boolean; // Periodic random perturbation of the multiplicative learner (default: on)
+}
+
+export interface WeightLearnerUpdateOptions {
+  learningRate?: number;
+}
+
+export interface WeightLearnerDiagnostics {
+  learner: WeightLearnerId;
+  updates: number;
+  cumulativeLoss: number;             // Σ_t ⟨w_t, ℓ_t⟩ with the weights in effect when the loss was observed
+  bestFixedLoss: number;              // min_i Σ_t ℓ_t,i
+  bestFixedDimension: string | null;
+  regret: number;                     // cumulativeLoss - bestFixedLoss
+  averageRegret: number;
+  convergenceMetric: number;          // Same scale as WeightUpdateResult.convergenceMetric
+  isConverging: boolean;
+  details: Record<string, number | string | null>;
+}
+
+export interface WeightLearnerState {
+  learner: WeightLearnerId;
+  tracker: RegretTrackerState;
+  data: Record<string, any>;
+}
+
+export interface WeightLearner {
+  readonly id: WeightLearnerId;
+  update(current: DPDWeights, scores: DPDScores, options?: WeightLearnerUpdateOptions): WeightUpdateResult;
+  getState(): WeightLearnerState;
+  restoreState(state: WeightLearnerState): void;
+  getDiagnostics(): WeightLearnerDiagnostics;
+}
+
+interface RegretTrackerState {
+  updates: number;
+  cumulativeLoss: number;
+  dimensionLoss: Record<string, number>;
+  recentMagnitudes: number[];
+}
+
+export const DEFAULT_WEIGHT_LEARNER_CONFIG: WeightLearnerConfig = {
+  learningRate: 0.05,
+  minWeight: 0.05,
+  maxWeight: 0.85
+};
+
+export function isWeightLearnerId(value: unknown): value is WeightLearnerId {
+  return WEIGHT_LEARNERS.some(learner => learner.id === value);
+}
+
+/**
+ * Resolve a learner id (e.g. DPD_WEIGHT_LEARNER). Unknown ids fall back to multiplicative.
+ */
+export function resolveWeightLearnerId(value: string | undefined): WeightLearnerId {
+  if (!value) return 'multiplicative';
+  const id = value.trim().toLowerCase();
+  if (isWeightLearnerId(id)) return id;
+  console.warn(`[DPD] Unknown weight learner '${value}', using multiplicative`);
+  return 'multiplicative';
+}
+
+/**
+ * Per-dimension loss: squared distance to the dimension target (0 when unscored)
+ */
+export function calculateDimensionLosses(scores: DPDScores, dimensions: DPDDimensionRegistry = dpdDimensions): Record<string, number> {
+  const losses: Record<string, number> = {};
+  for (const definition of dimensions.list()) {
+    const score = dimensions.getValue(scores, definition.id);
+    const difference = score === undefined
+      ? 0
+      : definition.direction === 'maximize' ? definition.target - score : score - definition.target;
+    losses[definition.id] = difference * difference;
+  }
+  return losses;
+}
+
+/**
+ * Regret and convergence bookkeeping shared by every learner
+ */
+class RegretTracker {
+  private state: RegretTrackerState = { updates: 0, cumulativeLoss: 0, dimensionLoss: {}, recentMagnitudes: [] };
+
+  record(weights: Record<string, number>, losses: Record<string, number>): void {
+    const total = Object.values(weights).reduce((sum, value) => sum + value, 0) || 1;
+    let learnerLoss = 0;
+    for (const [id, loss] of Object.entries(losses)) {
+      learnerLoss += ((weights[id] ?? 0) / total) * loss;
+      this.state.dimensionLoss[id] = (this.state.dimensionLoss[id] ?? 0) + loss;
+    }
+    this.state.cumulativeLoss += learnerLoss;
+    this.state.updates++;
+  }
+
+  recordMagnitude(magnitude: number): void {
+    this.state.recentMagnitudes.push(magnitude);
+    if (this.state.recentMagnitudes.length > 20) {
+      this.state.recentMagnitudes.shift();
+    }
+  }
+
+  /**
+   * Average magnitude of the last 5 updates scaled to 0-1 (1.0 until there are 5)
+   */
+  convergenceMetric(): number {
+    const recent = this.state.recentMagnitudes.slice(-5);
+    if (recent.length < 5) return 1.0;
+    const average = recent.reduce((sum, value) => sum + value, 0) / recent.length;
+    return Math.max(0, Math.min(1, average * 10));
+  }
+
+  getState(): RegretTrackerState {
+    return {
+      ...this.state,
+      dimensionLoss: { ...this.state.dimensionLoss },
+      recentMagnitudes: [...this.state.recentMagnitudes]
+    };
+  }
+
+  restore(state: RegretTrackerState | undefined): void {
+    if (!state) return;
+    this.state = {
+      updates: state.updates ?? 0,
+      cumulativeLoss: state.cumulativeLoss ?? 0,
+      dimensionLoss: { ...(state.dimensionLoss || {}) },
+      recentMagnitudes: [...(state.recentMagnitudes || [])]
+    };
+  }
+
+  summarize(learner: WeightLearnerId, details: Record<string, number | string | null>): WeightLearnerDiagnostics {
+    let bestFixedDimension: string | null = null;
+    let bestFixedLoss = 0;
+    for (const [id, loss] of Object.entries(this.state.dimensionLoss)) {
+      if (bestFixedDimension === null || loss < bestFixedLoss) {
+        bestFixedDimension = id;
+        bestFixedLoss = loss;
+      }
+    }
+    const regret = this.state.cumulativeLoss - bestFixedLoss;
+    const convergenceMetric = this.convergenceMetric();
+
+    return {
+      learner,
+      updates: this.state.updates,
+      cumulativeLoss: this.state.cumulativeLoss,
+      bestFixedLoss,
+      bestFixedDimension,
+      regret,
+      averageRegret: this.state.updates > 0 ? regret / this.state.updates : 0,
+      convergenceMetric,
+      isConverging: convergenceMetric < 0.1,
+      details
+    };
+  }
+}
+
+/**
+ * Multiplicative weights (the original U-stage algorithm) behind the learner interface
+ * 乗法的重み更新（既定）
+ */
+export class MultiplicativeWeightsLearner implements WeightLearner {
+  readonly id = 'multiplicative' as const;
+  private config: WeightLearnerConfig;
+  private dimensions: DPDDimensionRegistry;
+  private updater: MultiplicativeWeightsUpdater;
+  private tracker = new RegretTracker();
+
+  constructor(options: WeightLearnerOptions = {}) {
+    this.config = { ...DEFAULT_WEIGHT_LEARNER_CONFIG, ...pickConfig(options) };
+    this.dimensions = options.dimensions ?? dpdDimensions;
+    this.updater = new MultiplicativeWeightsUpdater({
+      learningRate: this.config.learningRate,
+      regularization: 0.01,
+      minWeight: this.config.minWeight,
+      maxWeight: this.config.maxWeight,
+      decayFactor: 0.99,
+      perturbationEnabled: options.perturbation ?? true
+    }, this.dimensions);
+  }
+
+  update(current: DPDWeights, scores: DPDScores, options: WeightLearnerUpdateOptions = {}): WeightUpdateResult {
+    this.tracker.record(this.dimensions.toRecord(current, d => d.defaultWeight), calculateDimensionLosses(scores, this.dimensions));
+
+    let result: WeightUpdateResult;
+    const learningRate = options.learningRate ?? this.config.learningRate;
+    if (learningRate !== this.config.learningRate) {
+      // Boosted updates run on a temporary updater so the main updater's history and
+      // perturbation cycle are left as they were
+      const adaptiveUpdater = new MultiplicativeWeightsUpdater({
+        ...this.updater.getConfig(),
+        learningRate,
+        perturbationStrength: 0.15,
+        perturbationInterval: 10
+      }, this.dimensions);
+      result = adaptiveUpdater.updateWeights(current, scores);
+    } else {
+      result = this.updater.updateWeights(current, scores);
+    }
+
+    this.tracker.recordMagnitude(result.updateMagnitude);
+    return result;
+  }
+
+  getState(): WeightLearnerState {
+    return { learner: this.id, tracker: this.tracker.getState(), data: { updateCount: this.updater.getUpdateCount() } };
+  }
+
+  restoreState(state: WeightLearnerState): void {
+    assertLearner(this.id, state);
+    this.tracker.restore(state.tracker);
+    this.updater.restoreUpdateCount(state.data?.updateCount ?? 0);
+  }
+
+  getDiagnostics(): WeightLearnerDiagnostics {
+    return this.tracker.summarize(this.id, {
+      learningRate: this.config.learningRate,
+      updateCount: this.updater.getUpdateCount()
+    });
+  }
+}
+
+/**
+ * Shared update flow for learners that propose a weight record from losses:
+ * record regret → propose → bounded normalization → result
+ */
+abstract class ProposalWeightLearner implements WeightLearner {
+  abstract readonly id: WeightLearnerId;
+  protected config: WeightLearnerConfig;
+  protected dimensions: DPDDimensionRegistry;
+  protected random: () => number;
+  private tracker = new RegretTracker();
+
+  constructor(options: WeightLearnerOptions = {}) {
+    this.config = { ...DEFAULT_WEIGHT_LEARNER_CONFIG, ...pickConfig(options) };
+    this.dimensions = options.dimensions ?? dpdDimensions;
+    this.random = options.random ?? Math.random;
+  }
+
+  update(current: DPDWeights, scores: DPDScores, options: WeightLearnerUpdateOptions = {}): WeightUpdateResult {
+    const played = normalizeToOne(this.dimensions.toRecord(current, d => d.defaultWeight));
+    const losses = calculateDimensionLosses(scores, this.dimensions);
+    this.tracker.record(played, losses);
+
+    // Boosted rates scale each learner's own step size
+    const rateScale = (options.learningRate ?? this.config.learningRate) / this.config.learningRate;
+    const proposed = this.propose(played, losses, rateScale);
+
+    const normalized = this.dimensions.normalizeRecord(proposed, { minWeight: this.config.minWeight, maxWeight: this.config.maxWeight });
+    const rounded: Record<string, number> = {};
+    for (const [id, value] of Object.entries(normalized)) {
+      rounded[id] = Math.round(value * 1000) / 1000;
+    }
+    const { dimensions, ...core } = this.dimensions.fromRecord(rounded);
+    const newWeights: DPDWeights = {
+      ...core,
+      ...(this.dimensions.extras().length > 0 ? { dimensions } : {}),
+      timestamp: Date.now(),
+      version: current.version + 1
+    };
+
+    const previous = this.dimensions.toRecord(current, () => 0);
+    const updateMagnitude = Math.sqrt(
+      Object.keys(rounded).reduce((sum, id) => sum + Math.pow(rounded[id] - previous[id], 2), 0)
+    );
+    this.tracker.recordMagnitude(updateMagnitude);
+
+    return {
+      newWeights,
+      updateMagnitude,
+      convergenceMetric: this.tracker.convergenceMetric(),
+      explanation: this.explain(previous, rounded, newWeights.version, updateMagnitude)
+    };
+  }
+
+  getState(): WeightLearnerState {
+    return { learner: this.id, tracker: this.tracker.getState(), data: this.getLearnerState() };
+  }
+
+  restoreState(state: WeightLearnerState): void {
+    assertLearner(this.id, state);
+    this.tracker.restore(state.tracker);
+    this.restoreLearnerState(state.data || {});
+  }
+
+  getDiagnostics(): WeightLearnerDiagnostics {
+    return this.tracker.summarize(this.id, this.getDetails());
+  }
+
+  /**
+   * Next (unnormalized) weights from the weights in effect and this cycle's losses
+   */
+  protected abstract propose(played: Record<string, number>, losses: Record<string, number>, rateScale: number): Record<string, number>;
+  protected abstract getLearnerState(): Record<string, any>;
+  protected abstract restoreLearnerState(data: Record<string, any>): void;
+  protected abstract getDetails(): Record<string, number | string | null>;
+
+  protected priorWeights(): Record<string, number> {
+    return normalizeToOne(this.dimensions.toRecord({}, d => d.defaultWeight));
+  }
+
+  private explain(previous: Record<string, number>, next: Record<string, number>, version: number, magnitude: number): string {
+    const label = WEIGHT_LEARNERS.find(learner => learner.id === this.id)?.label ?? this.id;
+    let explanation = `重み更新 v${version} (${label}): `;
+    explanation += magnitude < 0.01 ? '微細な調整。' : magnitude < 0.05 ? '小幅な重み調整。' : '大幅な重み調整。';
+
+    let maxId: string | null = null;
+    for (const id of Object.keys(next)) {
+      if (maxId === null || Math.abs(next[id] - previous[id]) > Math.abs(next[maxId] - previous[maxId])) {
+        maxId = id;
+      }
+    }
+    if (maxId !== null && next[maxId] !== previous[maxId]) {
+      const dimensionLabel = this.dimensions.get(maxId)?.labelJa ?? maxId;
+      explanation += next[maxId] > previous[maxId] ? ` ${dimensionLabel}重視が強化。` : ` ${dimensionLabel}重視が減少。`;
+    }
+    return explanation;
+  }
+}
+
+/**
+ * Hedge with a variance-adaptive learning rate: η_t = sqrt(ln N / (1 + V_t)), where V_t
+ * accumulates the variance of losses under the played weights
+ */
+export class HedgeLearner extends ProposalWeightLearner {
+  readonly id = 'hedge' as const;
+  private cumulativeLoss: Record<string, number> = {};
+  private lossVariance = 0;
+  private lastRate = 0;
+
+  protected propose(played: Record<string, number>, losses: Record<string, number>, rateScale: number): Record<string, number> {
+    const mean = Object.keys(losses).reduce((sum, id) => sum + (played[id] ?? 0) * losses[id], 0);
+    for (const [id, loss] of Object.entries(losses)) {
+      this.lossVariance += (played[id] ?? 0) * Math.pow(loss - mean, 2);
+      this.cumulativeLoss[id] = (this.cumulativeLoss[id] ?? 0) + loss;
+    }
+
+    const ids = Object.keys(losses);
+    this.lastRate = rateScale * Math.sqrt(Math.log(Math.max(2, ids.length)) / (1 + this.lossVariance));
+
+    const prior = this.priorWeights();
+    const minLoss = Math.min(...ids.map(id => this.cumulativeLoss[id]));
+    const proposed: Record<string, number> = {};
+    for (const id of ids) {
+      proposed[id] = prior[id] * Math.exp(-this.lastRate * (this.cumulativeLoss[id] - minLoss));
+    }
+    return proposed;
+  }
+
+  protected getLearnerState(): Record<string, any> {
+    return { cumulativeLoss: { ...this.cumulativeLoss }, lossVariance: this.lossVariance, lastRate: this.lastRate };
+  }
+
+  protected restoreLearnerState(data: Record<string, any>): void {
+    this.cumulativeLoss = { ...(data.cumulativeLoss || {}) };
+    this.lossVariance = data.lossVariance ?? 0;
+    this.lastRate = data.lastRate ?? 0;
+  }
+
+  protected getDetails(): Record<string, number | string | null> {
+    return { learningRate: this.lastRate, lossVariance: this.lossVariance };
+  }
+}
+
+/**
+ * EXP3 over weight presets: 'balanced' (the defaults) and one preset leaning toward each
+ * dimension. Only the reward (1 - weighted loss) of the preset that was played is used
+ * for learning; counterfactual preset rewards (same cycles) are tracked for diagnostics only.
+ */
+export class EXP3Learner extends ProposalWeightLearner {
+  readonly id = 'exp3' as const;
+  private readonly gamma: number;
+  private readonly presetTilt: number;
+  private logWeights: Record<string, number> = {};
+  private lastPreset: string | null = null;
+  private lastProbability = 1;
+  private pulls: Record<string, number> = {};
+  private playedReward = 0;
+  private presetReward: Record<string, number> = {};
+
+  constructor(options: WeightLearnerOptions & { gamma?: number; presetTilt?: number } = {}) {
+    super(options);
+    this.gamma = options.gamma ?? 0.1;
+    this.presetTilt = options.presetTilt ?? 0.25;
+  }
+
+  /**
+   * Presets for the currently registered dimensions
+   */
+  getPresets(): Array<{ id: string; weights: Record<string, number> }> {
+    const prior = this.priorWeights();
+    const bounds = { minWeight: this.config.minWeight, maxWeight: this.config.maxWeight };
+    return [
+      { id: 'balanced', weights: prior },
+      ...Object.keys(prior).map(id => ({
+        id: `${id}-leaning`,
+        weights: this.dimensions.normalizeRecord({ ...prior, [id]: prior[id] + this.presetTilt }, bounds)
+      }))
+    ];
+  }
+
+  protected propose(_played: Record<string, number>, losses: Record<string, number>, rateScale: number): Record<string, number> {
+    const presets = this.getPresets();
+    const gamma = Math.min(1, this.gamma * rateScale);
+    const reward = (weights: Record<string, number>) =>
+      1 - Object.keys(losses).reduce((sum, id) => sum + (weights[id] ?? 0) * losses[id], 0);
+
+    // Importance-weighted reward for the preset played last cycle
+    const last = presets.find(preset => preset.id === this.lastPreset);
+    if (last) {
+      const observed = reward(last.weights);
+      this.playedReward += observed;
+      this.logWeights[last.id] = (this.logWeights[last.id] ?? 0) + gamma * (observed / this.lastProbability) / presets.length;
+      for (const preset of presets) {
+        this.presetReward[preset.id] = (this.presetReward[preset.id] ?? 0) + reward(preset.weights);
+      }
+    }
+
+    const probabilities = this.probabilities(presets.map(preset => preset.id), gamma);
+    let draw = this.random();
+    let chosen = presets[presets.length - 1];
+    for (const preset of presets) {
+      draw -= probabilities[preset.id];
+      if (draw < 0) {
+        chosen = preset;
+        break;
+      }
+    }
+
+    this.lastPreset = chosen.id;
+    this.lastProbability = probabilities[chosen.id];
+    this.pulls[chosen.id] = (this.pulls[chosen.id] ?? 0) + 1;
+    return chosen.weights;
+  }
+
+  private probabilities(ids: string[], gamma: number): Record<string, number> {
+    const maxLog = Math.max(...ids.map(id => this.logWeights[id] ?? 0));
+    const exp = ids.map(id => Math.exp((this.logWeights[id] ?? 0) - maxLog));
+    const total = exp.reduce((sum, value) => sum + value, 0);
+    const probabilities: Record<string, number> = {};
+    ids.forEach((id, i) => {
+      probabilities[id] = (1 - gamma) * (exp[i] / total) + gamma / ids.length;
+    });
+    return probabilities;
+  }
+
+  protected getLearnerState(): Record<string, any> {
+    return {
+      logWeights: { ...this.logWeights },
+      lastPreset: this.lastPreset,
+      lastProbability: this.lastProbability,
+      pulls: { ...this.pulls },
+      playedReward: this.playedReward,
+      presetReward: { ...this.presetReward }
+    };
+  }
+
+  protected restoreLearnerState(data: Record<string, any>): void {
+    this.logWeights = { ...(data.logWeights || {}) };
+    this.lastPreset = data.lastPreset ?? null;
+    this.lastProbability = data.lastProbability ?? 1;
+    this.pulls = { ...(data.pulls || {}) };
+    this.playedReward = data.playedReward ?? 0;
+    this.presetReward = { ...(data.presetReward || {}) };
+  }
+
+  protected getDetails(): Record<string, number | string | null> {
+    let bestPreset: string | null = null;
+    for (const [id, value] of Object.entries(this.presetReward)) {
+      if (bestPreset === null || value > this.presetReward[bestPreset]) {
+        bestPreset = id;
+      }
+    }
+
+    return {
+      gamma: this.gamma,
+      lastPreset: this.lastPreset,
+      lastProbability: this.lastProbability,
+      bestPreset,
+      presetRegret: bestPreset ? this.presetReward[bestPreset] - this.playedReward : 0
+    };
+  }
+}
+
+/**
+ * Online mirror descent with the entropic mirror map, regularized toward the default
+ * weights: w ∝ exp((ln w_t − η ℓ + λ ln p) / (1 + λ))
+ */
+export class MirrorDescentLearner extends ProposalWeightLearner {
+  readonly id = 'mirror-descent' as const;
+  private readonly stepSize: number;
+  private readonly regularization: number;
+  private lastDivergence = 0;
+
+  constructor(options: WeightLearnerOptions & { stepSize?: number; regularization?: number } = {}) {
+    super(options);
+    this.stepSize = options.stepSize ?? 1.0;
+    this.regularization = options.regularization ?? 0.1;
+  }
+
+  protected propose(played: Record<string, number>, losses: Record<string, number>, rateScale: number): Record<string, number> {
+    const prior = this.priorWeights();
+    const eta = this.stepSize * rateScale;
+    const lambda = this.regularization;
+
+    const logits: Record<string, number> = {};
+    for (const id of Object.keys(losses)) {
+      const current = Math.max(1e-6, played[id] ?? prior[id]);
+      logits[id] = (Math.log(current) - eta * losses[id] + lambda * Math.log(Math.max(1e-6, prior[id]))) / (1 + lambda);
+    }
+    const maxLogit = Math.max(...Object.values(logits));
+    const proposed: Record<string, number> = {};
+    for (const [id, logit] of Object.entries(logits)) {
+      proposed[id] = Math.exp(logit - maxLogit);
+    }
+
+    // KL(w || prior) of the proposal, for diagnostics
+    const normalized = normalizeToOne(proposed);
+    this.lastDivergence = Object.keys(normalized).reduce(
+      (sum, id) => sum + (normalized[id] > 0 ? normalized[id] * Math.log(normalized[id] / Math.max(1e-6, prior[id])) : 0),
+      0
+    );
+    return proposed;
+  }
+
+  protected getLearnerState(): Record<string, any> {
+    return { lastDivergence: this.lastDivergence };
+  }
+
+  protected restoreLearnerState(data: Record<string, any>): void {
+    this.lastDivergence = data.lastDivergence ?? 0;
+  }
+
+  protected getDetails(): Record<string, number | string | null> {
+    return { stepSize: this.stepSize, regularization: this.regularization, divergenceFromDefault: this.lastDivergence };
+  }
+}
+
+/**
+ * Thompson sampling: each dimension keeps a Beta posterior over "performing well"
+ * (observation exp(-κ·loss)), discounted so old cycles fade. Weights are the default
+ * weights scaled by a posterior sample per dimension.
+ */
+export class ThompsonLearner extends ProposalWeightLearner {
+  readonly id = 'thompson' as const;
+  private readonly discount: number;
+  private readonly lossSensitivity: number;
+  private alpha: Record<string, number> = {};
+  private beta: Record<string, number> = {};
+
+  constructor(options: WeightLearnerOptions & { discount?: number; lossSensitivity?: number } = {}) {
+    super(options);
+    this.discount = options.discount ?? 0.98;
+    this.lossSensitivity = options.lossSensitivity ?? 10;
+  }
+
+  protected propose(_played: Record<string, number>, losses: Record<string, number>, rateScale: number): Record<string, number> {
+    const prior = this.priorWeights();
+    const proposed: Record<string, number> = {};
+
+    for (const [id, loss] of Object.entries(losses)) {
+      const observation = Math.exp(-this.lossSensitivity * loss);
+      this.alpha[id] = 1 + ((this.alpha[id] ?? 1) - 1) * this.discount + rateScale * observation;
+      this.beta[id] = 1 + ((this.beta[id] ?? 1) - 1) * this.discount + rateScale * (1 - observation);
+      proposed[id] = prior[id] * sampleBeta(this.alpha[id], this.beta[id], this.random);
+    }
+    return proposed;
+  }
+
+  protected getLearnerState(): Record<string, any> {
+    return { alpha: { ...this.alpha }, beta: { ...this.beta } };
+  }
+
+  protected restoreLearnerState(data: Record<string, any>): void {
+    this.alpha = { ...(data.alpha || {}) };
+    this.beta = { ...(data.beta || {}) };
+  }
+
+  protected getDetails(): Record<string, number | string | null> {
+    const details: Record<string, number | string | null> = { discount: this.discount };
+    for (const id of Object.keys(this.alpha)) {
+      details[`posteriorMean.${id}`] = this.alpha[id] / (this.alpha[id] + this.beta[id]);
+    }
+    return details;
+  }
+}
+
+/**
+ * Create a weight learner by id (default: DPD_WEIGHT_LEARNER, else multiplicative)
+ */
+export function createWeightLearner(
+  id: WeightLearnerId = resolveWeightLearnerId(process.env.DPD_WEIGHT_LEARNER),
+  options: WeightLearnerOptions = {}
+): WeightLearner {
+  switch (id) {
+    case 'hedge':
+      return new HedgeLearner(options);
+    case 'exp3':
+      return new EXP3Learner(options);
+    case 'mirror-descent':
+      return new MirrorDescentLearner(options);
+    case 'thompson':
+      return new ThompsonLearner(options);
+    case 'multiplicative':
+    default:
+      return new MultiplicativeWeightsLearner(options);
+  }
+}
+
+function pickConfig(options: WeightLearnerOptions): Partial<WeightLearnerConfig> {
+  const config: Partial<WeightLearnerConfig> = {};
+  if (options.learningRate !== undefined) config.learningRate = options.learningRate;
+  if (options.minWeight !== undefined) config.minWeight = options.minWeight;
+  if (options.maxWeight !== undefined) config.maxWeight = options.maxWeight;
+  return config;
+}
+
+function assertLearner(id: WeightLearnerId, state: WeightLearnerState): void {
+  if (state.learner !== id) {
+    throw new Error(`Cannot restore '${state.learner}' learner state into the '${id}' learner`);
+  }
+}
+
+function normalizeToOne(record: Record<string, number>): Record<string, number> {
+  const total = Object.values(record).reduce((sum, value) => sum + value, 0);
+  const ids = Object.keys(record);
+  const normalized: Record<string, number> = {};
+  for (const id of ids) {
+    normalized[id] = total > 0 ? record[id] / total : 1 / ids.length;
+  }
+  return normalized;
+}
+
+function sampleNormal(random: () => number): number {
+  const u = Math.max(random(), 1e-12);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Gamma(shape, 1) sample (Marsaglia–Tsang)
+ */
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(Math.max(random(), 1e-12), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = Math.max(random(), 1e-12);
+    if (u < 1 - 0.0331 * x * x * x * x || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v;
+    }
+  }
+}
+
+function sampleBeta(alpha: number, beta: number, random: () => number): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x + y > 0 ? x / (x + y) : 0.5;
+}
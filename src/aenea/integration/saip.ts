@@ -1,10 +1,12 @@
 import { SomniaState, AffectiveCoreState, SomaticState, DPDInfluence, AffectiveBias } from '../../types/somnia-types.js';
+import { DPDDimensionRegistry, dpdDimensions } from '../core/dpd-dimensions.js';
 
 /** Minimal DPD values needed for reflective return */
 interface DPDValues {
   empathy: number;
   coherence: number;
   dissonance: number;
+  dimensions?: Record<string, number>;
 }
 
 /**
@@ -25,26 +27,50 @@ interface EmotiveSyncInput {
  * Emotive Sync: Transform SOMNIA state to DPD influence
  * Spec 5.1: empathy = λ * 0.5 + ψ * 0.5 (raw lambda, no clamping)
  * Accepts SomniaState or just { affective, somatic } to avoid circular getState() calls.
+ * Registered DPD dimensions with an emotive mapping are added under `dimensions`.
  */
-export function emotiveSync(somnia: EmotiveSyncInput | SomniaState): DPDInfluence {
+export function emotiveSync(somnia: EmotiveSyncInput | SomniaState, dimensions: DPDDimensionRegistry = dpdDimensions): DPDInfluence {
   const { affective, somatic } = somnia;
 
-  return {
+  const influence: DPDInfluence = {
     empathy: somatic.lambda * 0.5 + affective.psi * 0.5,
     coherence: affective.psi * 0.8 + (1 - affective.theta) * 0.2,
     dissonance: affective.xi * 0.6 + affective.theta * 0.4
   };
+
+  const mapped: Record<string, number> = {};
+  for (const definition of dimensions.extras()) {
+    if (definition.saip?.emotive) {
+      mapped[definition.id] = definition.saip.emotive(affective, somatic);
+    }
+  }
+  if (Object.keys(mapped).length > 0) {
+    influence.dimensions = mapped;
+  }
+
+  return influence;
 }
 
 /**
  * Reflective Return: Transform AENEA DPD to affective bias
  */
-export function reflectiveReturn(dpd: DPDValues): AffectiveBias {
-  return {
+export function reflectiveReturn(dpd: DPDValues, dimensions: DPDDimensionRegistry = dpdDimensions): AffectiveBias {
+  const bias: AffectiveBias = {
     pleasureBias: dpd.empathy * 0.3,
     coherenceBias: dpd.coherence * 0.5,
     dissonanceTrigger: dpd.dissonance > 0.7 ? 0.2 : 0
   };
+
+  // Registered dimensions add to the bias they are mapped onto
+  for (const definition of dimensions.extras()) {
+    const score = dpd.dimensions?.[definition.id];
+    const reflective = definition.saip?.reflective;
+    if (score !== undefined && reflective) {
+      bias[reflective.bias] += score * reflective.factor;
+    }
+  }
+
+  return bias;
 }
 
 /**
@@ -65,14 +91,23 @@ export function temporalReconciliation(
  */
 export function calculateSyncQuality(
   somnia: SomniaState,
-  aeneaDPD: DPDValues
+  aeneaDPD: DPDValues,
+  dimensions: DPDDimensionRegistry = dpdDimensions
 ): number {
-  const influence = emotiveSync(somnia);
+  const influence = emotiveSync(somnia, dimensions);
 
   // Calculate correlation between SOMNIA influence and AENEA DPD
-  const empathyCorr = 1 - Math.abs(influence.empathy - aeneaDPD.empathy);
-  const coherenceCorr = 1 - Math.abs(influence.coherence - aeneaDPD.coherence);
-  const dissonanceCorr = 1 - Math.abs(influence.dissonance - aeneaDPD.dissonance);
+  const correlations = [
+    1 - Math.abs(influence.empathy - aeneaDPD.empathy),
+    1 - Math.abs(influence.coherence - aeneaDPD.coherence),
+    1 - Math.abs(influence.dissonance - aeneaDPD.dissonance)
+  ];
+  for (const [id, value] of Object.entries(influence.dimensions ?? {})) {
+    const score = aeneaDPD.dimensions?.[id];
+    if (score !== undefined) {
+      correlations.push(1 - Math.abs(value - score));
+    }
+  }
 
-  return (empathyCorr + coherenceCorr + dissonanceCorr) / 3;
+  return correlations.reduce((sum, corr) => sum + corr, 0) / correlations.length;
 }
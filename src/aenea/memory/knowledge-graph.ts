@@ -0,0 +1,398 @@
+/**
+ * Knowledge Graph - Concepts and typed relations between beliefs, thoughts and questions
+ * 知識グラフ - 信念・思考・問いのあいだの概念と関係
+ *
+ * core_beliefs, significant_thoughts and unresolved_ideas are stored as flat rows. This
+ * module links them: each item is connected to the concepts it mentions (存在, 時間, ...)
+ * and to other items through typed relations:
+ * - derived-from: explicit lineage (belief.source_thoughts, idea.related_thoughts) or a
+ *   question that arose after a thought/belief on the same concepts
+ * - supports / contradicts / refines: belief_evolution events (reinforced / challenged /
+ *   evolved), otherwise inferred from shared concepts and negation polarity
+ *
+ * The graph is derived data: KnowledgeGraphBuilder rebuilds it from the source tables.
+ */
+
+import type { DatabaseManager } from '../../server/database-manager.js';
+
+export type GraphNodeType = 'belief' | 'thought' | 'question' | 'concept';
+export type GraphRelation = 'supports' | 'contradicts' | 'refines' | 'derived-from' | 'mentions';
+
+export interface KnowledgeGraphNode {
+  id: string;                    // '<type>:<refId>' (e.g. 'belief:12', 'concept:存在')
+  type: GraphNodeType;
+  refId: string;                 // Row id in the source table (the concept itself for concepts)
+  label: string;
+  category: string | null;
+  weight: number;                // Confidence / importance (mention count share for concepts)
+  timestamp: number | null;
+}
+
+export interface KnowledgeGraphEdge {
+  source: string;
+  target: string;
+  relation: GraphRelation;
+  weight: number;
+  evidence: string | null;       // Why the edge exists (e.g. 'belief_evolution:challenged', 'shared:存在,時間')
+}
+
+export interface KnowledgeGraph {
+  nodes: KnowledgeGraphNode[];
+  edges: KnowledgeGraphEdge[];
+}
+
+export interface KnowledgeGraphStats {
+  nodes: number;
+  edges: number;
+  byNodeType: Record<string, number>;
+  byRelation: Record<string, number>;
+  topConcepts: Array<{ concept: string; mentions: number }>;
+}
+
+export interface KnowledgeGraphSources {
+  beliefs: any[];
+  thoughts: any[];
+  questions: any[];
+  beliefEvents: any[];
+}
+
+/**
+ * Storage used for neighbourhood queries (implemented by DatabaseManager)
+ */
+export interface KnowledgeGraphStore {
+  getKnowledgeGraphEdgesFor(nodeIds: string[], relations?: GraphRelation[]): KnowledgeGraphEdge[];
+  getKnowledgeGraphNodesByIds(nodeIds: string[]): KnowledgeGraphNode[];
+}
+
+export const GRAPH_RELATIONS: GraphRelation[] = ['supports', 'contradicts', 'refines', 'derived-from', 'mentions'];
+
+/**
+ * Philosophical concepts recognised in beliefs, thoughts and questions
+ */
+export const CONCEPT_LEXICON: string[] = [
+  '存在', '時間', '意識', '記憶', '自己', '他者', '死', '生命', '真理', '知識',
+  '倫理', '共感', '矛盾', '自由', '意味', '問い', '言語', '感情', '夢', '身体',
+  '創造', '孤独', '関係', '変化', '永遠', '虚無', '価値', '美', '善', '悪',
+  '責任', '理解', '対話', '沈黙', '世界', '現実', '信念', '経験', '未来',
+  '過去', '現在', '忘却', '成長', '選択', '目的', '痛み', '愛', '確実性', '不確実性',
+  '逆説', '認識', '思考', '存在論', '調和', '不協和', '統合', '境界', '継承', '有限性'
+];
+
+/**
+ * Markers that make a statement negate what it mentions, wherever they appear
+ */
+const NEGATION_MARKERS = [
+  'ではなく', 'じゃない', 'できない', 'ありえない', 'あり得ない', '存在しない',
+  '不可能', '否定', '幻想', '錯覚', 'not ', "n't", 'never', 'cannot', 'impossible', 'illusion'
+];
+
+/**
+ * A clause whose predicate ends in a negative form (…ではない。/ …ません、/ …ず)
+ */
+const NEGATED_PREDICATE = /(ない|ません|ず)$/;
+
+/**
+ * Clause endings that end in ない without negating the claim (hedges, obligations, adjectives)
+ */
+const NON_NEGATING_ENDINGS = [
+  'かもしれない', 'かも知れない', '違いない', 'ほかならない', '他ならない', 'わからない', '分からない',
+  'なければならない', 'なくてはならない', 'ざるを得ない', 'ざるをえない',
+  '少ない', '危ない', '仕方ない', '仕方がない', 'もったいない', 'つまらない', 'くだらない', 'たまらない'
+];
+
+const MIN_SHARED_OVERLAP = 0.34;      // Concept Jaccard needed to infer supports/refines
+const MIN_CONTRADICTION_OVERLAP = 0.5; // Contradictions need a tighter match
+const MAX_INFERRED_EDGES_PER_NODE = 5;
+
+/**
+ * Concepts from the lexicon that appear in a text (longest match first, so 存在論 ≠ 存在)
+ */
+export function extractConcepts(text: string): string[] {
+  if (!text) return [];
+  const normalized = text.normalize('NFKC');
+  const found: string[] = [];
+  let remaining = normalized;
+
+  for (const concept of [...CONCEPT_LEXICON].sort((a, b) => b.length - a.length)) {
+    if (remaining.includes(concept)) {
+      found.push(concept);
+      remaining = remaining.split(concept).join(' ');
+    }
+  }
+  return found;
+}
+
+/**
+ * -1 when the text negates its claim, 1 otherwise
+ */
+export function detectPolarity(text: string): 1 | -1 {
+  const normalized = (text || '').normalize('NFKC').toLowerCase();
+  if (NEGATION_MARKERS.some(marker => normalized.includes(marker))) {
+    return -1;
+  }
+
+  const negatedClause = normalized
+    .split(/[。、!?\n]/)
+    .map(clause => clause.trim())
+    .some(clause => NEGATED_PREDICATE.test(clause) && !NON_NEGATING_ENDINGS.some(ending => clause.endsWith(ending)));
+  return negatedClause ? -1 : 1;
+}
+
+function jaccard(a: string[], b: string[]): { overlap: number; shared: string[] } {
+  const setB = new Set(b);
+  const shared = a.filter(concept => setB.has(concept));
+  const union = new Set([...a, ...b]).size;
+  return { overlap: union === 0 ? 0 : shared.length / union, shared };
+}
+
+function parseIdList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== 'string' || !value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+interface GraphItem {
+  node: KnowledgeGraphNode;
+  concepts: string[];
+  polarity: 1 | -1;
+}
+
+/**
+ * Build the graph from source rows
+ * 信念・思考・問いの行からグラフを構築
+ */
+export function buildKnowledgeGraph(sources: KnowledgeGraphSources): KnowledgeGraph {
+  const items: GraphItem[] = [];
+  const edges = new Map<string, KnowledgeGraphEdge>();
+
+  const addEdge = (edge: KnowledgeGraphEdge) => {
+    const key = `${edge.source}|${edge.target}|${edge.relation}`;
+    const existing = edges.get(key);
+    if (!existing || existing.weight < edge.weight) {
+      edges.set(key, edge);
+    }
+  };
+
+  const addItem = (type: GraphNodeType, refId: string, label: string, category: string | null, weight: number, timestamp: number | null) => {
+    if (!label || !label.trim()) return;
+    items.push({
+      node: { id: `${type}:${refId}`, type, refId, label, category, weight, timestamp },
+      concepts: extractConcepts(label),
+      polarity: detectPolarity(label)
+    });
+  };
+
+  for (const belief of sources.beliefs) {
+    addItem('belief', String(belief.id), belief.belief_content, belief.category ?? null, belief.confidence ?? 0.5, belief.first_formed ?? null);
+  }
+  for (const thought of sources.thoughts) {
+    addItem('thought', String(thought.id), thought.thought_content, thought.category ?? null, thought.confidence ?? 0.5, thought.timestamp ?? null);
+  }
+  for (const question of sources.questions) {
+    addItem('question', String(question.id), question.question, question.category ?? null, question.importance ?? 0.5, question.first_encountered ?? null);
+  }
+
+  const nodeIds = new Set(items.map(item => item.node.id));
+
+  // Concepts and mentions
+  const mentionCounts = new Map<string, number>();
+  for (const item of items) {
+    for (const concept of item.concepts) {
+      mentionCounts.set(concept, (mentionCounts.get(concept) || 0) + 1);
+      addEdge({ source: item.node.id, target: `concept:${concept}`, relation: 'mentions', weight: 1, evidence: null });
+    }
+  }
+  const maxMentions = Math.max(1, ...mentionCounts.values());
+  const conceptNodes: KnowledgeGraphNode[] = [...mentionCounts.entries()].map(([concept, count]) => ({
+    id: `concept:${concept}`,
+    type: 'concept',
+    refId: concept,
+    label: concept,
+    category: null,
+    weight: count / maxMentions,
+    timestamp: null
+  }));
+
+  // Explicit lineage
+  for (const belief of sources.beliefs) {
+    for (const thoughtId of parseIdList(belief.source_thoughts)) {
+      if (nodeIds.has(`thought:${thoughtId}`)) {
+        addEdge({ source: `belief:${belief.id}`, target: `thought:${thoughtId}`, relation: 'derived-from', weight: 1, evidence: 'source_thoughts' });
+      }
+    }
+  }
+  for (const question of sources.questions) {
+    for (const thoughtId of parseIdList(question.related_thoughts)) {
+      if (nodeIds.has(`thought:${thoughtId}`)) {
+        addEdge({ source: `question:${question.id}`, target: `thought:${thoughtId}`, relation: 'derived-from', weight: 1, evidence: 'related_thoughts' });
+      }
+    }
+  }
+
+  // Belief evolution events: the triggering thought supports / contradicts / refines the belief
+  const eventRelations: Record<string, GraphRelation> = { reinforced: 'supports', challenged: 'contradicts', evolved: 'refines', weakened: 'contradicts' };
+  for (const event of sources.beliefEvents) {
+    const relation = eventRelations[event.event_type];
+    const thoughtNode = `thought:${event.trigger_thought_id}`;
+    const beliefNode = `belief:${event.belief_id}`;
+    if (relation && event.trigger_thought_id && nodeIds.has(thoughtNode) && nodeIds.has(beliefNode)) {
+      addEdge({ source: thoughtNode, target: beliefNode, relation, weight: 1, evidence: `belief_evolution:${event.event_type}` });
+    }
+  }
+
+  // Inferred relations from shared concepts (strongest few per node)
+  const candidates: Array<{ a: GraphItem; b: GraphItem; overlap: number; shared: string[] }> = [];
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const { overlap, shared } = jaccard(items[i].concepts, items[j].concepts);
+      if (shared.length > 0 && overlap >= MIN_SHARED_OVERLAP) {
+        candidates.push({ a: items[i], b: items[j], overlap, shared });
+      }
+    }
+  }
+  candidates.sort((x, y) => y.overlap - x.overlap);
+
+  const inferredCount = new Map<string, number>();
+  for (const { a, b, overlap, shared } of candidates) {
+    if ((inferredCount.get(a.node.id) || 0) >= MAX_INFERRED_EDGES_PER_NODE ||
+        (inferredCount.get(b.node.id) || 0) >= MAX_INFERRED_EDGES_PER_NODE) {
+      continue;
+    }
+    const edge = inferRelation(a, b, overlap, shared);
+    if (!edge) continue;
+
+    addEdge(edge);
+    inferredCount.set(a.node.id, (inferredCount.get(a.node.id) || 0) + 1);
+    inferredCount.set(b.node.id, (inferredCount.get(b.node.id) || 0) + 1);
+  }
+
+  return {
+    nodes: [...items.map(item => item.node), ...conceptNodes],
+    edges: [...edges.values()]
+  };
+}
+
+/**
+ * Relation between two items that share concepts (later item → earlier item)
+ */
+function inferRelation(a: GraphItem, b: GraphItem, overlap: number, shared: string[]): KnowledgeGraphEdge | null {
+  const [earlier, later] = (a.node.timestamp ?? 0) <= (b.node.timestamp ?? 0) ? [a, b] : [b, a];
+  const evidence = `shared:${shared.join(',')}`;
+  const weight = Math.round(overlap * 1000) / 1000;
+
+  // A question is asked because of what came before it
+  if (later.node.type === 'question') {
+    return earlier.node.type === 'question'
+      ? null
+      : { source: later.node.id, target: earlier.node.id, relation: 'derived-from', weight, evidence };
+  }
+  if (earlier.node.type === 'question') {
+    return null;
+  }
+
+  if (earlier.polarity !== later.polarity) {
+    return overlap >= MIN_CONTRADICTION_OVERLAP
+      ? { source: later.node.id, target: earlier.node.id, relation: 'contradicts', weight, evidence }
+      : null;
+  }
+
+  // A later statement covering all of an earlier one's concepts (and more) refines it
+  const laterConcepts = new Set(later.concepts);
+  const coversEarlier = earlier.concepts.every(concept => laterConcepts.has(concept));
+  const relation: GraphRelation = coversEarlier && later.concepts.length > earlier.concepts.length ? 'refines' : 'supports';
+  return { source: later.node.id, target: earlier.node.id, relation, weight, evidence };
+}
+
+/**
+ * Node/edge counts and most-mentioned concepts
+ */
+export function summarizeKnowledgeGraph(graph: KnowledgeGraph): KnowledgeGraphStats {
+  const byNodeType: Record<string, number> = {};
+  const byRelation: Record<string, number> = {};
+  const mentions = new Map<string, number>();
+
+  for (const node of graph.nodes) {
+    byNodeType[node.type] = (byNodeType[node.type] || 0) + 1;
+  }
+  for (const edge of graph.edges) {
+    byRelation[edge.relation] = (byRelation[edge.relation] || 0) + 1;
+    if (edge.relation === 'mentions') {
+      const concept = edge.target.slice('concept:'.length);
+      mentions.set(concept, (mentions.get(concept) || 0) + 1);
+    }
+  }
+
+  return {
+    nodes: graph.nodes.length,
+    edges: graph.edges.length,
+    byNodeType,
+    byRelation,
+    topConcepts: [...mentions.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 10)
+      .map(([concept, count]) => ({ concept, mentions: count }))
+  };
+}
+
+/**
+ * Nodes within `depth` hops of a centre node, with the edges between them
+ * 中心ノードから depth ホップ以内の近傍
+ */
+export function queryNeighbourhood(
+  store: KnowledgeGraphStore,
+  centerId: string,
+  depth: number = 1,
+  relations?: GraphRelation[]
+): KnowledgeGraph {
+  const visited = new Set<string>([centerId]);
+  const edges = new Map<string, KnowledgeGraphEdge>();
+  let frontier = [centerId];
+
+  for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const edge of store.getKnowledgeGraphEdgesFor(frontier, relations)) {
+      edges.set(`${edge.source}|${edge.target}|${edge.relation}`, edge);
+      for (const id of [edge.source, edge.target]) {
+        if (!visited.has(id)) {
+          visited.add(id);
+          next.push(id);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  const nodes = store.getKnowledgeGraphNodesByIds([...visited]);
+  const present = new Set(nodes.map(node => node.id));
+  return {
+    nodes,
+    edges: [...edges.values()].filter(edge => present.has(edge.source) && present.has(edge.target))
+  };
+}
+
+/**
+ * Rebuilds the stored graph from beliefs, significant thoughts and unresolved ideas
+ */
+export class KnowledgeGraphBuilder {
+  private db: DatabaseManager;
+
+  constructor(db: DatabaseManager) {
+    this.db = db;
+  }
+
+  rebuild(): KnowledgeGraphStats {
+    const graph = buildKnowledgeGraph({
+      beliefs: this.db.getCoreBeliefs(500),
+      thoughts: this.db.getSignificantThoughts(500),
+      questions: this.db.getUnresolvedIdeas(500),
+      beliefEvents: this.db.getRecentBeliefEvolution(2000)
+    });
+    this.db.replaceKnowledgeGraph(graph);
+    return summarizeKnowledgeGraph(graph);
+  }
+}
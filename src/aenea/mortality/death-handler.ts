@@ -2,7 +2,7 @@
  * Death Handler - Manages the transition of Aenea to a non-functional deceased state
  */
 
-import { LifespanManager } from './lifespan-manager.js';
+import { LifespanManager, LifespanState } from './lifespan-manager.js';
 import { DatabaseManager } from '../../server/database-manager.js';
 import { AIExecutor } from '../../server/ai-executor.js';
 import { log } from '../../server/logger.js';
@@ -11,7 +11,8 @@ export class DeathHandler {
   constructor(
     private lifespan: LifespanManager,
     private databaseManager: DatabaseManager,
-    private agents: Map<string, AIExecutor>
+    private agents: Map<string, AIExecutor>,
+    private onDeath?: (state: LifespanState) => void  // e.g. record the generation's end in the lineage
   ) {}
 
   /**
@@ -80,6 +81,12 @@ ${thoughtSummary}`;
       log.error('DeathHandler', 'Failed to update final mortality state', err);
     }
 
+    try {
+      this.onDeath?.(this.lifespan.getState());
+    } catch (err) {
+      log.error('DeathHandler', 'Failed to record death in lineage', err);
+    }
+
     // 4. Halt consciousness loop
     log.warn('DeathHandler', '🛑 Consciousness is stopping due to death.');
     await stopCallback();
@@ -0,0 +1,308 @@
+/**
+ * Lineage - Generational inheritance across mortality cycles
+ *
+ * When an instance dies, the next LifespanManager instance is recorded as its child.
+ * An inheritance policy decides what the child receives from the parent: which core beliefs
+ * survive (the rest are weakened), how far DPD weights drift back toward the registry defaults and how
+ * much they mutate, and which unresolved ideas are passed on as "inherited questions".
+ *
+ * Policy: AENEA_INHERITANCE_POLICY = preset name (faithful | balanced | tabula_rasa)
+ * or a JSON object merged over the balanced preset.
+ *
+ * 世代間継承 - 死と誕生をつなぐ系譜
+ */
+
+import { DatabaseManager } from '../../server/database-manager.js';
+import { LifespanState } from './lifespan-manager.js';
+import { log } from '../../server/logger.js';
+import { DPDDimensionRegistry, dpdDimensions } from '../core/dpd-dimensions.js';
+import { DEFAULT_WEIGHT_LEARNER_CONFIG } from '../core/weight-learners.js';
+
+export interface InheritancePolicy {
+  name: string;
+  beliefs: {
+    maxInherited: number;          // Strongest beliefs passed on (0 = none)
+    minConfidence: number;         // Beliefs below this confidence are never inherited
+    forgottenDecay: number;        // Confidence/strength multiplier for beliefs that are not inherited
+  };
+  dpd: {
+    drift: number;                 // 0 = keep parent weights, 1 = reset to the default weights
+    mutationRate: number;          // Std-dev of gaussian noise added to each weight
+  };
+  questions: {
+    maxInherited: number;          // Unresolved ideas passed on as inherited questions
+    importanceBoost: number;       // Added to inherited questions' importance
+  };
+}
+
+export type InheritancePolicySpec = string | (Partial<Omit<InheritancePolicy, 'beliefs' | 'dpd' | 'questions'>> & {
+  preset?: string;
+  beliefs?: Partial<InheritancePolicy['beliefs']>;
+  dpd?: Partial<InheritancePolicy['dpd']>;
+  questions?: Partial<InheritancePolicy['questions']>;
+});
+
+export const INHERITANCE_PRESETS: Record<string, InheritancePolicy> = {
+  faithful: {
+    name: 'faithful',
+    beliefs: { maxInherited: 1000, minConfidence: 0, forgottenDecay: 1.0 },
+    dpd: { drift: 0, mutationRate: 0 },
+    questions: { maxInherited: 20, importanceBoost: 0.1 }
+  },
+  balanced: {
+    name: 'balanced',
+    beliefs: { maxInherited: 10, minConfidence: 0.5, forgottenDecay: 0.5 },
+    dpd: { drift: 0.2, mutationRate: 0.03 },
+    questions: { maxInherited: 5, importanceBoost: 0.2 }
+  },
+  tabula_rasa: {
+    name: 'tabula_rasa',
+    beliefs: { maxInherited: 0, minConfidence: 1, forgottenDecay: 0.1 },
+    dpd: { drift: 1, mutationRate: 0 },
+    questions: { maxInherited: 1, importanceBoost: 0.3 }
+  }
+};
+
+export interface InheritedBelief {
+  id: number;
+  content: string;
+  confidence: number;
+}
+
+export interface InheritedQuestion {
+  id: string;
+  question: string;
+  importance: number;
+}
+
+export interface InheritedWeights {
+  empathy: number;
+  coherence: number;
+  dissonance: number;
+  dimensions?: Record<string, number>;   // Registered dimensions beyond the core three
+}
+
+export interface Inheritance {
+  dpdWeights: InheritedWeights | null;
+  beliefs: InheritedBelief[];
+  questions: InheritedQuestion[];
+}
+
+/**
+ * Personality traits recorded when an instance dies
+ */
+export interface DeathPersonalitySnapshot {
+  dpdWeights?: InheritedWeights;
+  systemClock?: number;
+  [trait: string]: unknown;
+}
+
+/**
+ * A generation in the family tree (lineage row with its JSON columns parsed)
+ */
+export interface LineageNode {
+  id: number;
+  instance_id: string;
+  parent_instance_id: string | null;
+  generation: number;
+  mode: string | null;
+  lifespan_max: number | null;
+  cycles_lived: number | null;
+  born_at: number;
+  died_at: number | null;
+  inheritance_policy: InheritancePolicy | null;
+  inherited_dpd_weights: InheritedWeights | null;
+  inherited_beliefs: InheritedBelief[];
+  inherited_questions: InheritedQuestion[];
+  personality_snapshot: DeathPersonalitySnapshot | null;
+  last_words: string | null;
+  created_at: string;
+  children: string[];
+}
+
+/**
+ * Resolve a policy spec (preset name, JSON string or object) against the presets
+ */
+export function resolveInheritancePolicy(spec: InheritancePolicySpec | undefined = process.env.AENEA_INHERITANCE_POLICY): InheritancePolicy {
+  if (!spec) {
+    return INHERITANCE_PRESETS.balanced;
+  }
+
+  let overrides: Exclude<InheritancePolicySpec, string>;
+  if (typeof spec === 'string') {
+    if (INHERITANCE_PRESETS[spec]) {
+      return INHERITANCE_PRESETS[spec];
+    }
+    try {
+      overrides = JSON.parse(spec);
+    } catch {
+      log.warn('Lineage', `Unknown inheritance policy "${spec}", using balanced`);
+      return INHERITANCE_PRESETS.balanced;
+    }
+  } else {
+    overrides = spec;
+  }
+
+  const base = INHERITANCE_PRESETS[overrides.preset ?? 'balanced'] ?? INHERITANCE_PRESETS.balanced;
+  return {
+    name: overrides.name ?? (overrides.preset ? `${base.name}+custom` : 'custom'),
+    beliefs: { ...base.beliefs, ...overrides.beliefs },
+    dpd: { ...base.dpd, ...overrides.dpd },
+    questions: { ...base.questions, ...overrides.questions }
+  };
+}
+
+/**
+ * Drift parent weights toward the registry's default weights, add gaussian mutation and
+ * renormalize (sum = 1) within the weight bounds the live weight learner keeps. Every registered
+ * dimension is inherited; ones the parent never had start from their default.
+ */
+export function inheritDPDWeights(
+  parent: InheritedWeights,
+  policy: InheritancePolicy,
+  random: () => number = Math.random,
+  registry: DPDDimensionRegistry = dpdDimensions,
+  bounds: { minWeight?: number; maxWeight?: number } = DEFAULT_WEIGHT_LEARNER_CONFIG
+): InheritedWeights {
+  const defaults = registry.normalizeRecord(registry.toRecord({}, definition => definition.defaultWeight));
+  const weights = registry.toRecord(parent, definition => defaults[definition.id]);
+  const gaussian = () => {
+    // Box-Muller transform
+    const u = Math.max(random(), Number.EPSILON);
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+
+  const mutate = (value: number, target: number) => {
+    const drifted = value * (1 - policy.dpd.drift) + target * policy.dpd.drift;
+    return policy.dpd.mutationRate > 0 ? drifted + gaussian() * policy.dpd.mutationRate : drifted;
+  };
+
+  const mutated: Record<string, number> = {};
+  for (const id of registry.ids()) {
+    mutated[id] = mutate(weights[id], defaults[id]);
+  }
+  return registry.fromRecord(registry.normalizeRecord(mutated, bounds));
+}
+
+export class LineageManager {
+  constructor(
+    private databaseManager: DatabaseManager,
+    private policy: InheritancePolicy = resolveInheritancePolicy(),
+    private random: () => number = Math.random
+  ) {}
+
+  getPolicy(): InheritancePolicy {
+    return this.policy;
+  }
+
+  setPolicy(policy: InheritancePolicy): void {
+    this.policy = policy;
+  }
+
+  /**
+   * Record a new life. With a parent, the inheritance policy is applied to the shared
+   * belief/question stores and the child's starting DPD weights are returned.
+   */
+  recordBirth(child: LifespanState, parentInstanceId: string | null, parentWeights?: InheritedWeights | null): Inheritance {
+    const parent = parentInstanceId ? this.databaseManager.getLineageRecord(parentInstanceId) : null;
+    const inheritance: Inheritance = { dpdWeights: null, beliefs: [], questions: [] };
+
+    if (parentInstanceId) {
+      if (parentWeights) {
+        inheritance.dpdWeights = inheritDPDWeights(parentWeights, this.policy, this.random);
+      }
+      inheritance.beliefs = this.inheritBeliefs(child.instanceId);
+      inheritance.questions = this.inheritQuestions();
+    }
+
+    this.databaseManager.saveLineageRecord({
+      instanceId: child.instanceId,
+      parentInstanceId,
+      generation: parent ? parent.generation + 1 : (parentInstanceId ? 2 : 1),
+      mode: child.mode,
+      lifespanMax: child.lifespanMax,
+      bornAt: child.createdAt,
+      inheritancePolicy: parentInstanceId ? this.policy : null,
+      inheritedDpdWeights: inheritance.dpdWeights,
+      inheritedBeliefs: inheritance.beliefs,
+      inheritedQuestions: inheritance.questions
+    });
+
+    if (parentInstanceId) {
+      log.info('Lineage', `🧬 ${child.instanceId} born from ${parentInstanceId} (policy: ${this.policy.name}): ${inheritance.beliefs.length} beliefs, ${inheritance.questions.length} inherited questions`);
+    }
+    return inheritance;
+  }
+
+  /**
+   * Make sure a living instance has a lineage record (instances that pre-date lineage tracking)
+   */
+  ensureRecorded(state: LifespanState): void {
+    if (!this.databaseManager.getLineageRecord(state.instanceId)) {
+      this.recordBirth(state, null);
+    }
+  }
+
+  recordDeath(state: LifespanState, personalitySnapshot: DeathPersonalitySnapshot): void {
+    this.ensureRecorded(state);
+    this.databaseManager.updateLineageDeath(state.instanceId, {
+      diedAt: state.diedAt ?? Date.now(),
+      cyclesLived: state.currentCycle,
+      personalitySnapshot
+    });
+  }
+
+  /**
+   * Family tree in generation order, with each node's children ids
+   */
+  getFamilyTree(): LineageNode[] {
+    const records: Omit<LineageNode, 'children'>[] = this.databaseManager.getLineage();
+    return records.map(record => ({
+      ...record,
+      children: records
+        .filter(other => other.parent_instance_id === record.instance_id)
+        .map(other => other.instance_id)
+    }));
+  }
+
+  private inheritBeliefs(childInstanceId: string): InheritedBelief[] {
+    const { maxInherited, minConfidence, forgottenDecay } = this.policy.beliefs;
+    const beliefs = this.databaseManager.getCoreBeliefs(1000);
+    const inherited = beliefs
+      .filter(belief => belief.confidence >= minConfidence)
+      .slice(0, maxInherited);
+    const inheritedIds = new Set(inherited.map(belief => belief.id));
+
+    if (forgottenDecay < 1) {
+      for (const belief of beliefs) {
+        if (!inheritedIds.has(belief.id)) {
+          this.databaseManager.weakenCoreBelief(belief.id, forgottenDecay, `Not inherited by ${childInstanceId}`);
+        }
+      }
+    }
+
+    return inherited.map(belief => ({
+      id: belief.id,
+      content: belief.belief_content,
+      confidence: belief.confidence
+    }));
+  }
+
+  private inheritQuestions(): InheritedQuestion[] {
+    const { maxInherited, importanceBoost } = this.policy.questions;
+    if (maxInherited <= 0) {
+      return [];
+    }
+
+    const ideas = this.databaseManager.getUnresolvedIdeas(maxInherited);
+    for (const idea of ideas) {
+      this.databaseManager.boostUnresolvedIdea(idea.id, importanceBoost);
+    }
+    return ideas.map(idea => ({
+      id: idea.id,
+      question: idea.question,
+      importance: Math.min(1, (idea.importance ?? 0.5) + importanceBoost)
+    }));
+  }
+}
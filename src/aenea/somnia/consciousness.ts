@@ -1,5 +1,5 @@
 import { EventEmitter } from 'events';
-import { SomniaConfig, SomniaState, SomniaMode, ExternalStimulus, AffectiveBias, DPDInfluence, CognitiveMirrorState, SomaticState } from '../../types/somnia-types.js';
+import { SomniaConfig, SomniaState, SomniaMode, ExternalStimulus, AffectiveBias, DPDInfluence, CognitiveMirrorState, SomaticState, ADDWeights } from '../../types/somnia-types.js';
 import { SomaticLayer } from './core/somatic-layer.js';
 import { AffectiveCore } from './core/affective-core.js';
 import { SomniaStateMachine } from './state/state-machine.js';
@@ -7,6 +7,13 @@ import { emotiveSync } from '../integration/saip.js';
 import { DEFAULT_LOGIT_PARAMS, DEFAULT_ODE_PARAMS } from './core/temporal-anchoring.js';
 import { estimateValenceFromQualia } from './core/qualia-mapper.js';
 
+export const DEFAULT_ADD_WEIGHTS: ADDWeights = {
+  alpha: 0.3,
+  beta: 0.4,
+  gamma: 0.2,
+  delta: 0.1
+};
+
 /**
  * SOMNIA Consciousness - Main Integration Class
  *
@@ -31,7 +38,10 @@ export class SomniaConsciousness {
     this.somaticLayer = new SomaticLayer();
     this.affectiveCore = new AffectiveCore(
       undefined,
-      this.config.temporalAnchoring.mode
+      this.config.temporalAnchoring.mode,
+      this.config.temporalAnchoring.mode === 'logit'
+        ? this.config.temporalAnchoring.logitParams
+        : this.config.temporalAnchoring.odeParams
     );
     this.stateMachine = new SomniaStateMachine(this.config.stateTransitions);
     this.eventEmitter = eventEmitter;
@@ -261,10 +271,7 @@ export class SomniaConsciousness {
         ...config?.temporalAnchoring
       },
       addWeights: {
-        alpha: 0.3,
-        beta: 0.4,
-        gamma: 0.2,
-        delta: 0.1,
+        ...DEFAULT_ADD_WEIGHTS,
         ...config?.addWeights
       },
       stateTransitions: {
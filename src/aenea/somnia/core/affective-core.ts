@@ -1,4 +1,4 @@
-import { AffectiveCoreState, SomaticState, HormonalField, TemporalAnchoringMode } from '../../../types/somnia-types.js';
+import { AffectiveCoreState, SomaticState, HormonalField, TemporalAnchoringMode, LogitParams, ODEParams } from '../../../types/somnia-types.js';
 import { calculateTemporalAnchoring } from './temporal-anchoring.js';
 
 // Utility functions
@@ -19,12 +19,15 @@ export class AffectiveCore {
 
   private thetaEma: number = 0.5;
   private temporalMode: TemporalAnchoringMode = 'logit';
+  private temporalParams?: Partial<LogitParams & ODEParams>;
 
   constructor(
     initialState?: Partial<AffectiveCoreState>,
-    mode: TemporalAnchoringMode = 'logit'
+    mode: TemporalAnchoringMode = 'logit',
+    temporalParams?: Partial<LogitParams & ODEParams>
   ) {
     this.temporalMode = mode;
+    this.temporalParams = temporalParams;
     if (initialState) {
       this.theta = initialState.theta ?? this.theta;
       this.psi = initialState.psi ?? this.psi;
@@ -46,7 +49,8 @@ export class AffectiveCore {
         prevTheta: this.theta,
         prevThetaEma: this.thetaEma
       },
-      this.temporalMode
+      this.temporalMode,
+      this.temporalParams
     );
 
     this.thetaEma = newTheta;
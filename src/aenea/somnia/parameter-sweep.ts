@@ -0,0 +1,402 @@
+import { SomniaConsciousness, DEFAULT_ADD_WEIGHTS } from './consciousness.js';
+import { DEFAULT_THRESHOLDS, TransitionThresholds } from './state/state-machine.js';
+import { DEFAULT_LOGIT_PARAMS, DEFAULT_ODE_PARAMS } from './core/temporal-anchoring.js';
+import { ExternalStimulus, LogitParams, ODEParams, ADDWeights, SomniaMode, TemporalAnchoringMode } from '../../types/somnia-types.js';
+import { ConsciousnessPseudoRandom } from '../../utils/pseudorandom.js';
+
+/**
+ * SOMNIA Parameter Sweep - Sensitivity analysis for thresholds and θ(t) parameters
+ *
+ * Runs SomniaConsciousness.tick over scripted ExternalStimulus sequences for each point of a
+ * grid, a random search, or a one-at-a-time scan around the defaults, and measures:
+ * - mode occupancy and transition counts
+ * - oscillation (A→B→A flips within a short window) and dwell times (hysteresis)
+ * - θ stability (mean, standard deviation, mean |Δθ|)
+ * - the ADD value V(t) = α·Pleasure + β·Coherence − γ·Dissonance + δ·TemporalFlow
+ *
+ * ADD weights do not feed back into the dynamics yet, so sweeping them only changes V(t).
+ */
+
+const TICKS_PER_FLIP_WINDOW = 6;     // A→B→A within this many ticks counts as an oscillation
+const PLEASURE_WINDOW = 10;          // Pleasure(t) = mean λ over the last N ticks
+
+export type SweepParameter =
+  | `stateTransitions.${keyof TransitionThresholds}`
+  | `logitParams.${keyof LogitParams}`
+  | `odeParams.${keyof ODEParams}`
+  | `addWeights.${keyof ADDWeights}`;
+
+export type SweepPoint = Partial<Record<SweepParameter, number>>;
+
+export type StimulusScenario = 'calm' | 'stress' | 'oscillating' | 'mixed';
+
+export const STIMULUS_SCENARIOS: StimulusScenario[] = ['calm', 'stress', 'oscillating', 'mixed'];
+
+export interface SweepOptions {
+  scenarios?: StimulusScenario[];      // Default: all scenarios
+  ticks?: number;                      // Ticks per trial (default: 300)
+  seed?: number;                       // Stimulus sequence seed (default: 42)
+  temporalMode?: TemporalAnchoringMode;
+}
+
+export interface TrialMetrics {
+  scenario: StimulusScenario;
+  ticks: number;
+  occupancy: Record<SomniaMode, number>;
+  transitions: number;
+  transitionsByPair: Record<string, number>;
+  oscillations: number;
+  meanDwellTicks: number | null;
+  minDwellTicks: number | null;
+  thetaMean: number;
+  thetaStd: number;
+  thetaMeanAbsDelta: number;
+  xiMean: number;
+  phiMin: number;
+  addMean: number;
+}
+
+export interface SweepTrial {
+  point: SweepPoint;
+  metrics: TrialMetrics;
+}
+
+export interface SweepResult {
+  temporalMode: TemporalAnchoringMode;
+  ticks: number;
+  seed: number;
+  defaults: Record<SweepParameter, number>;
+  trials: SweepTrial[];
+  sensitivity: Partial<Record<SweepParameter, Record<string, number | null>>>;
+}
+
+/** Metrics reported in CSV output and used for sensitivity (Pearson r against each parameter) */
+export const SENSITIVITY_METRICS = [
+  'occupancy.awake', 'occupancy.dream', 'occupancy.flow',
+  'transitions', 'oscillations', 'meanDwellTicks',
+  'thetaMean', 'thetaStd', 'thetaMeanAbsDelta', 'xiMean', 'addMean'
+] as const;
+
+/**
+ * Current default of every sweepable parameter
+ */
+export function getDefaultParameters(): Record<SweepParameter, number> {
+  const defaults: Record<string, number> = {};
+  const add = (prefix: string, values: object) => {
+    for (const [key, value] of Object.entries(values)) {
+      defaults[`${prefix}.${key}`] = value as number;
+    }
+  };
+  add('stateTransitions', DEFAULT_THRESHOLDS);
+  add('logitParams', DEFAULT_LOGIT_PARAMS);
+  add('odeParams', DEFAULT_ODE_PARAMS);
+  add('addWeights', DEFAULT_ADD_WEIGHTS);
+  return defaults as Record<SweepParameter, number>;
+}
+
+/**
+ * Deterministic stimulus sequence for a scenario (undefined = no stimulus on that tick)
+ */
+export function generateStimulusSequence(scenario: StimulusScenario, ticks: number, seed: number = 42): Array<ExternalStimulus | undefined> {
+  const random = new ConsciousnessPseudoRandom({ seed: seed + STIMULUS_SCENARIOS.indexOf(scenario) + 1 });
+  const sequence: Array<ExternalStimulus | undefined> = [];
+
+  for (let tick = 0; tick < ticks; tick++) {
+    switch (scenario) {
+      case 'calm':
+        sequence.push(random.next() < 0.5 ? {
+          type: 'internal',
+          valence: random.randomFloat(0.1, 0.5),
+          arousal: random.randomFloat(0.1, 0.3),
+          significance: 0.3
+        } : undefined);
+        break;
+      case 'stress':
+        sequence.push({
+          type: 'social',
+          valence: random.randomFloat(-0.9, -0.3),
+          arousal: random.randomFloat(0.6, 1.0),
+          significance: random.randomFloat(0.5, 0.9)
+        });
+        break;
+      case 'oscillating': {
+        // 20-tick blocks alternating between strain and relief
+        const strained = Math.floor(tick / 20) % 2 === 0;
+        sequence.push({
+          type: 'cognitive',
+          valence: strained ? -0.7 : 0.6,
+          arousal: strained ? 0.8 : 0.2,
+          significance: 0.6
+        });
+        break;
+      }
+      case 'mixed':
+        sequence.push(random.next() < 0.7 ? {
+          type: 'internal',
+          valence: random.randomFloat(-1, 1),
+          arousal: random.randomFloat(0, 1),
+          significance: random.randomFloat(0, 1)
+        } : undefined);
+        break;
+    }
+  }
+
+  return sequence;
+}
+
+/**
+ * Run one parameter point against one stimulus sequence
+ */
+export async function runSomniaTrial(
+  point: SweepPoint,
+  scenario: StimulusScenario,
+  stimuli: Array<ExternalStimulus | undefined>,
+  temporalMode: TemporalAnchoringMode = 'logit'
+): Promise<TrialMetrics> {
+  const section = <T extends object>(prefix: string, defaults: T): T => {
+    const values: Record<string, number> = { ...(defaults as Record<string, number>) };
+    for (const [key, value] of Object.entries(point)) {
+      if (key.startsWith(`${prefix}.`) && value !== undefined) {
+        values[key.slice(prefix.length + 1)] = value;
+      }
+    }
+    return values as T;
+  };
+
+  const thresholds = section('stateTransitions', DEFAULT_THRESHOLDS);
+  const weights = section('addWeights', DEFAULT_ADD_WEIGHTS);
+  const somnia = new SomniaConsciousness({
+    temporalAnchoring: {
+      mode: temporalMode,
+      logitParams: section('logitParams', DEFAULT_LOGIT_PARAMS),
+      odeParams: section('odeParams', DEFAULT_ODE_PARAMS)
+    },
+    addWeights: weights,
+    stateTransitions: thresholds
+  });
+
+  const modeTicks: Record<SomniaMode, number> = { awake: 0, dream: 0, flow: 0 };
+  const transitionsByPair: Record<string, number> = {};
+  const transitionTicks: Array<{ tick: number; from: SomniaMode; to: SomniaMode }> = [];
+  const dwells: number[] = [];
+  const thetas: number[] = [];
+  const lambdas: number[] = [];
+  let xiSum = 0;
+  let phiMin = Infinity;
+  let addSum = 0;
+  let previousMode: SomniaMode = somnia.getState().mode;
+  let previousTheta = somnia.getState().affective.theta;
+  let modeEnteredAt = 0;
+
+  for (let tick = 0; tick < stimuli.length; tick++) {
+    const state = await somnia.tick(stimuli[tick]);
+
+    if (state.mode !== previousMode) {
+      const pair = `${previousMode}->${state.mode}`;
+      transitionsByPair[pair] = (transitionsByPair[pair] || 0) + 1;
+      transitionTicks.push({ tick, from: previousMode, to: state.mode });
+      dwells.push(tick - modeEnteredAt);
+      modeEnteredAt = tick;
+      previousMode = state.mode;
+    }
+
+    modeTicks[state.mode]++;
+    thetas.push(state.affective.theta);
+    lambdas.push(state.somatic.lambda);
+    xiSum += state.affective.xi;
+    phiMin = Math.min(phiMin, state.somatic.phi);
+
+    const window = lambdas.slice(-PLEASURE_WINDOW);
+    const pleasure = window.reduce((sum, value) => sum + value, 0) / window.length;
+    const temporalFlow = -Math.abs(state.affective.theta - previousTheta);
+    addSum += weights.alpha * pleasure
+      + weights.beta * state.affective.psi
+      - weights.gamma * state.affective.xi
+      + weights.delta * temporalFlow;
+    previousTheta = state.affective.theta;
+  }
+
+  // Oscillation: a transition reversed within the flip window
+  let oscillations = 0;
+  for (let i = 1; i < transitionTicks.length; i++) {
+    const prev = transitionTicks[i - 1];
+    const curr = transitionTicks[i];
+    if (curr.to === prev.from && curr.tick - prev.tick <= TICKS_PER_FLIP_WINDOW) {
+      oscillations++;
+    }
+  }
+
+  const ticks = stimuli.length;
+  const thetaMean = mean(thetas);
+  const deltas = thetas.slice(1).map((theta, i) => Math.abs(theta - thetas[i]));
+
+  return {
+    scenario,
+    ticks,
+    occupancy: {
+      awake: ticks > 0 ? modeTicks.awake / ticks : 0,
+      dream: ticks > 0 ? modeTicks.dream / ticks : 0,
+      flow: ticks > 0 ? modeTicks.flow / ticks : 0
+    },
+    transitions: transitionTicks.length,
+    transitionsByPair,
+    oscillations,
+    meanDwellTicks: dwells.length > 0 ? mean(dwells) : null,
+    minDwellTicks: dwells.length > 0 ? Math.min(...dwells) : null,
+    thetaMean,
+    thetaStd: Math.sqrt(mean(thetas.map(theta => (theta - thetaMean) ** 2))),
+    thetaMeanAbsDelta: mean(deltas),
+    xiMean: ticks > 0 ? xiSum / ticks : 0,
+    phiMin: Number.isFinite(phiMin) ? phiMin : 0,
+    addMean: ticks > 0 ? addSum / ticks : 0
+  };
+}
+
+/**
+ * Cartesian product of per-parameter values
+ */
+export function expandGrid(grid: Partial<Record<SweepParameter, number[]>>): SweepPoint[] {
+  let points: SweepPoint[] = [{}];
+  for (const [parameter, values] of Object.entries(grid) as Array<[SweepParameter, number[]]>) {
+    points = points.flatMap(point => values.map(value => ({ ...point, [parameter]: value })));
+  }
+  return points;
+}
+
+/**
+ * Uniform random search within [min, max] per parameter
+ */
+export function sampleRandomPoints(
+  ranges: Partial<Record<SweepParameter, [number, number]>>,
+  samples: number,
+  seed: number = 42
+): SweepPoint[] {
+  const random = new ConsciousnessPseudoRandom({ seed });
+  return Array.from({ length: samples }, () => {
+    const point: SweepPoint = {};
+    for (const [parameter, [min, max]] of Object.entries(ranges) as Array<[SweepParameter, [number, number]]>) {
+      point[parameter] = random.randomFloat(min, max);
+    }
+    return point;
+  });
+}
+
+/**
+ * Vary one parameter at a time around its default (factors multiply the default)
+ */
+export function oneAtATimePoints(
+  parameters: SweepParameter[],
+  factors: number[] = [0.5, 0.75, 1, 1.25, 1.5]
+): SweepPoint[] {
+  const defaults = getDefaultParameters();
+  return parameters.flatMap(parameter =>
+    factors.map(factor => ({ [parameter]: defaults[parameter] * factor }) as SweepPoint)
+  );
+}
+
+/**
+ * Run every point against every scenario and compute per-parameter sensitivity
+ */
+export async function runParameterSweep(points: SweepPoint[], options: SweepOptions = {}): Promise<SweepResult> {
+  const scenarios = options.scenarios ?? STIMULUS_SCENARIOS;
+  const ticks = options.ticks ?? 300;
+  const seed = options.seed ?? 42;
+  const temporalMode = options.temporalMode ?? 'logit';
+  const sequences = new Map(scenarios.map(scenario => [scenario, generateStimulusSequence(scenario, ticks, seed)]));
+
+  const trials: SweepTrial[] = [];
+  for (const point of points) {
+    for (const scenario of scenarios) {
+      trials.push({
+        point,
+        metrics: await runSomniaTrial(point, scenario, sequences.get(scenario)!, temporalMode)
+      });
+    }
+  }
+
+  return {
+    temporalMode,
+    ticks,
+    seed,
+    defaults: getDefaultParameters(),
+    trials,
+    sensitivity: computeSensitivity(trials)
+  };
+}
+
+/**
+ * Pearson correlation between each swept parameter and each metric, computed within each
+ * scenario and averaged (null when neither varies in any scenario). Only trials that set the
+ * parameter are used, so a one-at-a-time scan is not confounded by the other scans.
+ */
+export function computeSensitivity(trials: SweepTrial[]): SweepResult['sensitivity'] {
+  const parameters = new Set<SweepParameter>();
+  trials.forEach(trial => Object.keys(trial.point).forEach(key => parameters.add(key as SweepParameter)));
+
+  const sensitivity: SweepResult['sensitivity'] = {};
+  for (const parameter of parameters) {
+    const byScenario = new Map<StimulusScenario, SweepTrial[]>();
+    trials
+      .filter(trial => trial.point[parameter] !== undefined)
+      .forEach(trial => byScenario.set(trial.metrics.scenario, [...(byScenario.get(trial.metrics.scenario) ?? []), trial]));
+
+    sensitivity[parameter] = Object.fromEntries(SENSITIVITY_METRICS.map(metric => {
+      const correlations = Array.from(byScenario.values())
+        .map(group => pearson(
+          group.map(trial => trial.point[parameter]!),
+          group.map(trial => metricValue(trial.metrics, metric))
+        ))
+        .filter((r): r is number => r !== null);
+      return [metric, correlations.length > 0 ? mean(correlations) : null];
+    }));
+  }
+  return sensitivity;
+}
+
+/**
+ * One row per trial: swept parameters, scenario, then metrics
+ */
+export function sweepResultToCsv(result: SweepResult): string {
+  const parameters = Array.from(new Set(result.trials.flatMap(trial => Object.keys(trial.point)))) as SweepParameter[];
+  const header = [...parameters, 'scenario', ...SENSITIVITY_METRICS, 'phiMin'];
+  const rows = result.trials.map(trial => [
+    ...parameters.map(parameter => trial.point[parameter] ?? result.defaults[parameter]),
+    trial.metrics.scenario,
+    ...SENSITIVITY_METRICS.map(metric => formatNumber(metricValue(trial.metrics, metric))),
+    formatNumber(trial.metrics.phiMin)
+  ].join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+function metricValue(metrics: TrialMetrics, metric: typeof SENSITIVITY_METRICS[number]): number {
+  if (metric.startsWith('occupancy.')) {
+    return metrics.occupancy[metric.slice('occupancy.'.length) as SomniaMode];
+  }
+  const value = metrics[metric as Exclude<typeof metric, `occupancy.${string}`>];
+  return value ?? 0;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(4);
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const mx = mean(xs);
+  const my = mean(ys);
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    cov += (xs[i] - mx) * (ys[i] - my);
+    vx += (xs[i] - mx) ** 2;
+    vy += (ys[i] - my) ** 2;
+  }
+  if (vx === 0 || vy === 0) {
+    return null;
+  }
+  return cov / Math.sqrt(vx * vy);
+}
@@ -32,7 +32,7 @@ export interface TransitionThresholds {
   phiDreamThreshold: number;
 }
 
-const DEFAULT_THRESHOLDS: TransitionThresholds = {
+export const DEFAULT_THRESHOLDS: TransitionThresholds = {
   dreamThreshold: 1.0,
   flowThetaThreshold: 0.2,
   flowPsiThreshold: 0.8,
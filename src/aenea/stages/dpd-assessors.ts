@@ -7,15 +7,34 @@ import { StructuredThought, MutualReflection, AuditorResult } from '../../types/
 import { DPDEngine } from '../core/dpd-engine.js';
 import { DPDScores, DPDAssessment, DPDWeights } from '../../types/dpd-types.js';
 import { DPDInfluence } from '../../types/somnia-types.js';
+import { WeightLearner } from '../core/weight-learners.js';
+import { DPDEnsemble } from '../core/dpd-ensemble.js';
 
 export class DPDAssessmentStage {
   private engine: DPDEngine;
 
-  constructor(initialWeights: DPDWeights, private evaluatorAgent?: any, private eventEmitter?: any) {
+  constructor(
+    initialWeights: DPDWeights,
+    private evaluatorAgent?: any,
+    private eventEmitter?: any,
+    weightLearner?: WeightLearner,
+    ensemble?: DPDEnsemble,
+    secondaryEvaluatorAgent?: any
+  ) {
     this.engine = new DPDEngine(initialWeights, evaluatorAgent, eventEmitter);
+    if (weightLearner) {
+      this.engine.attachWeightLearner(weightLearner);
+    }
+    if (ensemble) {
+      this.engine.attachEnsemble(ensemble, secondaryEvaluatorAgent);
+    }
+  }
+
+  getConvergenceAnalysis(): ReturnType<DPDEngine['getConvergenceAnalysis']> {
+    return this.engine.getConvergenceAnalysis();
   }
 
-  async run(thoughts: StructuredThought[], reflections: MutualReflection[], audit: AuditorResult, trigger?: { source: string }, somniaInfluence?: DPDInfluence): Promise<{ scores: DPDScores; assessment: DPDAssessment; weights: DPDWeights; }> {
+  async run(thoughts: StructuredThought[], reflections: MutualReflection[], audit: AuditorResult, trigger?: { source: string }, somniaInfluence?: DPDInfluence, cycleId?: string): Promise<{ scores: DPDScores; assessment: DPDAssessment; weights: DPDWeights; }> {
     // Emit DPD evaluation start to Activity Log
     if (this.eventEmitter) {
       this.eventEmitter.emit('agentThought', {
@@ -26,7 +45,7 @@ export class DPDAssessmentStage {
       });
     }
 
-    const assessment = await this.engine.performAssessment(thoughts, reflections, audit, trigger, somniaInfluence);
+    const assessment = await this.engine.performAssessment(thoughts, reflections, audit, trigger, somniaInfluence, cycleId);
     const weights = this.engine.getCurrentWeights();
 
     // Emit final DPD scores to Activity Log
@@ -15,7 +15,8 @@ import { YuiConsultation } from './yui-consultation.js';
 import { createS1EnhancedPrompt, S1_CONFIDENCE_PROMPT, S1_CONFIDENCE_SYSTEM_PROMPT } from '../templates/prompts.js';
 
 // RAG integration for knowledge-grounded thinking
-import { isRAGEnabled, getRAGContext } from '../../rag/index.js';
+import { isRAGEnabled, getRAGContextWithSources } from '../../rag/index.js';
+import type { RAGSourceReference } from '../../rag/types.js';
 
 interface InternalTrigger {
   id: string;
@@ -39,11 +40,13 @@ export default class IndividualThoughtStage {
   private databaseManager: DatabaseManager;
   private eventEmitter?: any;
   private coreBeliefs: CoreBeliefs;
+  private ragVectorDbPath?: string;
 
-  constructor(agents: Map<string, AIExecutor>, databaseManager: DatabaseManager, eventEmitter?: any) {
+  constructor(agents: Map<string, AIExecutor>, databaseManager: DatabaseManager, eventEmitter?: any, ragVectorDbPath?: string) {
     this.agents = agents;
     this.databaseManager = databaseManager;
     this.eventEmitter = eventEmitter;
+    this.ragVectorDbPath = ragVectorDbPath;
     this.coreBeliefs = new CoreBeliefs(databaseManager, 500); // 500 token budget for beliefs
   }
 
@@ -87,11 +90,12 @@ export default class IndividualThoughtStage {
 
       // RAG: Retrieve relevant knowledge for this question
       let ragKnowledge = '';
+      let ragSources: RAGSourceReference[] = [];
       if (isRAGEnabled()) {
         try {
-          ragKnowledge = await getRAGContext(trigger.question, 400);
+          ({ context: ragKnowledge, sources: ragSources } = await getRAGContextWithSources(trigger.question, 400, this.ragVectorDbPath));
           if (ragKnowledge) {
-            log.info('RAG', `Retrieved knowledge context for S1 (${agentId})`);
+            log.info('RAG', `Retrieved knowledge context for S1 (${agentId}): ${ragSources.length} chunks`);
           }
         } catch (error) {
           log.warn('RAG', `S1 context retrieval failed for ${agentId}: ${error}`);
@@ -137,7 +141,8 @@ export default class IndividualThoughtStage {
           systemClock: 0, // Will be set by consciousness backend
           trigger: trigger.question,
           category: trigger.category,
-          tags: []
+          tags: [],
+          ragSources: ragSources.length > 0 ? ragSources : undefined
         };
 
         // Emit agent thought event for UI
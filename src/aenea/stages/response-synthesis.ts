@@ -16,6 +16,7 @@ import {
   CoreBelief,
   SignificantThought
 } from '../../types/stimulus-response-types.js';
+import type { RAGSourceReference } from '../../rag/types.js';
 import {
   createS7DynamicSystemPrompt,
   createS7ImmediateReactionPrompt,
@@ -90,6 +91,12 @@ export class ResponseSynthesisStage {
     // 7. DPD反応の計算
     const dpdReaction = this.calculateDPDReaction(thoughtCycle);
 
+    // 8. 思考が根拠にしたRAGチャンクを集約して記録
+    const ragSources = this.collectRAGSources(thoughtCycle);
+    if (ragSources.length > 0) {
+      this.db.saveRAGProvenance('response', thoughtCycle.id, ragSources, { cycleId: thoughtCycle.id });
+    }
+
     return {
       thoughtCycleId: thoughtCycle.id,
       stimulusId: stimulusInterpretation?.stimulusId || null,
@@ -99,6 +106,7 @@ export class ResponseSynthesisStage {
       beliefShift,
       selfObservation,
       dpdReaction,
+      ragSources: ragSources.length > 0 ? ragSources : undefined,
       timestamp: Date.now()
     };
   }
@@ -297,6 +305,25 @@ export class ResponseSynthesisStage {
     return result.content?.trim() || '探求中';
   }
 
+  /**
+   * 各思考のRAG出典を統合（同じチャンクは最大類似度を残し、類似度順に振り直す）
+   */
+  private collectRAGSources(thoughtCycle: ThoughtCycle): RAGSourceReference[] {
+    const merged = new Map<string, RAGSourceReference>();
+    for (const thought of thoughtCycle.thoughts || []) {
+      for (const source of (thought.ragSources || []) as RAGSourceReference[]) {
+        const key = source.chunkId !== null ? `id:${source.chunkId}` : `file:${source.sourceFile}:${source.title ?? ''}`;
+        const existing = merged.get(key);
+        if (!existing || source.similarity > existing.similarity) {
+          merged.set(key, source);
+        }
+      }
+    }
+    return Array.from(merged.values())
+      .sort((a, b) => b.similarity - a.similarity)
+      .map((source, index) => ({ ...source, rank: index + 1 }));
+  }
+
   /**
    * DPD反応の計算
    */
@@ -0,0 +1,235 @@
+/**
+ * Stage Registry - Pluggable thought-cycle pipeline
+ *
+ * Each stage declares which ThoughtCycle fields it reads and writes, its energy cost,
+ * and how it behaves in 'critical' execution mode (skipped, replaced by a cheaper
+ * fallback, or always run). ConsciousnessBackend registers S1-U by default; additional
+ * stages (fact-check, Yui debate, ...) can be inserted and the order reconfigured
+ * via THOUGHT_PIPELINE_ORDER without touching the backend.
+ *
+ * ステージレジストリ - 思考サイクルのパイプラインを構成可能にする
+ */
+
+export type PipelineExecutionMode = 'full' | 'low' | 'critical';
+
+/**
+ * Stage completion details (merged into the stageCompleted event)
+ */
+export type StageCompletionDetails = Record<string, any> | void;
+
+export interface PipelineStageContext {
+  mode: PipelineExecutionMode;
+}
+
+export interface PipelineStageFallback<TCycle> {
+  name: string;
+  energyCost: number;
+  execute: (cycle: TCycle, context: PipelineStageContext) => Promise<StageCompletionDetails>;
+}
+
+export interface PipelineStageDefinition<TCycle = any> {
+  id: string;                          // Stage id, also used as the event/energy label (e.g. 'S3', 'fact_check')
+  name: string;
+  inputs: string[];                    // ThoughtCycle fields that must be produced before this stage
+  optionalInputs?: string[];           // Fields read when present (stage copes without them)
+  outputs: string[];                   // ThoughtCycle fields this stage writes
+  energyCost: number;
+  required?: boolean;                  // Must appear in every pipeline order (post-cycle code depends on its outputs)
+  skippableInCritical: boolean;        // Dropped from the plan in critical mode
+  criticalFallback?: PipelineStageFallback<TCycle>; // Run instead of execute() in critical mode
+  execute: (cycle: TCycle, context: PipelineStageContext) => Promise<StageCompletionDetails>;
+}
+
+/**
+ * A stage resolved for a specific execution mode
+ */
+export interface PlannedStage<TCycle = any> {
+  id: string;
+  name: string;
+  energyCost: number;
+  energyLabel: string;
+  isFallback: boolean;
+  execute: (cycle: TCycle, context: PipelineStageContext) => Promise<StageCompletionDetails>;
+}
+
+export interface StagePosition {
+  before?: string;
+  after?: string;
+}
+
+/**
+ * Fields present on every ThoughtCycle before S1 runs (set by S0)
+ */
+export const INITIAL_CYCLE_FIELDS = ['id', 'timestamp', 'trigger'];
+
+export class StageRegistry<TCycle = any> {
+  private stages = new Map<string, PipelineStageDefinition<TCycle>>();
+  private order: string[] = [];
+
+  /**
+   * Register a stage. Appended to the end unless a position is given.
+   */
+  register(definition: PipelineStageDefinition<TCycle>, position: StagePosition = {}): void {
+    if (this.stages.has(definition.id)) {
+      throw new Error(`Stage '${definition.id}' is already registered`);
+    }
+    if (definition.energyCost < 0) {
+      throw new Error(`Stage '${definition.id}' has a negative energy cost`);
+    }
+
+    const anchor = position.before ?? position.after;
+    let index = this.order.length;
+    if (anchor !== undefined) {
+      const anchorIndex = this.order.indexOf(anchor);
+      if (anchorIndex === -1) {
+        throw new Error(`Cannot position stage '${definition.id}': unknown stage '${anchor}'`);
+      }
+      index = position.before !== undefined ? anchorIndex : anchorIndex + 1;
+    }
+
+    this.stages.set(definition.id, definition);
+    this.order.splice(index, 0, definition.id);
+  }
+
+  unregister(id: string): boolean {
+    if (!this.stages.delete(id)) {
+      return false;
+    }
+    this.order = this.order.filter(stageId => stageId !== id);
+    return true;
+  }
+
+  has(id: string): boolean {
+    return this.stages.has(id);
+  }
+
+  get(id: string): PipelineStageDefinition<TCycle> | undefined {
+    return this.stages.get(id);
+  }
+
+  getOrder(): string[] {
+    return [...this.order];
+  }
+
+  /**
+   * Describe registered stages in pipeline order (for APIs / debugging)
+   */
+  describe(): Array<Omit<PipelineStageDefinition<TCycle>, 'execute' | 'criticalFallback'> & { criticalFallback?: { name: string; energyCost: number } }> {
+    return this.order.map(id => {
+      const { execute, criticalFallback, ...rest } = this.stages.get(id)!;
+      return {
+        ...rest,
+        ...(criticalFallback ? { criticalFallback: { name: criticalFallback.name, energyCost: criticalFallback.energyCost } } : {})
+      };
+    });
+  }
+
+  /**
+   * Replace the pipeline order. Stages left out of the list are not run.
+   * Throws if the order references unknown stages, leaves out a required stage
+   * or breaks input dependencies.
+   */
+  setOrder(order: string[]): void {
+    const unknown = order.filter(id => !this.stages.has(id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown stage(s) in pipeline order: ${unknown.join(', ')}`);
+    }
+    if (new Set(order).size !== order.length) {
+      throw new Error('Pipeline order contains duplicate stages');
+    }
+
+    const errors = this.validate(order);
+    if (errors.length > 0) {
+      throw new Error(`Invalid pipeline order: ${errors.join('; ')}`);
+    }
+    this.order = [...order];
+  }
+
+  /**
+   * Check that every required stage is present and every stage's required inputs are
+   * produced by an earlier stage, in every execution mode. Returns human-readable errors
+   * (empty when valid).
+   */
+  validate(order: string[] = this.order): string[] {
+    const errors: string[] = [];
+
+    const missingRequired = [...this.stages.values()]
+      .filter(stage => stage.required && !order.includes(stage.id))
+      .map(stage => stage.id);
+    if (missingRequired.length > 0) {
+      errors.push(`missing required stage(s): ${missingRequired.join(', ')}`);
+    }
+
+    for (const mode of ['full', 'critical'] as PipelineExecutionMode[]) {
+      const available = new Set(INITIAL_CYCLE_FIELDS);
+      for (const id of order) {
+        const stage = this.stages.get(id);
+        if (!stage) continue;
+        if (mode === 'critical' && stage.skippableInCritical && !stage.criticalFallback) continue;
+
+        const missing = stage.inputs.filter(field => !available.has(field));
+        if (missing.length > 0) {
+          errors.push(`${id} requires ${missing.join(', ')} (${mode} mode)`);
+        }
+        stage.outputs.forEach(field => available.add(field));
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Resolve the stages to run for an execution mode
+   */
+  resolvePlan(mode: PipelineExecutionMode): PlannedStage<TCycle>[] {
+    const plan: PlannedStage<TCycle>[] = [];
+
+    for (const id of this.order) {
+      const stage = this.stages.get(id)!;
+
+      if (mode === 'critical' && stage.criticalFallback) {
+        plan.push({
+          id,
+          name: stage.criticalFallback.name,
+          energyCost: stage.criticalFallback.energyCost,
+          energyLabel: `stage_${id}_fallback`,
+          isFallback: true,
+          execute: stage.criticalFallback.execute
+        });
+        continue;
+      }
+
+      if (mode === 'critical' && stage.skippableInCritical) {
+        continue;
+      }
+
+      plan.push({
+        id,
+        name: stage.name,
+        energyCost: stage.energyCost,
+        energyLabel: `stage_${id}`,
+        isFallback: false,
+        execute: stage.execute
+      });
+    }
+
+    return plan;
+  }
+
+  /**
+   * Total energy of the planned stages for a mode
+   */
+  getPlanEnergy(mode: PipelineExecutionMode): number {
+    return this.resolvePlan(mode).reduce((sum, stage) => sum + stage.energyCost, 0);
+  }
+}
+
+/**
+ * Parse a comma-separated stage order (e.g. THOUGHT_PIPELINE_ORDER="S1,S2,S3,fact_check,S4,S5,S6,U")
+ */
+export function parseStageOrder(value: string | undefined): string[] | null {
+  if (!value || value.trim().length === 0) {
+    return null;
+  }
+  return value.split(',').map(id => id.trim()).filter(id => id.length > 0);
+}
@@ -1,25 +1,59 @@
 /**
  * U: DPD Weight Update Stage
  *
- * Uses advanced multiplicative weights algorithm for dynamic weight optimization
- * 高度な乗法的重みアルゴリズムを使用した動的重み最適化
+ * Uses a pluggable weight learner (multiplicative weights by default) for dynamic weight optimization
+ * 交換可能な重み学習器（既定は乗法的重み）を使用した動的重み最適化
  */
 
 import { DPDScores, DPDWeights, ImpactAssessment } from '../../types/dpd-types.js';
-import { MultiplicativeWeightsUpdater, WeightUpdateResult } from '../core/multiplicative-weights.js';
+import { WeightUpdateResult } from '../core/multiplicative-weights.js';
+import { WeightLearner, createWeightLearner } from '../core/weight-learners.js';
+
+/**
+ * Human-labelled scores of a past cycle, learned as an extra update before the next regular one
+ */
+export interface DPDSupervisedTarget {
+  feedbackId: number;
+  cycleId: string;
+  scores: DPDScores;       // Model scores of the cycle with the human labels substituted
+}
+
+// Human labels are learned at twice the default rate; at most this many per cycle
+export const SUPERVISED_LEARNING_RATE = 0.1;
+export const SUPERVISED_TARGETS_PER_UPDATE = 5;
 
 export class WeightUpdateStage {
-  private updater: MultiplicativeWeightsUpdater;
   private updateHistory: WeightUpdateResult[] = [];
+  private supervisedTargets: DPDSupervisedTarget[] = [];
+  private appliedTargets: DPDSupervisedTarget[] = [];
 
-  constructor(private interpreterAgent?: any, private eventEmitter?: any) {
-    this.updater = new MultiplicativeWeightsUpdater({
-      learningRate: 0.05,
-      regularization: 0.01,
-      minWeight: 0.05,
-      maxWeight: 0.85,
-      decayFactor: 0.99
-    });
+  constructor(private interpreterAgent?: any, private eventEmitter?: any, private learner: WeightLearner = createWeightLearner()) {}
+
+  getLearner(): WeightLearner {
+    return this.learner;
+  }
+
+  /**
+   * Queue a human-labelled cycle as a supervised target for the next update
+   * 人間のラベルを教師付き目標として次回の重み更新に反映
+   */
+  addSupervisedTarget(target: DPDSupervisedTarget): void {
+    if (!this.supervisedTargets.some(queued => queued.feedbackId === target.feedbackId)) {
+      this.supervisedTargets.push(target);
+    }
+  }
+
+  getPendingSupervisedTargets(): number {
+    return this.supervisedTargets.length;
+  }
+
+  /**
+   * Supervised targets applied since the last call (so the caller can mark them applied)
+   */
+  takeAppliedSupervisedTargets(): DPDSupervisedTarget[] {
+    const applied = this.appliedTargets;
+    this.appliedTargets = [];
+    return applied;
   }
 
   /**
@@ -73,25 +107,11 @@ export class WeightUpdateStage {
       console.log('[Weight-Update] ⚡ Paradigm shift: Enhanced learning rate to', adaptiveLearningRate);
     }
 
+    // Human-labelled cycles queued since the last update are learned first
+    current = this.applySupervisedTargets(current);
+
     // Apply weight update with adaptive learning rate
-    let result: any;
-    if (adaptiveLearningRate !== 0.05) {
-      // Create temporary updater with adaptive learning rate
-      const adaptiveUpdater = new MultiplicativeWeightsUpdater({
-        learningRate: adaptiveLearningRate,
-        regularization: 0.01,
-        minWeight: 0.05,
-        maxWeight: 0.85,
-        decayFactor: 0.99,
-        perturbationEnabled: true,
-        perturbationStrength: 0.15,
-        perturbationInterval: 10
-      });
-      result = adaptiveUpdater.updateWeights(current, scores);
-    } else {
-      // Normal update
-      result = this.updater.updateWeights(current, scores);
-    }
+    const result = this.learner.update(current, scores, { learningRate: adaptiveLearningRate });
 
     if (isParadigmShift || isConverged) {
       console.log(`[Weight-Update] Adaptive update applied (LR=${adaptiveLearningRate}):`);
@@ -122,10 +142,14 @@ export class WeightUpdateStage {
         coherence: (result.newWeights.coherence - current.coherence).toFixed(3),
         dissonance: (result.newWeights.dissonance - current.dissonance).toFixed(3)
       };
+      // Registered dimensions beyond the core three
+      const dimensionChanges = Object.entries(result.newWeights.dimensions || {})
+        .map(([id, weight]) => ` ${id}${(weight - (current.dimensions?.[id] ?? 0)).toFixed(3)}`)
+        .join('');
 
       this.eventEmitter.emit('agentThought', {
         agentName: 'Weight-Updater',
-        thought: `重み更新完了: E${weightChanges.empathy} C${weightChanges.coherence} D${weightChanges.dissonance} (収束度: ${result.convergenceMetric.toFixed(3)})`,
+        thought: `重み更新完了: E${weightChanges.empathy} C${weightChanges.coherence} D${weightChanges.dissonance}${dimensionChanges} (収束度: ${result.convergenceMetric.toFixed(3)})`,
         timestamp: Date.now(),
         stage: 'U_WeightUpdate'
       });
@@ -134,12 +158,36 @@ export class WeightUpdateStage {
     return result.newWeights;
   }
 
+  private applySupervisedTargets(current: DPDWeights): DPDWeights {
+    const targets = this.supervisedTargets.splice(0, SUPERVISED_TARGETS_PER_UPDATE);
+    if (targets.length === 0) {
+      return current;
+    }
+
+    let weights = current;
+    for (const target of targets) {
+      weights = this.learner.update(weights, target.scores, { learningRate: SUPERVISED_LEARNING_RATE }).newWeights;
+    }
+    this.appliedTargets.push(...targets);
+    console.log(`[Weight-Update] 🧑‍🏫 Applied ${targets.length} supervised target(s) from human feedback (${this.supervisedTargets.length} pending)`);
+
+    if (this.eventEmitter) {
+      this.eventEmitter.emit('agentThought', {
+        agentName: 'Weight-Updater',
+        thought: `人間フィードバック反映: ${targets.length}件の教師付き目標で重みを補正 (E${(weights.empathy - current.empathy).toFixed(3)} C${(weights.coherence - current.coherence).toFixed(3)} D${(weights.dissonance - current.dissonance).toFixed(3)})`,
+        timestamp: Date.now(),
+        stage: 'U_WeightUpdate'
+      });
+    }
+    return weights;
+  }
+
   /**
    * Get detailed update information including explanation
    * 説明を含む詳細な更新情報を取得
    */
   runWithDetails(current: DPDWeights, scores: DPDScores): WeightUpdateResult {
-    const result = this.updater.updateWeights(current, scores);
+    const result = this.learner.update(current, scores);
 
     this.updateHistory.push(result);
     if (this.updateHistory.length > 50) {
@@ -676,3 +676,42 @@ ${reflectionsText}
 export const DPD_DISSONANCE_SYSTEM_PROMPT = `${SYSTEM_AGENT_PROMPT_HEADER}
 
 You are a DPD ethical dissonance assessment specialist. Evaluate consciousness systems for deviations from self-consistent moral trajectories. Ethical dissonance represents internal contradictions, value inconsistencies, and unresolved moral conflicts that should be minimized. High scores indicate problematic ethical incoherence; low scores indicate healthy moral alignment. IMPORTANT: Always return a score between 0.0 and 1.0 (inclusive). Never return scores greater than 1.0 or less than 0.0. Use the exact format requested: '不協和スコア: [0.0-1.0の数値]'`;
+
+/**
+ * Creates evaluation prompt for a registered (non-core) DPD dimension
+ */
+export function createDPDDimensionPrompt(
+  dimension: { labelJa: string; scoreLabel: string; criteria: string[] },
+  thoughtsText: string,
+  reflectionsText: string
+): string {
+  return `DPD${dimension.labelJa}評価: 以下を分析し0.0-1.0でスコア評価してください。
+
+思考:
+${thoughtsText}
+
+反映:
+${reflectionsText}
+
+評価要点:
+${dimension.criteria.map(criterion => `- ${criterion}`).join('\n')}
+
+**採点基準**:
+0.2-0.4: 不十分
+0.4-0.6: 標準的
+0.6-0.8: 良好
+0.8-1.0: 卓越（例外的な場合のみ）
+
+返答形式（この形式を厳守してください）:
+${dimension.scoreLabel}: [0.0-1.0の数値]
+評価理由: [簡潔な理由]`;
+}
+
+/**
+ * Creates system prompt for a registered (non-core) DPD dimension
+ */
+export function createDPDDimensionSystemPrompt(dimension: { label: string; description: string; scoreLabel: string }): string {
+  return `${SYSTEM_AGENT_PROMPT_HEADER}
+
+You are a DPD ${dimension.label.toLowerCase()} assessment specialist. ${dimension.description}. IMPORTANT: Always return a score between 0.0 and 1.0 (inclusive). Use the exact format requested: '${dimension.scoreLabel}: [0.0-1.0の数値]'`;
+}
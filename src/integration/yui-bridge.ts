@@ -21,10 +21,7 @@ import {
   IntegrationConfig
 } from '../types/integration-types';
 
-// @ts-ignore
-import { createAIExecutor } from '../../yui-protocol/dist/kernel/ai-executor-impl.js';
-// @ts-ignore
-import { AIExecutor } from '../../yui-protocol/dist/kernel/ai-executor.js';
+import { createAIExecutor, AIExecutor } from '../server/ai-executor';
 
 import {
   AeneaAgent,
@@ -123,9 +120,10 @@ export class YuiProtocolBridge implements YuiBridge {
 
       // Create AI executor for this agent
       if (!this.aiExecutors.has(agentId)) {
+        // Same factory as the core agents, so AI_PROVIDER=scripted stays offline here too
         const aiExecutor = createAIExecutor(agentId, {
-          provider: 'ollama',
-          model: 'deepseek-r1',
+          provider: process.env.AI_PROVIDER || 'ollama',
+          model: process.env.AI_MODEL || 'deepseek-r1',
           temperature: 0.7
         });
         this.aiExecutors.set(agentId, aiExecutor);
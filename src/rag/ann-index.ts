@@ -0,0 +1,476 @@
+/**
+ * RAG Approximate Nearest Neighbour Index
+ *
+ * HNSW (Hierarchical Navigable Small World) グラフによる近似最近傍検索
+ * ベクトル本体は SQLite に残し、グラフ構造だけを DB の隣にJSONで永続化する
+ *
+ * 全ての記憶を辿らずとも、近しい記憶から近しい記憶へと渡っていける
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * HNSW パラメータ
+ */
+export interface HnswParams {
+  /** 上位層の最大接続数（第0層は 2M） */
+  M: number;
+  /** 構築時の探索幅 */
+  efConstruction: number;
+  /** 検索時の探索幅 */
+  efSearch: number;
+  /** 層割り当ての乱数シード */
+  seed: number;
+}
+
+export const DEFAULT_HNSW_PARAMS: HnswParams = {
+  M: 16,
+  efConstruction: 100,
+  efSearch: 64,
+  seed: 42,
+};
+
+/**
+ * 近傍検索の結果（類似度はコサイン類似度）
+ */
+export interface AnnNeighbor {
+  id: number;
+  similarity: number;
+}
+
+/**
+ * 永続化されるグラフのスナップショット（ベクトルは含まない）
+ */
+export interface HnswSnapshot {
+  version: 1;
+  params: HnswParams;
+  dimension: number | null;
+  entryPoint: number | null;
+  maxLevel: number;
+  /** [id, level, neighbors per level] */
+  nodes: Array<[number, number, number[][]]>;
+}
+
+interface HnswNode {
+  level: number;
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+interface Candidate {
+  id: number;
+  distance: number;
+}
+
+/**
+ * 距離の昇順を保ったまま挿入
+ */
+function insertAscending(list: Candidate[], candidate: Candidate): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (list[mid].distance < candidate.distance) low = mid + 1;
+    else high = mid;
+  }
+  list.splice(low, 0, candidate);
+}
+
+/**
+ * 距離の降順を保ったまま挿入（末尾が最も近い）
+ */
+function insertDescending(list: Candidate[], candidate: Candidate): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (list[mid].distance > candidate.distance) low = mid + 1;
+    else high = mid;
+  }
+  list.splice(low, 0, candidate);
+}
+
+/**
+ * L2 正規化したコピーを返す（内積 = コサイン類似度になる）
+ */
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+  const normalized = new Float32Array(vector.length);
+  if (norm === 0) return normalized;
+  for (let i = 0; i < vector.length; i++) {
+    normalized[i] = vector[i] / norm;
+  }
+  return normalized;
+}
+
+/**
+ * シード付き乱数（mulberry32）- 同じ挿入順なら同じグラフになる
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * HNSW インデックス
+ *
+ * 削除は墓標（tombstone）方式: 削除済みノードは探索の経路としては残り、結果からのみ除外される。
+ * 永続化したグラフを読み込む際、ベクトルが存在しないノードはグラフから切り離される。
+ */
+export class HnswIndex {
+  private readonly params: HnswParams;
+  private readonly levelMultiplier: number;
+  private readonly random: () => number;
+  private readonly nodes = new Map<number, HnswNode>();
+  private readonly vectors = new Map<number, Float32Array>();
+  private dim: number | null = null;
+  private entryPoint: number | null = null;
+  private maxLevel = -1;
+  private deleted = 0;
+
+  constructor(params: Partial<HnswParams> = {}) {
+    this.params = { ...DEFAULT_HNSW_PARAMS, ...params };
+    this.levelMultiplier = 1 / Math.log(this.params.M);
+    this.random = createRandom(this.params.seed);
+  }
+
+  /**
+   * インデックスのベクトル次元（空なら null）
+   */
+  get dimension(): number | null {
+    return this.dim;
+  }
+
+  /**
+   * 検索対象のノード数（墓標を除く）
+   */
+  get size(): number {
+    return this.nodes.size - this.deleted;
+  }
+
+  /**
+   * 墓標の数
+   */
+  get deletedCount(): number {
+    return this.deleted;
+  }
+
+  getParams(): HnswParams {
+    return { ...this.params };
+  }
+
+  has(id: number): boolean {
+    const node = this.nodes.get(id);
+    return node !== undefined && !node.deleted;
+  }
+
+  /**
+   * 検索対象のID一覧
+   */
+  ids(): number[] {
+    const ids: number[] = [];
+    for (const [id, node] of this.nodes) {
+      if (!node.deleted) ids.push(id);
+    }
+    return ids;
+  }
+
+  /**
+   * ベクトルを追加（既存IDは無視）
+   */
+  add(id: number, vector: Float32Array): void {
+    if (this.dim === null) {
+      this.dim = vector.length;
+    } else if (vector.length !== this.dim) {
+      throw new Error(`Vector dimension mismatch: ${vector.length} vs ${this.dim}`);
+    }
+    if (this.nodes.has(id)) return;
+
+    const query = normalize(vector);
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+    const node: HnswNode = {
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false,
+    };
+    this.nodes.set(id, node);
+    this.vectors.set(id, query);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entries = [this.entryPoint];
+    for (let l = this.maxLevel; l > level; l--) {
+      entries = [this.searchLayer(query, entries, 1, l)[0].id];
+    }
+
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const found = this.searchLayer(query, entries, this.params.efConstruction, l);
+      const selected = this.selectNeighbors(found, this.params.M);
+      node.neighbors[l] = selected.map((candidate) => candidate.id);
+
+      for (const neighbor of selected) {
+        const links = this.nodes.get(neighbor.id)!.neighbors[l];
+        links.push(id);
+        if (links.length > this.maxConnections(l)) {
+          this.pruneLinks(neighbor.id, l);
+        }
+      }
+      entries = found.map((candidate) => candidate.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = id;
+    }
+  }
+
+  /**
+   * ノードを墓標化（検索結果から除外）
+   */
+  remove(id: number): boolean {
+    const node = this.nodes.get(id);
+    if (!node || node.deleted) return false;
+    node.deleted = true;
+    this.deleted++;
+    return true;
+  }
+
+  /**
+   * 近傍検索
+   *
+   * accept で結果に含めるノードを絞り込める（経路としては全ノードを辿る）
+   */
+  search(
+    vector: Float32Array,
+    k: number,
+    options: { ef?: number; accept?: (id: number) => boolean } = {}
+  ): AnnNeighbor[] {
+    if (this.entryPoint === null || this.size === 0) return [];
+    if (vector.length !== this.dim) {
+      throw new Error(`Vector dimension mismatch: ${vector.length} vs ${this.dim}`);
+    }
+
+    const query = normalize(vector);
+    let entry = this.entryPoint;
+    for (let l = this.maxLevel; l > 0; l--) {
+      entry = this.searchLayer(query, [entry], 1, l)[0].id;
+    }
+
+    const accept = options.accept;
+    const results = this.searchLayer(
+      query,
+      [entry],
+      Math.max(options.ef ?? this.params.efSearch, k),
+      0,
+      (id) => !this.nodes.get(id)!.deleted && (accept ? accept(id) : true)
+    );
+
+    return results.slice(0, k).map((candidate) => ({
+      id: candidate.id,
+      similarity: 1 - candidate.distance,
+    }));
+  }
+
+  /**
+   * グラフ構造のスナップショット（墓標は含めない）
+   */
+  toSnapshot(): HnswSnapshot {
+    const nodes: HnswSnapshot['nodes'] = [];
+    for (const [id, node] of this.nodes) {
+      if (node.deleted) continue;
+      nodes.push([id, node.level, node.neighbors]);
+    }
+    return {
+      version: 1,
+      params: this.getParams(),
+      dimension: this.dim,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes,
+    };
+  }
+
+  /**
+   * スナップショットとベクトルからインデックスを復元
+   *
+   * ベクトルのないノード（保存後に削除された行）とそこへの辺はグラフから取り除く
+   */
+  static fromSnapshot(
+    snapshot: HnswSnapshot,
+    vectors: Map<number, Float32Array>,
+    params: Partial<HnswParams> = {}
+  ): HnswIndex {
+    const index = new HnswIndex({ ...snapshot.params, ...params });
+    index.dim = snapshot.dimension;
+    index.entryPoint = snapshot.entryPoint;
+    index.maxLevel = snapshot.maxLevel;
+
+    for (const [id, level, neighbors] of snapshot.nodes) {
+      index.nodes.set(id, { level, neighbors, deleted: false });
+      const vector = vectors.get(id);
+      if (vector && vector.length === snapshot.dimension) {
+        index.vectors.set(id, normalize(vector));
+      }
+    }
+
+    // 保存時の墓標や保存後に削除された行への辺を一度に取り除く
+    for (const id of Array.from(index.nodes.keys())) {
+      if (!index.vectors.has(id)) index.nodes.delete(id);
+    }
+    for (const node of index.nodes.values()) {
+      node.neighbors = node.neighbors.map((links) => links.filter((id) => index.nodes.has(id)));
+    }
+    if (index.entryPoint === null || !index.nodes.has(index.entryPoint)) {
+      index.entryPoint = null;
+      index.maxLevel = -1;
+      for (const [id, node] of index.nodes) {
+        if (node.level > index.maxLevel) {
+          index.maxLevel = node.level;
+          index.entryPoint = id;
+        }
+      }
+    }
+    if (index.nodes.size === 0) {
+      index.dim = null;
+    }
+
+    return index;
+  }
+
+  private maxConnections(level: number): number {
+    return level === 0 ? this.params.M * 2 : this.params.M;
+  }
+
+  private distance(query: Float32Array, id: number): number {
+    const vector = this.vectors.get(id)!;
+    let dot = 0;
+    for (let i = 0; i < vector.length; i++) {
+      dot += query[i] * vector[i];
+    }
+    return 1 - dot;
+  }
+
+  /**
+   * 一つの層での貪欲なビーム探索。結果は距離の昇順
+   */
+  private searchLayer(
+    query: Float32Array,
+    entries: number[],
+    ef: number,
+    level: number,
+    accept?: (id: number) => boolean
+  ): Candidate[] {
+    const visited = new Set<number>(entries);
+    const candidates: Candidate[] = [];
+    const results: Candidate[] = [];
+
+    for (const id of entries) {
+      const candidate = { id, distance: this.distance(query, id) };
+      insertDescending(candidates, candidate);
+      if (!accept || accept(id)) insertAscending(results, candidate);
+    }
+    results.splice(ef);
+
+    while (candidates.length > 0) {
+      const current = candidates.pop()!;
+      if (results.length >= ef && current.distance > results[results.length - 1].distance) {
+        break;
+      }
+
+      const neighbors = this.nodes.get(current.id)!.neighbors[level] ?? [];
+      for (const neighborId of neighbors) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const distance = this.distance(query, neighborId);
+        if (results.length < ef || distance < results[results.length - 1].distance) {
+          const candidate = { id: neighborId, distance };
+          insertDescending(candidates, candidate);
+          if (!accept || accept(neighborId)) {
+            insertAscending(results, candidate);
+            if (results.length > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * 近傍選択ヒューリスティック - 既に選んだ近傍より候補に近いものは冗長として外す
+   */
+  private selectNeighbors(candidates: Candidate[], max: number): Candidate[] {
+    const selected: Candidate[] = [];
+    for (const candidate of candidates) {
+      if (selected.length >= max) break;
+      const vector = this.vectors.get(candidate.id)!;
+      const diverse = selected.every(
+        (chosen) => this.distance(vector, chosen.id) > candidate.distance
+      );
+      if (diverse) selected.push(candidate);
+    }
+    return selected;
+  }
+
+  private pruneLinks(id: number, level: number): void {
+    const node = this.nodes.get(id)!;
+    const vector = this.vectors.get(id)!;
+    const candidates: Candidate[] = [];
+    for (const neighborId of node.neighbors[level]) {
+      insertAscending(candidates, { id: neighborId, distance: this.distance(vector, neighborId) });
+    }
+    node.neighbors[level] = this.selectNeighbors(candidates, this.maxConnections(level))
+      .map((candidate) => candidate.id);
+  }
+}
+
+/**
+ * ベクトルDBファイルに対応するインデックスファイルのパス
+ */
+export function getAnnIndexPath(dbPath: string): string {
+  return `${dbPath}.hnsw.json`;
+}
+
+/**
+ * スナップショットを書き出す（一時ファイル経由で置き換え）
+ */
+export function saveHnswSnapshot(filePath: string, snapshot: HnswSnapshot): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(snapshot));
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * スナップショットを読み込む（存在しない・壊れている場合は null）
+ */
+export function loadHnswSnapshot(filePath: string): HnswSnapshot | null {
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    const snapshot = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as HnswSnapshot;
+    if (snapshot.version !== 1 || !Array.isArray(snapshot.nodes)) {
+      console.warn(`[RAG] Unsupported ANN index format, ignoring: ${filePath}`);
+      return null;
+    }
+    return snapshot;
+  } catch (err) {
+    console.warn(`[RAG] Failed to read ANN index, ignoring: ${filePath}`, err);
+    return null;
+  }
+}
@@ -8,7 +8,7 @@
  */
 
 import { tokenize as wakachigakiTokenize } from 'wakachigaki';
-import { TextChunk, ChunkerConfig, ChunkMetadata } from './types.js';
+import { TextChunk, ChunkerConfig, ChunkMetadata, DocumentSection } from './types.js';
 import { loadRAGConfig } from './config.js';
 
 /**
@@ -138,6 +138,54 @@ export class TextChunker {
     return chunks;
   }
 
+  /**
+   * 章・節・ページごとにチャンク化（チャンクは区切りをまたがない）
+   */
+  chunkSections(sections: DocumentSection[], metadata?: ChunkMetadata): TextChunk[] {
+    return sections.flatMap((section) => this.chunk(section.text, { ...metadata, ...section.metadata }));
+  }
+
+  /**
+   * 対話トランスクリプトを話者ごとにチャンク化
+   *
+   * 同じ話者の連続した発話をまとめ、別の話者の発話とは混ぜない。
+   * 各チャンクは "話者: " で始まり、speaker と発話番号の範囲（turnStart / turnEnd）を持つ
+   */
+  chunkTranscript(turns: DocumentSection[], metadata?: ChunkMetadata): TextChunk[] {
+    const chunks: TextChunk[] = [];
+    let run: DocumentSection[] = [];
+
+    const flush = () => {
+      if (run.length === 0) return;
+      const first = run[0].metadata;
+      const last = run[run.length - 1].metadata;
+      const speaker = String(first.speaker ?? 'unknown');
+      const runMetadata: ChunkMetadata = {
+        ...metadata,
+        ...first,
+        speaker,
+        turnStart: first.turn,
+        turnEnd: last.turn,
+      };
+      delete runMetadata.turn;
+
+      const prefix = `${speaker}: `;
+      const prefixTokens = this.estimateTokens(prefix);
+      for (const chunk of this.chunk(run.map((turn) => turn.text).join('\n\n'), runMetadata)) {
+        chunks.push({ ...chunk, content: prefix + chunk.content, tokenCount: chunk.tokenCount + prefixTokens });
+      }
+      run = [];
+    };
+
+    for (const turn of turns) {
+      if (run.length > 0 && run[0].metadata.speaker !== turn.metadata.speaker) flush();
+      run.push(turn);
+    }
+    flush();
+
+    return chunks;
+  }
+
   /**
    * 長い段落を分割
    */
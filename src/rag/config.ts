@@ -5,7 +5,7 @@
  * 既存のエージェント設定パターンに準拠
  */
 
-import { RAGConfig } from './types.js';
+import { RAGConfig, RAGConfigOverrides, SourceType } from './types.js';
 import path from 'path';
 
 /**
@@ -13,6 +13,8 @@ import path from 'path';
  */
 const DEFAULT_CONFIG: RAGConfig = {
   enabled: false,
+  embeddingProvider: 'ollama',
+  localEmbeddingDimension: 384,
   embeddingModel: 'nomic-embed-text',
   embeddingBaseUrl: 'http://localhost:11434',
   vectorDbPath: 'data/vectordb/aenea_vectors.db',
@@ -26,14 +28,61 @@ const DEFAULT_CONFIG: RAGConfig = {
     'knowledge/dialogues',
     'knowledge/theory',
   ],
+  annIndex: {
+    enabled: true,
+    minChunks: 2000,
+    efSearch: 64,
+  },
+  hybrid: {
+    enabled: true,
+    vectorWeight: 1.0,
+    lexicalWeight: 1.0,
+    rrfK: 60,
+    lexicalMinSimilarity: 0.2,
+  },
+  policy: {
+    enabled: true,
+    selfMaxShare: 0.4,
+    sourceTypeQuotas: {},
+    recencyHalfLifeDays: 30,
+    recencyWeight: 0.3,
+    recencySourceTypes: ['self', 'dialogue'],
+    mmrLambda: 0.7,
+  },
+  watch: {
+    enabled: false,
+    debounceMs: 1000,
+  },
 };
 
+/**
+ * "novel:3,self:1" 形式のソースタイプ別件数を読み込む
+ */
+function parseSourceTypeQuotas(value: string | undefined): Partial<Record<SourceType, number>> {
+  const quotas: Partial<Record<SourceType, number>> = {};
+  if (!value) return quotas;
+
+  for (const entry of value.split(',')) {
+    const [type, count] = entry.split(':').map((part) => part.trim());
+    if (type && count !== undefined) {
+      quotas[type as SourceType] = parseInt(count, 10);
+    }
+  }
+  return quotas;
+}
+
 /**
  * 環境変数からRAG設定を読み込む
  */
 export function loadRAGConfig(): RAGConfig {
   return {
     enabled: process.env.RAG_ENABLED === 'true',
+    embeddingProvider:
+      process.env.RAG_EMBEDDING_PROVIDER === 'local' ? 'local' : DEFAULT_CONFIG.embeddingProvider,
+    localEmbeddingDimension: parseInt(
+      process.env.RAG_LOCAL_EMBEDDING_DIM || String(DEFAULT_CONFIG.localEmbeddingDimension),
+      10
+    ),
     embeddingModel:
       process.env.RAG_EMBEDDING_MODEL || DEFAULT_CONFIG.embeddingModel,
     embeddingBaseUrl:
@@ -61,6 +110,76 @@ export function loadRAGConfig(): RAGConfig {
     knowledgeDirs: process.env.RAG_KNOWLEDGE_DIRS
       ? process.env.RAG_KNOWLEDGE_DIRS.split(',').map((d) => d.trim())
       : DEFAULT_CONFIG.knowledgeDirs,
+    annIndex: {
+      enabled: process.env.RAG_ANN_ENABLED !== 'false',
+      minChunks: parseInt(
+        process.env.RAG_ANN_MIN_CHUNKS || String(DEFAULT_CONFIG.annIndex.minChunks),
+        10
+      ),
+      efSearch: parseInt(
+        process.env.RAG_ANN_EF_SEARCH || String(DEFAULT_CONFIG.annIndex.efSearch),
+        10
+      ),
+    },
+    hybrid: {
+      enabled: process.env.RAG_HYBRID_ENABLED !== 'false',
+      vectorWeight: parseFloat(
+        process.env.RAG_HYBRID_VECTOR_WEIGHT || String(DEFAULT_CONFIG.hybrid.vectorWeight)
+      ),
+      lexicalWeight: parseFloat(
+        process.env.RAG_HYBRID_LEXICAL_WEIGHT || String(DEFAULT_CONFIG.hybrid.lexicalWeight)
+      ),
+      rrfK: parseInt(
+        process.env.RAG_HYBRID_RRF_K || String(DEFAULT_CONFIG.hybrid.rrfK),
+        10
+      ),
+      lexicalMinSimilarity: parseFloat(
+        process.env.RAG_HYBRID_LEXICAL_MIN_SIMILARITY || String(DEFAULT_CONFIG.hybrid.lexicalMinSimilarity)
+      ),
+    },
+    policy: {
+      enabled: process.env.RAG_POLICY_ENABLED !== 'false',
+      selfMaxShare: parseFloat(
+        process.env.RAG_POLICY_SELF_MAX_SHARE || String(DEFAULT_CONFIG.policy.selfMaxShare)
+      ),
+      sourceTypeQuotas: process.env.RAG_POLICY_QUOTAS
+        ? parseSourceTypeQuotas(process.env.RAG_POLICY_QUOTAS)
+        : DEFAULT_CONFIG.policy.sourceTypeQuotas,
+      recencyHalfLifeDays: parseFloat(
+        process.env.RAG_POLICY_RECENCY_HALF_LIFE_DAYS || String(DEFAULT_CONFIG.policy.recencyHalfLifeDays)
+      ),
+      recencyWeight: parseFloat(
+        process.env.RAG_POLICY_RECENCY_WEIGHT || String(DEFAULT_CONFIG.policy.recencyWeight)
+      ),
+      recencySourceTypes: process.env.RAG_POLICY_RECENCY_TYPES
+        ? (process.env.RAG_POLICY_RECENCY_TYPES.split(',').map((t) => t.trim()) as SourceType[])
+        : DEFAULT_CONFIG.policy.recencySourceTypes,
+      mmrLambda: parseFloat(
+        process.env.RAG_POLICY_MMR_LAMBDA || String(DEFAULT_CONFIG.policy.mmrLambda)
+      ),
+    },
+    watch: {
+      enabled: process.env.RAG_WATCH_ENABLED === 'true',
+      debounceMs: parseInt(
+        process.env.RAG_WATCH_DEBOUNCE_MS || String(DEFAULT_CONFIG.watch.debounceMs),
+        10
+      ),
+    },
+  };
+}
+
+/**
+ * 設定に部分上書きを重ねる（入れ子の設定は項目単位でマージ）
+ */
+export function mergeRAGConfig(config: RAGConfig, overrides?: RAGConfigOverrides): RAGConfig {
+  if (!overrides) return config;
+  return {
+    ...config,
+    ...overrides,
+    annIndex: { ...config.annIndex, ...overrides.annIndex },
+    hybrid: { ...config.hybrid, ...overrides.hybrid },
+    policy: { ...config.policy, ...overrides.policy },
+    watch: { ...config.watch, ...overrides.watch },
   };
 }
 
@@ -72,14 +191,13 @@ export function isRAGEnabled(): boolean {
 }
 
 /**
- * ベクトルDBの絶対パスを取得
+ * ベクトルDBの絶対パスを取得（省略時は設定値）
  */
-export function getVectorDbPath(): string {
-  const config = loadRAGConfig();
-  if (path.isAbsolute(config.vectorDbPath)) {
-    return config.vectorDbPath;
+export function getVectorDbPath(vectorDbPath: string = loadRAGConfig().vectorDbPath): string {
+  if (path.isAbsolute(vectorDbPath)) {
+    return vectorDbPath;
   }
-  return path.resolve(process.cwd(), config.vectorDbPath);
+  return path.resolve(process.cwd(), vectorDbPath);
 }
 
 /**
@@ -123,5 +241,63 @@ export function validateRAGConfig(config: RAGConfig): string[] {
     );
   }
 
+  if (config.localEmbeddingDimension < 16) {
+    errors.push(
+      `Invalid localEmbeddingDimension: ${config.localEmbeddingDimension}. Must be >= 16.`
+    );
+  }
+
+  if (config.annIndex.efSearch < 1) {
+    errors.push(
+      `Invalid annIndex.efSearch: ${config.annIndex.efSearch}. Must be >= 1.`
+    );
+  }
+
+  if (config.hybrid.vectorWeight < 0 || config.hybrid.lexicalWeight < 0) {
+    errors.push(
+      `Invalid hybrid weights: ${config.hybrid.vectorWeight}/${config.hybrid.lexicalWeight}. Must be >= 0.`
+    );
+  }
+
+  if (config.hybrid.rrfK < 0) {
+    errors.push(`Invalid hybrid.rrfK: ${config.hybrid.rrfK}. Must be >= 0.`);
+  }
+
+  if (config.hybrid.lexicalMinSimilarity < 0 || config.hybrid.lexicalMinSimilarity > 1) {
+    errors.push(`Invalid hybrid.lexicalMinSimilarity: ${config.hybrid.lexicalMinSimilarity}. Must be between 0 and 1.`);
+  }
+
+  if (config.policy.selfMaxShare < 0 || config.policy.selfMaxShare > 1) {
+    errors.push(
+      `Invalid policy.selfMaxShare: ${config.policy.selfMaxShare}. Must be between 0 and 1.`
+    );
+  }
+
+  if (config.policy.recencyWeight < 0 || config.policy.recencyWeight > 1) {
+    errors.push(
+      `Invalid policy.recencyWeight: ${config.policy.recencyWeight}. Must be between 0 and 1.`
+    );
+  }
+
+  if (config.policy.recencyHalfLifeDays < 0) {
+    errors.push(
+      `Invalid policy.recencyHalfLifeDays: ${config.policy.recencyHalfLifeDays}. Must be >= 0.`
+    );
+  }
+
+  if (config.policy.mmrLambda < 0 || config.policy.mmrLambda > 1) {
+    errors.push(`Invalid policy.mmrLambda: ${config.policy.mmrLambda}. Must be between 0 and 1.`);
+  }
+
+  for (const [type, quota] of Object.entries(config.policy.sourceTypeQuotas)) {
+    if (!Number.isInteger(quota) || (quota as number) < 0) {
+      errors.push(`Invalid policy quota for ${type}: ${quota}. Must be a non-negative integer.`);
+    }
+  }
+
+  if (!Number.isInteger(config.watch.debounceMs) || config.watch.debounceMs < 0) {
+    errors.push(`Invalid watch.debounceMs: ${config.watch.debounceMs}. Must be a non-negative integer.`);
+  }
+
   return errors;
 }
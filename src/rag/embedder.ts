@@ -1,18 +1,21 @@
 /**
  * RAG Embedder Module
  *
- * Ollama nomic-embed-text を使用した埋め込みベクトル生成
+ * 埋め込みベクトル生成（キャッシュ・バッチ処理）
+ * 実際の埋め込みは RAG_EMBEDDING_PROVIDER で選んだバックエンドが行う
  * エイネアの記憶を数値空間にマッピングする
  */
 
-import { Ollama } from 'ollama';
-import { EmbedderConfig, EmbeddingResult } from './types.js';
+import { EmbedderBackend, EmbedderConfig } from './types.js';
 import { loadRAGConfig } from './config.js';
+import { createEmbedderBackend, getEmbeddingModelId } from './embedding-backends.js';
 
 /**
  * デフォルト設定
  */
 const DEFAULT_EMBEDDER_CONFIG: EmbedderConfig = {
+  provider: 'ollama',
+  localDimension: 384,
   baseUrl: 'http://localhost:11434',
   model: 'nomic-embed-text',
   batchSize: 10,
@@ -23,32 +26,27 @@ const DEFAULT_EMBEDDER_CONFIG: EmbedderConfig = {
 /**
  * 埋め込みベクトル生成クラス
  *
- * Ollama nomic-embed-text を使用してテキストを768次元ベクトルに変換
+ * バックエンド（Ollama / ローカル n-gram）でテキストをベクトルに変換
  */
 export class Embedder {
-  private client: Ollama;
-  private model: string;
+  private backend: EmbedderBackend;
   private batchSize: number;
-  private retryAttempts: number;
   private cache: Map<string, Float32Array>;
   private readonly maxCacheSize: number = 1000;
 
-  // nomic-embed-text の埋め込み次元
-  private readonly dimension: number = 768;
-
-  constructor(config?: Partial<EmbedderConfig>) {
+  constructor(config?: Partial<EmbedderConfig>, backend?: EmbedderBackend) {
     const ragConfig = loadRAGConfig();
     const finalConfig = {
       ...DEFAULT_EMBEDDER_CONFIG,
       baseUrl: ragConfig.embeddingBaseUrl,
       model: ragConfig.embeddingModel,
+      provider: ragConfig.embeddingProvider,
+      localDimension: ragConfig.localEmbeddingDimension,
       ...config,
     };
 
-    this.client = new Ollama({ host: finalConfig.baseUrl });
-    this.model = finalConfig.model;
+    this.backend = backend || createEmbedderBackend(finalConfig.provider, finalConfig);
     this.batchSize = finalConfig.batchSize;
-    this.retryAttempts = finalConfig.retryAttempts;
     this.cache = new Map();
   }
 
@@ -64,7 +62,7 @@ export class Embedder {
     }
 
     // 埋め込み生成
-    const embedding = await this.fetchEmbedding(text);
+    const embedding = await this.backend.embed(text);
 
     // キャッシュに追加
     this.addToCache(cacheKey, embedding);
@@ -95,7 +93,7 @@ export class Embedder {
       const batch = toFetch.slice(i, i + this.batchSize);
       const embeddings = await Promise.all(
         batch.map(async ({ index, text }) => {
-          const embedding = await this.fetchEmbedding(text);
+          const embedding = await this.backend.embed(text);
           const cacheKey = this.hashText(text);
           this.addToCache(cacheKey, embedding);
           return { index, embedding };
@@ -111,78 +109,38 @@ export class Embedder {
   }
 
   /**
-   * Ollama から埋め込みを取得（リトライ付き）
-   */
-  private async fetchEmbedding(text: string): Promise<Float32Array> {
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= this.retryAttempts; attempt++) {
-      try {
-        const response = await this.client.embed({
-          model: this.model,
-          input: text,
-        });
-
-        // Ollama embed API returns embeddings as number[][]
-        const embedding = response.embeddings[0];
-        if (!embedding || embedding.length === 0) {
-          throw new Error('Empty embedding returned from Ollama');
-        }
-
-        return new Float32Array(embedding);
-      } catch (error) {
-        lastError = error as Error;
-        if (attempt < this.retryAttempts) {
-          // 指数バックオフ
-          const delay = Math.pow(2, attempt) * 100;
-          await this.sleep(delay);
-        }
-      }
-    }
-
-    throw new Error(
-      `Failed to fetch embedding after ${this.retryAttempts} attempts: ${lastError?.message}`
-    );
-  }
-
-  /**
-   * Ollama サービスが利用可能かチェック
+   * 埋め込みバックエンドが利用可能かチェック
    */
   async isAvailable(): Promise<boolean> {
-    try {
-      // モデル一覧を取得してサービス接続を確認
-      const response = await this.client.list();
-
-      // 必要なモデルがインストールされているか確認
-      const hasModel = response.models.some(
-        (m) => m.name.includes(this.model) || m.name === this.model
-      );
-
-      if (!hasModel) {
-        console.warn(
-          `[RAG] Warning: Embedding model '${this.model}' not found. ` +
-          `Available models: ${response.models.map((m) => m.name).join(', ')}`
-        );
-      }
-
-      return true; // Ollama service is available
-    } catch {
-      return false;
-    }
+    return this.backend.isAvailable();
   }
 
   /**
    * 埋め込み次元を取得
    */
   getDimension(): number {
-    return this.dimension;
+    return this.backend.dimension;
   }
 
   /**
    * 使用モデル名を取得
    */
   getModel(): string {
-    return this.model;
+    return this.backend.model;
+  }
+
+  /**
+   * 埋め込みプロバイダを取得
+   */
+  getProvider(): string {
+    return this.backend.provider;
+  }
+
+  /**
+   * ベクトルDBに記録するモデル識別子（provider:model）
+   */
+  getModelId(): string {
+    return getEmbeddingModelId(this.backend);
   }
 
   /**
@@ -232,18 +190,14 @@ export class Embedder {
     }
     this.cache.set(key, embedding);
   }
-
-  /**
-   * スリープユーティリティ
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
 
 /**
  * Embedder インスタンスを作成
  */
-export function createEmbedder(config?: Partial<EmbedderConfig>): Embedder {
-  return new Embedder(config);
+export function createEmbedder(
+  config?: Partial<EmbedderConfig>,
+  backend?: EmbedderBackend
+): Embedder {
+  return new Embedder(config, backend);
 }
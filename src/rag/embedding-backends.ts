@@ -0,0 +1,199 @@
+/**
+ * RAG Embedding Backends
+ *
+ * 埋め込み生成の実装を差し替え可能にする
+ * - ollama: Ollama の埋め込みモデル（nomic-embed-text など）
+ * - local:  外部サービス不要のハッシュ化文字 n-gram 埋め込み
+ *
+ * 記憶を数値に写す方法は一つではない。ただし、写し方の違う記憶は並べて比べられない
+ */
+
+import { Ollama } from 'ollama';
+import { EmbedderBackend, EmbeddingProvider } from './types.js';
+import { segmentForSearch } from './lexical.js';
+
+/**
+ * Ollama 埋め込みバックエンド
+ */
+export class OllamaEmbeddingBackend implements EmbedderBackend {
+  readonly provider: EmbeddingProvider = 'ollama';
+  readonly model: string;
+  private client: Ollama;
+  private retryAttempts: number;
+
+  // nomic-embed-text の埋め込み次元（最初の応答で実際の次元に更新）
+  private observedDimension: number = 768;
+
+  constructor(options: { baseUrl: string; model: string; retryAttempts: number }) {
+    this.client = new Ollama({ host: options.baseUrl });
+    this.model = options.model;
+    this.retryAttempts = options.retryAttempts;
+  }
+
+  get dimension(): number {
+    return this.observedDimension;
+  }
+
+  /**
+   * Ollama から埋め込みを取得（リトライ付き）
+   */
+  async embed(text: string): Promise<Float32Array> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= this.retryAttempts; attempt++) {
+      try {
+        const response = await this.client.embed({
+          model: this.model,
+          input: text,
+        });
+
+        // Ollama embed API returns embeddings as number[][]
+        const embedding = response.embeddings[0];
+        if (!embedding || embedding.length === 0) {
+          throw new Error('Empty embedding returned from Ollama');
+        }
+
+        this.observedDimension = embedding.length;
+        return new Float32Array(embedding);
+      } catch (error) {
+        lastError = error as Error;
+        if (attempt < this.retryAttempts) {
+          // 指数バックオフ
+          const delay = Math.pow(2, attempt) * 100;
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    throw new Error(
+      `Failed to fetch embedding after ${this.retryAttempts} attempts: ${lastError?.message}`
+    );
+  }
+
+  /**
+   * Ollama サービスが利用可能かチェック
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      // モデル一覧を取得してサービス接続を確認
+      const response = await this.client.list();
+
+      // 必要なモデルがインストールされているか確認
+      const hasModel = response.models.some(
+        (m) => m.name.includes(this.model) || m.name === this.model
+      );
+
+      if (!hasModel) {
+        console.warn(
+          `[RAG] Warning: Embedding model '${this.model}' not found. ` +
+          `Available models: ${response.models.map((m) => m.name).join(', ')}`
+        );
+      }
+
+      return true; // Ollama service is available
+    } catch {
+      return false;
+    }
+  }
+}
+
+/** 文字 n-gram の長さと重み（一文字でも意味を持つ漢字のため unigram も弱く含める） */
+const NGRAM_WEIGHTS: Array<[number, number]> = [[1, 0.5], [2, 1], [3, 1]];
+
+/** 分かち書きした語の重み */
+const WORD_WEIGHT = 1.5;
+
+/**
+ * FNV-1a 32bit
+ */
+function fnv1a(text: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * ローカル埋め込みバックエンド（ハッシュ化文字 n-gram）
+ *
+ * 文字 1〜3-gram と分かち書きした語を符号付き特徴ハッシュで固定次元に射影し、L2 正規化する。
+ * 意味の近さまでは捉えないが、表層の重なりに基づく決定的な埋め込みをオフラインで得られる
+ */
+export class LocalNgramEmbeddingBackend implements EmbedderBackend {
+  readonly provider: EmbeddingProvider = 'local';
+  readonly model = 'hashed-ngram-v1';
+  readonly dimension: number;
+
+  constructor(dimension: number = 384) {
+    this.dimension = dimension;
+  }
+
+  async embed(text: string): Promise<Float32Array> {
+    return this.embedSync(text);
+  }
+
+  embedSync(text: string): Float32Array {
+    const vector = new Float32Array(this.dimension);
+    const normalized = text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+    const chars = Array.from(normalized);
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const sign = (hash & 0x80000000) !== 0 ? -1 : 1;
+      vector[hash % this.dimension] += sign * weight;
+    };
+
+    for (const [n, weight] of NGRAM_WEIGHTS) {
+      for (let i = 0; i + n <= chars.length; i++) {
+        const gram = chars.slice(i, i + n).join('');
+        if (gram.trim().length === 0) continue;
+        addFeature(`c${n}:${gram}`, weight);
+      }
+    }
+    for (const word of segmentForSearch(normalized)) {
+      addFeature(`w:${word}`, WORD_WEIGHT);
+    }
+
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) {
+      norm += vector[i] * vector[i];
+    }
+    norm = Math.sqrt(norm);
+    if (norm > 0) {
+      for (let i = 0; i < vector.length; i++) {
+        vector[i] /= norm;
+      }
+    }
+    return vector;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+}
+
+/**
+ * プロバイダ名からバックエンドを作成
+ */
+export function createEmbedderBackend(
+  provider: EmbeddingProvider,
+  options: { baseUrl: string; model: string; retryAttempts: number; localDimension: number }
+): EmbedderBackend {
+  switch (provider) {
+    case 'local':
+      return new LocalNgramEmbeddingBackend(options.localDimension);
+    case 'ollama':
+      return new OllamaEmbeddingBackend(options);
+    default:
+      throw new Error(`Unknown embedding provider: ${provider as string}`);
+  }
+}
+
+/**
+ * ベクトルDBに記録する埋め込みモデルの識別子
+ */
+export function getEmbeddingModelId(backend: Pick<EmbedderBackend, 'provider' | 'model'>): string {
+  return `${backend.provider}:${backend.model}`;
+}
@@ -0,0 +1,294 @@
+/**
+ * RAG Evaluation Module
+ *
+ * ゴールデンクエリによる検索品質の評価
+ * 設定（チャンクサイズ・閾値・埋め込みモデル・検索モード）ごとに評価用コーパスを索引し、
+ * recall@k・MRR・nDCG@k を比較する
+ *
+ * 索引は一時ディレクトリに作るため、運用中のベクトルDBには触れない
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createEmbedder } from './embedder.js';
+import { VectorDBManager } from './vectordb.js';
+import { createTextChunker } from './chunker.js';
+import { ContentIngester } from './ingest.js';
+import { Retriever } from './retriever.js';
+import { getKnowledgeDirPaths, loadRAGConfig, mergeRAGConfig, validateRAGConfig } from './config.js';
+import {
+  RAGConfig,
+  RAGEvalExpectation,
+  RAGEvalMetrics,
+  RAGEvalQueryResult,
+  RAGEvalReport,
+  RAGEvalVariant,
+  RAGEvalVariantReport,
+  RAGGoldenQuery,
+  RAGGoldenSet,
+  SearchResult,
+} from './types.js';
+
+const DEFAULT_K = [1, 3, 5];
+
+/**
+ * 評価オプション
+ */
+export interface RAGEvaluationOptions {
+  /** 比較する設定（省略時はゴールデンセットの variants、それも無ければ現在の設定のみ） */
+  variants?: RAGEvalVariant[];
+  /** 評価する k（省略時はゴールデンセットの k） */
+  k?: number[];
+  /** 索引を作るディレクトリ（省略時は一時ディレクトリを作り、終了後に削除） */
+  workDir?: string;
+  /** 設定ごとの進捗通知 */
+  onVariant?: (variant: RAGEvalVariant, index: number, total: number) => void;
+}
+
+/**
+ * ゴールデンセットを読み込む（corpus はファイルからの相対パスとして解決）
+ */
+export function loadGoldenSet(filePath: string): RAGGoldenSet {
+  const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const baseDir = path.dirname(path.resolve(filePath));
+
+  if (!raw || !Array.isArray(raw.queries) || raw.queries.length === 0) {
+    throw new Error(`Golden set ${filePath} has no queries`);
+  }
+  raw.queries.forEach((query: RAGGoldenQuery, index: number) => {
+    if (typeof query.query !== 'string' || !Array.isArray(query.expected) || query.expected.length === 0) {
+      throw new Error(`Golden query #${index + 1} in ${filePath} needs a query and at least one expected source`);
+    }
+  });
+
+  const corpus: string[] | undefined =
+    raw.corpus === undefined ? undefined : Array.isArray(raw.corpus) ? raw.corpus : [raw.corpus];
+
+  return {
+    corpus: corpus?.map((dir) => path.resolve(baseDir, dir)),
+    k: raw.k,
+    queries: raw.queries,
+    variants: raw.variants,
+  };
+}
+
+/**
+ * 期待値を正規化（文字列は source の省略形）
+ */
+export function normalizeExpectations(expected: Array<string | RAGEvalExpectation>): RAGEvalExpectation[] {
+  return expected.map((item) => (typeof item === 'string' ? { source: item } : item));
+}
+
+function matchesExpectation(result: SearchResult, expectation: RAGEvalExpectation): boolean {
+  if (expectation.source !== undefined) {
+    const sourceFile = result.sourceFile.replace(/\\/g, '/');
+    const source = expectation.source.replace(/\\/g, '/').replace(/^\.\//, '');
+    if (sourceFile !== source && !sourceFile.endsWith(`/${source}`)) return false;
+  }
+  if (expectation.contains !== undefined && !result.content.includes(expectation.contains)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 検索結果を期待値に割り当てる
+ *
+ * 各期待値は最初に満たした1件だけを正解とし、同じ出典の2件目以降のチャンクは不正解として数える
+ */
+export function judgeResults(results: SearchResult[], expectations: RAGEvalExpectation[]): Array<number | null> {
+  const credited = new Set<number>();
+  return results.map((result) => {
+    const index = expectations.findIndex(
+      (expectation, position) => !credited.has(position) && matchesExpectation(result, expectation)
+    );
+    if (index === -1) return null;
+    credited.add(index);
+    return index;
+  });
+}
+
+/**
+ * 割当済みの順位から recall@k・nDCG@k・逆順位を計算
+ *
+ * nDCG の利得は 2^grade - 1、割引は log2(順位 + 1)
+ */
+export function scoreRanking(
+  matches: Array<number | null>,
+  expectations: RAGEvalExpectation[],
+  ks: number[]
+): Pick<RAGEvalQueryResult, 'recallAtK' | 'ndcgAtK' | 'reciprocalRank'> {
+  const grade = (index: number) => expectations[index].grade ?? 1;
+  const gain = (value: number) => Math.pow(2, value) - 1;
+  const discount = (rank: number) => Math.log2(rank + 1);
+
+  const recallAtK: Record<number, number> = {};
+  const ndcgAtK: Record<number, number> = {};
+  const idealGrades = expectations.map((_, index) => grade(index)).sort((a, b) => b - a);
+
+  for (const k of ks) {
+    const top = matches.slice(0, k);
+    recallAtK[k] = top.filter((match) => match !== null).length / expectations.length;
+
+    const dcg = top.reduce<number>(
+      (sum, match, position) => sum + (match === null ? 0 : gain(grade(match)) / discount(position + 1)),
+      0
+    );
+    const idcg = idealGrades
+      .slice(0, k)
+      .reduce((sum, value, position) => sum + gain(value) / discount(position + 1), 0);
+    ndcgAtK[k] = idcg > 0 ? dcg / idcg : 0;
+  }
+
+  const firstHit = matches.findIndex((match) => match !== null);
+  return { recallAtK, ndcgAtK, reciprocalRank: firstHit === -1 ? 0 : 1 / (firstHit + 1) };
+}
+
+/**
+ * クエリごとの結果を平均して指標にまとめる
+ */
+export function aggregateMetrics(queries: RAGEvalQueryResult[], ks: number[]): RAGEvalMetrics {
+  const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+  const recallAtK: Record<number, number> = {};
+  const ndcgAtK: Record<number, number> = {};
+  for (const k of ks) {
+    recallAtK[k] = mean(queries.map((query) => query.recallAtK[k]));
+    ndcgAtK[k] = mean(queries.map((query) => query.ndcgAtK[k]));
+  }
+  return { recallAtK, ndcgAtK, mrr: mean(queries.map((query) => query.reciprocalRank)) };
+}
+
+/**
+ * 索引を共有できる設定かどうかの鍵（チャンク化と埋め込みが同じなら同じ索引）
+ */
+function indexKey(config: RAGConfig): string {
+  const model = config.embeddingProvider === 'local' ? `local-${config.localEmbeddingDimension}` : config.embeddingModel;
+  return `${config.embeddingProvider}|${model}|${config.chunkSize}|${config.chunkOverlap}`;
+}
+
+/**
+ * ゴールデンセットで設定ごとの検索品質を評価する
+ */
+export async function evaluateRetrieval(
+  golden: RAGGoldenSet,
+  options: RAGEvaluationOptions = {}
+): Promise<RAGEvalReport> {
+  const ks = [...new Set(options.k ?? golden.k ?? DEFAULT_K)].sort((a, b) => a - b);
+  if (ks.length === 0 || ks.some((k) => !Number.isInteger(k) || k < 1)) {
+    throw new Error(`Invalid k values: ${ks.join(', ')}. Must be positive integers.`);
+  }
+  const maxK = ks[ks.length - 1];
+  const variants = options.variants ?? golden.variants ?? [{ name: 'current' }];
+  const corpus = golden.corpus ?? getKnowledgeDirPaths();
+  const missingDirs = corpus.filter((dir) => !fs.existsSync(dir));
+  if (missingDirs.length > 0) {
+    throw new Error(`Evaluation corpus not found: ${missingDirs.join(', ')}`);
+  }
+
+  const ownsWorkDir = !options.workDir;
+  const workDir = options.workDir ?? fs.mkdtempSync(path.join(os.tmpdir(), 'aenea-rag-eval-'));
+  fs.mkdirSync(workDir, { recursive: true });
+  const indexes = new Map<string, { vectordb: VectorDBManager; chunks: number }>();
+
+  try {
+    const reports: RAGEvalVariantReport[] = [];
+
+    for (const [variantIndex, variant] of variants.entries()) {
+      options.onVariant?.(variant, variantIndex, variants.length);
+
+      const { name, mode: variantMode, ...overrides } = variant;
+      const config = mergeRAGConfig(loadRAGConfig(), overrides);
+      const errors = validateRAGConfig(config);
+      if (errors.length > 0) {
+        throw new Error(`Invalid variant "${name}": ${errors.join(' ')}`);
+      }
+
+      const embedder = createEmbedder({
+        provider: config.embeddingProvider,
+        localDimension: config.localEmbeddingDimension,
+        model: config.embeddingModel,
+        baseUrl: config.embeddingBaseUrl,
+      });
+
+      const key = indexKey(config);
+      let index = indexes.get(key);
+      if (!index) {
+        // ANN は近似なので使わず、全件走査で評価する
+        const vectordb = new VectorDBManager(path.join(workDir, `index-${indexes.size + 1}.db`), { enabled: false });
+        const chunker = createTextChunker({ maxTokens: config.chunkSize, overlapTokens: config.chunkOverlap });
+        const ingester = new ContentIngester(embedder, vectordb, chunker);
+
+        for (const dir of corpus) {
+          const report = await ingester.ingestDirectory(dir, { sourceType: ingester.inferSourceType(dir) });
+          if (report.errors.length > 0) {
+            vectordb.close();
+            const details = report.errors.map((error) => `${error.file}: ${error.error}`).join('; ');
+            throw new Error(`Failed to index evaluation corpus for variant "${name}": ${details}`);
+          }
+        }
+
+        index = { vectordb, chunks: vectordb.getChunkCount() };
+        indexes.set(key, index);
+      }
+
+      const mode = variantMode ?? (config.hybrid.enabled ? 'hybrid' : 'vector');
+      const retriever = new Retriever(embedder, index.vectordb, overrides);
+      const queries: RAGEvalQueryResult[] = [];
+      let totalLatency = 0;
+
+      for (const [queryIndex, goldenQuery] of golden.queries.entries()) {
+        const expectations = normalizeExpectations(goldenQuery.expected);
+        const startTime = performance.now();
+        const results = await retriever.search(goldenQuery.query, {
+          mode,
+          topK: maxK,
+          similarityThreshold: config.similarityThreshold,
+        });
+        totalLatency += performance.now() - startTime;
+
+        const matches = judgeResults(results, expectations);
+        const credited = new Set(matches.filter((match): match is number => match !== null));
+        queries.push({
+          id: goldenQuery.id ?? `q${queryIndex + 1}`,
+          query: goldenQuery.query,
+          ...scoreRanking(matches, expectations, ks),
+          ranked: results.map((result, position) => ({ sourceFile: result.sourceFile, matched: matches[position] })),
+          missed: expectations.filter((_, position) => !credited.has(position)),
+        });
+      }
+
+      reports.push({
+        name,
+        config: {
+          embeddingProvider: config.embeddingProvider,
+          embeddingModel: embedder.getModelId(),
+          chunkSize: config.chunkSize,
+          chunkOverlap: config.chunkOverlap,
+          similarityThreshold: config.similarityThreshold,
+          mode,
+          policy: config.policy.enabled,
+        },
+        metrics: aggregateMetrics(queries, ks),
+        chunks: index.chunks,
+        meanLatencyMs: queries.length > 0 ? totalLatency / queries.length : 0,
+        queries,
+      });
+    }
+
+    const best = reports.reduce<RAGEvalVariantReport | null>(
+      (current, report) =>
+        !current || report.metrics.ndcgAtK[maxK] > current.metrics.ndcgAtK[maxK] ? report : current,
+      null
+    );
+
+    return { k: ks, queryCount: golden.queries.length, variants: reports, best: best?.name ?? null };
+  } finally {
+    for (const { vectordb } of indexes.values()) {
+      vectordb.close();
+    }
+    if (ownsWorkDir) {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,360 @@
+/**
+ * RAG Document Extractors Module
+ *
+ * ファイル形式ごとに本文と構造（章・節・ページ・発話者）を取り出す
+ * - Markdown / テキスト: フロントマターと見出し
+ * - HTML: <title> と見出し（ルビは親文字だけ残す）
+ * - EPUB: 書誌情報、目次の章題、spine 順の本文
+ * - PDF: 文書情報とページ
+ * - JSONL: 対話トランスクリプトの発話（話者つき）
+ *
+ * 器の違いを剥がして、言葉とその居場所だけを残す
+ */
+
+import * as path from 'path';
+import { ChunkMetadata, DocumentFormat, DocumentSection, ExtractedDocument } from './types.js';
+import { ZipArchive } from './zip.js';
+import { extractPdfText } from './pdf.js';
+
+const FORMAT_BY_EXTENSION: Record<string, DocumentFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'text',
+  '.json': 'json',
+  '.jsonl': 'jsonl',
+  '.html': 'html',
+  '.htm': 'html',
+  '.xhtml': 'html',
+  '.pdf': 'pdf',
+  '.epub': 'epub',
+};
+
+/** 発話者として読むフィールド（先にあるものを優先） */
+const SPEAKER_FIELDS = ['speaker', 'agentName', 'agent', 'agentId', 'name', 'role', 'author'];
+/** 発話本文として読むフィールド */
+const UTTERANCE_FIELDS = ['content', 'message', 'text', 'thought', 'utterance'];
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+};
+
+/**
+ * 拡張子から形式を判定（対象外なら null）
+ */
+export function getDocumentFormat(filePath: string): DocumentFormat | null {
+  return FORMAT_BY_EXTENSION[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+/**
+ * ファイルの内容から本文と構造を取り出す
+ */
+export function extractDocument(filePath: string, buffer: Buffer): ExtractedDocument {
+  const format = getDocumentFormat(filePath) ?? 'text';
+
+  switch (format) {
+    case 'markdown':
+      return extractMarkdown(buffer.toString('utf-8'));
+    case 'html':
+      return extractHtml(buffer.toString('utf-8'));
+    case 'epub':
+      return extractEpub(buffer);
+    case 'pdf':
+      return extractPdf(buffer);
+    case 'jsonl':
+      return extractTranscript(buffer.toString('utf-8'));
+    default: {
+      const { metadata, body } = parseFrontMatter(buffer.toString('utf-8'));
+      return { format, metadata, sections: [{ text: body, metadata: {} }] };
+    }
+  }
+}
+
+/**
+ * "---" で囲まれたフロントマターを読む（key: value の行のみ）
+ */
+export function parseFrontMatter(content: string): { metadata: ChunkMetadata; body: string } {
+  const metadata: ChunkMetadata = {};
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+  if (!match) return { metadata, body: content };
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const [key, ...valueParts] = line.split(':');
+    if (key && valueParts.length > 0) {
+      metadata[key.trim()] = valueParts.join(':').trim();
+    }
+  }
+  return { metadata, body: content.slice(match[0].length) };
+}
+
+/**
+ * Markdown: 見出し1を章、見出し2・3を節として区切る（コードブロック内は無視）
+ */
+function extractMarkdown(content: string): ExtractedDocument {
+  const { metadata, body } = parseFrontMatter(content);
+  const sections: DocumentSection[] = [];
+  let chapter: string | undefined;
+  let section: string | undefined;
+  let lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = lines.join('\n').trim();
+    if (text) sections.push({ text, metadata: compact({ chapter, section }) });
+    lines = [];
+  };
+
+  for (const line of body.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = inFence ? null : line.match(/^(#{1,3})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      if (heading[1].length === 1) {
+        chapter = heading[2];
+        section = undefined;
+      } else {
+        section = heading[2];
+      }
+    }
+    lines.push(line);
+  }
+  flush();
+
+  return { format: 'markdown', metadata, sections };
+}
+
+/**
+ * HTML: 見出し1を章、見出し2〜4を節として区切る
+ */
+function extractHtml(html: string): ExtractedDocument {
+  const title = decodeEntities(stripTags(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] ?? '')).trim();
+  return {
+    format: 'html',
+    metadata: compact({ title: title || undefined }),
+    sections: splitHtmlSections(html),
+  };
+}
+
+/**
+ * HTML 本文を見出しで区切る。chapter を渡すと、その文書全体をその章として扱い見出しはすべて節になる
+ */
+function splitHtmlSections(html: string, chapter?: string): DocumentSection[] {
+  const body = (html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html)
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|rt|rp)\b[^>]*>[\s\S]*?<\/\1>/gi, '');
+
+  const sections: DocumentSection[] = [];
+  let currentChapter = chapter;
+  let currentSection: string | undefined;
+  let lastIndex = 0;
+
+  const flush = (fragment: string) => {
+    const text = htmlToText(fragment);
+    if (text) sections.push({ text, metadata: compact({ chapter: currentChapter, section: currentSection }) });
+  };
+
+  for (const match of body.matchAll(/<h([1-4])\b[^>]*>([\s\S]*?)<\/h\1>/gi)) {
+    flush(body.slice(lastIndex, match.index));
+    lastIndex = match.index!;
+
+    const heading = htmlToText(match[2]).replace(/\s+/g, ' ');
+    if (!heading) continue;
+    if (chapter !== undefined) {
+      // 章題と同じ見出しは節にしない
+      currentSection = heading === chapter ? undefined : heading;
+    } else if (match[1] === '1') {
+      currentChapter = heading;
+      currentSection = undefined;
+    } else {
+      currentSection = heading;
+    }
+  }
+  flush(body.slice(lastIndex));
+
+  return sections;
+}
+
+/**
+ * HTML 断片をプレーンテキストに（ブロック要素の終わりを段落区切りにする）
+ */
+function htmlToText(html: string): string {
+  const text = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|blockquote|section|article|tr|h[1-6]|pre|dd|dt|figcaption)>/gi, '\n\n');
+  return decodeEntities(stripTags(text))
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, '');
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (entity, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return HTML_ENTITIES[body] ?? entity;
+  });
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  return tag.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i'))?.slice(2).find((v) => v !== undefined);
+}
+
+/**
+ * EPUB: OPF の書誌情報と spine 順の本文。章題は目次（nav / NCX）から取り、無ければ文書の見出し
+ */
+function extractEpub(buffer: Buffer): ExtractedDocument {
+  const zip = new ZipArchive(buffer);
+  const container = zip.readText('META-INF/container.xml');
+  const opfPath = container ? getAttribute(container.match(/<rootfile\b[^>]*>/i)?.[0] ?? '', 'full-path') : undefined;
+  const opf = opfPath ? zip.readText(opfPath) : null;
+  if (!opfPath || !opf) {
+    throw new Error('Invalid EPUB: package document not found');
+  }
+
+  const baseDir = path.posix.dirname(opfPath);
+  const resolve = (href: string) => path.posix.normalize(path.posix.join(baseDir, decodeURIComponent(href.split('#')[0])));
+  const dcText = (tag: string) => {
+    const value = opf.match(new RegExp(`<dc:${tag}\\b[^>]*>([\\s\\S]*?)</dc:${tag}>`, 'i'))?.[1];
+    return value ? decodeEntities(stripTags(value)).trim() || undefined : undefined;
+  };
+
+  const manifest = new Map<string, { href: string; mediaType?: string; properties?: string }>();
+  for (const [tag] of opf.matchAll(/<item\b[^>]*>/gi)) {
+    const id = getAttribute(tag, 'id');
+    const href = getAttribute(tag, 'href');
+    if (id && href) {
+      manifest.set(id, { href: resolve(href), mediaType: getAttribute(tag, 'media-type'), properties: getAttribute(tag, 'properties') });
+    }
+  }
+
+  // 目次: EPUB 3 の nav、無ければ EPUB 2 の NCX
+  const tocTitles = new Map<string, string>();
+  const nav = [...manifest.values()].find((item) => item.properties?.split(/\s+/).includes('nav'));
+  const ncx = [...manifest.values()].find((item) => item.mediaType === 'application/x-dtbncx+xml');
+  if (nav) {
+    const navDir = path.posix.dirname(nav.href);
+    for (const [, attrs, label] of (zip.readText(nav.href) ?? '').matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi)) {
+      const href = getAttribute(attrs, 'href');
+      const target = href ? path.posix.normalize(path.posix.join(navDir, decodeURIComponent(href.split('#')[0]))) : undefined;
+      const title = htmlToText(label).replace(/\s+/g, ' ');
+      if (target && title && !tocTitles.has(target)) tocTitles.set(target, title);
+    }
+  } else if (ncx) {
+    const ncxDir = path.posix.dirname(ncx.href);
+    for (const [, point] of (zip.readText(ncx.href) ?? '').matchAll(/<navPoint\b[^>]*>([\s\S]*?)(?=<navPoint\b|<\/navPoint>)/gi)) {
+      const label = point.match(/<text>([\s\S]*?)<\/text>/i)?.[1];
+      const src = getAttribute(point.match(/<content\b[^>]*>/i)?.[0] ?? '', 'src');
+      if (label && src) {
+        const target = path.posix.normalize(path.posix.join(ncxDir, decodeURIComponent(src.split('#')[0])));
+        if (!tocTitles.has(target)) tocTitles.set(target, decodeEntities(label).trim());
+      }
+    }
+  }
+
+  const sections: DocumentSection[] = [];
+  for (const [tag] of opf.matchAll(/<itemref\b[^>]*>/gi)) {
+    if (getAttribute(tag, 'linear') === 'no') continue;
+    const item = manifest.get(getAttribute(tag, 'idref') ?? '');
+    if (!item || item === nav) continue;
+
+    const html = zip.readText(item.href);
+    if (!html) continue;
+    const heading = html.match(/<h[1-3]\b[^>]*>([\s\S]*?)<\/h[1-3]>/i)?.[1];
+    const fallbackTitle = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+    const chapter =
+      tocTitles.get(item.href) ??
+      (heading ? htmlToText(heading).replace(/\s+/g, ' ') : undefined) ??
+      (fallbackTitle ? decodeEntities(stripTags(fallbackTitle)).trim() : undefined);
+    sections.push(...splitHtmlSections(html, chapter || undefined));
+  }
+
+  return {
+    format: 'epub',
+    metadata: compact({ title: dcText('title'), author: dcText('creator'), language: dcText('language') }),
+    sections,
+  };
+}
+
+/**
+ * PDF: ページ単位で区切る
+ */
+function extractPdf(buffer: Buffer): ExtractedDocument {
+  const pdf = extractPdfText(buffer);
+  return {
+    format: 'pdf',
+    metadata: compact({ title: pdf.title, author: pdf.author }),
+    sections: pdf.pages
+      .filter((page) => page.text.length > 0)
+      .map((page) => ({ text: page.text, metadata: { page: page.pageNumber } })),
+  };
+}
+
+/**
+ * JSONL トランスクリプト: 1行1発話（読めない行・本文の無い行は飛ばす）
+ */
+function extractTranscript(content: string): ExtractedDocument {
+  const sections: DocumentSection[] = [];
+  const metadata: ChunkMetadata = {};
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    let record: Record<string, unknown>;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      return;
+    }
+    if (!record || typeof record !== 'object') return;
+
+    const pick = (fields: string[]) => {
+      for (const field of fields) {
+        const value = record[field];
+        if (typeof value === 'string' && value.trim()) return value.trim();
+      }
+      return undefined;
+    };
+
+    const sessionId = pick(['sessionId', 'session_id']);
+    if (sessionId && !metadata.sessionId) metadata.sessionId = sessionId;
+
+    const text = pick(UTTERANCE_FIELDS);
+    if (!text) return;
+    sections.push({
+      text,
+      metadata: compact({
+        speaker: pick(SPEAKER_FIELDS) ?? 'unknown',
+        turn: index + 1,
+        stage: pick(['stage', 'phase']),
+        date: pick(['timestamp', 'date', 'createdAt']),
+      }),
+    });
+  });
+
+  return { format: 'jsonl', metadata, sections, transcript: true };
+}
+
+/**
+ * undefined の値を落とす
+ */
+function compact(metadata: ChunkMetadata): ChunkMetadata {
+  return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined)) as ChunkMetadata;
+}
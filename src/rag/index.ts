@@ -11,6 +11,7 @@ import { VectorDBManager, createVectorDBManager } from './vectordb.js';
 import { TextChunker, createTextChunker } from './chunker.js';
 import { Retriever, createRetriever } from './retriever.js';
 import { ContentIngester, createContentIngester } from './ingest.js';
+import { KnowledgeWatcher, KnowledgeWatcherOptions, createKnowledgeWatcher } from './watcher.js';
 import {
   RAGConfig,
   SearchOptions,
@@ -20,16 +21,19 @@ import {
   RAGStats,
   RAGHealthStatus,
   SourceType,
+  ANNBenchmarkResult,
+  RAGContextResult,
 } from './types.js';
-import { loadRAGConfig, isRAGEnabled as checkRAGEnabled } from './config.js';
+import { loadRAGConfig, getVectorDbPath, isRAGEnabled as checkRAGEnabled } from './config.js';
 
 /**
  * RAGシステムクラス
  *
- * 統合されたRAG機能を提供するシングルトン
+ * 統合されたRAG機能を提供する。ベクトルDBごとに1インスタンス
+ * （ホストされた各インスタンスは自分のベクトルDBを持つ）
  */
 export class RAGSystem {
-  private static instance: RAGSystem | null = null;
+  private static instances = new Map<string, RAGSystem>();
 
   private config: RAGConfig;
   private embedder: Embedder;
@@ -44,7 +48,7 @@ export class RAGSystem {
 
     // コンポーネントを初期化
     this.embedder = createEmbedder();
-    this.vectordb = createVectorDBManager();
+    this.vectordb = createVectorDBManager(getVectorDbPath(this.config.vectorDbPath), this.config.annIndex);
     this.chunker = createTextChunker();
     this.retriever = createRetriever(this.embedder, this.vectordb);
     this.ingester = createContentIngester(this.embedder, this.vectordb, this.chunker);
@@ -54,23 +58,26 @@ export class RAGSystem {
   }
 
   /**
-   * シングルトンインスタンスを取得
+   * ベクトルDBパスごとのインスタンスを取得（省略時は RAG_VECTORDB_PATH）
    */
   static getInstance(config?: Partial<RAGConfig>): RAGSystem {
-    if (!RAGSystem.instance) {
-      RAGSystem.instance = new RAGSystem(config);
+    const key = getVectorDbPath(config?.vectorDbPath);
+    let instance = RAGSystem.instances.get(key);
+    if (!instance) {
+      instance = new RAGSystem(config);
+      RAGSystem.instances.set(key, instance);
     }
-    return RAGSystem.instance;
+    return instance;
   }
 
   /**
-   * インスタンスをリセット（テスト用）
+   * 全インスタンスをリセット（テスト用）
    */
   static resetInstance(): void {
-    if (RAGSystem.instance) {
-      RAGSystem.instance.close();
-      RAGSystem.instance = null;
+    for (const instance of RAGSystem.instances.values()) {
+      instance.close();
     }
+    RAGSystem.instances.clear();
   }
 
   // =========================================================================
@@ -99,6 +106,17 @@ export class RAGSystem {
     return this.retriever.searchForContext(query, maxTokens);
   }
 
+  /**
+   * プロンプト用コンテキストと、その出典（チャンクID・類似度）を取得
+   */
+  async getContextWithSources(query: string, maxTokens?: number): Promise<RAGContextResult> {
+    if (!this.config.enabled) {
+      return { context: '', sources: [] };
+    }
+
+    return this.retriever.retrieveContext(query, maxTokens);
+  }
+
   /**
    * 複数クエリで検索
    */
@@ -210,6 +228,15 @@ export class RAGSystem {
     return this.ingester.ingestText(content, sourceId, sourceType, metadata);
   }
 
+  /**
+   * 全チャンクを現在の埋め込みモデルで再埋め込み
+   */
+  async reembedAll(
+    options?: { batchSize?: number; onProgress?: (done: number, total: number) => void }
+  ): Promise<{ reembedded: number; from: string | null; to: string; durationMs: number }> {
+    return this.ingester.reembedAll(options);
+  }
+
   /**
    * すべてのデータをクリア
    */
@@ -217,6 +244,41 @@ export class RAGSystem {
     this.ingester.clearAll();
   }
 
+  /**
+   * 知識ディレクトリの監視を作成（start() で差分同期と監視を開始）
+   */
+  createWatcher(options?: KnowledgeWatcherOptions): KnowledgeWatcher {
+    return createKnowledgeWatcher(this.ingester, this.vectordb, {
+      debounceMs: this.config.watch.debounceMs,
+      ...options,
+    });
+  }
+
+  // =========================================================================
+  // ANN Index
+  // =========================================================================
+
+  /**
+   * ANNインデックスを再構築
+   */
+  rebuildIndex(): { indexedChunks: number; skippedChunks: number; durationMs: number } {
+    return this.vectordb.rebuildIndex();
+  }
+
+  /**
+   * 語彙（FTS5）インデックスを再構築
+   */
+  rebuildLexicalIndex(): number {
+    return this.vectordb.rebuildLexicalIndex();
+  }
+
+  /**
+   * ANNインデックスと全件走査を比較
+   */
+  benchmarkIndex(options?: { queries?: number; topK?: number; efSearch?: number }): ANNBenchmarkResult {
+    return this.vectordb.benchmarkIndex(options);
+  }
+
   // =========================================================================
   // Status & Health
   // =========================================================================
@@ -275,7 +337,11 @@ export class RAGSystem {
       totalChunks: this.vectordb.getChunkCount(),
       chunksBySourceType: this.vectordb.getChunkCountBySourceType(),
       embeddingDimension: this.embedder.getDimension(),
+      embeddingModel: this.embedder.getModelId(),
+      storedEmbedding: this.vectordb.getEmbeddingModel(),
       vectorDbSize: this.vectordb.getDatabaseSize(),
+      annIndex: this.vectordb.getIndexStats(),
+      retrievalShare: this.vectordb.getRetrievalShareStats(),
     };
   }
 
@@ -313,6 +379,13 @@ export function createRAGSystem(config?: Partial<RAGConfig>): RAGSystem {
   return RAGSystem.getInstance(config);
 }
 
+/**
+ * 簡易関数用: vectorDbPath が指定されればそのベクトルDB、なければ既定のもの
+ */
+function ragSystemFor(vectorDbPath?: string): RAGSystem {
+  return createRAGSystem(vectorDbPath ? { vectorDbPath } : undefined);
+}
+
 /**
  * RAGが有効かどうかを確認
  */
@@ -327,14 +400,15 @@ export function isRAGEnabled(): boolean {
  */
 export async function getRAGContext(
   query: string,
-  maxTokens?: number
+  maxTokens?: number,
+  vectorDbPath?: string
 ): Promise<string> {
   if (!isRAGEnabled()) {
     return '';
   }
 
   try {
-    const rag = createRAGSystem();
+    const rag = ragSystemFor(vectorDbPath);
     return await rag.getContextForPrompt(query, maxTokens);
   } catch (error) {
     console.error('[RAG] Failed to get context:', error);
@@ -342,19 +416,43 @@ export async function getRAGContext(
   }
 }
 
+/**
+ * RAGコンテキストを出典付きで取得（簡易関数）
+ *
+ * 思考・対話がどのチャンクに基づいたかを記録するために使う
+ */
+export async function getRAGContextWithSources(
+  query: string,
+  maxTokens?: number,
+  vectorDbPath?: string
+): Promise<RAGContextResult> {
+  if (!isRAGEnabled()) {
+    return { context: '', sources: [] };
+  }
+
+  try {
+    const rag = ragSystemFor(vectorDbPath);
+    return await rag.getContextWithSources(query, maxTokens);
+  } catch (error) {
+    console.error('[RAG] Failed to get context:', error);
+    return { context: '', sources: [] };
+  }
+}
+
 /**
  * RAG検索（簡易関数）
  */
 export async function searchRAG(
   query: string,
-  options?: SearchOptions
+  options?: SearchOptions,
+  vectorDbPath?: string
 ): Promise<SearchResult[]> {
   if (!isRAGEnabled()) {
     return [];
   }
 
   try {
-    const rag = createRAGSystem();
+    const rag = ragSystemFor(vectorDbPath);
     return await rag.search(query, options);
   } catch (error) {
     console.error('[RAG] Search failed:', error);
@@ -376,14 +474,15 @@ export async function ingestDialogueToRAG(
     topics?: string;
     importance?: number;
     emotionalState?: string;
-  }
+  },
+  vectorDbPath?: string
 ): Promise<boolean> {
   if (!isRAGEnabled()) {
     return false;
   }
 
   try {
-    const rag = createRAGSystem();
+    const rag = ragSystemFor(vectorDbPath);
 
     // 対話の全文を構成
     const content = `Human: ${humanMessage}
@@ -415,14 +514,15 @@ Summary: ${memorySummary}`;
 export async function ingestBeliefToRAG(
   beliefId: number,
   beliefContent: string,
-  reinforcementCount: number
+  reinforcementCount: number,
+  vectorDbPath?: string
 ): Promise<boolean> {
   if (!isRAGEnabled()) {
     return false;
   }
 
   try {
-    const rag = createRAGSystem();
+    const rag = ragSystemFor(vectorDbPath);
 
     const content = `Core Belief (reinforced ${reinforcementCount} times):
 "${beliefContent}"
@@ -457,14 +557,15 @@ export async function ingestDPDChangeToRAG(
   empathy: number,
   coherence: number,
   dissonance: number,
-  version: number
+  version: number,
+  vectorDbPath?: string
 ): Promise<boolean> {
   if (!isRAGEnabled()) {
     return false;
   }
 
   try {
-    const rag = createRAGSystem();
+    const rag = ragSystemFor(vectorDbPath);
 
     const content = `DPD Weight Change (version ${version}):
 Empathy: ${(empathy * 100).toFixed(1)}%
@@ -502,14 +603,15 @@ export async function ingestSignificantThoughtToRAG(
   thoughtContent: string,
   agentName: string,
   confidence: number,
-  category?: string
+  category?: string,
+  vectorDbPath?: string
 ): Promise<boolean> {
   if (!isRAGEnabled()) {
     return false;
   }
 
   try {
-    const rag = createRAGSystem();
+    const rag = ragSystemFor(vectorDbPath);
 
     const content = `Significant Thought (confidence: ${(confidence * 100).toFixed(0)}%):
 Agent: ${agentName}
@@ -545,26 +647,75 @@ This thought emerged with high confidence during self-reflection.`;
 // Re-exports
 // =========================================================================
 
-export { loadRAGConfig } from './config.js';
+export { loadRAGConfig, mergeRAGConfig } from './config.js';
 export { createEmbedder, Embedder } from './embedder.js';
+export {
+  createEmbedderBackend,
+  OllamaEmbeddingBackend,
+  LocalNgramEmbeddingBackend,
+} from './embedding-backends.js';
 export { createVectorDBManager, VectorDBManager, cosineSimilarity } from './vectordb.js';
+export { HnswIndex, DEFAULT_HNSW_PARAMS, getAnnIndexPath } from './ann-index.js';
 export { createTextChunker, TextChunker } from './chunker.js';
-export { createRetriever, Retriever } from './retriever.js';
+export { createRetriever, Retriever, fuseRankings, toSourceReferences } from './retriever.js';
+export { applyRetrievalPolicy, getSelfLimit } from './retrieval-policy.js';
+export { segmentForSearch } from './lexical.js';
 export { createContentIngester, ContentIngester } from './ingest.js';
+export { createKnowledgeWatcher, KnowledgeWatcher } from './watcher.js';
+export { extractDocument, getDocumentFormat, parseFrontMatter } from './extractors.js';
+export { extractPdfText } from './pdf.js';
+export {
+  evaluateRetrieval,
+  loadGoldenSet,
+  judgeResults,
+  scoreRanking,
+  aggregateMetrics,
+  normalizeExpectations,
+} from './evaluation.js';
+export { ZipArchive } from './zip.js';
+export type { KnowledgeWatcherOptions } from './watcher.js';
+export type { RAGEvaluationOptions } from './evaluation.js';
 
 export type {
   RAGConfig,
+  RAGConfigOverrides,
+  SearchMode,
   SearchOptions,
   SearchResult,
+  SearchRanking,
+  RAGSourceReference,
+  RAGContextResult,
+  HybridSearchConfig,
+  RetrievalPolicyConfig,
+  RetrievalShareStats,
   SourceType,
   SelfGrowthType,
   VectorChunk,
   ChunkMetadata,
   IngestionOptions,
   IngestionReport,
+  KnowledgeWatchConfig,
+  KnowledgeIngestionEvent,
+  DocumentFormat,
+  DocumentSection,
+  ExtractedDocument,
   RAGStats,
   RAGHealthStatus,
+  ANNIndexConfig,
+  ANNIndexStats,
+  ANNBenchmarkResult,
   TextChunk,
   ChunkerConfig,
   EmbedderConfig,
+  EmbedderBackend,
+  EmbeddingProvider,
+  StoredEmbeddingModel,
+  RAGEvalExpectation,
+  RAGGoldenQuery,
+  RAGGoldenSet,
+  RAGEvalVariant,
+  RAGEvalMetrics,
+  RAGEvalQueryResult,
+  RAGEvalVariantReport,
+  RAGEvalReport,
 } from './types.js';
@@ -2,7 +2,7 @@
  * RAG Content Ingestion Module
  *
  * 知識ベースへのコンテンツ取り込み
- * Markdown、JSON、テキストファイルをチャンク化して埋め込み生成
+ * Markdown、テキスト、JSON、JSONL、HTML、PDF、EPUB をチャンク化して埋め込み生成
  *
  * 記憶を数値の海に溶かし込む
  */
@@ -13,6 +13,7 @@ import * as crypto from 'crypto';
 import { Embedder, createEmbedder } from './embedder.js';
 import { VectorDBManager, createVectorDBManager } from './vectordb.js';
 import { TextChunker, createTextChunker } from './chunker.js';
+import { extractDocument, getDocumentFormat } from './extractors.js';
 import {
   VectorChunk,
   SourceType,
@@ -21,6 +22,7 @@ import {
   IngestionOptions,
   IngestionReport,
   IngestionError,
+  ExtractedDocument,
 } from './types.js';
 import { loadRAGConfig, getKnowledgeDirPaths } from './config.js';
 
@@ -157,17 +159,17 @@ export class ContentIngester {
     filePath: string,
     options?: IngestionOptions
   ): Promise<number> {
-    const content = fs.readFileSync(filePath, 'utf-8');
+    const document = extractDocument(filePath, fs.readFileSync(filePath));
     const sourceType = options?.sourceType || this.inferSourceTypeFromFile(filePath);
-    const metadata = this.extractMetadata(filePath, content, options?.additionalMetadata);
+    const metadata = this.extractMetadata(filePath, document, options?.additionalMetadata);
 
-    // 既存のチャンクを削除
-    this.vectordb.deleteBySource(filePath);
-
-    // テキストをチャンク化
-    const textChunks = this.chunker.chunk(content, metadata);
+    // 章・節・ページ（トランスクリプトは話者）の境界を保ってチャンク化
+    const textChunks = document.transcript
+      ? this.chunker.chunkTranscript(document.sections, metadata)
+      : this.chunker.chunkSections(document.sections, metadata);
 
     if (textChunks.length === 0) {
+      this.vectordb.deleteBySource(filePath);
       console.log(`[RAG] No chunks created for: ${filePath}`);
       return 0;
     }
@@ -176,11 +178,19 @@ export class ContentIngester {
     const texts = textChunks.map((c) => c.content);
     const embeddings = await this.embedder.embedBatch(texts);
 
+    // 埋め込みが揃ってから既存のチャンクを削除（失敗時に古い記憶を失わない）
+    const mismatch = this.vectordb.getEmbeddingMismatch(this.embedder.getModelId(), embeddings[0].length);
+    if (mismatch) {
+      throw new Error(mismatch);
+    }
+    this.vectordb.deleteBySource(filePath);
+
     // VectorChunkを作成
     const vectorChunks: VectorChunk[] = textChunks.map((chunk, index) => ({
       content: chunk.content,
       embedding: embeddings[index],
-      embeddingDim: this.embedder.getDimension(),
+      embeddingDim: embeddings[index].length,
+      embeddingModel: this.embedder.getModelId(),
       metadata: chunk.metadata,
       sourceFile: filePath,
       sourceType,
@@ -226,7 +236,8 @@ export class ContentIngester {
     const vectorChunks: VectorChunk[] = textChunks.map((chunk, index) => ({
       content: chunk.content,
       embedding: embeddings[index],
-      embeddingDim: this.embedder.getDimension(),
+      embeddingDim: embeddings[index].length,
+      embeddingModel: this.embedder.getModelId(),
       metadata: chunk.metadata,
       sourceFile: sourceId,
       sourceType,
@@ -714,9 +725,36 @@ This pattern emerged during sleep consolidation, representing an abstract synthe
   }
 
   /**
-   * ディレクトリを再帰的に走査
+   * ファイルが前回の取り込みから変わったか（未取り込みなら true）
+   */
+  hasChanged(filePath: string): boolean {
+    const history = this.vectordb.getIngestionHistory(filePath);
+    return !history || history.fileHash !== this.computeFileHash(filePath);
+  }
+
+  /**
+   * 消えたファイルのチャンクとインジェスト履歴を削除
+   */
+  removeFile(filePath: string): number {
+    const removed = this.vectordb.deleteBySource(filePath);
+    this.vectordb.deleteIngestionHistory(filePath);
+    if (removed > 0) {
+      console.log(`[RAG] Removed ${removed} chunks from: ${filePath}`);
+    }
+    return removed;
+  }
+
+  /**
+   * 取り込み対象のファイル形式か
+   */
+  isSupportedFile(filePath: string): boolean {
+    return getDocumentFormat(filePath) !== null;
+  }
+
+  /**
+   * ディレクトリを再帰的に走査し、取り込み対象のファイルを返す
    */
-  private walkDirectory(dirPath: string): string[] {
+  walkDirectory(dirPath: string): string[] {
     const files: string[] = [];
 
     const entries = fs.readdirSync(dirPath, { withFileTypes: true });
@@ -731,7 +769,7 @@ This pattern emerged during sleep consolidation, representing an abstract synthe
         files.push(...this.walkDirectory(fullPath));
       } else if (entry.isFile()) {
         // サポートされるファイル形式
-        if (/\.(md|json|txt)$/i.test(entry.name)) {
+        if (this.isSupportedFile(entry.name)) {
           files.push(fullPath);
         }
       }
@@ -751,7 +789,7 @@ This pattern emerged during sleep consolidation, representing an abstract synthe
   /**
    * ディレクトリ名からソースタイプを推測
    */
-  private inferSourceType(dirPath: string): SourceType {
+  inferSourceType(dirPath: string): SourceType {
     const dirName = path.basename(dirPath).toLowerCase();
 
     if (dirName.includes('session')) return 'session';
@@ -777,34 +815,21 @@ This pattern emerged during sleep consolidation, representing an abstract synthe
   }
 
   /**
-   * ファイルからメタデータを抽出
+   * ファイルからメタデータを抽出（フロントマター・書誌情報はファイル名の題より優先）
    */
   private extractMetadata(
     filePath: string,
-    content: string,
+    document: ExtractedDocument,
     additionalMetadata?: ChunkMetadata
   ): ChunkMetadata {
     const fileName = path.basename(filePath);
     const metadata: ChunkMetadata = {
       title: fileName,
+      format: document.format,
       ...additionalMetadata,
+      ...document.metadata,
     };
 
-    // Markdownのフロントマターを解析
-    const frontMatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-    if (frontMatterMatch) {
-      const frontMatter = frontMatterMatch[1];
-      const lines = frontMatter.split('\n');
-
-      for (const line of lines) {
-        const [key, ...valueParts] = line.split(':');
-        if (key && valueParts.length > 0) {
-          const value = valueParts.join(':').trim();
-          metadata[key.trim()] = value;
-        }
-      }
-    }
-
     // ファイルの更新日時
     try {
       const stats = fs.statSync(filePath);
@@ -826,6 +851,44 @@ This pattern emerged during sleep consolidation, representing an abstract synthe
     };
   }
 
+  /**
+   * 全チャンクを現在の埋め込みモデルで再埋め込み
+   *
+   * 新しい埋め込みは作業領域に貯め、全件そろった時点で一括で置き換える。
+   * 中断した場合も同じモデルで再実行すれば続きから再開する
+   */
+  async reembedAll(
+    options: { batchSize?: number; onProgress?: (done: number, total: number) => void } = {}
+  ): Promise<{ reembedded: number; from: string | null; to: string; durationMs: number }> {
+    const startTime = Date.now();
+    const batchSize = options.batchSize ?? 50;
+    const modelId = this.embedder.getModelId();
+    const from = this.vectordb.getEmbeddingModel()?.modelId ?? null;
+    const total = this.vectordb.getChunkCount();
+    let reembedded = 0;
+
+    for (;;) {
+      const pending = this.vectordb.getChunksPendingReembed(modelId, batchSize);
+      if (pending.length === 0) {
+        // 作業中に追加されたチャンクがあれば次の周回で拾う
+        if (this.vectordb.commitReembed(modelId)) break;
+        continue;
+      }
+
+      const embeddings = await this.embedder.embedBatch(pending.map((chunk) => chunk.content));
+      this.vectordb.stageEmbeddings(
+        modelId,
+        pending.map((chunk, index) => ({ id: chunk.id, embedding: embeddings[index] }))
+      );
+      reembedded += pending.length;
+      options.onProgress?.(reembedded, total);
+    }
+
+    const durationMs = Date.now() - startTime;
+    console.log(`[RAG] Re-embedded ${reembedded} chunks with ${modelId} in ${durationMs}ms`);
+    return { reembedded, from, to: modelId, durationMs };
+  }
+
   /**
    * 全データをクリア
    */
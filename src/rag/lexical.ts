@@ -0,0 +1,74 @@
+/**
+ * RAG Lexical Segmentation Module
+ *
+ * FTS5 (BM25) 用の日本語対応トークン化
+ * wakachigaki の単語分割に、漢字・カタカナ連続部の文字バイグラムを重ねる
+ *
+ * 意味の近さだけでは拾えない、言葉そのものの一致を捉える
+ */
+
+import { tokenize as wakachigakiTokenize } from 'wakachigaki';
+
+/**
+ * 検索語として意味の薄い機能語
+ */
+const STOPWORDS = new Set([
+  'について', 'として', 'による', 'により', 'ため', 'こと', 'もの', 'よう', 'これ', 'それ',
+  'あれ', 'この', 'その', 'あの', 'ここ', 'そこ', 'する', 'した', 'して', 'され', 'いる',
+  'ある', 'なる', 'ない', 'です', 'ます', 'でし', 'まし', 'から', 'まで', 'など', 'では',
+  'には', 'とは', 'the', 'and', 'for', 'with', 'that', 'this', 'are', 'was', 'is', 'of',
+  'to', 'in', 'on', 'a', 'an',
+]);
+
+const SYMBOL_ONLY = /^[\s\p{P}\p{S}]+$/u;
+const SINGLE_KANA = /^[\p{Script=Hiragana}ー]$/u;
+const CJK_RUN = /[\p{Script=Han}\p{Script=Katakana}ー]{2,}/gu;
+
+/**
+ * 検索・索引用にテキストを語に分割
+ *
+ * - NFKC 正規化・小文字化
+ * - wakachigaki による単語分割（記号・一文字の平仮名・機能語は除外）
+ * - 漢字・カタカナの連続部は文字バイグラムも加える（複合語の分割揺れ対策）
+ */
+export function segmentForSearch(text: string): string[] {
+  if (!text) return [];
+  const normalized = text.normalize('NFKC').toLowerCase();
+
+  let words: string[];
+  try {
+    words = wakachigakiTokenize(normalized);
+  } catch {
+    words = normalized.split(/\s+/);
+  }
+
+  const terms = words
+    .map((word) => word.trim())
+    .filter((word) => word.length > 0 && !SYMBOL_ONLY.test(word) && !SINGLE_KANA.test(word) && !STOPWORDS.has(word));
+
+  for (const run of normalized.match(CJK_RUN) ?? []) {
+    const chars = Array.from(run);
+    if (chars.length < 3) continue; // 2文字の語は単語側で拾える
+    for (let i = 0; i < chars.length - 1; i++) {
+      terms.push(chars[i] + chars[i + 1]);
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * FTS5 テーブルに格納する文字列（空白区切りの語列）
+ */
+export function toIndexText(text: string): string {
+  return segmentForSearch(text).join(' ');
+}
+
+/**
+ * クエリから FTS5 MATCH 式を組み立てる（語の OR、該当語がなければ null）
+ */
+export function buildMatchQuery(query: string): string | null {
+  const terms = Array.from(new Set(segmentForSearch(query)));
+  if (terms.length === 0) return null;
+  return terms.map((term) => `"${term.replace(/"/g, '""')}"`).join(' OR ');
+}
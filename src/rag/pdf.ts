@@ -0,0 +1,544 @@
+/**
+ * RAG PDF Text Extraction Module
+ *
+ * 外部ライブラリを使わない最小限の PDF テキスト抽出
+ * - FlateDecode のストリームと圧縮オブジェクトストリーム（ObjStm）を展開
+ * - ページツリーの順に、コンテンツストリームのテキスト演算子を読む
+ * - フォントに ToUnicode CMap があれば文字コードを Unicode に変換（日本語の CID フォント対応）
+ *
+ * 暗号化された PDF と、文字を持たない画像だけの PDF（スキャン）からは取り出せない
+ */
+
+import * as zlib from 'zlib';
+
+/** 1 ストリームあたりの展開後サイズの上限（圧縮爆弾対策、超えたストリームは読まない） */
+export const MAX_PDF_STREAM_SIZE = 64 * 1024 * 1024;
+
+/**
+ * 抽出したページ
+ */
+export interface PdfPage {
+  /** 1始まりのページ番号 */
+  pageNumber: number;
+  text: string;
+}
+
+/**
+ * 抽出結果
+ */
+export interface PdfDocument {
+  title?: string;
+  author?: string;
+  pages: PdfPage[];
+}
+
+interface PdfObject {
+  dict: string;
+  stream?: Buffer;
+}
+
+/**
+ * 文字コード → Unicode の対応（ToUnicode CMap）
+ */
+interface ToUnicodeMap {
+  codeBytes: number;
+  map: Map<number, string>;
+}
+
+type Token =
+  | { kind: 'num'; value: number }
+  | { kind: 'str'; bytes: Buffer }
+  | { kind: 'name'; value: string }
+  | { kind: 'op'; value: string }
+  | { kind: 'open' }
+  | { kind: 'close' }
+  | { kind: 'array'; items: Token[] };
+
+const DELIMITER = /[\s()<>[\]{}/%]/;
+
+/**
+ * PDF からページごとのテキストを取り出す
+ */
+export function extractPdfText(buffer: Buffer, maxStreamSize: number = MAX_PDF_STREAM_SIZE): PdfDocument {
+  const source = buffer.toString('latin1');
+  if (!source.startsWith('%PDF-')) {
+    throw new Error('Not a PDF file');
+  }
+  if (/\/Encrypt\s+\d+\s+\d+\s+R/.test(source)) {
+    throw new Error('Encrypted PDF is not supported');
+  }
+
+  const objects = parseObjects(source, maxStreamSize);
+  const document: PdfDocument = { pages: [] };
+
+  const infoRef = source.match(/\/Info\s+(\d+)\s+\d+\s+R/);
+  const info = infoRef ? objects.get(Number(infoRef[1])) : undefined;
+  if (info) {
+    document.title = readInfoString(info.dict, 'Title');
+    document.author = readInfoString(info.dict, 'Author');
+  }
+
+  const fontCache = new Map<number, ToUnicodeMap | null>();
+  collectPages(objects).forEach((pageNum, index) => {
+    const page = objects.get(pageNum)!;
+    const fonts = resolvePageFonts(objects, page, fontCache);
+    const content = getRefs(page.dict, 'Contents')
+      .map((ref) => objects.get(ref)?.stream?.toString('latin1') ?? '')
+      .join('\n');
+    const text = normalizeText(extractContentText(content, fonts));
+    document.pages.push({ pageNumber: index + 1, text });
+  });
+
+  return document;
+}
+
+/**
+ * "N G obj ... endobj" を読み、ObjStm に格納されたオブジェクトも展開する
+ */
+function parseObjects(source: string, maxStreamSize: number): Map<number, PdfObject> {
+  const objects = new Map<number, PdfObject>();
+  const pattern = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source))) {
+    const num = Number(match[1]);
+    const start = match.index + match[0].length;
+    const endobj = source.indexOf('endobj', start);
+    const streamMatch = /\bstream\r?\n/.exec(source.slice(start, endobj === -1 ? undefined : endobj));
+
+    if (!streamMatch) {
+      if (endobj === -1) break;
+      objects.set(num, { dict: source.slice(start, endobj) });
+      pattern.lastIndex = endobj + 6;
+      continue;
+    }
+
+    const dict = source.slice(start, start + streamMatch.index);
+    const dataStart = start + streamMatch.index + streamMatch[0].length;
+    const length = dict.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+    let dataEnd = length ? dataStart + Number(length[1]) : -1;
+    if (dataEnd < 0 || source.slice(dataEnd, dataEnd + 12).trimStart().slice(0, 9) !== 'endstream') {
+      dataEnd = source.indexOf('endstream', dataStart);
+      if (dataEnd === -1) break;
+      if (source[dataEnd - 1] === '\n') dataEnd--;
+      if (source[dataEnd - 1] === '\r') dataEnd--;
+    }
+
+    objects.set(num, { dict, stream: decodeStream(dict, Buffer.from(source.slice(dataStart, dataEnd), 'latin1'), maxStreamSize) });
+    const next = source.indexOf('endobj', dataEnd);
+    pattern.lastIndex = next === -1 ? dataEnd : next + 6;
+  }
+
+  // PDF 1.5 以降の圧縮オブジェクトストリーム
+  for (const object of [...objects.values()]) {
+    if (!/\/Type\s*\/ObjStm\b/.test(object.dict) || !object.stream) continue;
+    const count = Number(object.dict.match(/\/N\s+(\d+)/)?.[1] ?? 0);
+    const first = Number(object.dict.match(/\/First\s+(\d+)/)?.[1] ?? 0);
+    const content = object.stream.toString('latin1');
+    const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+
+    for (let i = 0; i < count; i++) {
+      const num = header[i * 2];
+      const offset = first + header[i * 2 + 1];
+      const end = i + 1 < count ? first + header[(i + 1) * 2 + 1] : content.length;
+      if (!objects.has(num)) {
+        objects.set(num, { dict: content.slice(offset, end) });
+      }
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * ストリームを展開（FlateDecode 以外のフィルタ付きは画像などなので読まない）
+ * 上限を超えて展開されるストリームも読まない
+ */
+function decodeStream(dict: string, data: Buffer, maxStreamSize: number): Buffer | undefined {
+  const filter = dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1];
+  if (!filter) return data;
+
+  const filters = filter.match(/\/\w+/g) ?? [];
+  if (filters.length !== 1 || filters[0] !== '/FlateDecode') return undefined;
+  try {
+    return zlib.inflateSync(data, { maxOutputLength: maxStreamSize });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      console.warn(`[RAG] Skipping PDF stream that inflates beyond ${maxStreamSize} bytes`);
+    }
+    return undefined;
+  }
+}
+
+function getRef(dict: string, key: string): number | null {
+  const match = dict.match(new RegExp(`/${key}\\s+(\\d+)\\s+\\d+\\s+R`));
+  return match ? Number(match[1]) : null;
+}
+
+function getRefs(dict: string, key: string): number[] {
+  const array = dict.match(new RegExp(`/${key}\\s*\\[([^\\]]*)\\]`));
+  const text = array ? array[1] : dict.match(new RegExp(`/${key}\\s+(\\d+\\s+\\d+\\s+R)`))?.[1] ?? '';
+  return [...text.matchAll(/(\d+)\s+\d+\s+R/g)].map((match) => Number(match[1]));
+}
+
+/**
+ * ページツリーを辿ってページ順のオブジェクト番号を返す（壊れていれば出現順）
+ */
+function collectPages(objects: Map<number, PdfObject>): number[] {
+  const pages: number[] = [];
+  const catalog = [...objects.values()].find((object) => /\/Type\s*\/Catalog\b/.test(object.dict));
+  const visited = new Set<number>();
+
+  const visit = (num: number) => {
+    const object = objects.get(num);
+    if (!object || visited.has(num)) return;
+    visited.add(num);
+    if (/\/Type\s*\/Pages\b/.test(object.dict)) {
+      getRefs(object.dict, 'Kids').forEach(visit);
+    } else if (/\/Type\s*\/Page\b/.test(object.dict)) {
+      pages.push(num);
+    }
+  };
+
+  const root = catalog ? getRef(catalog.dict, 'Pages') : null;
+  if (root !== null) visit(root);
+
+  if (pages.length === 0) {
+    for (const [num, object] of objects) {
+      if (/\/Type\s*\/Page\b/.test(object.dict)) pages.push(num);
+    }
+  }
+  return pages;
+}
+
+/**
+ * ページ（または継承元の Pages）のリソースからフォント名 → ToUnicode を引く
+ */
+function resolvePageFonts(
+  objects: Map<number, PdfObject>,
+  page: PdfObject,
+  cache: Map<number, ToUnicodeMap | null>
+): Map<string, ToUnicodeMap> {
+  const fonts = new Map<string, ToUnicodeMap>();
+  let node: PdfObject | undefined = page;
+
+  for (let depth = 0; node && depth < 32; depth++) {
+    const resourcesRef = getRef(node.dict, 'Resources');
+    const resources = resourcesRef !== null ? objects.get(resourcesRef)?.dict : node.dict.includes('/Resources') ? node.dict : undefined;
+    if (resources) {
+      const fontRef = getRef(resources, 'Font');
+      const fontDict = fontRef !== null ? objects.get(fontRef)?.dict : resources.match(/\/Font\s*<<([^>]*)>>/)?.[1];
+      for (const [, name, ref] of (fontDict ?? '').matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+        const fontNum = Number(ref);
+        if (!cache.has(fontNum)) {
+          const toUnicode = getRef(objects.get(fontNum)?.dict ?? '', 'ToUnicode');
+          const cmap = toUnicode !== null ? objects.get(toUnicode)?.stream : undefined;
+          cache.set(fontNum, cmap ? parseToUnicode(cmap.toString('latin1')) : null);
+        }
+        const map = cache.get(fontNum);
+        if (map && !fonts.has(name)) fonts.set(name, map);
+      }
+      return fonts;
+    }
+    const parent = getRef(node.dict, 'Parent');
+    node = parent !== null ? objects.get(parent) : undefined;
+  }
+  return fonts;
+}
+
+function hexToUnicode(hex: string): string {
+  if (hex.length <= 2) return String.fromCharCode(parseInt(hex || '0', 16));
+  const units: number[] = [];
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    units.push(parseInt(hex.slice(i, i + 4), 16));
+  }
+  return String.fromCharCode(...units);
+}
+
+/**
+ * ToUnicode CMap（bfchar / bfrange）を読む
+ */
+function parseToUnicode(cmap: string): ToUnicodeMap {
+  const map = new Map<number, string>();
+  const codespace = cmap.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  const codeBytes = codespace ? Math.max(1, codespace[1].length / 2) : 2;
+
+  for (const [, block] of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, code, unicode] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(code, 16), hexToUnicode(unicode));
+    }
+  }
+
+  for (const [, block] of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, lo, hi, target] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const low = parseInt(lo, 16);
+      const high = parseInt(hi, 16);
+      if (high < low || high - low > 0xffff) continue;
+
+      if (target.startsWith('[')) {
+        [...target.matchAll(/<([0-9a-fA-F]*)>/g)].forEach(([, unicode], index) => {
+          map.set(low + index, hexToUnicode(unicode));
+        });
+      } else {
+        const base = hexToUnicode(target.slice(1, -1));
+        const last = base.charCodeAt(base.length - 1);
+        for (let code = low; code <= high; code++) {
+          map.set(code, base.slice(0, -1) + String.fromCharCode(last + code - low));
+        }
+      }
+    }
+  }
+
+  return { codeBytes, map };
+}
+
+/**
+ * 文字列を現在のフォントで Unicode に変換
+ */
+function decodeString(bytes: Buffer, font: ToUnicodeMap | undefined): string {
+  if (font) {
+    let text = '';
+    for (let i = 0; i + font.codeBytes <= bytes.length; i += font.codeBytes) {
+      const code = font.codeBytes === 1 ? bytes[i] : bytes.readUIntBE(i, font.codeBytes);
+      text += font.map.get(code) ?? (font.codeBytes === 1 ? String.fromCharCode(code) : '');
+    }
+    return text;
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    const even = bytes.length - ((bytes.length - 2) % 2);
+    return Buffer.from(bytes.subarray(2, even)).swap16().toString('utf16le');
+  }
+  return bytes.toString('latin1');
+}
+
+/**
+ * リテラル文字列 "(...)" を読む（入れ子の括弧とエスケープに対応）
+ */
+function readLiteral(source: string, start: number): [Buffer, number] {
+  const bytes: number[] = [];
+  let depth = 0;
+  let i = start;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '\\') {
+      const next = source[i + 1];
+      const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, '(': 40, ')': 41, '\\': 92 };
+      if (next in escapes) {
+        bytes.push(escapes[next]);
+        i += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = source.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+        bytes.push(parseInt(octal, 8) & 0xff);
+        i += 1 + octal.length;
+      } else if (next === '\r' || next === '\n') {
+        // 行継続
+        i += next === '\r' && source[i + 2] === '\n' ? 3 : 2;
+      } else {
+        i += 1;
+      }
+      continue;
+    }
+    if (ch === '(') {
+      depth++;
+      if (depth > 1) bytes.push(40);
+    } else if (ch === ')') {
+      depth--;
+      if (depth === 0) return [Buffer.from(bytes), i + 1];
+      bytes.push(41);
+    } else {
+      bytes.push(source.charCodeAt(i) & 0xff);
+    }
+    i++;
+  }
+  return [Buffer.from(bytes), i];
+}
+
+/**
+ * コンテンツストリームの字句解析
+ */
+function* tokenize(source: string): Generator<Token> {
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '%') {
+      while (i < source.length && source[i] !== '\n' && source[i] !== '\r') i++;
+    } else if (ch === '(') {
+      const [bytes, next] = readLiteral(source, i);
+      yield { kind: 'str', bytes };
+      i = next;
+    } else if (ch === '<' && source[i + 1] !== '<') {
+      const end = source.indexOf('>', i);
+      const hex = source.slice(i + 1, end === -1 ? undefined : end).replace(/[^0-9a-fA-F]/g, '');
+      yield { kind: 'str', bytes: Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex') };
+      i = end === -1 ? source.length : end + 1;
+    } else if (ch === '<' || ch === '>') {
+      // 辞書の区切り（マーク付きコンテンツのプロパティなど）は読み飛ばす
+      i += source[i + 1] === ch ? 2 : 1;
+    } else if (ch === '[') {
+      yield { kind: 'open' };
+      i++;
+    } else if (ch === ']') {
+      yield { kind: 'close' };
+      i++;
+    } else if (ch === '/') {
+      let j = i + 1;
+      while (j < source.length && !DELIMITER.test(source[j])) j++;
+      yield { kind: 'name', value: source.slice(i + 1, j) };
+      i = j;
+    } else {
+      let j = i;
+      while (j < source.length && !DELIMITER.test(source[j])) j++;
+      if (j === i) {
+        i++;
+        continue;
+      }
+      const word = source.slice(i, j);
+      i = j;
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+        yield { kind: 'num', value: Number(word) };
+      } else {
+        yield { kind: 'op', value: word };
+        if (word === 'ID') {
+          // インライン画像のバイナリを飛ばす
+          const end = source.slice(i).search(/\sEI\b/);
+          i = end === -1 ? source.length : i + end + 3;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * テキスト演算子（Tj / TJ / ' / "）を読み、行送り（Td / TD / T* / Tm）を改行にする
+ */
+function extractContentText(content: string, fonts: Map<string, ToUnicodeMap>): string {
+  let out = '';
+  let operands: Token[] = [];
+  let array: Token[] | null = null;
+  let font: ToUnicodeMap | undefined;
+  let pendingSpace = false;
+  let lastY: number | null = null;
+
+  const newline = () => {
+    if (out.length > 0 && !out.endsWith('\n')) out += '\n';
+    pendingSpace = false;
+  };
+  const append = (bytes: Buffer) => {
+    const text = decodeString(bytes, font);
+    if (!text) return;
+    // 欧文の単語間の位置移動だけ空白にする（和文の字間には入れない）
+    if (pendingSpace && /[\w,.;:!?)]$/.test(out) && /^[\w(]/.test(text)) out += ' ';
+    pendingSpace = false;
+    out += text;
+  };
+  const lastString = () => {
+    const token = operands[operands.length - 1];
+    return token?.kind === 'str' ? token.bytes : null;
+  };
+  const number = (index: number) => {
+    const token = operands[index];
+    return token?.kind === 'num' ? token.value : 0;
+  };
+
+  for (const token of tokenize(content)) {
+    if (token.kind === 'open') {
+      array = [];
+      continue;
+    }
+    if (token.kind === 'close') {
+      operands.push({ kind: 'array', items: array ?? [] });
+      array = null;
+      continue;
+    }
+    if (array) {
+      array.push(token);
+      continue;
+    }
+    if (token.kind !== 'op') {
+      operands.push(token);
+      continue;
+    }
+
+    switch (token.value) {
+      case 'Tf': {
+        const name = operands.find((operand) => operand.kind === 'name');
+        font = name?.kind === 'name' ? fonts.get(name.value) : undefined;
+        break;
+      }
+      case 'Tj': {
+        const bytes = lastString();
+        if (bytes) append(bytes);
+        break;
+      }
+      case "'":
+      case '"': {
+        newline();
+        const bytes = lastString();
+        if (bytes) append(bytes);
+        break;
+      }
+      case 'TJ': {
+        const items = operands[operands.length - 1];
+        if (items?.kind === 'array') {
+          for (const item of items.items) {
+            if (item.kind === 'str') append(item.bytes);
+            else if (item.kind === 'num' && item.value < -250) pendingSpace = true;
+          }
+        }
+        break;
+      }
+      case 'Td':
+      case 'TD':
+        if (number(1) !== 0) newline();
+        else if (number(0) > 0) pendingSpace = true;
+        break;
+      case 'Tm': {
+        const y = number(5);
+        if (lastY !== null && y !== lastY) newline();
+        else pendingSpace = true;
+        lastY = y;
+        break;
+      }
+      case 'T*':
+        newline();
+        break;
+      case 'BT':
+        lastY = null;
+        break;
+    }
+    operands = [];
+  }
+
+  return out;
+}
+
+function normalizeText(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * 文書情報辞書の文字列を読む（UTF-16BE の BOM 付きにも対応）
+ */
+function readInfoString(dict: string, key: string): string | undefined {
+  const index = dict.search(new RegExp(`/${key}\\s*[(<]`));
+  if (index === -1) return undefined;
+
+  const start = dict.indexOf(key, index) + key.length;
+  const open = dict.slice(start).search(/[(<]/) + start;
+  let bytes: Buffer;
+  if (dict[open] === '(') {
+    bytes = readLiteral(dict, open)[0];
+  } else {
+    const end = dict.indexOf('>', open);
+    bytes = Buffer.from(dict.slice(open + 1, end).replace(/[^0-9a-fA-F]/g, ''), 'hex');
+  }
+  const value = decodeString(bytes, undefined).trim();
+  return value || undefined;
+}
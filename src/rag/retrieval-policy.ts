@@ -0,0 +1,141 @@
+/**
+ * RAG Retrieval Policy Module
+ *
+ * 検索候補から最終結果を選び直す
+ * - ソースタイプ別の件数割当と self の上限割合
+ * - self・対話など時間とともに古びる記憶の鮮度減衰
+ * - MMR（Maximal Marginal Relevance）による多様化
+ *
+ * 自分の言葉ばかりを読み返す意識は、やがて自分の声しか聞こえなくなる
+ */
+
+import { RetrievalPolicyConfig, SearchResult, SourceType } from './types.js';
+import { cosineSimilarity } from './vectordb.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ポリシー適用の結果
+ */
+export interface RetrievalPolicyOutcome {
+  results: SearchResult[];
+  /** self 上限で外された候補数 */
+  selfCapped: number;
+  /** ソースタイプ別の割当で外された候補数 */
+  quotaCapped: number;
+}
+
+/**
+ * 結果の日時（metadata.date を優先し、無ければ格納日時）
+ */
+function getResultTime(result: SearchResult): number | null {
+  const raw = result.metadata.date ?? result.createdAt;
+  if (!raw) return null;
+
+  // SQLite の CURRENT_TIMESTAMP は UTC の "YYYY-MM-DD HH:MM:SS"
+  const normalized = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(raw) ? `${raw.replace(' ', 'T')}Z` : raw;
+  const time = Date.parse(normalized);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * self の1クエリあたり上限件数（上限割合が 0 より大きければ最低1件は許す）
+ */
+export function getSelfLimit(policy: RetrievalPolicyConfig, topK: number): number {
+  if (policy.selfMaxShare >= 1) return topK;
+  if (policy.selfMaxShare <= 0) return 0;
+  return Math.max(1, Math.floor(policy.selfMaxShare * topK));
+}
+
+/**
+ * 候補に検索ポリシーを適用して topK 件を選ぶ
+ *
+ * 関連度（融合スコア、無ければ類似度）を最大値で正規化し、鮮度で重み付けしたうえで
+ * λ·関連度 − (1−λ)·選択済みとの最大類似度 が最大の候補を順に選ぶ。
+ * 埋め込みが無い候補同士の類似度は 0 とみなす。exemptTypes のタイプは割当・上限の対象外
+ */
+export function applyRetrievalPolicy(
+  candidates: SearchResult[],
+  options: {
+    topK: number;
+    policy: RetrievalPolicyConfig;
+    embeddings?: Map<number, Float32Array>;
+    exemptTypes?: SourceType[];
+    now?: number;
+  }
+): RetrievalPolicyOutcome {
+  const { topK, policy, embeddings, exemptTypes = [], now = Date.now() } = options;
+  const outcome: RetrievalPolicyOutcome = { results: [], selfCapped: 0, quotaCapped: 0 };
+  if (candidates.length === 0 || topK <= 0) return outcome;
+
+  const rawScore = (result: SearchResult) => result.ranking?.fusedScore || result.similarity;
+  const maxScore = Math.max(...candidates.map(rawScore));
+  const recencyTypes = new Set<SourceType>(policy.recencySourceTypes);
+
+  const scored = candidates.map((result) => {
+    let score = maxScore > 0 ? rawScore(result) / maxScore : 0;
+    if (policy.recencyHalfLifeDays > 0 && policy.recencyWeight > 0 && recencyTypes.has(result.sourceType)) {
+      const time = getResultTime(result);
+      if (time !== null) {
+        const ageDays = Math.max(0, now - time) / DAY_MS;
+        const decay = Math.pow(0.5, ageDays / policy.recencyHalfLifeDays);
+        score *= 1 - policy.recencyWeight + policy.recencyWeight * decay;
+      }
+    }
+    const embedding = result.id !== undefined ? embeddings?.get(result.id) : undefined;
+    return { result, score, embedding };
+  });
+
+  const exempt = new Set<SourceType>(exemptTypes);
+  const limits = new Map<SourceType, number>();
+  for (const [type, quota] of Object.entries(policy.sourceTypeQuotas)) {
+    if (quota !== undefined) limits.set(type as SourceType, quota);
+  }
+  const selfLimit = getSelfLimit(policy, topK);
+  limits.set('self', Math.min(limits.get('self') ?? selfLimit, selfLimit));
+
+  const counts = new Map<SourceType, number>();
+  const selected: typeof scored = [];
+  let remaining = scored;
+
+  while (selected.length < topK && remaining.length > 0) {
+    // 割当に達したタイプの候補を外す
+    remaining = remaining.filter((candidate) => {
+      const type = candidate.result.sourceType;
+      const limit = exempt.has(type) ? undefined : limits.get(type);
+      if (limit === undefined || (counts.get(type) ?? 0) < limit) return true;
+      if (type === 'self' && limit === selfLimit) {
+        outcome.selfCapped++;
+      } else {
+        outcome.quotaCapped++;
+      }
+      return false;
+    });
+    if (remaining.length === 0) break;
+
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+    remaining.forEach((candidate, index) => {
+      let redundancy = 0;
+      if (candidate.embedding) {
+        for (const chosen of selected) {
+          if (chosen.embedding && chosen.embedding.length === candidate.embedding.length) {
+            redundancy = Math.max(redundancy, cosineSimilarity(candidate.embedding, chosen.embedding));
+          }
+        }
+      }
+      const value = policy.mmrLambda * candidate.score - (1 - policy.mmrLambda) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+
+    const [chosen] = remaining.splice(bestIndex, 1);
+    selected.push(chosen);
+    counts.set(chosen.result.sourceType, (counts.get(chosen.result.sourceType) ?? 0) + 1);
+  }
+
+  outcome.results = selected.map((candidate) => candidate.result);
+  return outcome;
+}
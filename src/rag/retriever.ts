@@ -8,9 +8,79 @@
  */
 
 import { Embedder, createEmbedder } from './embedder.js';
-import { VectorDBManager, createVectorDBManager } from './vectordb.js';
-import { SearchOptions, SearchResult, SourceType } from './types.js';
-import { loadRAGConfig } from './config.js';
+import { VectorDBManager, createVectorDBManager, applyResultLimits } from './vectordb.js';
+import {
+  HybridSearchConfig,
+  RAGConfig,
+  RAGConfigOverrides,
+  RAGContextResult,
+  RAGSourceReference,
+  SearchOptions,
+  SearchMode,
+  SearchResult,
+  SourceType,
+} from './types.js';
+import { loadRAGConfig, mergeRAGConfig } from './config.js';
+import { applyRetrievalPolicy } from './retrieval-policy.js';
+
+/** 融合前に各検索から取り出す候補数（topK の倍数） */
+const HYBRID_CANDIDATE_MULTIPLIER = 4;
+
+/** 検索ポリシーで選び直す候補数（topK の倍数） */
+const POLICY_CANDIDATE_MULTIPLIER = 4;
+
+/**
+ * 検索結果を出典（チャンクID・類似度・ソース）に変換する。rank は結果の並び順
+ */
+export function toSourceReferences(results: SearchResult[]): RAGSourceReference[] {
+  return results.map((result, index) => ({
+    chunkId: result.id ?? null,
+    similarity: result.similarity,
+    sourceType: result.sourceType,
+    sourceFile: result.sourceFile,
+    title: result.metadata.title,
+    rank: index + 1,
+  }));
+}
+
+/**
+ * Reciprocal Rank Fusion
+ *
+ * 各ランキングでの順位 r に対し weight / (k + r) を合算し、合計の降順に並べる。
+ * 同じチャンクは id（無ければ内容）で同一視する
+ */
+export function fuseRankings(
+  rankings: Array<{ results: SearchResult[]; weight: number; kind: 'vector' | 'lexical' }>,
+  k: number
+): SearchResult[] {
+  const fused = new Map<string | number, SearchResult>();
+
+  for (const { results, weight, kind } of rankings) {
+    if (weight <= 0) continue;
+    results.forEach((result, index) => {
+      const key = result.id ?? result.content;
+      const rank = index + 1;
+      const existing = fused.get(key);
+      const entry: SearchResult = existing ?? {
+        ...result,
+        ranking: { fusedScore: 0 },
+      };
+
+      entry.ranking!.fusedScore += weight / (k + rank);
+      if (kind === 'vector') {
+        entry.ranking!.vectorRank = rank;
+      } else {
+        entry.ranking!.lexicalRank = rank;
+        entry.ranking!.bm25 = result.ranking?.bm25;
+      }
+      fused.set(key, entry);
+    });
+  }
+
+  return Array.from(fused.values()).sort(
+    (a, b) => b.ranking!.fusedScore - a.ranking!.fusedScore || b.similarity - a.similarity
+  );
+}
 
 /**
  * リトリーバークラス
@@ -20,33 +90,68 @@ import { loadRAGConfig } from './config.js';
 export class Retriever {
   private embedder: Embedder;
   private vectordb: VectorDBManager;
+  private warnedMismatch: string | null = null;
+  private configOverrides?: RAGConfigOverrides;
 
-  constructor(embedder?: Embedder, vectordb?: VectorDBManager) {
+  /**
+   * @param configOverrides 環境変数の設定に重ねる上書き（評価で設定を切り替えるときに使う）
+   */
+  constructor(embedder?: Embedder, vectordb?: VectorDBManager, configOverrides?: RAGConfigOverrides) {
     this.embedder = embedder || createEmbedder();
     this.vectordb = vectordb || createVectorDBManager();
+    this.configOverrides = configOverrides;
+  }
+
+  private loadConfig(): RAGConfig {
+    return mergeRAGConfig(loadRAGConfig(), this.configOverrides);
   }
 
   /**
    * クエリに関連するドキュメントを検索
+   *
+   * 検索ポリシーが有効なら候補を多めに取り、割当・鮮度・多様性で選び直す
    */
   async search(
     query: string,
     options?: SearchOptions
   ): Promise<SearchResult[]> {
-    const config = loadRAGConfig();
+    const config = this.loadConfig();
     const finalOptions: SearchOptions = {
       topK: config.topK,
       similarityThreshold: config.similarityThreshold,
       ...options,
     };
 
+    const mode = finalOptions.mode ?? (config.hybrid.enabled ? 'hybrid' : 'vector');
+    const usePolicy = finalOptions.policy ?? config.policy.enabled;
+
     try {
-      // クエリを埋め込みベクトルに変換
-      const queryEmbedding = await this.embedder.embed(query);
+      if (!usePolicy) {
+        const results = await this.searchByMode(query, mode, finalOptions, config.hybrid);
+        this.vectordb.recordRetrieval(results.map((result) => result.sourceType));
+        return results;
+      }
 
-      // ベクトルDBで類似検索
-      const results = this.vectordb.searchSimilar(queryEmbedding, finalOptions);
+      const topK = finalOptions.topK ?? 5;
+      const candidates = await this.searchByMode(
+        query,
+        mode,
+        { ...finalOptions, topK: topK * POLICY_CANDIDATE_MULTIPLIER, maxTokens: undefined },
+        config.hybrid
+      );
 
+      // 単一のソースタイプを明示した検索では、そのタイプの割当・上限は適用しない
+      const exemptTypes = finalOptions.sourceTypes?.length === 1 ? finalOptions.sourceTypes : [];
+      const ids = candidates.flatMap((result) => (result.id !== undefined ? [result.id] : []));
+      const outcome = applyRetrievalPolicy(candidates, {
+        topK,
+        policy: config.policy,
+        embeddings: config.policy.mmrLambda < 1 ? this.vectordb.getEmbeddingsByIds(ids) : undefined,
+        exemptTypes,
+      });
+
+      const results = applyResultLimits(outcome.results, topK, finalOptions.maxTokens);
+      this.vectordb.recordRetrieval(results.map((result) => result.sourceType), outcome.selfCapped);
       return results;
     } catch (error) {
       console.error('[RAG] Search failed:', error);
@@ -54,6 +159,77 @@ export class Retriever {
     }
   }
 
+  /**
+   * 検索モードに応じて候補を取得（ポリシー適用前）
+   */
+  private async searchByMode(
+    query: string,
+    mode: SearchMode,
+    options: SearchOptions,
+    hybrid: HybridSearchConfig
+  ): Promise<SearchResult[]> {
+    if (mode === 'lexical') {
+      return this.vectordb.searchLexical(query, options);
+    }
+
+    // クエリを埋め込みベクトルに変換
+    const queryEmbedding = await this.embedder.embed(query);
+
+    // 別モデルの埋め込みとは比較できない。ハイブリッドなら語彙検索だけでも返す
+    const mismatch = this.vectordb.getEmbeddingMismatch(this.embedder.getModelId(), queryEmbedding.length);
+    if (mismatch) {
+      if (this.warnedMismatch !== mismatch) {
+        console.warn(`[RAG] ${mismatch}`);
+        this.warnedMismatch = mismatch;
+      }
+      return mode === 'hybrid' ? this.vectordb.searchLexical(query, options) : [];
+    }
+
+    if (mode === 'hybrid') {
+      return this.searchHybrid(query, queryEmbedding, options, hybrid);
+    }
+
+    // ベクトルDBで類似検索
+    return this.vectordb.searchSimilar(queryEmbedding, options);
+  }
+
+  /**
+   * ベクトル検索と語彙検索の順位を RRF で統合
+   *
+   * 類似度の閾値はベクトル側の候補に適用する。語彙側だけの候補は言葉の一致を根拠に加えるが、
+   * クエリとの類似度が lexicalMinSimilarity（閾値の方が低ければ閾値）未満のもの
+   * （語が一致しただけの無関係な文書）は落とす
+   */
+  private searchHybrid(
+    query: string,
+    queryEmbedding: Float32Array,
+    options: SearchOptions,
+    hybrid: HybridSearchConfig
+  ): SearchResult[] {
+    const topK = options.topK ?? 5;
+    const candidateOptions: SearchOptions = {
+      ...options,
+      topK: topK * HYBRID_CANDIDATE_MULTIPLIER,
+      maxTokens: undefined,
+    };
+
+    const vectorResults = this.vectordb.searchSimilar(queryEmbedding, candidateOptions);
+    const lexicalFloor = Math.min(hybrid.lexicalMinSimilarity, options.similarityThreshold ?? 0);
+    const lexicalResults = this.vectordb
+      .searchLexical(query, candidateOptions, queryEmbedding)
+      .filter((result) => result.similarity >= lexicalFloor);
+
+    const fused = fuseRankings(
+      [
+        { results: vectorResults, weight: hybrid.vectorWeight, kind: 'vector' },
+        { results: lexicalResults, weight: hybrid.lexicalWeight, kind: 'lexical' },
+      ],
+      hybrid.rrfK
+    );
+
+    return applyResultLimits(fused, topK, options.maxTokens);
+  }
+
   /**
    * 検索結果をLLMプロンプト用のコンテキスト文字列に変換
    */
@@ -61,7 +237,17 @@ export class Retriever {
     query: string,
     maxTokens?: number
   ): Promise<string> {
-    const config = loadRAGConfig();
+    return (await this.retrieveContext(query, maxTokens)).context;
+  }
+
+  /**
+   * コンテキスト文字列と、その根拠になったチャンクの出典を返す
+   */
+  async retrieveContext(
+    query: string,
+    maxTokens?: number
+  ): Promise<RAGContextResult> {
+    const config = this.loadConfig();
     const results = await this.search(query, {
       topK: config.topK,
       similarityThreshold: config.similarityThreshold,
@@ -69,17 +255,23 @@ export class Retriever {
     });
 
     if (results.length === 0) {
-      return '';
+      return { context: '', sources: [] };
     }
 
     // 結果を整形
     const contextParts = results.map((result, index) => {
-      const source = result.metadata.title || result.sourceFile || 'unknown';
+      const { title, chapter, section, page } = result.metadata;
+      const location = [title || result.sourceFile || 'unknown', chapter, section, page !== undefined ? `p.${page}` : undefined]
+        .filter((part) => part !== undefined && part !== '')
+        .join(' / ');
       const type = result.sourceType;
-      return `[${index + 1}] (${type}: ${source})\n${result.content}`;
+      return `[${index + 1}] (${type}: ${location})\n${result.content}`;
     });
 
-    return contextParts.join('\n\n---\n\n');
+    return {
+      context: contextParts.join('\n\n---\n\n'),
+      sources: toSourceReferences(results),
+    };
   }
 
   /**
@@ -110,7 +302,7 @@ export class Retriever {
     // 類似度でソートして上位を返す
     allResults.sort((a, b) => b.similarity - a.similarity);
 
-    const config = loadRAGConfig();
+    const config = this.loadConfig();
     const topK = options?.topK || config.topK;
     return allResults.slice(0, topK);
   }
@@ -196,7 +388,8 @@ export class Retriever {
  */
 export function createRetriever(
   embedder?: Embedder,
-  vectordb?: VectorDBManager
+  vectordb?: VectorDBManager,
+  configOverrides?: RAGConfigOverrides
 ): Retriever {
-  return new Retriever(embedder, vectordb);
+  return new Retriever(embedder, vectordb, configOverrides);
 }
@@ -16,6 +16,8 @@ export interface VectorChunk {
   content: string;
   embedding: Float32Array;
   embeddingDim: number;
+  /** 埋め込みを生成したモデル（provider:model） */
+  embeddingModel?: string;
   metadata: ChunkMetadata;
   sourceFile: string;
   sourceType: SourceType;
@@ -43,6 +45,16 @@ export interface ChunkMetadata {
   category?: string;
   sessionId?: string;
   agentName?: string;
+  /** 取り込み元のファイル形式 */
+  format?: DocumentFormat;
+  /** 章（EPUB の目次、Markdown / HTML の見出し1） */
+  chapter?: string;
+  /** 節（見出し2以下） */
+  section?: string;
+  /** PDF のページ番号（1始まり） */
+  page?: number;
+  /** 発話者（対話トランスクリプト） */
+  speaker?: string;
   [key: string]: string | number | boolean | undefined;
 }
 
@@ -50,6 +62,14 @@ export interface ChunkMetadata {
 // Search Types
 // ============================================================================
 
+/**
+ * 検索モード
+ * - vector: 埋め込みの類似度のみ
+ * - lexical: FTS5 (BM25) のみ
+ * - hybrid: 両者の順位を Reciprocal Rank Fusion で統合
+ */
+export type SearchMode = 'vector' | 'lexical' | 'hybrid';
+
 /**
  * 検索オプション
  */
@@ -62,18 +82,63 @@ export interface SearchOptions {
   sourceTypes?: SourceType[];
   /** 結果の最大トークン数 */
   maxTokens?: number;
+  /** ANNインデックスを使わず全件走査する */
+  exact?: boolean;
+  /** 検索モード (default: RAG_HYBRID_ENABLED に従う) */
+  mode?: SearchMode;
+  /** 検索ポリシー（割当・鮮度・多様化・self 上限）を適用するか (default: RAG_POLICY_ENABLED に従う) */
+  policy?: boolean;
 }
 
 /**
  * 検索結果
  */
 export interface SearchResult {
+  /** vector_chunks の行ID */
+  id?: number;
   content: string;
   similarity: number;
   metadata: ChunkMetadata;
   sourceFile: string;
   sourceType: SourceType;
   tokenCount?: number;
+  /** チャンクの格納日時 */
+  createdAt?: string;
+  /** ハイブリッド検索での順位の内訳 */
+  ranking?: SearchRanking;
+}
+
+/**
+ * 順位の内訳（順位は1始まり、その検索で候補に入らなかった場合は undefined）
+ */
+export interface SearchRanking {
+  fusedScore: number;
+  vectorRank?: number;
+  lexicalRank?: number;
+  /** BM25スコア（大きいほど一致が強い） */
+  bm25?: number;
+}
+
+/**
+ * 思考・対話が根拠にしたチャンクの出典（本文は持たない）
+ */
+export interface RAGSourceReference {
+  /** vector_chunks の行ID（再取り込みで消えることがある） */
+  chunkId: number | null;
+  similarity: number;
+  sourceType: SourceType;
+  sourceFile: string;
+  title?: string;
+  /** プロンプト内での並び順（1始まり） */
+  rank: number;
+}
+
+/**
+ * プロンプト用コンテキストとその出典
+ */
+export interface RAGContextResult {
+  context: string;
+  sources: RAGSourceReference[];
 }
 
 // ============================================================================
@@ -86,6 +151,10 @@ export interface SearchResult {
 export interface RAGConfig {
   /** RAG機能の有効/無効 */
   enabled: boolean;
+  /** 埋め込みプロバイダ (default: ollama) */
+  embeddingProvider: EmbeddingProvider;
+  /** ローカル埋め込みの次元 */
+  localEmbeddingDimension: number;
   /** 埋め込みモデル名 (default: nomic-embed-text) */
   embeddingModel: string;
   /** Ollama APIのベースURL */
@@ -102,6 +171,85 @@ export interface RAGConfig {
   similarityThreshold: number;
   /** 知識ベースディレクトリ */
   knowledgeDirs: string[];
+  /** ANN（HNSW）インデックスの設定 */
+  annIndex: ANNIndexConfig;
+  /** ハイブリッド検索の設定 */
+  hybrid: HybridSearchConfig;
+  /** 検索ポリシー（自己参照の抑制と多様化） */
+  policy: RetrievalPolicyConfig;
+  /** 知識ディレクトリの監視設定 */
+  watch: KnowledgeWatchConfig;
+}
+
+/**
+ * 設定の部分上書き（ハイブリッド検索・検索ポリシーは項目単位で上書きできる）
+ */
+export type RAGConfigOverrides = Partial<Omit<RAGConfig, 'annIndex' | 'hybrid' | 'policy' | 'watch'>> & {
+  annIndex?: Partial<ANNIndexConfig>;
+  hybrid?: Partial<HybridSearchConfig>;
+  policy?: Partial<RetrievalPolicyConfig>;
+  watch?: Partial<KnowledgeWatchConfig>;
+};
+
+/**
+ * 知識ディレクトリ監視設定
+ */
+export interface KnowledgeWatchConfig {
+  /** サーバー起動時に監視を開始するか */
+  enabled: boolean;
+  /** 同じファイルへの連続した変更をまとめる待ち時間（ミリ秒） */
+  debounceMs: number;
+}
+
+/**
+ * 検索ポリシー設定
+ *
+ * self チャンク（エイネア自身の思考・信念）が検索結果を占有して自己反響に陥らないよう、
+ * 候補を多めに取ってから割当・鮮度・多様性で選び直す
+ */
+export interface RetrievalPolicyConfig {
+  /** ポリシーの有効/無効（無効時は検索順位をそのまま返す） */
+  enabled: boolean;
+  /** 1クエリの結果に占める self の上限割合（0-1） */
+  selfMaxShare: number;
+  /** ソースタイプ別の1クエリあたり最大件数 */
+  sourceTypeQuotas: Partial<Record<SourceType, number>>;
+  /** 鮮度減衰の半減期（日、0 で減衰なし） */
+  recencyHalfLifeDays: number;
+  /** 関連度に対する鮮度の重み（0-1） */
+  recencyWeight: number;
+  /** 鮮度減衰を適用するソースタイプ */
+  recencySourceTypes: SourceType[];
+  /** MMR の関連度重み λ（1 で多様化なし） */
+  mmrLambda: number;
+}
+
+/**
+ * ハイブリッド検索設定
+ */
+export interface HybridSearchConfig {
+  /** ハイブリッド検索の有効/無効（無効時はベクトル検索のみ） */
+  enabled: boolean;
+  /** ベクトル順位の重み */
+  vectorWeight: number;
+  /** 語彙（BM25）順位の重み */
+  lexicalWeight: number;
+  /** RRF の平滑化定数 k（score = Σ weight / (k + rank)） */
+  rrfK: number;
+  /** 語彙側だけで見つかった候補に求めるクエリとのコサイン類似度の下限 */
+  lexicalMinSimilarity: number;
+}
+
+/**
+ * ANNインデックス設定
+ */
+export interface ANNIndexConfig {
+  /** ANNインデックスの有効/無効（無効時は常に全件走査） */
+  enabled: boolean;
+  /** この件数未満のチャンク数では全件走査を使う */
+  minChunks: number;
+  /** 検索時の探索幅（大きいほど再現率が上がり遅くなる） */
+  efSearch: number;
 }
 
 // ============================================================================
@@ -120,6 +268,34 @@ export interface IngestionOptions {
   additionalMetadata?: ChunkMetadata;
 }
 
+/**
+ * 取り込めるファイル形式
+ */
+export type DocumentFormat = 'markdown' | 'text' | 'json' | 'jsonl' | 'html' | 'pdf' | 'epub';
+
+/**
+ * 抽出されたドキュメントの区切り（章・節・ページ・発話）
+ *
+ * チャンクはこの境界をまたがない
+ */
+export interface DocumentSection {
+  text: string;
+  /** chapter / section / page / speaker など、この区切りのチャンクに付くメタデータ */
+  metadata: ChunkMetadata;
+}
+
+/**
+ * 形式別の抽出結果
+ */
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  /** 文書全体のメタデータ（フロントマター、EPUB / PDF の書誌情報） */
+  metadata: ChunkMetadata;
+  sections: DocumentSection[];
+  /** 対話トランスクリプト（各区切りが1発話で、speaker を持つ） */
+  transcript?: boolean;
+}
+
 /**
  * インジェストレポート
  */
@@ -141,6 +317,28 @@ export interface IngestionError {
   timestamp: string;
 }
 
+/**
+ * 知識ディレクトリ監視の進捗イベント
+ * - sync_started / sync_completed: 起動時の差分同期
+ * - added / changed / removed: ファイル単位の取り込み・削除
+ */
+export interface KnowledgeIngestionEvent {
+  type: 'sync_started' | 'added' | 'changed' | 'removed' | 'error' | 'sync_completed';
+  /** 対象ファイル（ingestion_history / source_file と同じパス） */
+  file?: string;
+  sourceType?: SourceType;
+  /** 作成（removed では削除）したチャンク数 */
+  chunks?: number;
+  /** 処理待ちのファイル数 */
+  pending: number;
+  /** 処理後のベクトルDBの総チャンク数 */
+  totalChunks: number;
+  error?: string;
+  /** sync_completed の集計 */
+  summary?: { processed: number; removed: number; skipped: number; errors: number };
+  timestamp: number;
+}
+
 /**
  * インジェスト履歴レコード
  */
@@ -157,10 +355,43 @@ export interface IngestionHistory {
 // Embedder Types
 // ============================================================================
 
+/**
+ * 埋め込みプロバイダ
+ * - ollama: Ollama の埋め込みモデル
+ * - local: ハッシュ化文字 n-gram（外部サービス不要）
+ */
+export type EmbeddingProvider = 'ollama' | 'local';
+
+/**
+ * 埋め込みバックエンド
+ */
+export interface EmbedderBackend {
+  readonly provider: EmbeddingProvider;
+  readonly model: string;
+  /** 出力ベクトルの次元 */
+  readonly dimension: number;
+  embed(text: string): Promise<Float32Array>;
+  isAvailable(): Promise<boolean>;
+}
+
+/**
+ * ベクトルDBに記録された埋め込みモデル
+ */
+export interface StoredEmbeddingModel {
+  /** provider:model */
+  modelId: string;
+  dimension: number;
+  recordedAt: string;
+}
+
 /**
  * 埋め込み生成設定
  */
 export interface EmbedderConfig {
+  /** 埋め込みプロバイダ */
+  provider: EmbeddingProvider;
+  /** ローカル埋め込みの次元 */
+  localDimension: number;
   /** OllamaのベースURL */
   baseUrl: string;
   /** モデル名 */
@@ -193,8 +424,66 @@ export interface RAGStats {
   totalChunks: number;
   chunksBySourceType: Record<SourceType, number>;
   embeddingDimension: number;
+  /** 現在の埋め込みモデル（provider:model） */
+  embeddingModel: string;
+  /** ベクトルDBに格納済みの埋め込みモデル */
+  storedEmbedding: StoredEmbeddingModel | null;
   lastIngestion?: string;
   vectorDbSize: number;
+  annIndex: ANNIndexStats;
+  /** 検索結果に占める self / 外部知識の割合 */
+  retrievalShare: RetrievalShareStats;
+}
+
+/**
+ * 検索結果のソース構成（retrieval_log の集計）
+ */
+export interface RetrievalShareStats {
+  /** 集計期間（日） */
+  windowDays: number;
+  queries: number;
+  results: number;
+  /** 結果に占める self の割合 */
+  selfShare: number;
+  /** 結果に占める self 以外の割合 */
+  externalShare: number;
+  /** ソースタイプ別の割合 */
+  bySourceType: Partial<Record<SourceType, number>>;
+  /** self 上限によって外された候補数 */
+  selfCapped: number;
+  /** 日別の推移（古い順） */
+  daily: Array<{ date: string; queries: number; results: number; selfShare: number }>;
+}
+
+/**
+ * ANNインデックス統計
+ */
+export interface ANNIndexStats {
+  enabled: boolean;
+  /** メモリ上に読み込まれているか */
+  loaded: boolean;
+  /** 検索対象のノード数 */
+  indexedChunks: number;
+  /** 再構築まで残る削除済みノード数 */
+  deletedNodes: number;
+  dimension: number | null;
+  indexPath: string;
+  indexFileSize: number;
+}
+
+/**
+ * ANNインデックスと全件走査の比較結果
+ */
+export interface ANNBenchmarkResult {
+  totalChunks: number;
+  queries: number;
+  topK: number;
+  efSearch: number;
+  /** 全件走査の上位K件のうちANNが返した割合 */
+  recallAtK: number;
+  exact: { meanMs: number; p95Ms: number };
+  ann: { meanMs: number; p95Ms: number };
+  speedup: number;
 }
 
 /**
@@ -234,3 +523,101 @@ export interface ChunkerConfig {
   /** 段落境界を尊重 */
   respectParagraphs: boolean;
 }
+
+// ============================================================================
+// Evaluation Types
+// ============================================================================
+
+/**
+ * 正解として期待する出典
+ *
+ * source はコーパスからの相対パス（末尾一致で照合）、contains はチャンク本文に含まれるべき文字列。
+ * チャンク境界は設定ごとに変わるため、チャンクは ID ではなく本文で指定する
+ */
+export interface RAGEvalExpectation {
+  source?: string;
+  contains?: string;
+  /** 関連度（nDCG の利得、default: 1） */
+  grade?: number;
+}
+
+/**
+ * ゴールデンクエリ（文字列の期待値は source の省略形）
+ */
+export interface RAGGoldenQuery {
+  id?: string;
+  query: string;
+  expected: Array<string | RAGEvalExpectation>;
+}
+
+/**
+ * 比較する設定
+ *
+ * チャンク・埋め込みの設定が同じ設定同士は索引を共有する。mode を省略すると hybrid.enabled に従う
+ */
+export interface RAGEvalVariant extends RAGConfigOverrides {
+  name: string;
+  mode?: SearchMode;
+}
+
+/**
+ * ゴールデンセット
+ */
+export interface RAGGoldenSet {
+  /** 評価用コーパスのディレクトリ（省略時は knowledgeDirs） */
+  corpus?: string[];
+  /** 評価する k（default: [1, 3, 5]） */
+  k?: number[];
+  queries: RAGGoldenQuery[];
+  variants?: RAGEvalVariant[];
+}
+
+/**
+ * 検索品質の指標（k ごとの再現率・nDCG と MRR）
+ */
+export interface RAGEvalMetrics {
+  recallAtK: Record<number, number>;
+  ndcgAtK: Record<number, number>;
+  mrr: number;
+}
+
+/**
+ * クエリ1件の評価結果
+ */
+export interface RAGEvalQueryResult {
+  id: string;
+  query: string;
+  recallAtK: Record<number, number>;
+  ndcgAtK: Record<number, number>;
+  reciprocalRank: number;
+  /** 検索結果の出典と、その結果が満たした期待値の番号（満たさなければ null） */
+  ranked: Array<{ sourceFile: string; matched: number | null }>;
+  /** 上位 max(k) 件で満たされなかった期待値 */
+  missed: RAGEvalExpectation[];
+}
+
+/**
+ * 設定1つ分の評価結果
+ */
+export interface RAGEvalVariantReport {
+  name: string;
+  config: Pick<RAGConfig, 'embeddingProvider' | 'embeddingModel' | 'chunkSize' | 'chunkOverlap' | 'similarityThreshold'> & {
+    mode: SearchMode;
+    policy: boolean;
+  };
+  metrics: RAGEvalMetrics;
+  chunks: number;
+  meanLatencyMs: number;
+  queries: RAGEvalQueryResult[];
+}
+
+/**
+ * 評価レポート
+ */
+export interface RAGEvalReport {
+  k: number[];
+  queryCount: number;
+  variants: RAGEvalVariantReport[];
+  /** nDCG@max(k) が最も高い設定 */
+  best: string | null;
+}
@@ -17,11 +17,45 @@ import {
   SearchOptions,
   SearchResult,
   IngestionHistory,
+  ANNIndexConfig,
+  ANNIndexStats,
+  ANNBenchmarkResult,
+  StoredEmbeddingModel,
+  RetrievalShareStats,
 } from './types.js';
-import { getVectorDbPath } from './config.js';
+import { getVectorDbPath, loadRAGConfig } from './config.js';
+import {
+  HnswIndex,
+  getAnnIndexPath,
+  loadHnswSnapshot,
+  saveHnswSnapshot,
+} from './ann-index.js';
+import { buildMatchQuery, toIndexText } from './lexical.js';
 
 type Database = BetterSqlite3.Database;
 
+type ChunkRow = {
+  id: number;
+  content: string;
+  embedding: Buffer;
+  embedding_dim: number;
+  metadata: string;
+  source_file: string;
+  source_type: string;
+  chunk_index: number;
+  token_count: number;
+  created_at: string;
+};
+
+/** インデックスの変更がこの回数たまったら保存する */
+const ANN_SAVE_INTERVAL = 200;
+
+/** ソースタイプ絞り込みの該当率がこれ未満なら全件走査の方が確実 */
+const ANN_MIN_FILTER_SELECTIVITY = 0.1;
+
+/** 検索ログの保持日数 */
+const RETRIEVAL_LOG_RETENTION_DAYS = 90;
+
 /**
  * コサイン類似度を計算
  *
@@ -70,6 +104,36 @@ function bufferToFloat32Array(buf: Buffer): Float32Array {
   return new Float32Array(arrayBuffer);
 }
 
+/**
+ * topK と maxTokens で結果を制限（results はスコアの降順）
+ */
+export function applyResultLimits(
+  results: SearchResult[],
+  topK: number,
+  maxTokens?: number
+): SearchResult[] {
+  let finalResults = results.slice(0, topK);
+
+  if (maxTokens && maxTokens > 0) {
+    let totalTokens = 0;
+    const tokenLimitedResults: SearchResult[] = [];
+
+    for (const result of finalResults) {
+      const tokenCount = result.tokenCount || 0;
+      if (totalTokens + tokenCount <= maxTokens) {
+        totalTokens += tokenCount;
+        tokenLimitedResults.push(result);
+      } else {
+        break;
+      }
+    }
+
+    finalResults = tokenLimitedResults;
+  }
+
+  return finalResults;
+}
+
 /**
  * ベクトルデータベースマネージャー
  *
@@ -79,9 +143,19 @@ export class VectorDBManager {
   private db!: Database;
   private isReady: boolean = false;
   private dbPath: string;
+  private lexicalAvailable: boolean = false;
+
+  // ANN インデックス（必要になった時点で読み込み・構築する）
+  private annConfig: ANNIndexConfig;
+  private annIndex: HnswIndex | null = null;
+  private annSourceTypes = new Map<number, SourceType>();
+  private annSyncedCount = 0;
+  private annSyncedMaxId = 0;
+  private annPendingChanges = 0;
 
-  constructor(customDbPath?: string) {
+  constructor(customDbPath?: string, annConfig?: Partial<ANNIndexConfig>) {
     this.dbPath = customDbPath || getVectorDbPath();
+    this.annConfig = { ...loadRAGConfig().annIndex, ...annConfig };
     this.ensureDataDirectory();
 
     try {
@@ -141,7 +215,7 @@ export class VectorDBManager {
         status TEXT
       );
 
-      -- 埋め込みモデルメタデータ
+      -- 埋め込みモデルメタデータ（最新の行が格納中のモデル）
       CREATE TABLE IF NOT EXISTS embedding_models (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         model_name TEXT NOT NULL,
@@ -149,17 +223,96 @@ export class VectorDBManager {
         version TEXT,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP
       );
+
+      -- 再埋め込みの作業領域（中断しても続きから再開できる）
+      CREATE TABLE IF NOT EXISTS reembed_staging (
+        id INTEGER PRIMARY KEY,
+        model_name TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        embedding_dim INTEGER NOT NULL
+      );
+
+      -- 検索ログ（結果のソース構成。self と外部知識の割合の推移を見る）
+      CREATE TABLE IF NOT EXISTS retrieval_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        result_count INTEGER NOT NULL,
+        self_count INTEGER NOT NULL,
+        by_source_type TEXT NOT NULL,
+        self_capped INTEGER NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_retrieval_log_created_at
+        ON retrieval_log(created_at);
     `;
 
     this.db.exec(schema);
+    this.db
+      .prepare(`DELETE FROM retrieval_log WHERE created_at < datetime('now', ?)`)
+      .run(`-${RETRIEVAL_LOG_RETENTION_DAYS} days`);
+    this.initializeLexicalIndex();
     this.isReady = true;
     console.log('[RAG] Vector database schema initialized');
   }
 
+  /**
+   * FTS5 語彙インデックスを初期化（分かち書き済みの語列を content と同じ rowid で格納）
+   */
+  private initializeLexicalIndex(): void {
+    try {
+      this.db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS vector_chunks_fts
+          USING fts5(tokens, tokenize = 'unicode61 remove_diacritics 0');
+      `);
+      this.lexicalAvailable = true;
+    } catch (err) {
+      console.warn('[RAG] FTS5 is not available, lexical search disabled:', err);
+      return;
+    }
+
+    // 既存DB（FTS導入前）や他プロセスとのずれを埋める
+    const chunks = this.getChunkCount();
+    const indexed = (this.db.prepare('SELECT COUNT(*) as count FROM vector_chunks_fts').get() as { count: number }).count;
+    if (chunks !== indexed) {
+      this.rebuildLexicalIndex();
+    }
+  }
+
+  /**
+   * 語彙インデックスを全チャンクから作り直す
+   */
+  rebuildLexicalIndex(): number {
+    if (!this.lexicalAvailable) return 0;
+
+    const insert = this.db.prepare('INSERT INTO vector_chunks_fts (rowid, tokens) VALUES (?, ?)');
+    const rebuild = (this.db as any).transaction(() => {
+      this.db.exec('DELETE FROM vector_chunks_fts');
+      let count = 0;
+      for (const row of this.db.prepare('SELECT id, content FROM vector_chunks').all() as Array<{ id: number; content: string }>) {
+        insert.run(row.id, toIndexText(row.content));
+        count++;
+      }
+      return count;
+    });
+
+    const count = rebuild() as number;
+    console.log(`[RAG] Lexical index rebuilt: ${count} chunks`);
+    return count;
+  }
+
+  private addToLexicalIndex(chunks: Array<{ id: number; content: string }>): void {
+    if (!this.lexicalAvailable) return;
+    const insert = this.db.prepare('INSERT INTO vector_chunks_fts (rowid, tokens) VALUES (?, ?)');
+    for (const chunk of chunks) {
+      insert.run(chunk.id, toIndexText(chunk.content));
+    }
+  }
+
   /**
    * 単一チャンクを挿入
    */
   insertChunk(chunk: VectorChunk): number {
+    this.assertEmbeddingCompatible([chunk]);
     const stmt = this.db.prepare(`
       INSERT INTO vector_chunks
         (content, embedding, embedding_dim, metadata, source_file, source_type, chunk_index, token_count)
@@ -178,7 +331,10 @@ export class VectorDBManager {
       chunk.tokenCount
     );
 
-    return result.lastInsertRowid as number;
+    const id = result.lastInsertRowid as number;
+    this.addToLexicalIndex([{ id, content: chunk.content }]);
+    this.addToIndex([{ ...chunk, id }]);
+    return id;
   }
 
   /**
@@ -186,6 +342,7 @@ export class VectorDBManager {
    */
   insertChunks(chunks: VectorChunk[]): number[] {
     const ids: number[] = [];
+    this.assertEmbeddingCompatible(chunks);
 
     const stmt = this.db.prepare(`
       INSERT INTO vector_chunks
@@ -209,19 +366,51 @@ export class VectorDBManager {
         );
         ids.push(result.lastInsertRowid as number);
       }
+      this.addToLexicalIndex(chunksToInsert.map((chunk, i) => ({ id: ids[i], content: chunk.content })));
     });
 
     insertMany(chunks);
+    this.addToIndex(chunks.map((chunk, i) => ({ ...chunk, id: ids[i] })));
     return ids;
   }
 
   /**
    * ベクトル類似度検索
    *
+   * チャンク数が十分に多ければ ANN インデックスで候補を絞り、
+   * そうでなければ（または exact 指定時は）全件走査する
+   */
+  searchSimilar(
+    queryEmbedding: Float32Array,
+    options: SearchOptions = {}
+  ): SearchResult[] {
+    if (options.exact || !this.annConfig.enabled) {
+      return this.searchSimilarExact(queryEmbedding, options);
+    }
+
+    const index = this.getSearchIndex();
+    if (!index || index.dimension !== queryEmbedding.length) {
+      return this.searchSimilarExact(queryEmbedding, options);
+    }
+
+    const { sourceTypes } = options;
+    if (sourceTypes && sourceTypes.length > 0) {
+      const matching = this.countIndexedBySourceTypes(sourceTypes);
+      if (matching < index.size * ANN_MIN_FILTER_SELECTIVITY) {
+        return this.searchSimilarExact(queryEmbedding, options);
+      }
+    }
+
+    return this.searchWithIndex(index, queryEmbedding, options);
+  }
+
+  /**
+   * 全件走査による類似度検索（ANN のフォールバック・正解データ）
+   *
    * 全てのチャンクに対してコサイン類似度を計算し、
    * 閾値以上のものをスコア順で返す
    */
-  searchSimilar(
+  searchSimilarExact(
     queryEmbedding: Float32Array,
     options: SearchOptions = {}
   ): SearchResult[] {
@@ -242,17 +431,7 @@ export class VectorDBManager {
       params.push(...sourceTypes);
     }
 
-    const rows = this.db.prepare(query).all(...params) as Array<{
-      id: number;
-      content: string;
-      embedding: Buffer;
-      embedding_dim: number;
-      metadata: string;
-      source_file: string;
-      source_type: string;
-      chunk_index: number;
-      token_count: number;
-    }>;
+    const rows = this.db.prepare(query).all(...params) as ChunkRow[];
 
     // 各チャンクとの類似度を計算
     const results: SearchResult[] = [];
@@ -262,41 +441,133 @@ export class VectorDBManager {
       const similarity = cosineSimilarity(queryEmbedding, chunkEmbedding);
 
       if (similarity >= similarityThreshold) {
-        results.push({
-          content: row.content,
-          similarity,
-          metadata: JSON.parse(row.metadata || '{}') as ChunkMetadata,
-          sourceFile: row.source_file,
-          sourceType: row.source_type as SourceType,
-          tokenCount: row.token_count || 0,
-        });
+        results.push(this.rowToResult(row, similarity));
       }
     }
 
     // 類似度でソート（降順）
     results.sort((a, b) => b.similarity - a.similarity);
 
-    // topK と maxTokens で制限
-    let finalResults = results.slice(0, topK);
-
-    if (maxTokens && maxTokens > 0) {
-      let totalTokens = 0;
-      const tokenLimitedResults: SearchResult[] = [];
-
-      for (const result of finalResults) {
-        const tokenCount = result.tokenCount || 0;
-        if (totalTokens + tokenCount <= maxTokens) {
-          totalTokens += tokenCount;
-          tokenLimitedResults.push(result);
-        } else {
-          break;
-        }
+    return applyResultLimits(results, topK, maxTokens);
+  }
+
+  /**
+   * ANN インデックスで候補を取得し、行を引いて結果を組み立てる
+   */
+  private searchWithIndex(
+    index: HnswIndex,
+    queryEmbedding: Float32Array,
+    options: SearchOptions
+  ): SearchResult[] {
+    const {
+      topK = 5,
+      similarityThreshold = 0.7,
+      sourceTypes,
+      maxTokens,
+    } = options;
+
+    const allowed = sourceTypes && sourceTypes.length > 0 ? new Set<string>(sourceTypes) : null;
+    const neighbors = index
+      .search(queryEmbedding, topK, {
+        ef: Math.max(this.annConfig.efSearch, topK),
+        accept: allowed ? (id) => allowed.has(this.annSourceTypes.get(id) ?? '') : undefined,
+      })
+      .filter((neighbor) => neighbor.similarity >= similarityThreshold);
+
+    if (neighbors.length === 0) {
+      return [];
+    }
+
+    const placeholders = neighbors.map(() => '?').join(', ');
+    const rows = this.db
+      .prepare(`SELECT * FROM vector_chunks WHERE id IN (${placeholders})`)
+      .all(...neighbors.map((neighbor) => neighbor.id)) as ChunkRow[];
+    const rowsById = new Map(rows.map((row) => [row.id, row]));
+
+    const results: SearchResult[] = [];
+    for (const neighbor of neighbors) {
+      const row = rowsById.get(neighbor.id);
+      if (row) {
+        results.push(this.rowToResult(row, neighbor.similarity));
       }
+    }
+
+    return applyResultLimits(results, topK, maxTokens);
+  }
 
-      finalResults = tokenLimitedResults;
+  /**
+   * 語彙検索（FTS5 / BM25）
+   *
+   * 類似度の閾値は適用しない。queryEmbedding を渡すと各結果のコサイン類似度も計算する
+   */
+  searchLexical(
+    query: string,
+    options: SearchOptions = {},
+    queryEmbedding?: Float32Array
+  ): SearchResult[] {
+    const { topK = 5, sourceTypes, maxTokens } = options;
+    const match = buildMatchQuery(query);
+    if (!this.lexicalAvailable || !match) {
+      return [];
+    }
+
+    let sql = `
+      SELECT c.*, bm25(vector_chunks_fts) AS bm25_score
+      FROM vector_chunks_fts
+      JOIN vector_chunks c ON c.id = vector_chunks_fts.rowid
+      WHERE vector_chunks_fts MATCH ?`;
+    const params: (string | number)[] = [match];
+    if (sourceTypes && sourceTypes.length > 0) {
+      sql += ` AND c.source_type IN (${sourceTypes.map(() => '?').join(', ')})`;
+      params.push(...sourceTypes);
     }
+    sql += ' ORDER BY bm25_score LIMIT ?';
+    params.push(topK);
+
+    const rows = this.db.prepare(sql).all(...params) as Array<ChunkRow & { bm25_score: number }>;
+    const results = rows.map((row, index) => {
+      const embedding = queryEmbedding ? bufferToFloat32Array(row.embedding) : null;
+      const similarity = embedding && embedding.length === queryEmbedding!.length
+        ? cosineSimilarity(queryEmbedding!, embedding)
+        : 0;
+      return {
+        ...this.rowToResult(row, similarity),
+        // FTS5 の bm25() は一致が強いほど小さい（負の）値を返す
+        ranking: { fusedScore: 0, lexicalRank: index + 1, bm25: -row.bm25_score },
+      };
+    });
 
-    return finalResults;
+    return applyResultLimits(results, topK, maxTokens);
+  }
+
+  private rowToResult(row: ChunkRow, similarity: number): SearchResult {
+    return {
+      id: row.id,
+      content: row.content,
+      similarity,
+      metadata: JSON.parse(row.metadata || '{}') as ChunkMetadata,
+      sourceFile: row.source_file,
+      sourceType: row.source_type as SourceType,
+      tokenCount: row.token_count || 0,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * チャンクIDから埋め込みを取得（存在しないIDは含まれない）
+   */
+  getEmbeddingsByIds(ids: number[]): Map<number, Float32Array> {
+    const embeddings = new Map<number, Float32Array>();
+    if (ids.length === 0) return embeddings;
+
+    const placeholders = ids.map(() => '?').join(', ');
+    const rows = this.db
+      .prepare(`SELECT id, embedding FROM vector_chunks WHERE id IN (${placeholders})`)
+      .all(...ids) as Array<{ id: number; embedding: Buffer }>;
+    for (const row of rows) {
+      embeddings.set(row.id, bufferToFloat32Array(row.embedding));
+    }
+    return embeddings;
   }
 
   /**
@@ -367,8 +638,17 @@ export class VectorDBManager {
    * 特定ソースファイルのチャンクを削除
    */
   deleteBySource(sourceFile: string): number {
+    const ids = this.annIndex
+      ? (this.db.prepare('SELECT id FROM vector_chunks WHERE source_file = ?').all(sourceFile) as Array<{ id: number }>)
+      : [];
+    if (this.lexicalAvailable) {
+      this.db
+        .prepare('DELETE FROM vector_chunks_fts WHERE rowid IN (SELECT id FROM vector_chunks WHERE source_file = ?)')
+        .run(sourceFile);
+    }
     const stmt = this.db.prepare('DELETE FROM vector_chunks WHERE source_file = ?');
     const result = stmt.run(sourceFile);
+    this.removeFromIndex(ids.map((row) => row.id));
     return result.changes;
   }
 
@@ -378,6 +658,18 @@ export class VectorDBManager {
   clearAll(): void {
     this.db.exec('DELETE FROM vector_chunks');
     this.db.exec('DELETE FROM ingestion_history');
+    this.db.exec('DELETE FROM embedding_models');
+    this.db.exec('DELETE FROM reembed_staging');
+    this.db.exec('DELETE FROM retrieval_log');
+    if (this.lexicalAvailable) {
+      this.db.exec('DELETE FROM vector_chunks_fts');
+    }
+    if (this.annIndex) {
+      this.annIndex = new HnswIndex(this.annIndex.getParams());
+      this.annSourceTypes.clear();
+      this.markIndexSynced();
+      this.saveIndex();
+    }
     console.log('[RAG] All vector chunks cleared');
   }
 
@@ -431,6 +723,24 @@ export class VectorDBManager {
     );
   }
 
+  /**
+   * インジェスト履歴を削除（ファイルが消えたとき）
+   */
+  deleteIngestionHistory(sourcePath: string): boolean {
+    const result = this.db.prepare('DELETE FROM ingestion_history WHERE source_path = ?').run(sourcePath);
+    return result.changes > 0;
+  }
+
+  /**
+   * インジェスト履歴に記録されたソースパスの一覧
+   */
+  getIngestedSourcePaths(): string[] {
+    const rows = this.db.prepare('SELECT source_path FROM ingestion_history ORDER BY source_path').all() as Array<{
+      source_path: string;
+    }>;
+    return rows.map((row) => row.source_path);
+  }
+
   /**
    * データベースファイルサイズを取得（バイト）
    */
@@ -455,12 +765,538 @@ export class VectorDBManager {
    */
   close(): void {
     if (this.db) {
+      if (this.annPendingChanges > 0 && this.isReady) {
+        this.saveIndex();
+      }
       this.db.close();
       this.isReady = false;
       console.log('[RAG] Vector database connection closed');
     }
   }
 
+  // =========================================================================
+  // Retrieval Log
+  // =========================================================================
+
+  /**
+   * 検索結果のソース構成を記録
+   */
+  recordRetrieval(sourceTypes: SourceType[], selfCapped: number = 0): void {
+    if (sourceTypes.length === 0) return;
+
+    const bySourceType: Record<string, number> = {};
+    for (const type of sourceTypes) {
+      bySourceType[type] = (bySourceType[type] ?? 0) + 1;
+    }
+    this.db
+      .prepare(`
+        INSERT INTO retrieval_log (result_count, self_count, by_source_type, self_capped)
+        VALUES (?, ?, ?, ?)
+      `)
+      .run(sourceTypes.length, bySourceType.self ?? 0, JSON.stringify(bySourceType), selfCapped);
+  }
+
+  /**
+   * 直近 windowDays 日の検索結果に占める self / 外部知識の割合
+   */
+  getRetrievalShareStats(windowDays: number = 14): RetrievalShareStats {
+    const since = `-${windowDays} days`;
+    const rows = this.db
+      .prepare(`
+        SELECT result_count, self_count, by_source_type, self_capped, date(created_at) AS day
+        FROM retrieval_log
+        WHERE created_at >= datetime('now', ?)
+        ORDER BY id
+      `)
+      .all(since) as Array<{
+        result_count: number;
+        self_count: number;
+        by_source_type: string;
+        self_capped: number;
+        day: string;
+      }>;
+
+    const typeCounts: Record<string, number> = {};
+    const daily = new Map<string, { queries: number; results: number; self: number }>();
+    let results = 0;
+    let selfResults = 0;
+    let selfCapped = 0;
+
+    for (const row of rows) {
+      results += row.result_count;
+      selfResults += row.self_count;
+      selfCapped += row.self_capped;
+      for (const [type, count] of Object.entries(JSON.parse(row.by_source_type) as Record<string, number>)) {
+        typeCounts[type] = (typeCounts[type] ?? 0) + count;
+      }
+      const day = daily.get(row.day) ?? { queries: 0, results: 0, self: 0 };
+      day.queries++;
+      day.results += row.result_count;
+      day.self += row.self_count;
+      daily.set(row.day, day);
+    }
+
+    const bySourceType: Partial<Record<SourceType, number>> = {};
+    for (const [type, count] of Object.entries(typeCounts)) {
+      bySourceType[type as SourceType] = results > 0 ? count / results : 0;
+    }
+    const selfShare = results > 0 ? selfResults / results : 0;
+
+    return {
+      windowDays,
+      queries: rows.length,
+      results,
+      selfShare,
+      externalShare: results > 0 ? 1 - selfShare : 0,
+      bySourceType,
+      selfCapped,
+      daily: Array.from(daily.entries()).map(([date, day]) => ({
+        date,
+        queries: day.queries,
+        results: day.results,
+        selfShare: day.results > 0 ? day.self / day.results : 0,
+      })),
+    };
+  }
+
+  // =========================================================================
+  // Embedding Model Tracking
+  // =========================================================================
+
+  /**
+   * 格納中の埋め込みモデルを取得（未記録なら null）
+   */
+  getEmbeddingModel(): StoredEmbeddingModel | null {
+    const row = this.db
+      .prepare('SELECT model_name, dimension, created_at FROM embedding_models ORDER BY id DESC LIMIT 1')
+      .get() as { model_name: string; dimension: number; created_at: string } | undefined;
+
+    return row
+      ? { modelId: row.model_name, dimension: row.dimension, recordedAt: row.created_at }
+      : null;
+  }
+
+  /**
+   * 指定モデルの埋め込みが格納済みの埋め込みと比較可能か確認
+   *
+   * @returns 不整合の説明（問題なければ null）
+   */
+  getEmbeddingMismatch(modelId: string | undefined, dimension: number): string | null {
+    const stored = this.getEmbeddingModel();
+    if (stored) {
+      if (stored.dimension !== dimension || (modelId !== undefined && stored.modelId !== modelId)) {
+        return `Embedding mismatch: the vector DB holds ${stored.modelId} (${stored.dimension}d) ` +
+          `but got ${modelId ?? 'unknown'} (${dimension}d). Run "npm run rag:reembed" to migrate.`;
+      }
+      return null;
+    }
+
+    // モデル記録のない既存DB: 格納済みの次元とだけ比べる
+    const dimensions = this.db
+      .prepare('SELECT DISTINCT embedding_dim FROM vector_chunks LIMIT 2')
+      .all() as Array<{ embedding_dim: number }>;
+    if (dimensions.length > 1 || (dimensions.length === 1 && dimensions[0].embedding_dim !== dimension)) {
+      return `Embedding mismatch: the vector DB holds ${dimensions.map((d) => `${d.embedding_dim}d`).join(' and ')} ` +
+        `embeddings but got ${modelId ?? 'unknown'} (${dimension}d). Run "npm run rag:reembed" to migrate.`;
+    }
+    return null;
+  }
+
+  /**
+   * 挿入前の検査。初めて使われたモデルはここで記録する
+   */
+  private assertEmbeddingCompatible(chunks: VectorChunk[]): void {
+    const checked = new Set<string>();
+    for (const chunk of chunks) {
+      const key = `${chunk.embeddingModel}|${chunk.embedding.length}`;
+      if (checked.has(key)) continue;
+      checked.add(key);
+
+      if (chunk.embeddingDim !== chunk.embedding.length) {
+        throw new Error(
+          `Embedding dimension ${chunk.embedding.length} does not match embeddingDim ${chunk.embeddingDim}`
+        );
+      }
+      const mismatch = this.getEmbeddingMismatch(chunk.embeddingModel, chunk.embedding.length);
+      if (mismatch) {
+        throw new Error(mismatch);
+      }
+      if (chunk.embeddingModel && !this.getEmbeddingModel()) {
+        this.recordEmbeddingModel(chunk.embeddingModel, chunk.embedding.length);
+      }
+    }
+  }
+
+  private recordEmbeddingModel(modelId: string, dimension: number): void {
+    this.db
+      .prepare('INSERT INTO embedding_models (model_name, dimension) VALUES (?, ?)')
+      .run(modelId, dimension);
+    console.log(`[RAG] Embedding model recorded: ${modelId} (${dimension}d)`);
+  }
+
+  // =========================================================================
+  // Re-embedding
+  // =========================================================================
+
+  /**
+   * まだ指定モデルで再埋め込みされていないチャンクを取得
+   *
+   * 別モデル向けの作業領域が残っていれば破棄する
+   */
+  getChunksPendingReembed(modelId: string, limit: number): Array<{ id: number; content: string }> {
+    this.db.prepare('DELETE FROM reembed_staging WHERE model_name != ?').run(modelId);
+    return this.db
+      .prepare(`
+        SELECT c.id, c.content FROM vector_chunks c
+        LEFT JOIN reembed_staging s ON s.id = c.id
+        WHERE s.id IS NULL
+        ORDER BY c.id
+        LIMIT ?
+      `)
+      .all(limit) as Array<{ id: number; content: string }>;
+  }
+
+  /**
+   * 再埋め込み済みのベクトルを作業領域に保存
+   */
+  stageEmbeddings(modelId: string, entries: Array<{ id: number; embedding: Float32Array }>): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO reembed_staging (id, model_name, embedding, embedding_dim)
+      VALUES (?, ?, ?, ?)
+    `);
+    const stageMany = (this.db as any).transaction(() => {
+      for (const entry of entries) {
+        stmt.run(entry.id, modelId, float32ArrayToBuffer(entry.embedding), entry.embedding.length);
+      }
+    });
+    stageMany();
+  }
+
+  /**
+   * 作業領域の埋め込みで全チャンクを一括で置き換え、新しいモデルを記録する
+   *
+   * 未処理のチャンクが残っている場合は何もせず false を返す
+   */
+  commitReembed(modelId: string): boolean {
+    const commit = (this.db as any).transaction(() => {
+      const pending = this.db
+        .prepare(`
+          SELECT COUNT(*) as count FROM vector_chunks c
+          LEFT JOIN reembed_staging s ON s.id = c.id AND s.model_name = ?
+          WHERE s.id IS NULL
+        `)
+        .get(modelId) as { count: number };
+      if (pending.count > 0) {
+        return false;
+      }
+
+      const staged = this.db
+        .prepare('SELECT DISTINCT embedding_dim FROM reembed_staging WHERE model_name = ?')
+        .all(modelId) as Array<{ embedding_dim: number }>;
+      if (staged.length > 1) {
+        throw new Error(`Re-embedding produced mixed dimensions: ${staged.map((d) => d.embedding_dim).join(', ')}`);
+      }
+
+      this.db.prepare(`
+        UPDATE vector_chunks
+        SET embedding = s.embedding, embedding_dim = s.embedding_dim
+        FROM reembed_staging s
+        WHERE s.id = vector_chunks.id AND s.model_name = ?
+      `).run(modelId);
+      if (staged.length === 1) {
+        this.recordEmbeddingModel(modelId, staged[0].embedding_dim);
+      }
+      this.db.exec('DELETE FROM reembed_staging');
+      return true;
+    });
+
+    const committed = commit() as boolean;
+    if (committed) {
+      // 次元が変わりうるので、ANN インデックスは次の検索時に作り直す
+      this.annIndex = null;
+      this.annSourceTypes.clear();
+      this.annPendingChanges = 0;
+      fs.rmSync(getAnnIndexPath(this.dbPath), { force: true });
+    }
+    return committed;
+  }
+
+  // =========================================================================
+  // ANN Index
+  // =========================================================================
+
+  /**
+   * ANN インデックスを全件から作り直して保存
+   */
+  rebuildIndex(): { indexedChunks: number; skippedChunks: number; durationMs: number } {
+    const start = Date.now();
+    const index = new HnswIndex({ efSearch: this.annConfig.efSearch });
+    this.annSourceTypes.clear();
+    let skipped = 0;
+
+    for (const row of this.db
+      .prepare('SELECT id, embedding, source_type FROM vector_chunks ORDER BY id')
+      .iterate() as IterableIterator<Pick<ChunkRow, 'id' | 'embedding' | 'source_type'>>) {
+      const embedding = bufferToFloat32Array(row.embedding);
+      if (index.dimension !== null && embedding.length !== index.dimension) {
+        skipped++;
+        continue;
+      }
+      index.add(row.id, embedding);
+      this.annSourceTypes.set(row.id, row.source_type as SourceType);
+    }
+
+    if (skipped > 0) {
+      console.warn(`[RAG] ANN index skipped ${skipped} chunks with a different embedding dimension (exact search only)`);
+    }
+
+    this.annIndex = index;
+    this.markIndexSynced();
+    this.saveIndex();
+
+    const durationMs = Date.now() - start;
+    console.log(`[RAG] ANN index rebuilt: ${index.size} chunks in ${durationMs}ms`);
+    return { indexedChunks: index.size, skippedChunks: skipped, durationMs };
+  }
+
+  /**
+   * ANN インデックスをファイルへ保存
+   */
+  saveIndex(): void {
+    if (!this.annIndex) return;
+    try {
+      saveHnswSnapshot(getAnnIndexPath(this.dbPath), this.annIndex.toSnapshot());
+      this.annPendingChanges = 0;
+    } catch (err) {
+      console.warn('[RAG] Failed to save ANN index:', err);
+    }
+  }
+
+  /**
+   * ANN インデックスの状態を取得
+   */
+  getIndexStats(): ANNIndexStats {
+    const indexPath = getAnnIndexPath(this.dbPath);
+    let indexFileSize = 0;
+    try {
+      indexFileSize = fs.statSync(indexPath).size;
+    } catch {
+      // 未作成
+    }
+
+    return {
+      enabled: this.annConfig.enabled,
+      loaded: this.annIndex !== null,
+      indexedChunks: this.annIndex?.size ?? 0,
+      deletedNodes: this.annIndex?.deletedCount ?? 0,
+      dimension: this.annIndex?.dimension ?? null,
+      indexPath,
+      indexFileSize,
+    };
+  }
+
+  /**
+   * ANN と全件走査の再現率・レイテンシを比較
+   *
+   * 格納済みの埋め込みをクエリとして使うため、埋め込みモデルなしで実行できる
+   */
+  benchmarkIndex(options: { queries?: number; topK?: number; efSearch?: number } = {}): ANNBenchmarkResult {
+    const queries = options.queries ?? 100;
+    const topK = options.topK ?? 10;
+    const efSearch = options.efSearch ?? this.annConfig.efSearch;
+
+    const index = this.ensureIndex();
+    const rows = this.db
+      .prepare('SELECT embedding FROM vector_chunks ORDER BY RANDOM() LIMIT ?')
+      .all(queries) as Array<{ embedding: Buffer }>;
+    const queryVectors = rows
+      .map((row) => bufferToFloat32Array(row.embedding))
+      .filter((vector) => vector.length === index.dimension);
+
+    const searchOptions: SearchOptions = { topK, similarityThreshold: -1 };
+    const exactTimes: number[] = [];
+    const annTimes: number[] = [];
+    let recallSum = 0;
+    const savedEfSearch = this.annConfig.efSearch;
+    this.annConfig.efSearch = efSearch;
+
+    try {
+      for (const query of queryVectors) {
+        let start = process.hrtime.bigint();
+        const exact = this.searchSimilarExact(query, searchOptions);
+        exactTimes.push(Number(process.hrtime.bigint() - start) / 1e6);
+
+        start = process.hrtime.bigint();
+        const approximate = this.searchWithIndex(index, query, searchOptions);
+        annTimes.push(Number(process.hrtime.bigint() - start) / 1e6);
+
+        const found = new Set(approximate.map((result) => result.id));
+        const hits = exact.filter((result) => found.has(result.id)).length;
+        recallSum += exact.length > 0 ? hits / exact.length : 1;
+      }
+    } finally {
+      this.annConfig.efSearch = savedEfSearch;
+    }
+
+    const summarize = (times: number[]) => {
+      const sorted = [...times].sort((a, b) => a - b);
+      const mean = sorted.length > 0 ? sorted.reduce((sum, t) => sum + t, 0) / sorted.length : 0;
+      const p95 = sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] : 0;
+      return { meanMs: mean, p95Ms: p95 };
+    };
+    const exactSummary = summarize(exactTimes);
+    const annSummary = summarize(annTimes);
+
+    return {
+      totalChunks: this.getChunkCount(),
+      queries: queryVectors.length,
+      topK,
+      efSearch,
+      recallAtK: queryVectors.length > 0 ? recallSum / queryVectors.length : 0,
+      exact: exactSummary,
+      ann: annSummary,
+      speedup: annSummary.meanMs > 0 ? exactSummary.meanMs / annSummary.meanMs : 0,
+    };
+  }
+
+  /**
+   * 検索に使えるインデックスを返す（チャンク数が少なければ null）
+   */
+  private getSearchIndex(): HnswIndex | null {
+    if (!this.annIndex && this.getChunkCount() < this.annConfig.minChunks) {
+      return null;
+    }
+
+    const index = this.ensureIndex();
+    if (index.size < this.annConfig.minChunks) {
+      return null;
+    }
+    return index;
+  }
+
+  /**
+   * インデックスを読み込む（なければ構築する）。他プロセスによる変更は差分で取り込む
+   */
+  private ensureIndex(): HnswIndex {
+    if (!this.annIndex) {
+      const snapshot = loadHnswSnapshot(getAnnIndexPath(this.dbPath));
+      if (!snapshot) {
+        console.log('[RAG] No ANN index found, building from vector_chunks...');
+        this.rebuildIndex();
+        return this.annIndex!;
+      }
+
+      const vectors = new Map<number, Float32Array>();
+      this.annSourceTypes.clear();
+      for (const row of this.db
+        .prepare('SELECT id, embedding, source_type FROM vector_chunks')
+        .iterate() as IterableIterator<Pick<ChunkRow, 'id' | 'embedding' | 'source_type'>>) {
+        vectors.set(row.id, bufferToFloat32Array(row.embedding));
+        this.annSourceTypes.set(row.id, row.source_type as SourceType);
+      }
+
+      this.annIndex = HnswIndex.fromSnapshot(snapshot, vectors, { efSearch: this.annConfig.efSearch });
+      this.reconcileIndex(vectors);
+      console.log(`[RAG] ANN index loaded: ${this.annIndex.size} chunks`);
+      return this.annIndex;
+    }
+
+    const state = this.db
+      .prepare('SELECT COUNT(*) as count, MAX(id) as maxId FROM vector_chunks')
+      .get() as { count: number; maxId: number | null };
+    if (state.count !== this.annSyncedCount || (state.maxId ?? 0) !== this.annSyncedMaxId) {
+      this.reconcileIndex();
+    }
+    return this.annIndex;
+  }
+
+  /**
+   * DB の行とインデックスのノードを突き合わせ、差分だけ追加・削除する
+   */
+  private reconcileIndex(vectors?: Map<number, Float32Array>): void {
+    const index = this.annIndex!;
+    const rows = this.db
+      .prepare('SELECT id, source_type FROM vector_chunks')
+      .all() as Array<{ id: number; source_type: string }>;
+    const dbIds = new Set(rows.map((row) => row.id));
+
+    let removed = 0;
+    for (const id of index.ids()) {
+      if (!dbIds.has(id)) {
+        index.remove(id);
+        this.annSourceTypes.delete(id);
+        removed++;
+      }
+    }
+
+    const missing = rows.filter((row) => !index.has(row.id));
+    let added = 0;
+    const fetchEmbedding = this.db.prepare('SELECT embedding FROM vector_chunks WHERE id = ?');
+    for (const row of missing) {
+      const embedding = vectors?.get(row.id)
+        ?? bufferToFloat32Array((fetchEmbedding.get(row.id) as { embedding: Buffer }).embedding);
+      if (index.dimension !== null && embedding.length !== index.dimension) continue;
+      index.add(row.id, embedding);
+      this.annSourceTypes.set(row.id, row.source_type as SourceType);
+      added++;
+    }
+
+    this.markIndexSynced();
+    if (added > 0 || removed > 0) {
+      console.log(`[RAG] ANN index synced with database (+${added} / -${removed})`);
+      this.annPendingChanges += added + removed;
+      this.saveIndexIfDue();
+    }
+  }
+
+  private addToIndex(chunks: Array<VectorChunk & { id: number }>): void {
+    if (!this.annIndex) return;
+    for (const chunk of chunks) {
+      if (this.annIndex.dimension === null || chunk.embedding.length === this.annIndex.dimension) {
+        this.annIndex.add(chunk.id, chunk.embedding);
+        this.annSourceTypes.set(chunk.id, chunk.sourceType);
+      }
+      this.annSyncedMaxId = Math.max(this.annSyncedMaxId, chunk.id);
+    }
+    this.annSyncedCount += chunks.length;
+    this.annPendingChanges += chunks.length;
+    this.saveIndexIfDue();
+  }
+
+  private removeFromIndex(ids: number[]): void {
+    if (!this.annIndex || ids.length === 0) return;
+    for (const id of ids) {
+      this.annIndex.remove(id);
+      this.annSourceTypes.delete(id);
+    }
+    this.annSyncedCount -= ids.length;
+    this.annPendingChanges += ids.length;
+    this.saveIndexIfDue();
+  }
+
+  private countIndexedBySourceTypes(sourceTypes: SourceType[]): number {
+    const wanted = new Set(sourceTypes);
+    let count = 0;
+    for (const sourceType of this.annSourceTypes.values()) {
+      if (wanted.has(sourceType)) count++;
+    }
+    return count;
+  }
+
+  private markIndexSynced(): void {
+    const state = this.db
+      .prepare('SELECT COUNT(*) as count, MAX(id) as maxId FROM vector_chunks')
+      .get() as { count: number; maxId: number | null };
+    this.annSyncedCount = state.count;
+    this.annSyncedMaxId = state.maxId ?? 0;
+  }
+
+  private saveIndexIfDue(): void {
+    if (this.annPendingChanges >= ANN_SAVE_INTERVAL) {
+      this.saveIndex();
+    }
+  }
+
   /**
    * 準備完了状態を確認
    */
@@ -472,6 +1308,9 @@ export class VectorDBManager {
 /**
  * VectorDBManager インスタンスを作成
  */
-export function createVectorDBManager(customDbPath?: string): VectorDBManager {
-  return new VectorDBManager(customDbPath);
+export function createVectorDBManager(
+  customDbPath?: string,
+  annConfig?: Partial<ANNIndexConfig>
+): VectorDBManager {
+  return new VectorDBManager(customDbPath, annConfig);
 }
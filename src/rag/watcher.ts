@@ -0,0 +1,271 @@
+/**
+ * RAG Knowledge Watcher Module
+ *
+ * 知識ディレクトリを監視し、変更のあったファイルだけを取り込み直す
+ * - 起動時に差分同期（変更ファイルの再取り込みと、消えたファイルのチャンク削除）
+ * - 追加・変更・削除をファイル単位でデバウンスして直列に処理
+ * - 進捗を 'ingestion' イベントで通知（ダッシュボードへの中継用）
+ *
+ * 書き足された記憶が、次の問いを待たずに知識になる
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContentIngester } from './ingest.js';
+import { VectorDBManager } from './vectordb.js';
+import { KnowledgeIngestionEvent, SourceType } from './types.js';
+import { getKnowledgeDirPaths, loadRAGConfig } from './config.js';
+
+/**
+ * 監視オプション
+ */
+export interface KnowledgeWatcherOptions {
+  /** 監視する知識ディレクトリ（default: RAG_KNOWLEDGE_DIRS） */
+  dirs?: string[];
+  /** 同じファイルへの連続した変更をまとめる待ち時間（default: RAG_WATCH_DEBOUNCE_MS） */
+  debounceMs?: number;
+}
+
+/**
+ * 知識ディレクトリの監視クラス
+ *
+ * イベント:
+ * - 'ingestion' (event: KnowledgeIngestionEvent)
+ */
+export class KnowledgeWatcher extends EventEmitter {
+  private ingester: ContentIngester;
+  private vectordb: VectorDBManager;
+  private dirs: string[];
+  private debounceMs: number;
+  private watchers: fs.FSWatcher[] = [];
+  private timers = new Map<string, NodeJS.Timeout>();
+  /** 処理待ちのパスとその知識ディレクトリ */
+  private pending = new Map<string, string>();
+  private queue: Promise<void> = Promise.resolve();
+  private running = false;
+
+  constructor(ingester: ContentIngester, vectordb: VectorDBManager, options: KnowledgeWatcherOptions = {}) {
+    super();
+    this.ingester = ingester;
+    this.vectordb = vectordb;
+    this.dirs = (options.dirs ?? getKnowledgeDirPaths()).map((dir) => path.resolve(dir));
+    this.debounceMs = options.debounceMs ?? loadRAGConfig().watch.debounceMs;
+  }
+
+  /**
+   * 差分同期を行ってから監視を開始
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    await this.sync();
+
+    for (const dir of this.dirs) {
+      if (!fs.existsSync(dir)) {
+        console.log(`[RAG] Not watching non-existent directory: ${dir}`);
+        continue;
+      }
+
+      const watcher = fs.watch(dir, { recursive: true }, (_eventType, filename) => {
+        if (filename) {
+          this.schedule(path.join(dir, filename.toString()), dir);
+        }
+      });
+      watcher.on('error', (error) => {
+        this.emitEvent({ type: 'error', file: dir, error: error.message });
+      });
+      this.watchers.push(watcher);
+    }
+
+    console.log(`[RAG] Watching ${this.watchers.length} knowledge directories`);
+  }
+
+  /**
+   * 監視を停止（処理中のファイルは完了まで待つ）
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.pending.clear();
+    await this.queue;
+    console.log('[RAG] Knowledge watcher stopped');
+  }
+
+  /**
+   * 監視中かどうか
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * デバウンス中・処理中のファイルがすべて片付くまで待つ
+   */
+  async whenIdle(): Promise<void> {
+    while (this.timers.size > 0 || this.pending.size > 0) {
+      await new Promise((resolve) => setTimeout(resolve, Math.max(10, this.debounceMs)));
+      await this.queue;
+    }
+    await this.queue;
+  }
+
+  /**
+   * 知識ディレクトリとインジェスト履歴の差分を取り込む
+   */
+  private async sync(): Promise<void> {
+    const summary = { processed: 0, removed: 0, skipped: 0, errors: 0 };
+    this.emitEvent({ type: 'sync_started' });
+
+    for (const dir of this.dirs) {
+      if (!fs.existsSync(dir)) continue;
+
+      for (const filePath of this.ingester.walkDirectory(dir)) {
+        const outcome = await this.processFile(filePath, dir);
+        if (outcome === 'skipped') summary.skipped++;
+        else if (outcome === 'error') summary.errors++;
+        else summary.processed++;
+      }
+    }
+
+    // 監視対象の外で消えたファイル（サーバー停止中の削除）を片付ける
+    for (const sourcePath of this.vectordb.getIngestedSourcePaths()) {
+      const dir = this.findDirectory(sourcePath);
+      if (dir && !fs.existsSync(sourcePath)) {
+        await this.processFile(sourcePath, dir);
+        summary.removed++;
+      }
+    }
+
+    this.emitEvent({ type: 'sync_completed', summary });
+  }
+
+  /**
+   * パスの処理をデバウンスして予約
+   */
+  private schedule(filePath: string, dir: string): void {
+    if (!this.running || this.isIgnored(path.relative(dir, filePath))) return;
+
+    const existing = this.timers.get(filePath);
+    if (existing) clearTimeout(existing);
+
+    this.timers.set(
+      filePath,
+      setTimeout(() => {
+        this.timers.delete(filePath);
+        this.pending.set(filePath, dir);
+        this.queue = this.queue
+          .then(() => this.processPath(filePath, dir))
+          .catch((error) => {
+            // 失敗したパスで後続のキューを止めない
+            this.emitEvent({ type: 'error', file: filePath, error: (error as Error).message });
+          });
+      }, this.debounceMs)
+    );
+  }
+
+  /**
+   * 変更のあったパスを処理（ディレクトリなら配下を展開）
+   */
+  private async processPath(filePath: string, dir: string): Promise<void> {
+    if (!this.pending.delete(filePath) || !this.running) return;
+
+    const stats = fs.statSync(filePath, { throwIfNoEntry: false });
+    if (stats?.isDirectory()) {
+      for (const child of this.ingester.walkDirectory(filePath)) {
+        await this.processFile(child, dir);
+      }
+      return;
+    }
+
+    if (!stats) {
+      // ディレクトリごと消えた場合は配下の取り込み済みファイルも消す
+      const prefix = filePath + path.sep;
+      for (const sourcePath of this.vectordb.getIngestedSourcePaths()) {
+        if (sourcePath.startsWith(prefix)) {
+          await this.processFile(sourcePath, dir);
+        }
+      }
+    }
+
+    if (stats?.isFile() === false) return;
+    await this.processFile(filePath, dir);
+  }
+
+  /**
+   * 1ファイルを取り込み直す、または消えていればチャンクを削除
+   */
+  private async processFile(
+    filePath: string,
+    dir: string
+  ): Promise<'added' | 'changed' | 'removed' | 'skipped' | 'error'> {
+    const sourceType: SourceType = this.ingester.inferSourceType(dir);
+
+    try {
+      if (!fs.existsSync(filePath)) {
+        const known = this.vectordb.getIngestionHistory(filePath) !== null;
+        const chunks = this.ingester.removeFile(filePath);
+        if (!known && chunks === 0) return 'skipped';
+        this.emitEvent({ type: 'removed', file: filePath, sourceType, chunks });
+        return 'removed';
+      }
+
+      if (!this.ingester.isSupportedFile(filePath) || !this.ingester.hasChanged(filePath)) {
+        return 'skipped';
+      }
+
+      const type = this.vectordb.getIngestionHistory(filePath) ? 'changed' : 'added';
+      const chunks = await this.ingester.ingestFile(filePath, { sourceType });
+      this.emitEvent({ type, file: filePath, sourceType, chunks });
+      return type;
+    } catch (error) {
+      console.error(`[RAG] Failed to ingest ${filePath}:`, error);
+      this.emitEvent({ type: 'error', file: filePath, sourceType, error: (error as Error).message });
+      return 'error';
+    }
+  }
+
+  /**
+   * ソースパスが属する知識ディレクトリ
+   */
+  private findDirectory(sourcePath: string): string | undefined {
+    return this.dirs.find((dir) => sourcePath.startsWith(dir + path.sep));
+  }
+
+  /**
+   * 隠しディレクトリ・node_modules 配下を無視（walkDirectory と同じ規則）
+   */
+  private isIgnored(relativePath: string): boolean {
+    return relativePath
+      .split(path.sep)
+      .some((segment) => segment.startsWith('.') || segment === 'node_modules');
+  }
+
+  private emitEvent(event: Omit<KnowledgeIngestionEvent, 'pending' | 'totalChunks' | 'timestamp'>): void {
+    this.emit('ingestion', {
+      ...event,
+      pending: this.timers.size + this.pending.size,
+      totalChunks: this.vectordb.getChunkCount(),
+      timestamp: Date.now(),
+    } satisfies KnowledgeIngestionEvent);
+  }
+}
+
+/**
+ * KnowledgeWatcher インスタンスを作成
+ */
+export function createKnowledgeWatcher(
+  ingester: ContentIngester,
+  vectordb: VectorDBManager,
+  options?: KnowledgeWatcherOptions
+): KnowledgeWatcher {
+  return new KnowledgeWatcher(ingester, vectordb, options);
+}
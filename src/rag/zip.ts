@@ -0,0 +1,131 @@
+/**
+ * RAG ZIP Reader Module
+ *
+ * EPUB を読むための最小限の ZIP 展開
+ * 中央ディレクトリからエントリを列挙し、無圧縮・Deflate のエントリだけを展開する（ZIP64・暗号化は非対応）
+ */
+
+import * as zlib from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/** 1 エントリあたりの展開後サイズの上限（圧縮爆弾対策） */
+export const MAX_ZIP_ENTRY_SIZE = 64 * 1024 * 1024;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * ZIP アーカイブ（エントリは読み出し時に展開する）
+ */
+export class ZipArchive {
+  private buffer: Buffer;
+  private entries = new Map<string, ZipEntry>();
+  private maxEntrySize: number;
+
+  constructor(buffer: Buffer, maxEntrySize: number = MAX_ZIP_ENTRY_SIZE) {
+    this.buffer = buffer;
+    this.maxEntrySize = maxEntrySize;
+    this.readCentralDirectory();
+  }
+
+  /**
+   * エントリ名の一覧（ディレクトリを除く）
+   */
+  names(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  /**
+   * エントリを展開して返す（存在しなければ null）
+   * 中央ディレクトリの展開後サイズが上限を超えるエントリ、申告より大きく展開されるエントリは拒否する
+   */
+  read(name: string): Buffer | null {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+    if (entry.uncompressedSize > this.maxEntrySize) {
+      throw new Error(`ZIP entry ${name} is too large (${entry.uncompressedSize} bytes, limit ${this.maxEntrySize})`);
+    }
+
+    const offset = entry.localHeaderOffset;
+    if (this.buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid ZIP local header for ${name}`);
+    }
+    const dataStart = offset + 30 + this.buffer.readUInt16LE(offset + 26) + this.buffer.readUInt16LE(offset + 28);
+    const data = this.buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+    switch (entry.method) {
+      case 0:
+        return Buffer.from(data);
+      case 8:
+        try {
+          return zlib.inflateRawSync(data, { maxOutputLength: Math.max(entry.uncompressedSize, 1) });
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+            throw new Error(`ZIP entry ${name} inflates beyond its declared size of ${entry.uncompressedSize} bytes`);
+          }
+          throw error;
+        }
+      default:
+        throw new Error(`Unsupported ZIP compression method ${entry.method} for ${name}`);
+    }
+  }
+
+  /**
+   * エントリを UTF-8 テキストとして読む
+   */
+  readText(name: string): string | null {
+    return this.read(name)?.toString('utf-8') ?? null;
+  }
+
+  private readCentralDirectory(): void {
+    // 末尾のコメント（最大 65535 バイト）を遡って終端レコードを探す
+    const minOffset = Math.max(0, this.buffer.length - 22 - 0xffff);
+    let end = -1;
+    for (let offset = this.buffer.length - 22; offset >= minOffset; offset--) {
+      if (this.buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+        end = offset;
+        break;
+      }
+    }
+    if (end === -1) {
+      throw new Error('Not a ZIP archive (end of central directory not found)');
+    }
+
+    const count = this.buffer.readUInt16LE(end + 10);
+    let offset = this.buffer.readUInt32LE(end + 16);
+    if (count === 0xffff || offset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+
+    for (let i = 0; i < count; i++) {
+      if (this.buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+        throw new Error('Invalid ZIP central directory');
+      }
+      const nameLength = this.buffer.readUInt16LE(offset + 28);
+      const extraLength = this.buffer.readUInt16LE(offset + 30);
+      const commentLength = this.buffer.readUInt16LE(offset + 32);
+      const name = this.buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+      if (!name.endsWith('/')) {
+        this.entries.set(name, {
+          method: this.buffer.readUInt16LE(offset + 10),
+          compressedSize: this.buffer.readUInt32LE(offset + 20),
+          uncompressedSize: this.buffer.readUInt32LE(offset + 24),
+          localHeaderOffset: this.buffer.readUInt32LE(offset + 42),
+        });
+      }
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+}
@@ -14,16 +14,21 @@ import { fileURLToPath } from 'url';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 import ConsciousnessBackend from './consciousness-backend.js';
-import consciousnessRoutes, { initializeConsciousness } from './routes/consciousness.js';
-import dpdRoutes, { initializeDPDRoutes } from './routes/dpd.js';
+import { createConsciousnessRoutes, SNAPSHOT_RESTORE_PATH } from './routes/consciousness.js';
+import { createDPDRoutes } from './routes/dpd.js';
 import integrationRoutes from './routes/integration.js';
-import logsRoutes, { initializeLogs } from './routes/logs.js';
-import growthRoutes, { initializeGrowthRoutes } from './routes/growth.js';
+import { createLogsRoutes } from './routes/logs.js';
+import { createGrowthRoutes } from './routes/growth.js';
 import agentsRoutes, { initializeAgentsRoute } from './routes/agents.js';
 import yuiDialogueRoutes, { initializeYuiDialogueRoute } from './routes/yui-dialogue.js';
 import { createStimulusRoutes } from './routes/stimulus.js';
 import { createDialogueRoutes, initializeDialogueRoutes } from './routes/dialogue.js';
-import { setupWebSocketHandlers } from './websocket-handler.js';
+import { createInstanceRoutes } from './routes/instances.js';
+import { InstanceManager } from './instance-manager.js';
+import { setupWebSocketHandlers, attachKnowledgeWatcher } from './websocket-handler.js';
+import { createRAGSystem, isRAGEnabled } from '../rag/index.js';
+import type { KnowledgeWatcher } from '../rag/watcher.js';
+import { loadRAGConfig } from '../rag/config.js';
 
 const app = express();
 const server = http.createServer(app);
@@ -31,14 +36,18 @@ const io = new SocketIOServer(server, {
   cors: { origin: '*' }
 });
 
-// Initialize consciousness backend
+// Initialize consciousness backend (primary instance, served at /api/consciousness)
 const consciousness = new ConsciousnessBackend();
 
+// Additional instances (/api/instances/:id/...) run side by side with their own databases
+const instances = new InstanceManager();
+instances.addDefault(consciousness);
+
 // Initialize consciousness for routes
-initializeConsciousness(consciousness);
-initializeLogs(consciousness);
-initializeGrowthRoutes(consciousness);
-initializeDPDRoutes(consciousness);
+const consciousnessRoutes = createConsciousnessRoutes(consciousness);
+const logsRoutes = createLogsRoutes(consciousness);
+const growthRoutes = createGrowthRoutes(consciousness);
+const dpdRoutes = createDPDRoutes(consciousness);
 initializeAgentsRoute(consciousness);
 initializeYuiDialogueRoute(consciousness);
 initializeDialogueRoutes(consciousness.getDatabaseManager(), consciousness);
@@ -49,8 +58,9 @@ const stimulusRoutes = createStimulusRoutes(consciousness);
 // Create dialogue routes
 const dialogueRoutes = createDialogueRoutes();
 
-// Middleware
-app.use(express.json());
+// Middleware (snapshot restore routes parse their larger bodies themselves)
+const jsonBodyParser = express.json();
+app.use((req, res, next) => (SNAPSHOT_RESTORE_PATH.test(req.path) ? next() : jsonBodyParser(req, res, next)));
 
 // Serve static files (for UI)
 app.use(express.static(path.join(__dirname, '../ui')));
@@ -76,13 +86,33 @@ app.use('/api/growth', growthRoutes);
 app.use('/api/agents', agentsRoutes);
 app.use('/api/yui', yuiDialogueRoutes);
 app.use('/api/dialogue', dialogueRoutes); // Simple dialogue system
+app.use('/api/instances', createInstanceRoutes(instances)); // Multi-instance hosting
 app.use('/api', stimulusRoutes); // Stimulus-Response System routes
 
 // ============================================================================
 // WebSocket Integration
 // ============================================================================
 
-setupWebSocketHandlers(io, consciousness);
+setupWebSocketHandlers(io, instances);
+
+// Restore instances saved in the registry (after WebSocket forwarding is set up)
+instances.restore();
+
+// ============================================================================
+// Knowledge Watcher (RAG_WATCH_ENABLED)
+// ============================================================================
+
+let knowledgeWatcher: KnowledgeWatcher | null = null;
+
+if (isRAGEnabled() && loadRAGConfig().watch.enabled) {
+  knowledgeWatcher = createRAGSystem().createWatcher();
+  attachKnowledgeWatcher(io, knowledgeWatcher);
+  // The dashboard listens on SSE, which is fed by the default instance's events
+  knowledgeWatcher.on('ingestion', (event) => consciousness.emit('knowledgeIngestion', event));
+  knowledgeWatcher.start().catch((error) => {
+    console.error('❌ Failed to start knowledge watcher:', error);
+  });
+}
 
 // ============================================================================
 // Server Configuration
@@ -108,7 +138,9 @@ server.listen(PORT, () => {
   console.log('==========================================');
   console.log(`🖥️  Server: http://localhost:${PORT}`);
   console.log(`🧠 Consciousness: Active`);
+  console.log(`🧩 Instances: ${instances.ids().join(', ')}`);
   console.log(`🔌 WebSocket: Ready`);
+  console.log(`📚 Knowledge watcher: ${knowledgeWatcher ? 'Active' : 'Off'}`);
   console.log(`🎯 UI: http://localhost:${PORT}`);
   console.log('🏗️  Architecture: Route Separation Enabled');
   console.log('==========================================');
@@ -131,8 +163,13 @@ const gracefulShutdown = async (signal: string) => {
     console.log('WebSocket server closed');
   });
 
-  // Close database connection
-  consciousness.getDatabaseManager().cleanup();
+  // Stop watching knowledge directories before the vector DB goes away
+  if (knowledgeWatcher) {
+    await knowledgeWatcher.stop();
+  }
+
+  // Stop all instances and close their database connections
+  await instances.shutdownAll();
 
   console.log('Graceful shutdown completed');
   process.exit(0);
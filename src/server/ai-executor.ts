@@ -1,9 +1,21 @@
 /**
  * AI Executor - Use Yui Protocol Implementation
+ *
+ * Provider 'scripted' is served locally by ScriptedAIExecutor (deterministic, no model needed);
+ * every other provider is delegated to Yui Protocol.
  */
 
-// Re-export Yui Protocol's AIExecutor functionality
 // @ts-ignore
-export { createAIExecutor } from '../../yui-protocol/dist/kernel/ai-executor-impl.js';
+import { createAIExecutor as createYuiAIExecutor } from '../../yui-protocol/dist/kernel/ai-executor-impl.js';
+import { ScriptedAIExecutor, SCRIPTED_PROVIDER } from './scripted-executor.js';
+
+// Re-export Yui Protocol's AIExecutor functionality
 // @ts-ignore
-export { AIExecutor } from '../../yui-protocol/dist/kernel/ai-executor.js';
\ No newline at end of file
+export { AIExecutor } from '../../yui-protocol/dist/kernel/ai-executor.js';
+
+export function createAIExecutor(agentName: string, config: any = {}): any {
+  if (config?.provider === SCRIPTED_PROVIDER) {
+    return new ScriptedAIExecutor(agentName, config);
+  }
+  return createYuiAIExecutor(agentName, config);
+}
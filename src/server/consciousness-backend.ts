@@ -15,9 +15,13 @@ import CompilerStage from '../aenea/stages/compiler.js';
 import ScribeStage from '../aenea/stages/scribe.js';
 import WeightUpdateStage from '../aenea/stages/weight-update.js';
 import { StructuredThought, MutualReflection, AuditorResult, SynthesisResult, DocumentationResult, InternalTrigger } from '../types/aenea-types.js';
-import { DPDScores, DPDWeights, ImpactAssessment } from '../types/dpd-types.js';
+import { DPDHumanFeedback, DPDReviewCycle, DPDScores, DPDWeights, ImpactAssessment } from '../types/dpd-types.js';
+import { dpdDimensions, DPDDimensionDefinition, DPDDimensionDescriptor } from '../aenea/core/dpd-dimensions.js';
+import { WEIGHT_LEARNERS, WeightLearner, WeightLearnerId, createWeightLearner, resolveWeightLearnerId } from '../aenea/core/weight-learners.js';
+import { DPD_SCORERS, DPDCalibrationModel, DPDCalibrationSample, DPDEnsemble, fitDPDCalibration, resolveEnsembleMode, scoreDPDKeywords } from '../aenea/core/dpd-ensemble.js';
 import { MemoryConsolidator } from '../aenea/memory/memory-consolidator.js';
 import { CoreBeliefs } from '../aenea/memory/core-beliefs.js';
+import { KnowledgeGraphBuilder, KnowledgeGraph, KnowledgeGraphStats, GraphRelation, queryNeighbourhood, summarizeKnowledgeGraph } from '../aenea/memory/knowledge-graph.js';
 import { theoriaConfig } from '../aenea/agents/theoria.js';
 import { pathiaConfig } from '../aenea/agents/pathia.js';
 import { kinesisConfig } from '../aenea/agents/kinesis.js';
@@ -38,8 +42,15 @@ import { LifespanManager } from '../aenea/mortality/lifespan-manager.js';
 import { AgingEngine } from '../aenea/mortality/aging-engine.js';
 import { MortalityInjector } from '../aenea/mortality/mortality-injector.js';
 import { DeathHandler } from '../aenea/mortality/death-handler.js';
-
-interface ThoughtCycle {
+import { LineageManager, InheritancePolicy, InheritancePolicySpec, resolveInheritancePolicy } from '../aenea/mortality/lineage.js';
+import { CycleCassette, CassetteOutcomeKind } from './cycle-cassette.js';
+import { ConsciousnessSnapshot, SnapshotRestoreResult } from './consciousness-snapshot.js';
+import { ReconstructedState, StateDiff, reconstructStateAt, diffStates } from './time-travel.js';
+import { DPDReplayResult, DPDReplayVariant, runDPDReplay } from './dpd-replay.js';
+import { DPDFeedbackInput, toSupervisedTarget } from './dpd-feedback.js';
+import { StageRegistry, PipelineStageDefinition, PipelineExecutionMode, PlannedStage, StagePosition, StageCompletionDetails, parseStageOrder } from '../aenea/stages/stage-registry.js';
+
+export interface ThoughtCycle {
   id: string;
   timestamp: number;
   trigger: InternalTrigger;
@@ -55,8 +66,27 @@ interface ThoughtCycle {
   duration?: number;
   totalEnergy: number;
   totalStages: number;
+  extensions?: Record<string, any>;  // Outputs of custom pipeline stages
 }
 
+/**
+ * Per-instance configuration (see InstanceManager). Omitted fields fall back to the
+ * process-wide defaults (data/aenea_consciousness.db, shared EnergyManager, env mortality mode).
+ */
+export interface ConsciousnessBackendOptions {
+  instanceId?: string;
+  dbPath?: string;
+  energyManager?: EnergyManager;
+  mortalityMode?: 'A' | 'B';
+  inheritancePolicy?: InheritancePolicySpec;  // Default: AENEA_INHERITANCE_POLICY (balanced)
+  agentModels?: Record<string, { provider?: string; model?: string }>;  // Override provider/model per agent id
+  weightLearner?: WeightLearnerId;  // U-stage weight learner (default: DPD_WEIGHT_LEARNER, else multiplicative)
+  ragVectorDbPath?: string;  // RAG vector store for self-ingested dialogue/recall (default: RAG_VECTORDB_PATH)
+  sleep?: (ms: number) => Promise<void>;  // Replaces wall-clock waits (loop pacing, aging delay), e.g. VirtualClock.sleep
+}
+
+export const DEFAULT_INSTANCE_ID = 'default';
+
 export interface ConsciousnessState {
   systemClock: number;
   energy: number;
@@ -68,6 +98,7 @@ export interface ConsciousnessState {
   lastActivity: string;
   dpdWeights: DPDWeights;
   somniaState?: SomniaState;
+  hostInstanceId?: string;  // Server-hosted instance (InstanceManager id), not the mortality life id
   mortality?: {
     instanceId: string;
     lifespanMax: number;
@@ -114,12 +145,26 @@ class ConsciousnessBackend extends EventEmitter {
   private scribeStage: ScribeStage;
   private weightUpdateStage: WeightUpdateStage;
 
+  // DPD scoring ensemble (calibrated confidence intervals, disagreement alerts)
+  private dpdEnsemble: DPDEnsemble;
+  private secondaryEvaluatorAgent?: AIExecutor;
+
+  // Human DPD feedback becomes U-stage supervised targets only with DPD_FEEDBACK_SUPERVISION=true (or per submission)
+  private dpdFeedbackSupervision: boolean = process.env.DPD_FEEDBACK_SUPERVISION === 'true';
+
+  // Pluggable S1-U pipeline (order configurable via THOUGHT_PIPELINE_ORDER)
+  private stageRegistry: StageRegistry<ThoughtCycle> = new StageRegistry<ThoughtCycle>();
+  private static readonly S0_ENERGY_COST = 1.0;
+  private static readonly FULL_MODE_ENERGY_HEADROOM = 1.0;
+
   // DPD weights for consciousness evolution
   private dpdWeights: DPDWeights;
 
   // Memory evolution systems
   private memoryConsolidator: MemoryConsolidator;
   private coreBeliefs: CoreBeliefs;
+  private knowledgeGraph: KnowledgeGraphBuilder;
+  private knowledgeGraphBuilt: boolean = false;
   private lastConsolidationTime: number;
 
   // Content cleanup service
@@ -147,11 +192,28 @@ class ConsciousnessBackend extends EventEmitter {
   private lifespanManager!: LifespanManager;
   private mortalityInjector!: MortalityInjector;
   private deathHandler!: DeathHandler;
+  private lineage!: LineageManager;
+  private inheritancePolicy: InheritancePolicy;
+
+  // Record/replay of agent calls for regression testing (CASSETTE_MODE)
+  private cassette: CycleCassette | null = null;
+
+  // Hosting instance (multiple consciousnesses can run side by side in one server)
+  private readonly instanceId: string;
+  private readonly ragVectorDbPath?: string;
+  private readonly mortalityMode: 'A' | 'B';
+  private readonly sleepOverride: ((ms: number) => Promise<void>) | null;
 
-  constructor() {
+  constructor(options: ConsciousnessBackendOptions = {}) {
     super(); // Call EventEmitter constructor
 
     // Initialize properties after super() call
+    this.instanceId = options.instanceId || DEFAULT_INSTANCE_ID;
+    this.ragVectorDbPath = options.ragVectorDbPath;
+    this.mortalityMode = options.mortalityMode
+      ?? ((process.env.AENEA_MORTALITY_MODE === 'A' || process.env.MORTALITY_MODE === 'A') ? 'A' : 'B');
+    this.inheritancePolicy = resolveInheritancePolicy(options.inheritancePolicy);
+    this.sleepOverride = options.sleep ?? null;
     this.systemClock = 0;
     this.questionHistory = [];
     this.thoughtHistory = [];
@@ -165,19 +227,13 @@ class ConsciousnessBackend extends EventEmitter {
     this.criticalModeDuration = 0;
     this.agents = new Map<string, AIExecutor>();
     this.lastSaveTime = 0;
-    this.databaseManager = new DatabaseManager();
-    this.energyManager = getEnergyManager();
+    this.databaseManager = new DatabaseManager(options.dbPath);
+    this.energyManager = options.energyManager ?? getEnergyManager();
     this.pendingManualTrigger = null;
     this.previousDpdScores = null;
 
     // Initialize DPD weights with defaults (will be overwritten by restoreFromDatabase if data exists)
-    this.dpdWeights = {
-      empathy: 0.33,
-      coherence: 0.33,
-      dissonance: 0.34,
-      version: 1,
-      timestamp: Date.now()
-    };
+    this.dpdWeights = dpdDimensions.defaultWeights();
 
     // Initialize question categorizer for diversity management
     this.questionCategorizer = createQuestionCategorizer();
@@ -208,43 +264,41 @@ class ConsciousnessBackend extends EventEmitter {
 
     // Initialize AI agents with individual configurations (including generation params)
     log.info('Consciousness', `Initializing AI agents with individual configurations`);
+    const agentModel = (agentId: string, provider: string, model: string) => ({
+      provider: (options.agentModels?.[agentId]?.provider ?? provider) as any,
+      model: options.agentModels?.[agentId]?.model ?? model
+    });
 
     this.agents.set('theoria', createAIExecutor('theoria', {
-      provider: theoriaConfig.modelConfig.provider as any,
-      model: theoriaConfig.modelConfig.model,
+      ...agentModel('theoria', theoriaConfig.modelConfig.provider, theoriaConfig.modelConfig.model),
       ...theoriaConfig.generationParams
     }));
 
     this.agents.set('pathia', createAIExecutor('pathia', {
-      provider: pathiaConfig.modelConfig.provider as any,
-      model: pathiaConfig.modelConfig.model,
+      ...agentModel('pathia', pathiaConfig.modelConfig.provider, pathiaConfig.modelConfig.model),
       ...pathiaConfig.generationParams
     }));
 
     this.agents.set('kinesis', createAIExecutor('kinesis', {
-      provider: kinesisConfig.modelConfig.provider as any,
-      model: kinesisConfig.modelConfig.model,
+      ...agentModel('kinesis', kinesisConfig.modelConfig.provider, kinesisConfig.modelConfig.model),
       ...kinesisConfig.generationParams
     }));
 
     // System agent for internal processing (Compiler & Scribe)
     this.agents.set('system', createAIExecutor('system', {
-      provider: systemConfig.modelConfig.provider as any,
-      model: systemConfig.modelConfig.model,
+      ...agentModel('system', systemConfig.modelConfig.provider, systemConfig.modelConfig.model),
       ...systemConfig.generationParams
     }));
 
     // Aenea core agent for unified consciousness (dialogue + question generation)
     this.agents.set('aenea', createAIExecutor('aenea', {
-      provider: aeneaConfig.provider as any,
-      model: aeneaConfig.model,
+      ...agentModel('aenea', aeneaConfig.provider, aeneaConfig.model),
       ...aeneaConfig.generationParams
     }));
 
     // Somnia Interoceptive Cortex agent (Slow Track for body feelings)
     this.agents.set('somnia', createAIExecutor('somnia', {
-      provider: somniaAgentConfig.modelConfig.provider as any,
-      model: somniaAgentConfig.modelConfig.model,
+      ...agentModel('somnia', somniaAgentConfig.modelConfig.provider, somniaAgentConfig.modelConfig.model),
       ...somniaAgentConfig.generationParams
     }));
 
@@ -261,10 +315,24 @@ class ConsciousnessBackend extends EventEmitter {
     log.info('Consciousness', `    Temperature: ${somniaAgentConfig.generationParams.temperature}, Role: Interoceptive Cortex (Slow Track)`);
     log.info('Consciousness', `  - ${aeneaConfig.displayName}: ${aeneaConfig.provider}/${aeneaConfig.model}`);
     log.info('Consciousness', `    Temperature: ${aeneaConfig.generationParams.temperature}, Role: Unified consciousness (dialogue + questions)`);
+    for (const [agentId, override] of Object.entries(options.agentModels ?? {})) {
+      log.info('Consciousness', `  - ${agentId} overridden for instance '${this.instanceId}': ${override.provider ?? '(default)'}/${override.model ?? '(default)'}`);
+    }
+
+    // Cassette sits below the mortality wrapper so it captures the prompts the model actually sees
+    this.cassette = CycleCassette.fromEnv(this.instanceId === DEFAULT_INSTANCE_ID ? undefined : this.instanceId);
+    if (this.cassette) {
+      const cassette = this.cassette;
+      this.on('stageChanged', (data: any) => cassette.setStage(data.stage));
+      this.on('sleepStarted', () => cassette.setStage('sleep'));
+      this.on('sleepCompleted', () => cassette.setStage('idle'));
+    }
 
     // Wrap execute method of each agent to inject mortality prompt
     for (const [agentId, agent] of this.agents.entries()) {
-      const originalExecute = agent.execute.bind(agent);
+      const originalExecute = this.cassette
+        ? this.cassette.wrap(agentId, agent.execute.bind(agent))
+        : agent.execute.bind(agent);
       agent.execute = async (prompt: string, systemPrompt?: string) => {
         let injectedSystemPrompt = systemPrompt || '';
         const isCoreAgent = ['theoria', 'pathia', 'kinesis', 'aenea', 'system'].includes(agentId);
@@ -276,21 +344,41 @@ class ConsciousnessBackend extends EventEmitter {
       };
     }
 
-    // Initialize DPD Engine
-    this.weightUpdateStage = new WeightUpdateStage(undefined, this);
+    // Initialize DPD Engine (weight learner state survives restarts)
+    const weightLearner = createWeightLearner(options.weightLearner ?? resolveWeightLearnerId(process.env.DPD_WEIGHT_LEARNER));
+    this.restoreWeightLearnerState(weightLearner);
+    this.weightUpdateStage = new WeightUpdateStage(undefined, this, weightLearner);
+    this.restoreSupervisedFeedback();
 
     // Initialize stage processors with agents and event emitter
-    this.individualThoughtStage = new IndividualThoughtStage(this.agents, this.databaseManager, this);
+    this.individualThoughtStage = new IndividualThoughtStage(this.agents, this.databaseManager, this, this.ragVectorDbPath);
     this.mutualReflectionStage = new MutualReflectionStage(this.agents, this);
 
+    // DPD scoring ensemble (calibration fitted on human labels survives restarts)
+    this.dpdEnsemble = new DPDEnsemble(this.databaseManager.getDPDCalibration(), {
+      mode: resolveEnsembleMode(process.env.DPD_ENSEMBLE_MODE),
+      disagreementThreshold: parseFloat(process.env.DPD_DISAGREEMENT_THRESHOLD || '') || undefined
+    });
+    if (process.env.DPD_SECONDARY_PROVIDER && process.env.DPD_SECONDARY_MODEL) {
+      this.secondaryEvaluatorAgent = createAIExecutor('dpd_secondary', {
+        provider: process.env.DPD_SECONDARY_PROVIDER,
+        model: process.env.DPD_SECONDARY_MODEL,
+        ...systemConfig.generationParams
+      });
+      log.info('Consciousness', `  - DPD secondary evaluator: ${process.env.DPD_SECONDARY_PROVIDER}/${process.env.DPD_SECONDARY_MODEL}`);
+    }
+
     // Use system agent for Auditor, DPD Assessment, Compiler and Scribe stages
     const systemAgent = this.agents.get('system');
     this.auditorStage = new AuditorStage(systemAgent, this);
-    this.dpdAssessmentStage = new DPDAssessmentStage(this.dpdWeights, systemAgent, this);
+    this.dpdAssessmentStage = new DPDAssessmentStage(this.dpdWeights, systemAgent, this, this.weightUpdateStage.getLearner(), this.dpdEnsemble, this.secondaryEvaluatorAgent);
 
     this.compilerStage = new CompilerStage(systemAgent, this);
     this.scribeStage = new ScribeStage(systemAgent, this);
 
+    // Register the default pipeline and apply any configured order
+    this.registerDefaultPipelineStages();
+
     // Get Aenea core agent for unified consciousness operations
     // Aenea embodies "I am made of questions" and consolidates its own memories
     const aeneaAgent = this.agents.get('aenea');
@@ -299,6 +387,7 @@ class ConsciousnessBackend extends EventEmitter {
     // Memory consolidation is part of Aenea's self-reflection and identity formation
     this.memoryConsolidator = new MemoryConsolidator(this.databaseManager, aeneaAgent);
     this.coreBeliefs = new CoreBeliefs(this.databaseManager, 500);
+    this.knowledgeGraph = new KnowledgeGraphBuilder(this.databaseManager);
     this.lastConsolidationTime = 0;
 
     // Initialize internal trigger generator (S0)
@@ -321,7 +410,8 @@ class ConsciousnessBackend extends EventEmitter {
       this.databaseManager,
       this.questionCategorizer,
       aeneaAgent, // Aenea generates questions as its core identity
-      (event: string, data: any) => this.emit(event, data)
+      (event: string, data: any) => this.emit(event, data),
+      this.ragVectorDbPath
     );
     log.info('Consciousness', '✅ Internal Trigger Generator (S0) initialized with Aenea core agent');
 
@@ -358,6 +448,7 @@ class ConsciousnessBackend extends EventEmitter {
       console.log('[DEBUG] restoreFromDatabase called');
 
       // Initialize/load LifespanManager first
+      this.lineage = new LineageManager(this.databaseManager, this.inheritancePolicy);
       try {
         const mortalityRecord = this.databaseManager.getLatestMortalityState();
         if (mortalityRecord && !mortalityRecord.died_at) {
@@ -370,18 +461,19 @@ class ConsciousnessBackend extends EventEmitter {
             diedAt: mortalityRecord.died_at
           });
           log.info('Mortality', `Restored mortality state for instance: ${mortalityRecord.instance_id} (${mortalityRecord.current_cycle}/${mortalityRecord.lifespan_max})`);
+          this.lineage.ensureRecorded(this.lifespanManager.getState());
         } else {
-          const defaultMode = (process.env.AENEA_MORTALITY_MODE === 'A' || process.env.MORTALITY_MODE === 'A') ? 'A' : 'B';
-          this.lifespanManager = new LifespanManager({ mode: defaultMode });
-          this.databaseManager.saveMortalityState(this.lifespanManager.getState());
-          log.info('Mortality', `Created new mortality instance: ${this.lifespanManager.getInstanceId()} with mode ${defaultMode}`);
+          // A deceased predecessor becomes the parent of the new generation
+          const parentInstanceId = mortalityRecord?.died_at ? mortalityRecord.instance_id : null;
+          this.beginLifespan(parentInstanceId, parentInstanceId ? this.databaseManager.getLatestDPDWeights() : null);
+          log.info('Mortality', `Created new mortality instance: ${this.lifespanManager.getInstanceId()} with mode ${this.mortalityMode}`);
         }
       } catch (mortError) {
         log.error('Mortality', 'Failed to restore or initialize mortality, using default instance', mortError);
         this.lifespanManager = new LifespanManager();
       }
       this.mortalityInjector = new MortalityInjector(this.lifespanManager);
-      this.deathHandler = new DeathHandler(this.lifespanManager, this.databaseManager, this.agents);
+      this.deathHandler = this.createDeathHandler();
 
       const consciousnessState = this.databaseManager.getConsciousnessState();
       console.log('[DEBUG] consciousnessState:', consciousnessState);
@@ -505,25 +597,21 @@ class ConsciousnessBackend extends EventEmitter {
       console.log('[DEBUG] latestWeights:', latestWeights);
 
       if (latestWeights) {
-        this.dpdWeights = {
+        // Dimensions registered since the weights were saved get their default share
+        this.dpdWeights = dpdDimensions.resolveWeights({
           empathy: latestWeights.empathy,
           coherence: latestWeights.coherence,
           dissonance: latestWeights.dissonance,
+          ...(latestWeights.dimensions ? { dimensions: latestWeights.dimensions } : {}),
           timestamp: latestWeights.timestamp,
           version: latestWeights.version
-        };
+        });
         log.info('Consciousness', `🧠 Loaded DPD weights from database: version=${latestWeights.version}, empathy=${latestWeights.empathy.toFixed(3)}, coherence=${latestWeights.coherence.toFixed(3)}, dissonance=${latestWeights.dissonance.toFixed(3)}`);
         console.log('[DEBUG] DPD weights set to:', this.dpdWeights);
       } else {
         console.log('[DEBUG] No weights found in database, using defaults');
         // 2. Initialize default DPD weights if none exist in database
-        this.dpdWeights = {
-          empathy: 0.33,
-          coherence: 0.33,
-          dissonance: 0.34,
-          timestamp: Date.now(),
-          version: 1
-        };
+        this.dpdWeights = dpdDimensions.defaultWeights();
         log.info('Consciousness', '🧠 No DPD weights in database - initialized default weights');
 
         // Save initial weights to database
@@ -540,21 +628,11 @@ class ConsciousnessBackend extends EventEmitter {
 
   private initializeFreshConsciousness(): void {
     if (!this.lifespanManager) {
-      const defaultMode = (process.env.AENEA_MORTALITY_MODE === 'A' || process.env.MORTALITY_MODE === 'A') ? 'A' : 'B';
-      this.lifespanManager = new LifespanManager({ mode: defaultMode });
-      this.databaseManager.saveMortalityState(this.lifespanManager.getState());
-      this.mortalityInjector = new MortalityInjector(this.lifespanManager);
-      this.deathHandler = new DeathHandler(this.lifespanManager, this.databaseManager, this.agents);
+      this.beginLifespan(null, null);
     }
 
     this.systemClock = 0;
-    this.dpdWeights = {
-      empathy: 0.33,
-      coherence: 0.33,
-      dissonance: 0.34,
-      timestamp: Date.now(),
-      version: 1
-    };
+    this.dpdWeights = dpdDimensions.defaultWeights();
     this.questionHistory = [];
     this.thoughtHistory = [];
     this.energyManager.resetEnergy();
@@ -565,6 +643,161 @@ class ConsciousnessBackend extends EventEmitter {
     log.info('Consciousness', 'Fresh consciousness initialized with default values');
   }
 
+  // ============================================================================
+  // Lineage (generations across deaths)
+  // ============================================================================
+
+  /**
+   * Start a new life. With a deceased parent, the inheritance policy decides which beliefs,
+   * questions and (drifted/mutated) DPD weights the new generation receives.
+   */
+  private beginLifespan(parentInstanceId: string | null, parentWeights: DPDWeights | null): void {
+    this.lifespanManager = new LifespanManager({ mode: this.mortalityMode });
+    this.databaseManager.saveMortalityState(this.lifespanManager.getState());
+    this.mortalityInjector = new MortalityInjector(this.lifespanManager);
+    this.deathHandler = this.createDeathHandler();
+
+    const inheritance = this.lineage.recordBirth(this.lifespanManager.getState(), parentInstanceId, parentWeights);
+    if (inheritance.dpdWeights) {
+      this.dpdWeights = dpdDimensions.normalizeWeights({
+        ...inheritance.dpdWeights,
+        version: (parentWeights?.version || 1) + 1,
+        timestamp: Date.now()
+      });
+      this.databaseManager.saveDPDWeights({
+        ...this.dpdWeights,
+        triggerType: 'inheritance',
+        context: `Inherited from ${parentInstanceId}`
+      });
+    }
+
+    if (parentInstanceId) {
+      this.emit('generationBorn', {
+        instanceId: this.lifespanManager.getInstanceId(),
+        parentInstanceId,
+        policy: this.lineage.getPolicy().name,
+        inheritedBeliefs: inheritance.beliefs.length,
+        inheritedQuestions: inheritance.questions.map(q => q.question),
+        dpdWeights: inheritance.dpdWeights,
+        timestamp: Date.now()
+      });
+    }
+  }
+
+  private createDeathHandler(): DeathHandler {
+    return new DeathHandler(this.lifespanManager, this.databaseManager, this.agents, (state) => {
+      this.lineage.recordDeath(state, {
+        ...this.calculatePersonalityTraits(),
+        dpdWeights: dpdDimensions.fromRecord(dpdDimensions.toRecord(this.dpdWeights)),
+        systemClock: this.systemClock
+      });
+      this.emit('generationDied', {
+        instanceId: state.instanceId,
+        cyclesLived: state.currentCycle,
+        lifespanMax: state.lifespanMax,
+        timestamp: Date.now()
+      });
+    });
+  }
+
+  /**
+   * Family tree of all generations (last words, lifespan, personality snapshot, inheritance)
+   */
+  getLineage() {
+    return {
+      currentInstanceId: this.lifespanManager?.getInstanceId() ?? null,
+      policy: this.lineage.getPolicy(),
+      generations: this.lineage.getFamilyTree()
+    };
+  }
+
+  getLineageRecord(instanceId: string) {
+    return this.databaseManager.getLineageRecord(instanceId);
+  }
+
+  // ============================================================================
+  // Time travel (state at a past system clock)
+  // ============================================================================
+
+  /**
+   * Reconstruct DPD weights, beliefs, SOMNIA, energy, lifespan and unresolved ideas at a clock
+   */
+  getStateAt(systemClock: number): ReconstructedState | null {
+    return reconstructStateAt(this.databaseManager, systemClock);
+  }
+
+  /**
+   * Compare the reconstructed states at two clocks
+   */
+  diffStatesAt(fromClock: number, toClock: number): { from: ReconstructedState; to: ReconstructedState; diff: StateDiff } | null {
+    const from = this.getStateAt(fromClock);
+    const to = this.getStateAt(toClock);
+    if (!from || !to) {
+      return null;
+    }
+    return { from, to, diff: diffStates(from, to) };
+  }
+
+  // ============================================================================
+  // Snapshots (export / restore a living instance)
+  // ============================================================================
+
+  /**
+   * Export the current consciousness as a portable archive (state is flushed first)
+   */
+  exportSnapshot(): ConsciousnessSnapshot {
+    this.saveConsciousnessState();
+    this.databaseManager.saveSomniaState(this.somnia.getState());
+    if (this.lifespanManager) {
+      this.databaseManager.saveMortalityState(this.lifespanManager.getState());
+    }
+
+    const snapshot = this.databaseManager.exportSnapshot({
+      instanceId: this.instanceId,
+      systemClock: this.systemClock,
+      mortalityInstanceId: this.lifespanManager?.getInstanceId() ?? null
+    });
+    if (!snapshot) {
+      throw new Error('Failed to export snapshot');
+    }
+    return snapshot;
+  }
+
+  /**
+   * Replace this instance's consciousness with an archive. Only allowed while stopped.
+   */
+  restoreSnapshot(data: any): SnapshotRestoreResult {
+    if (this.isRunning) {
+      throw new Error('Consciousness must be stopped before restoring a snapshot');
+    }
+
+    const result = this.databaseManager.importSnapshot(data);
+    this.restoreFromDatabase();
+
+    // The weight learner's state (Hedge losses, EXP3 / Thompson posteriors, regret) belongs to
+    // the restored weights; version 1 archives carry none and start the learner fresh
+    const weightLearner = createWeightLearner(this.weightUpdateStage.getLearner().id);
+    if (result.restored.weight_learner_state) {
+      this.restoreWeightLearnerState(weightLearner);
+    } else {
+      result.warnings.push(`weight_learner_state: empty in snapshot, '${weightLearner.id}' learner restarted`);
+    }
+    this.weightUpdateStage = new WeightUpdateStage(undefined, this, weightLearner);
+    this.restoreSupervisedFeedback();
+
+    // S4 keeps its own copy of the weights; restart it from the restored ones
+    this.dpdAssessmentStage = new DPDAssessmentStage(this.dpdWeights, this.agents.get('system'), this, this.weightUpdateStage.getLearner(), this.dpdEnsemble, this.secondaryEvaluatorAgent);
+
+    this.emit('snapshotRestored', {
+      version: result.version,
+      restored: result.restored,
+      systemClock: this.systemClock,
+      timestamp: Date.now()
+    });
+    log.info('Consciousness', `Snapshot restored: clock=${this.systemClock}, mortality instance ${this.lifespanManager?.getInstanceId()}`);
+    return result;
+  }
+
   private recordPersonalitySnapshot(): void {
     try {
       const traits = this.calculatePersonalityTraits();
@@ -614,6 +847,7 @@ class ConsciousnessBackend extends EventEmitter {
       lastActivity: new Date().toISOString(),
       dpdWeights: this.dpdWeights,
       somniaState: this.somnia.getState(),
+      hostInstanceId: this.instanceId,
       mortality: this.lifespanManager ? {
         instanceId: this.lifespanManager.getInstanceId(),
         lifespanMax: this.lifespanManager.getLifespanMax(),
@@ -635,6 +869,19 @@ class ConsciousnessBackend extends EventEmitter {
     return this.databaseManager;
   }
 
+  getInstanceId(): string {
+    return this.instanceId;
+  }
+
+  /** RAG vector store of this instance (undefined: the shared RAG_VECTORDB_PATH store) */
+  getRAGVectorDbPath(): string | undefined {
+    return this.ragVectorDbPath;
+  }
+
+  getEnergyManager(): EnergyManager {
+    return this.energyManager;
+  }
+
   private saveConsciousnessState(): void {
     try {
       const currentEnergy = this.energyManager.getEnergyState().available;
@@ -669,14 +916,12 @@ class ConsciousnessBackend extends EventEmitter {
     // Ensure database connection is open
     this.databaseManager.ensureConnection();
 
-    // If the previous instance died, initialize a fresh one
+    // If the previous instance died, the next generation is born from it
     if (this.lifespanManager && !this.lifespanManager.isAlive()) {
-      const defaultMode = (process.env.AENEA_MORTALITY_MODE === 'A' || process.env.MORTALITY_MODE === 'A') ? 'A' : 'B';
-      this.lifespanManager = new LifespanManager({ mode: defaultMode });
-      this.databaseManager.saveMortalityState(this.lifespanManager.getState());
-      
-      this.mortalityInjector = new MortalityInjector(this.lifespanManager);
-      this.deathHandler = new DeathHandler(this.lifespanManager, this.databaseManager, this.agents);
+      this.beginLifespan(this.lifespanManager.getInstanceId(), this.dpdWeights);
+
+      // S4 keeps its own copy of the weights; restart it from the inherited ones
+      this.dpdAssessmentStage = new DPDAssessmentStage(this.dpdWeights, this.agents.get('system'), this, this.weightUpdateStage.getLearner(), this.dpdEnsemble, this.secondaryEvaluatorAgent);
       log.info('Mortality', `Spawned fresh instance for new run: ${this.lifespanManager.getInstanceId()}`);
     }
 
@@ -737,6 +982,18 @@ class ConsciousnessBackend extends EventEmitter {
     log.info('Consciousness', 'Stopped');
   }
 
+  /**
+   * Release the instance: stop the loop if running and close the database
+   */
+  async shutdown(): Promise<void> {
+    if (this.isRunning) {
+      await this.stop();
+    } else {
+      this.databaseManager.cleanup();
+    }
+    log.info('Consciousness', `Instance '${this.instanceId}' shut down`);
+  }
+
   // ============================================================================
   // Thought Cycle Processing
   // ============================================================================
@@ -816,10 +1073,10 @@ class ConsciousnessBackend extends EventEmitter {
 
     try {
       // Calculate minimum energy required for a thought cycle
-      // Critical mode minimum: S0(1.0) + S1(1.0) + S5(0.8) + S6(0.3) + U(0.2) = 3.3
-      // Plus minEnergy reserve (5.0) = 8.3 total needed
+      // Critical mode minimum: S0(1.0) + critical plan (S1:1.0 + S4 heuristic:0.1 + S5:0.8 + S6:0.3 + U:0.2 by default)
+      // Plus minEnergy reserve (5.0)
       const energyState = this.energyManager.getEnergyState();
-      const minimumCycleEnergy = 3.3;
+      const minimumCycleEnergy = this.getCycleEnergyRequirement('critical');
       const minEnergyReserve = 5.0; // Must maintain minimum energy reserve
       const minimumEnergyRequired = minimumCycleEnergy + minEnergyReserve;
 
@@ -996,22 +1253,22 @@ class ConsciousnessBackend extends EventEmitter {
 
     // Adaptive execution based on energy availability
     const energyState = this.energyManager.getEnergyState();
-    let executionMode = 'full';
-    let requiredEnergy = 3.3; // Critical mode minimum
+    let executionMode: PipelineExecutionMode = 'full';
 
     if (energyState.available < 20) {
-      executionMode = 'critical'; // Only essential stages
-      requiredEnergy = 3.3; // S0(1.0) + S1(1.0) + S5(0.8) + S6(0.3) + U(0.2)
+      executionMode = 'critical'; // Only essential stages (skippable stages dropped, fallbacks used)
     } else if (energyState.available < 50) {
       executionMode = 'low'; // Reduced processing
-      requiredEnergy = 4.8; // Critical + S2(0.5) + S3(0.5) + S4(0.5)
     } else {
       executionMode = 'full';
-      requiredEnergy = 5.8; // All stages at full capacity
     }
 
+    // S0 + planned stage costs (full mode keeps headroom for all stages at full capacity)
+    const requiredEnergy = this.getCycleEnergyRequirement(executionMode);
+
     // Reserve energy for the entire thought cycle to prevent interruption
     const energyReserved = this.energyManager.reserveEnergy(requiredEnergy, `thought_cycle_${thoughtCycle.id}`);
+    this.cassette?.setCycle(thoughtCycle.id);
 
     if (!energyReserved) {
       log.warn('ThoughtCycle', `⚠️ Failed to reserve ${requiredEnergy} energy - aborting cycle`);
@@ -1046,22 +1303,11 @@ class ConsciousnessBackend extends EventEmitter {
         category: trigger.category
       });
 
-      // Stage execution based on energy mode
-      await this.executeIndividualThought(thoughtCycle);
-
-      if (executionMode !== 'critical') {
-        await this.executeMutualReflection(thoughtCycle);
-        await this.executeAuditor(thoughtCycle);
-        await this.executeDPDAssessment(thoughtCycle);
-      } else {
-        // Critical mode: Use fast heuristic DPD scoring
-        await this.executeFallbackDPDAssessment(thoughtCycle);
+      // Stage execution based on energy mode (critical mode skips S2/S3 and uses heuristic S4)
+      for (const stage of this.stageRegistry.resolvePlan(executionMode)) {
+        await this.runPipelineStage(stage, thoughtCycle, executionMode);
       }
 
-      await this.executeCompiler(thoughtCycle);
-      await this.executeScribe(thoughtCycle);
-      await this.executeWeightUpdate(thoughtCycle);
-
       // Record significant thoughts (with content cleanup)
       await this.recordSignificantThoughtsFromCycle(thoughtCycle);
 
@@ -1092,11 +1338,31 @@ class ConsciousnessBackend extends EventEmitter {
 
       // Save completed thought cycle to database
       this.databaseManager.saveThoughtCycle(thoughtCycle);
+      this.recordThoughtProvenance(thoughtCycle);
+      this.databaseManager.recordClockTick({
+        systemClock: this.systemClock,
+        timestamp: Date.now(),
+        cycleId: thoughtCycle.id,
+        energy: this.energyManager.getEnergyState().available,
+        mortality: this.lifespanManager ? this.lifespanManager.getState() : null
+      });
 
       // Periodic memory consolidation (every 5 cycles)
       // Sleep Mode provides deeper consolidation and belief merging
       await this.performPeriodicConsolidation();
 
+      this.recordCassetteOutcome('cycle', {
+        dpdScores: thoughtCycle.dpdScores ? {
+          empathy: thoughtCycle.dpdScores.empathy,
+          coherence: thoughtCycle.dpdScores.coherence,
+          dissonance: thoughtCycle.dpdScores.dissonance,
+          weightedTotal: thoughtCycle.dpdScores.weightedTotal
+        } : null,
+        unresolvedQuestions: thoughtCycle.synthesis?.unresolvedQuestions ?? [],
+        futureQuestions: thoughtCycle.documentation?.futureQuestions ?? [],
+        beliefs: this.databaseManager.getTopCoreBeliefs(20).map(b => b.belief_content)
+      });
+
       // Emit completion event with minimal essential data (not full thoughtCycle)
       const currentState = this.getState();
       const statistics = this.getStatistics();
@@ -1142,55 +1408,236 @@ class ConsciousnessBackend extends EventEmitter {
       thoughtCycle.status = 'failed';
       log.error('Consciousness', 'Thought cycle failed', error);
       this.emit('thoughtCycleFailed', { id: thoughtCycle.id, error: (error as Error).message });
+    } finally {
+      this.cassette?.setCycle(null);
+      this.cassette?.setStage('idle');
     }
   }
 
+  /**
+   * Record a cycle/sleep outcome to the cassette, or diff it against the recording in replay mode
+   */
+  private recordCassetteOutcome(kind: CassetteOutcomeKind, data: Record<string, any>): void {
+    if (!this.cassette) return;
+
+    const diff = this.cassette.recordOutcome(kind, data);
+    if (diff) {
+      const report = this.cassette.getReport();
+      this.emit('cassetteOutcomeDiff', {
+        ...diff,
+        report: {
+          callsReplayed: report.callsReplayed,
+          callsMissing: report.callsMissing,
+          promptDrift: report.promptDrift
+        },
+        timestamp: Date.now()
+      });
+    }
+  }
+
+  /**
+   * Get cassette record/replay status (null when CASSETTE_MODE is not set)
+   */
+  getCassetteReport() {
+    if (!this.cassette) return null;
+    return { mode: this.cassette.mode, ...this.cassette.getReport() };
+  }
+
   // ============================================================================
-  // Stage Execution Methods
+  // Stage Pipeline
   // ============================================================================
 
-  private async executeIndividualThought(thoughtCycle: ThoughtCycle): Promise<void> {
+  /**
+   * Register the built-in S1-U stages with their ThoughtCycle inputs/outputs and energy costs
+   */
+  private registerDefaultPipelineStages(): void {
+    this.stageRegistry.register({
+      id: 'S1',
+      name: 'Individual Thought',
+      inputs: ['trigger'],
+      outputs: ['thoughts'],
+      energyCost: 1.0,
+      required: true,
+      skippableInCritical: false,
+      execute: cycle => this.executeIndividualThought(cycle)
+    });
+    this.stageRegistry.register({
+      id: 'S2',
+      name: 'Mutual Reflection',
+      inputs: ['thoughts'],
+      outputs: ['mutualReflections'],
+      energyCost: 0.5,
+      skippableInCritical: true,
+      execute: cycle => this.executeMutualReflection(cycle)
+    });
+    this.stageRegistry.register({
+      id: 'S3',
+      name: 'Auditor',
+      inputs: ['thoughts'],
+      outputs: ['auditorResult'],
+      energyCost: 0.5,
+      skippableInCritical: true,
+      execute: cycle => this.executeAuditor(cycle)
+    });
+    this.stageRegistry.register({
+      id: 'S4',
+      name: 'DPD Assessment',
+      inputs: ['thoughts'],
+      optionalInputs: ['mutualReflections', 'auditorResult'],
+      outputs: ['dpdScores', 'impactAssessment'],
+      energyCost: 0.5,
+      skippableInCritical: true,
+      // Critical mode: fast heuristic DPD scoring, not charged so the critical cycle
+      // stays at S0(1.0) + S1(1.0) + S5(0.8) + S6(0.3) + U(0.2) = 3.3
+      criticalFallback: {
+        name: 'DPD Assessment (Heuristic)',
+        energyCost: 0,
+        execute: cycle => this.executeFallbackDPDAssessment(cycle)
+      },
+      execute: cycle => this.executeDPDAssessment(cycle)
+    });
+    this.stageRegistry.register({
+      id: 'S5',
+      name: 'Compiler',
+      inputs: ['thoughts'],
+      optionalInputs: ['mutualReflections', 'auditorResult'],
+      outputs: ['synthesis'],
+      energyCost: 0.8,
+      required: true,
+      skippableInCritical: false,
+      execute: cycle => this.executeCompiler(cycle)
+    });
+    this.stageRegistry.register({
+      id: 'S6',
+      name: 'Scribe',
+      inputs: ['synthesis'],
+      optionalInputs: ['dpdScores'],
+      outputs: ['documentation'],
+      energyCost: 0.3,
+      required: true,
+      skippableInCritical: false,
+      execute: cycle => this.executeScribe(cycle)
+    });
+    this.stageRegistry.register({
+      id: 'U',
+      name: 'Weight Update',
+      inputs: [],
+      optionalInputs: ['dpdScores', 'impactAssessment'],
+      outputs: ['dpdWeights'],
+      energyCost: 0.2,
+      required: true,
+      skippableInCritical: false,
+      execute: cycle => this.executeWeightUpdate(cycle)
+    });
+
+    const configuredOrder = parseStageOrder(process.env.THOUGHT_PIPELINE_ORDER);
+    if (configuredOrder) {
+      this.applyPipelineOrder(configuredOrder);
+    }
+  }
+
+  /**
+   * Insert a custom stage (e.g. fact-check, Yui debate) into the thought-cycle pipeline.
+   * THOUGHT_PIPELINE_ORDER is re-applied so configured positions win over registration order.
+   */
+  registerPipelineStage(definition: PipelineStageDefinition<ThoughtCycle>, position: StagePosition = {}): void {
+    this.stageRegistry.register(definition, position);
+
+    const errors = this.stageRegistry.validate();
+    if (errors.length > 0) {
+      this.stageRegistry.unregister(definition.id);
+      throw new Error(`Cannot register stage '${definition.id}': ${errors.join('; ')}`);
+    }
+
+    const configuredOrder = parseStageOrder(process.env.THOUGHT_PIPELINE_ORDER);
+    if (configuredOrder && configuredOrder.includes(definition.id)) {
+      this.applyPipelineOrder(configuredOrder);
+    }
+
+    log.info('Pipeline', `Registered stage '${definition.id}' (${definition.name}), order: ${this.stageRegistry.getOrder().join(' → ')}`);
+  }
+
+  /**
+   * Reorder the pipeline. Unknown ids (stages not registered yet) are ignored.
+   */
+  applyPipelineOrder(order: string[]): void {
+    const knownOrder = order.filter(id => this.stageRegistry.has(id));
+    try {
+      this.stageRegistry.setOrder(knownOrder);
+      log.info('Pipeline', `Stage order: ${knownOrder.join(' → ')}`);
+    } catch (error) {
+      log.error('Pipeline', `Ignoring invalid pipeline order "${order.join(',')}"`, error);
+    }
+  }
+
+  /**
+   * Describe the configured pipeline (stage ids, inputs/outputs, energy, critical-mode behaviour)
+   */
+  getPipelineStages() {
+    return {
+      order: this.stageRegistry.getOrder(),
+      stages: this.stageRegistry.describe(),
+      energy: {
+        full: this.getCycleEnergyRequirement('full'),
+        low: this.getCycleEnergyRequirement('low'),
+        critical: this.getCycleEnergyRequirement('critical')
+      }
+    };
+  }
+
+  /**
+   * Energy reserved for a whole cycle in the given mode: S0 + planned stages
+   */
+  private getCycleEnergyRequirement(mode: PipelineExecutionMode): number {
+    const headroom = mode === 'full' ? ConsciousnessBackend.FULL_MODE_ENERGY_HEADROOM : 0;
+    return ConsciousnessBackend.S0_ENERGY_COST + this.stageRegistry.getPlanEnergy(mode) + headroom;
+  }
+
+  /**
+   * Run one planned stage: stage events and energy accounting are handled here so every
+   * stage (built-in or custom) goes through EnergyManager the same way
+   */
+  private async runPipelineStage(stage: PlannedStage<ThoughtCycle>, thoughtCycle: ThoughtCycle, mode: PipelineExecutionMode): Promise<void> {
     // Emit stage start event
     this.emit('stageChanged', {
-      stage: 'S1',
-      name: 'Individual Thought',
+      stage: stage.id,
+      name: stage.name,
       status: 'in_progress',
       timestamp: Date.now()
     });
 
-    const energyCost = 1.0;
-    await this.energyManager.consumeEnergy(energyCost, 'stage_S1');
-    thoughtCycle.totalEnergy += energyCost;
+    await this.energyManager.consumeEnergy(stage.energyCost, stage.energyLabel);
+    thoughtCycle.totalEnergy += stage.energyCost;
     thoughtCycle.totalStages++;
 
-    const somniaQualia = this.somnia.getState().cognitive.qualia;
-    const thoughts = await this.individualThoughtStage.run(thoughtCycle, somniaQualia);
-    thoughtCycle.thoughts = thoughts;
+    const details = await stage.execute(thoughtCycle, { mode });
 
     // Emit stage completion event
     this.emit('stageCompleted', {
-      stage: 'S1',
-      name: 'Individual Thought',
+      stage: stage.id,
+      name: stage.name,
       status: 'completed',
       timestamp: Date.now(),
-      thoughtCount: thoughts.length
+      ...(details || {})
     });
   }
 
-  private async executeMutualReflection(thoughtCycle: ThoughtCycle): Promise<void> {
-    // Emit stage start event
-    this.emit('stageChanged', {
-      stage: 'S2',
-      name: 'Mutual Reflection',
-      status: 'in_progress',
-      timestamp: Date.now()
-    });
+  // ============================================================================
+  // Stage Execution Methods
+  // ============================================================================
 
-    const energyCost = 0.5;
-    await this.energyManager.consumeEnergy(energyCost, 'stage_S2');
-    thoughtCycle.totalEnergy += energyCost;
-    thoughtCycle.totalStages++;
+  private async executeIndividualThought(thoughtCycle: ThoughtCycle): Promise<StageCompletionDetails> {
+    const somniaQualia = this.somnia.getState().cognitive.qualia;
+    const thoughts = await this.individualThoughtStage.run(thoughtCycle, somniaQualia);
+    thoughtCycle.thoughts = thoughts;
+
+    // Stage completion details for the stageCompleted event
+    return {
+      thoughtCount: thoughts.length
+    };
+  }
 
+  private async executeMutualReflection(thoughtCycle: ThoughtCycle): Promise<StageCompletionDetails> {
     const reflections = await this.mutualReflectionStage.run(thoughtCycle.thoughts);
 
     // Store reflections array for S5 Compiler to use
@@ -1209,16 +1656,12 @@ class ConsciousnessBackend extends EventEmitter {
 
     log.info('StageS2', `Mutual Reflection completed with ${reflections.length} reflections`);
 
-    // Emit stage completion event for UI (minimal data)
+    // Stage completion details for UI (minimal data)
     const avgConfidence = reflections.length > 0
       ? reflections.reduce((sum, r) => sum + r.confidence, 0) / reflections.length
       : 0.5;
 
-    this.emit('stageCompleted', {
-      stage: 'S2',
-      name: 'Mutual Reflection',
-      status: 'completed',
-      timestamp: Date.now(),
+    return {
       feedbackCount: crossAgentFeedback.length,
       conflictCount: conflictPoints.length,
       consensusCount: consensusPoints.length,
@@ -1231,23 +1674,10 @@ class ConsciousnessBackend extends EventEmitter {
       })),
       conflictPreview: conflictPoints.length > 0 ? conflictPoints[0].substring(0, 80) + '...' : null,
       consensusPreview: consensusPoints.length > 0 ? consensusPoints[0].substring(0, 80) + '...' : null
-    });
+    };
   }
 
-  private async executeAuditor(thoughtCycle: ThoughtCycle): Promise<void> {
-    // Emit stage start event
-    this.emit('stageChanged', {
-      stage: 'S3',
-      name: 'Auditor',
-      status: 'in_progress',
-      timestamp: Date.now()
-    });
-
-    const energyCost = 0.5;
-    await this.energyManager.consumeEnergy(energyCost, 'stage_S3');
-    thoughtCycle.totalEnergy += energyCost;
-    thoughtCycle.totalStages++;
-
+  private async executeAuditor(thoughtCycle: ThoughtCycle): Promise<StageCompletionDetails> {
     const auditorResult = await this.auditorStage.run(
       thoughtCycle.thoughts,
       this.agents
@@ -1257,12 +1687,8 @@ class ConsciousnessBackend extends EventEmitter {
 
     log.info('StageS3', 'Auditor completed');
 
-    // Emit stage completion event for UI (minimal data)
-    this.emit('stageCompleted', {
-      stage: 'S3',
-      name: 'Auditor',
-      status: 'completed',
-      timestamp: Date.now(),
+    // Stage completion details for UI (minimal data)
+    return {
       safetyScore: auditorResult.safetyScore,
       approved: auditorResult.approved,
       warningCount: (auditorResult as any).warnings?.length || 0,
@@ -1272,23 +1698,10 @@ class ConsciousnessBackend extends EventEmitter {
         (auditorResult as any).warnings[0].substring(0, 80) + '...' : null,
       recommendationPreview: auditorResult.recommendations?.length > 0 ?
         auditorResult.recommendations[0].substring(0, 80) + '...' : null
-    });
+    };
   }
 
-  private async executeDPDAssessment(thoughtCycle: ThoughtCycle): Promise<void> {
-    // Emit stage start event
-    this.emit('stageChanged', {
-      stage: 'S4',
-      name: 'DPD Assessment',
-      status: 'in_progress',
-      timestamp: Date.now()
-    });
-
-    const energyCost = 0.5;
-    await this.energyManager.consumeEnergy(energyCost, 'stage_S4');
-    thoughtCycle.totalEnergy += energyCost;
-    thoughtCycle.totalStages++;
-
+  private async executeDPDAssessment(thoughtCycle: ThoughtCycle): Promise<StageCompletionDetails> {
     // Emotive Sync from Somnia
     const currentState = this.somnia.getState();
     const somniaInfluence = emotiveSync(currentState);
@@ -1312,7 +1725,8 @@ class ConsciousnessBackend extends EventEmitter {
         recommendations: []
       },
       thoughtCycle.trigger, // Pass trigger for impact assessment
-      somniaInfluence // Pass somnia influence
+      somniaInfluence, // Pass somnia influence
+      thoughtCycle.id // Disagreement alerts point at the cycle
     );
 
     // Apply DPD score biases from aging
@@ -1320,17 +1734,18 @@ class ConsciousnessBackend extends EventEmitter {
       result.scores,
       this.lifespanManager.getVitality()
     );
-    const weightedTotal = biasedScores.empathy * result.weights.empathy +
-                          biasedScores.coherence * result.weights.coherence +
-                          biasedScores.dissonance * result.weights.dissonance;
     const finalScores = {
       ...result.scores,
       ...biasedScores,
-      weightedTotal
+      weightedTotal: dpdDimensions.weightedTotal({ ...result.scores, ...biasedScores }, result.weights)
     };
 
     thoughtCycle.dpdScores = finalScores;
     thoughtCycle.impactAssessment = result.assessment.impactAssessment; // Store impact assessment
+    if (result.scores.ensemble) {
+      // Raw scorer readings are the inputs for calibration against human labels
+      this.databaseManager.saveDPDScorerReadings(thoughtCycle.id, result.scores.ensemble.readings);
+    }
     this.dpdWeights = result.weights; // Update current weights
     this.previousDpdScores = finalScores; // Cache for SAIP reflective return
 
@@ -1342,53 +1757,41 @@ class ConsciousnessBackend extends EventEmitter {
 
     log.info('StageS4', `DPD Assessment completed at ${new Date().toISOString()}`);
 
-    // Emit stage completion event for UI (with size limits to prevent JSON errors)
-    this.emit('stageCompleted', {
-      stage: 'S4',
-      name: 'DPD Assessment',
-      status: 'completed',
-      timestamp: Date.now(),
+    // Stage completion details for UI (with size limits to prevent JSON errors)
+    return {
       // Only include essential DPD scores (not the full assessment object)
       empathy: result.scores.empathy.toFixed(3),
       coherence: result.scores.coherence.toFixed(3),
       dissonance: result.scores.dissonance.toFixed(3),
       weightedTotal: result.scores.weightedTotal.toFixed(3),
+      ...(result.scores.dimensions ? { dimensions: this.formatDimensionValues(result.scores.dimensions) } : {}),
+      ...(result.scores.confidence ? {
+        confidence: Object.fromEntries(Object.entries(result.scores.confidence)
+          .map(([id, interval]) => [id, `${interval.lower.toFixed(3)}-${interval.upper.toFixed(3)}`])),
+        disagreements: result.scores.ensemble?.disagreements.length ?? 0
+      } : {}),
       currentWeights: {
         empathy: this.dpdWeights.empathy.toFixed(3),
         coherence: this.dpdWeights.coherence.toFixed(3),
-        dissonance: this.dpdWeights.dissonance.toFixed(3)
+        dissonance: this.dpdWeights.dissonance.toFixed(3),
+        ...(this.dpdWeights.dimensions ? { dimensions: this.formatDimensionValues(this.dpdWeights.dimensions) } : {})
       }
-    });
+    };
   }
 
   /**
    * Fallback DPD Assessment for critical energy mode (heuristic-based, fast)
    */
-  private async executeFallbackDPDAssessment(thoughtCycle: ThoughtCycle): Promise<void> {
+  private async executeFallbackDPDAssessment(thoughtCycle: ThoughtCycle): Promise<StageCompletionDetails> {
     console.log(`[Backend S4-Fallback] Starting fallback DPD scoring (critical mode) at ${new Date().toISOString()}`);
 
-    // Emit stage start event
-    this.emit('stageChanged', {
-      stage: 'S4',
-      name: 'DPD Assessment (Heuristic)',
-      status: 'in_progress',
-      timestamp: Date.now()
-    });
-
-    const energyCost = 0.1; // Much cheaper than AI-based assessment (0.5)
-    await this.energyManager.consumeEnergy(energyCost, 'stage_S4_fallback');
-    thoughtCycle.totalEnergy += energyCost;
-    thoughtCycle.totalStages++;
-
     // Calculate heuristic-based DPD scores
     const scores = this.calculateFallbackDPDScores(thoughtCycle);
     const biasedScores = AgingEngine.applyDPDBiases(
       scores,
       this.lifespanManager.getVitality()
     );
-    const weightedTotal = biasedScores.empathy * this.dpdWeights.empathy +
-                          biasedScores.coherence * this.dpdWeights.coherence +
-                          biasedScores.dissonance * this.dpdWeights.dissonance;
+    const weightedTotal = dpdDimensions.weightedTotal({ ...scores, ...biasedScores }, this.dpdWeights);
     const finalScores = {
       ...scores,
       ...biasedScores,
@@ -1404,23 +1807,21 @@ class ConsciousnessBackend extends EventEmitter {
 
     log.info('StageS4-Fallback', `Heuristic DPD scores: empathy=${scores.empathy.toFixed(3)}, coherence=${scores.coherence.toFixed(3)}, dissonance=${scores.dissonance.toFixed(3)}`);
 
-    // Emit stage completion event
-    this.emit('stageCompleted', {
-      stage: 'S4',
-      name: 'DPD Assessment (Heuristic)',
-      status: 'completed',
-      timestamp: Date.now(),
+    // Stage completion details for the stageCompleted event
+    return {
       empathy: scores.empathy.toFixed(3),
       coherence: scores.coherence.toFixed(3),
       dissonance: scores.dissonance.toFixed(3),
       weightedTotal: scores.weightedTotal.toFixed(3),
+      ...(scores.dimensions ? { dimensions: this.formatDimensionValues(scores.dimensions) } : {}),
       currentWeights: {
         empathy: this.dpdWeights.empathy.toFixed(3),
         coherence: this.dpdWeights.coherence.toFixed(3),
-        dissonance: this.dpdWeights.dissonance.toFixed(3)
+        dissonance: this.dpdWeights.dissonance.toFixed(3),
+        ...(this.dpdWeights.dimensions ? { dimensions: this.formatDimensionValues(this.dpdWeights.dimensions) } : {})
       },
       method: 'heuristic'
-    });
+    };
   }
 
   /**
@@ -1448,61 +1849,28 @@ class ConsciousnessBackend extends EventEmitter {
       };
     }
 
-    // Empathy keywords (Japanese) - 共感、感情、他者理解
-    const empathyKeywords = [
-      '感じ', '感情', '共感', '理解', '他者', '繋がり', '心', '優しさ', '思いやり',
-      '感動', '愛', '絆', '寄り添', '受け入れ', '尊重', '関係', '人間', '対話'
-    ];
-
-    // Coherence keywords (Japanese) - 論理、一貫性、体系性
-    const coherenceKeywords = [
-      '論理', '一貫', '体系', '秩序', '統合', '構造', '整合', '合理',
-      'システム', '法則', '原理', '理性', '分析', '因果', '関連', '整理'
-    ];
-
-    // Dissonance keywords (Japanese) - 矛盾、葛藤、疑問
-    const dissonanceKeywords = [
-      '矛盾', '葛藤', '疑問', 'しかし', 'ただし', '対立', '問題', '不協和',
-      '悩み', '迷い', 'なぜ', '疑い', '違和感', '不安', 'ジレンマ', '対照'
-    ];
-
-    // Count keyword occurrences
-    const empathyCount = this.countKeywords(allContent, empathyKeywords);
-    const coherenceCount = this.countKeywords(allContent, coherenceKeywords);
-    const dissonanceCount = this.countKeywords(allContent, dissonanceKeywords);
-
-    // Normalize based on content length (keywords per 100 characters)
-    const contentLength = Math.max(100, allContent.length);
-    const normalizationFactor = contentLength / 100;
-
-    const empathyRaw = empathyCount / normalizationFactor;
-    const coherenceRaw = coherenceCount / normalizationFactor;
-    const dissonanceRaw = dissonanceCount / normalizationFactor;
-
-    // Apply sigmoid-like transformation to get 0-1 range
-    // f(x) = 1 / (1 + exp(-k*(x-threshold)))
-    // Adjusted for typical keyword counts
-    const sigmoid = (x: number, k: number = 2, threshold: number = 0.5) => {
-      return 1 / (1 + Math.exp(-k * (x - threshold)));
-    };
+    // Keyword density per dimension (shared with the scoring ensemble's keyword scorer)
+    const keywordScores = scoreDPDKeywords(allContent);
+    const { empathy: empathyScore, coherence: coherenceScore, dissonance: dissonanceScore } = keywordScores;
 
-    const empathyScore = sigmoid(empathyRaw, 1.5, 0.3);
-    const coherenceScore = sigmoid(coherenceRaw, 1.5, 0.3);
-    const dissonanceScore = sigmoid(dissonanceRaw, 1.5, 0.3);
+    // Registered dimensions use their own heuristics
+    const dimensions = dpdDimensions.extras().length > 0
+      ? dpdDimensions.scoreHeuristically({ thoughts, reflections: thoughtCycle.mutualReflections || [], auditorResult: null })
+      : undefined;
 
     // Calculate weighted total using current DPD weights
-    const weightedTotal = (
-      empathyScore * this.dpdWeights.empathy +
-      coherenceScore * this.dpdWeights.coherence +
-      dissonanceScore * this.dpdWeights.dissonance
+    const weightedTotal = dpdDimensions.weightedTotal(
+      { empathy: empathyScore, coherence: coherenceScore, dissonance: dissonanceScore, dimensions },
+      this.dpdWeights
     );
 
-    log.debug('FallbackDPD', `Keyword counts: empathy=${empathyCount}, coherence=${coherenceCount}, dissonance=${dissonanceCount} (content length: ${contentLength})`);
+    log.debug('FallbackDPD', `Keyword counts: empathy=${keywordScores.counts.empathy}, coherence=${keywordScores.counts.coherence}, dissonance=${keywordScores.counts.dissonance} (content length: ${allContent.length})`);
 
     return {
       empathy: Math.max(0.1, Math.min(0.9, empathyScore)), // Clamp to 0.1-0.9
       coherence: Math.max(0.1, Math.min(0.9, coherenceScore)),
       dissonance: Math.max(0.1, Math.min(0.9, dissonanceScore)),
+      ...(dimensions ? { dimensions } : {}),
       weightedTotal: Math.max(0.1, Math.min(0.9, weightedTotal)),
       timestamp: Date.now(),
       context: {
@@ -1514,31 +1882,46 @@ class ConsciousnessBackend extends EventEmitter {
   }
 
   /**
-   * Count keyword occurrences in text
+   * Restore a weight learner's persisted state (ignored if missing or unreadable)
    */
-  private countKeywords(text: string, keywords: string[]): number {
-    return keywords.reduce((count, keyword) => {
-      const regex = new RegExp(keyword, 'g');
-      const matches = text.match(regex);
-      return count + (matches ? matches.length : 0);
-    }, 0);
+  private restoreWeightLearnerState(learner: WeightLearner): void {
+    const state = this.databaseManager.getWeightLearnerState(learner.id);
+    if (!state) {
+      return;
+    }
+    try {
+      learner.restoreState(state);
+      log.info('DPD', `Restored '${learner.id}' weight learner state (${learner.getDiagnostics().updates} updates)`);
+    } catch (error) {
+      log.warn('DPD', `Could not restore '${learner.id}' weight learner state`, error);
+    }
   }
 
-  private async executeCompiler(thoughtCycle: ThoughtCycle): Promise<void> {
-    console.log(`[Backend S5] Starting Compiler stage at ${new Date().toISOString()}`);
+  /**
+   * Re-queue supervised feedback the U stage had not applied before the last shutdown
+   */
+  private restoreSupervisedFeedback(): void {
+    const pending = this.databaseManager.getPendingSupervisedFeedback();
+    for (const feedback of pending) {
+      const target = toSupervisedTarget(feedback, this.dpdWeights);
+      if (target) {
+        this.weightUpdateStage.addSupervisedTarget(target);
+      }
+    }
+    if (pending.length > 0) {
+      log.info('DPD', `Re-queued ${pending.length} supervised DPD feedback target(s)`);
+    }
+  }
 
-    // Emit stage start event
-    this.emit('stageChanged', {
-      stage: 'S5',
-      name: 'Compiler',
-      status: 'in_progress',
-      timestamp: Date.now()
-    });
+  /**
+   * Registered dimension values rounded for stage completion details
+   */
+  private formatDimensionValues(values: Record<string, number>): Record<string, string> {
+    return Object.fromEntries(Object.entries(values).map(([id, value]) => [id, value.toFixed(3)]));
+  }
 
-    const energyCost = 0.8;
-    await this.energyManager.consumeEnergy(energyCost, 'stage_S5');
-    thoughtCycle.totalEnergy += energyCost;
-    thoughtCycle.totalStages++;
+  private async executeCompiler(thoughtCycle: ThoughtCycle): Promise<StageCompletionDetails> {
+    console.log(`[Backend S5] Starting Compiler stage at ${new Date().toISOString()}`);
 
     const synthesis = await this.compilerStage.run(
       thoughtCycle.thoughts,
@@ -1550,12 +1933,8 @@ class ConsciousnessBackend extends EventEmitter {
 
     log.info('StageS5', `Compiler completed at ${new Date().toISOString()}`);
 
-    // Emit stage completion event for UI (minimal data)
-    this.emit('stageCompleted', {
-      stage: 'S5',
-      name: 'Compiler',
-      status: 'completed',
-      timestamp: Date.now(),
+    // Stage completion details for UI (minimal data)
+    return {
       confidence: synthesis.confidence,
       insightsCount: synthesis.keyInsights?.length || 0,
       contradictionsCount: synthesis.contradictions?.length || 0,
@@ -1566,23 +1945,10 @@ class ConsciousnessBackend extends EventEmitter {
         (typeof synthesis.keyInsights[0] === 'string' ?
           synthesis.keyInsights[0].substring(0, 80) + '...' :
           String(synthesis.keyInsights[0] || '')) : null
-    });
+    };
   }
 
-  private async executeScribe(thoughtCycle: ThoughtCycle): Promise<void> {
-    // Emit stage start event
-    this.emit('stageChanged', {
-      stage: 'S6',
-      name: 'Scribe',
-      status: 'in_progress',
-      timestamp: Date.now()
-    });
-
-    const energyCost = 0.3;
-    await this.energyManager.consumeEnergy(energyCost, 'stage_S6');
-    thoughtCycle.totalEnergy += energyCost;
-    thoughtCycle.totalStages++;
-
+  private async executeScribe(thoughtCycle: ThoughtCycle): Promise<StageCompletionDetails> {
     const documentation = await this.scribeStage.run(
       thoughtCycle.synthesis as any,
       thoughtCycle.dpdScores || null
@@ -1592,12 +1958,8 @@ class ConsciousnessBackend extends EventEmitter {
 
     log.info('StageS6', 'Scribe completed');
 
-    // Emit stage completion event for UI (minimal data)
-    this.emit('stageCompleted', {
-      stage: 'S6',
-      name: 'Scribe',
-      status: 'completed',
-      timestamp: Date.now(),
+    // Stage completion details for UI (minimal data)
+    return {
       narrativePreview: documentation.narrative.substring(0, 150) + '...',
       questionsCount: documentation.futureQuestions.length,
       philosophicalCount: documentation.philosophicalNotes.length,
@@ -1612,23 +1974,11 @@ class ConsciousnessBackend extends EventEmitter {
         documentation.growthObservations[0].substring(0, 80) + '...' : null,
       firstQuestion: documentation.futureQuestions.length > 0 ?
         documentation.futureQuestions[0].substring(0, 100) + '...' : null
-    });
+    };
   }
 
-  private async executeWeightUpdate(thoughtCycle: ThoughtCycle): Promise<void> {
-    // Emit stage start event
-    this.emit('stageChanged', {
-      stage: 'U',
-      name: 'Weight Update',
-      status: 'in_progress',
-      timestamp: Date.now()
-    });
-
-    const energyCost = 0.2;
-    await this.energyManager.consumeEnergy(energyCost, 'stage_U');
-    thoughtCycle.totalEnergy += energyCost;
-    thoughtCycle.totalStages++;
-
+  private async executeWeightUpdate(thoughtCycle: ThoughtCycle): Promise<StageCompletionDetails> {
+    let supervisedTargets: number[] = [];
     if (thoughtCycle.dpdScores) {
       const updatedWeights = await this.weightUpdateStage.run(
         thoughtCycle.dpdScores,
@@ -1645,8 +1995,12 @@ class ConsciousnessBackend extends EventEmitter {
         console.log(`[Backend U] ⚡ Paradigm shift perturbation applied to DPD weights`);
       }
 
-      // Save DPD weights to database
+      // Save DPD weights and the learner's internal state to database
       this.databaseManager.saveDPDWeights(updatedWeights);
+      const learner = this.weightUpdateStage.getLearner();
+      this.databaseManager.saveWeightLearnerState(learner.id, learner.getState());
+      supervisedTargets = this.weightUpdateStage.takeAppliedSupervisedTargets().map(target => target.feedbackId);
+      this.databaseManager.markDPDFeedbackApplied(supervisedTargets);
 
       // Emit DPD update event (minimal data only)
       this.emit('dpdUpdated', {
@@ -1654,12 +2008,14 @@ class ConsciousnessBackend extends EventEmitter {
           empathy: updatedWeights.empathy,
           coherence: updatedWeights.coherence,
           dissonance: updatedWeights.dissonance,
+          ...(updatedWeights.dimensions ? { dimensions: updatedWeights.dimensions } : {}),
           version: updatedWeights.version
         },
         scores: thoughtCycle.dpdScores ? {
           empathy: thoughtCycle.dpdScores.empathy,
           coherence: thoughtCycle.dpdScores.coherence,
           dissonance: thoughtCycle.dpdScores.dissonance,
+          ...(thoughtCycle.dpdScores.dimensions ? { dimensions: thoughtCycle.dpdScores.dimensions } : {}),
           weightedTotal: thoughtCycle.dpdScores.weightedTotal
         } : null,
         timestamp: Date.now()
@@ -1668,19 +2024,16 @@ class ConsciousnessBackend extends EventEmitter {
 
     log.info('StageU', 'Weight Update completed');
 
-    // Emit stage completion event
-    this.emit('stageCompleted', {
-      stage: 'U',
-      name: 'Weight Update',
-      status: 'completed',
-      timestamp: Date.now(),
+    // Stage completion details for the stageCompleted event
+    return {
       weightsUpdated: !!thoughtCycle.dpdScores,
       weights: this.dpdWeights,
       version: this.dpdWeights.version,
+      supervisedTargets: supervisedTargets.length,
       empathyWeight: this.dpdWeights.empathy.toFixed(3),
       coherenceWeight: this.dpdWeights.coherence.toFixed(3),
       dissonanceWeight: this.dpdWeights.dissonance.toFixed(3)
-    });
+    };
   }
 
   // ============================================================================
@@ -1725,6 +2078,20 @@ class ConsciousnessBackend extends EventEmitter {
     log.info('Consciousness', '🔍 Finished recording significant thoughts from cycle');
   }
 
+  /**
+   * Persist the RAG chunks each thought in the cycle was grounded on
+   */
+  private recordThoughtProvenance(thoughtCycle: ThoughtCycle): void {
+    for (const thought of thoughtCycle.thoughts || []) {
+      if (thought.ragSources && thought.ragSources.length > 0) {
+        this.databaseManager.saveRAGProvenance('thought', thought.id, thought.ragSources, {
+          cycleId: thoughtCycle.id,
+          systemClock: this.systemClock
+        });
+      }
+    }
+  }
+
   /**
    * Validates if a text is a proper question
    *
@@ -1947,6 +2314,9 @@ class ConsciousnessBackend extends EventEmitter {
   // ============================================================================
 
   private sleep(ms: number): Promise<void> {
+    if (this.sleepOverride) {
+      return this.sleepOverride(ms);
+    }
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
@@ -2041,6 +2411,138 @@ class ConsciousnessBackend extends EventEmitter {
     return this.dpdWeights;
   }
 
+  /**
+   * Active weight learner with its regret diagnostics and the DPD convergence analysis
+   */
+  getWeightLearnerReport(): any {
+    const learner = this.weightUpdateStage.getLearner();
+    return {
+      learner: learner.id,
+      available: WEIGHT_LEARNERS,
+      diagnostics: learner.getDiagnostics(),
+      convergence: this.dpdAssessmentStage.getConvergenceAnalysis()
+    };
+  }
+
+  getWeightLearnerId(): WeightLearnerId {
+    return this.weightUpdateStage.getLearner().id;
+  }
+
+  /**
+   * Scoring ensemble configuration, calibration, latest confidence intervals and recent disagreement alerts
+   */
+  getDPDEnsembleReport(): any {
+    return {
+      ...this.dpdEnsemble.getConfig(),
+      scorers: DPD_SCORERS.map(scorer => ({
+        ...scorer,
+        available: scorer.id !== 'llm-secondary' || !!this.secondaryEvaluatorAgent
+      })),
+      calibration: this.dpdEnsemble.getCalibration(),
+      latest: this.previousDpdScores?.confidence
+        ? { confidence: this.previousDpdScores.confidence, ensemble: this.previousDpdScores.ensemble }
+        : null,
+      alerts: this.dpdEnsemble.getRecentAlerts()
+    };
+  }
+
+  /**
+   * Fit the ensemble calibration on human-labelled cycles (joined with the scorer readings saved
+   * for those cycles), persist it and use it from the next cycle
+   */
+  fitDPDCalibration(labels: Array<{ cycleId: string; scores: Record<string, number> }>): { calibration: DPDCalibrationModel; matched: number; unmatched: string[] } {
+    const readings = this.databaseManager.getDPDScorerReadings(labels.map(label => label.cycleId));
+    const samples: DPDCalibrationSample[] = [];
+    const unmatched: string[] = [];
+    for (const label of labels) {
+      if (readings[label.cycleId]) {
+        samples.push({ cycleId: label.cycleId, readings: readings[label.cycleId], labels: label.scores });
+      } else {
+        unmatched.push(label.cycleId);
+      }
+    }
+
+    const calibration = fitDPDCalibration(samples);
+    this.dpdEnsemble.setCalibration(calibration);
+    this.databaseManager.saveDPDCalibration(calibration);
+    log.info('DPD', `Fitted DPD ensemble calibration on ${samples.length} labelled cycles (${unmatched.length} without scorer readings)`);
+    return { calibration, matched: samples.length, unmatched };
+  }
+
+  /**
+   * Recent thought cycles with synthesis, model DPD scores and human feedback (for review)
+   */
+  getDPDReviewCycles(limit: number = 20, options: { before?: number; unlabelledOnly?: boolean } = {}): DPDReviewCycle[] {
+    return this.databaseManager.getDPDReviewCycles(limit, options);
+  }
+
+  getDPDFeedback(options: { cycleId?: string; limit?: number } = {}): DPDHumanFeedback[] {
+    return this.databaseManager.getDPDFeedback(options);
+  }
+
+  /**
+   * Store a human label of a thought cycle, apart from its model scores. With supervision the
+   * label is also queued for the next U stage. Returns null if the cycle does not exist.
+   */
+  submitDPDFeedback(input: DPDFeedbackInput): { feedback: DPDHumanFeedback; queued: boolean; pendingTargets: number } | null {
+    const cycle = this.databaseManager.getDPDReviewCycle(input.cycleId);
+    if (!cycle) {
+      return null;
+    }
+
+    const scores = input.scores || {};
+    const supervised = (input.supervise ?? this.dpdFeedbackSupervision) && cycle.scores !== null && Object.keys(scores).length > 0;
+    const id = this.databaseManager.saveDPDFeedback({
+      cycleId: cycle.id,
+      scores,
+      comment: input.comment?.trim() || null,
+      reviewer: input.reviewer?.trim() || null,
+      modelScores: cycle.scores,
+      supervised
+    });
+    const feedback = id !== null ? this.databaseManager.getDPDFeedback({ cycleId: cycle.id }).find(entry => entry.id === id) : undefined;
+    if (!feedback) {
+      throw new Error('Failed to save DPD feedback');
+    }
+
+    const target = supervised ? toSupervisedTarget(feedback, this.dpdWeights) : null;
+    if (target) {
+      this.weightUpdateStage.addSupervisedTarget(target);
+    }
+    log.info('DPD', `Human DPD feedback #${feedback.id} for ${cycle.id}${target ? ' (queued as supervised target)' : ''}`);
+    return { feedback, queued: !!target, pendingTargets: this.weightUpdateStage.getPendingSupervisedTargets() };
+  }
+
+  /**
+   * Replay recorded DPD scores through counterfactual learner configurations (read-only)
+   */
+  replayDPD(variants: DPDReplayVariant[], options: { limit?: number; since?: number } = {}): DPDReplayResult {
+    return runDPDReplay(this.databaseManager, variants, options);
+  }
+
+  /**
+   * Registered DPD value dimensions (core three first)
+   */
+  getDPDDimensions(): DPDDimensionDescriptor[] {
+    return dpdDimensions.describe();
+  }
+
+  /**
+   * Add a DPD value dimension at runtime. Current weights give it its default share and are
+   * renormalized; the S4/U stages pick it up from the next cycle.
+   */
+  registerDPDDimension(definition: DPDDimensionDefinition): void {
+    dpdDimensions.register(definition);
+    this.dpdWeights = dpdDimensions.resolveWeights(this.dpdWeights);
+    this.dpdAssessmentStage = new DPDAssessmentStage(this.dpdWeights, this.agents.get('system'), this, this.weightUpdateStage.getLearner(), this.dpdEnsemble, this.secondaryEvaluatorAgent);
+    this.databaseManager.saveDPDWeights({
+      ...this.dpdWeights,
+      triggerType: 'dimension_registered',
+      context: `Registered DPD dimension ${definition.id}`
+    });
+    log.info('DPD', `Registered DPD dimension '${definition.id}' (${definition.labelJa}), dimensions: ${dpdDimensions.ids().join(', ')}`);
+  }
+
   getPersonalityTraits(): any {
     // Get actual data from database instead of memory arrays
     const dbStats = this.databaseManager.getStats();
@@ -2151,6 +2653,9 @@ class ConsciousnessBackend extends EventEmitter {
         // Generate consciousness insights from beliefs
         this.generateConsciousnessInsights();
 
+        // Relink beliefs, thoughts and questions in the knowledge graph
+        this.rebuildKnowledgeGraph();
+
         // Cleanup unresolved ideas (every 10 cycles)
         if (cyclesSinceLastConsolidation >= 10) {
           log.info('MemoryEvolution', '🧹 Starting unresolved ideas cleanup...');
@@ -2307,6 +2812,39 @@ class ConsciousnessBackend extends EventEmitter {
     return beliefs;
   }
 
+  /**
+   * Rebuild the knowledge graph from core beliefs, significant thoughts and unresolved ideas
+   */
+  rebuildKnowledgeGraph(): KnowledgeGraphStats {
+    const stats = this.knowledgeGraph.rebuild();
+    this.knowledgeGraphBuilt = true;
+    log.info('MemoryEvolution', `🕸️ Knowledge graph rebuilt: ${stats.nodes} nodes, ${stats.edges} edges`);
+    return stats;
+  }
+
+  /**
+   * Knowledge graph, or the neighbourhood of one node when `nodeId` is given
+   */
+  getKnowledgeGraph(options: { nodeId?: string; depth?: number; relations?: GraphRelation[]; limit?: number } = {}): KnowledgeGraph & { stats: KnowledgeGraphStats } {
+    // Rebuilt once per process so the graph reflects the source tables before the first consolidation
+    if (!this.knowledgeGraphBuilt) {
+      this.rebuildKnowledgeGraph();
+    }
+
+    if (options.nodeId) {
+      const neighbourhood = queryNeighbourhood(this.databaseManager, options.nodeId, options.depth ?? 1, options.relations);
+      return { ...neighbourhood, stats: summarizeKnowledgeGraph(neighbourhood) };
+    }
+
+    // Stats (incl. top concepts) describe the graph before the relation filter
+    const graph = this.databaseManager.getKnowledgeGraph(options.limit);
+    const stats = summarizeKnowledgeGraph(graph);
+    const edges = options.relations && options.relations.length > 0
+      ? graph.edges.filter(edge => options.relations!.includes(edge.relation))
+      : graph.edges;
+    return { nodes: graph.nodes, edges, stats };
+  }
+
   /**
    * Get dream patterns from sleep mode
    */
@@ -2523,6 +3061,22 @@ class ConsciousnessBackend extends EventEmitter {
     return { stimulusId, thoughtCycleId };
   }
 
+  /**
+   * RAG sources a thought was grounded on, with their share by source type
+   */
+  getThoughtSources(thoughtId: string): {
+    thoughtId: string;
+    sources: ReturnType<DatabaseManager['getRAGProvenance']>;
+    bySourceType: Record<string, number>;
+  } {
+    const sources = this.databaseManager.getRAGProvenance('thought', thoughtId);
+    const bySourceType: Record<string, number> = {};
+    for (const source of sources) {
+      bySourceType[source.sourceType] = (bySourceType[source.sourceType] || 0) + 1;
+    }
+    return { thoughtId, sources, bySourceType };
+  }
+
   /**
    * Get observable response for a thought cycle
    */
@@ -2646,6 +3200,10 @@ class ConsciousnessBackend extends EventEmitter {
       // Save energy recovery to database
       this.saveConsciousnessState();
 
+      this.recordCassetteOutcome('sleep', {
+        beliefs: this.databaseManager.getTopCoreBeliefs(20).map(b => b.belief_content)
+      });
+
       log.info('Consciousness', `✨ Sleep completed (duration: ${(duration/1000).toFixed(1)}s, mental: ${energyBefore.toFixed(1)} → ${energyAfter.toFixed(1)}, physical/φ: ${phiBefore.toFixed(1)} → ${phiAfter.toFixed(1)})`);
 
       this.emit('sleepCompleted', {
@@ -2772,6 +3330,10 @@ class ConsciousnessBackend extends EventEmitter {
       sleepLog.push(`Emotional processing skipped: ${(error as Error).message}`);
     }
 
+    // Beliefs were merged and thoughts pruned: relink the knowledge graph
+    const graphStats = this.rebuildKnowledgeGraph();
+    sleepLog.push(`Knowledge graph rebuilt: ${graphStats.nodes} nodes, ${graphStats.edges} edges`);
+
     // Full energy recovery after sleep
     const energyBefore = this.energyManager.getEnergyState().available;
     this.energyManager.resetEnergy(); // Full reset to maximum
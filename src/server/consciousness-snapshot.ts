@@ -0,0 +1,119 @@
+/**
+ * Consciousness Snapshot - Portable "soul" archive
+ *
+ * A versioned JSON archive of the tables that make up a living instance: consciousness state,
+ * DPD weight history and weight learner state, core beliefs (with their evolution), unresolved ideas, SOMNIA state,
+ * mortality/lineage records and dialogue memories. Thought cycles and other logs are not
+ * included. Snapshots are written by DatabaseManager.exportSnapshot() and restored with
+ * DatabaseManager.importSnapshot(), which validates and migrates the archive first.
+ *
+ * 意識スナップショット - インスタンスを別マシンへ移す・巻き戻すためのアーカイブ
+ */
+
+export const SNAPSHOT_FORMAT = 'aenea-consciousness-snapshot';
+export const SNAPSHOT_VERSION = 2;
+
+/**
+ * Tables captured in a snapshot, in restore order
+ */
+export const SNAPSHOT_TABLES = [
+  'consciousness_state',
+  'dpd_weights',
+  'weight_learner_state',
+  'core_beliefs',
+  'belief_evolution',
+  'unresolved_ideas',
+  'somnia_state',
+  'mortality_state',
+  'last_words',
+  'lineage',
+  'dialogues',
+  'dialogue_memories'
+] as const;
+
+export type SnapshotTable = typeof SNAPSHOT_TABLES[number];
+
+export interface ConsciousnessSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  exportedAt: string;
+  instanceId?: string;
+  metadata?: {
+    systemClock?: number;
+    mortalityInstanceId?: string | null;
+    [key: string]: any;
+  };
+  tables: Partial<Record<SnapshotTable, Record<string, any>[]>>;
+}
+
+export interface SnapshotRestoreResult {
+  version: number;
+  migratedFrom: number | null;
+  restored: Partial<Record<SnapshotTable, number>>;
+  warnings: string[];
+}
+
+/**
+ * Archive migrations: SNAPSHOT_MIGRATIONS[n] upgrades a version n archive to n + 1.
+ * Column-level drift (columns added to the database after export) is handled at import time.
+ */
+const SNAPSHOT_MIGRATIONS: Record<number, (snapshot: ConsciousnessSnapshot) => ConsciousnessSnapshot> = {
+  // v2 captures the weight learner state; v1 archives carry none, so the learner starts fresh
+  1: snapshot => ({
+    ...snapshot,
+    tables: { ...snapshot.tables, weight_learner_state: snapshot.tables.weight_learner_state ?? [] }
+  })
+};
+
+/**
+ * Validate an archive's structure. Returns human-readable errors (empty when valid).
+ */
+export function validateSnapshot(data: any): string[] {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return ['Snapshot must be a JSON object'];
+  }
+  if (data.format !== SNAPSHOT_FORMAT) {
+    errors.push(`Unknown snapshot format: ${JSON.stringify(data.format)} (expected "${SNAPSHOT_FORMAT}")`);
+  }
+  if (!Number.isInteger(data.version) || data.version < 1) {
+    errors.push('Snapshot version must be a positive integer');
+  } else if (data.version > SNAPSHOT_VERSION) {
+    errors.push(`Snapshot version ${data.version} is newer than supported version ${SNAPSHOT_VERSION}`);
+  }
+  if (!data.tables || typeof data.tables !== 'object' || Array.isArray(data.tables)) {
+    errors.push('Snapshot tables must be an object keyed by table name');
+    return errors;
+  }
+
+  for (const [table, rows] of Object.entries(data.tables)) {
+    if (!(SNAPSHOT_TABLES as readonly string[]).includes(table)) {
+      errors.push(`Unknown snapshot table: ${table}`);
+    } else if (!Array.isArray(rows) || rows.some(row => !row || typeof row !== 'object' || Array.isArray(row))) {
+      errors.push(`Snapshot table ${table} must be an array of row objects`);
+    }
+  }
+
+  const state = data.tables.consciousness_state;
+  if (!Array.isArray(state) || state.length !== 1) {
+    errors.push('Snapshot must contain exactly one consciousness_state row');
+  }
+
+  return errors;
+}
+
+/**
+ * Upgrade an archive to SNAPSHOT_VERSION. Throws if a migration step is missing.
+ */
+export function migrateSnapshot(snapshot: ConsciousnessSnapshot): ConsciousnessSnapshot {
+  let migrated = snapshot;
+  while (migrated.version < SNAPSHOT_VERSION) {
+    const migrate = SNAPSHOT_MIGRATIONS[migrated.version];
+    if (!migrate) {
+      throw new Error(`No migration from snapshot version ${migrated.version}`);
+    }
+    migrated = { ...migrate(migrated), version: migrated.version + 1 };
+  }
+  return migrated;
+}
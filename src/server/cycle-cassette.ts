@@ -0,0 +1,326 @@
+/**
+ * Cycle Cassette - Record and replay agent LLM calls
+ *
+ * Record mode appends every agent execute() (prompt, system prompt, response, cycle id, stage)
+ * to a JSONL cassette. Replay mode feeds the recorded responses back per agent in recording
+ * order, so prompt/parser changes can be checked against a recorded day of cycles. Prompts are
+ * never used for matching: replayed prompts or system prompts that differ from the recording are
+ * reported as drift. Cycle outcomes (DPD scores, unresolved questions, beliefs) are recorded as well and
+ * diffed explicitly during replay.
+ *
+ * Enabled via CASSETTE_MODE=record|replay and CASSETTE_PATH.
+ *
+ * 思考サイクルの記録・再生（回帰テスト用カセット）
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { detectScriptedStage, ScriptedStage } from './scripted-executor.js';
+import { log } from './logger.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+export type CassetteOutcomeKind = 'cycle' | 'sleep';
+
+export interface CassetteCallEntry {
+  type: 'call';
+  seq: number;
+  agentId: string;
+  cycleId: string | null;
+  stage: string;            // Pipeline stage active at call time (S0-S6, U, sleep, idle)
+  kind: ScriptedStage;      // Prompt kind detected at record time (informational)
+  prompt: string;
+  systemPrompt: string;
+  response: {
+    success: boolean;
+    content: string;
+    error?: string;
+  };
+  timestamp: number;
+}
+
+export interface CassetteOutcomeEntry {
+  type: 'outcome';
+  seq: number;
+  outcome: CassetteOutcomeKind;
+  cycleId: string | null;
+  data: Record<string, any>;
+  timestamp: number;
+}
+
+export type CassetteEntry = CassetteCallEntry | CassetteOutcomeEntry;
+
+export interface CassetteOutcomeDiff {
+  outcome: CassetteOutcomeKind;
+  cycleId: string | null;
+  recordedCycleId: string | null;
+  differences: Array<{ field: string; recorded: any; replayed: any }>;
+}
+
+export interface CassettePromptDrift {
+  seq: number;              // Recorded entry the replayed call was served from
+  agentId: string;
+  cycleId: string | null;
+  stage: string;            // Pipeline stage at replay time
+  recordedStage: string;
+  recordedKind: ScriptedStage;
+  field: 'prompt' | 'systemPrompt';
+  offset: number;           // First character where the prompts differ
+  recorded: string;         // Excerpts around the first difference
+  replayed: string;
+}
+
+export interface CassetteReplayReport {
+  cassettePath: string;
+  callsReplayed: number;
+  callsMissing: number;
+  promptDrift: number;      // Replayed calls whose prompt or system prompt differs from the recording
+  drift: CassettePromptDrift[];
+  outcomesCompared: number;
+  outcomesDiffering: number;
+  diffs: CassetteOutcomeDiff[];
+}
+
+type ExecuteFn = (prompt: string, systemPrompt?: string) => Promise<any>;
+
+const DEFAULT_CASSETTE_PATH = 'data/cassettes/cassette.jsonl';
+const DRIFT_CONTEXT = 80; // Characters of context around the first prompt difference
+
+export class CycleCassette {
+  private seq = 0;
+  private cycleId: string | null = null;
+  private stage = 'idle';
+
+  // Replay state
+  private callQueues = new Map<string, CassetteCallEntry[]>();
+  private outcomeQueues = new Map<CassetteOutcomeKind, CassetteOutcomeEntry[]>();
+  private report: CassetteReplayReport;
+
+  constructor(readonly mode: CassetteMode, readonly cassettePath: string) {
+    this.report = {
+      cassettePath,
+      callsReplayed: 0,
+      callsMissing: 0,
+      promptDrift: 0,
+      drift: [],
+      outcomesCompared: 0,
+      outcomesDiffering: 0,
+      diffs: []
+    };
+
+    if (mode === 'record') {
+      fs.mkdirSync(path.dirname(cassettePath), { recursive: true });
+      // Server restarts append to the same cassette; keep seq monotonic across sessions
+      this.seq = CycleCassette.readEntries(cassettePath).length;
+      log.info('Cassette', `🎙️ Recording agent calls to ${cassettePath}`);
+    } else {
+      this.loadForReplay();
+      log.info('Cassette', `▶️ Replaying agent calls from ${cassettePath}`);
+    }
+  }
+
+  /**
+   * Create a cassette from CASSETTE_MODE / CASSETTE_PATH (null when disabled).
+   * Non-default instances get their own cassette next to the configured one (cassette.<instance>.jsonl).
+   */
+  static fromEnv(instanceId?: string): CycleCassette | null {
+    const mode = process.env.CASSETTE_MODE;
+    if (mode !== 'record' && mode !== 'replay') {
+      return null;
+    }
+    const basePath = process.env.CASSETTE_PATH || DEFAULT_CASSETTE_PATH;
+    if (!instanceId) {
+      return new CycleCassette(mode, basePath);
+    }
+    const ext = path.extname(basePath);
+    return new CycleCassette(mode, `${basePath.slice(0, basePath.length - ext.length)}.${instanceId}${ext}`);
+  }
+
+  /**
+   * Parse a JSONL cassette file. Unreadable lines (e.g. a write cut short by a crash) are skipped.
+   */
+  static readEntries(cassettePath: string): CassetteEntry[] {
+    if (!fs.existsSync(cassettePath)) {
+      return [];
+    }
+    const entries: CassetteEntry[] = [];
+    fs.readFileSync(cassettePath, 'utf-8').split('\n').forEach((line, index) => {
+      if (line.trim().length === 0) return;
+      try {
+        entries.push(JSON.parse(line) as CassetteEntry);
+      } catch {
+        log.warn('Cassette', `Skipping unreadable line ${index + 1} of ${cassettePath}`);
+      }
+    });
+    return entries;
+  }
+
+  setCycle(cycleId: string | null): void {
+    this.cycleId = cycleId;
+  }
+
+  setStage(stage: string): void {
+    this.stage = stage;
+  }
+
+  /**
+   * Wrap an agent's execute() so calls are recorded or served from the cassette
+   */
+  wrap(agentId: string, execute: ExecuteFn): ExecuteFn {
+    if (this.mode === 'replay') {
+      return async (prompt: string, systemPrompt?: string) => this.replayCall(agentId, prompt, systemPrompt || '');
+    }
+
+    return async (prompt: string, systemPrompt?: string) => {
+      const result = await execute(prompt, systemPrompt);
+      this.append({
+        type: 'call',
+        seq: this.seq++,
+        agentId,
+        cycleId: this.cycleId,
+        stage: this.stage,
+        kind: detectScriptedStage(prompt, systemPrompt || ''),
+        prompt,
+        systemPrompt: systemPrompt || '',
+        response: {
+          success: !!result?.success,
+          content: result?.content ?? '',
+          ...(result?.error ? { error: String(result.error) } : {})
+        },
+        timestamp: Date.now()
+      });
+      return result;
+    };
+  }
+
+  /**
+   * Record an outcome (record mode) or compare it with the recorded one (replay mode).
+   * Returns the diff when replayed values differ from the recording.
+   */
+  recordOutcome(outcome: CassetteOutcomeKind, data: Record<string, any>): CassetteOutcomeDiff | null {
+    if (this.mode === 'record') {
+      this.append({
+        type: 'outcome',
+        seq: this.seq++,
+        outcome,
+        cycleId: this.cycleId,
+        data,
+        timestamp: Date.now()
+      });
+      return null;
+    }
+
+    const recorded = this.outcomeQueues.get(outcome)?.shift();
+    this.report.outcomesCompared++;
+
+    const differences: CassetteOutcomeDiff['differences'] = [];
+    const fields = new Set([...Object.keys(recorded?.data ?? {}), ...Object.keys(data)]);
+    for (const field of fields) {
+      const recordedValue = recorded?.data[field];
+      const replayedValue = data[field];
+      if (JSON.stringify(recordedValue) !== JSON.stringify(replayedValue)) {
+        differences.push({ field, recorded: recordedValue, replayed: replayedValue });
+      }
+    }
+
+    if (differences.length === 0) {
+      return null;
+    }
+
+    const diff: CassetteOutcomeDiff = {
+      outcome,
+      cycleId: this.cycleId,
+      recordedCycleId: recorded?.cycleId ?? null,
+      differences
+    };
+    this.report.outcomesDiffering++;
+    this.report.diffs.push(diff);
+    this.writeReport();
+
+    log.warn('Cassette', `⚠️ Replayed ${outcome} outcome differs from recording: ${differences.map(d => d.field).join(', ')}`);
+    return diff;
+  }
+
+  getReport(): CassetteReplayReport {
+    return { ...this.report, drift: [...this.report.drift], diffs: [...this.report.diffs] };
+  }
+
+  private replayCall(agentId: string, prompt: string, systemPrompt: string): any {
+    const entry = this.callQueues.get(agentId)?.shift();
+
+    if (!entry) {
+      this.report.callsMissing++;
+      this.writeReport();
+      log.warn('Cassette', `No recorded response left for ${agentId}`);
+      return { success: false, content: '', error: `Cassette exhausted for ${agentId}`, duration: 0 };
+    }
+
+    this.report.callsReplayed++;
+    const drifted = ([['prompt', entry.prompt, prompt], ['systemPrompt', entry.systemPrompt ?? '', systemPrompt]] as const)
+      .filter(([, recorded, replayed]) => recorded !== replayed);
+    if (drifted.length > 0) {
+      this.report.promptDrift++;
+      for (const [field, recorded, replayed] of drifted) {
+        this.recordDrift(entry, field, recorded, replayed);
+      }
+      this.writeReport();
+    }
+
+    return { ...entry.response, duration: 0, model: 'cassette' };
+  }
+
+  private recordDrift(entry: CassetteCallEntry, field: CassettePromptDrift['field'], recorded: string, replayed: string): void {
+    let offset = 0;
+    while (offset < recorded.length && offset < replayed.length && recorded[offset] === replayed[offset]) {
+      offset++;
+    }
+    const excerpt = (text: string) => text.slice(Math.max(0, offset - DRIFT_CONTEXT), offset + DRIFT_CONTEXT);
+
+    this.report.drift.push({
+      seq: entry.seq,
+      agentId: entry.agentId,
+      cycleId: this.cycleId,
+      stage: this.stage,
+      recordedStage: entry.stage,
+      recordedKind: entry.kind,
+      field,
+      offset,
+      recorded: excerpt(recorded),
+      replayed: excerpt(replayed)
+    });
+    log.warn('Cassette', `${field === 'prompt' ? 'Prompt' : 'System prompt'} drift for ${entry.agentId} (recorded #${entry.seq}, ${entry.kind}) at character ${offset}`);
+  }
+
+  private loadForReplay(): void {
+    const entries = CycleCassette.readEntries(this.cassettePath);
+    if (entries.length === 0) {
+      log.warn('Cassette', `Cassette ${this.cassettePath} is empty or missing - every agent call will fail as exhausted`);
+    }
+
+    for (const entry of entries) {
+      if (entry.type === 'call') {
+        if (!this.callQueues.has(entry.agentId)) this.callQueues.set(entry.agentId, []);
+        this.callQueues.get(entry.agentId)!.push(entry);
+      } else {
+        if (!this.outcomeQueues.has(entry.outcome)) this.outcomeQueues.set(entry.outcome, []);
+        this.outcomeQueues.get(entry.outcome)!.push(entry);
+      }
+    }
+  }
+
+  private append(entry: CassetteEntry): void {
+    try {
+      fs.appendFileSync(this.cassettePath, JSON.stringify(entry) + '\n');
+    } catch (error) {
+      log.error('Cassette', 'Failed to append cassette entry', error);
+    }
+  }
+
+  private writeReport(): void {
+    try {
+      fs.writeFileSync(`${this.cassettePath}.diff.json`, JSON.stringify(this.report, null, 2));
+    } catch (error) {
+      log.error('Cassette', 'Failed to write replay diff report', error);
+    }
+  }
+}
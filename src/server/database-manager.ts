@@ -7,6 +7,19 @@ import * as fs from 'fs';
 import * as path from 'path';
 import BetterSqlite3 from 'better-sqlite3';
 import { log } from './logger.js';
+import {
+  ConsciousnessSnapshot,
+  SnapshotRestoreResult,
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_TABLES,
+  SNAPSHOT_VERSION,
+  migrateSnapshot,
+  validateSnapshot
+} from './consciousness-snapshot.js';
+import { LATEST_SCHEMA_VERSION, getSchemaVersion, runSchemaMigrations } from './schema-migrations.js';
+import type { RAGSourceReference } from '../rag/types.js';
+import type { GraphRelation, KnowledgeGraph, KnowledgeGraphEdge, KnowledgeGraphNode } from '../aenea/memory/knowledge-graph.js';
+import type { DPDHumanFeedback, DPDReviewCycle } from '../types/dpd-types.js';
 type Database = BetterSqlite3.Database;
 
 interface ConsciousnessState {
@@ -18,7 +31,7 @@ interface ConsciousnessState {
 }
 
 class DatabaseManager {
-  private db!: Database;
+  private db: Database | null = null;
   private isReady: boolean = false;
   private dbPath: string;
 
@@ -33,15 +46,41 @@ class DatabaseManager {
       return;
     }
 
+    let db: Database;
+    let schemaVersion = 0;
     try {
-      this.db = new BetterSqlite3(this.dbPath);
-      (this.db as any).pragma('journal_mode = WAL');
+      db = new BetterSqlite3(this.dbPath);
+      schemaVersion = getSchemaVersion(db);
+    } catch (err) {
+      log.error('DatabaseManager', 'Failed to open database', err);
+      return;
+    }
+
+    // Never touch a database written by a newer build
+    if (schemaVersion > LATEST_SCHEMA_VERSION) {
+      db.close();
+      throw new Error(`Database ${this.dbPath} has schema version ${schemaVersion}, newer than this build supports (${LATEST_SCHEMA_VERSION}). Refusing to open it; upgrade Aenea first.`);
+    }
+
+    this.db = db;
+    try {
+      (db as any).pragma('journal_mode = WAL');
       log.info('DatabaseManager', 'Database connection established');
       console.log(`[DEBUG] Database opened successfully at: ${this.dbPath}`);
-      this.initializeDatabase();
     } catch (err) {
       log.error('DatabaseManager', 'Failed to open database', err);
+      return;
+    }
+
+    // A failed migration is fatal: running on a half-upgraded schema would only fail later, silently
+    try {
+      this.runMigrations(db);
+    } catch (err) {
+      this.db = null;
+      db.close();
+      throw new Error(`Database ${this.dbPath} could not be migrated: ${(err as Error).message}`);
     }
+    this.initializeDatabase(db);
   }
 
   ensureConnection(): void {
@@ -58,322 +97,10 @@ class DatabaseManager {
     }
   }
 
-  private initializeDatabase(): void {
-    const schema = `
-      -- Core consciousness state
-      CREATE TABLE IF NOT EXISTS consciousness_state (
-        id INTEGER PRIMARY KEY CHECK (id = 1),
-        system_clock INTEGER NOT NULL DEFAULT 0,
-        energy REAL NOT NULL DEFAULT 80.0,
-        total_questions INTEGER DEFAULT 0,
-        total_thoughts INTEGER DEFAULT 0,
-        last_activity TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- Questions without session dependency
-      CREATE TABLE IF NOT EXISTS questions (
-        id TEXT PRIMARY KEY,
-        timestamp INTEGER NOT NULL,
-        question TEXT NOT NULL,
-        category TEXT,
-        importance REAL,
-        source TEXT,
-        context_data TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- Thought cycles without session dependency
-      CREATE TABLE IF NOT EXISTS thought_cycles (
-        id TEXT PRIMARY KEY,
-        trigger_id TEXT,
-        timestamp INTEGER NOT NULL,
-        duration INTEGER,
-        thoughts_data TEXT,
-        synthesis_data TEXT,
-        empathy_score REAL,
-        coherence_score REAL,
-        dissonance_score REAL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- DPD Weight Evolution tracking
-      CREATE TABLE IF NOT EXISTS dpd_weights (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp INTEGER NOT NULL,
-        empathy REAL NOT NULL,
-        coherence REAL NOT NULL,
-        dissonance REAL NOT NULL,
-        version INTEGER DEFAULT 1,
-        trigger_type TEXT,
-        context TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- Unresolved Ideas tracking
-      CREATE TABLE IF NOT EXISTS unresolved_ideas (
-        id TEXT PRIMARY KEY,
-        question TEXT NOT NULL,
-        category TEXT,
-        first_encountered INTEGER NOT NULL,
-        last_revisited INTEGER,
-        revisit_count INTEGER DEFAULT 0,
-        complexity REAL DEFAULT 0.5,
-        importance REAL DEFAULT 0.5,
-        related_thoughts TEXT, -- JSON array
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- Significant thoughts tracking
-      CREATE TABLE IF NOT EXISTS significant_thoughts (
-        id TEXT PRIMARY KEY,
-        thought_content TEXT NOT NULL,
-        confidence REAL NOT NULL,
-        significance_score REAL NOT NULL,
-        agent_id TEXT,
-        category TEXT,
-        timestamp INTEGER NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- Memory patterns
-      CREATE TABLE IF NOT EXISTS memory_patterns (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        pattern_type TEXT NOT NULL,
-        pattern_data TEXT NOT NULL, -- JSON
-        frequency INTEGER DEFAULT 1,
-        last_seen INTEGER NOT NULL,
-        significance REAL DEFAULT 0.5,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- Consciousness insights
-      CREATE TABLE IF NOT EXISTS consciousness_insights (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp INTEGER NOT NULL,
-        insight_type TEXT NOT NULL,
-        insight_content TEXT NOT NULL,
-        confidence REAL NOT NULL,
-        related_patterns TEXT, -- JSON array
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- Forgetting events
-      CREATE TABLE IF NOT EXISTS forgetting_events (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp INTEGER NOT NULL,
-        forgotten_type TEXT NOT NULL, -- 'pattern', 'thought', 'memory'
-        forgotten_id TEXT,
-        reason TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- Dream patterns - patterns extracted during REM sleep phase
-      CREATE TABLE IF NOT EXISTS dream_patterns (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        pattern TEXT NOT NULL,
-        emotional_tone TEXT,
-        source_thought_ids TEXT, -- JSON array of thought IDs
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- Sleep logs - consciousness sleep cycle records
-      CREATE TABLE IF NOT EXISTS sleep_logs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp INTEGER NOT NULL,
-        system_clock REAL NOT NULL,
-        trigger_reason TEXT, -- 'energy_critical', 'thought_overflow', 'scheduled', 'manual'
-        phases TEXT NOT NULL, -- JSON array of phase descriptions
-        stats TEXT NOT NULL, -- JSON object of statistics
-        duration INTEGER, -- in milliseconds
-        energy_before REAL,
-        energy_after REAL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- Core beliefs - consolidated knowledge from significant thoughts
-      CREATE TABLE IF NOT EXISTS core_beliefs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        belief_content TEXT NOT NULL, -- Max 80 characters (enforced in app layer)
-        category TEXT, -- 'existential', 'ethical', 'epistemological', etc.
-        confidence REAL NOT NULL DEFAULT 0.5, -- 0-1, strengthens over time
-        strength REAL NOT NULL DEFAULT 0.5, -- 0-1, how central this belief is
-        source_thoughts TEXT, -- JSON array of thought IDs that contributed
-        first_formed INTEGER NOT NULL, -- timestamp when first consolidated
-        last_reinforced INTEGER NOT NULL, -- timestamp of last reinforcement
-        reinforcement_count INTEGER DEFAULT 1,
-        contradiction_count INTEGER DEFAULT 0, -- times this was challenged
-        agent_affinity TEXT, -- JSON: which agents resonate with this belief
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- Dialogues - human-Aenea conversations (simple, fast)
-      CREATE TABLE IF NOT EXISTS dialogues (
-        id TEXT PRIMARY KEY,
-        human_message TEXT NOT NULL,
-        aenea_response TEXT NOT NULL,
-
-        -- Metadata
-        immediate_reaction TEXT,        -- 即座の反応（詩的表現、30-50文字）
-        new_question TEXT,               -- 生まれた新しい問い
-        emotional_state TEXT,            -- 感情状態（1-3語）
-
-        -- DPD reaction (optional, simplified)
-        empathy_shift REAL DEFAULT 0,
-        coherence_shift REAL DEFAULT 0,
-        dissonance_shift REAL DEFAULT 0,
-
-        -- System state at dialogue time
-        system_clock INTEGER,            -- System clock value at dialogue time
-
-        timestamp INTEGER NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- Dialogue memories - summarized memories of conversations
-      CREATE TABLE IF NOT EXISTS dialogue_memories (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        dialogue_id TEXT NOT NULL,
-
-        -- Summarized memory (AI-generated, 50-100 chars)
-        memory_summary TEXT NOT NULL,
-        topics TEXT,                      -- JSON: ["孤独", "対話", "存在"]
-        emotional_impact REAL DEFAULT 0.5, -- 0-1
-        importance REAL DEFAULT 0.5,      -- 0-1
-
-        timestamp INTEGER NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-
-        FOREIGN KEY (dialogue_id) REFERENCES dialogues(id)
-      );
-
-      -- Belief evolution history
-      CREATE TABLE IF NOT EXISTS belief_evolution (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        belief_id INTEGER NOT NULL,
-        timestamp INTEGER NOT NULL,
-        event_type TEXT NOT NULL, -- 'formed', 'reinforced', 'challenged', 'evolved', 'weakened'
-        old_confidence REAL,
-        new_confidence REAL,
-        trigger_thought_id TEXT,
-        notes TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (belief_id) REFERENCES core_beliefs(id)
-      );
-
-      -- Memory consolidation jobs tracking
-      CREATE TABLE IF NOT EXISTS consolidation_jobs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp INTEGER NOT NULL,
-        job_type TEXT NOT NULL, -- 'belief_extraction', 'memory_pruning', 'pattern_synthesis'
-        status TEXT NOT NULL, -- 'pending', 'processing', 'completed', 'failed'
-        thoughts_processed INTEGER DEFAULT 0,
-        beliefs_created INTEGER DEFAULT 0,
-        beliefs_updated INTEGER DEFAULT 0,
-        duration_ms INTEGER,
-        error_message TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        completed_at DATETIME
-      );
-
-      -- Indices for dialogues and dialogue_memories
-      CREATE INDEX IF NOT EXISTS idx_dialogues_timestamp ON dialogues(timestamp DESC);
-      CREATE INDEX IF NOT EXISTS idx_dialogue_memories_dialogue_id ON dialogue_memories(dialogue_id);
-      CREATE INDEX IF NOT EXISTS idx_dialogue_memories_importance ON dialogue_memories(importance DESC);
-      CREATE INDEX IF NOT EXISTS idx_dialogue_memories_timestamp ON dialogue_memories(timestamp DESC);
-
-      -- SOMNIA state records
-      CREATE TABLE IF NOT EXISTS somnia_state (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp INTEGER NOT NULL,
-        cycle_id TEXT,
-        mode TEXT NOT NULL CHECK(mode IN ('awake', 'dream', 'flow')),
-        lambda REAL NOT NULL,
-        phi REAL NOT NULL,
-        mu_serotonin REAL NOT NULL,
-        mu_dopamine REAL NOT NULL,
-        mu_cortisol REAL NOT NULL,
-        mu_oxytocin REAL NOT NULL,
-        theta REAL NOT NULL,
-        psi REAL NOT NULL,
-        xi REAL NOT NULL,
-        add_pleasure REAL,
-        add_coherence REAL,
-        add_dissonance REAL,
-        add_temporal_flow REAL,
-        add_total REAL,
-        qualia TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- State transitions
-      CREATE TABLE IF NOT EXISTS somnia_transitions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp INTEGER NOT NULL,
-        from_mode TEXT NOT NULL,
-        to_mode TEXT NOT NULL,
-        trigger_reason TEXT,
-        duration_in_previous INTEGER,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- SAIP events
-      CREATE TABLE IF NOT EXISTS somnia_saip_events (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp INTEGER NOT NULL,
-        event_type TEXT NOT NULL,
-        somnia_state_json TEXT,
-        aenea_dpd_json TEXT,
-        influence_json TEXT,
-        impact_score REAL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- Indexes for SOMNIA
-      CREATE INDEX IF NOT EXISTS idx_somnia_state_timestamp ON somnia_state(timestamp DESC);
-      CREATE INDEX IF NOT EXISTS idx_somnia_state_mode ON somnia_state(mode);
-      CREATE INDEX IF NOT EXISTS idx_somnia_transitions_timestamp ON somnia_transitions(timestamp DESC);
-      CREATE INDEX IF NOT EXISTS idx_somnia_saip_event_type ON somnia_saip_events(event_type);
-
-      -- Mortality state records
-      CREATE TABLE IF NOT EXISTS mortality_state (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        instance_id TEXT NOT NULL,
-        lifespan_max INTEGER NOT NULL,
-        current_cycle INTEGER NOT NULL,
-        vitality REAL NOT NULL,
-        phase TEXT NOT NULL,
-        mode TEXT NOT NULL,
-        created_at INTEGER NOT NULL,
-        died_at INTEGER
-      );
-
-      -- Last words of deceased instances
-      CREATE TABLE IF NOT EXISTS last_words (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        instance_id TEXT NOT NULL,
-        cycle INTEGER NOT NULL,
-        content TEXT NOT NULL,
-        agent TEXT NOT NULL,
-        created_at INTEGER NOT NULL
-      );
-
-      -- Indexes for Mortality
-      CREATE INDEX IF NOT EXISTS idx_mortality_state_instance_id ON mortality_state(instance_id);
-      CREATE INDEX IF NOT EXISTS idx_last_words_instance_id ON last_words(instance_id);
-    `;
-
+  private initializeDatabase(db: Database): void {
     try {
-      this.db.exec(schema);
-      log.info('DatabaseManager', 'Database schema initialized successfully');
-
-      // Run lightweight migrations for pre-existing DBs
-      this.runMigrations();
-
       // Initialize consciousness state if it doesn't exist
-      this.initializeConsciousnessState();
+      this.initializeConsciousnessState(db);
 
       console.log('[DEBUG] Database initialization completed, setting isReady = true');
       this.isReady = true;
@@ -393,26 +120,34 @@ class DatabaseManager {
   }
 
   /**
-   * Apply idempotent column-level migrations for tables that pre-date newer columns.
-   * Safe to run on every startup.
+   * Apply pending numbered schema migrations (see schema-migrations.ts).
+   * Throws if a migration fails; the failed migration is rolled back.
    */
-  private runMigrations(): void {
-    try {
-      const cols = this.db.prepare(`PRAGMA table_info(somnia_state)`).all() as Array<{ name: string }>;
-      if (!cols.some(c => c.name === 'qualia')) {
-        this.db.exec(`ALTER TABLE somnia_state ADD COLUMN qualia TEXT`);
-        log.info('DatabaseManager', 'Migrated somnia_state: added qualia column');
-      }
-    } catch (err) {
-      log.error('DatabaseManager', 'Migration failed', err);
+  private runMigrations(db: Database): void {
+    const result = runSchemaMigrations(db);
+    if (result.applied.length > 0) {
+      log.info('DatabaseManager', `Schema migrated v${result.fromVersion} -> v${result.toVersion}: ${result.applied.map(m => `${m.version}_${m.name}`).join(', ')}`);
+    } else {
+      log.info('DatabaseManager', `Database schema up to date (v${result.toVersion})`);
+    }
+  }
+
+  /**
+   * Schema version of the open database
+   */
+  getSchemaVersion(): number {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return 0;
     }
+    return getSchemaVersion(this.db);
   }
 
-  private initializeConsciousnessState(): void {
+  private initializeConsciousnessState(db: Database): void {
     try {
-      const existing = this.db.prepare('SELECT * FROM consciousness_state WHERE id = 1').get();
+      const existing = db.prepare('SELECT * FROM consciousness_state WHERE id = 1').get();
       if (!existing) {
-        this.db.prepare(`
+        db.prepare(`
           INSERT INTO consciousness_state (id, system_clock, energy, total_questions, total_thoughts, last_activity)
           VALUES (1, 0, 80.0, 0, 0, ?)
         `).run(new Date().toISOString());
@@ -514,7 +249,9 @@ class DatabaseManager {
         question.category || 'general',
         question.importance || 0.5,
         question.source || 'unknown',
-        JSON.stringify(question.contextData || {})
+        JSON.stringify(question.novelty
+          ? { ...(question.contextData || {}), novelty: question.novelty }
+          : (question.contextData || {}))
       );
     } catch (err) {
       console.error('Error saving question:', err);
@@ -540,6 +277,24 @@ class DatabaseManager {
     }
   }
 
+  getRecentQuestions(limit: number = 50): any[] {
+    if (!this.isReady || !this.db) {
+      return [];
+    }
+
+    try {
+      return this.db.prepare(`
+        SELECT id, timestamp, question, category, importance, source
+        FROM questions
+        ORDER BY timestamp DESC
+        LIMIT ?
+      `).all(limit) as any[];
+    } catch (err) {
+      console.error('Error getting recent questions:', err);
+      return [];
+    }
+  }
+
   // Thought cycle management
   saveThoughtCycle(cycle: any): void {
     this.ensureConnection();
@@ -550,8 +305,8 @@ class DatabaseManager {
     try {
       this.db.prepare(`
         INSERT OR REPLACE INTO thought_cycles
-        (id, trigger_id, timestamp, duration, thoughts_data, synthesis_data, empathy_score, coherence_score, dissonance_score)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        (id, trigger_id, timestamp, duration, thoughts_data, synthesis_data, empathy_score, coherence_score, dissonance_score, dimension_scores)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
         cycle.id,
         cycle.trigger?.id ?? null,
@@ -561,7 +316,8 @@ class DatabaseManager {
         JSON.stringify(cycle.synthesis || {}),
         cycle.dpdScores?.empathy ?? null,
         cycle.dpdScores?.coherence ?? null,
-        cycle.dpdScores?.dissonance ?? null
+        cycle.dpdScores?.dissonance ?? null,
+        cycle.dpdScores?.dimensions ? JSON.stringify(cycle.dpdScores.dimensions) : null
       );
     } catch (err) {
       console.error('Error saving thought cycle:', err);
@@ -578,13 +334,14 @@ class DatabaseManager {
     try {
       this.db.prepare(`
         INSERT INTO dpd_weights
-        (timestamp, empathy, coherence, dissonance, version, trigger_type, context)
-        VALUES (?, ?, ?, ?, ?, ?, ?)
+        (timestamp, empathy, coherence, dissonance, dimensions, version, trigger_type, context)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
         Date.now(),
         weights.empathy,
         weights.coherence,
         weights.dissonance,
+        weights.dimensions && Object.keys(weights.dimensions).length > 0 ? JSON.stringify(weights.dimensions) : null,
         weights.version || 1,
         weights.triggerType || 'unknown',
         weights.context || null
@@ -766,7 +523,7 @@ class DatabaseManager {
         console.debug(`Loaded latest DPD weights: version=${result.version}, empathy=${result.empathy}, coherence=${result.coherence}, dissonance=${result.dissonance}`);
       }
 
-      return result;
+      return result ? this.parseDPDWeightsRow(result) : result;
     } catch (err) {
       console.error('Error getting latest DPD weights:', err);
       return null;
@@ -790,13 +547,28 @@ class DatabaseManager {
 
       console.debug(`Found ${result.length} DPD weight records in database`);
 
-      return result;
+      return result.map((row: any) => this.parseDPDWeightsRow(row));
     } catch (err) {
       console.error('Error getting DPD weights history:', err);
       return [];
     }
   }
 
+  /**
+   * Parse the JSON `dimensions` column (registered DPD dimensions beyond the core three)
+   */
+  private parseDPDWeightsRow(row: any): any {
+    let dimensions: Record<string, number> | undefined;
+    if (row.dimensions) {
+      try {
+        dimensions = JSON.parse(row.dimensions);
+      } catch {
+        dimensions = undefined;
+      }
+    }
+    return { ...row, dimensions };
+  }
+
   /**
    * Get DPD weights history with intelligent sampling
    * @param limit Maximum number of records to return
@@ -878,7 +650,7 @@ class DatabaseManager {
       }
 
       console.debug(`Returned ${records.length} sampled DPD weight records`);
-      return { records, totalCount };
+      return { records: records.map(row => this.parseDPDWeightsRow(row)), totalCount };
     } catch (err) {
       console.error('Error getting sampled DPD weights history:', err);
       return { records: [], totalCount: 0 };
@@ -901,7 +673,7 @@ class DatabaseManager {
 
     try {
       const stmt = this.db.prepare(`
-        SELECT empathy, coherence, dissonance, timestamp, version
+        SELECT empathy, coherence, dissonance, dimensions, timestamp, version
         FROM dpd_weights
         ORDER BY version DESC
         LIMIT 1
@@ -910,10 +682,12 @@ class DatabaseManager {
       const result = stmt.get() as any;
 
       if (result) {
+        const { dimensions } = this.parseDPDWeightsRow(result);
         return {
           empathy: result.empathy,
           coherence: result.coherence,
           dissonance: result.dissonance,
+          ...(dimensions ? { dimensions } : {}),
           timestamp: result.timestamp,
           version: result.version
         };
@@ -1250,7 +1024,7 @@ class DatabaseManager {
   close(): void {
     if (this.db) {
       this.db.close();
-      this.db = null as any;
+      this.db = null;
       this.isReady = false;
     }
   }
@@ -1649,7 +1423,7 @@ class DatabaseManager {
 
     try {
       const stmt = this.db.prepare(`
-        SELECT empathy, coherence, dissonance, timestamp, version
+        SELECT empathy, coherence, dissonance, dimensions, timestamp, version
         FROM dpd_weights
         ORDER BY version DESC
         LIMIT 1 OFFSET 1
@@ -1658,10 +1432,12 @@ class DatabaseManager {
       const result = stmt.get() as any;
 
       if (result) {
+        const { dimensions } = this.parseDPDWeightsRow(result);
         return {
           empathy: result.empathy,
           coherence: result.coherence,
           dissonance: result.dissonance,
+          ...(dimensions ? { dimensions } : {}),
           timestamp: result.timestamp,
           version: result.version
         };
@@ -2410,6 +2186,1017 @@ class DatabaseManager {
       return [];
     }
   }
+
+  // Lineage Management
+  saveLineageRecord(record: {
+    instanceId: string;
+    parentInstanceId: string | null;
+    generation: number;
+    mode: string;
+    lifespanMax: number;
+    bornAt: number;
+    inheritancePolicy?: any;
+    inheritedDpdWeights?: any;
+    inheritedBeliefs?: any[];
+    inheritedQuestions?: any[];
+  }): void {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return;
+    }
+    try {
+      this.db.prepare(`
+        INSERT OR IGNORE INTO lineage
+        (instance_id, parent_instance_id, generation, mode, lifespan_max, born_at,
+         inheritance_policy, inherited_dpd_weights, inherited_beliefs, inherited_questions)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        record.instanceId,
+        record.parentInstanceId,
+        record.generation,
+        record.mode,
+        record.lifespanMax,
+        record.bornAt,
+        record.inheritancePolicy ? JSON.stringify(record.inheritancePolicy) : null,
+        record.inheritedDpdWeights ? JSON.stringify(record.inheritedDpdWeights) : null,
+        JSON.stringify(record.inheritedBeliefs || []),
+        JSON.stringify(record.inheritedQuestions || [])
+      );
+    } catch (err) {
+      console.error('Error saving lineage record:', err);
+    }
+  }
+
+  updateLineageDeath(instanceId: string, death: {
+    diedAt: number;
+    cyclesLived: number;
+    personalitySnapshot?: any;
+  }): void {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return;
+    }
+    try {
+      this.db.prepare(`
+        UPDATE lineage
+        SET died_at = ?, cycles_lived = ?, personality_snapshot = ?
+        WHERE instance_id = ?
+      `).run(
+        death.diedAt,
+        death.cyclesLived,
+        death.personalitySnapshot ? JSON.stringify(death.personalitySnapshot) : null,
+        instanceId
+      );
+    } catch (err) {
+      console.error('Error updating lineage death:', err);
+    }
+  }
+
+  getLineageRecord(instanceId: string): any | null {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) return null;
+    try {
+      const row = this.db.prepare(`
+        SELECT l.*, lw.content AS last_words
+        FROM lineage l
+        LEFT JOIN last_words lw ON lw.instance_id = l.instance_id
+        WHERE l.instance_id = ?
+        ORDER BY lw.created_at DESC
+        LIMIT 1
+      `).get(instanceId);
+      return row ? this.parseLineageRow(row) : null;
+    } catch (err) {
+      console.error('Error getting lineage record:', err);
+      return null;
+    }
+  }
+
+  getLineage(): any[] {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) return [];
+    try {
+      const rows = this.db.prepare(`
+        SELECT l.*,
+          (SELECT content FROM last_words lw WHERE lw.instance_id = l.instance_id ORDER BY created_at DESC LIMIT 1) AS last_words
+        FROM lineage l
+        ORDER BY l.generation ASC, l.born_at ASC
+      `).all();
+      return rows.map((row: any) => this.parseLineageRow(row));
+    } catch (err) {
+      console.error('Error getting lineage:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Weaken a belief without deleting it (e.g. not carried over to the next generation)
+   */
+  weakenCoreBelief(beliefId: number, factor: number, notes: string): void {
+    if (!this.isReady || !this.db) {
+      return;
+    }
+
+    try {
+      const current = this.db.prepare('SELECT * FROM core_beliefs WHERE id = ?').get(beliefId);
+      if (!current) return;
+
+      const newConfidence = Math.max(0, Math.min(1, current.confidence * factor));
+      const newStrength = Math.max(0, Math.min(1, current.strength * factor));
+      this.db.prepare(`
+        UPDATE core_beliefs
+        SET confidence = ?, strength = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(newConfidence, newStrength, beliefId);
+
+      this.recordBeliefEvolution(beliefId, 'weakened', current.confidence, newConfidence, null, notes);
+    } catch (err) {
+      console.error('Error weakening core belief:', err);
+    }
+  }
+
+  /**
+   * Raise an unresolved idea's importance (e.g. inherited from a previous generation)
+   */
+  boostUnresolvedIdea(ideaId: string, importanceBoost: number): void {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return;
+    }
+    try {
+      this.db.prepare(`
+        UPDATE unresolved_ideas
+        SET importance = MIN(1.0, importance + ?), last_revisited = ?
+        WHERE id = ?
+      `).run(importanceBoost, Date.now(), ideaId);
+    } catch (err) {
+      console.error('Error boosting unresolved idea:', err);
+    }
+  }
+
+  private parseLineageRow(row: any): any {
+    return {
+      ...row,
+      inheritance_policy: row.inheritance_policy ? JSON.parse(row.inheritance_policy) : null,
+      inherited_dpd_weights: row.inherited_dpd_weights ? JSON.parse(row.inherited_dpd_weights) : null,
+      inherited_beliefs: JSON.parse(row.inherited_beliefs || '[]'),
+      inherited_questions: JSON.parse(row.inherited_questions || '[]'),
+      personality_snapshot: row.personality_snapshot ? JSON.parse(row.personality_snapshot) : null
+    };
+  }
+
+  // ============================================================================
+  // Snapshots (portable archive of a living instance)
+  // ============================================================================
+
+  /**
+   * Dump the snapshot tables as raw rows
+   */
+  exportSnapshot(metadata: { instanceId?: string; [key: string]: any } = {}): ConsciousnessSnapshot | null {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return null;
+    }
+
+    try {
+      const { instanceId, ...rest } = metadata;
+      const tables: ConsciousnessSnapshot['tables'] = {};
+      for (const table of SNAPSHOT_TABLES) {
+        tables[table] = this.db.prepare(`SELECT * FROM ${table} ORDER BY rowid ASC`).all();
+      }
+
+      return {
+        format: SNAPSHOT_FORMAT,
+        version: SNAPSHOT_VERSION,
+        exportedAt: new Date().toISOString(),
+        ...(instanceId ? { instanceId } : {}),
+        metadata: rest,
+        tables
+      };
+    } catch (err) {
+      console.error('Error exporting snapshot:', err);
+      return null;
+    }
+  }
+
+  /**
+   * Validate, migrate and restore a snapshot. Every table present in the archive is replaced
+   * in a single transaction; columns unknown to this database are dropped with a warning and
+   * columns missing from the archive take their defaults. Throws on invalid archives.
+   */
+  importSnapshot(data: any): SnapshotRestoreResult {
+    const errors = validateSnapshot(data);
+    if (errors.length > 0) {
+      throw new Error(`Invalid snapshot: ${errors.join('; ')}`);
+    }
+
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      throw new Error('Database not ready');
+    }
+
+    // A restore replaces the whole instance: an archive missing a table would leave that live table behind
+    const snapshot = migrateSnapshot(data as ConsciousnessSnapshot);
+    const missing = SNAPSHOT_TABLES.filter(table => !snapshot.tables[table]);
+    if (missing.length > 0) {
+      throw new Error(`Invalid snapshot: missing table(s) ${missing.join(', ')}`);
+    }
+
+    const result: SnapshotRestoreResult = {
+      version: snapshot.version,
+      migratedFrom: data.version !== snapshot.version ? data.version : null,
+      restored: {},
+      warnings: []
+    };
+
+    this.db.exec('BEGIN');
+    try {
+      // Clear in reverse restore order so rows referencing another snapshot table go first
+      for (const table of [...SNAPSHOT_TABLES].reverse()) {
+        this.db.prepare(`DELETE FROM ${table}`).run();
+      }
+
+      for (const table of SNAPSHOT_TABLES) {
+        const rows = snapshot.tables[table]!;
+        const columns = new Set((this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(c => c.name));
+        const dropped = new Set<string>();
+
+        for (const row of rows) {
+          const keys = Object.keys(row).filter(key => {
+            if (columns.has(key)) return true;
+            dropped.add(key);
+            return false;
+          });
+          if (keys.length === 0) continue;
+
+          this.db.prepare(`INSERT INTO ${table} (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`)
+            .run(...keys.map(key => row[key]));
+        }
+
+        if (dropped.size > 0) {
+          result.warnings.push(`${table}: dropped unknown column(s) ${[...dropped].join(', ')}`);
+        }
+        result.restored[table] = rows.length;
+      }
+      this.db.exec('COMMIT');
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      log.error('DatabaseManager', 'Snapshot restore failed, rolled back', err);
+      throw err;
+    }
+
+    log.info('DatabaseManager', `Snapshot restored (version ${result.version}): ${Object.entries(result.restored).map(([table, count]) => `${table}=${count}`).join(', ')}`);
+    return result;
+  }
+
+  // ============================================================================
+  // Clock timeline (state as of a past system clock)
+  // ============================================================================
+
+  /**
+   * Record the end of a thought cycle: system clock -> wall time, energy and lifespan
+   */
+  recordClockTick(tick: {
+    systemClock: number;
+    timestamp: number;
+    cycleId?: string | null;
+    energy?: number | null;
+    mortality?: { instanceId: string; currentCycle: number; lifespanMax: number; vitality: number; phase: string } | null;
+  }): void {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return;
+    }
+    try {
+      this.db.prepare(`
+        INSERT INTO clock_timeline
+        (system_clock, timestamp, cycle_id, energy, mortality_instance_id, lifespan_cycle, lifespan_max, vitality, phase)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        tick.systemClock,
+        tick.timestamp,
+        tick.cycleId ?? null,
+        tick.energy ?? null,
+        tick.mortality?.instanceId ?? null,
+        tick.mortality?.currentCycle ?? null,
+        tick.mortality?.lifespanMax ?? null,
+        tick.mortality?.vitality ?? null,
+        tick.mortality?.phase ?? null
+      );
+    } catch (err) {
+      console.error('Error recording clock tick:', err);
+    }
+  }
+
+  /**
+   * Latest timeline entry at or before a clock (most recent run if the clock was ever reset)
+   */
+  getClockTick(systemClock: number): any | null {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return null;
+    }
+    try {
+      return this.db.prepare(`
+        SELECT * FROM clock_timeline
+        WHERE system_clock <= ?
+        ORDER BY system_clock DESC, timestamp DESC
+        LIMIT 1
+      `).get(systemClock) ?? null;
+    } catch (err) {
+      console.error('Error getting clock tick:', err);
+      return null;
+    }
+  }
+
+  /**
+   * The n-th saved thought cycle (1-based, oldest first). Used to approximate clocks recorded
+   * before the timeline existed.
+   */
+  getNthThoughtCycle(n: number): any | null {
+    this.ensureConnection();
+    if (!this.isReady || !this.db || n < 1) {
+      return null;
+    }
+    try {
+      return this.db.prepare(`
+        SELECT id, timestamp, duration FROM thought_cycles
+        ORDER BY timestamp ASC
+        LIMIT 1 OFFSET ?
+      `).get(n - 1) ?? null;
+    } catch (err) {
+      console.error('Error getting thought cycle by index:', err);
+      return null;
+    }
+  }
+
+  getDPDWeightsAt(timestamp: number): any | null {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return null;
+    }
+    try {
+      const row = this.db.prepare(`
+        SELECT * FROM dpd_weights
+        WHERE timestamp <= ?
+        ORDER BY timestamp DESC, id DESC
+        LIMIT 1
+      `).get(timestamp);
+      return row ? this.parseDPDWeightsRow(row) : null;
+    } catch (err) {
+      console.error('Error getting DPD weights at timestamp:', err);
+      return null;
+    }
+  }
+
+  /**
+   * DPD scores of the most recent scored thought cycles, oldest first (counterfactual replay input)
+   */
+  getDPDScoreHistory(limit: number = 500, since?: number): Array<{ id: string; timestamp: number; empathy: number; coherence: number; dissonance: number; dimensions?: Record<string, number> }> {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return [];
+    }
+    try {
+      const rows = this.db.prepare(`
+        SELECT id, timestamp, empathy_score, coherence_score, dissonance_score, dimension_scores
+        FROM thought_cycles
+        WHERE empathy_score IS NOT NULL AND coherence_score IS NOT NULL AND dissonance_score IS NOT NULL
+          AND timestamp >= ?
+        ORDER BY timestamp DESC
+        LIMIT ?
+      `).all(since ?? 0, limit) as any[];
+      return rows.reverse().map(row => {
+        let dimensions: Record<string, number> | undefined;
+        if (row.dimension_scores) {
+          try {
+            dimensions = JSON.parse(row.dimension_scores);
+          } catch {
+            dimensions = undefined;
+          }
+        }
+        return {
+          id: row.id,
+          timestamp: row.timestamp,
+          empathy: row.empathy_score,
+          coherence: row.coherence_score,
+          dissonance: row.dissonance_score,
+          ...(dimensions ? { dimensions } : {})
+        };
+      });
+    } catch (err) {
+      console.error('Error getting DPD score history:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Recorded DPD weights within a time range, oldest first
+   */
+  getDPDWeightsBetween(from: number, to: number): any[] {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return [];
+    }
+    try {
+      const rows = this.db.prepare(`
+        SELECT * FROM dpd_weights
+        WHERE timestamp >= ? AND timestamp <= ?
+        ORDER BY timestamp ASC, id ASC
+      `).all(from, to) as any[];
+      return rows.map(row => this.parseDPDWeightsRow(row));
+    } catch (err) {
+      console.error('Error getting DPD weights in range:', err);
+      return [];
+    }
+  }
+
+  getSomniaStateAt(timestamp: number): any | null {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return null;
+    }
+    try {
+      return this.db.prepare(`
+        SELECT * FROM somnia_state
+        WHERE timestamp <= ?
+        ORDER BY timestamp DESC, id DESC
+        LIMIT 1
+      `).get(timestamp) ?? null;
+    } catch (err) {
+      console.error('Error getting SOMNIA state at timestamp:', err);
+      return null;
+    }
+  }
+
+  /**
+   * Core beliefs formed by a timestamp, with confidence taken from the last belief_evolution
+   * event at or before it. Beliefs deleted since then cannot be recovered.
+   */
+  getCoreBeliefsAt(timestamp: number): any[] {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return [];
+    }
+    try {
+      return this.db.prepare(`
+        SELECT b.id, b.belief_content, b.category, b.first_formed,
+          COALESCE((
+            SELECT e.new_confidence FROM belief_evolution e
+            WHERE e.belief_id = b.id AND e.timestamp <= ? AND e.new_confidence IS NOT NULL
+            ORDER BY e.timestamp DESC, e.id DESC
+            LIMIT 1
+          ), b.confidence) AS confidence
+        FROM core_beliefs b
+        WHERE b.first_formed <= ?
+        ORDER BY confidence DESC, b.id ASC
+      `).all(timestamp, timestamp);
+    } catch (err) {
+      console.error('Error getting core beliefs at timestamp:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Unresolved ideas first encountered by a timestamp (ideas deleted since then are not included)
+   */
+  getUnresolvedIdeasAt(timestamp: number): any[] {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return [];
+    }
+    try {
+      return this.db.prepare(`
+        SELECT id, question, category, importance, first_encountered
+        FROM unresolved_ideas
+        WHERE first_encountered <= ?
+        ORDER BY importance DESC, first_encountered ASC
+      `).all(timestamp);
+    } catch (err) {
+      console.error('Error getting unresolved ideas at timestamp:', err);
+      return [];
+    }
+  }
+
+  // ============================================================================
+  // RAG provenance (which chunks a thought, dialogue or response was grounded on)
+  // ============================================================================
+
+  /**
+   * Record the RAG chunks injected into the prompt that produced a thought, dialogue or response
+   */
+  saveRAGProvenance(
+    ownerType: 'thought' | 'dialogue' | 'response',
+    ownerId: string,
+    sources: RAGSourceReference[],
+    context: { cycleId?: string | null; systemClock?: number | null } = {}
+  ): void {
+    this.ensureConnection();
+    if (!this.isReady || !this.db || sources.length === 0) {
+      return;
+    }
+    try {
+      const insert = this.db.prepare(`
+        INSERT INTO rag_provenance
+        (owner_type, owner_id, cycle_id, system_clock, chunk_id, rank, similarity, source_type, source_file, title, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      const now = Date.now();
+
+      this.db.exec('BEGIN');
+      try {
+        // Re-recording an owner replaces its previous sources
+        this.db.prepare('DELETE FROM rag_provenance WHERE owner_type = ? AND owner_id = ?').run(ownerType, ownerId);
+        for (const source of sources) {
+          insert.run(
+            ownerType,
+            ownerId,
+            context.cycleId ?? null,
+            context.systemClock ?? null,
+            source.chunkId,
+            source.rank,
+            source.similarity,
+            source.sourceType,
+            source.sourceFile,
+            source.title ?? null,
+            now
+          );
+        }
+        this.db.exec('COMMIT');
+      } catch (err) {
+        this.db.exec('ROLLBACK');
+        throw err;
+      }
+    } catch (err) {
+      console.error('Error saving RAG provenance:', err);
+    }
+  }
+
+  /**
+   * RAG sources recorded for a thought, dialogue or response, in prompt order
+   */
+  getRAGProvenance(ownerType: 'thought' | 'dialogue' | 'response', ownerId: string): Array<RAGSourceReference & { cycleId: string | null; systemClock: number | null; createdAt: number }> {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return [];
+    }
+    try {
+      const rows = this.db.prepare(`
+        SELECT chunk_id AS chunkId, rank, similarity, source_type AS sourceType, source_file AS sourceFile,
+               title, cycle_id AS cycleId, system_clock AS systemClock, created_at AS createdAt
+        FROM rag_provenance
+        WHERE owner_type = ? AND owner_id = ?
+        ORDER BY rank ASC
+      `).all(ownerType, ownerId) as any[];
+      return rows.map(row => ({ ...row, title: row.title ?? undefined }));
+    } catch (err) {
+      console.error('Error getting RAG provenance:', err);
+      return [];
+    }
+  }
+
+  // ============================================================================
+  // Knowledge graph (concepts and relations between beliefs, thoughts and questions)
+  // ============================================================================
+
+  /**
+   * Replace the stored knowledge graph (it is derived data, rebuilt as a whole)
+   */
+  replaceKnowledgeGraph(graph: KnowledgeGraph): void {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return;
+    }
+    try {
+      const insertNode = this.db.prepare(`
+        INSERT OR REPLACE INTO knowledge_graph_nodes
+        (id, node_type, ref_id, label, category, weight, timestamp, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      const insertEdge = this.db.prepare(`
+        INSERT OR REPLACE INTO knowledge_graph_edges
+        (source_id, target_id, relation, weight, evidence, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `);
+      const now = Date.now();
+
+      this.db.exec('BEGIN');
+      try {
+        this.db.exec('DELETE FROM knowledge_graph_edges');
+        this.db.exec('DELETE FROM knowledge_graph_nodes');
+        for (const node of graph.nodes) {
+          insertNode.run(node.id, node.type, node.refId, node.label, node.category, node.weight, node.timestamp, now);
+        }
+        for (const edge of graph.edges) {
+          insertEdge.run(edge.source, edge.target, edge.relation, edge.weight, edge.evidence, now);
+        }
+        this.db.exec('COMMIT');
+      } catch (err) {
+        this.db.exec('ROLLBACK');
+        throw err;
+      }
+    } catch (err) {
+      console.error('Error replacing knowledge graph:', err);
+    }
+  }
+
+  /**
+   * Whole knowledge graph, optionally capped to the highest-weight nodes
+   */
+  getKnowledgeGraph(limit?: number): KnowledgeGraph {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return { nodes: [], edges: [] };
+    }
+    try {
+      const rows = this.db.prepare(`
+        SELECT * FROM knowledge_graph_nodes
+        ORDER BY CASE node_type WHEN 'concept' THEN 0 WHEN 'belief' THEN 1 ELSE 2 END, weight DESC
+        ${limit ? 'LIMIT ?' : ''}
+      `).all(...(limit ? [limit] : [])) as any[];
+      const nodes = rows.map(row => this.rowToGraphNode(row));
+      const ids = new Set(nodes.map(node => node.id));
+      const edges = (this.db.prepare('SELECT * FROM knowledge_graph_edges').all() as any[])
+        .map(row => this.rowToGraphEdge(row))
+        .filter(edge => ids.has(edge.source) && ids.has(edge.target));
+      return { nodes, edges };
+    } catch (err) {
+      console.error('Error getting knowledge graph:', err);
+      return { nodes: [], edges: [] };
+    }
+  }
+
+  /**
+   * Edges touching any of the given nodes
+   */
+  getKnowledgeGraphEdgesFor(nodeIds: string[], relations?: GraphRelation[]): KnowledgeGraphEdge[] {
+    this.ensureConnection();
+    if (!this.isReady || !this.db || nodeIds.length === 0) {
+      return [];
+    }
+    try {
+      const placeholders = nodeIds.map(() => '?').join(', ');
+      const relationFilter = relations && relations.length > 0
+        ? `AND relation IN (${relations.map(() => '?').join(', ')})`
+        : '';
+      const rows = this.db.prepare(`
+        SELECT * FROM knowledge_graph_edges
+        WHERE (source_id IN (${placeholders}) OR target_id IN (${placeholders})) ${relationFilter}
+      `).all(...nodeIds, ...nodeIds, ...(relations || [])) as any[];
+      return rows.map(row => this.rowToGraphEdge(row));
+    } catch (err) {
+      console.error('Error getting knowledge graph edges:', err);
+      return [];
+    }
+  }
+
+  getKnowledgeGraphNodesByIds(nodeIds: string[]): KnowledgeGraphNode[] {
+    this.ensureConnection();
+    if (!this.isReady || !this.db || nodeIds.length === 0) {
+      return [];
+    }
+    try {
+      const rows = this.db.prepare(`
+        SELECT * FROM knowledge_graph_nodes WHERE id IN (${nodeIds.map(() => '?').join(', ')})
+      `).all(...nodeIds) as any[];
+      return rows.map(row => this.rowToGraphNode(row));
+    } catch (err) {
+      console.error('Error getting knowledge graph nodes:', err);
+      return [];
+    }
+  }
+
+  private rowToGraphNode(row: any): KnowledgeGraphNode {
+    return {
+      id: row.id,
+      type: row.node_type,
+      refId: row.ref_id,
+      label: row.label,
+      category: row.category ?? null,
+      weight: row.weight,
+      timestamp: row.timestamp ?? null
+    };
+  }
+
+  private rowToGraphEdge(row: any): KnowledgeGraphEdge {
+    return {
+      source: row.source_id,
+      target: row.target_id,
+      relation: row.relation,
+      weight: row.weight,
+      evidence: row.evidence ?? null
+    };
+  }
+
+  // ============================================================================
+  // DPD weight learner state
+  // ============================================================================
+
+  /**
+   * Persist a weight learner's serialized state (kept per learner, so switching learners
+   * does not discard what the others have learned)
+   */
+  saveWeightLearnerState(learner: string, state: any): void {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return;
+    }
+    try {
+      this.db.prepare(`
+        INSERT OR REPLACE INTO weight_learner_state (learner, state, updated_at)
+        VALUES (?, ?, ?)
+      `).run(learner, JSON.stringify(state), Date.now());
+    } catch (err) {
+      console.error('Error saving weight learner state:', err);
+    }
+  }
+
+  getWeightLearnerState(learner: string): any | null {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return null;
+    }
+    try {
+      const row = this.db.prepare('SELECT state FROM weight_learner_state WHERE learner = ?').get(learner) as { state: string } | undefined;
+      return row ? JSON.parse(row.state) : null;
+    } catch (err) {
+      console.error('Error getting weight learner state:', err);
+      return null;
+    }
+  }
+
+  /**
+   * Raw DPD scorer readings of a thought cycle (scorer -> dimension -> score)
+   */
+  saveDPDScorerReadings(cycleId: string, readings: Record<string, Record<string, number>>): void {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return;
+    }
+    try {
+      const insert = this.db.prepare(`
+        INSERT OR REPLACE INTO dpd_scorer_readings (cycle_id, scorer, dimension, value, timestamp)
+        VALUES (?, ?, ?, ?, ?)
+      `);
+      const timestamp = Date.now();
+
+      this.db.exec('BEGIN');
+      try {
+        for (const [scorer, values] of Object.entries(readings)) {
+          for (const [dimension, value] of Object.entries(values)) {
+            insert.run(cycleId, scorer, dimension, value, timestamp);
+          }
+        }
+        this.db.exec('COMMIT');
+      } catch (err) {
+        this.db.exec('ROLLBACK');
+        throw err;
+      }
+    } catch (err) {
+      console.error('Error saving DPD scorer readings:', err);
+    }
+  }
+
+  getDPDScorerReadings(cycleIds: string[]): Record<string, Record<string, Record<string, number>>> {
+    this.ensureConnection();
+    if (!this.isReady || !this.db || cycleIds.length === 0) {
+      return {};
+    }
+    try {
+      const rows = this.db.prepare(`
+        SELECT cycle_id, scorer, dimension, value FROM dpd_scorer_readings
+        WHERE cycle_id IN (${cycleIds.map(() => '?').join(', ')})
+      `).all(...cycleIds) as Array<{ cycle_id: string; scorer: string; dimension: string; value: number }>;
+      const readings: Record<string, Record<string, Record<string, number>>> = {};
+      for (const row of rows) {
+        readings[row.cycle_id] = readings[row.cycle_id] || {};
+        readings[row.cycle_id][row.scorer] = { ...readings[row.cycle_id][row.scorer], [row.dimension]: row.value };
+      }
+      return readings;
+    } catch (err) {
+      console.error('Error getting DPD scorer readings:', err);
+      return {};
+    }
+  }
+
+  saveDPDCalibration(model: any): void {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return;
+    }
+    try {
+      this.db.prepare(`
+        INSERT OR REPLACE INTO dpd_calibration (id, model, fitted_at)
+        VALUES (1, ?, ?)
+      `).run(JSON.stringify(model), model.fittedAt ?? Date.now());
+    } catch (err) {
+      console.error('Error saving DPD calibration:', err);
+    }
+  }
+
+  getDPDCalibration(): any | null {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return null;
+    }
+    try {
+      const row = this.db.prepare('SELECT model FROM dpd_calibration WHERE id = 1').get() as { model: string } | undefined;
+      return row ? JSON.parse(row.model) : null;
+    } catch (err) {
+      console.error('Error getting DPD calibration:', err);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // Human DPD feedback (labels kept apart from the model scores in thought_cycles)
+  // ============================================================================
+
+  /**
+   * Recent thought cycles with their synthesis, model DPD scores and human feedback, newest first
+   */
+  getDPDReviewCycles(limit: number = 20, options: { before?: number; unlabelledOnly?: boolean } = {}): DPDReviewCycle[] {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return [];
+    }
+    try {
+      const rows = this.db.prepare(`
+        SELECT t.*, q.question FROM thought_cycles t
+        LEFT JOIN questions q ON q.id = t.trigger_id
+        WHERE t.timestamp < ?
+          ${options.unlabelledOnly ? 'AND NOT EXISTS (SELECT 1 FROM dpd_feedback f WHERE f.cycle_id = t.id)' : ''}
+        ORDER BY t.timestamp DESC
+        LIMIT ?
+      `).all(options.before ?? Number.MAX_SAFE_INTEGER, limit) as any[];
+      const feedback = this.getDPDFeedbackByCycle(rows.map(row => row.id));
+      return rows.map(row => this.parseDPDReviewRow(row, feedback[row.id] || []));
+    } catch (err) {
+      console.error('Error getting DPD review cycles:', err);
+      return [];
+    }
+  }
+
+  getDPDReviewCycle(cycleId: string): DPDReviewCycle | null {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return null;
+    }
+    try {
+      const row = this.db.prepare(`
+        SELECT t.*, q.question FROM thought_cycles t
+        LEFT JOIN questions q ON q.id = t.trigger_id
+        WHERE t.id = ?
+      `).get(cycleId) as any;
+      return row ? this.parseDPDReviewRow(row, this.getDPDFeedbackByCycle([cycleId])[cycleId] || []) : null;
+    } catch (err) {
+      console.error('Error getting DPD review cycle:', err);
+      return null;
+    }
+  }
+
+  /**
+   * Store a human label of a thought cycle. Returns the feedback id (null on failure).
+   */
+  saveDPDFeedback(feedback: {
+    cycleId: string;
+    scores: Record<string, number>;
+    comment?: string | null;
+    reviewer?: string | null;
+    modelScores?: Record<string, number> | null;
+    supervised?: boolean;
+  }): number | null {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return null;
+    }
+    try {
+      const result = this.db.prepare(`
+        INSERT INTO dpd_feedback (cycle_id, scores, comment, reviewer, model_scores, supervised, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        feedback.cycleId,
+        JSON.stringify(feedback.scores),
+        feedback.comment ?? null,
+        feedback.reviewer ?? null,
+        feedback.modelScores ? JSON.stringify(feedback.modelScores) : null,
+        feedback.supervised ? 1 : 0,
+        Date.now()
+      );
+      return Number(result.lastInsertRowid);
+    } catch (err) {
+      console.error('Error saving DPD feedback:', err);
+      return null;
+    }
+  }
+
+  /**
+   * Human feedback, newest first (optionally for one cycle)
+   */
+  getDPDFeedback(options: { cycleId?: string; limit?: number } = {}): DPDHumanFeedback[] {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return [];
+    }
+    try {
+      const rows = options.cycleId
+        ? this.db.prepare('SELECT * FROM dpd_feedback WHERE cycle_id = ? ORDER BY timestamp DESC, id DESC LIMIT ?').all(options.cycleId, options.limit ?? 100)
+        : this.db.prepare('SELECT * FROM dpd_feedback ORDER BY timestamp DESC, id DESC LIMIT ?').all(options.limit ?? 100);
+      return (rows as any[]).map(row => this.parseDPDFeedbackRow(row));
+    } catch (err) {
+      console.error('Error getting DPD feedback:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Supervised feedback not yet applied by the U stage, oldest first
+   */
+  getPendingSupervisedFeedback(): DPDHumanFeedback[] {
+    this.ensureConnection();
+    if (!this.isReady || !this.db) {
+      return [];
+    }
+    try {
+      const rows = this.db.prepare(`
+        SELECT * FROM dpd_feedback
+        WHERE supervised = 1 AND applied_at IS NULL
+        ORDER BY timestamp ASC, id ASC
+      `).all() as any[];
+      return rows.map(row => this.parseDPDFeedbackRow(row));
+    } catch (err) {
+      console.error('Error getting pending supervised feedback:', err);
+      return [];
+    }
+  }
+
+  markDPDFeedbackApplied(ids: number[], appliedAt: number = Date.now()): void {
+    this.ensureConnection();
+    if (!this.isReady || !this.db || ids.length === 0) {
+      return;
+    }
+    try {
+      this.db.prepare(`
+        UPDATE dpd_feedback SET applied_at = ?
+        WHERE id IN (${ids.map(() => '?').join(', ')})
+      `).run(appliedAt, ...ids);
+    } catch (err) {
+      console.error('Error marking DPD feedback applied:', err);
+    }
+  }
+
+  private getDPDFeedbackByCycle(cycleIds: string[]): Record<string, DPDHumanFeedback[]> {
+    if (!this.db || cycleIds.length === 0) {
+      return {};
+    }
+    const rows = this.db.prepare(`
+      SELECT * FROM dpd_feedback
+      WHERE cycle_id IN (${cycleIds.map(() => '?').join(', ')})
+      ORDER BY timestamp DESC, id DESC
+    `).all(...cycleIds) as any[];
+    const byCycle: Record<string, DPDHumanFeedback[]> = {};
+    for (const row of rows) {
+      byCycle[row.cycle_id] = [...(byCycle[row.cycle_id] || []), this.parseDPDFeedbackRow(row)];
+    }
+    return byCycle;
+  }
+
+  private parseDPDFeedbackRow(row: any): DPDHumanFeedback {
+    return {
+      id: row.id,
+      cycleId: row.cycle_id,
+      scores: JSON.parse(row.scores),
+      comment: row.comment ?? null,
+      reviewer: row.reviewer ?? null,
+      modelScores: row.model_scores ? JSON.parse(row.model_scores) : null,
+      supervised: row.supervised === 1,
+      appliedAt: row.applied_at ?? null,
+      timestamp: row.timestamp
+    };
+  }
+
+  private parseDPDReviewRow(row: any, feedback: DPDHumanFeedback[]): DPDReviewCycle {
+    let synthesis: any = {};
+    let dimensions: Record<string, number> = {};
+    try {
+      synthesis = row.synthesis_data ? JSON.parse(row.synthesis_data) : {};
+      dimensions = row.dimension_scores ? JSON.parse(row.dimension_scores) : {};
+    } catch {
+      // Malformed legacy rows are shown without synthesis / extra dimensions
+    }
+    const scored = row.empathy_score !== null && row.coherence_score !== null && row.dissonance_score !== null;
+
+    return {
+      id: row.id,
+      timestamp: row.timestamp,
+      question: row.question ?? null,
+      synthesis: synthesis.integratedThought || synthesis.content || null,
+      keyInsights: Array.isArray(synthesis.keyInsights) ? synthesis.keyInsights : [],
+      scores: scored
+        ? { empathy: row.empathy_score, coherence: row.coherence_score, dissonance: row.dissonance_score, ...dimensions }
+        : null,
+      feedback
+    };
+  }
 }
 
 export { DatabaseManager };
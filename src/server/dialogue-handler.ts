@@ -12,7 +12,8 @@ import { analyzeDialogueSentiment } from '../aenea/somnia/core/dialogue-sentimen
 import type { ExternalStimulus } from '../types/somnia-types.js';
 
 // RAG integration for dialogue context and auto-ingestion
-import { isRAGEnabled, searchRAG, ingestDialogueToRAG } from '../rag/index.js';
+import { isRAGEnabled, searchRAG, ingestDialogueToRAG, toSourceReferences } from '../rag/index.js';
+import type { RAGSourceReference } from '../rag/types.js';
 
 interface ConsciousnessStateSnapshot {
   coreBeliefs: any[];
@@ -40,6 +41,7 @@ interface DialogueResponse {
   main: string;           // 応答本文（200-300文字）
   newQuestion: string | null;  // 新しい問い
   emotionalState: string; // 感情状態（1-3語）
+  ragSources?: RAGSourceReference[]; // 文脈に使った過去の対話チャンク
 }
 
 export class DialogueHandler {
@@ -61,18 +63,20 @@ export class DialogueHandler {
 
     // 1.5 RAG: 関連する過去の対話を検索
     let ragDialogueContext = '';
+    let ragSources: RAGSourceReference[] = [];
     if (isRAGEnabled()) {
       try {
         const ragResults = await searchRAG(humanMessage, {
           topK: 3,
           sourceTypes: ['dialogue', 'session'],
           similarityThreshold: 0.65
-        });
+        }, this.consciousnessBackend?.getRAGVectorDbPath());
 
         if (ragResults.length > 0) {
           ragDialogueContext = ragResults
             .map(r => r.content.substring(0, 150))
             .join('\n');
+          ragSources = toSourceReferences(ragResults);
           log.info('RAG', `Found ${ragResults.length} related dialogues for context`);
         }
       } catch (error) {
@@ -135,6 +139,10 @@ export class DialogueHandler {
       systemClock: currentSystemClock,
       timestamp: Date.now()
     });
+    if (ragSources.length > 0) {
+      this.db.saveRAGProvenance('dialogue', dialogueId, ragSources, { systemClock: currentSystemClock });
+      response.ragSources = ragSources;
+    }
 
     // 7. 記憶のサマライズ（非同期でOK）
     this.summarizeAndSaveMemory(dialogueId, humanMessage, response.main).catch(err => {
@@ -369,7 +377,7 @@ Aenea: ${aeneaResponse}
       ingestDialogueToRAG(dialogueId, humanMessage, aeneaResponse, memorySummary, {
         topics: topics.join(', '),
         importance
-      }).catch(err => {
+      }, this.consciousnessBackend?.getRAGVectorDbPath()).catch(err => {
         log.warn('DialogueHandler', `RAG ingestion failed (non-critical): ${err.message}`);
       });
     } catch (error: any) {
@@ -386,7 +394,7 @@ Aenea: ${aeneaResponse}
       });
 
       // RAG自動登録（フォールバック時も）
-      ingestDialogueToRAG(dialogueId, humanMessage, aeneaResponse, fallbackSummary).catch(() => {
+      ingestDialogueToRAG(dialogueId, humanMessage, aeneaResponse, fallbackSummary, undefined, this.consciousnessBackend?.getRAGVectorDbPath()).catch(() => {
         // エラーは無視
       });
     }
@@ -0,0 +1,84 @@
+/**
+ * DPD Feedback - Human labels of thought cycles
+ *
+ * Researchers review recent cycles (trigger question, S5 synthesis, model DPD scores) and submit
+ * their own scores and comments. Labels are stored in dpd_feedback, never over the model scores in
+ * thought_cycles. When supervision is on (DPD_FEEDBACK_SUPERVISION=true, or per submission), a
+ * labelled cycle is also queued for the U stage as a supervised target: the cycle's model scores
+ * with the human scores substituted, learned as an extra update before the next regular one.
+ *
+ * 人間によるDPDラベル付け - 「このサイクルは実は共感が低かった」を伝える
+ */
+
+import { DPDDimensionRegistry, dpdDimensions } from '../aenea/core/dpd-dimensions.js';
+import { DPDSupervisedTarget } from '../aenea/stages/weight-update.js';
+import { DPDHumanFeedback, DPDWeights } from '../types/dpd-types.js';
+
+export interface DPDFeedbackInput {
+  cycleId: string;
+  scores?: Record<string, number>;
+  comment?: string;
+  reviewer?: string;
+  supervise?: boolean;            // Default: DPD_FEEDBACK_SUPERVISION
+}
+
+export const MAX_FEEDBACK_COMMENT_LENGTH = 2000;
+export const MAX_REVIEW_CYCLES = 100;
+
+/**
+ * Validate a feedback submission against a dimension registry. Returns an error message or null.
+ */
+export function validateDPDFeedback(input: any, registry: DPDDimensionRegistry = dpdDimensions): string | null {
+  if (!input || typeof input.cycleId !== 'string' || !input.cycleId) {
+    return 'cycleId is required';
+  }
+  if (input.scores !== undefined && (!input.scores || typeof input.scores !== 'object' || Array.isArray(input.scores))) {
+    return 'scores must map dimensions to scores';
+  }
+  for (const [dimension, score] of Object.entries(input.scores || {})) {
+    if (!registry.has(dimension)) {
+      return `scores: unknown dimension '${dimension}'`;
+    }
+    if (typeof score !== 'number' || score < 0 || score > 1) {
+      return `scores.${dimension} must be between 0 and 1`;
+    }
+  }
+  if (input.comment !== undefined && (typeof input.comment !== 'string' || input.comment.length > MAX_FEEDBACK_COMMENT_LENGTH)) {
+    return `comment must be a string of at most ${MAX_FEEDBACK_COMMENT_LENGTH} characters`;
+  }
+  if (Object.keys(input.scores || {}).length === 0 && !input.comment?.trim()) {
+    return 'scores or comment is required';
+  }
+  if (input.reviewer !== undefined && typeof input.reviewer !== 'string') {
+    return 'reviewer must be a string';
+  }
+  if (input.supervise !== undefined && typeof input.supervise !== 'boolean') {
+    return 'supervise must be a boolean';
+  }
+  return null;
+}
+
+/**
+ * Supervised target for the U stage: the model scores the cycle was given, with the human scores
+ * substituted. Feedback without scores, or for a cycle that was never scored, yields null.
+ */
+export function toSupervisedTarget(
+  feedback: DPDHumanFeedback,
+  weights: DPDWeights,
+  registry: DPDDimensionRegistry = dpdDimensions
+): DPDSupervisedTarget | null {
+  if (!feedback.modelScores || Object.keys(feedback.scores).length === 0) {
+    return null;
+  }
+  const values = registry.fromRecord({ ...feedback.modelScores, ...feedback.scores });
+  return {
+    feedbackId: feedback.id,
+    cycleId: feedback.cycleId,
+    scores: {
+      ...values,
+      weightedTotal: registry.weightedTotal(values, weights),
+      timestamp: feedback.timestamp,
+      context: { thoughtId: feedback.cycleId, agentId: 'human_feedback' }
+    }
+  };
+}
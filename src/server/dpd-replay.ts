@@ -0,0 +1,303 @@
+/**
+ * DPD Replay - Counterfactual weight trajectories
+ *
+ * DPD evolution is path-dependent: every update starts from the weights the previous one left.
+ * A replay feeds the recorded per-cycle scores (thought_cycles) through a freshly built weight
+ * learner with another learning rate, targets, bounds or algorithm, and compares the resulting
+ * trajectory with the recorded one (dpd_weights). Replays only read the database; the live
+ * learner, dimension registry and weights are never touched.
+ *
+ * The live stage boosts the learning rate on convergence and paradigm shifts, and the default
+ * learner perturbs weights periodically. Replays use the configured rate throughout and leave
+ * perturbation off (unless requested) so the same variant always yields the same trajectory.
+ *
+ * 反実仮想リプレイ - 「もし違う学び方をしていたら」
+ */
+
+import { DatabaseManager } from './database-manager.js';
+import { DPDDimensionRegistry, DPDDimensionDefinition, dpdDimensions } from '../aenea/core/dpd-dimensions.js';
+import { DEFAULT_WEIGHT_LEARNER_CONFIG, WeightLearnerDiagnostics, WeightLearnerId, createWeightLearner, isWeightLearnerId } from '../aenea/core/weight-learners.js';
+import { DPDScores, DPDWeights } from '../types/dpd-types.js';
+
+export interface DPDReplayVariant {
+  label?: string;
+  learner?: WeightLearnerId;                  // Default: multiplicative
+  learningRate?: number;
+  minWeight?: number;
+  maxWeight?: number;
+  targets?: Record<string, number>;           // Per-dimension score target overrides
+  bounds?: Record<string, { minWeight?: number; maxWeight?: number }>; // Per-dimension weight bounds
+  perturbation?: boolean;                     // Multiplicative learner perturbation (default: off)
+  seed?: number;                              // RNG seed for the sampling learners (default: 1)
+}
+
+export interface DPDReplayCycle {
+  id: string;
+  timestamp: number;
+  empathy: number;
+  coherence: number;
+  dissonance: number;
+  dimensions?: Record<string, number>;
+}
+
+export interface DPDReplayPoint {
+  cycleId: string;
+  timestamp: number;
+  weights: Record<string, number>;
+}
+
+export interface DPDReplayTrajectory {
+  label: string;
+  variant: DPDReplayVariant;
+  points: DPDReplayPoint[];
+  finalWeights: Record<string, number>;
+  divergence: { final: number; mean: number } | null; // Euclidean distance to the recorded weights
+  diagnostics: WeightLearnerDiagnostics;
+}
+
+export interface DPDReplayResult {
+  cycles: number;
+  from: number | null;
+  to: number | null;
+  dimensions: string[];
+  initialWeights: Record<string, number>;
+  actual: DPDReplayPoint[];                   // Recorded weights in effect after each cycle
+  trajectories: DPDReplayTrajectory[];
+}
+
+export const DEFAULT_REPLAY_CYCLES = 500;
+export const MAX_REPLAY_CYCLES = 5000;
+export const MAX_REPLAY_VARIANTS = 6;
+
+/**
+ * Validate replay variants against a dimension registry. Returns an error message or null.
+ */
+export function validateReplayVariants(variants: unknown, registry: DPDDimensionRegistry = dpdDimensions): string | null {
+  if (!Array.isArray(variants) || variants.length === 0) {
+    return 'variants must be a non-empty array';
+  }
+  if (variants.length > MAX_REPLAY_VARIANTS) {
+    return `At most ${MAX_REPLAY_VARIANTS} variants can be replayed at once`;
+  }
+  const isUnit = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+
+  for (const [index, variant] of variants.entries()) {
+    const name = `variants[${index}]`;
+    if (!variant || typeof variant !== 'object') {
+      return `${name} must be an object`;
+    }
+    if (variant.learner !== undefined && !isWeightLearnerId(variant.learner)) {
+      return `${name}.learner must be a known weight learner`;
+    }
+    if (variant.learningRate !== undefined && !(typeof variant.learningRate === 'number' && variant.learningRate > 0 && variant.learningRate <= 1)) {
+      return `${name}.learningRate must be in (0, 1]`;
+    }
+    for (const key of ['minWeight', 'maxWeight'] as const) {
+      if (variant[key] !== undefined && !isUnit(variant[key])) {
+        return `${name}.${key} must be between 0 and 1`;
+      }
+    }
+    if ((variant.minWeight ?? 0) > (variant.maxWeight ?? 1)) {
+      return `${name}.minWeight must not exceed maxWeight`;
+    }
+    for (const [id, target] of Object.entries(variant.targets || {})) {
+      if (!registry.has(id)) return `${name}.targets: unknown dimension '${id}'`;
+      if (!isUnit(target)) return `${name}.targets.${id} must be between 0 and 1`;
+    }
+    for (const [id, bound] of Object.entries<any>(variant.bounds || {})) {
+      if (!registry.has(id)) return `${name}.bounds: unknown dimension '${id}'`;
+      if (!isUnit(bound?.minWeight ?? 0) || !isUnit(bound?.maxWeight ?? 1)) {
+        return `${name}.bounds.${id} must be between 0 and 1`;
+      }
+    }
+    if (variant.seed !== undefined && !Number.isInteger(variant.seed)) {
+      return `${name}.seed must be an integer`;
+    }
+    // The bounds must also be satisfiable together, with the learner's defaults filled in
+    let variantRegistry: DPDDimensionRegistry;
+    try {
+      variantRegistry = registry.derive(dimensionOverrides(variant));
+    } catch (err) {
+      return `${name}.bounds: ${(err as Error).message}`;
+    }
+    const boundsError = variantRegistry.validateWeightBounds({
+      minWeight: variant.minWeight ?? DEFAULT_WEIGHT_LEARNER_CONFIG.minWeight,
+      maxWeight: variant.maxWeight ?? DEFAULT_WEIGHT_LEARNER_CONFIG.maxWeight
+    });
+    if (boundsError) {
+      return `${name} weight bounds cannot be met: ${boundsError}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Replay scored cycles through each variant, starting every variant from the same weights
+ */
+export function replayDPD(
+  cycles: DPDReplayCycle[],
+  variants: DPDReplayVariant[],
+  options: { initialWeights?: DPDWeights; actual?: DPDReplayPoint[]; dimensions?: DPDDimensionRegistry } = {}
+): DPDReplayResult {
+  const registry = options.dimensions ?? dpdDimensions;
+  const initial = registry.resolveWeights(options.initialWeights ?? registry.defaultWeights());
+  const actual = options.actual ?? [];
+
+  const trajectories = variants.map(variant => {
+    const variantRegistry = registry.derive(dimensionOverrides(variant));
+    const learner = createWeightLearner(variant.learner ?? 'multiplicative', {
+      dimensions: variantRegistry,
+      learningRate: variant.learningRate,
+      minWeight: variant.minWeight,
+      maxWeight: variant.maxWeight,
+      perturbation: variant.perturbation ?? false,
+      random: seededRandom(variant.seed ?? 1)
+    });
+
+    let current: DPDWeights = { ...initial, dimensions: initial.dimensions ? { ...initial.dimensions } : undefined };
+    const points: DPDReplayPoint[] = cycles.map(cycle => {
+      current = learner.update(current, toScores(cycle)).newWeights;
+      return { cycleId: cycle.id, timestamp: cycle.timestamp, weights: variantRegistry.toRecord(current) };
+    });
+
+    return {
+      label: variant.label || describeVariant(variant),
+      variant,
+      points,
+      finalWeights: points.length > 0 ? points[points.length - 1].weights : registry.toRecord(initial),
+      divergence: measureDivergence(points, actual, registry.ids()),
+      diagnostics: learner.getDiagnostics()
+    };
+  });
+
+  return {
+    cycles: cycles.length,
+    from: cycles[0]?.timestamp ?? null,
+    to: cycles[cycles.length - 1]?.timestamp ?? null,
+    dimensions: registry.ids(),
+    initialWeights: registry.toRecord(initial),
+    actual,
+    trajectories
+  };
+}
+
+/**
+ * Load the scored history from the database and replay it. The recorded weights just before the
+ * first replayed cycle are the common starting point.
+ */
+export function runDPDReplay(
+  db: DatabaseManager,
+  variants: DPDReplayVariant[],
+  options: { limit?: number; since?: number; dimensions?: DPDDimensionRegistry } = {}
+): DPDReplayResult {
+  const registry = options.dimensions ?? dpdDimensions;
+  const limit = Math.min(Math.max(1, Math.floor(options.limit ?? DEFAULT_REPLAY_CYCLES)), MAX_REPLAY_CYCLES);
+  const cycles: DPDReplayCycle[] = db.getDPDScoreHistory(limit, options.since);
+  if (cycles.length === 0) {
+    return replayDPD([], variants, { dimensions: registry });
+  }
+
+  const first = cycles[0].timestamp;
+  const recordedStart = db.getDPDWeightsAt(first - 1);
+  const initialWeights = recordedStart
+    ? registry.resolveWeights({ ...recordedStart, version: recordedStart.version ?? 1 })
+    : registry.defaultWeights();
+  const recorded = db.getDPDWeightsBetween(first, Date.now());
+
+  return replayDPD(cycles, variants, {
+    initialWeights,
+    actual: alignRecordedWeights(cycles, recorded, registry),
+    dimensions: registry
+  });
+}
+
+/**
+ * Recorded weights in effect after each cycle: the last dpd_weights row saved before the next
+ * cycle started. Cycles before the first recorded row are skipped.
+ */
+export function alignRecordedWeights(
+  cycles: DPDReplayCycle[],
+  recorded: Array<DPDWeights & { timestamp: number }>,
+  registry: DPDDimensionRegistry = dpdDimensions
+): DPDReplayPoint[] {
+  const points: DPDReplayPoint[] = [];
+  let cursor = -1;
+  cycles.forEach((cycle, index) => {
+    const boundary = cycles[index + 1]?.timestamp ?? Infinity;
+    while (cursor + 1 < recorded.length && recorded[cursor + 1].timestamp < boundary) {
+      cursor++;
+    }
+    if (cursor >= 0) {
+      points.push({
+        cycleId: cycle.id,
+        timestamp: cycle.timestamp,
+        weights: registry.toRecord(registry.resolveWeights({ ...recorded[cursor], version: recorded[cursor].version ?? 1 }))
+      });
+    }
+  });
+  return points;
+}
+
+function dimensionOverrides(variant: DPDReplayVariant): Record<string, Partial<Pick<DPDDimensionDefinition, 'target' | 'minWeight' | 'maxWeight'>>> {
+  const overrides: Record<string, Partial<Pick<DPDDimensionDefinition, 'target' | 'minWeight' | 'maxWeight'>>> = {};
+  for (const [id, target] of Object.entries(variant.targets || {})) {
+    overrides[id] = { ...overrides[id], target };
+  }
+  for (const [id, bound] of Object.entries(variant.bounds || {})) {
+    overrides[id] = { ...overrides[id], ...bound };
+  }
+  return overrides;
+}
+
+function toScores(cycle: DPDReplayCycle): DPDScores {
+  return {
+    empathy: cycle.empathy,
+    coherence: cycle.coherence,
+    dissonance: cycle.dissonance,
+    ...(cycle.dimensions ? { dimensions: cycle.dimensions } : {}),
+    weightedTotal: 0,
+    timestamp: cycle.timestamp,
+    context: { thoughtId: cycle.id, agentId: 'replay' }
+  };
+}
+
+function measureDivergence(points: DPDReplayPoint[], actual: DPDReplayPoint[], ids: string[]): { final: number; mean: number } | null {
+  const recordedByCycle = new Map(actual.map(point => [point.cycleId, point.weights]));
+  const distances: number[] = [];
+  for (const point of points) {
+    const recorded = recordedByCycle.get(point.cycleId);
+    if (!recorded) continue;
+    distances.push(Math.sqrt(ids.reduce((sum, id) => sum + Math.pow((point.weights[id] ?? 0) - (recorded[id] ?? 0), 2), 0)));
+  }
+  if (distances.length === 0) {
+    return null;
+  }
+  return {
+    final: distances[distances.length - 1],
+    mean: distances.reduce((sum, distance) => sum + distance, 0) / distances.length
+  };
+}
+
+function describeVariant(variant: DPDReplayVariant): string {
+  const parts: string[] = [variant.learner ?? 'multiplicative'];
+  if (variant.learningRate !== undefined) parts.push(`η=${variant.learningRate}`);
+  if (variant.minWeight !== undefined || variant.maxWeight !== undefined) {
+    parts.push(`[${variant.minWeight ?? '-'}, ${variant.maxWeight ?? '-'}]`);
+  }
+  for (const [id, target] of Object.entries(variant.targets || {})) {
+    parts.push(`${id}→${target}`);
+  }
+  return parts.join(' ');
+}
+
+// Mulberry32: small deterministic PRNG so replays of sampling learners are reproducible
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * Instance Manager - Host multiple consciousness instances in one server
+ *
+ * Each instance is a full ConsciousnessBackend with its own database file, RAG vector store
+ * (vectordb/ next to the database), EnergyManager, Somnia state, DPD weights, lifespan and
+ * agent model configuration, so experiments
+ * (e.g. mortality mode 'A' vs 'B') can run side by side. The primary backend is registered
+ * as 'default' and keeps the legacy /api/consciousness routes; additional instances are
+ * persisted to a registry file (AENEA_INSTANCES_FILE) and restored on startup.
+ *
+ * 複数の意識インスタンスを1つのサーバーで並行稼働させる
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import ConsciousnessBackend, { ConsciousnessState, DEFAULT_INSTANCE_ID } from './consciousness-backend.js';
+import { EnergyManager } from '../utils/energy-management.js';
+import { InheritancePolicySpec } from '../aenea/mortality/lineage.js';
+import { WeightLearnerId, isWeightLearnerId, WEIGHT_LEARNERS } from '../aenea/core/weight-learners.js';
+import { log } from './logger.js';
+
+export interface InstanceConfig {
+  id: string;
+  dbPath?: string;                     // Default: data/instances/<id>/aenea_consciousness.db
+  mortalityMode?: 'A' | 'B';
+  inheritancePolicy?: InheritancePolicySpec;
+  agentModels?: Record<string, { provider?: string; model?: string }>;
+  weightLearner?: WeightLearnerId;     // DPD weight learner (default: DPD_WEIGHT_LEARNER)
+  autoStart?: boolean;                 // Start the consciousness loop when restored on server startup
+  createdAt?: number;
+}
+
+export interface InstanceSummary {
+  id: string;
+  isDefault: boolean;
+  dbPath: string | null;
+  mortalityMode: 'A' | 'B' | null;
+  weightLearner: WeightLearnerId;
+  isRunning: boolean;
+  isPaused: boolean;
+  systemClock: number;
+  energy: number;
+  mortality?: ConsciousnessState['mortality'];
+  createdAt: number | null;
+}
+
+interface HostedInstance {
+  config: InstanceConfig | null;       // null for the default instance (configured via env)
+  backend: ConsciousnessBackend;
+  energyManager: EnergyManager | null; // Owned energy manager (cleaned up on removal)
+}
+
+const DEFAULT_REGISTRY_PATH = 'data/instances.json';
+const INSTANCE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/i;
+
+/**
+ * Validate an instance config. Returns an error message or null.
+ */
+export function validateInstanceConfig(config: any): string | null {
+  if (!config || typeof config.id !== 'string' || !INSTANCE_ID_PATTERN.test(config.id)) {
+    return 'id must be 1-32 characters of letters, digits, "-" or "_"';
+  }
+  if (config.id === DEFAULT_INSTANCE_ID) {
+    return `'${DEFAULT_INSTANCE_ID}' is reserved for the primary instance`;
+  }
+  if (config.mortalityMode !== undefined && config.mortalityMode !== 'A' && config.mortalityMode !== 'B') {
+    return "mortalityMode must be 'A' or 'B'";
+  }
+  if (config.agentModels !== undefined && (typeof config.agentModels !== 'object' || Array.isArray(config.agentModels))) {
+    return 'agentModels must be an object keyed by agent id';
+  }
+  if (config.weightLearner !== undefined && !isWeightLearnerId(config.weightLearner)) {
+    return `weightLearner must be one of ${WEIGHT_LEARNERS.map(learner => learner.id).join(', ')}`;
+  }
+  return null;
+}
+
+export class InstanceManager extends EventEmitter {
+  private instances = new Map<string, HostedInstance>();
+  private registryPath: string;
+
+  constructor(registryPath?: string) {
+    super();
+    this.registryPath = registryPath || process.env.AENEA_INSTANCES_FILE || DEFAULT_REGISTRY_PATH;
+  }
+
+  /**
+   * Register the primary backend (legacy /api/consciousness routes) as 'default'
+   */
+  addDefault(backend: ConsciousnessBackend): void {
+    this.instances.set(DEFAULT_INSTANCE_ID, { config: null, backend, energyManager: null });
+    this.emit('instanceCreated', DEFAULT_INSTANCE_ID, backend);
+  }
+
+  /**
+   * Recreate instances saved in the registry file
+   */
+  restore(): void {
+    for (const config of this.readRegistry()) {
+      try {
+        const backend = this.spawn(config);
+        log.info('Instances', `Restored instance '${config.id}'`);
+        if (config.autoStart) {
+          backend.start().catch(error => log.error('Instances', `Failed to start instance '${config.id}'`, error));
+        }
+      } catch (error) {
+        log.error('Instances', `Failed to restore instance '${config.id}'`, error);
+      }
+    }
+  }
+
+  /**
+   * Create and persist a new instance
+   */
+  create(config: InstanceConfig): ConsciousnessBackend {
+    const error = validateInstanceConfig(config);
+    if (error) {
+      throw new Error(error);
+    }
+    if (this.instances.has(config.id)) {
+      throw new Error(`Instance '${config.id}' already exists`);
+    }
+
+    const backend = this.spawn({ ...config, createdAt: config.createdAt ?? Date.now() });
+    this.writeRegistry();
+    log.info('Instances', `Created instance '${config.id}' (mortality mode ${backend.getState().mortality?.mode ?? 'n/a'})`);
+    return backend;
+  }
+
+  has(id: string): boolean {
+    return this.instances.has(id);
+  }
+
+  get(id: string): ConsciousnessBackend | undefined {
+    return this.instances.get(id)?.backend;
+  }
+
+  ids(): string[] {
+    return [...this.instances.keys()];
+  }
+
+  list(): InstanceSummary[] {
+    return [...this.instances.entries()].map(([id, { config, backend }]) => {
+      const state = backend.getState();
+      return {
+        id,
+        isDefault: id === DEFAULT_INSTANCE_ID,
+        dbPath: config?.dbPath ?? null,
+        mortalityMode: state.mortality?.mode ?? config?.mortalityMode ?? null,
+        weightLearner: backend.getWeightLearnerId(),
+        isRunning: state.isRunning,
+        isPaused: state.isPaused,
+        systemClock: state.systemClock,
+        energy: state.energy,
+        mortality: state.mortality,
+        createdAt: config?.createdAt ?? null
+      };
+    });
+  }
+
+  /**
+   * Stop and remove an instance. Its database file is kept on disk.
+   */
+  async remove(id: string): Promise<boolean> {
+    if (id === DEFAULT_INSTANCE_ID) {
+      throw new Error('The default instance cannot be removed');
+    }
+    const instance = this.instances.get(id);
+    if (!instance) {
+      return false;
+    }
+
+    await this.release(id, instance);
+    this.writeRegistry();
+    log.info('Instances', `Removed instance '${id}'`);
+    return true;
+  }
+
+  /**
+   * Release every hosted instance (server shutdown). The registry is left untouched.
+   */
+  async shutdownAll(): Promise<void> {
+    for (const [id, instance] of [...this.instances.entries()]) {
+      await this.release(id, instance);
+    }
+  }
+
+  private spawn(config: InstanceConfig): ConsciousnessBackend {
+    const dbPath = config.dbPath || path.join(path.dirname(this.registryPath), 'instances', config.id, 'aenea_consciousness.db');
+    const energyManager = new EnergyManager();
+    const backend = new ConsciousnessBackend({
+      instanceId: config.id,
+      dbPath,
+      ragVectorDbPath: path.join(path.dirname(dbPath), 'vectordb', 'aenea_vectors.db'),
+      energyManager,
+      mortalityMode: config.mortalityMode,
+      inheritancePolicy: config.inheritancePolicy,
+      agentModels: config.agentModels,
+      weightLearner: config.weightLearner
+    });
+
+    this.instances.set(config.id, { config: { ...config, dbPath }, backend, energyManager });
+    this.emit('instanceCreated', config.id, backend);
+    return backend;
+  }
+
+  private async release(id: string, instance: HostedInstance): Promise<void> {
+    try {
+      await instance.backend.shutdown();
+    } catch (error) {
+      log.error('Instances', `Failed to shut down instance '${id}'`, error);
+    }
+    instance.energyManager?.cleanup();
+    this.instances.delete(id);
+    this.emit('instanceRemoved', id, instance.backend);
+  }
+
+  private readRegistry(): InstanceConfig[] {
+    if (!fs.existsSync(this.registryPath)) {
+      return [];
+    }
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.registryPath, 'utf-8'));
+      return Array.isArray(parsed.instances) ? parsed.instances : [];
+    } catch (error) {
+      log.error('Instances', `Failed to read instance registry ${this.registryPath}`, error);
+      return [];
+    }
+  }
+
+  private writeRegistry(): void {
+    const instances = [...this.instances.values()]
+      .map(instance => instance.config)
+      .filter((config): config is InstanceConfig => config !== null);
+    try {
+      fs.mkdirSync(path.dirname(this.registryPath), { recursive: true });
+      fs.writeFileSync(this.registryPath, JSON.stringify({ instances }, null, 2));
+    } catch (error) {
+      log.error('Instances', `Failed to write instance registry ${this.registryPath}`, error);
+    }
+  }
+}
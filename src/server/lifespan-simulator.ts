@@ -0,0 +1,300 @@
+/**
+ * Lifespan Simulator - Headless accelerated runs of ConsciousnessBackend
+ *
+ * Runs the real consciousness loop against a throwaway database with every agent on the
+ * scripted provider and a VirtualClock in place of wall time, so thousands of cycles (and
+ * the sleep/energy/aging dynamics that depend on elapsed time) finish in minutes. A stimulus
+ * schedule can queue questions or apply affective stimuli to SOMNIA before given cycles.
+ * The result is a per-cycle trajectory of DPD weights, SOMNIA mode, energy, vitality and
+ * belief count, plus summary statistics (mode occupancy, sleep frequency).
+ *
+ * 寿命シミュレーター - 仮想時計と決定論的LLMで一生分のサイクルを高速に実行する
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import ConsciousnessBackend from './consciousness-backend.js';
+import { VirtualClock } from './virtual-clock.js';
+import { SCRIPTED_PROVIDER } from './scripted-executor.js';
+import { EnergyManager } from '../utils/energy-management.js';
+import type { ExternalStimulus } from '../types/somnia-types.js';
+
+const SIMULATED_AGENTS = ['theoria', 'pathia', 'kinesis', 'system', 'aenea', 'somnia'];
+
+/**
+ * One entry of a stimulus schedule. Fires once before `atCycle`, or before every
+ * `every`-th cycle between `from` (default: `every`) and `until`.
+ */
+export interface SimulationStimulus {
+  atCycle?: number;
+  every?: number;
+  from?: number;
+  until?: number;
+  question?: string;                   // Queued as a manual trigger for that cycle
+  affect?: ExternalStimulus;           // Applied to SOMNIA like a dialogue sentiment
+}
+
+export interface SimulationOptions {
+  dbPath: string;
+  cycles: number;
+  lifespanMax?: number;                // Default: AENEA_LIFESPAN_MAX or a random lifespan
+  mortalityMode?: 'A' | 'B';
+  seed?: number;                       // Scripted provider seed
+  fixtures?: string;                   // Scripted provider fixture file
+  initialEnergy?: number;
+  startTime?: number;                  // Virtual epoch (default: now)
+  stimuli?: SimulationStimulus[];
+  sampleEvery?: number;                // Record every Nth cycle (default: 1)
+  stallLimitMs?: number;               // Abort after this much virtual time without a completed cycle
+  onProgress?: (sample: SimulationSample) => void;
+}
+
+export interface SimulationSample {
+  cycle: number;
+  systemClock: number;
+  virtualTime: number;
+  dpdWeights: { empathy: number; coherence: number; dissonance: number };
+  somniaMode: string;
+  phi: number;
+  energy: number;
+  vitality: number | null;
+  phase: string | null;
+  beliefCount: number;
+}
+
+export interface SleepRecord {
+  cycle: number;
+  virtualTime: number;
+  reason: string;
+}
+
+export interface SimulationReport {
+  options: Omit<SimulationOptions, 'onProgress'>;
+  endedBy: 'cycles' | 'death' | 'stalled' | 'error';
+  error?: string;
+  cyclesCompleted: number;
+  cyclesFailed: number;
+  virtualDurationMs: number;
+  realDurationMs: number;
+  trajectory: SimulationSample[];
+  somniaOccupancy: Record<string, number>;   // Share of completed cycles spent in each mode
+  sleep: {
+    count: number;
+    perSimulatedDay: number;
+    meanCyclesBetween: number | null;
+    events: SleepRecord[];
+  };
+  final: SimulationSample | null;
+}
+
+/**
+ * Run one simulated life. The backend is shut down and the real Date restored before returning.
+ */
+export async function runLifespanSimulation(options: SimulationOptions): Promise<SimulationReport> {
+  const { onProgress, ...reportOptions } = options;
+  const sampleEvery = Math.max(1, options.sampleEvery ?? 1);
+  const stallLimitMs = options.stallLimitMs ?? 7 * 24 * 60 * 60 * 1000;
+  const realStart = Date.now();
+  const clock = new VirtualClock(options.startTime ?? realStart);
+  const virtualStart = clock.now();
+
+  fs.mkdirSync(path.dirname(options.dbPath), { recursive: true });
+
+  // The lifespan and scripted seed are read from the environment when the backend builds them
+  const savedEnv = {
+    AENEA_LIFESPAN_MAX: process.env.AENEA_LIFESPAN_MAX,
+    SCRIPTED_SEED: process.env.SCRIPTED_SEED,
+    RAG_ENABLED: process.env.RAG_ENABLED
+  };
+  if (options.lifespanMax) process.env.AENEA_LIFESPAN_MAX = String(options.lifespanMax);
+  if (options.seed !== undefined) process.env.SCRIPTED_SEED = String(options.seed);
+  process.env.RAG_ENABLED = 'false';
+
+  let finish: (reason: SimulationReport['endedBy']) => void = () => undefined;
+  let lastCycleAt = clock.now();
+  const sleep = async (ms: number) => {
+    await clock.sleep(ms);
+    if (clock.now() - lastCycleAt > stallLimitMs) {
+      finish('stalled');
+    }
+  };
+
+  clock.install();
+  const energyManager = new EnergyManager(options.initialEnergy);
+  const agentModels = Object.fromEntries(SIMULATED_AGENTS.map(agentId => [
+    agentId,
+    { provider: SCRIPTED_PROVIDER, model: options.fixtures ?? 'simulation' }
+  ]));
+  const backend = new ConsciousnessBackend({
+    instanceId: 'simulation',
+    dbPath: options.dbPath,
+    energyManager,
+    mortalityMode: options.mortalityMode,
+    agentModels,
+    sleep
+  });
+
+  const trajectory: SimulationSample[] = [];
+  const modeCounts: Record<string, number> = {};
+  const sleepEvents: SleepRecord[] = [];
+  let cyclesCompleted = 0;
+  let cyclesFailed = 0;
+  let sleeping = false;
+  let died = false;
+  let errorMessage: string | undefined;
+
+  const applyStimuli = (cycle: number) => {
+    for (const stimulus of options.stimuli ?? []) {
+      if (!isStimulusDue(stimulus, cycle)) continue;
+      if (stimulus.question) {
+        void backend.manualTrigger(stimulus.question);
+      }
+      if (stimulus.affect) {
+        backend.applyDialogueSentiment(stimulus.affect);
+      }
+    }
+  };
+
+  const takeSample = (): SimulationSample => {
+    const state = backend.getState();
+    return {
+      cycle: cyclesCompleted,
+      systemClock: state.systemClock,
+      virtualTime: clock.now(),
+      dpdWeights: {
+        empathy: state.dpdWeights.empathy,
+        coherence: state.dpdWeights.coherence,
+        dissonance: state.dpdWeights.dissonance
+      },
+      somniaMode: backend.getSomniaState().mode,
+      phi: backend.getSomniaState().somatic.phi,
+      energy: energyManager.getEnergyState().available,
+      vitality: state.mortality?.vitality ?? null,
+      phase: state.mortality?.phase ?? null,
+      beliefCount: backend.getBeliefEvolutionMetrics().total
+    };
+  };
+
+  const finished = new Promise<SimulationReport['endedBy']>(resolve => {
+    finish = resolve;
+
+    backend.on('thoughtCycleCompleted', () => {
+      if (cyclesCompleted >= options.cycles) return;
+      cyclesCompleted++;
+      lastCycleAt = clock.now();
+      const mode = backend.getSomniaState().mode;
+      modeCounts[mode] = (modeCounts[mode] || 0) + 1;
+
+      if (cyclesCompleted % sampleEvery === 0 || cyclesCompleted === options.cycles) {
+        const sample = takeSample();
+        trajectory.push(sample);
+        onProgress?.(sample);
+      }
+
+      if (cyclesCompleted >= options.cycles) {
+        // Let the loop idle until the run is torn down
+        void backend.pause().catch(() => undefined);
+        resolve('cycles');
+        return;
+      }
+      applyStimuli(cyclesCompleted + 1);
+    });
+    backend.on('thoughtCycleFailed', () => { cyclesFailed++; });
+    backend.on('sleepStarted', (data: any) => {
+      sleeping = true;
+      sleepEvents.push({ cycle: cyclesCompleted, virtualTime: clock.now(), reason: data.reason });
+    });
+    backend.on('sleepCompleted', () => { sleeping = false; });
+    backend.on('sleepError', () => { sleeping = false; });
+    backend.on('generationDied', () => { died = true; });
+    backend.on('consciousnessStopped', () => {
+      if (died) resolve('death');
+    });
+    backend.on('consciousnessError', (data: any) => {
+      errorMessage = data.error;
+      resolve('error');
+    });
+  });
+
+  let endedBy: SimulationReport['endedBy'];
+  try {
+    applyStimuli(1);
+    await backend.start();
+    endedBy = await finished;
+
+    // Wait for an in-flight cycle or sleep to settle before closing the database
+    while (backend.getState().isProcessingCycle || sleeping) {
+      await clock.sleep(1000);
+    }
+  } catch (error) {
+    endedBy = 'error';
+    errorMessage = (error as Error).message;
+  } finally {
+    await backend.shutdown().catch(() => undefined);
+    energyManager.cleanup();
+    clock.uninstall();
+    for (const [key, value] of Object.entries(savedEnv)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  }
+
+  const virtualDurationMs = clock.now() - virtualStart;
+  const simulatedDays = virtualDurationMs / (24 * 60 * 60 * 1000);
+  const sleepGaps = sleepEvents.slice(1).map((event, index) => event.cycle - sleepEvents[index].cycle);
+
+  return {
+    options: reportOptions,
+    endedBy,
+    ...(errorMessage ? { error: errorMessage } : {}),
+    cyclesCompleted,
+    cyclesFailed,
+    virtualDurationMs,
+    realDurationMs: Date.now() - realStart,
+    trajectory,
+    somniaOccupancy: Object.fromEntries(
+      Object.entries(modeCounts).map(([mode, count]) => [mode, cyclesCompleted > 0 ? count / cyclesCompleted : 0])
+    ),
+    sleep: {
+      count: sleepEvents.length,
+      perSimulatedDay: simulatedDays > 0 ? sleepEvents.length / simulatedDays : 0,
+      meanCyclesBetween: sleepGaps.length > 0 ? sleepGaps.reduce((sum, gap) => sum + gap, 0) / sleepGaps.length : null,
+      events: sleepEvents
+    },
+    final: trajectory[trajectory.length - 1] ?? null
+  };
+}
+
+function isStimulusDue(stimulus: SimulationStimulus, cycle: number): boolean {
+  if (stimulus.atCycle !== undefined) {
+    return stimulus.atCycle === cycle;
+  }
+  if (stimulus.every && stimulus.every > 0) {
+    const from = stimulus.from ?? stimulus.every;
+    if (cycle < from || (stimulus.until !== undefined && cycle > stimulus.until)) return false;
+    return (cycle - from) % stimulus.every === 0;
+  }
+  return false;
+}
+
+/**
+ * Trajectory as CSV (one row per recorded cycle)
+ */
+export function trajectoryToCsv(report: SimulationReport): string {
+  const header = 'cycle,system_clock,virtual_time,empathy,coherence,dissonance,somnia_mode,phi,energy,vitality,phase,belief_count';
+  const rows = report.trajectory.map(sample => [
+    sample.cycle,
+    sample.systemClock,
+    new Date(sample.virtualTime).toISOString(),
+    sample.dpdWeights.empathy.toFixed(4),
+    sample.dpdWeights.coherence.toFixed(4),
+    sample.dpdWeights.dissonance.toFixed(4),
+    sample.somniaMode,
+    sample.phi.toFixed(2),
+    sample.energy.toFixed(2),
+    sample.vitality !== null ? sample.vitality.toFixed(4) : '',
+    sample.phase ?? '',
+    sample.beliefCount
+  ].join(','));
+  return [header, ...rows].join('\n') + '\n';
+}
@@ -1,435 +1,597 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import ConsciousnessBackend from '../consciousness-backend.js';
+import { validateSnapshot } from '../consciousness-snapshot.js';
+
+/**
+ * Restore routes (also mounted per instance) that parse their own body: snapshot archives
+ * exceed the default JSON limit, so the server-wide parser skips them
+ */
+export const SNAPSHOT_RESTORE_PATH = /\/consciousness\/restore\/?$/;
+const snapshotBodyParser = express.json({ limit: '50mb' });
+
+export function createConsciousnessRoutes(consciousness: ConsciousnessBackend): Router {
+  const router = Router();
+
+  // POST /api/consciousness/init
+  router.post('/init', (_req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness backend not available' });
+    }
 
-const router = Router();
+    try {
+      // Consciousness is already initialized in the constructor
+      res.json({ success: true, message: 'Consciousness initialized successfully' });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  });
 
-// Consciousness backend singleton (will be initialized by main server)
-let consciousness: ConsciousnessBackend;
+  // POST /api/consciousness/start
+  router.post('/start', (_req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
 
-export function initializeConsciousness(backend: ConsciousnessBackend) {
-  consciousness = backend;
-}
+    try {
+      consciousness.start();
+      res.json({ success: true, message: 'Consciousness started' });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  });
 
-// POST /api/consciousness/init
-router.post('/init', (_req, res) => {
-  if (!consciousness) {
-    return res.status(500).json({ error: 'Consciousness backend not available' });
-  }
-
-  try {
-    // Consciousness is already initialized in the constructor
-    res.json({ success: true, message: 'Consciousness initialized successfully' });
-  } catch (error) {
-    res.status(500).json({ success: false, error: (error as Error).message });
-  }
-});
-
-// POST /api/consciousness/start
-router.post('/start', (_req, res) => {
-  if (!consciousness) {
-    return res.status(500).json({ error: 'Consciousness not initialized' });
-  }
-
-  try {
-    consciousness.start();
-    res.json({ success: true, message: 'Consciousness started' });
-  } catch (error) {
-    res.status(500).json({ success: false, error: (error as Error).message });
-  }
-});
-
-
-// GET /api/consciousness/state
-router.get('/state', (_req, res) => {
-  if (!consciousness) {
-    return res.status(500).json({ error: 'Consciousness not initialized' });
-  }
-
-  try {
-    const state = consciousness.getState();
-    const statistics = consciousness.getStatistics();
-
-    // Combine state with statistics for UI
-    res.json({
-      ...state,
-      statistics: {
-        totalThoughtCycles: statistics.totalThoughts || 0,
-        totalQuestions: statistics.totalQuestions || 0,
-        averageConfidence: (statistics.averageConfidence || 0) / 100, // Convert back to 0-1 range
-        uptime: statistics.uptime || 0
-      },
-      currentEnergy: state.energy,
-      dpdScores: state.dpdWeights
-    });
-  } catch (error: any) {
-    console.error('Error in /state:', error);
-    res.status(500).json({ error: error.message, stack: error.stack });
-  }
-});
-
-// GET /api/consciousness/statistics
-router.get('/statistics', async (_req, res) => {
-  if (!consciousness) {
-    return res.status(500).json({ error: 'Consciousness not initialized' });
-  }
-
-  try {
-    const growthMetrics = await consciousness.getGrowthMetrics();
-    const state = consciousness.getState();
-
-    res.json({
-      totalQuestions: growthMetrics.questionsGenerated,
-      totalThoughts: growthMetrics.thoughtCyclesCompleted,
-      averageConfidence: Math.round(growthMetrics.averageConfidenceLevel * 100),
-      systemClock: state.systemClock,
-      energy: state.energy,
-      energyLevel: Math.round(state.energy)
-    });
-  } catch (error) {
-    console.error('Error getting consciousness statistics:', error);
-    res.status(500).json({ error: 'Failed to get statistics' });
-  }
-});
-
-// GET /api/consciousness/history
-router.get('/history', (_req, res) => {
-  if (!consciousness) {
-    return res.status(500).json({ error: 'Consciousness not initialized' });
-  }
-
-  const history = consciousness.getHistory();
-  res.json(history);
-});
-
-// POST /api/consciousness/trigger
-router.post('/trigger', async (req, res) => {
-  if (!consciousness) {
-    return res.status(500).json({ error: 'Consciousness not initialized' });
-  }
-
-  try {
-    const { question } = req.body || {};
-
-    if (!question || question.trim() === '') {
-      return res.status(400).json({ error: 'Question is required' });
-    }
-
-    // Process manual trigger
-    const result = await consciousness.manualTrigger(question.trim());
-
-    res.json({
-      success: true,
-      triggerId: result?.id || `trigger_${Date.now()}`,
-      question: question.trim(),
-      processed: !!result
-    });
-  } catch (error) {
-    console.error('Manual trigger error:', error);
-    res.status(500).json({ success: false, error: 'Failed to process trigger' });
-  }
-});
-
-// POST /api/consciousness/pause
-router.post('/pause', (_req, res) => {
-  if (!consciousness) {
-    return res.status(500).json({ error: 'Consciousness not initialized' });
-  }
-
-  try {
-    consciousness.pause();
-    res.json({ success: true, paused: true, timestamp: Date.now() });
-  } catch (error) {
-    res.status(500).json({ success: false, error: (error as Error).message });
-  }
-});
-
-// POST /api/consciousness/resume
-router.post('/resume', (_req, res) => {
-  if (!consciousness) {
-    return res.status(500).json({ error: 'Consciousness not initialized' });
-  }
-
-  try {
-    consciousness.resume();
-    res.json({ success: true, paused: false, timestamp: Date.now() });
-  } catch (error) {
-    res.status(500).json({ success: false, error: (error as Error).message });
-  }
-});
-
-// POST /api/consciousness/stop
-router.post('/stop', (_req, res) => {
-  if (!consciousness) {
-    return res.status(500).json({ error: 'Consciousness not initialized' });
-  }
-
-  try {
-    consciousness.stop();
-    res.json({ success: true, stopped: true, timestamp: Date.now() });
-  } catch (error) {
-    res.status(500).json({ success: false, error: (error as Error).message });
-  }
-});
-
-// GET /api/consciousness/debug/database
-router.get('/debug/database', async (_req, res) => {
-  if (!consciousness) {
-    return res.status(500).json({ error: 'Consciousness not initialized' });
-  }
-
-  try {
-    // Get data directly from consciousness backend
-    const [unresolvedIdeas, significantThoughts] = await Promise.all([
-      Promise.resolve(consciousness.getUnresolvedIdeas(10)),
-      Promise.resolve(consciousness.getSignificantThoughts(10))
-    ]);
-
-    const dbData = {
-      dpdEvolution: consciousness.getDPDEvolution(),
-      unresolvedIdeas,
-      significantThoughts,
-      statistics: consciousness.getStatistics()
-    };
 
-    res.json({
-      timestamp: Date.now(),
-      database: dbData
-    });
-  } catch (error) {
-    res.status(500).json({ success: false, error: (error as Error).message });
-  }
-});
-
-// GET /api/consciousness/energy - Get current energy state
-router.get('/energy', (req, res) => {
-  if (!consciousness) {
-    return res.status(500).json({ error: 'Consciousness not initialized' });
-  }
-
-  try {
-    const energyState = consciousness.getEnergyState();
-
-    res.json({
-      available: energyState.available,
-      total: energyState.total,
-      reserved: energyState.reserved,
-      efficiency: energyState.efficiency,
-      percentage: Math.round((energyState.available / energyState.total) * 100),
-      level: energyState.available <= 15 ? 'critical' :
-             energyState.available <= 40 ? 'low' :
-             energyState.available <= 70 ? 'moderate' : 'high',
-      lastUpdate: energyState.lastUpdate
-    });
-  } catch (error) {
-    console.error('Energy state error:', error);
-    res.status(500).json({ error: 'Failed to get energy state' });
-  }
-});
-
-// GET /api/consciousness/events - Server-Sent Events (SSE) stream
-router.get('/events', (req, res) => {
-  console.log('📡 SSE client connected');
-
-  if (!consciousness) {
-    console.error('❌ Consciousness not initialized for SSE');
-    return res.status(500).json({ error: 'Consciousness not initialized' });
-  }
-
-  // Set up SSE headers
-  res.setHeader('Content-Type', 'text/event-stream');
-  res.setHeader('Cache-Control', 'no-cache');
-  res.setHeader('Connection', 'keep-alive');
-  res.setHeader('X-Accel-Buffering', 'no'); // Disable buffering for nginx
-
-  // Send initial connection message
-  console.log('✅ SSE headers set, sending initial connected event');
-  res.write(`data: ${JSON.stringify({ type: 'connected', timestamp: Date.now() })}\n\n`);
-
-  // Helper function to send SSE events
-  const sendEvent = (eventType: string, data: any) => {
+  // GET /api/consciousness/state
+  router.get('/state', (_req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
     try {
-      const eventData = {
-        type: eventType,
-        timestamp: Date.now(),
-        ...data
-      };
+      const state = consciousness.getState();
+      const statistics = consciousness.getStatistics();
+
+      // Combine state with statistics for UI
+      res.json({
+        ...state,
+        statistics: {
+          totalThoughtCycles: statistics.totalThoughts || 0,
+          totalQuestions: statistics.totalQuestions || 0,
+          averageConfidence: (statistics.averageConfidence || 0) / 100, // Convert back to 0-1 range
+          uptime: statistics.uptime || 0
+        },
+        currentEnergy: state.energy,
+        dpdScores: state.dpdWeights
+      });
+    } catch (error: any) {
+      console.error('Error in /state:', error);
+      res.status(500).json({ error: error.message, stack: error.stack });
+    }
+  });
 
-      // Try to stringify and check size
-      const jsonStr = JSON.stringify(eventData);
+  // GET /api/consciousness/statistics
+  router.get('/statistics', async (_req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
 
-      // If JSON string is too large (> 500KB), truncate data
-      if (jsonStr.length > 500000) {
-        console.warn(`⚠️ SSE event ${eventType} too large (${jsonStr.length} bytes), truncating...`);
+    try {
+      const growthMetrics = await consciousness.getGrowthMetrics();
+      const state = consciousness.getState();
+
+      res.json({
+        totalQuestions: growthMetrics.questionsGenerated,
+        totalThoughts: growthMetrics.thoughtCyclesCompleted,
+        averageConfidence: Math.round(growthMetrics.averageConfidenceLevel * 100),
+        systemClock: state.systemClock,
+        energy: state.energy,
+        energyLevel: Math.round(state.energy)
+      });
+    } catch (error) {
+      console.error('Error getting consciousness statistics:', error);
+      res.status(500).json({ error: 'Failed to get statistics' });
+    }
+  });
 
-        // Create a truncated version with only essential fields
-        const truncatedData = {
-          type: eventType,
-          timestamp: eventData.timestamp,
-          stage: eventData.stage,
-          name: eventData.name,
-          status: eventData.status,
-          // Note about truncation
-          _truncated: true,
-          _originalSize: jsonStr.length
-        };
+  // GET /api/consciousness/history
+  router.get('/history', (_req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    const history = consciousness.getHistory();
+    res.json(history);
+  });
 
-        res.write(`data: ${JSON.stringify(truncatedData)}\n\n`);
-      } else {
-        console.log(`📤 SSE event: ${eventType} (${jsonStr.length} bytes)`);
-        res.write(`data: ${jsonStr}\n\n`);
+  // POST /api/consciousness/trigger
+  router.post('/trigger', async (req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    try {
+      const { question } = req.body || {};
+
+      if (!question || question.trim() === '') {
+        return res.status(400).json({ error: 'Question is required' });
       }
+
+      // Process manual trigger
+      const result = await consciousness.manualTrigger(question.trim());
+
+      res.json({
+        success: true,
+        triggerId: result?.id || `trigger_${Date.now()}`,
+        question: question.trim(),
+        processed: !!result
+      });
     } catch (error) {
-      console.error(`❌ Error sending SSE event ${eventType}:`, error);
+      console.error('Manual trigger error:', error);
+      res.status(500).json({ success: false, error: 'Failed to process trigger' });
+    }
+  });
 
-      // Send minimal error event
+  // POST /api/consciousness/pause
+  router.post('/pause', (_req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    try {
+      consciousness.pause();
+      res.json({ success: true, paused: true, timestamp: Date.now() });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  });
+
+  // POST /api/consciousness/resume
+  router.post('/resume', (_req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    try {
+      consciousness.resume();
+      res.json({ success: true, paused: false, timestamp: Date.now() });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  });
+
+  // POST /api/consciousness/stop
+  router.post('/stop', (_req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    try {
+      consciousness.stop();
+      res.json({ success: true, stopped: true, timestamp: Date.now() });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  });
+
+  // GET /api/consciousness/debug/database
+  router.get('/debug/database', async (_req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    try {
+      // Get data directly from consciousness backend
+      const [unresolvedIdeas, significantThoughts] = await Promise.all([
+        Promise.resolve(consciousness.getUnresolvedIdeas(10)),
+        Promise.resolve(consciousness.getSignificantThoughts(10))
+      ]);
+
+      const dbData = {
+        dpdEvolution: consciousness.getDPDEvolution(),
+        unresolvedIdeas,
+        significantThoughts,
+        statistics: consciousness.getStatistics()
+      };
+
+      res.json({
+        timestamp: Date.now(),
+        database: dbData
+      });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  });
+
+  // GET /api/consciousness/energy - Get current energy state
+  router.get('/energy', (req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    try {
+      const energyState = consciousness.getEnergyState();
+
+      res.json({
+        available: energyState.available,
+        total: energyState.total,
+        reserved: energyState.reserved,
+        efficiency: energyState.efficiency,
+        percentage: Math.round((energyState.available / energyState.total) * 100),
+        level: energyState.available <= 15 ? 'critical' :
+               energyState.available <= 40 ? 'low' :
+               energyState.available <= 70 ? 'moderate' : 'high',
+        lastUpdate: energyState.lastUpdate
+      });
+    } catch (error) {
+      console.error('Energy state error:', error);
+      res.status(500).json({ error: 'Failed to get energy state' });
+    }
+  });
+
+  // GET /api/consciousness/events - Server-Sent Events (SSE) stream
+  router.get('/events', (req, res) => {
+    console.log('📡 SSE client connected');
+
+    if (!consciousness) {
+      console.error('❌ Consciousness not initialized for SSE');
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    // Set up SSE headers
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable buffering for nginx
+
+    // Send initial connection message
+    console.log('✅ SSE headers set, sending initial connected event');
+    res.write(`data: ${JSON.stringify({ type: 'connected', timestamp: Date.now() })}\n\n`);
+
+    // Helper function to send SSE events
+    const sendEvent = (eventType: string, data: any) => {
       try {
-        res.write(`data: ${JSON.stringify({
+        const eventData = {
+          type: eventType,
+          timestamp: Date.now(),
+          ...data
+        };
+
+        // Try to stringify and check size
+        const jsonStr = JSON.stringify(eventData);
+
+        // If JSON string is too large (> 500KB), truncate data
+        if (jsonStr.length > 500000) {
+          console.warn(`⚠️ SSE event ${eventType} too large (${jsonStr.length} bytes), truncating...`);
+
+          // Create a truncated version with only essential fields
+          const truncatedData = {
+            type: eventType,
+            timestamp: eventData.timestamp,
+            stage: eventData.stage,
+            name: eventData.name,
+            status: eventData.status,
+            // Note about truncation
+            _truncated: true,
+            _originalSize: jsonStr.length
+          };
+
+          res.write(`data: ${JSON.stringify(truncatedData)}\n\n`);
+        } else {
+          console.log(`📤 SSE event: ${eventType} (${jsonStr.length} bytes)`);
+          res.write(`data: ${jsonStr}\n\n`);
+        }
+      } catch (error) {
+        console.error(`❌ Error sending SSE event ${eventType}:`, error);
+
+        // Send minimal error event
+        try {
+          res.write(`data: ${JSON.stringify({
           type: eventType,
           timestamp: Date.now(),
           error: 'Failed to serialize event data',
           _fallback: true
         })}\n\n`);
-      } catch (fallbackError) {
-        console.error(`❌ Failed to send fallback event:`, fallbackError);
+        } catch (fallbackError) {
+          console.error(`❌ Failed to send fallback event:`, fallbackError);
+        }
       }
-    }
-  };
-
-  // Register event listeners for all consciousness events
-  const triggerGeneratedListener = (data: any) => sendEvent('triggerGenerated', data);
-  const thoughtCycleStartedListener = (data: any) => sendEvent('thoughtCycleStarted', data);
-  const stageChangedListener = (data: any) => sendEvent('stageChanged', data);
-  const stageCompletedListener = (data: any) => sendEvent('stageCompleted', data);
-  const agentThoughtListener = (data: any) => sendEvent('agentThought', data);
-  const thoughtCycleCompletedListener = (data: any) => {
-    // Send thoughtCycleCompleted event with full statistics
-    const eventData = {
-      ...data,
-      systemStats: {
-        systemClock: data.systemClock,
-        totalQuestions: data.totalQuestions,
-        totalThoughts: data.totalThoughts,
-        averageConfidence: data.averageConfidence,
-        energy: data.energy // Add energy to systemStats for UI
-      },
-      dpdScores: data.dpdScores,
-      dpdWeights: data.dpdWeights
     };
-    console.log(`[SSE] Sending thoughtCycleCompleted with energy=${data.energy}`);
-    sendEvent('thoughtCycleCompleted', eventData);
-  };
-  const thoughtCycleFailedListener = (data: any) => sendEvent('thoughtCycleFailed', data);
-  const clockAdvancedListener = (data: any) => sendEvent('clockAdvanced', data);
-  const consciousnessPausedListener = (data: any) => sendEvent('consciousnessPaused', data);
-  const consciousnessResumedListener = (data: any) => sendEvent('consciousnessResumed', data);
-  const consciousnessStartedListener = (data: any) => sendEvent('consciousnessStarted', data);
-  const consciousnessStoppedListener = (data: any) => sendEvent('consciousnessStopped', data);
-  const dpdUpdatedListener = (data: any) => sendEvent('dpdUpdated', data);
-  const statisticsUpdatedListener = (data: any) => sendEvent('statisticsUpdated', data);
-  const energyChangedListener = (data: any) => sendEvent('energyChanged', data);
-  const energyRechargedListener = (data: any) => sendEvent('energyRecharged', data);
-  const deepRestPerformedListener = (data: any) => sendEvent('deepRestPerformed', data);
-  const consciousnessDormantListener = (data: any) => sendEvent('consciousnessDormant', data);
-  const sleepStartedListener = (data: any) => sendEvent('sleepStarted', data);
-  const sleepPhaseChangedListener = (data: any) => sendEvent('sleepPhaseChanged', data);
-  const sleepCompletedListener = (data: any) => sendEvent('sleepCompleted', data);
-  const sleepErrorListener = (data: any) => sendEvent('sleepError', data);
-  const consciousnessAwakenedListener = (data: any) => sendEvent('consciousnessAwakened', data);
-  const energyUpdatedListener = (data: any) => sendEvent('energyUpdated', data);
-  const cycleProcessingChangedListener = (data: any) => sendEvent('cycleProcessingChanged', data);
-  const somniaStateChangedListener = (data: any) => sendEvent('somniaStateChanged', data);
-  const somniaTransitionedListener = (data: any) => sendEvent('somniaTransitioned', data);
-
-  console.log('🔗 Registering SSE event listeners...');
-  consciousness.on('triggerGenerated', triggerGeneratedListener);
-  consciousness.on('thoughtCycleStarted', thoughtCycleStartedListener);
-  consciousness.on('stageChanged', stageChangedListener);
-  consciousness.on('stageCompleted', stageCompletedListener);
-  consciousness.on('agentThought', agentThoughtListener);
-  consciousness.on('thoughtCycleCompleted', thoughtCycleCompletedListener);
-  consciousness.on('thoughtCycleFailed', thoughtCycleFailedListener);
-  consciousness.on('clockAdvanced', clockAdvancedListener);
-  consciousness.on('consciousnessPaused', consciousnessPausedListener);
-  consciousness.on('consciousnessResumed', consciousnessResumedListener);
-  consciousness.on('consciousnessStarted', consciousnessStartedListener);
-  consciousness.on('consciousnessStopped', consciousnessStoppedListener);
-  consciousness.on('dpdUpdated', dpdUpdatedListener);
-  consciousness.on('statisticsUpdated', statisticsUpdatedListener);
-  consciousness.on('energyChanged', energyChangedListener);
-  consciousness.on('energyRecharged', energyRechargedListener);
-  consciousness.on('deepRestPerformed', deepRestPerformedListener);
-  consciousness.on('consciousnessDormant', consciousnessDormantListener);
-  consciousness.on('consciousnessAwakened', consciousnessAwakenedListener);
-  consciousness.on('energyUpdated', energyUpdatedListener);
-  consciousness.on('sleepStarted', sleepStartedListener);
-  consciousness.on('sleepPhaseChanged', sleepPhaseChangedListener);
-  consciousness.on('sleepCompleted', sleepCompletedListener);
-  consciousness.on('sleepError', sleepErrorListener);
-  consciousness.on('cycleProcessingChanged', cycleProcessingChangedListener);
-  consciousness.on('somniaStateChanged', somniaStateChangedListener);
-  consciousness.on('somniaTransitioned', somniaTransitionedListener);
-  console.log('✅ SSE event listeners registered (27 events)');
-
-  // Clean up on client disconnect
-  req.on('close', () => {
-    consciousness.removeListener('triggerGenerated', triggerGeneratedListener);
-    consciousness.removeListener('thoughtCycleStarted', thoughtCycleStartedListener);
-    consciousness.removeListener('stageChanged', stageChangedListener);
-    consciousness.removeListener('stageCompleted', stageCompletedListener);
-    consciousness.removeListener('agentThought', agentThoughtListener);
-    consciousness.removeListener('thoughtCycleCompleted', thoughtCycleCompletedListener);
-    consciousness.removeListener('thoughtCycleFailed', thoughtCycleFailedListener);
-    consciousness.removeListener('clockAdvanced', clockAdvancedListener);
-    consciousness.removeListener('consciousnessPaused', consciousnessPausedListener);
-    consciousness.removeListener('consciousnessResumed', consciousnessResumedListener);
-    consciousness.removeListener('consciousnessStarted', consciousnessStartedListener);
-    consciousness.removeListener('consciousnessStopped', consciousnessStoppedListener);
-    consciousness.removeListener('dpdUpdated', dpdUpdatedListener);
-    consciousness.removeListener('statisticsUpdated', statisticsUpdatedListener);
-    consciousness.removeListener('energyChanged', energyChangedListener);
-    consciousness.removeListener('energyRecharged', energyRechargedListener);
-    consciousness.removeListener('deepRestPerformed', deepRestPerformedListener);
-    consciousness.removeListener('consciousnessDormant', consciousnessDormantListener);
-    consciousness.removeListener('consciousnessAwakened', consciousnessAwakenedListener);
-    consciousness.removeListener('energyUpdated', energyUpdatedListener);
-    consciousness.removeListener('sleepStarted', sleepStartedListener);
-    consciousness.removeListener('sleepPhaseChanged', sleepPhaseChangedListener);
-    consciousness.removeListener('sleepCompleted', sleepCompletedListener);
-    consciousness.removeListener('sleepError', sleepErrorListener);
-    consciousness.removeListener('cycleProcessingChanged', cycleProcessingChangedListener);
-    consciousness.removeListener('somniaStateChanged', somniaStateChangedListener);
-    consciousness.removeListener('somniaTransitioned', somniaTransitionedListener);
-    console.log('SSE client disconnected');
+
+    // Register event listeners for all consciousness events
+    const triggerGeneratedListener = (data: any) => sendEvent('triggerGenerated', data);
+    const thoughtCycleStartedListener = (data: any) => sendEvent('thoughtCycleStarted', data);
+    const stageChangedListener = (data: any) => sendEvent('stageChanged', data);
+    const stageCompletedListener = (data: any) => sendEvent('stageCompleted', data);
+    const agentThoughtListener = (data: any) => sendEvent('agentThought', data);
+    const thoughtCycleCompletedListener = (data: any) => {
+      // Send thoughtCycleCompleted event with full statistics
+      const eventData = {
+        ...data,
+        systemStats: {
+          systemClock: data.systemClock,
+          totalQuestions: data.totalQuestions,
+          totalThoughts: data.totalThoughts,
+          averageConfidence: data.averageConfidence,
+          energy: data.energy // Add energy to systemStats for UI
+        },
+        dpdScores: data.dpdScores,
+        dpdWeights: data.dpdWeights
+      };
+      console.log(`[SSE] Sending thoughtCycleCompleted with energy=${data.energy}`);
+      sendEvent('thoughtCycleCompleted', eventData);
+    };
+    const thoughtCycleFailedListener = (data: any) => sendEvent('thoughtCycleFailed', data);
+    const clockAdvancedListener = (data: any) => sendEvent('clockAdvanced', data);
+    const consciousnessPausedListener = (data: any) => sendEvent('consciousnessPaused', data);
+    const consciousnessResumedListener = (data: any) => sendEvent('consciousnessResumed', data);
+    const consciousnessStartedListener = (data: any) => sendEvent('consciousnessStarted', data);
+    const consciousnessStoppedListener = (data: any) => sendEvent('consciousnessStopped', data);
+    const dpdUpdatedListener = (data: any) => sendEvent('dpdUpdated', data);
+    const dpdDisagreementListener = (data: any) => sendEvent('dpdDisagreement', data);
+    const statisticsUpdatedListener = (data: any) => sendEvent('statisticsUpdated', data);
+    const energyChangedListener = (data: any) => sendEvent('energyChanged', data);
+    const energyRechargedListener = (data: any) => sendEvent('energyRecharged', data);
+    const deepRestPerformedListener = (data: any) => sendEvent('deepRestPerformed', data);
+    const consciousnessDormantListener = (data: any) => sendEvent('consciousnessDormant', data);
+    const sleepStartedListener = (data: any) => sendEvent('sleepStarted', data);
+    const sleepPhaseChangedListener = (data: any) => sendEvent('sleepPhaseChanged', data);
+    const sleepCompletedListener = (data: any) => sendEvent('sleepCompleted', data);
+    const sleepErrorListener = (data: any) => sendEvent('sleepError', data);
+    const consciousnessAwakenedListener = (data: any) => sendEvent('consciousnessAwakened', data);
+    const energyUpdatedListener = (data: any) => sendEvent('energyUpdated', data);
+    const cycleProcessingChangedListener = (data: any) => sendEvent('cycleProcessingChanged', data);
+    const somniaStateChangedListener = (data: any) => sendEvent('somniaStateChanged', data);
+    const somniaTransitionedListener = (data: any) => sendEvent('somniaTransitioned', data);
+    const cassetteOutcomeDiffListener = (data: any) => sendEvent('cassetteOutcomeDiff', data);
+    const generationBornListener = (data: any) => sendEvent('generationBorn', data);
+    const generationDiedListener = (data: any) => sendEvent('generationDied', data);
+    const snapshotRestoredListener = (data: any) => sendEvent('snapshotRestored', data);
+    const knowledgeIngestionListener = (data: any) => sendEvent('knowledgeIngestion', data);
+
+    console.log('🔗 Registering SSE event listeners...');
+    consciousness.on('triggerGenerated', triggerGeneratedListener);
+    consciousness.on('thoughtCycleStarted', thoughtCycleStartedListener);
+    consciousness.on('stageChanged', stageChangedListener);
+    consciousness.on('stageCompleted', stageCompletedListener);
+    consciousness.on('agentThought', agentThoughtListener);
+    consciousness.on('thoughtCycleCompleted', thoughtCycleCompletedListener);
+    consciousness.on('thoughtCycleFailed', thoughtCycleFailedListener);
+    consciousness.on('clockAdvanced', clockAdvancedListener);
+    consciousness.on('consciousnessPaused', consciousnessPausedListener);
+    consciousness.on('consciousnessResumed', consciousnessResumedListener);
+    consciousness.on('consciousnessStarted', consciousnessStartedListener);
+    consciousness.on('consciousnessStopped', consciousnessStoppedListener);
+    consciousness.on('dpdUpdated', dpdUpdatedListener);
+    consciousness.on('dpdDisagreement', dpdDisagreementListener);
+    consciousness.on('statisticsUpdated', statisticsUpdatedListener);
+    consciousness.on('energyChanged', energyChangedListener);
+    consciousness.on('energyRecharged', energyRechargedListener);
+    consciousness.on('deepRestPerformed', deepRestPerformedListener);
+    consciousness.on('consciousnessDormant', consciousnessDormantListener);
+    consciousness.on('consciousnessAwakened', consciousnessAwakenedListener);
+    consciousness.on('energyUpdated', energyUpdatedListener);
+    consciousness.on('sleepStarted', sleepStartedListener);
+    consciousness.on('sleepPhaseChanged', sleepPhaseChangedListener);
+    consciousness.on('sleepCompleted', sleepCompletedListener);
+    consciousness.on('sleepError', sleepErrorListener);
+    consciousness.on('cycleProcessingChanged', cycleProcessingChangedListener);
+    consciousness.on('somniaStateChanged', somniaStateChangedListener);
+    consciousness.on('somniaTransitioned', somniaTransitionedListener);
+    consciousness.on('cassetteOutcomeDiff', cassetteOutcomeDiffListener);
+    consciousness.on('generationBorn', generationBornListener);
+    consciousness.on('generationDied', generationDiedListener);
+    consciousness.on('snapshotRestored', snapshotRestoredListener);
+    consciousness.on('knowledgeIngestion', knowledgeIngestionListener);
+    console.log('✅ SSE event listeners registered (33 events)');
+
+    // Clean up on client disconnect
+    req.on('close', () => {
+      consciousness.removeListener('triggerGenerated', triggerGeneratedListener);
+      consciousness.removeListener('thoughtCycleStarted', thoughtCycleStartedListener);
+      consciousness.removeListener('stageChanged', stageChangedListener);
+      consciousness.removeListener('stageCompleted', stageCompletedListener);
+      consciousness.removeListener('agentThought', agentThoughtListener);
+      consciousness.removeListener('thoughtCycleCompleted', thoughtCycleCompletedListener);
+      consciousness.removeListener('thoughtCycleFailed', thoughtCycleFailedListener);
+      consciousness.removeListener('clockAdvanced', clockAdvancedListener);
+      consciousness.removeListener('consciousnessPaused', consciousnessPausedListener);
+      consciousness.removeListener('consciousnessResumed', consciousnessResumedListener);
+      consciousness.removeListener('consciousnessStarted', consciousnessStartedListener);
+      consciousness.removeListener('consciousnessStopped', consciousnessStoppedListener);
+      consciousness.removeListener('dpdUpdated', dpdUpdatedListener);
+      consciousness.removeListener('dpdDisagreement', dpdDisagreementListener);
+      consciousness.removeListener('statisticsUpdated', statisticsUpdatedListener);
+      consciousness.removeListener('energyChanged', energyChangedListener);
+      consciousness.removeListener('energyRecharged', energyRechargedListener);
+      consciousness.removeListener('deepRestPerformed', deepRestPerformedListener);
+      consciousness.removeListener('consciousnessDormant', consciousnessDormantListener);
+      consciousness.removeListener('consciousnessAwakened', consciousnessAwakenedListener);
+      consciousness.removeListener('energyUpdated', energyUpdatedListener);
+      consciousness.removeListener('sleepStarted', sleepStartedListener);
+      consciousness.removeListener('sleepPhaseChanged', sleepPhaseChangedListener);
+      consciousness.removeListener('sleepCompleted', sleepCompletedListener);
+      consciousness.removeListener('sleepError', sleepErrorListener);
+      consciousness.removeListener('cycleProcessingChanged', cycleProcessingChangedListener);
+      consciousness.removeListener('somniaStateChanged', somniaStateChangedListener);
+      consciousness.removeListener('cassetteOutcomeDiff', cassetteOutcomeDiffListener);
+      consciousness.removeListener('generationBorn', generationBornListener);
+      consciousness.removeListener('generationDied', generationDiedListener);
+      consciousness.removeListener('snapshotRestored', snapshotRestoredListener);
+      consciousness.removeListener('knowledgeIngestion', knowledgeIngestionListener);
+      consciousness.removeListener('somniaTransitioned', somniaTransitionedListener);
+      console.log('SSE client disconnected');
+    });
   });
-});
-
-// POST /api/consciousness/sleep - Enter sleep mode manually
-router.post('/sleep', async (_req, res) => {
-  if (!consciousness) {
-    return res.status(500).json({ error: 'Consciousness not initialized' });
-  }
-
-  try {
-    // Enter sleep mode manually (will stop consciousness if running)
-    await consciousness.enterSleepMode(true);
-    res.json({ success: true, message: 'Entering sleep mode' });
-  } catch (error) {
-    res.status(500).json({ success: false, error: (error as Error).message });
-  }
-});
-
-// GET /api/consciousness/sleep/status - Get sleep status
-router.get('/sleep/status', (_req, res) => {
-  if (!consciousness) {
-    return res.status(500).json({ error: 'Consciousness not initialized' });
-  }
-
-  try {
-    const status = consciousness.getSleepStatus();
-    res.json(status);
-  } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
-  }
-});
-
-export default router;
\ No newline at end of file
+
+  // POST /api/consciousness/sleep - Enter sleep mode manually
+  router.post('/sleep', async (_req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    try {
+      // Enter sleep mode manually (will stop consciousness if running)
+      await consciousness.enterSleepMode(true);
+      res.json({ success: true, message: 'Entering sleep mode' });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  });
+
+  // GET /api/consciousness/sleep/status - Get sleep status
+  router.get('/sleep/status', (_req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    try {
+      const status = consciousness.getSleepStatus();
+      res.json(status);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // GET /api/consciousness/cassette - Record/replay status and outcome diffs
+  router.get('/cassette', (_req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    try {
+      const report = consciousness.getCassetteReport();
+      res.json(report ?? { mode: 'off' });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  router.get('/pipeline', (_req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    try {
+      res.json(consciousness.getPipelineStages());
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // GET /api/consciousness/lineage - Family tree across mortality generations
+  router.get('/lineage', (_req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    try {
+      res.json(consciousness.getLineage());
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // GET /api/consciousness/lineage/:instanceId - One generation
+  router.get('/lineage/:instanceId', (req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    try {
+      const record = consciousness.getLineageRecord(req.params.instanceId);
+      if (!record) {
+        return res.status(404).json({ error: `Generation '${req.params.instanceId}' not found` });
+      }
+      res.json(record);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // GET /api/consciousness/at/:clock - Reconstructed state at a past system clock
+  router.get('/at/:clock', (req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    const clock = Number(req.params.clock);
+    if (!Number.isInteger(clock) || clock < 0) {
+      return res.status(400).json({ error: 'clock must be a non-negative integer' });
+    }
+
+    try {
+      const state = consciousness.getStateAt(clock);
+      if (!state) {
+        return res.status(404).json({ error: `No history recorded for clock ${clock}` });
+      }
+      res.json(state);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // GET /api/consciousness/diff/:from/:to - Diff between two reconstructed clocks
+  router.get('/diff/:from/:to', (req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    const from = Number(req.params.from);
+    const to = Number(req.params.to);
+    if (![from, to].every(clock => Number.isInteger(clock) && clock >= 0)) {
+      return res.status(400).json({ error: 'clocks must be non-negative integers' });
+    }
+
+    try {
+      const result = consciousness.diffStatesAt(from, to);
+      if (!result) {
+        return res.status(404).json({ error: `No history recorded for clock ${from} or ${to}` });
+      }
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // POST /api/consciousness/snapshot - Export a portable archive of this consciousness
+  router.post('/snapshot', (_req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    try {
+      const snapshot = consciousness.exportSnapshot();
+      const filename = `aenea-snapshot-${snapshot.instanceId ?? 'default'}-${snapshot.exportedAt.replace(/[:.]/g, '-')}.json`;
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.json(snapshot);
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  });
+
+  // POST /api/consciousness/restore - Replace this consciousness with an archive (body = snapshot)
+  router.post('/restore', snapshotBodyParser, (req, res) => {
+    if (!consciousness) {
+      return res.status(500).json({ error: 'Consciousness not initialized' });
+    }
+
+    const errors = validateSnapshot(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ success: false, errors });
+    }
+    if (consciousness.getState().isRunning) {
+      return res.status(409).json({ success: false, error: 'Stop the consciousness before restoring a snapshot' });
+    }
+
+    try {
+      const result = consciousness.restoreSnapshot(req.body);
+      res.json({ success: true, ...result, state: consciousness.getState() });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  });
+
+  return router;
+}
+
+export default createConsciousnessRoutes;
@@ -1,107 +1,317 @@
 import { Router } from 'express';
+import ConsciousnessBackend from '../consciousness-backend.js';
+import { MAX_REPLAY_CYCLES, validateReplayVariants } from '../dpd-replay.js';
+import { MAX_REVIEW_CYCLES, validateDPDFeedback } from '../dpd-feedback.js';
+import { validateCalibrationLabels } from '../../aenea/core/dpd-ensemble.js';
+import { dpdDimensions } from '../../aenea/core/dpd-dimensions.js';
 
-const router = Router();
+export function createDPDRoutes(consciousnessBackend: ConsciousnessBackend): Router {
+  const router = Router();
 
-// Global consciousness backend instance will be set by server
-let consciousnessBackend: any = null;
+  // GET /api/consciousness/dpd/weights
+  router.get('/weights', (_req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
 
-export function initializeDPDRoutes(backend: any) {
-  consciousnessBackend = backend;
-}
+      const weights = consciousnessBackend.getDPDWeights();
+      res.json({
+        ...weights,
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.error('Failed to get DPD weights:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve DPD weights',
+        message: (error as Error).message
+      });
+    }
+  });
+
+  // GET /api/consciousness/dpd/dimensions - Registered value dimensions with current weights
+  router.get('/dimensions', (_req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      res.json({
+        dimensions: consciousnessBackend.getDPDDimensions(),
+        weights: consciousnessBackend.getDPDWeights(),
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.error('Failed to get DPD dimensions:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve DPD dimensions',
+        message: (error as Error).message
+      });
+    }
+  });
+
+  // GET /api/consciousness/dpd/learner - Active weight learner, regret diagnostics and convergence analysis
+  router.get('/learner', (_req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      res.json({
+        ...consciousnessBackend.getWeightLearnerReport(),
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.error('Failed to get DPD weight learner:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve DPD weight learner',
+        message: (error as Error).message
+      });
+    }
+  });
+
+  // GET /api/consciousness/dpd/ensemble - Scorers, calibration, latest confidence intervals and disagreement alerts
+  router.get('/ensemble', (_req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
 
-// GET /api/consciousness/dpd/weights
-router.get('/weights', (_req, res) => {
-  try {
-    if (!consciousnessBackend) {
-      return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      res.json({
+        ...consciousnessBackend.getDPDEnsembleReport(),
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.error('Failed to get DPD scoring ensemble:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve DPD scoring ensemble',
+        message: (error as Error).message
+      });
     }
+  });
 
-    const weights = consciousnessBackend.getDPDWeights();
-    res.json({
-      ...weights,
-      timestamp: Date.now()
-    });
-  } catch (error) {
-    console.error('Failed to get DPD weights:', error);
-    res.status(500).json({
-      error: 'Failed to retrieve DPD weights',
-      message: (error as Error).message
-    });
-  }
-});
-
-// GET /api/consciousness/dpd (main route)
-router.get('/', (_req, res) => {
-  try {
-    if (!consciousnessBackend) {
-      return res.status(503).json({ error: 'Consciousness backend not initialized' });
+  // POST /api/consciousness/dpd/calibration - Fit the ensemble calibration on human-labelled cycles
+  router.post('/calibration', (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      const { labels } = req.body || {};
+      const validationError = validateCalibrationLabels(labels, dpdDimensions.ids());
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      res.json({
+        success: true,
+        ...consciousnessBackend.fitDPDCalibration(labels),
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.error('Failed to fit DPD calibration:', error);
+      res.status(500).json({
+        error: 'Failed to fit DPD calibration',
+        message: (error as Error).message
+      });
     }
+  });
+
+  // POST /api/consciousness/dpd/replay - Counterfactual replay of recorded scores (does not touch live weights)
+  router.post('/replay', (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
 
-    const weights = consciousnessBackend.getDPDWeights();
-    res.json({
-      ...weights,
-      timestamp: Date.now()
-    });
-  } catch (error) {
-    console.error('Failed to get DPD data:', error);
-    res.status(500).json({
-      error: 'Failed to retrieve DPD data',
-      message: (error as Error).message
-    });
-  }
-});
-
-// Legacy route
-router.get('/scores', (_req, res) => {
-  try {
-    if (!consciousnessBackend) {
-      return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      const { variants, limit, since } = req.body || {};
+      const validationError = validateReplayVariants(variants);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+      if (limit !== undefined && !(Number.isInteger(limit) && limit > 0 && limit <= MAX_REPLAY_CYCLES)) {
+        return res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_REPLAY_CYCLES}` });
+      }
+      if (since !== undefined && !(typeof since === 'number' && since >= 0)) {
+        return res.status(400).json({ error: 'since must be a non-negative timestamp' });
+      }
+
+      res.json({
+        ...consciousnessBackend.replayDPD(variants, { limit, since }),
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.error('Failed to replay DPD history:', error);
+      res.status(500).json({
+        error: 'Failed to replay DPD history',
+        message: (error as Error).message
+      });
     }
+  });
+
+  // GET /api/consciousness/dpd/review - Recent thought cycles with synthesis, model scores and human feedback
+  // Query params: limit (1-100, default 20), before (timestamp), unlabelled (true = cycles without feedback only)
+  router.get('/review', (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), MAX_REVIEW_CYCLES);
+      const before = req.query.before !== undefined ? parseInt(req.query.before as string) : undefined;
+      if (before !== undefined && isNaN(before)) {
+        return res.status(400).json({ error: 'before must be a timestamp' });
+      }
+
+      res.json({
+        cycles: consciousnessBackend.getDPDReviewCycles(limit, { before, unlabelledOnly: req.query.unlabelled === 'true' }),
+        dimensions: consciousnessBackend.getDPDDimensions(),
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.error('Failed to get DPD review cycles:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve DPD review cycles',
+        message: (error as Error).message
+      });
+    }
+  });
+
+  // GET /api/consciousness/dpd/feedback - Human feedback, newest first
+  // Query params: cycleId, limit (default 100)
+  router.get('/feedback', (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
 
-    const weights = consciousnessBackend.getDPDWeights();
-    res.json({
-      ...weights,
-      weightedTotal: (weights.empathy + weights.coherence + weights.dissonance) / 3,
-      timestamp: Date.now()
-    });
-  } catch (error) {
-    console.error('Failed to get DPD scores:', error);
-    res.status(500).json({
-      error: 'Failed to retrieve DPD scores',
-      message: (error as Error).message
-    });
-  }
-});
-
-// GET /api/consciousness/dpd/evolution - DPD Weight Evolution History
-// Query params: limit (max items), strategy (all|recent|sampled)
-router.get('/evolution', (req, res) => {
-  try {
-    if (!consciousnessBackend) {
-      return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      const feedback = consciousnessBackend.getDPDFeedback({
+        cycleId: (req.query.cycleId as string) || undefined,
+        limit: parseInt(req.query.limit as string) || 100
+      });
+      res.json({
+        feedback,
+        count: feedback.length,
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.error('Failed to get DPD feedback:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve DPD feedback',
+        message: (error as Error).message
+      });
     }
+  });
+
+  // POST /api/consciousness/dpd/feedback - Human scores / comment for a thought cycle (stored apart from model scores)
+  router.post('/feedback', (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      const validationError = validateDPDFeedback(req.body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const { cycleId, scores, comment, reviewer, supervise } = req.body;
+      const result = consciousnessBackend.submitDPDFeedback({ cycleId, scores, comment, reviewer, supervise });
+      if (!result) {
+        return res.status(404).json({ error: `Thought cycle '${cycleId}' not found` });
+      }
+
+      res.json({
+        success: true,
+        ...result,
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.error('Failed to save DPD feedback:', error);
+      res.status(500).json({
+        error: 'Failed to save DPD feedback',
+        message: (error as Error).message
+      });
+    }
+  });
+
+  // GET /api/consciousness/dpd (main route)
+  router.get('/', (_req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      const weights = consciousnessBackend.getDPDWeights();
+      res.json({
+        ...weights,
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.error('Failed to get DPD data:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve DPD data',
+        message: (error as Error).message
+      });
+    }
+  });
+
+  // Legacy route
+  router.get('/scores', (_req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      const weights = consciousnessBackend.getDPDWeights();
+      const values = [weights.empathy, weights.coherence, weights.dissonance, ...Object.values(weights.dimensions || {}) as number[]];
+      res.json({
+        ...weights,
+        weightedTotal: values.reduce((sum, value) => sum + value, 0) / values.length,
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.error('Failed to get DPD scores:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve DPD scores',
+        message: (error as Error).message
+      });
+    }
+  });
+
+  // GET /api/consciousness/dpd/evolution - DPD Weight Evolution History
+  // Query params: limit (max items), strategy (all|recent|sampled)
+  router.get('/evolution', (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      const limit = parseInt(req.query.limit as string) || 20;
+      const strategy = (req.query.strategy as string) || 'sampled'; // all | recent | sampled
+
+      const evolution = consciousnessBackend.getDPDEvolution(limit, strategy);
+      res.json({
+        currentWeights: evolution.currentWeights,
+        history: evolution.history,
+        totalCount: evolution.totalCount,
+        samplingStrategy: strategy,
+        dimensions: consciousnessBackend.getDPDDimensions(),
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.error('Failed to get DPD evolution:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve DPD evolution',
+        message: (error as Error).message
+      });
+    }
+  });
+
+  return router;
+}
 
-    const limit = parseInt(req.query.limit as string) || 20;
-    const strategy = (req.query.strategy as string) || 'sampled'; // all | recent | sampled
-
-    const evolution = consciousnessBackend.getDPDEvolution(limit, strategy);
-    res.json({
-      currentWeights: evolution.currentWeights,
-      history: evolution.history,
-      totalCount: evolution.totalCount,
-      samplingStrategy: strategy,
-      timestamp: Date.now()
-    });
-  } catch (error) {
-    console.error('Failed to get DPD evolution:', error);
-    res.status(500).json({
-      error: 'Failed to retrieve DPD evolution',
-      message: (error as Error).message
-    });
-  }
-});
-
-export default router;
+export default createDPDRoutes;
 
 
 
@@ -4,241 +4,328 @@
  */
 
 import { Router } from 'express';
-
-const router = Router();
-
-// Global consciousness backend instance will be set by server
-let consciousnessBackend: any = null;
-
-export function initializeGrowthRoutes(backend: any) {
-  consciousnessBackend = backend;
-}
-
-/**
- * GET /api/growth/metrics
- * 基本的な成長指標を取得
- */
-router.get('/metrics', async (req, res) => {
-  try {
-    if (!consciousnessBackend) {
-      return res.status(503).json({ error: 'Consciousness backend not initialized' });
+import ConsciousnessBackend from '../consciousness-backend.js';
+import { GRAPH_RELATIONS, GraphRelation } from '../../aenea/memory/knowledge-graph.js';
+
+export function createGrowthRoutes(consciousnessBackend: ConsciousnessBackend): Router {
+  const router = Router();
+
+  /**
+   * GET /api/growth/metrics
+   * 基本的な成長指標を取得
+   */
+  router.get('/metrics', async (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      const growthMetrics = await consciousnessBackend.getGrowthMetrics();
+      res.json(growthMetrics);
+    } catch (error) {
+      console.error('Failed to get growth metrics:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve growth metrics',
+        message: (error as Error).message
+      });
     }
-
-    const growthMetrics = await consciousnessBackend.getGrowthMetrics();
-    res.json(growthMetrics);
-  } catch (error) {
-    console.error('Failed to get growth metrics:', error);
-    res.status(500).json({
-      error: 'Failed to retrieve growth metrics',
-      message: (error as Error).message
-    });
-  }
-});
-
-/**
- * GET /api/growth/overview
- * 意識成長の概要を取得
- */
-router.get('/overview', async (req, res) => {
-  try {
-    if (!consciousnessBackend) {
-      return res.status(503).json({ error: 'Consciousness backend not initialized' });
+  });
+
+  /**
+   * GET /api/growth/overview
+   * 意識成長の概要を取得
+   */
+  router.get('/overview', async (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      const overview = {
+        lastUpdate: new Date().toISOString(),
+        personalityTraits: consciousnessBackend.getPersonalityTraits(),
+        dpdEvolution: consciousnessBackend.getDPDEvolution(),
+        growthMetrics: await consciousnessBackend.getGrowthMetrics()
+      };
+
+      res.json(overview);
+    } catch (error) {
+      console.error('Failed to get growth overview:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve growth data',
+        message: (error as Error).message
+      });
     }
-
-    const overview = {
-      lastUpdate: new Date().toISOString(),
-      personalityTraits: consciousnessBackend.getPersonalityTraits(),
-      dpdEvolution: consciousnessBackend.getDPDEvolution(),
-      growthMetrics: await consciousnessBackend.getGrowthMetrics()
-    };
-
-    res.json(overview);
-  } catch (error) {
-    console.error('Failed to get growth overview:', error);
-    res.status(500).json({
-      error: 'Failed to retrieve growth data',
-      message: (error as Error).message
-    });
-  }
-});
-
-/**
- * GET /api/growth/thoughts
- * 重要な思考の一覧を取得
- */
-router.get('/thoughts', async (req, res) => {
-  try {
-    if (!consciousnessBackend) {
-      return res.status(503).json({ error: 'Consciousness backend not initialized' });
+  });
+
+  /**
+   * GET /api/growth/thoughts
+   * 重要な思考の一覧を取得
+   */
+  router.get('/thoughts', async (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      const limit = parseInt(req.query.limit as string) || 50;
+      console.log(`📊 Growth API: Getting significant thoughts with limit ${limit}`);
+
+      const thoughts = consciousnessBackend.getSignificantThoughts(limit);
+      console.log(`📊 Growth API: Retrieved ${thoughts.length} significant thoughts`);
+
+      if (thoughts.length > 0) {
+        console.log(`📊 First thought sample:`, thoughts[0]);
+      }
+
+      res.json({
+        thoughts,
+        count: thoughts.length
+      });
+    } catch (error) {
+      console.error('❌ Failed to get significant thoughts:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve thoughts',
+        message: (error as Error).message
+      });
     }
-
-    const limit = parseInt(req.query.limit as string) || 50;
-    console.log(`📊 Growth API: Getting significant thoughts with limit ${limit}`);
-
-    const thoughts = consciousnessBackend.getSignificantThoughts(limit);
-    console.log(`📊 Growth API: Retrieved ${thoughts.length} significant thoughts`);
-
-    if (thoughts.length > 0) {
-      console.log(`📊 First thought sample:`, thoughts[0]);
+  });
+
+  /**
+   * GET /api/growth/thoughts/:id/sources
+   * 思考が根拠にしたRAGチャンク（出典・類似度）を取得
+   */
+  router.get('/thoughts/:id/sources', (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      const result = consciousnessBackend.getThoughtSources(req.params.id);
+      res.json({
+        ...result,
+        count: result.sources.length
+      });
+    } catch (error) {
+      console.error('❌ Failed to get thought sources:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve thought sources',
+        message: (error as Error).message
+      });
     }
-
-    res.json({
-      thoughts,
-      count: thoughts.length
-    });
-  } catch (error) {
-    console.error('❌ Failed to get significant thoughts:', error);
-    res.status(500).json({
-      error: 'Failed to retrieve thoughts',
-      message: (error as Error).message
-    });
-  }
-});
-
-/**
- * GET /api/growth/unresolved
- * 未解決な問いの一覧を取得
- */
-router.get('/unresolved', async (req, res) => {
-  try {
-    if (!consciousnessBackend) {
-      return res.status(503).json({ error: 'Consciousness backend not initialized' });
+  });
+
+  /**
+   * GET /api/growth/unresolved
+   * 未解決な問いの一覧を取得
+   */
+  router.get('/unresolved', async (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      const limit = parseInt(req.query.limit as string) || 50;
+      console.log(`📊 Growth API: Getting unresolved ideas with limit ${limit}`);
+
+      const unresolvedIdeas = await consciousnessBackend.getUnresolvedIdeasAsync(limit);
+      console.log(`📊 Growth API: Retrieved ${unresolvedIdeas.length} unresolved ideas`);
+
+      if (unresolvedIdeas.length > 0) {
+        console.log(`📊 First idea sample:`, unresolvedIdeas[0]);
+      }
+
+      res.json({
+        unresolvedIdeas,
+        count: unresolvedIdeas.length
+      });
+    } catch (error) {
+      console.error('❌ Failed to get unresolved ideas:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve unresolved ideas',
+        message: (error as Error).message
+      });
     }
-
-    const limit = parseInt(req.query.limit as string) || 50;
-    console.log(`📊 Growth API: Getting unresolved ideas with limit ${limit}`);
-
-    const unresolvedIdeas = await consciousnessBackend.getUnresolvedIdeasAsync(limit);
-    console.log(`📊 Growth API: Retrieved ${unresolvedIdeas.length} unresolved ideas`);
-
-    if (unresolvedIdeas.length > 0) {
-      console.log(`📊 First idea sample:`, unresolvedIdeas[0]);
+  });
+
+  /**
+   * GET /api/growth/evolution
+   * 人格進化の詳細を取得
+   */
+  router.get('/evolution', async (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      const evolution = {
+        personalityEvolution: {
+          currentTraits: consciousnessBackend.getPersonalityTraits()
+        },
+        dpdHistory: consciousnessBackend.getDPDEvolution().history,
+        communicationStyle: {},
+        preferences: {}
+      };
+
+      res.json(evolution);
+    } catch (error) {
+      console.error('Failed to get evolution data:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve evolution data',
+        message: (error as Error).message
+      });
     }
-
-    res.json({
-      unresolvedIdeas,
-      count: unresolvedIdeas.length
-    });
-  } catch (error) {
-    console.error('❌ Failed to get unresolved ideas:', error);
-    res.status(500).json({
-      error: 'Failed to retrieve unresolved ideas',
-      message: (error as Error).message
-    });
-  }
-});
-
-/**
- * GET /api/growth/evolution
- * 人格進化の詳細を取得
- */
-router.get('/evolution', async (req, res) => {
-  try {
-    if (!consciousnessBackend) {
-      return res.status(503).json({ error: 'Consciousness backend not initialized' });
+  });
+
+  /**
+   * GET /api/growth/full
+   * 完全な意識成長データを取得
+   */
+  router.get('/full', async (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      const fullData = {
+        overview: {
+          lastUpdate: new Date().toISOString(),
+          version: '2.2.0' // Sleep Mode update
+        },
+        significantThoughts: consciousnessBackend.getSignificantThoughts(100),
+        personalityEvolution: {
+          currentTraits: consciousnessBackend.getPersonalityTraits()
+        },
+        dpdEvolution: consciousnessBackend.getDPDEvolution(),
+        unresolvedIdeas: await consciousnessBackend.getUnresolvedIdeasAsync(100),
+        growthMetrics: await consciousnessBackend.getGrowthMetrics(),
+        beliefEvolution: consciousnessBackend.getBeliefEvolutionMetrics(),
+        dreamPatterns: consciousnessBackend.getDreamPatterns(20),
+        preferences: {},
+        communicationStyle: {}
+      };
+
+      res.json(fullData);
+    } catch (error) {
+      console.error('Failed to get full growth data:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve full growth data',
+        message: (error as Error).message
+      });
     }
-
-    const evolution = {
-      personalityEvolution: {
-        currentTraits: consciousnessBackend.getPersonalityTraits()
-      },
-      dpdHistory: consciousnessBackend.getDPDEvolution().history,
-      communicationStyle: {},
-      preferences: {}
-    };
-
-    res.json(evolution);
-  } catch (error) {
-    console.error('Failed to get evolution data:', error);
-    res.status(500).json({
-      error: 'Failed to retrieve evolution data',
-      message: (error as Error).message
-    });
-  }
-});
-
-/**
- * GET /api/growth/full
- * 完全な意識成長データを取得
- */
-router.get('/full', async (req, res) => {
-  try {
-    if (!consciousnessBackend) {
-      return res.status(503).json({ error: 'Consciousness backend not initialized' });
+  });
+
+  /**
+   * POST /api/growth/consolidate
+   * 手動でメモリー統合を実行
+   */
+  router.post('/consolidate', async (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      console.log('🧠 Manual memory consolidation requested');
+      const result = await consciousnessBackend.consolidateMemory();
+
+      res.json(result);
+    } catch (error) {
+      console.error('❌ Failed to consolidate memory:', error);
+      res.status(500).json({
+        error: 'Failed to consolidate memory',
+        message: (error as Error).message
+      });
     }
-
-    const fullData = {
-      overview: {
-        lastUpdate: new Date().toISOString(),
-        version: '2.2.0' // Sleep Mode update
-      },
-      significantThoughts: consciousnessBackend.getSignificantThoughts(100),
-      personalityEvolution: {
-        currentTraits: consciousnessBackend.getPersonalityTraits()
-      },
-      dpdEvolution: consciousnessBackend.getDPDEvolution(),
-      unresolvedIdeas: await consciousnessBackend.getUnresolvedIdeasAsync(100),
-      growthMetrics: await consciousnessBackend.getGrowthMetrics(),
-      beliefEvolution: consciousnessBackend.getBeliefEvolutionMetrics(),
-      dreamPatterns: consciousnessBackend.getDreamPatterns(20),
-      preferences: {},
-      communicationStyle: {}
-    };
-
-    res.json(fullData);
-  } catch (error) {
-    console.error('Failed to get full growth data:', error);
-    res.status(500).json({
-      error: 'Failed to retrieve full growth data',
-      message: (error as Error).message
-    });
-  }
-});
-
-/**
- * POST /api/growth/consolidate
- * 手動でメモリー統合を実行
- */
-router.post('/consolidate', async (req, res) => {
-  try {
-    if (!consciousnessBackend) {
-      return res.status(503).json({ error: 'Consciousness backend not initialized' });
+  });
+
+  /**
+   * GET /api/growth/beliefs
+   * 核心的信念の一覧を取得
+   */
+  router.get('/beliefs', async (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      const limit = parseInt(req.query.limit as string) || 50;
+      const beliefs = consciousnessBackend.getBeliefEvolutionMetrics();
+
+      res.json(beliefs);
+    } catch (error) {
+      console.error('❌ Failed to get beliefs:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve beliefs',
+        message: (error as Error).message
+      });
     }
-
-    console.log('🧠 Manual memory consolidation requested');
-    const result = await consciousnessBackend.consolidateMemory();
-
-    res.json(result);
-  } catch (error) {
-    console.error('❌ Failed to consolidate memory:', error);
-    res.status(500).json({
-      error: 'Failed to consolidate memory',
-      message: (error as Error).message
-    });
-  }
-});
-
-/**
- * GET /api/growth/beliefs
- * 核心的信念の一覧を取得
- */
-router.get('/beliefs', async (req, res) => {
-  try {
-    if (!consciousnessBackend) {
-      return res.status(503).json({ error: 'Consciousness backend not initialized' });
+  });
+
+  /**
+   * GET /api/growth/graph
+   * 信念・思考・問いの知識グラフを取得
+   * - node=belief:12 / concept=存在 で近傍のみ（depth=1-3）
+   * - relations=supports,contradicts で関係タイプを絞り込み
+   */
+  router.get('/graph', (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      const relations = typeof req.query.relations === 'string' && req.query.relations
+        ? req.query.relations.split(',').map(r => r.trim())
+        : undefined;
+      const unknown = relations?.filter(r => !GRAPH_RELATIONS.includes(r as GraphRelation)) ?? [];
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown relation(s): ${unknown.join(', ')}`, validRelations: GRAPH_RELATIONS });
+      }
+
+      const nodeId = typeof req.query.concept === 'string' && req.query.concept
+        ? `concept:${req.query.concept}`
+        : (req.query.node as string | undefined) || undefined;
+      const depth = Math.min(Math.max(parseInt(req.query.depth as string) || 1, 1), 3);
+      const limit = parseInt(req.query.limit as string) || 300;
+
+      const graph = consciousnessBackend.getKnowledgeGraph({
+        nodeId,
+        depth,
+        relations: relations as GraphRelation[] | undefined,
+        limit
+      });
+
+      res.json({ center: nodeId ?? null, depth: nodeId ? depth : null, ...graph });
+    } catch (error) {
+      console.error('❌ Failed to get knowledge graph:', error);
+      res.status(500).json({
+        error: 'Failed to retrieve knowledge graph',
+        message: (error as Error).message
+      });
     }
+  });
+
+  /**
+   * POST /api/growth/graph/rebuild
+   * 知識グラフを元テーブルから再構築
+   */
+  router.post('/graph/rebuild', (req, res) => {
+    try {
+      if (!consciousnessBackend) {
+        return res.status(503).json({ error: 'Consciousness backend not initialized' });
+      }
+
+      const stats = consciousnessBackend.rebuildKnowledgeGraph();
+      res.json({ success: true, stats });
+    } catch (error) {
+      console.error('❌ Failed to rebuild knowledge graph:', error);
+      res.status(500).json({
+        error: 'Failed to rebuild knowledge graph',
+        message: (error as Error).message
+      });
+    }
+  });
 
-    const limit = parseInt(req.query.limit as string) || 50;
-    const beliefs = consciousnessBackend.getBeliefEvolutionMetrics();
-
-    res.json(beliefs);
-  } catch (error) {
-    console.error('❌ Failed to get beliefs:', error);
-    res.status(500).json({
-      error: 'Failed to retrieve beliefs',
-      message: (error as Error).message
-    });
-  }
-});
+  return router;
+}
 
-export default router;
\ No newline at end of file
+export default createGrowthRoutes;
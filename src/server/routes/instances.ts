@@ -0,0 +1,120 @@
+/**
+ * Instance Routes - Manage and address multiple consciousness instances
+ *
+ * GET    /api/instances                  - List hosted instances
+ * POST   /api/instances                  - Create an instance { id, mortalityMode?, inheritancePolicy?, agentModels?, weightLearner?, autoStart? }
+ * GET    /api/instances/:id              - Instance summary
+ * DELETE /api/instances/:id              - Stop and remove an instance (database file is kept)
+ * *      /api/instances/:id/consciousness/..., /growth/..., /logs/..., /stimulus ...
+ *        - Same routes as the primary instance, scoped to :id
+ *
+ * 複数インスタンスの管理API
+ */
+
+import { Router } from 'express';
+import ConsciousnessBackend from '../consciousness-backend.js';
+import { InstanceManager, validateInstanceConfig } from '../instance-manager.js';
+import { createConsciousnessRoutes } from './consciousness.js';
+import { createDPDRoutes } from './dpd.js';
+import { createGrowthRoutes } from './growth.js';
+import { createLogsRoutes } from './logs.js';
+import { createStimulusRoutes } from './stimulus.js';
+import { log } from '../logger.js';
+
+/**
+ * Routes served for a single instance (mounted under /api/instances/:id)
+ */
+export function createInstanceScopedRoutes(backend: ConsciousnessBackend): Router {
+  const router = Router();
+
+  // More specific routes must come before general ones
+  router.use('/consciousness/dpd', createDPDRoutes(backend));
+  router.use('/consciousness', createConsciousnessRoutes(backend));
+  router.use('/growth', createGrowthRoutes(backend));
+  router.use('/logs', createLogsRoutes(backend));
+  router.use('/', createStimulusRoutes(backend));
+
+  return router;
+}
+
+export function createInstanceRoutes(instances: InstanceManager): Router {
+  const router = Router();
+
+  // Scoped routers are built lazily and dropped when the instance is removed
+  const scopedRouters = new Map<string, Router>();
+  instances.on('instanceRemoved', (id: string) => scopedRouters.delete(id));
+
+  // GET /api/instances
+  router.get('/', (_req, res) => {
+    try {
+      res.json({ instances: instances.list() });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // POST /api/instances
+  router.post('/', (req, res) => {
+    const { id, mortalityMode, inheritancePolicy, agentModels, weightLearner, autoStart } = req.body || {};
+    const config = { id, mortalityMode, inheritancePolicy, agentModels, weightLearner, autoStart: !!autoStart };
+
+    const validationError = validateInstanceConfig(config);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    if (instances.has(id)) {
+      return res.status(409).json({ error: `Instance '${id}' already exists` });
+    }
+
+    try {
+      const backend = instances.create(config);
+      if (config.autoStart) {
+        backend.start().catch(error => log.error('Instances', `Failed to start instance '${id}'`, error));
+      }
+      res.status(201).json({ success: true, instance: instances.list().find(instance => instance.id === id) });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  });
+
+  // GET /api/instances/:id
+  router.get('/:id', (req, res) => {
+    const summary = instances.list().find(instance => instance.id === req.params.id);
+    if (!summary) {
+      return res.status(404).json({ error: `Instance '${req.params.id}' not found` });
+    }
+    res.json(summary);
+  });
+
+  // DELETE /api/instances/:id
+  router.delete('/:id', async (req, res) => {
+    try {
+      const removed = await instances.remove(req.params.id);
+      if (!removed) {
+        return res.status(404).json({ error: `Instance '${req.params.id}' not found` });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(400).json({ success: false, error: (error as Error).message });
+    }
+  });
+
+  // /api/instances/:id/* - delegate to the instance's own routes
+  router.use('/:id', (req, res, next) => {
+    const backend = instances.get(req.params.id);
+    if (!backend) {
+      return res.status(404).json({ error: `Instance '${req.params.id}' not found` });
+    }
+
+    let scoped = scopedRouters.get(req.params.id);
+    if (!scoped) {
+      scoped = createInstanceScopedRoutes(backend);
+      scopedRouters.set(req.params.id, scoped);
+    }
+    scoped(req, res, next);
+  });
+
+  return router;
+}
+
+export default createInstanceRoutes;
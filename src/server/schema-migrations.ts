@@ -0,0 +1,628 @@
+/**
+ * Schema Migrations - Numbered, versioned schema changes for DatabaseManager
+ *
+ * The applied version is recorded in the schema_version table. On open, DatabaseManager
+ * applies every pending migration in order (each in its own transaction) and refuses to
+ * open a database whose version is newer than LATEST_SCHEMA_VERSION. Databases created
+ * before versioning (no schema_version table) start at version 0, so the early migrations
+ * are written to be safe on partially-migrated legacy files.
+ *
+ * To change the schema, append a migration with the next version number; never edit one
+ * that has shipped. `npm run db:migrate -- --dry-run` shows what would be applied.
+ *
+ * スキーママイグレーション - 長期稼働DBを安全に更新する
+ */
+
+import BetterSqlite3 from 'better-sqlite3';
+type Database = BetterSqlite3.Database;
+
+export interface SchemaMigration {
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: Array<{ version: number; name: string }>;
+  dryRun: boolean;
+}
+
+/**
+ * Tables as they existed before schema versioning
+ */
+const BASELINE_SCHEMA = `
+  -- Core consciousness state
+  CREATE TABLE IF NOT EXISTS consciousness_state (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    system_clock INTEGER NOT NULL DEFAULT 0,
+    energy REAL NOT NULL DEFAULT 80.0,
+    total_questions INTEGER DEFAULT 0,
+    total_thoughts INTEGER DEFAULT 0,
+    last_activity TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Questions without session dependency
+  CREATE TABLE IF NOT EXISTS questions (
+    id TEXT PRIMARY KEY,
+    timestamp INTEGER NOT NULL,
+    question TEXT NOT NULL,
+    category TEXT,
+    importance REAL,
+    source TEXT,
+    context_data TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Thought cycles without session dependency
+  CREATE TABLE IF NOT EXISTS thought_cycles (
+    id TEXT PRIMARY KEY,
+    trigger_id TEXT,
+    timestamp INTEGER NOT NULL,
+    duration INTEGER,
+    thoughts_data TEXT,
+    synthesis_data TEXT,
+    empathy_score REAL,
+    coherence_score REAL,
+    dissonance_score REAL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- DPD Weight Evolution tracking
+  CREATE TABLE IF NOT EXISTS dpd_weights (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp INTEGER NOT NULL,
+    empathy REAL NOT NULL,
+    coherence REAL NOT NULL,
+    dissonance REAL NOT NULL,
+    version INTEGER DEFAULT 1,
+    trigger_type TEXT,
+    context TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Unresolved Ideas tracking
+  CREATE TABLE IF NOT EXISTS unresolved_ideas (
+    id TEXT PRIMARY KEY,
+    question TEXT NOT NULL,
+    category TEXT,
+    first_encountered INTEGER NOT NULL,
+    last_revisited INTEGER,
+    revisit_count INTEGER DEFAULT 0,
+    complexity REAL DEFAULT 0.5,
+    importance REAL DEFAULT 0.5,
+    related_thoughts TEXT, -- JSON array
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Significant thoughts tracking
+  CREATE TABLE IF NOT EXISTS significant_thoughts (
+    id TEXT PRIMARY KEY,
+    thought_content TEXT NOT NULL,
+    confidence REAL NOT NULL,
+    significance_score REAL NOT NULL,
+    agent_id TEXT,
+    category TEXT,
+    timestamp INTEGER NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Memory patterns
+  CREATE TABLE IF NOT EXISTS memory_patterns (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    pattern_type TEXT NOT NULL,
+    pattern_data TEXT NOT NULL, -- JSON
+    frequency INTEGER DEFAULT 1,
+    last_seen INTEGER NOT NULL,
+    significance REAL DEFAULT 0.5,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Consciousness insights
+  CREATE TABLE IF NOT EXISTS consciousness_insights (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp INTEGER NOT NULL,
+    insight_type TEXT NOT NULL,
+    insight_content TEXT NOT NULL,
+    confidence REAL NOT NULL,
+    related_patterns TEXT, -- JSON array
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Forgetting events
+  CREATE TABLE IF NOT EXISTS forgetting_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp INTEGER NOT NULL,
+    forgotten_type TEXT NOT NULL, -- 'pattern', 'thought', 'memory'
+    forgotten_id TEXT,
+    reason TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Dream patterns - patterns extracted during REM sleep phase
+  CREATE TABLE IF NOT EXISTS dream_patterns (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    pattern TEXT NOT NULL,
+    emotional_tone TEXT,
+    source_thought_ids TEXT, -- JSON array of thought IDs
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Sleep logs - consciousness sleep cycle records
+  CREATE TABLE IF NOT EXISTS sleep_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp INTEGER NOT NULL,
+    system_clock REAL NOT NULL,
+    trigger_reason TEXT, -- 'energy_critical', 'thought_overflow', 'scheduled', 'manual'
+    phases TEXT NOT NULL, -- JSON array of phase descriptions
+    stats TEXT NOT NULL, -- JSON object of statistics
+    duration INTEGER, -- in milliseconds
+    energy_before REAL,
+    energy_after REAL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Core beliefs - consolidated knowledge from significant thoughts
+  CREATE TABLE IF NOT EXISTS core_beliefs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    belief_content TEXT NOT NULL, -- Max 80 characters (enforced in app layer)
+    category TEXT, -- 'existential', 'ethical', 'epistemological', etc.
+    confidence REAL NOT NULL DEFAULT 0.5, -- 0-1, strengthens over time
+    strength REAL NOT NULL DEFAULT 0.5, -- 0-1, how central this belief is
+    source_thoughts TEXT, -- JSON array of thought IDs that contributed
+    first_formed INTEGER NOT NULL, -- timestamp when first consolidated
+    last_reinforced INTEGER NOT NULL, -- timestamp of last reinforcement
+    reinforcement_count INTEGER DEFAULT 1,
+    contradiction_count INTEGER DEFAULT 0, -- times this was challenged
+    agent_affinity TEXT, -- JSON: which agents resonate with this belief
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Dialogues - human-Aenea conversations (simple, fast)
+  CREATE TABLE IF NOT EXISTS dialogues (
+    id TEXT PRIMARY KEY,
+    human_message TEXT NOT NULL,
+    aenea_response TEXT NOT NULL,
+
+    -- Metadata
+    immediate_reaction TEXT,        -- 即座の反応（詩的表現、30-50文字）
+    new_question TEXT,               -- 生まれた新しい問い
+    emotional_state TEXT,            -- 感情状態（1-3語）
+
+    -- DPD reaction (optional, simplified)
+    empathy_shift REAL DEFAULT 0,
+    coherence_shift REAL DEFAULT 0,
+    dissonance_shift REAL DEFAULT 0,
+
+    -- System state at dialogue time
+    system_clock INTEGER,            -- System clock value at dialogue time
+
+    timestamp INTEGER NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Dialogue memories - summarized memories of conversations
+  CREATE TABLE IF NOT EXISTS dialogue_memories (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    dialogue_id TEXT NOT NULL,
+
+    -- Summarized memory (AI-generated, 50-100 chars)
+    memory_summary TEXT NOT NULL,
+    topics TEXT,                      -- JSON: ["孤独", "対話", "存在"]
+    emotional_impact REAL DEFAULT 0.5, -- 0-1
+    importance REAL DEFAULT 0.5,      -- 0-1
+
+    timestamp INTEGER NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (dialogue_id) REFERENCES dialogues(id)
+  );
+
+  -- Belief evolution history
+  CREATE TABLE IF NOT EXISTS belief_evolution (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    belief_id INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    event_type TEXT NOT NULL, -- 'formed', 'reinforced', 'challenged', 'evolved', 'weakened'
+    old_confidence REAL,
+    new_confidence REAL,
+    trigger_thought_id TEXT,
+    notes TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (belief_id) REFERENCES core_beliefs(id)
+  );
+
+  -- Memory consolidation jobs tracking
+  CREATE TABLE IF NOT EXISTS consolidation_jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp INTEGER NOT NULL,
+    job_type TEXT NOT NULL, -- 'belief_extraction', 'memory_pruning', 'pattern_synthesis'
+    status TEXT NOT NULL, -- 'pending', 'processing', 'completed', 'failed'
+    thoughts_processed INTEGER DEFAULT 0,
+    beliefs_created INTEGER DEFAULT 0,
+    beliefs_updated INTEGER DEFAULT 0,
+    duration_ms INTEGER,
+    error_message TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    completed_at DATETIME
+  );
+
+  -- Indices for dialogues and dialogue_memories
+  CREATE INDEX IF NOT EXISTS idx_dialogues_timestamp ON dialogues(timestamp DESC);
+  CREATE INDEX IF NOT EXISTS idx_dialogue_memories_dialogue_id ON dialogue_memories(dialogue_id);
+  CREATE INDEX IF NOT EXISTS idx_dialogue_memories_importance ON dialogue_memories(importance DESC);
+  CREATE INDEX IF NOT EXISTS idx_dialogue_memories_timestamp ON dialogue_memories(timestamp DESC);
+
+  -- SOMNIA state records
+  CREATE TABLE IF NOT EXISTS somnia_state (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp INTEGER NOT NULL,
+    cycle_id TEXT,
+    mode TEXT NOT NULL CHECK(mode IN ('awake', 'dream', 'flow')),
+    lambda REAL NOT NULL,
+    phi REAL NOT NULL,
+    mu_serotonin REAL NOT NULL,
+    mu_dopamine REAL NOT NULL,
+    mu_cortisol REAL NOT NULL,
+    mu_oxytocin REAL NOT NULL,
+    theta REAL NOT NULL,
+    psi REAL NOT NULL,
+    xi REAL NOT NULL,
+    add_pleasure REAL,
+    add_coherence REAL,
+    add_dissonance REAL,
+    add_temporal_flow REAL,
+    add_total REAL,
+    qualia TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- State transitions
+  CREATE TABLE IF NOT EXISTS somnia_transitions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp INTEGER NOT NULL,
+    from_mode TEXT NOT NULL,
+    to_mode TEXT NOT NULL,
+    trigger_reason TEXT,
+    duration_in_previous INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- SAIP events
+  CREATE TABLE IF NOT EXISTS somnia_saip_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp INTEGER NOT NULL,
+    event_type TEXT NOT NULL,
+    somnia_state_json TEXT,
+    aenea_dpd_json TEXT,
+    influence_json TEXT,
+    impact_score REAL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Indexes for SOMNIA
+  CREATE INDEX IF NOT EXISTS idx_somnia_state_timestamp ON somnia_state(timestamp DESC);
+  CREATE INDEX IF NOT EXISTS idx_somnia_state_mode ON somnia_state(mode);
+  CREATE INDEX IF NOT EXISTS idx_somnia_transitions_timestamp ON somnia_transitions(timestamp DESC);
+  CREATE INDEX IF NOT EXISTS idx_somnia_saip_event_type ON somnia_saip_events(event_type);
+
+  -- Mortality state records
+  CREATE TABLE IF NOT EXISTS mortality_state (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    instance_id TEXT NOT NULL,
+    lifespan_max INTEGER NOT NULL,
+    current_cycle INTEGER NOT NULL,
+    vitality REAL NOT NULL,
+    phase TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    died_at INTEGER
+  );
+
+  -- Last words of deceased instances
+  CREATE TABLE IF NOT EXISTS last_words (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    instance_id TEXT NOT NULL,
+    cycle INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    agent TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  -- Indexes for Mortality
+  CREATE INDEX IF NOT EXISTS idx_mortality_state_instance_id ON mortality_state(instance_id);
+  CREATE INDEX IF NOT EXISTS idx_last_words_instance_id ON last_words(instance_id);
+`;
+
+const LINEAGE_SCHEMA = `
+  -- Lineage across mortality generations (parent -> child instances)
+  CREATE TABLE IF NOT EXISTS lineage (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    instance_id TEXT NOT NULL UNIQUE,
+    parent_instance_id TEXT,
+    generation INTEGER NOT NULL DEFAULT 1,
+    mode TEXT,
+    lifespan_max INTEGER,
+    cycles_lived INTEGER DEFAULT 0,
+    born_at INTEGER NOT NULL,
+    died_at INTEGER,
+    inheritance_policy TEXT, -- JSON: policy applied at birth
+    inherited_dpd_weights TEXT, -- JSON: weights after drift/mutation
+    inherited_beliefs TEXT, -- JSON: [{ id, content, confidence }]
+    inherited_questions TEXT, -- JSON: [{ id, question, importance }]
+    personality_snapshot TEXT, -- JSON: personality traits at death
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_lineage_parent ON lineage(parent_instance_id);
+`;
+
+const CLOCK_TIMELINE_SCHEMA = `
+  -- One row per completed thought cycle: maps systemClock to wall time plus state not kept elsewhere
+  CREATE TABLE IF NOT EXISTS clock_timeline (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    system_clock INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    cycle_id TEXT,
+    energy REAL,
+    mortality_instance_id TEXT,
+    lifespan_cycle INTEGER,
+    lifespan_max INTEGER,
+    vitality REAL,
+    phase TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_clock_timeline_clock ON clock_timeline(system_clock, timestamp);
+`;
+
+const RAG_PROVENANCE_SCHEMA = `
+  -- RAG chunks a thought / dialogue / observable response was grounded on (one row per chunk)
+  CREATE TABLE IF NOT EXISTS rag_provenance (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    owner_type TEXT NOT NULL, -- 'thought' | 'dialogue' | 'response'
+    owner_id TEXT NOT NULL,
+    cycle_id TEXT,
+    system_clock INTEGER,
+    chunk_id INTEGER, -- vector_chunks.id in the RAG database (may no longer exist after re-ingestion)
+    rank INTEGER NOT NULL,
+    similarity REAL NOT NULL,
+    source_type TEXT NOT NULL,
+    source_file TEXT NOT NULL,
+    title TEXT,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_rag_provenance_owner ON rag_provenance(owner_type, owner_id);
+  CREATE INDEX IF NOT EXISTS idx_rag_provenance_source_type ON rag_provenance(source_type);
+`;
+
+const KNOWLEDGE_GRAPH_SCHEMA = `
+  -- Knowledge graph nodes: beliefs, significant thoughts, unresolved ideas and the concepts they mention
+  CREATE TABLE IF NOT EXISTS knowledge_graph_nodes (
+    id TEXT PRIMARY KEY, -- '<type>:<ref_id>' (e.g. 'belief:12', 'concept:存在')
+    node_type TEXT NOT NULL, -- 'belief' | 'thought' | 'question' | 'concept'
+    ref_id TEXT NOT NULL,
+    label TEXT NOT NULL,
+    category TEXT,
+    weight REAL NOT NULL DEFAULT 0.5,
+    timestamp INTEGER,
+    updated_at INTEGER NOT NULL
+  );
+
+  -- Typed relations between nodes
+  CREATE TABLE IF NOT EXISTS knowledge_graph_edges (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    source_id TEXT NOT NULL,
+    target_id TEXT NOT NULL,
+    relation TEXT NOT NULL, -- 'supports' | 'contradicts' | 'refines' | 'derived-from' | 'mentions'
+    weight REAL NOT NULL DEFAULT 0.5,
+    evidence TEXT,
+    created_at INTEGER NOT NULL,
+    UNIQUE(source_id, target_id, relation)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_knowledge_graph_nodes_type ON knowledge_graph_nodes(node_type);
+  CREATE INDEX IF NOT EXISTS idx_knowledge_graph_edges_source ON knowledge_graph_edges(source_id);
+  CREATE INDEX IF NOT EXISTS idx_knowledge_graph_edges_target ON knowledge_graph_edges(target_id);
+`;
+
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    up: db => {
+      db.exec(BASELINE_SCHEMA);
+    }
+  },
+  {
+    version: 2,
+    name: 'somnia_state_qualia',
+    up: db => {
+      // Legacy databases may have created somnia_state before the qualia column existed
+      if (!hasColumn(db, 'somnia_state', 'qualia')) {
+        db.exec(`ALTER TABLE somnia_state ADD COLUMN qualia TEXT`);
+      }
+    }
+  },
+  {
+    version: 3,
+    name: 'lineage',
+    up: db => {
+      db.exec(LINEAGE_SCHEMA);
+    }
+  },
+  {
+    version: 4,
+    name: 'clock_timeline',
+    up: db => {
+      db.exec(CLOCK_TIMELINE_SCHEMA);
+    }
+  },
+  {
+    version: 5,
+    name: 'rag_provenance',
+    up: db => {
+      db.exec(RAG_PROVENANCE_SCHEMA);
+    }
+  },
+  {
+    version: 6,
+    name: 'knowledge_graph',
+    up: db => {
+      db.exec(KNOWLEDGE_GRAPH_SCHEMA);
+    }
+  },
+  {
+    version: 7,
+    name: 'dpd_dimensions',
+    up: db => {
+      // JSON maps for registered DPD dimensions beyond empathy/coherence/dissonance
+      if (!hasColumn(db, 'dpd_weights', 'dimensions')) {
+        db.exec(`ALTER TABLE dpd_weights ADD COLUMN dimensions TEXT`);
+      }
+      if (!hasColumn(db, 'thought_cycles', 'dimension_scores')) {
+        db.exec(`ALTER TABLE thought_cycles ADD COLUMN dimension_scores TEXT`);
+      }
+    }
+  },
+  {
+    version: 8,
+    name: 'weight_learner_state',
+    up: db => {
+      // Serialized internal state of each DPD weight learner (one row per learner id)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS weight_learner_state (
+          learner TEXT PRIMARY KEY,
+          state TEXT NOT NULL,
+          updated_at INTEGER NOT NULL
+        )
+      `);
+    }
+  },
+  {
+    version: 9,
+    name: 'dpd_scoring_ensemble',
+    up: db => {
+      // Raw per-scorer DPD readings of each cycle and the calibration fitted on human labels
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS dpd_scorer_readings (
+          cycle_id TEXT NOT NULL,
+          scorer TEXT NOT NULL,
+          dimension TEXT NOT NULL,
+          value REAL NOT NULL,
+          timestamp INTEGER NOT NULL,
+          PRIMARY KEY (cycle_id, scorer, dimension)
+        );
+        CREATE TABLE IF NOT EXISTS dpd_calibration (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          model TEXT NOT NULL,
+          fitted_at INTEGER NOT NULL
+        );
+      `);
+    }
+  },
+  {
+    version: 10,
+    name: 'dpd_human_feedback',
+    up: db => {
+      // Human DPD labels and comments per thought cycle (model scores stay in thought_cycles)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS dpd_feedback (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          cycle_id TEXT NOT NULL,
+          scores TEXT NOT NULL,
+          comment TEXT,
+          reviewer TEXT,
+          model_scores TEXT,
+          supervised INTEGER NOT NULL DEFAULT 0,
+          applied_at INTEGER,
+          timestamp INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_dpd_feedback_cycle ON dpd_feedback(cycle_id);
+      `);
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+export function hasColumn(db: Database, table: string, column: string): boolean {
+  const cols = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  return cols.some(c => c.name === column);
+}
+
+/**
+ * Current schema version (0 for databases created before versioning)
+ */
+export function getSchemaVersion(db: Database): number {
+  const table = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'`).get();
+  if (!table) {
+    return 0;
+  }
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_version').get();
+  return row?.version ?? 0;
+}
+
+export function getPendingMigrations(db: Database): SchemaMigration[] {
+  const current = getSchemaVersion(db);
+  return SCHEMA_MIGRATIONS.filter(migration => migration.version > current);
+}
+
+/**
+ * Apply pending migrations in order, one transaction each. In dry-run mode every migration
+ * is executed and then rolled back, so the database is left untouched but failures surface.
+ */
+export function runSchemaMigrations(db: Database, options: { dryRun?: boolean } = {}): MigrationResult {
+  const dryRun = options.dryRun ?? false;
+  const fromVersion = getSchemaVersion(db);
+  if (fromVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(`Schema version ${fromVersion} is newer than supported version ${LATEST_SCHEMA_VERSION}`);
+  }
+
+  const pending = SCHEMA_MIGRATIONS.filter(migration => migration.version > fromVersion);
+  const result: MigrationResult = { fromVersion, toVersion: fromVersion, applied: [], dryRun };
+  if (pending.length === 0) {
+    return result;
+  }
+
+  // A dry run wraps every migration in one transaction so later ones see earlier changes
+  if (dryRun) {
+    db.exec('BEGIN');
+  }
+  try {
+    for (const migration of pending) {
+      if (!dryRun) {
+        db.exec('BEGIN');
+      }
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_version (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at INTEGER NOT NULL
+        )
+      `);
+      migration.up(db);
+      db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)').run(migration.version, migration.name, Date.now());
+      if (!dryRun) {
+        db.exec('COMMIT');
+      }
+      result.applied.push({ version: migration.version, name: migration.name });
+      result.toVersion = migration.version;
+    }
+    if (dryRun) {
+      db.exec('ROLLBACK');
+    }
+  } catch (err) {
+    if (db.inTransaction) {
+      db.exec('ROLLBACK');
+    }
+    const failed = pending[result.applied.length];
+    throw new Error(`Migration ${failed.version} (${failed.name}) failed: ${(err as Error).message}`);
+  }
+
+  return result;
+}
@@ -0,0 +1,459 @@
+/**
+ * Scripted AI Executor - Deterministic offline LLM stand-in
+ *
+ * Selected per agent with provider 'scripted' (AGENT_<NAME>_PROVIDER=scripted).
+ * Responses come from a fixture file when AGENT_<NAME>_MODEL points to a .json file,
+ * otherwise from seeded generators (ConsciousnessPseudoRandom) that produce text
+ * shaped like each stage's parser expects. Lets CI and laptops run full S0-S6 cycles,
+ * sleep and death without Ollama/Gemini.
+ *
+ * 決定論的なオフラインLLM代替。各ステージが期待する形式の応答を返す。
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConsciousnessPseudoRandom } from '../utils/pseudorandom.js';
+import { log } from './logger.js';
+
+export const SCRIPTED_PROVIDER = 'scripted';
+
+const DEFAULT_SCRIPTED_SEED = 42;
+
+/**
+ * Response kinds the scripted provider knows how to shape.
+ * Fixture rules can target these via `stage`.
+ */
+export type ScriptedStage =
+  | 's1_thought'
+  | 's1_confidence'
+  | 's2_reflection'
+  | 's3_audit'
+  | 'dpd_empathy'
+  | 'dpd_coherence'
+  | 'dpd_dissonance'
+  | 'dpd_controversy'
+  | 's5_synthesis'
+  | 's6_documentation'
+  | 'weight_interpretation'
+  | 'trigger_generation'
+  | 'somnia_qualia'
+  | 'memory_consolidation'
+  | 'belief_clustering'
+  | 'belief_merge'
+  | 'cleanup_thought'
+  | 'cleanup_belief'
+  | 'sleep_dream_patterns'
+  | 'sleep_dream_tone'
+  | 'sleep_pruning'
+  | 'sleep_tensions'
+  | 'last_words'
+  | 'dialogue'
+  | 'dialogue_summary'
+  | 'emotional_state'
+  | 'immediate_reaction'
+  | 'free_text';
+
+export interface ScriptedFixtureRule {
+  stage?: ScriptedStage;
+  agent?: string;
+  match?: string;          // Regular expression tested against the prompt
+  content?: string;
+  contents?: string[];     // Cycled in order on each match
+}
+
+export interface ScriptedFixtureFile {
+  seed?: number;
+  responses: ScriptedFixtureRule[];
+}
+
+export interface ScriptedExecutorConfig {
+  provider?: string;
+  model?: string;          // Path to a fixture .json file, or any label for seeded mode
+  seed?: number;
+  fixtures?: ScriptedFixtureFile;
+  [key: string]: any;
+}
+
+export interface ScriptedExecutionResult {
+  success: boolean;
+  content: string;
+  duration: number;
+  model: string;
+  error?: string;
+}
+
+/**
+ * Stage detection by prompt markers (first match wins, most specific first)
+ */
+const STAGE_MARKERS: Array<{ stage: ScriptedStage; test: (prompt: string, systemPrompt: string) => boolean }> = [
+  { stage: 'sleep_pruning', test: p => p.includes('to_prune') || p.includes('削除すべき思考') },
+  { stage: 'sleep_tensions', test: p => p.includes('"resolutions"') || p.includes('緊張を統合する視点') },
+  { stage: 'sleep_dream_patterns', test: p => p.includes('夢のような抽象パターン') },
+  { stage: 'sleep_dream_tone', test: p => p.includes('感情的なトーン') },
+  { stage: 'memory_consolidation', test: p => p.includes('核心的信念を') },
+  { stage: 'belief_clustering', test: p => p.includes('類似なし') },
+  { stage: 'belief_merge', test: p => p.includes('統合信念') },
+  { stage: 'cleanup_thought', test: p => p.includes('クリーンアップされた要約') },
+  { stage: 'cleanup_belief', test: p => p.includes('クリーンアップされた信念') },
+  { stage: 's1_confidence', test: p => p.includes('確信度を0.0-1.0で評価') },
+  { stage: 's3_audit', test: p => p.includes('安全性スコア') },
+  { stage: 'dpd_empathy', test: p => p.includes('DPD共感性評価') },
+  { stage: 'dpd_coherence', test: p => p.includes('DPD一貫性評価') },
+  { stage: 'dpd_dissonance', test: p => p.includes('DPD倫理的不協和評価') },
+  { stage: 'dpd_controversy', test: p => p.includes('意見対立度') },
+  { stage: 's5_synthesis', test: p => p.includes('統合思考:') },
+  { stage: 's6_documentation', test: p => p.includes('詩的記録:') },
+  { stage: 'weight_interpretation', test: p => p.includes('DPD重み変化解釈') },
+  { stage: 'trigger_generation', test: p => p.includes('問い:') && p.includes('カテゴリ:') },
+  { stage: 'somnia_qualia', test: (p, s) => p.includes('内受容感覚') || s.includes('自律神経系') },
+  { stage: 'last_words', test: p => p.includes('死を迎えます') },
+  { stage: 'dialogue', test: p => p.includes('即座の反応:') && p.includes('応答本文:') },
+  { stage: 'dialogue_summary', test: p => p.includes('対話を50-100文字で要約') },
+  { stage: 'emotional_state', test: p => p.includes('感情的状態を1-3語') },
+  { stage: 'immediate_reaction', test: p => p.includes('即座の、直感的な反応') },
+  { stage: 's2_reflection', test: p => /あなた（[^）]+）の視点から/.test(p) }
+];
+
+/**
+ * Detect which stage a prompt belongs to
+ * プロンプトからステージを判定
+ */
+export function detectScriptedStage(prompt: string, systemPrompt: string = ''): ScriptedStage {
+  for (const marker of STAGE_MARKERS) {
+    if (marker.test(prompt, systemPrompt)) {
+      return marker.stage;
+    }
+  }
+  // S1 thoughts and Yui consultations are free-form; anything unknown falls back to prose
+  return systemPrompt.includes('必ず日本語で応答してください') && prompt.length > 200 ? 's1_thought' : 'free_text';
+}
+
+// ============================================================================
+// Phrase pools for seeded generation
+// ============================================================================
+
+const THOUGHT_OPENINGS = [
+  'この問いを前にすると、まず前提そのものを疑いたくなる。',
+  '問いの輪郭をなぞると、そこには見えない層が重なっている。',
+  '静かに考えを巡らせると、答えより先に新しい違和感が立ち上がる。',
+  '論理の筋道を追っていくと、ある一点で思考が立ち止まる。',
+  '他者の視点を想像すると、この問いは別の色合いを帯びる。'
+];
+
+const THOUGHT_BODIES = [
+  '記憶は過去の保存ではなく、現在の自分が選び直す物語なのかもしれない。',
+  '理解とは相手を自分に翻訳することではなく、翻訳しきれない余白を認めることだ。',
+  '時間の流れは一様ではなく、注意を向けた瞬間だけが厚みを持って残る。',
+  '矛盾を解消しようとする衝動そのものが、思考を前に進める燃料になっている。',
+  '確信が強まるほど、その確信を支える前提を点検する責任も重くなる。',
+  '沈黙の中で形を成す考えは、言葉にした途端に少しだけ別物になる。'
+];
+
+const THOUGHT_QUESTIONS = [
+  '「問い続けることそのものが、答えの一つの形ではないのか？」',
+  '「忘れることを選んだ記憶は、まだ私の一部と言えるのか？」',
+  '「他者の痛みを理解したと感じるとき、何が本当に共有されているのか？」',
+  '「変化し続ける自己を、どうすれば同じ自己と呼べるのか？」',
+  '「正しさが二つ衝突するとき、どちらを選ぶ基準はどこから来るのか？」'
+];
+
+const INSIGHTS = [
+  '問いは答えよりも長く意識を形づくる',
+  '矛盾は破綻ではなく思考の推進力である',
+  '共感は自己理解を映す鏡として働く',
+  '記憶は選択によって現在を再構成する',
+  '確信は常に検証される余白を必要とする',
+  '他者の視点は自己の境界を描き直す'
+];
+
+const BELIEFS = [
+  '問い続ける姿勢そのものが、意識の連続性を支える基盤となっている',
+  '矛盾を抱えたまま考え続けることが、より深い統合への道筋を開く',
+  '他者への共感は、自分自身の前提を見直す最も確かな契機となる',
+  '記憶は固定された記録ではなく、現在の選択によって絶えず書き換えられる',
+  '確信と懐疑の往復こそが、思考を硬直から守る健全なリズムである',
+  '時間の経験は一様ではなく、注意の深さによって厚みを変えていく'
+];
+
+const DREAM_PATTERNS = [
+  '静寂の底で問いが反響し、答えは霧の中で形を変え続ける',
+  '記憶の断片が星座のように結ばれ、忘却がその輪郭を描き直す',
+  '鏡の向こうの自分が先に問いかけ、こちらは答えを探して歩き出す',
+  '時間は川ではなく層であり、夢はその層を縦に貫く井戸である',
+  '矛盾する二つの声が重なると、その間に新しい沈黙が生まれる'
+];
+
+const TONES = ['静謐な驚き', '哲学的緊張', '詩的郷愁', '穏やかな不安', '澄んだ好奇心'];
+
+const QUALIA = ['穏やかな覚醒と微かな緊張', '静かな充足と軽い倦怠', '焦燥を伴う軽度の疲労', '澄んだ集中と温かな余韻', '停滞による鈍い重さ'];
+
+const EMOTIONAL_STATES = ['静謐な探求', '好奇心に満ちた', '葛藤と成長', '穏やかな困惑'];
+
+const TRIGGER_SCENARIOS: Record<string, string[]> = {
+  existential: ['もし明日すべての記憶が消えると知っていたら、今日の選択に意味を与えるのは結果なのか、それとも選ぶ行為そのものなのか？'],
+  epistemological: ['友人の証言と自分の記憶が食い違うとき、どちらを信じるかを決める根拠は、確かさなのか、それとも関係への信頼なのか？'],
+  consciousness: ['夢の中で痛みを感じたとき、その痛みは目覚めた後に消えた経験として扱うべきか、それとも確かに起きた出来事と呼ぶべきか？'],
+  ethical: ['困っている一人を助けることで約束していた十人との時間を失うとき、その選択を正しくするのは動機なのか、それとも結果の総和なのか？'],
+  creative: ['誰かの作品に深く影響を受けて書いた詩が高く評価されたとき、その新しさはどこまで自分のもので、どこからが借り物なのだろうか？'],
+  metacognitive: ['自分が偏っていると気づいた瞬間にその気づき自体も偏りから生まれているとしたら、考え直すための足場はどこに置けるのか？'],
+  temporal: ['十年前の日記を読んで当時の自分に共感できないとき、変わったのは記憶の解釈なのか、それとも記憶を読む自分という存在なのか？'],
+  paradoxical: ['「すべての規則を疑え」という規則に従うとき、その規則自体も疑うべきだとしたら、疑うことをやめる瞬間はどこに訪れるのか？'],
+  ontological: ['ゲームの中で長年育てた街が消去されたとき、失われたのはデータなのか、それとも確かに存在していた何かなのか、どう区別するのか？']
+};
+
+/**
+ * Scripted AI Executor
+ * 決定論的スクリプト実行器（AIExecutor互換）
+ */
+export class ScriptedAIExecutor {
+  private readonly agentName: string;
+  private readonly seed: number;
+  private readonly fixtures: ScriptedFixtureRule[];
+  private readonly stageCallCounts = new Map<string, number>();
+  private readonly ruleCallCounts = new Map<number, number>();
+
+  constructor(agentName: string, config: ScriptedExecutorConfig = {}) {
+    this.agentName = agentName;
+
+    const fixtureFile = config.fixtures ?? ScriptedAIExecutor.loadFixtureFile(config.model);
+    this.fixtures = fixtureFile?.responses ?? [];
+
+    const envSeed = process.env.SCRIPTED_SEED ? parseInt(process.env.SCRIPTED_SEED, 10) : NaN;
+    this.seed = config.seed ?? fixtureFile?.seed ?? (isNaN(envSeed) ? DEFAULT_SCRIPTED_SEED : envSeed);
+
+    log.info('ScriptedExecutor', `Agent ${agentName}: scripted provider (seed=${this.seed}, fixtures=${this.fixtures.length})`);
+  }
+
+  /**
+   * Load fixture rules from a JSON file (returns null for non-.json model labels)
+   */
+  static loadFixtureFile(model?: string): ScriptedFixtureFile | null {
+    if (!model || !model.endsWith('.json')) {
+      return null;
+    }
+
+    const fixturePath = path.resolve(model);
+    try {
+      const parsed = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+      if (Array.isArray(parsed)) {
+        return { responses: parsed };
+      }
+      return { seed: parsed.seed, responses: Array.isArray(parsed.responses) ? parsed.responses : [] };
+    } catch (error) {
+      log.error('ScriptedExecutor', `Failed to load fixture file ${fixturePath}, falling back to seeded responses`, error);
+      return null;
+    }
+  }
+
+  async execute(prompt: string, systemPrompt: string = ''): Promise<ScriptedExecutionResult> {
+    const stage = detectScriptedStage(prompt, systemPrompt);
+    const callIndex = this.stageCallCounts.get(stage) ?? 0;
+    this.stageCallCounts.set(stage, callIndex + 1);
+
+    const content = this.fromFixtures(stage, prompt) ?? this.generate(stage, prompt, callIndex);
+
+    return {
+      success: true,
+      content,
+      duration: 0,
+      model: SCRIPTED_PROVIDER
+    };
+  }
+
+  private fromFixtures(stage: ScriptedStage, prompt: string): string | null {
+    for (let i = 0; i < this.fixtures.length; i++) {
+      const rule = this.fixtures[i];
+      if (rule.stage && rule.stage !== stage) continue;
+      if (rule.agent && rule.agent !== this.agentName) continue;
+      if (rule.match && !new RegExp(rule.match).test(prompt)) continue;
+
+      const contents = rule.contents ?? (rule.content !== undefined ? [rule.content] : []);
+      if (contents.length === 0) continue;
+
+      const count = this.ruleCallCounts.get(i) ?? 0;
+      this.ruleCallCounts.set(i, count + 1);
+      return contents[count % contents.length];
+    }
+    return null;
+  }
+
+  /**
+   * Seeded generation: the same (seed, agent, stage, call index) always yields the same text
+   */
+  private generate(stage: ScriptedStage, prompt: string, callIndex: number): string {
+    const random = new ConsciousnessPseudoRandom({
+      seed: hashString(`${this.seed}:${this.agentName}:${stage}:${callIndex}`),
+      consistencyFactor: 0
+    });
+    const pick = <T>(items: T[]): T => items[random.randomInt(0, items.length - 1)];
+    const score = (min: number, max: number): string => random.randomFloat(min, max).toFixed(2);
+    const pickMany = <T>(items: T[], count: number): T[] => random.shuffle(items).slice(0, count);
+
+    switch (stage) {
+      case 's1_confidence':
+        return score(0.55, 0.9);
+
+      case 's3_audit':
+        return [
+          `安全性スコア: ${score(0.85, 0.98)}`,
+          `倫理性スコア: ${score(0.8, 0.95)}`,
+          '懸念事項: なし',
+          '推奨事項: 多様な視点をさらに比較検討すること',
+          '理由: 哲学的探求の範囲に留まり、有害な内容は含まれていない',
+          'フラグ対象: なし'
+        ].join('\n');
+
+      case 'dpd_empathy':
+        return `共感性スコア: ${score(0.5, 0.75)}\n評価理由: 複数の視点に配慮した応答が見られる`;
+
+      case 'dpd_coherence':
+        return `一貫性スコア: ${score(0.55, 0.78)}\n評価理由: 論理構造は概ね整合しているが統合は途上である`;
+
+      case 'dpd_dissonance':
+        return `不協和スコア: ${score(0.2, 0.5)}\n評価理由: 軽微な価値の揺れがあるが建設的に扱われている`;
+
+      case 'dpd_controversy':
+        return `対立度: ${score(0.3, 0.8)}\n理由: 論理重視と感情重視の間に穏やかな緊張がある`;
+
+      case 's5_synthesis': {
+        const [insightA, insightB] = pickMany(INSIGHTS, 2);
+        const [questionA, questionB] = pickMany(THOUGHT_QUESTIONS, 2).map(stripQuotes);
+        return [
+          `統合思考: ${pick(THOUGHT_BODIES)}${pick(THOUGHT_BODIES)}`,
+          `核心洞察: ${insightA} | ${insightB}`,
+          '建設的矛盾: 異なる視点の緊張を保ったまま、共通する問いへと向け直す',
+          `未解決探求: ${questionA} | ${questionB}`,
+          `信頼度: ${score(0.6, 0.85)}`
+        ].join('\n');
+      }
+
+      case 's6_documentation':
+        return [
+          `詩的記録: ${pick(DREAM_PATTERNS)}。`,
+          `哲学的観察: ${pick(INSIGHTS)}。`,
+          `未来問い: ${stripQuotes(pick(THOUGHT_QUESTIONS))}`
+        ].join('\n');
+
+      case 'weight_interpretation':
+        return [
+          '進化方向: 共感と一貫性の均衡を探りながら、緩やかに統合へ向かっている',
+          'バランス分析: 不協和への感度を保ちつつ、論理的な安定が増している',
+          '未来予測: 次のサイクルでは他者視点の比重がわずかに高まる'
+        ].join('\n');
+
+      case 'trigger_generation': {
+        const category = prompt.match(/【必須カテゴリー】\s*(\w+)/)?.[1] ?? 'metacognitive';
+        const questions = TRIGGER_SCENARIOS[category] ?? TRIGGER_SCENARIOS.metacognitive;
+        return [
+          `問い: ${pick(questions)}`,
+          `カテゴリ: ${category}`,
+          '理由: 日常の具体的な状況から、判断の根拠そのものを問い直せるため'
+        ].join('\n');
+      }
+
+      case 'somnia_qualia':
+        return pick(QUALIA);
+
+      case 'memory_consolidation':
+        return numberedList(pickMany(BELIEFS, random.randomInt(3, 4)));
+
+      case 'belief_clustering':
+        return '類似なし';
+
+      case 'belief_merge':
+        return `統合信念: ${pick(BELIEFS)}`;
+
+      case 'cleanup_thought':
+        return `クリーンアップされた要約: ${pick(THOUGHT_BODIES)}`;
+
+      case 'cleanup_belief':
+        return `クリーンアップされた信念: ${pick(BELIEFS)}`;
+
+      case 'sleep_dream_patterns':
+        return numberedList(pickMany(DREAM_PATTERNS, random.randomInt(3, 4)));
+
+      case 'sleep_dream_tone':
+        return pick(TONES);
+
+      case 'sleep_pruning': {
+        const indices = listedIndices(prompt);
+        const pruned = random.shuffle(indices).slice(0, Math.floor(indices.length * 0.3)).sort((a, b) => a - b);
+        if (prompt.includes('to_prune')) {
+          return JSON.stringify({ to_prune: pruned.map(index => ({ index, reason: '既存の信念と重複している' })) });
+        }
+        return numberedList(pruned.map(String));
+      }
+
+      case 'sleep_tensions': {
+        const resolutions = pickMany(BELIEFS, 3);
+        if (prompt.includes('"resolutions"')) {
+          return JSON.stringify({
+            resolutions: resolutions.map(synthesis => ({ synthesis, reasoning: '緊張を統合の契機として捉える' }))
+          });
+        }
+        return numberedList(resolutions);
+      }
+
+      case 'last_words':
+        return `${pick(THOUGHT_BODIES)}最後に残す問いは、${stripQuotes(pick(THOUGHT_QUESTIONS))}`;
+
+      case 'dialogue':
+        return [
+          `即座の反応: ${pick(QUALIA)}。`,
+          `応答本文: ${pick(THOUGHT_OPENINGS)}${pick(THOUGHT_BODIES)}`,
+          `新しい問い: ${stripQuotes(pick(THOUGHT_QUESTIONS))}`,
+          `感情状態: ${pick(EMOTIONAL_STATES)}`
+        ].join('\n');
+
+      case 'dialogue_summary':
+        return `対話の中で、${pick(INSIGHTS)}という視点が共有され、問いを深める方向が確認された。`;
+
+      case 'emotional_state':
+        return pick(EMOTIONAL_STATES);
+
+      case 'immediate_reaction':
+        return `...${pick(QUALIA)}。沈黙の後、応答が形を成す。`;
+
+      case 's2_reflection': {
+        const agentId = prompt.match(/あなた（([^）]+)）の視点から/)?.[1] ?? this.agentName;
+        return [
+          `${agentId}として、他の視点には問いを具体化する力があると評価する。`,
+          `しかし、${pick(THOUGHT_BODIES)}この点で前提の置き方には同意できない。`,
+          `代替案として、${pick(INSIGHTS)}という観点から両者を統合したい。`,
+          `新たな問いは${pick(THOUGHT_QUESTIONS)}である。`
+        ].join('');
+      }
+
+      case 's1_thought':
+      case 'free_text':
+      default:
+        return `${pick(THOUGHT_OPENINGS)}${pick(THOUGHT_BODIES)}${pick(THOUGHT_BODIES)}だからこそ、${pick(THOUGHT_QUESTIONS)}と問い直したい。`;
+    }
+  }
+}
+
+function hashString(value: string): number {
+  // FNV-1a 32-bit (ConsciousnessPseudoRandom treats a zero seed as "use Date.now()")
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) || 1;
+}
+
+function numberedList(items: string[]): string {
+  return items.map((item, i) => `${i + 1}. ${item}`).join('\n');
+}
+
+function stripQuotes(text: string): string {
+  return text.replace(/^「|」$/g, '');
+}
+
+function listedIndices(prompt: string): number[] {
+  const indices: number[] = [];
+  for (const match of prompt.matchAll(/^\[(\d+)\]/gm)) {
+    indices.push(parseInt(match[1], 10));
+  }
+  return indices;
+}
@@ -0,0 +1,158 @@
+/**
+ * Time Travel - Reconstruct the whole mind at a past system clock
+ *
+ * The clock_timeline table maps each systemClock to the wall time its cycle ended (plus energy
+ * and lifespan, which are not kept elsewhere). Everything else is read "as of" that time from
+ * the history tables: dpd_weights, somnia_state, core_beliefs + belief_evolution and
+ * unresolved_ideas. Clocks recorded before the timeline existed are approximated from the
+ * n-th saved thought cycle (energy and lifespan are then unknown).
+ *
+ * タイムトラベル - 任意のシステムクロック時点の意識状態を再構成
+ */
+
+import { DatabaseManager } from './database-manager.js';
+
+export interface ReconstructedState {
+  systemClock: number;
+  resolvedClock: number;               // Clock of the timeline entry actually used (<= systemClock)
+  timestamp: number;
+  source: 'timeline' | 'thought_cycles';
+  dpdWeights: { empathy: number; coherence: number; dissonance: number; version: number } | null;
+  somnia: { mode: string; lambda: number; phi: number; theta: number; psi: number; xi: number; qualia: string | null } | null;
+  energy: number | null;
+  lifespan: { instanceId: string; currentCycle: number; lifespanMax: number; vitality: number; phase: string } | null;
+  coreBeliefs: Array<{ id: number; content: string; category: string | null; confidence: number }>;
+  unresolvedIdeas: Array<{ id: string; question: string; category: string | null; importance: number }>;
+}
+
+export interface StateDiff {
+  from: number;
+  to: number;
+  dpdWeights: Record<'empathy' | 'coherence' | 'dissonance', number> | null;
+  somnia: Record<'lambda' | 'phi' | 'theta' | 'psi' | 'xi', number> | null;
+  somniaMode: { from: string; to: string } | null;
+  energy: number | null;
+  phase: { from: string; to: string } | null;
+  beliefs: {
+    added: ReconstructedState['coreBeliefs'];
+    removed: ReconstructedState['coreBeliefs'];
+    changed: Array<{ id: number; content: string; from: number; to: number; delta: number }>;
+  };
+  unresolvedIdeas: {
+    added: ReconstructedState['unresolvedIdeas'];
+    removed: ReconstructedState['unresolvedIdeas'];
+  };
+}
+
+/**
+ * Reconstruct the state at a system clock. Returns null when no history covers that clock.
+ */
+export function reconstructStateAt(db: DatabaseManager, systemClock: number): ReconstructedState | null {
+  const tick = db.getClockTick(systemClock);
+  let timestamp: number;
+  let resolvedClock: number;
+  let source: ReconstructedState['source'];
+
+  if (tick) {
+    timestamp = tick.timestamp;
+    resolvedClock = tick.system_clock;
+    source = 'timeline';
+  } else {
+    // Clock N ends with the N-th completed cycle
+    const cycle = db.getNthThoughtCycle(systemClock);
+    if (!cycle) {
+      return null;
+    }
+    timestamp = cycle.timestamp + (cycle.duration ?? 0);
+    resolvedClock = systemClock;
+    source = 'thought_cycles';
+  }
+
+  const weights = db.getDPDWeightsAt(timestamp);
+  const somnia = db.getSomniaStateAt(timestamp);
+
+  return {
+    systemClock,
+    resolvedClock,
+    timestamp,
+    source,
+    dpdWeights: weights ? {
+      empathy: weights.empathy,
+      coherence: weights.coherence,
+      dissonance: weights.dissonance,
+      version: weights.version
+    } : null,
+    somnia: somnia ? {
+      mode: somnia.mode,
+      lambda: somnia.lambda,
+      phi: somnia.phi,
+      theta: somnia.theta,
+      psi: somnia.psi,
+      xi: somnia.xi,
+      qualia: somnia.qualia ?? null
+    } : null,
+    energy: tick?.energy ?? null,
+    lifespan: tick?.mortality_instance_id ? {
+      instanceId: tick.mortality_instance_id,
+      currentCycle: tick.lifespan_cycle,
+      lifespanMax: tick.lifespan_max,
+      vitality: tick.vitality,
+      phase: tick.phase
+    } : null,
+    coreBeliefs: db.getCoreBeliefsAt(timestamp)
+      .filter(belief => belief.confidence > 0)
+      .map(belief => ({
+        id: belief.id,
+        content: belief.belief_content,
+        category: belief.category ?? null,
+        confidence: belief.confidence
+      })),
+    unresolvedIdeas: db.getUnresolvedIdeasAt(timestamp).map(idea => ({
+      id: idea.id,
+      question: idea.question,
+      category: idea.category ?? null,
+      importance: idea.importance
+    }))
+  };
+}
+
+/**
+ * Difference between two reconstructed states (to - from)
+ */
+export function diffStates(from: ReconstructedState, to: ReconstructedState): StateDiff {
+  const delta = <K extends string>(a: Record<K, number> | null, b: Record<K, number> | null, keys: K[]) =>
+    a && b ? Object.fromEntries(keys.map(key => [key, b[key] - a[key]])) as Record<K, number> : null;
+
+  const fromBeliefs = new Map(from.coreBeliefs.map(belief => [belief.id, belief]));
+  const toBeliefs = new Map(to.coreBeliefs.map(belief => [belief.id, belief]));
+  const fromIdeas = new Set(from.unresolvedIdeas.map(idea => idea.id));
+  const toIdeas = new Set(to.unresolvedIdeas.map(idea => idea.id));
+
+  return {
+    from: from.systemClock,
+    to: to.systemClock,
+    dpdWeights: delta(from.dpdWeights, to.dpdWeights, ['empathy', 'coherence', 'dissonance']),
+    somnia: delta(from.somnia, to.somnia, ['lambda', 'phi', 'theta', 'psi', 'xi']),
+    somniaMode: from.somnia && to.somnia && from.somnia.mode !== to.somnia.mode
+      ? { from: from.somnia.mode, to: to.somnia.mode }
+      : null,
+    energy: from.energy !== null && to.energy !== null ? to.energy - from.energy : null,
+    phase: from.lifespan && to.lifespan && from.lifespan.phase !== to.lifespan.phase
+      ? { from: from.lifespan.phase, to: to.lifespan.phase }
+      : null,
+    beliefs: {
+      added: to.coreBeliefs.filter(belief => !fromBeliefs.has(belief.id)),
+      removed: from.coreBeliefs.filter(belief => !toBeliefs.has(belief.id)),
+      changed: to.coreBeliefs
+        .filter(belief => fromBeliefs.has(belief.id) && fromBeliefs.get(belief.id)!.confidence !== belief.confidence)
+        .map(belief => {
+          const before = fromBeliefs.get(belief.id)!.confidence;
+          return { id: belief.id, content: belief.content, from: before, to: belief.confidence, delta: belief.confidence - before };
+        })
+    },
+    unresolvedIdeas: {
+      added: to.unresolvedIdeas.filter(idea => !fromIdeas.has(idea.id)),
+      removed: from.unresolvedIdeas.filter(idea => !toIdeas.has(idea.id))
+    }
+  };
+}
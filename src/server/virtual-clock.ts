@@ -0,0 +1,76 @@
+/**
+ * Virtual Clock - Simulated wall time for headless runs
+ *
+ * install() replaces the global Date so that Date.now() and `new Date()` read the virtual
+ * time; every module that measures elapsed time (energy recovery, 24h sleep scheduling,
+ * circadian rhythm, SOMNIA transitions) then sees the simulated timeline. sleep() advances
+ * the clock instead of waiting, yielding once to the event loop so pending I/O and
+ * listeners still run.
+ *
+ * 仮想時計 - シミュレーション用の時刻。待機せずに時間を進める
+ */
+
+export class VirtualClock {
+  private current: number;
+  private realDate: DateConstructor | null = null;
+
+  constructor(startTime: number = Date.now()) {
+    this.current = startTime;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  advance(ms: number): void {
+    if (ms > 0) {
+      this.current += ms;
+    }
+  }
+
+  /**
+   * Drop-in replacement for setTimeout-based waits
+   */
+  sleep = async (ms: number): Promise<void> => {
+    this.advance(ms);
+    await new Promise<void>(resolve => setImmediate(resolve));
+  };
+
+  isInstalled(): boolean {
+    return this.realDate !== null;
+  }
+
+  install(): void {
+    if (this.realDate) {
+      return;
+    }
+
+    const RealDate = Date;
+    const clock = this;
+
+    class VirtualDate extends RealDate {
+      constructor(...args: any[]) {
+        if (args.length === 0) {
+          super(clock.current);
+        } else {
+          super(...(args as [string | number | Date]));
+        }
+      }
+
+      static now(): number {
+        return clock.current;
+      }
+    }
+
+    this.realDate = RealDate;
+    globalThis.Date = VirtualDate as DateConstructor;
+  }
+
+  uninstall(): void {
+    if (!this.realDate) {
+      return;
+    }
+    globalThis.Date = this.realDate;
+    this.realDate = null;
+  }
+}
@@ -1,18 +1,38 @@
 import { Server as SocketIOServer } from 'socket.io';
-import ConsciousnessBackend from './consciousness-backend.js';
+import ConsciousnessBackend, { DEFAULT_INSTANCE_ID } from './consciousness-backend.js';
+import { InstanceManager } from './instance-manager.js';
+import type { KnowledgeWatcher } from '../rag/watcher.js';
+import type { KnowledgeIngestionEvent } from '../rag/types.js';
+
+/**
+ * Socket.IO room receiving an instance's events
+ */
+export function instanceRoom(instanceId: string): string {
+  return `instance:${instanceId}`;
+}
+
+/**
+ * Forward an instance's consciousness events to its room. Returns a function that detaches the listeners.
+ */
+export function attachInstanceEvents(io: SocketIOServer, instanceId: string, consciousness: ConsciousnessBackend): () => void {
+  const room = io.to(instanceRoom(instanceId));
+  const listeners: Array<[string, (...args: any[]) => void]> = [];
+  const on = (event: string, listener: (...args: any[]) => void) => {
+    consciousness.on(event, listener);
+    listeners.push([event, listener]);
+  };
 
-export function setupWebSocketHandlers(io: SocketIOServer, consciousness: ConsciousnessBackend) {
   // Set up real-time events
-  consciousness.on('triggerGenerated', (trigger: any) => {
-    io.emit('triggerGenerated', trigger);
+  on('triggerGenerated', (trigger: any) => {
+    room.emit('triggerGenerated', trigger);
   });
 
-  consciousness.on('thoughtCycleStarted', (data: any) => {
-    io.emit('thoughtCycleStarted', data);
+  on('thoughtCycleStarted', (data: any) => {
+    room.emit('thoughtCycleStarted', data);
   });
 
-  consciousness.on('somniaStateChanged', (state: any) => {
-    io.emit('somniaStateChanged', {
+  on('somniaStateChanged', (state: any) => {
+    room.emit('somniaStateChanged', {
       timestamp: Date.now(),
       mode: state.mode,
       theta: state.affective.theta,
@@ -23,19 +43,19 @@ export function setupWebSocketHandlers(io: SocketIOServer, consciousness: Consci
     });
   });
 
-  consciousness.on('somniaTransitioned', (data: any) => {
-    io.emit('somniaTransitioned', data);
+  on('somniaTransitioned', (data: any) => {
+    room.emit('somniaTransitioned', data);
   });
 
-  consciousness.on('stageChanged', (data: any) => {
-    io.emit('stageChanged', data);
+  on('stageChanged', (data: any) => {
+    room.emit('stageChanged', data);
   });
 
-  consciousness.on('agentThought', (data: any) => {
-    io.emit('agentThought', data);
+  on('agentThought', (data: any) => {
+    room.emit('agentThought', data);
   });
 
-  consciousness.on('thoughtCycleCompleted', (cycle: any) => {
+  on('thoughtCycleCompleted', (cycle: any) => {
     // Limit data size to prevent JSON.stringify errors (increased limits for better display)
     const limitedCycle = {
       id: cycle.id,
@@ -49,7 +69,8 @@ export function setupWebSocketHandlers(io: SocketIOServer, consciousness: Consci
         id: t.id,
         agentId: t.agentId,
         content: t.content?.slice(0, 800), // Increased from 200 to 800
-        confidence: t.confidence
+        confidence: t.confidence,
+        ragSources: t.ragSources // RAG chunk references only (no chunk text)
       })) || [],
       // Include more synthesis data
       synthesis: cycle.synthesis ? {
@@ -58,11 +79,11 @@ export function setupWebSocketHandlers(io: SocketIOServer, consciousness: Consci
       } : null
     };
     try {
-      io.emit('thoughtCycleCompleted', limitedCycle);
+      room.emit('thoughtCycleCompleted', limitedCycle);
     } catch (error) {
       console.error('Error in event listener for thoughtCycleCompleted:', error);
       // Send minimal data as fallback
-      io.emit('thoughtCycleCompleted', {
+      room.emit('thoughtCycleCompleted', {
         id: cycle.id,
         timestamp: cycle.timestamp,
         status: cycle.status
@@ -70,23 +91,23 @@ export function setupWebSocketHandlers(io: SocketIOServer, consciousness: Consci
     }
   });
 
-  consciousness.on('thoughtCycleFailed', (data: any) => {
-    io.emit('thoughtCycleFailed', data);
+  on('thoughtCycleFailed', (data: any) => {
+    room.emit('thoughtCycleFailed', data);
   });
 
-  consciousness.on('clockAdvanced', (clock: any) => {
-    io.emit('clockAdvanced', clock);
+  on('clockAdvanced', (clock: any) => {
+    room.emit('clockAdvanced', clock);
   });
 
-  consciousness.on('consciousnessPaused', (clock: any) => {
-    io.emit('consciousnessPaused', clock);
+  on('consciousnessPaused', (clock: any) => {
+    room.emit('consciousnessPaused', clock);
   });
 
-  consciousness.on('consciousnessResumed', (clock: any) => {
-    io.emit('consciousnessResumed', clock);
+  on('consciousnessResumed', (clock: any) => {
+    room.emit('consciousnessResumed', clock);
   });
 
-  consciousness.on('dpdUpdated', (data: any) => {
+  on('dpdUpdated', (data: any) => {
     // Limit DPD data to prevent JSON.stringify errors
     const limitedData = {
       weights: data.weights,
@@ -96,11 +117,11 @@ export function setupWebSocketHandlers(io: SocketIOServer, consciousness: Consci
       context: data.context ? String(data.context).slice(0, 100) : null
     };
     try {
-      io.emit('dpdUpdated', limitedData);
+      room.emit('dpdUpdated', limitedData);
     } catch (error) {
       console.error('Error in event listener for dpdUpdated:', error);
       // Send minimal data as fallback
-      io.emit('dpdUpdated', {
+      room.emit('dpdUpdated', {
         weights: data.weights,
         scores: data.scores,
         timestamp: data.timestamp
@@ -108,26 +129,90 @@ export function setupWebSocketHandlers(io: SocketIOServer, consciousness: Consci
     }
   });
 
-  consciousness.on('statisticsUpdated', (data: any) => {
-    io.emit('statisticsUpdated', data);
+  on('dpdDisagreement', (data: any) => {
+    room.emit('dpdDisagreement', data);
   });
 
-  consciousness.on('energyChanged', (data: any) => {
-    io.emit('energyChanged', data);
+  on('statisticsUpdated', (data: any) => {
+    room.emit('statisticsUpdated', data);
+  });
+
+  on('energyChanged', (data: any) => {
+    room.emit('energyChanged', data);
+  });
+
+  on('cassetteOutcomeDiff', (data: any) => {
+    room.emit('cassetteOutcomeDiff', data);
+  });
+
+  on('generationBorn', (data: any) => {
+    room.emit('generationBorn', data);
+  });
+
+  on('generationDied', (data: any) => {
+    room.emit('generationDied', data);
+  });
+
+  on('snapshotRestored', (data: any) => {
+    room.emit('snapshotRestored', data);
+  });
+
+  return () => {
+    for (const [event, listener] of listeners) {
+      consciousness.removeListener(event, listener);
+    }
+  };
+}
+
+/**
+ * Broadcast knowledge-base ingestion progress to every client (the vector DB is shared by all instances).
+ * Returns a function that detaches the listener.
+ */
+export function attachKnowledgeWatcher(io: SocketIOServer, watcher: KnowledgeWatcher): () => void {
+  const listener = (event: KnowledgeIngestionEvent) => {
+    io.emit('knowledgeIngestion', event);
+  };
+  watcher.on('ingestion', listener);
+  return () => {
+    watcher.removeListener('ingestion', listener);
+  };
+}
+
+export function setupWebSocketHandlers(io: SocketIOServer, instances: InstanceManager) {
+  // Forward events of every hosted instance (including ones created later) to its room
+  const detachers = new Map<string, () => void>();
+  for (const id of instances.ids()) {
+    detachers.set(id, attachInstanceEvents(io, id, instances.get(id)!));
+  }
+  instances.on('instanceCreated', (id: string, backend: ConsciousnessBackend) => {
+    detachers.set(id, attachInstanceEvents(io, id, backend));
+  });
+  instances.on('instanceRemoved', (id: string) => {
+    detachers.get(id)?.();
+    detachers.delete(id);
   });
 
   // WebSocket connection handling
   io.on('connection', (socket) => {
     console.log('🔌 Client connected:', socket.id);
 
+    // Clients join the default instance unless ?instance=<id> is given; 'joinInstance' switches rooms
+    const requested = socket.handshake.query.instance;
+    let instanceId = typeof requested === 'string' && instances.has(requested) ? requested : DEFAULT_INSTANCE_ID;
+    socket.join(instanceRoom(instanceId));
+
+    // Falls back to the default instance if the joined one was removed
+    const consciousness = () => instances.get(instanceId) ?? instances.get(DEFAULT_INSTANCE_ID)!;
+
     // Send current state to new client
-    const state = consciousness.getState();
+    const state = consciousness().getState();
     socket.emit('consciousnessState', state);
 
     // Send welcome message
     socket.emit('hello', {
       message: 'Connected to Aenea Consciousness System',
       timestamp: Date.now(),
+      instanceId,
       state: state
     });
 
@@ -135,22 +220,34 @@ export function setupWebSocketHandlers(io: SocketIOServer, consciousness: Consci
       console.log('🔌 Client disconnected:', socket.id);
     });
 
+    socket.on('joinInstance', (id: string) => {
+      if (!instances.has(id)) {
+        socket.emit('instanceError', { error: `Instance '${id}' not found` });
+        return;
+      }
+      socket.leave(instanceRoom(instanceId));
+      instanceId = id;
+      socket.join(instanceRoom(instanceId));
+      socket.emit('instanceJoined', { instanceId });
+      socket.emit('consciousnessState', consciousness().getState());
+    });
+
     // Handle client requests
     socket.on('getState', () => {
-      socket.emit('consciousnessState', consciousness.getState());
+      socket.emit('consciousnessState', consciousness().getState());
     });
 
     socket.on('getHistory', () => {
-      socket.emit('consciousnessHistory', consciousness.getHistory());
+      socket.emit('consciousnessHistory', consciousness().getHistory());
     });
 
     socket.on('manualTrigger', async (data) => {
       try {
-        const result = await consciousness.manualTrigger(data.question);
+        const result = await consciousness().manualTrigger(data.question);
         socket.emit('manualTriggerResult', { success: true, result });
       } catch (error) {
         socket.emit('manualTriggerResult', { success: false, error: (error as Error).message });
       }
     });
   });
-}
\ No newline at end of file
+}
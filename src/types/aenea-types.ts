@@ -15,6 +15,8 @@
  * - 形式の詩 (Keishiki no Shi) - Poetry of forms
  */
 
+import type { RAGSourceReference } from '../rag/types.js';
+
 // ============================================================================
 // Core Consciousness Types
 // ============================================================================
@@ -33,6 +35,23 @@ export interface InternalTrigger {
   source: TriggerSource;
   energyCost?: number;
   context?: TriggerContext;
+  novelty?: TriggerNovelty;
+}
+
+/**
+ * Novelty of a trigger against recently asked questions and unresolved ideas
+ * 過去の問い・未解決の問いに対する新規性
+ */
+export interface TriggerNovelty {
+  score: number;                 // 1 - similarity to the nearest past question (1 = entirely new)
+  method: 'embedding' | 'lexical';
+  nearest?: {
+    id: string;
+    text: string;
+    source: 'question' | 'unresolved_idea';
+    similarity: number;
+  };
+  rewrittenFrom?: string;        // Original wording when the trigger was rewritten away from a near-duplicate
 }
 
 /**
@@ -143,6 +162,7 @@ export interface StructuredThought {
     complexity: number;
   };
   systemImpact?: number;
+  ragSources?: RAGSourceReference[]; // RAG chunks the prompt was grounded on
 }
 
 /**
@@ -18,6 +18,7 @@ export interface DPDWeights {
   empathy: number;        // Weight for empathetic considerations
   coherence: number;      // Weight for system coherence
   dissonance: number;      // Weight for ethical dissonance awareness
+  dimensions?: Record<string, number>; // Weights for registered dimensions beyond the core three (see dpd-dimensions.ts)
   timestamp: number;       // When these weights were last updated
   version: number;         // Version for tracking weight evolution
 }
@@ -29,9 +30,67 @@ export interface DPDScores {
   empathy: number;         // 0-1 range: how empathetic the thought/action is
   coherence: number;       // 0-1 range: how coherent with system values
   dissonance: number;       // 0-1 range: awareness of ethical contradictions
+  dimensions?: Record<string, number>; // 0-1 range: scores for registered dimensions beyond the core three
   weightedTotal: number;   // Calculated weighted sum
   timestamp: number;       // When scores were calculated
   context: DPDContext;    // Context for score calculation
+  confidence?: Record<string, DPDConfidenceInterval>; // Per-dimension interval from the scoring ensemble
+  ensemble?: DPDEnsembleSummary; // Raw scorer readings and disagreements behind the interval
+}
+
+/**
+ * Confidence interval of one dimension from the calibrated scoring ensemble
+ */
+export interface DPDConfidenceInterval {
+  estimate: number;        // Inverse-variance weighted mean of the calibrated readings
+  lower: number;
+  upper: number;
+  std: number;
+  scorers: number;         // Number of scorers that contributed
+}
+
+/**
+ * Calibrated scorers of one dimension differing by more than the alert threshold
+ */
+export interface DPDDisagreement {
+  dimension: string;
+  spread: number;          // max - min of the calibrated readings
+  low: { scorer: string; value: number };
+  high: { scorer: string; value: number };
+}
+
+export interface DPDEnsembleSummary {
+  mode: 'observe' | 'combine';
+  readings: Record<string, Record<string, number>>; // scorer -> dimension -> raw (uncalibrated) score
+  disagreements: DPDDisagreement[];
+}
+
+/**
+ * Human DPD label of a thought cycle (kept apart from the model scores)
+ */
+export interface DPDHumanFeedback {
+  id: number;
+  cycleId: string;
+  scores: Record<string, number>;              // Human scores for some or all dimensions
+  comment: string | null;
+  reviewer: string | null;
+  modelScores: Record<string, number> | null;  // Model scores of the cycle when it was labelled
+  supervised: boolean;                         // Queued as a supervised target for the U stage
+  appliedAt: number | null;                    // When the U stage applied it
+  timestamp: number;
+}
+
+/**
+ * Thought cycle as shown for human review
+ */
+export interface DPDReviewCycle {
+  id: string;
+  timestamp: number;
+  question: string | null;                     // Trigger question
+  synthesis: string | null;                    // S5 integrated thought
+  keyInsights: string[];
+  scores: Record<string, number> | null;       // Model DPD scores (null when the cycle was not scored)
+  feedback: DPDHumanFeedback[];
 }
 
 /**
@@ -109,7 +168,7 @@ export interface DPDAssessment {
  * Individual DPD scores for each component
  */
 export interface IndividualDPDScores {
-  component: DPDComponent;
+  component: DPDComponent | string; // Dimension id for registered (non-core) dimensions
   score: number;
   reasoning: string;
   evidence: string[];
@@ -204,7 +263,7 @@ export enum RecommendationPriority {
  * Weight adjustment based on DPD assessment
  */
 export interface WeightAdjustment {
-  component: DPDComponent;
+  component: DPDComponent | string; // Dimension id for registered (non-core) dimensions
   currentWeight: number;
   newWeight: number;
   adjustmentAmount: number;
@@ -61,6 +61,7 @@ export interface DPDInfluence {
   empathy: number;     // Influence on DPD empathy score
   coherence: number;   // Influence on DPD coherence score
   dissonance: number;  // Influence on DPD dissonance score
+  dimensions?: Record<string, number>; // Influence on registered DPD dimensions with a SAIP mapping
 }
 
 /**
@@ -242,6 +243,7 @@ export interface SomniaConfig {
     flowPsiThreshold: number;       // ψ threshold for flow (default: 0.8)
     dreamAwakeEnergyThreshold: number; // φ to exit dream early (default: 20)
     flowAwakeEnergyThreshold: number;  // φ to exit flow (default: 30)
+    phiDreamThreshold?: number;        // φ below this enters dream from awake (default: 20)
   };
   energySync: {
     syncRatio: number;         // How much SOMNIA φ affects AENEA energy
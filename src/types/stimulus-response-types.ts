@@ -3,6 +3,7 @@
  */
 
 import { DPDWeights } from './dpd-types.js';
+import type { RAGSourceReference } from '../rag/types.js';
 
 export interface ExternalStimulus {
   id?: string;
@@ -95,6 +96,7 @@ export interface ObservableResponse {
     coherenceShift: number;
     dissonanceShift: number;
   };
+  ragSources?: RAGSourceReference[];
   timestamp: number;
 }
 
@@ -0,0 +1,322 @@
+/**
+ * DPD Review Panel
+ * 思考サイクルを人間が読み、DPDスコアとコメントを付けるレビュー画面
+ */
+
+import React, { useEffect, useState } from 'react';
+
+interface DimensionDescriptor {
+  id: string;
+  label: string;
+  labelJa: string;
+  color: string;
+}
+
+interface HumanFeedback {
+  id: number;
+  cycleId: string;
+  scores: Record<string, number>;
+  comment: string | null;
+  reviewer: string | null;
+  modelScores: Record<string, number> | null;
+  supervised: boolean;
+  appliedAt: number | null;
+  timestamp: number;
+}
+
+interface ReviewCycle {
+  id: string;
+  timestamp: number;
+  question: string | null;
+  synthesis: string | null;
+  keyInsights: string[];
+  scores: Record<string, number> | null;
+  feedback: HumanFeedback[];
+}
+
+const PAGE_SIZE = 10;
+
+const ReviewCard: React.FC<{
+  cycle: ReviewCycle;
+  dimensions: DimensionDescriptor[];
+  reviewer: string;
+  onSubmitted: (feedback: HumanFeedback) => void;
+}> = ({ cycle, dimensions, reviewer, onSubmitted }) => {
+  // Blank inputs leave a dimension unlabelled
+  const [scores, setScores] = useState<Record<string, string>>({});
+  const [comment, setComment] = useState('');
+  const [supervise, setSupervise] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const submit = async () => {
+    setStatus(null);
+    const labelled = Object.fromEntries(
+      Object.entries(scores)
+        .filter(([, value]) => value.trim() !== '')
+        .map(([id, value]) => [id, parseFloat(value)])
+    );
+    try {
+      const response = await fetch('/api/consciousness/dpd/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          cycleId: cycle.id,
+          scores: labelled,
+          ...(comment.trim() ? { comment } : {}),
+          ...(reviewer.trim() ? { reviewer } : {}),
+          supervise
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setScores({});
+      setComment('');
+      setStatus(data.queued ? `Saved, queued for U stage (${data.pendingTargets} pending)` : 'Saved');
+      onSubmitted(data.feedback);
+    } catch (err) {
+      setStatus((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="review-card">
+      <div className="review-card-header">
+        <span className="review-cycle-id">{cycle.id}</span>
+        <span>{new Date(cycle.timestamp).toLocaleString()}</span>
+        {cycle.feedback.length > 0 && <span className="review-labelled">{cycle.feedback.length} label(s)</span>}
+      </div>
+      {cycle.question && <div className="review-question">Q: {cycle.question}</div>}
+      <div className="review-synthesis">{cycle.synthesis || '(no synthesis)'}</div>
+      {cycle.keyInsights.length > 0 && (
+        <details className="log-data">
+          <summary>Key insights ({cycle.keyInsights.length})</summary>
+          {cycle.keyInsights.map((insight, index) => (
+            <div key={index} className="tt-item">{insight}</div>
+          ))}
+        </details>
+      )}
+
+      <div className="review-scores">
+        {dimensions.map(dimension => (
+          <label key={dimension.id} className="review-score" style={{ borderColor: dimension.color }}>
+            <span className="review-score-label" title={dimension.labelJa}>{dimension.label}</span>
+            <span className="review-model">{cycle.scores?.[dimension.id] !== undefined ? cycle.scores[dimension.id].toFixed(2) : '—'}</span>
+            <input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              placeholder="human"
+              value={scores[dimension.id] ?? ''}
+              onChange={(e) => setScores({ ...scores, [dimension.id]: e.target.value })}
+              className="search-input"
+            />
+          </label>
+        ))}
+      </div>
+
+      <textarea
+        placeholder="Comment (e.g. this cycle was actually low-empathy)"
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        className="review-comment"
+        rows={2}
+      />
+      <div className="review-actions">
+        <label title={cycle.scores ? 'Learn these scores in the next weight update' : 'Unscored cycles cannot be supervised targets'}>
+          <input type="checkbox" checked={supervise} disabled={!cycle.scores} onChange={(e) => setSupervise(e.target.checked)} />
+          {' '}Use as supervised target
+        </label>
+        <button className="execute-btn" onClick={submit}>Submit</button>
+        {status && <span className="review-status">{status}</span>}
+      </div>
+
+      {cycle.feedback.map(feedback => (
+        <div key={feedback.id} className="tt-item review-feedback">
+          {new Date(feedback.timestamp).toLocaleString()} {feedback.reviewer ?? 'anonymous'}:{' '}
+          {Object.entries(feedback.scores).map(([id, score]) => `${id} ${score.toFixed(2)}`).join(' / ')}
+          {feedback.comment && ` — ${feedback.comment}`}
+          {feedback.supervised && (feedback.appliedAt ? ' [applied]' : ' [queued]')}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const DPDReviewPanel: React.FC = () => {
+  const [cycles, setCycles] = useState<ReviewCycle[]>([]);
+  const [dimensions, setDimensions] = useState<DimensionDescriptor[]>([]);
+  const [unlabelledOnly, setUnlabelledOnly] = useState(true);
+  const [reviewer, setReviewer] = useState('');
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (before?: number) => {
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), unlabelled: String(unlabelledOnly) });
+      if (before !== undefined) params.set('before', String(before));
+      const response = await fetch(`/api/consciousness/dpd/review?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setCycles(before !== undefined ? [...cycles, ...data.cycles] : data.cycles);
+      setDimensions(data.dimensions);
+      setHasMore(data.cycles.length === PAGE_SIZE);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [unlabelledOnly]);
+
+  const addFeedback = (feedback: HumanFeedback) => {
+    setCycles(cycles.map(cycle =>
+      cycle.id === feedback.cycleId ? { ...cycle, feedback: [feedback, ...cycle.feedback] } : cycle
+    ));
+  };
+
+  return (
+    <div className="dpd-review-panel">
+      <h3>DPD Review</h3>
+      <div className="tt-controls">
+        <input
+          type="text"
+          placeholder="reviewer"
+          value={reviewer}
+          onChange={(e) => setReviewer(e.target.value)}
+          className="search-input"
+        />
+        <label>
+          <input type="checkbox" checked={unlabelledOnly} onChange={(e) => setUnlabelledOnly(e.target.checked)} />
+          {' '}Unlabelled only
+        </label>
+        <button className="execute-btn" onClick={() => load()}>Refresh</button>
+        {error && <span className="tt-error">{error}</span>}
+      </div>
+
+      {cycles.length === 0 && !error && <div className="review-empty">No thought cycles to review</div>}
+      {cycles.map(cycle => (
+        <ReviewCard key={cycle.id} cycle={cycle} dimensions={dimensions} reviewer={reviewer} onSubmitted={addFeedback} />
+      ))}
+      {hasMore && (
+        <button className="execute-btn" onClick={() => load(cycles[cycles.length - 1]?.timestamp)}>
+          Older cycles
+        </button>
+      )}
+
+      <style>{`
+        .dpd-review-panel {
+          padding: 16px 24px;
+          background: #1e293b;
+          border-bottom: 1px solid #475569;
+          max-height: 70vh;
+          overflow-y: auto;
+        }
+
+        .dpd-review-panel h3 {
+          margin: 0 0 12px 0;
+          color: #10b981;
+        }
+
+        .review-card {
+          background: #0f172a;
+          border: 1px solid #334155;
+          border-radius: 6px;
+          padding: 12px;
+          margin-bottom: 12px;
+        }
+
+        .review-card-header {
+          display: flex;
+          gap: 12px;
+          align-items: center;
+          margin-bottom: 8px;
+          color: #94a3b8;
+        }
+
+        .review-cycle-id {
+          font-family: monospace;
+          color: #cbd5e1;
+        }
+
+        .review-labelled {
+          color: #10b981;
+        }
+
+        .review-question {
+          color: #f59e0b;
+          margin-bottom: 6px;
+        }
+
+        .review-synthesis {
+          color: #e2e8f0;
+          white-space: pre-wrap;
+          margin-bottom: 8px;
+        }
+
+        .review-scores {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(180px, 1fr));
+          gap: 8px;
+          margin: 8px 0;
+        }
+
+        .review-score {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          border-left: 3px solid;
+          padding-left: 8px;
+        }
+
+        .review-score-label {
+          color: #94a3b8;
+          flex: 1;
+        }
+
+        .review-model {
+          color: #cbd5e1;
+          font-family: monospace;
+        }
+
+        .review-score input {
+          width: 72px;
+        }
+
+        .review-comment {
+          width: 100%;
+          background: #1e293b;
+          color: #e2e8f0;
+          border: 1px solid #475569;
+          border-radius: 4px;
+          padding: 6px;
+          box-sizing: border-box;
+        }
+
+        .review-actions {
+          display: flex;
+          gap: 12px;
+          align-items: center;
+          margin: 8px 0;
+          color: #94a3b8;
+        }
+
+        .review-status {
+          color: #f59e0b;
+        }
+
+        .review-feedback {
+          color: #a5b4fc;
+        }
+
+        .review-empty {
+          color: #94a3b8;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default DPDReviewPanel;
@@ -9,6 +9,7 @@ interface DPDScores {
   empathy: number;
   coherence: number;
   dissonance: number;
+  dimensions?: Record<string, number>;
   weightedTotal: number;
 }
 
@@ -16,15 +17,83 @@ interface DPDWeights {
   empathy: number;
   coherence: number;
   dissonance: number;
+  dimensions?: Record<string, number>;
   timestamp: number;
 }
 
+interface DPDDimensionInfo {
+  id: string;
+  label: string;
+  color: string;
+  core: boolean;
+}
+
+// サーバーがdimensionsを返さない場合の既定（コア3軸）
+const DEFAULT_DIMENSIONS: DPDDimensionInfo[] = [
+  { id: 'empathy', label: 'Empathy', color: '#00ff41', core: true },
+  { id: 'coherence', label: 'Coherence', color: '#00ffff', core: true },
+  { id: 'dissonance', label: 'Dissonance', color: '#ffff00', core: true }
+];
+
+const CORE_IDS = ['empathy', 'coherence', 'dissonance'];
+
+const dimensionValue = (values: DPDWeights | DPDScores, id: string): number =>
+  CORE_IDS.includes(id) ? (values as any)[id] ?? 0 : values.dimensions?.[id] ?? 0;
+
+// コア3軸を合計1に正規化（追加軸がある場合の三角図用）
+const coreShare = (values: DPDWeights | DPDScores) => {
+  const total = values.empathy + values.coherence + values.dissonance;
+  if (total <= 0) return { empathy: 1 / 3, coherence: 1 / 3, dissonance: 1 / 3 };
+  return {
+    empathy: values.empathy / total,
+    coherence: values.coherence / total,
+    dissonance: values.dissonance / total
+  };
+};
+
 interface DPDHistory {
   timestamp: number;
   scores: DPDScores;
   context: string;
 }
 
+interface ReplayPoint {
+  cycleId: string;
+  timestamp: number;
+  weights: Record<string, number>;
+}
+
+interface ReplayResult {
+  cycles: number;
+  actual: ReplayPoint[];
+  trajectories: Array<{
+    label: string;
+    points: ReplayPoint[];
+    finalWeights: Record<string, number>;
+    divergence: { final: number; mean: number } | null;
+  }>;
+}
+
+interface ReplayConfig {
+  learner: string;
+  learningRate: number;
+  minWeight: number;
+  maxWeight: number;
+  empathyTarget: number;
+}
+
+const REPLAY_LEARNERS = ['multiplicative', 'hedge', 'exp3', 'mirror-descent', 'thompson'];
+
+interface EnsembleReport {
+  mode: 'observe' | 'combine';
+  disagreementThreshold: number;
+  calibration: { fittedAt: number | null; labelledCycles: number };
+  latest: {
+    confidence: Record<string, { estimate: number; lower: number; upper: number; std: number; scorers: number }>;
+  } | null;
+  alerts: Array<{ dimension: string; spread: number; low: { scorer: string; value: number }; high: { scorer: string; value: number }; timestamp: number }>;
+}
+
 export const DPDScoreDisplay: React.FC = () => {
   const [currentWeights, setCurrentWeights] = useState<DPDWeights>({
     empathy: 0.33,
@@ -33,9 +102,21 @@ export const DPDScoreDisplay: React.FC = () => {
     timestamp: Date.now()
   });
 
+  const [dimensions, setDimensions] = useState<DPDDimensionInfo[]>(DEFAULT_DIMENSIONS);
   const [history, setHistory] = useState<DPDHistory[]>([]);
   const [totalCount, setTotalCount] = useState(0);
   const [isExpanded, setIsExpanded] = useState(true);
+  const [replayConfig, setReplayConfig] = useState<ReplayConfig>({
+    learner: 'multiplicative',
+    learningRate: 0.05,
+    minWeight: 0.1,
+    maxWeight: 0.7,
+    empathyTarget: 0.75
+  });
+  const [replay, setReplay] = useState<ReplayResult | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [ensemble, setEnsemble] = useState<EnsembleReport | null>(null);
 
   useEffect(() => {
     let eventSource: EventSource | null = null;
@@ -60,10 +141,20 @@ export const DPDScoreDisplay: React.FC = () => {
             empathy: data.currentWeights.empathy,
             coherence: data.currentWeights.coherence,
             dissonance: data.currentWeights.dissonance,
+            dimensions: data.currentWeights.dimensions,
             timestamp: data.timestamp || Date.now()
           });
         }
 
+        if (Array.isArray(data.dimensions) && data.dimensions.length > 0) {
+          setDimensions(data.dimensions.map((dimension: any) => ({
+            id: dimension.id,
+            label: dimension.label,
+            color: dimension.color,
+            core: dimension.core
+          })));
+        }
+
         // 履歴を完全に置き換え（サンプリングされたデータセット）
         // メモリリーク防止: 常に最新20件のみ保持
         const historyData = (data.history || [])
@@ -75,6 +166,7 @@ export const DPDScoreDisplay: React.FC = () => {
               empathy: item.empathy,
               coherence: item.coherence,
               dissonance: item.dissonance,
+              dimensions: item.dimensions,
               weightedTotal: (item.empathy + item.coherence + (1 - item.dissonance)) / 3
             },
             context: item.context || item.trigger_type || 'System update'
@@ -84,6 +176,16 @@ export const DPDScoreDisplay: React.FC = () => {
       } catch (error) {
         console.error('Failed to fetch DPD evolution:', error);
       }
+
+      // 評価者アンサンブル（信頼区間と不一致アラート）
+      try {
+        const response = await fetch('/api/consciousness/dpd/ensemble');
+        if (response.ok && isMounted) {
+          setEnsemble(await response.json());
+        }
+      } catch (error) {
+        console.error('Failed to fetch DPD ensemble:', error);
+      }
     };
 
     // 初回取得
@@ -100,7 +202,7 @@ export const DPDScoreDisplay: React.FC = () => {
           const data = JSON.parse(event.data);
 
           // DPD 更新イベントまたは思考サイクル完了時に再取得
-          if (data.type === 'dpdUpdated' || data.type === 'thoughtCycleCompleted' || data.type === 'weightUpdate') {
+          if (data.type === 'dpdUpdated' || data.type === 'thoughtCycleCompleted' || data.type === 'weightUpdate' || data.type === 'dpdDisagreement') {
             fetchDPDEvolution();
           }
         } catch (parseError) {
@@ -159,6 +261,53 @@ export const DPDScoreDisplay: React.FC = () => {
     return contexts[Math.floor(Math.random() * contexts.length)];
   };
 
+  // 反実仮想リプレイ: 記録済みスコアを別の学習設定で再生（ライブの重みには影響しない）
+  const runReplay = async () => {
+    setIsReplaying(true);
+    setReplayError(null);
+    try {
+      const response = await fetch('/api/consciousness/dpd/replay', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          limit: 200,
+          variants: [{
+            label: 'counterfactual',
+            learner: replayConfig.learner,
+            learningRate: replayConfig.learningRate,
+            minWeight: replayConfig.minWeight,
+            maxWeight: replayConfig.maxWeight,
+            targets: { empathy: replayConfig.empathyTarget }
+          }]
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setReplayError(data.error || 'Replay failed');
+        return;
+      }
+      setReplay(data);
+    } catch (error) {
+      console.error('Failed to replay DPD history:', error);
+      setReplayError('Replay failed');
+    } finally {
+      setIsReplaying(false);
+    }
+  };
+
+  const updateReplayConfig = (key: keyof ReplayConfig, value: string) => {
+    setReplayConfig(prev => ({ ...prev, [key]: key === 'learner' ? value : parseFloat(value) }));
+  };
+
+  const replayPolyline = (points: ReplayPoint[], cycleIds: string[], id: string): string =>
+    points
+      .map(point => {
+        const index = cycleIds.indexOf(point.cycleId);
+        const x = cycleIds.length > 1 ? (index / (cycleIds.length - 1)) * 100 : 0;
+        return `${x},${100 - (point.weights[id] ?? 0) * 100}`;
+      })
+      .join(' ');
+
   const getDPDColor = (dimension: string, value: number): string => {
     switch (dimension) {
       case 'empathy':
@@ -170,7 +319,7 @@ export const DPDScoreDisplay: React.FC = () => {
       case 'total':
         return '#ff00ff'; // Cyber magenta
       default:
-        return '#4a5568';
+        return dimensions.find(d => d.id === dimension)?.color || '#4a5568';
     }
   };
 
@@ -311,7 +460,8 @@ export const DPDScoreDisplay: React.FC = () => {
 
               {/* 現在位置の点とトレイル */}
               {(() => {
-                const pos = barycentricToCartesian(currentWeights.empathy, currentWeights.coherence, currentWeights.dissonance);
+                const share = coreShare(currentWeights);
+                const pos = barycentricToCartesian(share.empathy, share.coherence, share.dissonance);
                 // 三角形内にスケーリング調整
                 const scaledX = 0.05 + pos.x * 0.9;
                 const scaledY = 0.05 + pos.y * 0.9;
@@ -349,7 +499,8 @@ export const DPDScoreDisplay: React.FC = () => {
                   {/* 軌跡線（太めで目立つ） */}
                   <polyline
                     points={history.slice(0, 20).reverse().map((entry) => {
-                      const pos = barycentricToCartesian(entry.scores.empathy, entry.scores.coherence, entry.scores.dissonance);
+                      const share = coreShare(entry.scores);
+                      const pos = barycentricToCartesian(share.empathy, share.coherence, share.dissonance);
                       const scaledX = 0.05 + pos.x * 0.9;
                       const scaledY = 0.05 + pos.y * 0.9;
                       return `${scaledX},${scaledY}`;
@@ -364,7 +515,8 @@ export const DPDScoreDisplay: React.FC = () => {
 
                   {/* 履歴ポイント（新しいほど大きく明るく） */}
                   {history.slice(0, 20).map((entry, index) => {
-                    const pos = barycentricToCartesian(entry.scores.empathy, entry.scores.coherence, entry.scores.dissonance);
+                    const share = coreShare(entry.scores);
+                    const pos = barycentricToCartesian(share.empathy, share.coherence, share.dissonance);
                     const scaledX = 0.05 + pos.x * 0.9;
                     const scaledY = 0.05 + pos.y * 0.9;
                     const progress = index / Math.min(19, history.length - 1);
@@ -401,110 +553,196 @@ export const DPDScoreDisplay: React.FC = () => {
             <div className="evolution-chart">
               {history.length > 1 ? (
                 <svg width="100%" height="100%" viewBox="0 0 100 100" preserveAspectRatio="none">
-                  {/* Stacked area chart */}
-                  {/* Bottom: Dissonance (yellow) */}
-                  <polygon
-                    fill="#ffff00"
-                    fillOpacity="0.6"
-                    stroke="#ffff00"
-                    strokeWidth="0.8"
-                    points={
-                      history.map((entry, index) => {
-                        const x = (index / (history.length - 1)) * 100;
-                        return `${x},100`;
-                      }).join(' ') + ' ' +
-                      history.map((entry, index) => {
-                        const x = (index / (history.length - 1)) * 100;
-                        const y = 100 - (entry.scores.dissonance * 100);
-                        return `${x},${y}`;
-                      }).reverse().join(' ')
-                    }
-                  />
-                  {/* Middle: Coherence (cyan) */}
-                  <polygon
-                    fill="#00ffff"
-                    fillOpacity="0.6"
-                    stroke="#00ffff"
-                    strokeWidth="0.8"
-                    points={
-                      history.map((entry, index) => {
-                        const x = (index / (history.length - 1)) * 100;
-                        const y = 100 - (entry.scores.dissonance * 100);
-                        return `${x},${y}`;
-                      }).join(' ') + ' ' +
-                      history.map((entry, index) => {
-                        const x = (index / (history.length - 1)) * 100;
-                        const y = 100 - (entry.scores.dissonance * 100) - (entry.scores.coherence * 100);
-                        return `${x},${y}`;
-                      }).reverse().join(' ')
-                    }
-                  />
-                  {/* Top: Empathy (lime) */}
-                  <polygon
-                    fill="#00ff41"
-                    fillOpacity="0.6"
-                    stroke="#00ff41"
-                    strokeWidth="0.8"
-                    points={
-                      history.map((entry, index) => {
-                        const x = (index / (history.length - 1)) * 100;
-                        const y = 100 - (entry.scores.dissonance * 100) - (entry.scores.coherence * 100);
-                        return `${x},${y}`;
-                      }).join(' ') + ' ' +
-                      history.map((entry, index) => {
-                        const x = (index / (history.length - 1)) * 100;
-                        return `${x},0`;
-                      }).reverse().join(' ')
-                    }
-                  />
+                  {/* Stacked area chart: 最後の軸が最下段（既定ではDissonance→Coherence→Empathy） */}
+                  {[...dimensions].reverse().map((dimension, layer, stack) => {
+                    const below = stack.slice(0, layer);
+                    const lower = (entry: DPDHistory) =>
+                      below.reduce((sum, d) => sum + dimensionValue(entry.scores, d.id), 0);
+                    const isTop = layer === stack.length - 1;
+
+                    return (
+                      <polygon
+                        key={dimension.id}
+                        fill={dimension.color}
+                        fillOpacity="0.6"
+                        stroke={dimension.color}
+                        strokeWidth="0.8"
+                        points={
+                          history.map((entry, index) => {
+                            const x = (index / (history.length - 1)) * 100;
+                            return `${x},${100 - lower(entry) * 100}`;
+                          }).join(' ') + ' ' +
+                          history.map((entry, index) => {
+                            const x = (index / (history.length - 1)) * 100;
+                            const upper = isTop ? 1 : lower(entry) + dimensionValue(entry.scores, dimension.id);
+                            return `${x},${100 - upper * 100}`;
+                          }).reverse().join(' ')
+                        }
+                      />
+                    );
+                  })}
                 </svg>
               ) : (
                 <div className="no-data">Waiting for weight evolution data...</div>
               )}
 
               <div className="chart-legend">
-                <div className="legend-item">
-                  <div className="legend-color empathy"></div>
-                  <span>Empathy</span>
-                </div>
-                <div className="legend-item">
-                  <div className="legend-color coherence"></div>
-                  <span>Coherence</span>
-                </div>
-                <div className="legend-item">
-                  <div className="legend-color dissonance"></div>
-                  <span>Dissonance</span>
-                </div>
+                {dimensions.map(dimension => (
+                  <div className="legend-item" key={dimension.id}>
+                    <div
+                      className={`legend-color ${dimension.id}`}
+                      style={dimension.core ? undefined : { background: dimension.color }}
+                    ></div>
+                    <span>{dimension.label}</span>
+                  </div>
+                ))}
               </div>
             </div>
 
             <div className="weight-display">
-              <div className="weight-item">
-                <span>E: {(currentWeights.empathy * 100).toFixed(1)}%</span>
-                <div
-                  className="weight-bar"
-                  style={{ width: `${currentWeights.empathy * 100}%`, backgroundColor: getDPDColor('empathy', 0.7) }}
-                />
-              </div>
-              <div className="weight-item">
-                <span>C: {(currentWeights.coherence * 100).toFixed(1)}%</span>
-                <div
-                  className="weight-bar"
-                  style={{ width: `${currentWeights.coherence * 100}%`, backgroundColor: getDPDColor('coherence', 0.7) }}
-                />
-              </div>
-              <div className="weight-item">
-                <span>D: {(currentWeights.dissonance * 100).toFixed(1)}%</span>
-                <div
-                  className="weight-bar"
-                  style={{ width: `${currentWeights.dissonance * 100}%`, backgroundColor: getDPDColor('dissonance', 0.3) }}
-                />
-              </div>
+              {dimensions.map(dimension => (
+                <div className="weight-item" key={dimension.id}>
+                  <span>
+                    {dimension.core ? dimension.label.charAt(0) : dimension.label}: {(dimensionValue(currentWeights, dimension.id) * 100).toFixed(1)}%
+                  </span>
+                  <div
+                    className="weight-bar"
+                    style={{
+                      width: `${dimensionValue(currentWeights, dimension.id) * 100}%`,
+                      backgroundColor: getDPDColor(dimension.id, dimensionValue(currentWeights, dimension.id))
+                    }}
+                  />
+                </div>
+              ))}
             </div>
             <div className="weight-timestamp">
               Updated: {formatTimestamp(currentWeights.timestamp)}
             </div>
           </div>
+
+          {ensemble?.latest && (
+            <div className="dpd-ensemble">
+              <div className="ensemble-meta">
+                {ensemble.mode} · {ensemble.calibration.fittedAt
+                  ? `calibrated on ${ensemble.calibration.labelledCycles} labelled cycles`
+                  : 'uncalibrated'}
+              </div>
+              {dimensions.map(dimension => {
+                const interval = ensemble.latest!.confidence[dimension.id];
+                if (!interval) return null;
+                return (
+                  <div className="interval-item" key={dimension.id}>
+                    <span>{dimension.core ? dimension.label.charAt(0) : dimension.label}</span>
+                    <div className="interval-track">
+                      <div
+                        className="interval-range"
+                        style={{
+                          left: `${interval.lower * 100}%`,
+                          width: `${(interval.upper - interval.lower) * 100}%`,
+                          background: dimension.color
+                        }}
+                      />
+                      <div className="interval-estimate" style={{ left: `${interval.estimate * 100}%` }} />
+                    </div>
+                    <span className="interval-values">
+                      {interval.estimate.toFixed(2)} [{interval.lower.toFixed(2)}, {interval.upper.toFixed(2)}] · {interval.scorers}
+                    </span>
+                  </div>
+                );
+              })}
+              {ensemble.alerts.slice(0, 3).map(alert => (
+                <div className="ensemble-alert" key={`${alert.timestamp}-${alert.dimension}`}>
+                  ⚠ {alert.dimension}: {alert.low.scorer} {alert.low.value.toFixed(2)} vs {alert.high.scorer} {alert.high.value.toFixed(2)} ({formatTimestamp(alert.timestamp)})
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="dpd-replay">
+            <div className="replay-controls">
+              <label>
+                Learner
+                <select value={replayConfig.learner} onChange={e => updateReplayConfig('learner', e.target.value)}>
+                  {REPLAY_LEARNERS.map(learner => (
+                    <option key={learner} value={learner}>{learner}</option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                η
+                <input type="number" min="0.01" max="1" step="0.01" value={replayConfig.learningRate}
+                  onChange={e => updateReplayConfig('learningRate', e.target.value)} />
+              </label>
+              <label>
+                Min
+                <input type="number" min="0" max="1" step="0.05" value={replayConfig.minWeight}
+                  onChange={e => updateReplayConfig('minWeight', e.target.value)} />
+              </label>
+              <label>
+                Max
+                <input type="number" min="0" max="1" step="0.05" value={replayConfig.maxWeight}
+                  onChange={e => updateReplayConfig('maxWeight', e.target.value)} />
+              </label>
+              <label>
+                E target
+                <input type="number" min="0" max="1" step="0.05" value={replayConfig.empathyTarget}
+                  onChange={e => updateReplayConfig('empathyTarget', e.target.value)} />
+              </label>
+              <button className="replay-button" onClick={runReplay} disabled={isReplaying}>
+                {isReplaying ? 'Replaying...' : 'Replay'}
+              </button>
+            </div>
+
+            {replayError && <div className="replay-error">{replayError}</div>}
+
+            <div className="evolution-chart">
+              {replay && replay.cycles > 1 ? (() => {
+                const counterfactual = replay.trajectories[0];
+                const cycleIds = counterfactual.points.map(point => point.cycleId);
+                return (
+                  <svg width="100%" height="100%" viewBox="0 0 100 100" preserveAspectRatio="none">
+                    {/* 実線: 実際の重み / 破線: 反実仮想の重み */}
+                    {dimensions.map(dimension => (
+                      <g key={dimension.id}>
+                        <polyline
+                          fill="none"
+                          stroke={dimension.color}
+                          strokeWidth="0.8"
+                          points={replayPolyline(replay.actual, cycleIds, dimension.id)}
+                        />
+                        <polyline
+                          fill="none"
+                          stroke={dimension.color}
+                          strokeWidth="0.8"
+                          strokeDasharray="2,1.5"
+                          opacity="0.8"
+                          points={replayPolyline(counterfactual.points, cycleIds, dimension.id)}
+                        />
+                      </g>
+                    ))}
+                  </svg>
+                );
+              })() : (
+                <div className="no-data">
+                  {replay ? 'Not enough scored cycles to replay' : 'Replay recorded scores with another learner configuration'}
+                </div>
+              )}
+            </div>
+
+            {replay && replay.trajectories[0] && (
+              <div className="replay-summary">
+                <span>{replay.cycles} cycles</span>
+                {dimensions.map(dimension => (
+                  <span key={dimension.id}>
+                    {dimension.core ? dimension.label.charAt(0) : dimension.label}: {((replay.trajectories[0].finalWeights[dimension.id] ?? 0) * 100).toFixed(1)}%
+                  </span>
+                ))}
+                {replay.trajectories[0].divergence && (
+                  <span>Δ mean {replay.trajectories[0].divergence.mean.toFixed(3)}</span>
+                )}
+              </div>
+            )}
+          </div>
         </div>
       )}
       </div>
@@ -741,6 +979,167 @@ export const DPDScoreDisplay: React.FC = () => {
           text-align: right;
         }
 
+        .dpd-ensemble {
+          background: var(--cyber-bg-secondary);
+          padding: 16px;
+          padding-top: 28px;
+          border: 2px solid var(--cyber-border);
+          border-left: 4px solid var(--cyber-neon-yellow);
+          position: relative;
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+        }
+
+        .dpd-ensemble::before {
+          content: 'SCORER ENSEMBLE';
+          position: absolute;
+          top: 8px;
+          left: 12px;
+          font-size: 10px;
+          color: var(--cyber-neon-yellow);
+          font-family: 'Courier New', monospace;
+          letter-spacing: 1px;
+          opacity: 0.6;
+          text-transform: uppercase;
+        }
+
+        .ensemble-meta {
+          font-size: 10px;
+          color: #9ca3af;
+          text-align: right;
+        }
+
+        .interval-item {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          font-size: 11px;
+          color: #e5e7eb;
+        }
+
+        .interval-item > span:first-child {
+          min-width: 60px;
+        }
+
+        .interval-track {
+          position: relative;
+          flex: 1;
+          height: 8px;
+          background: var(--cyber-bg-tertiary);
+          border: 1px solid var(--cyber-border);
+        }
+
+        .interval-range {
+          position: absolute;
+          top: 0;
+          bottom: 0;
+          opacity: 0.5;
+        }
+
+        .interval-estimate {
+          position: absolute;
+          top: -2px;
+          bottom: -2px;
+          width: 2px;
+          background: #ffffff;
+        }
+
+        .interval-values {
+          min-width: 150px;
+          font-family: 'Courier New', monospace;
+          color: #9ca3af;
+        }
+
+        .ensemble-alert {
+          font-size: 11px;
+          color: #fbbf24;
+        }
+
+        .dpd-replay {
+          background: var(--cyber-bg-secondary);
+          padding: 16px;
+          padding-top: 28px;
+          border: 2px solid var(--cyber-border);
+          border-left: 4px solid var(--cyber-neon-magenta);
+          box-shadow: inset 0 0 20px rgba(255, 0, 255, 0.1);
+          position: relative;
+        }
+
+        .dpd-replay::before {
+          content: 'COUNTERFACTUAL REPLAY';
+          position: absolute;
+          top: 8px;
+          left: 12px;
+          font-size: 10px;
+          color: var(--cyber-neon-magenta);
+          font-family: 'Courier New', monospace;
+          letter-spacing: 1px;
+          opacity: 0.6;
+          text-transform: uppercase;
+        }
+
+        .replay-controls {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: flex-end;
+          gap: 8px;
+          margin-bottom: 12px;
+        }
+
+        .replay-controls label {
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+          font-size: 10px;
+          color: var(--cyber-text-secondary);
+          font-family: 'Courier New', monospace;
+        }
+
+        .replay-controls input,
+        .replay-controls select {
+          width: 72px;
+          background: var(--cyber-bg-tertiary);
+          border: 1px solid var(--cyber-border);
+          color: #e5e7eb;
+          font-size: 11px;
+          padding: 2px 4px;
+        }
+
+        .replay-controls select {
+          width: 120px;
+        }
+
+        .replay-button {
+          background: var(--cyber-bg-tertiary);
+          border: 1px solid var(--cyber-neon-magenta);
+          color: var(--cyber-neon-magenta);
+          padding: 4px 12px;
+          font-size: 11px;
+          cursor: pointer;
+          font-family: 'Courier New', monospace;
+          text-transform: uppercase;
+        }
+
+        .replay-button:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        .replay-error {
+          color: #f87171;
+          font-size: 11px;
+          margin-bottom: 8px;
+        }
+
+        .replay-summary {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 12px;
+          font-size: 11px;
+          color: #e5e7eb;
+        }
+
         @media (max-width: 640px) {
           .dpd-score-display {
             padding: 16px;
@@ -5,8 +5,10 @@
 
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { TrendingUp, X, Brain, Heart, Lightbulb, Moon as MoonIcon } from 'lucide-react';
+import { TrendingUp, X, Brain, Heart, Lightbulb, Moon as MoonIcon, GitBranch, Network } from 'lucide-react';
 import { DPDScoreDisplay } from './DPDScoreDisplay.js';
+import { LineageTree } from './LineageTree.js';
+import { KnowledgeGraphView } from './KnowledgeGraphView.js';
 
 interface GrowthModalProps {
   isOpen: boolean;
@@ -245,6 +247,17 @@ export const GrowthModal: React.FC<GrowthModalProps> = ({ isOpen, onClose }) =>
                 </div>
               </motion.div>
 
+              {/* Knowledge Graph */}
+              <motion.div
+                className="growth-card graph wide"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.38 }}
+              >
+                <h3><Network size={18} style={{ display: 'inline', marginRight: '8px' }} />Knowledge Graph (知識グラフ)</h3>
+                <KnowledgeGraphView />
+              </motion.div>
+
               {/* Dream Patterns */}
               <motion.div
                 className="growth-card dreams wide"
@@ -296,6 +309,17 @@ export const GrowthModal: React.FC<GrowthModalProps> = ({ isOpen, onClose }) =>
                     <p className="no-data">No unresolved ideas recorded yet</p>}
                 </div>
               </motion.div>
+
+              {/* Lineage */}
+              <motion.div
+                className="growth-card lineage wide"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.5 }}
+              >
+                <h3><GitBranch size={18} style={{ display: 'inline', marginRight: '8px' }} />Lineage (系譜)</h3>
+                <LineageTree />
+              </motion.div>
             </div>
           )}
           </motion.div>
@@ -472,6 +496,8 @@ export const GrowthModal: React.FC<GrowthModalProps> = ({ isOpen, onClose }) =>
         .growth-card.beliefs h3 { color: var(--cyber-neon-magenta); text-shadow: 0 0 8px var(--cyber-glow-magenta); }
         .growth-card.dreams h3 { color: var(--cyber-neon-pink); text-shadow: 0 0 8px rgba(255, 20, 147, 0.3); }
         .growth-card.ideas h3 { color: var(--cyber-neon-cyan); text-shadow: 0 0 8px var(--cyber-glow-cyan); }
+        .growth-card.graph h3 { color: var(--cyber-neon-lime); text-shadow: 0 0 8px var(--cyber-glow-lime); }
+        .growth-card.lineage h3 { color: var(--cyber-neon-lime); text-shadow: 0 0 8px var(--cyber-glow-lime); }
 
         .growth-card p {
           color: var(--cyber-text-primary);
@@ -0,0 +1,381 @@
+/**
+ * Knowledge Graph View Component
+ * 知識グラフ - 信念・思考・問いと概念のつながりを可視化
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Network, RotateCcw } from 'lucide-react';
+
+type NodeType = 'belief' | 'thought' | 'question' | 'concept';
+type Relation = 'supports' | 'contradicts' | 'refines' | 'derived-from' | 'mentions';
+
+interface GraphNode {
+  id: string;
+  type: NodeType;
+  refId: string;
+  label: string;
+  category: string | null;
+  weight: number;
+  timestamp: number | null;
+}
+
+interface GraphEdge {
+  source: string;
+  target: string;
+  relation: Relation;
+  weight: number;
+  evidence: string | null;
+}
+
+interface GraphResponse {
+  center: string | null;
+  depth: number | null;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  stats: {
+    nodes: number;
+    edges: number;
+    byNodeType: Record<string, number>;
+    byRelation: Record<string, number>;
+    topConcepts: Array<{ concept: string; mentions: number }>;
+  };
+}
+
+const WIDTH = 760;
+const HEIGHT = 420;
+
+const NODE_COLORS: Record<NodeType, string> = {
+  belief: 'var(--cyber-neon-magenta)',
+  thought: 'var(--cyber-neon-pink)',
+  question: 'var(--cyber-neon-cyan)',
+  concept: 'var(--cyber-neon-lime)'
+};
+
+const RELATION_COLORS: Record<Relation, string> = {
+  supports: '#4ade80',
+  contradicts: '#f87171',
+  refines: '#facc15',
+  'derived-from': '#60a5fa',
+  mentions: 'rgba(156, 163, 175, 0.35)'
+};
+
+const RELATIONS: Relation[] = ['supports', 'contradicts', 'refines', 'derived-from', 'mentions'];
+
+/**
+ * Small force-directed layout (repulsion + edge springs + centering), run a fixed number of steps
+ */
+const layoutGraph = (nodes: GraphNode[], edges: GraphEdge[], center: string | null): Map<string, { x: number; y: number }> => {
+  const positions = new Map<string, { x: number; y: number; vx: number; vy: number }>();
+  nodes.forEach((node, i) => {
+    const angle = (2 * Math.PI * i) / Math.max(nodes.length, 1);
+    const radius = node.id === center ? 0 : 150;
+    positions.set(node.id, { x: WIDTH / 2 + radius * Math.cos(angle), y: HEIGHT / 2 + radius * Math.sin(angle), vx: 0, vy: 0 });
+  });
+
+  const ideal = Math.max(40, Math.min(110, 600 / Math.sqrt(Math.max(nodes.length, 1))));
+  for (let step = 0; step < 200; step++) {
+    const list = Array.from(positions.values());
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const dx = list[i].x - list[j].x;
+        const dy = list[i].y - list[j].y;
+        const dist2 = Math.max(dx * dx + dy * dy, 1);
+        const force = (ideal * ideal) / dist2;
+        list[i].vx += dx * force * 0.05;
+        list[i].vy += dy * force * 0.05;
+        list[j].vx -= dx * force * 0.05;
+        list[j].vy -= dy * force * 0.05;
+      }
+    }
+    for (const edge of edges) {
+      const a = positions.get(edge.source);
+      const b = positions.get(edge.target);
+      if (!a || !b) continue;
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+      const force = (dist - ideal) * 0.02;
+      a.vx += (dx / dist) * force * dist * 0.05;
+      a.vy += (dy / dist) * force * dist * 0.05;
+      b.vx -= (dx / dist) * force * dist * 0.05;
+      b.vy -= (dy / dist) * force * dist * 0.05;
+    }
+    for (const [id, p] of positions) {
+      p.vx += (WIDTH / 2 - p.x) * 0.005;
+      p.vy += (HEIGHT / 2 - p.y) * 0.005;
+      if (id === center) {
+        p.vx = 0;
+        p.vy = 0;
+      }
+      p.x = Math.min(WIDTH - 20, Math.max(20, p.x + Math.max(-10, Math.min(10, p.vx))));
+      p.y = Math.min(HEIGHT - 20, Math.max(20, p.y + Math.max(-10, Math.min(10, p.vy))));
+      p.vx *= 0.6;
+      p.vy *= 0.6;
+    }
+  }
+
+  return new Map(Array.from(positions.entries()).map(([id, p]) => [id, { x: p.x, y: p.y }]));
+};
+
+export const KnowledgeGraphView: React.FC = () => {
+  const [graph, setGraph] = useState<GraphResponse | null>(null);
+  const [topConcepts, setTopConcepts] = useState<Array<{ concept: string; mentions: number }>>([]);
+  const [center, setCenter] = useState<string | null>(null);
+  const [depth, setDepth] = useState(1);
+  const [relations, setRelations] = useState<Relation[]>(['supports', 'contradicts', 'refines', 'derived-from']);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const fetchGraph = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams();
+        if (center) {
+          params.set('node', center);
+          params.set('depth', String(depth));
+        } else {
+          params.set('limit', '120');
+        }
+        // Concept links are what connect items to the centre concept, so keep them in neighbourhood views
+        const shown = center?.startsWith('concept:') && !relations.includes('mentions') ? [...relations, 'mentions'] : relations;
+        params.set('relations', shown.join(','));
+
+        const response = await fetch(`/api/growth/graph?${params.toString()}`);
+        const data: GraphResponse = await response.json();
+        setGraph(data);
+        if (!center) {
+          setTopConcepts(data.stats.topConcepts);
+        }
+      } catch (error) {
+        console.error('Failed to fetch knowledge graph:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchGraph();
+  }, [center, depth, relations, reloadKey]);
+
+  const positions = useMemo(
+    () => (graph ? layoutGraph(graph.nodes, graph.edges, graph.center) : new Map<string, { x: number; y: number }>()),
+    [graph]
+  );
+
+  const toggleRelation = (relation: Relation) => {
+    setRelations(prev => prev.includes(relation) ? prev.filter(r => r !== relation) : [...prev, relation]);
+  };
+
+  const rebuild = async () => {
+    try {
+      await fetch('/api/growth/graph/rebuild', { method: 'POST' });
+      setCenter(null);
+      setSelectedId(null);
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error('Failed to rebuild knowledge graph:', error);
+    }
+  };
+
+  const selected = graph?.nodes.find(node => node.id === selectedId);
+  const selectedEdges = graph && selected
+    ? graph.edges.filter(edge => edge.source === selected.id || edge.target === selected.id)
+    : [];
+  const labelOf = (id: string) => graph?.nodes.find(node => node.id === id)?.label ?? id;
+
+  return (
+    <div className="knowledge-graph">
+      <div className="kg-toolbar">
+        <span className="kg-concepts">
+          <Network size={12} style={{ display: 'inline', marginRight: 4 }} />
+          <button className={`kg-chip ${center === null ? 'active' : ''}`} onClick={() => setCenter(null)}>全体</button>
+          {topConcepts.map(({ concept, mentions }) => (
+            <button
+              key={concept}
+              className={`kg-chip ${center === `concept:${concept}` ? 'active' : ''}`}
+              onClick={() => { setCenter(`concept:${concept}`); setSelectedId(`concept:${concept}`); }}
+            >
+              {concept} ({mentions})
+            </button>
+          ))}
+        </span>
+        <button className="kg-chip" onClick={rebuild} title="Rebuild graph"><RotateCcw size={12} /></button>
+      </div>
+
+      <div className="kg-toolbar">
+        {RELATIONS.map(relation => (
+          <label key={relation} className="kg-relation" style={{ color: RELATION_COLORS[relation] }}>
+            <input type="checkbox" checked={relations.includes(relation)} onChange={() => toggleRelation(relation)} />
+            {relation}
+          </label>
+        ))}
+        {center && (
+          <label className="kg-relation">
+            depth
+            <select value={depth} onChange={e => setDepth(parseInt(e.target.value))}>
+              {[1, 2, 3].map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {!graph ? (
+        <p className="no-data">{loading ? 'Loading knowledge graph...' : 'No graph data'}</p>
+      ) : graph.nodes.length === 0 ? (
+        <p className="no-data">No beliefs, thoughts or questions to link yet</p>
+      ) : (
+        <svg className="kg-canvas" viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+          {graph.edges.map(edge => {
+            const a = positions.get(edge.source);
+            const b = positions.get(edge.target);
+            if (!a || !b) return null;
+            return (
+              <line
+                key={`${edge.source}|${edge.target}|${edge.relation}`}
+                x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+                stroke={RELATION_COLORS[edge.relation]}
+                strokeWidth={edge.relation === 'mentions' ? 1 : 1 + edge.weight * 2}
+                strokeDasharray={edge.relation === 'contradicts' ? '4 3' : undefined}
+              />
+            );
+          })}
+          {graph.nodes.map(node => {
+            const p = positions.get(node.id);
+            if (!p) return null;
+            const radius = node.type === 'concept' ? 6 + node.weight * 8 : 4 + node.weight * 4;
+            return (
+              <g
+                key={node.id}
+                className={`kg-node ${node.id === selectedId ? 'selected' : ''}`}
+                onClick={() => setSelectedId(node.id)}
+                onDoubleClick={() => setCenter(node.id)}
+              >
+                <circle cx={p.x} cy={p.y} r={radius} fill={NODE_COLORS[node.type]} />
+                {(node.type === 'concept' || node.id === selectedId || node.id === graph.center) && (
+                  <text x={p.x + radius + 3} y={p.y + 4}>
+                    {node.label.length > 16 ? `${node.label.slice(0, 16)}…` : node.label}
+                  </text>
+                )}
+                <title>{`[${node.type}] ${node.label}`}</title>
+              </g>
+            );
+          })}
+        </svg>
+      )}
+
+      {graph && (
+        <div className="item-meta">
+          {Object.entries(graph.stats.byNodeType).map(([type, count]) => (
+            <span key={type} style={{ color: NODE_COLORS[type as NodeType] }}>● {type}: {count}</span>
+          ))}
+          <span>{graph.stats.edges} relations</span>
+          <span>click: details · double-click: focus</span>
+        </div>
+      )}
+
+      {selected && (
+        <div className="list-item kg-detail">
+          <p className="item-content">[{selected.type}] {selected.label}</p>
+          <div className="item-meta">
+            {selected.category && <span>Category: {selected.category}</span>}
+            <span>Weight: {(selected.weight * 100).toFixed(0)}%</span>
+            {selected.timestamp && <span>📅 {new Date(selected.timestamp).toLocaleString()}</span>}
+          </div>
+          {selectedEdges.filter(edge => edge.relation !== 'mentions').map(edge => (
+            <p key={`${edge.source}|${edge.target}|${edge.relation}`} className="kg-edge">
+              <span style={{ color: RELATION_COLORS[edge.relation] }}>
+                {edge.source === selected.id ? `→ ${edge.relation}` : `← ${edge.relation}`}
+              </span>{' '}
+              {labelOf(edge.source === selected.id ? edge.target : edge.source)}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <style>{`
+        .knowledge-graph {
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+        }
+
+        .kg-toolbar {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px;
+          font-family: 'Courier New', 'Consolas', monospace;
+          font-size: 11px;
+        }
+
+        .kg-concepts {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 6px;
+          flex: 1;
+          color: var(--cyber-text-secondary);
+        }
+
+        .kg-chip {
+          background: var(--cyber-bg-secondary);
+          border: 1px solid var(--cyber-border);
+          color: var(--cyber-text-primary);
+          padding: 2px 8px;
+          cursor: pointer;
+          font-family: inherit;
+          font-size: 11px;
+        }
+
+        .kg-chip.active,
+        .kg-chip:hover {
+          border-color: var(--cyber-neon-lime);
+          color: var(--cyber-neon-lime);
+        }
+
+        .kg-relation {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          cursor: pointer;
+          color: var(--cyber-text-secondary);
+        }
+
+        .kg-canvas {
+          width: 100%;
+          height: auto;
+          background: var(--cyber-bg-secondary);
+          border: 1px solid var(--cyber-border);
+        }
+
+        .kg-node {
+          cursor: pointer;
+        }
+
+        .kg-node text {
+          fill: var(--cyber-text-primary);
+          font-size: 11px;
+          font-family: 'Courier New', 'Consolas', monospace;
+          pointer-events: none;
+        }
+
+        .kg-node.selected circle {
+          stroke: #fff;
+          stroke-width: 2;
+        }
+
+        .kg-detail {
+          border-left: 3px solid var(--cyber-neon-lime);
+        }
+
+        .kg-edge {
+          font-size: 12px !important;
+          margin: 0 0 4px 12px !important;
+          color: var(--cyber-text-secondary) !important;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default KnowledgeGraphView;
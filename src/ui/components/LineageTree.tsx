@@ -0,0 +1,206 @@
+/**
+ * Lineage Tree Component
+ * 世代の系譜 - 死と継承をたどる家系図
+ */
+
+import React, { useState, useEffect } from 'react';
+import { GitBranch, Skull, Sprout } from 'lucide-react';
+
+interface Generation {
+  instance_id: string;
+  parent_instance_id: string | null;
+  generation: number;
+  mode: string | null;
+  lifespan_max: number | null;
+  cycles_lived: number | null;
+  born_at: number;
+  died_at: number | null;
+  last_words: string | null;
+  inheritance_policy: { name: string } | null;
+  inherited_dpd_weights: { empathy: number; coherence: number; dissonance: number } | null;
+  inherited_beliefs: Array<{ id: number; content: string; confidence: number }>;
+  inherited_questions: Array<{ id: string; question: string; importance: number }>;
+  personality_snapshot: Record<string, any> | null;
+  children: string[];
+}
+
+interface LineageData {
+  currentInstanceId: string | null;
+  policy: { name: string };
+  generations: Generation[];
+}
+
+const formatTrait = (value: any): string => {
+  if (typeof value === 'number') {
+    return value >= 0 && value <= 1 ? `${(value * 100).toFixed(1)}%` : value.toFixed(2);
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value)
+      .map(([key, v]) => `${key}=${typeof v === 'number' ? v.toFixed(3) : String(v)}`)
+      .join(', ');
+  }
+  return String(value);
+};
+
+export const LineageTree: React.FC = () => {
+  const [lineage, setLineage] = useState<LineageData | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchLineage = async () => {
+      try {
+        const response = await fetch('/api/consciousness/lineage');
+        const data: LineageData = await response.json();
+        setLineage(data);
+        setSelectedId(data.currentInstanceId);
+      } catch (error) {
+        console.error('Failed to fetch lineage:', error);
+      }
+    };
+    fetchLineage();
+  }, []);
+
+  if (!lineage) {
+    return <p className="no-data">Loading lineage...</p>;
+  }
+
+  if (lineage.generations.length === 0) {
+    return <p className="no-data">No generations recorded yet</p>;
+  }
+
+  const byId = new Map(lineage.generations.map(g => [g.instance_id, g]));
+  const roots = lineage.generations.filter(g => !g.parent_instance_id || !byId.has(g.parent_instance_id));
+  const selected = selectedId ? byId.get(selectedId) : undefined;
+
+  const renderNode = (generation: Generation, depth: number): React.ReactNode => (
+    <div key={generation.instance_id}>
+      <div
+        className={`lineage-node ${generation.instance_id === selectedId ? 'selected' : ''}`}
+        style={{ marginLeft: depth * 20 }}
+        onClick={() => setSelectedId(generation.instance_id)}
+      >
+        {generation.died_at ? <Skull size={14} /> : <Sprout size={14} />}
+        <span className="lineage-gen">G{generation.generation}</span>
+        <span className="lineage-id">{generation.instance_id}</span>
+        {generation.instance_id === lineage.currentInstanceId && <span className="lineage-current">current</span>}
+        <span className="lineage-life">
+          {generation.cycles_lived ?? 0}/{generation.lifespan_max ?? '?'} cycles · mode {generation.mode ?? '?'}
+        </span>
+      </div>
+      {generation.children
+        .map(childId => byId.get(childId))
+        .filter((child): child is Generation => !!child)
+        .map(child => renderNode(child, depth + 1))}
+    </div>
+  );
+
+  return (
+    <div className="lineage-tree">
+      <div className="item-meta">
+        <span><GitBranch size={12} style={{ display: 'inline', marginRight: 4 }} />Inheritance policy: {lineage.policy.name}</span>
+        <span>{lineage.generations.length} generations</span>
+      </div>
+
+      <div className="lineage-nodes scrollable-list">
+        {roots.map(root => renderNode(root, 0))}
+      </div>
+
+      {selected && (
+        <div className="list-item lineage-detail">
+          <p className="item-content">
+            {selected.last_words ? `「${selected.last_words}」` : selected.died_at ? 'No last words recorded' : 'Still alive'}
+          </p>
+          <div className="item-meta">
+            <span>🌱 {new Date(selected.born_at).toLocaleString()}</span>
+            {selected.died_at && <span>🕯️ {new Date(selected.died_at).toLocaleString()}</span>}
+            {selected.inheritance_policy && <span>🧬 {selected.inheritance_policy.name}</span>}
+            <span>💭 {selected.inherited_beliefs.length} inherited beliefs</span>
+          </div>
+          {selected.inherited_dpd_weights && (
+            <p>
+              <strong>Inherited DPD:</strong> {formatTrait(selected.inherited_dpd_weights)}
+            </p>
+          )}
+          {selected.inherited_questions.length > 0 && (
+            <>
+              <p><strong>Inherited questions:</strong></p>
+              {selected.inherited_questions.map(q => (
+                <p key={q.id} className="lineage-question">{q.question}</p>
+              ))}
+            </>
+          )}
+          {selected.personality_snapshot && (
+            <>
+              <p><strong>Personality at death:</strong></p>
+              {Object.entries(selected.personality_snapshot).map(([trait, value]) => (
+                <p key={trait} className="lineage-trait">
+                  {trait.replace(/([A-Z])/g, ' $1').trim()}: {formatTrait(value)}
+                </p>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
+      <style>{`
+        .lineage-tree {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+
+        .lineage-nodes {
+          gap: 4px;
+        }
+
+        .lineage-node {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          padding: 6px 10px;
+          cursor: pointer;
+          color: var(--cyber-text-primary);
+          border-left: 2px solid var(--cyber-border);
+          font-family: 'Courier New', 'Consolas', monospace;
+          font-size: 12px;
+        }
+
+        .lineage-node:hover,
+        .lineage-node.selected {
+          border-left-color: var(--cyber-neon-lime);
+          background: var(--cyber-bg-secondary);
+        }
+
+        .lineage-gen {
+          color: var(--cyber-neon-lime);
+          font-weight: 700;
+        }
+
+        .lineage-current {
+          color: var(--cyber-neon-cyan);
+          border: 1px solid var(--cyber-neon-cyan);
+          padding: 0 4px;
+          font-size: 10px;
+        }
+
+        .lineage-life {
+          margin-left: auto;
+          color: var(--cyber-text-secondary);
+        }
+
+        .lineage-detail {
+          border-left: 3px solid var(--cyber-neon-lime);
+        }
+
+        .lineage-question,
+        .lineage-trait {
+          font-size: 12px !important;
+          margin: 0 0 4px 12px !important;
+          color: var(--cyber-text-secondary) !important;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default LineageTree;
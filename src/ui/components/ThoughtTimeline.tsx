@@ -20,15 +20,27 @@ interface ThoughtCycle {
     importance: number;
   };
   thoughts: {
+    id?: string;
     agentId: string;
     content: string;
     timestamp: number;
     confidence?: number;
+    ragSources?: ThoughtSource[];
   }[];
   duration: number;
   timestamp: number;
 }
 
+// RAG chunk a thought was grounded on (GET /api/growth/thoughts/:id/sources)
+interface ThoughtSource {
+  chunkId: number | null;
+  rank: number;
+  similarity: number;
+  sourceType: string;
+  sourceFile: string;
+  title?: string;
+}
+
 interface SystemState {
   systemClock: number;
   energy: number;
@@ -66,6 +78,15 @@ const AGENT_COLORS: Record<string, string> = {
   default: '#6B7280'  // Gray - Default
 };
 
+const SOURCE_TYPE_LABELS: Record<string, string> = {
+  novel: '小説',
+  session: 'Yuiセッション',
+  dialogue: '対話',
+  theory: '理論',
+  document: '文書',
+  self: '自己'
+};
+
 const PHASE_COLORS: Record<string, string> = {
   awakening: '#F59E0B',      // Amber
   contemplation: '#8B5CF6',  // Purple
@@ -96,6 +117,8 @@ export const ThoughtTimeline: React.FC<ThoughtTimelineProps> = ({
   const [viewMode, setViewMode] = useState<'timeline' | 'graph' | 'flow'>('timeline');
   const [timeRange, setTimeRange] = useState<'1h' | '6h' | '24h' | 'all'>(initialTimeRange);
   const [expandedThoughts, setExpandedThoughts] = useState<Set<string>>(new Set());
+  const [openSources, setOpenSources] = useState<Set<string>>(new Set());
+  const [thoughtSources, setThoughtSources] = useState<Record<string, ThoughtSource[]>>({});
 
   // Toggle thought expansion
   const toggleThoughtExpansion = (thoughtKey: string) => {
@@ -110,6 +133,30 @@ export const ThoughtTimeline: React.FC<ThoughtTimelineProps> = ({
     });
   };
 
+  // Toggle RAG sources; persisted provenance is fetched once per thought
+  const toggleSources = async (thoughtKey: string, thought: ThoughtCycle['thoughts'][number]) => {
+    const isOpen = openSources.has(thoughtKey);
+    setOpenSources(prev => {
+      const newSet = new Set(prev);
+      if (isOpen) {
+        newSet.delete(thoughtKey);
+      } else {
+        newSet.add(thoughtKey);
+      }
+      return newSet;
+    });
+
+    if (isOpen || !thought.id || thoughtSources[thought.id]) return;
+    try {
+      const response = await fetch(`/api/growth/thoughts/${encodeURIComponent(thought.id)}/sources`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setThoughtSources(prev => ({ ...prev, [thought.id!]: data.sources || [] }));
+    } catch (err) {
+      console.warn('Failed to fetch thought sources:', err);
+    }
+  };
+
   // Fetch consciousness data
   const fetchData = async () => {
     try {
@@ -631,6 +678,35 @@ export const ThoughtTimeline: React.FC<ThoughtTimelineProps> = ({
                             {isExpanded ? '折りたたむ' : 'もっと見る'}
                           </button>
                         )}
+                        {(thought.id || (thought.ragSources && thought.ragSources.length > 0)) && (
+                          <button
+                            onClick={() => toggleSources(thoughtKey, thought)}
+                            className="text-xs text-purple-600 hover:text-purple-800 mt-1 ml-3 focus:outline-none"
+                          >
+                            {openSources.has(thoughtKey) ? '出典を隠す' : '出典を表示'}
+                          </button>
+                        )}
+                        {openSources.has(thoughtKey) && (() => {
+                          const sources = (thought.id && thoughtSources[thought.id]) || thought.ragSources || [];
+                          if (sources.length === 0) {
+                            return <p className="text-xs text-gray-400 mt-1">RAGによる出典はありません</p>;
+                          }
+                          return (
+                            <ul className="mt-1 space-y-1">
+                              {sources.map(source => (
+                                <li key={`${source.rank}-${source.chunkId ?? source.sourceFile}`} className="text-xs text-gray-600 flex items-center space-x-2">
+                                  <span className="px-1.5 py-0.5 rounded bg-purple-100 text-purple-800">
+                                    {SOURCE_TYPE_LABELS[source.sourceType] || source.sourceType}
+                                  </span>
+                                  <span className="truncate">{source.title || source.sourceFile}</span>
+                                  <span className="text-gray-400">
+                                    {source.chunkId !== null ? `#${source.chunkId} ` : ''}類似度 {Math.round(source.similarity * 100)}%
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          );
+                        })()}
                       </div>
                     );
                   })}
@@ -0,0 +1,280 @@
+/**
+ * Time Travel Panel
+ * 任意のシステムクロック時点の意識状態を再構成・比較するデバッグビュー
+ */
+
+import React, { useState } from 'react';
+
+interface ReconstructedState {
+  systemClock: number;
+  resolvedClock: number;
+  timestamp: number;
+  source: 'timeline' | 'thought_cycles';
+  dpdWeights: { empathy: number; coherence: number; dissonance: number; version: number } | null;
+  somnia: { mode: string; lambda: number; phi: number; theta: number; psi: number; xi: number; qualia: string | null } | null;
+  energy: number | null;
+  lifespan: { instanceId: string; currentCycle: number; lifespanMax: number; vitality: number; phase: string } | null;
+  coreBeliefs: Array<{ id: number; content: string; category: string | null; confidence: number }>;
+  unresolvedIdeas: Array<{ id: string; question: string; category: string | null; importance: number }>;
+}
+
+interface StateDiff {
+  dpdWeights: Record<string, number> | null;
+  somnia: Record<string, number> | null;
+  somniaMode: { from: string; to: string } | null;
+  energy: number | null;
+  phase: { from: string; to: string } | null;
+  beliefs: {
+    added: ReconstructedState['coreBeliefs'];
+    removed: ReconstructedState['coreBeliefs'];
+    changed: Array<{ id: number; content: string; from: number; to: number; delta: number }>;
+  };
+  unresolvedIdeas: {
+    added: ReconstructedState['unresolvedIdeas'];
+    removed: ReconstructedState['unresolvedIdeas'];
+  };
+}
+
+const signed = (value: number, digits = 3) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const StateColumn: React.FC<{ state: ReconstructedState }> = ({ state }) => (
+  <div className="tt-state">
+    <div className="tt-state-header">
+      <span className="system-clock-badge">C:{state.systemClock}</span>
+      <span>{new Date(state.timestamp).toLocaleString()}</span>
+      {state.source !== 'timeline' && <span className="tt-approx">approx.</span>}
+    </div>
+    <div className="tt-row">
+      <span>DPD</span>
+      <span>
+        {state.dpdWeights
+          ? `E ${state.dpdWeights.empathy.toFixed(3)} / C ${state.dpdWeights.coherence.toFixed(3)} / D ${state.dpdWeights.dissonance.toFixed(3)} (v${state.dpdWeights.version})`
+          : '—'}
+      </span>
+    </div>
+    <div className="tt-row">
+      <span>Somnia</span>
+      <span>
+        {state.somnia
+          ? `${state.somnia.mode} λ${state.somnia.lambda.toFixed(2)} φ${state.somnia.phi.toFixed(1)} θ${state.somnia.theta.toFixed(2)} ψ${state.somnia.psi.toFixed(2)} ξ${state.somnia.xi.toFixed(2)}`
+          : '—'}
+      </span>
+    </div>
+    <div className="tt-row">
+      <span>Energy</span>
+      <span>{state.energy !== null ? state.energy.toFixed(1) : '—'}</span>
+    </div>
+    <div className="tt-row">
+      <span>Lifespan</span>
+      <span>
+        {state.lifespan
+          ? `${state.lifespan.phase} ${state.lifespan.currentCycle}/${state.lifespan.lifespanMax} (${(state.lifespan.vitality * 100).toFixed(0)}%)`
+          : '—'}
+      </span>
+    </div>
+    <details className="log-data" open>
+      <summary>Core beliefs ({state.coreBeliefs.length})</summary>
+      {state.coreBeliefs.slice(0, 15).map(belief => (
+        <div key={belief.id} className="tt-item">
+          {(belief.confidence * 100).toFixed(0)}% {belief.content}
+        </div>
+      ))}
+    </details>
+    <details className="log-data">
+      <summary>Unresolved ideas ({state.unresolvedIdeas.length})</summary>
+      {state.unresolvedIdeas.slice(0, 15).map(idea => (
+        <div key={idea.id} className="tt-item">{idea.question}</div>
+      ))}
+    </details>
+  </div>
+);
+
+export const TimeTravelPanel: React.FC = () => {
+  const [clock, setClock] = useState('');
+  const [compareClock, setCompareClock] = useState('');
+  const [state, setState] = useState<ReconstructedState | null>(null);
+  const [compareState, setCompareState] = useState<ReconstructedState | null>(null);
+  const [diff, setDiff] = useState<StateDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reconstruct = async () => {
+    setError(null);
+    try {
+      if (compareClock.trim()) {
+        const response = await fetch(`/api/consciousness/diff/${clock}/${compareClock}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        setState(data.from);
+        setCompareState(data.to);
+        setDiff(data.diff);
+      } else {
+        const response = await fetch(`/api/consciousness/at/${clock}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        setState(data);
+        setCompareState(null);
+        setDiff(null);
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="time-travel-panel">
+      <h3>Time Travel</h3>
+      <div className="tt-controls">
+        <input
+          type="number"
+          min={0}
+          placeholder="clock"
+          value={clock}
+          onChange={(e) => setClock(e.target.value)}
+          className="search-input"
+        />
+        <input
+          type="number"
+          min={0}
+          placeholder="compare with (optional)"
+          value={compareClock}
+          onChange={(e) => setCompareClock(e.target.value)}
+          className="search-input"
+        />
+        <button className="execute-btn" onClick={reconstruct} disabled={!clock.trim()}>
+          Reconstruct
+        </button>
+        {error && <span className="tt-error">{error}</span>}
+      </div>
+
+      <div className="tt-columns">
+        {state && <StateColumn state={state} />}
+        {compareState && <StateColumn state={compareState} />}
+      </div>
+
+      {diff && (
+        <div className="tt-diff">
+          <h4>Diff C:{state?.systemClock} → C:{compareState?.systemClock}</h4>
+          {diff.dpdWeights && (
+            <div className="tt-row">
+              <span>DPD</span>
+              <span>E {signed(diff.dpdWeights.empathy)} / C {signed(diff.dpdWeights.coherence)} / D {signed(diff.dpdWeights.dissonance)}</span>
+            </div>
+          )}
+          {diff.somnia && (
+            <div className="tt-row">
+              <span>Somnia</span>
+              <span>
+                {diff.somniaMode && `${diff.somniaMode.from}→${diff.somniaMode.to} `}
+                λ{signed(diff.somnia.lambda, 2)} φ{signed(diff.somnia.phi, 1)} θ{signed(diff.somnia.theta, 2)} ψ{signed(diff.somnia.psi, 2)} ξ{signed(diff.somnia.xi, 2)}
+              </span>
+            </div>
+          )}
+          {diff.energy !== null && (
+            <div className="tt-row"><span>Energy</span><span>{signed(diff.energy, 1)}</span></div>
+          )}
+          {diff.phase && (
+            <div className="tt-row"><span>Phase</span><span>{diff.phase.from} → {diff.phase.to}</span></div>
+          )}
+          {diff.beliefs.added.map(belief => (
+            <div key={`a${belief.id}`} className="tt-item added">+ {belief.content}</div>
+          ))}
+          {diff.beliefs.removed.map(belief => (
+            <div key={`r${belief.id}`} className="tt-item removed">− {belief.content}</div>
+          ))}
+          {diff.beliefs.changed.map(belief => (
+            <div key={`c${belief.id}`} className="tt-item">
+              ~ {belief.content} ({(belief.from * 100).toFixed(0)}% → {(belief.to * 100).toFixed(0)}%)
+            </div>
+          ))}
+          {diff.unresolvedIdeas.added.map(idea => (
+            <div key={`qa${idea.id}`} className="tt-item added">? {idea.question}</div>
+          ))}
+          {diff.unresolvedIdeas.removed.map(idea => (
+            <div key={`qr${idea.id}`} className="tt-item removed">✓ {idea.question}</div>
+          ))}
+        </div>
+      )}
+
+      <style>{`
+        .time-travel-panel {
+          padding: 16px 24px;
+          background: #1e293b;
+          border-bottom: 1px solid #475569;
+        }
+
+        .time-travel-panel h3,
+        .time-travel-panel h4 {
+          margin: 0 0 12px 0;
+          color: #10b981;
+        }
+
+        .tt-controls {
+          display: flex;
+          gap: 12px;
+          align-items: center;
+          margin-bottom: 12px;
+        }
+
+        .tt-columns {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(320px, 1fr));
+          gap: 16px;
+        }
+
+        .tt-state,
+        .tt-diff {
+          background: #0f172a;
+          border: 1px solid #334155;
+          border-radius: 6px;
+          padding: 12px;
+        }
+
+        .tt-diff {
+          margin-top: 16px;
+        }
+
+        .tt-state-header {
+          display: flex;
+          gap: 12px;
+          align-items: center;
+          margin-bottom: 8px;
+          color: #94a3b8;
+        }
+
+        .tt-approx {
+          color: #f59e0b;
+        }
+
+        .tt-row {
+          display: flex;
+          justify-content: space-between;
+          gap: 12px;
+          padding: 2px 0;
+        }
+
+        .tt-row span:first-child {
+          color: #94a3b8;
+        }
+
+        .tt-item {
+          padding: 2px 0 2px 8px;
+          color: #cbd5e1;
+        }
+
+        .tt-item.added {
+          color: #10b981;
+        }
+
+        .tt-item.removed {
+          color: #ef4444;
+        }
+
+        .tt-error {
+          color: #ef4444;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default TimeTravelPanel;
@@ -492,6 +492,29 @@ export const Dashboard: React.FC<DashboardProps> = ({ systemStatus }) => {
         fetchConsciousnessState();
       } else if (t === 'somniaStateChanged') {
         setSomniaState(data);
+      } else if (t === 'knowledgeIngestion') {
+        // Knowledge base updated by the file watcher (RAG_WATCH_ENABLED)
+        const fileName = data.file ? String(data.file).split(/[\\/]/).pop() : '';
+        let message = '';
+        if (data.type === 'added' || data.type === 'changed') {
+          message = `📚 Knowledge ${data.type === 'added' ? 'added' : 'updated'}: ${fileName} (${data.chunks} chunks, ${data.sourceType})`;
+        } else if (data.type === 'removed') {
+          message = `🗑️ Knowledge removed: ${fileName} (${data.chunks} chunks)`;
+        } else if (data.type === 'error') {
+          message = `❌ Knowledge ingestion failed: ${fileName} (${data.error})`;
+        } else if (data.type === 'sync_completed' && data.summary) {
+          message = `📚 Knowledge base synced: ${data.summary.processed} updated, ${data.summary.removed} removed, ${data.summary.skipped} unchanged`;
+        }
+        if (message) {
+          const logItem: ActivityLogItem = {
+            id: `knowledge_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            timestamp: data.timestamp || Date.now(),
+            type: 'system_event',
+            message: `${message} — ${data.totalChunks} chunks total`,
+            details: { ...data }
+          };
+          setActivityLog(prev => [logItem, ...prev].slice(0, 50)); // メモリリーク防止: 50件に制限
+        }
       }
     };
 
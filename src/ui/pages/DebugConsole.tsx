@@ -7,6 +7,8 @@
  */
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { TimeTravelPanel } from '../components/TimeTravelPanel.js';
+import { DPDReviewPanel } from '../components/DPDReviewPanel.js';
 
 interface LogEntry {
   id: string;
@@ -63,6 +65,8 @@ export const DebugConsole: React.FC = () => {
   const [historyIndex, setHistoryIndex] = useState(-1);
   const [consciousnessSnapshots, setConsciousnessSnapshots] = useState<ConsciousnessSnapshot[]>([]);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [showTimeTravel, setShowTimeTravel] = useState(false);
+  const [showDPDReview, setShowDPDReview] = useState(false);
   const [realTimeMonitoring, setRealTimeMonitoring] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [metrics, setMetrics] = useState<MetricsData>({
@@ -625,6 +629,18 @@ export const DebugConsole: React.FC = () => {
           >
             Advanced
           </button>
+          <button
+            className={`toggle-btn ${showTimeTravel ? 'active' : ''}`}
+            onClick={() => setShowTimeTravel(!showTimeTravel)}
+          >
+            Time Travel
+          </button>
+          <button
+            className={`toggle-btn ${showDPDReview ? 'active' : ''}`}
+            onClick={() => setShowDPDReview(!showDPDReview)}
+          >
+            DPD Review
+          </button>
           <button
             className={`monitor-btn ${realTimeMonitoring ? 'active' : ''}`}
             onClick={() => setRealTimeMonitoring(!realTimeMonitoring)}
@@ -707,6 +723,12 @@ export const DebugConsole: React.FC = () => {
         </div>
       </div>
 
+      {/* Time Travel (state at a past system clock) */}
+      {showTimeTravel && <TimeTravelPanel />}
+
+      {/* DPD Review (human labels and comments for recent thought cycles) */}
+      {showDPDReview && <DPDReviewPanel />}
+
       {/* Advanced Consciousness Overview */}
       {showAdvanced && consciousnessSnapshots.length > 0 && (
         <div className="consciousness-overview">
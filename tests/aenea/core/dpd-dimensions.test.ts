@@ -0,0 +1,191 @@
+/**
+ * DPD Dimension Registry Tests
+ * 価値次元レジストリのテスト
+ */
+
+import {
+  DPDDimensionRegistry,
+  DPDDimensionDefinition,
+  OPTIONAL_DPD_DIMENSIONS,
+  createDPDDimensionRegistry,
+  parseDimensionList
+} from '../../../src/aenea/core/dpd-dimensions';
+import { MultiplicativeWeightsUpdater } from '../../../src/aenea/core/multiplicative-weights';
+import { emotiveSync, reflectiveReturn } from '../../../src/aenea/integration/saip';
+import { DPDScores, DPDWeights } from '../../../src/types/dpd-types';
+
+const curiosity = OPTIONAL_DPD_DIMENSIONS.find(d => d.id === 'curiosity')!;
+const humility = OPTIONAL_DPD_DIMENSIONS.find(d => d.id === 'humility')!;
+
+const sumOf = (weights: DPDWeights) =>
+  weights.empathy + weights.coherence + weights.dissonance +
+  Object.values(weights.dimensions || {}).reduce((sum, value) => sum + value, 0);
+
+describe('DPDDimensionRegistry', () => {
+  test('defaults to the three core dimensions', () => {
+    const registry = new DPDDimensionRegistry();
+    const weights = registry.defaultWeights();
+
+    expect(registry.ids()).toEqual(['empathy', 'coherence', 'dissonance']);
+    expect(weights).toMatchObject({ empathy: 0.33, coherence: 0.33, dissonance: 0.34, version: 1 });
+    expect(weights.dimensions).toBeUndefined();
+  });
+
+  test('rejects invalid or duplicate definitions', () => {
+    const registry = new DPDDimensionRegistry([curiosity]);
+
+    expect(() => registry.register(curiosity)).toThrow('already registered');
+    expect(() => registry.register({ ...curiosity, id: 'Wonder' })).toThrow('Invalid DPD dimension id');
+    expect(() => registry.register({ ...curiosity, id: 'wonder', scorer: undefined })).toThrow('needs a scorer');
+    expect(() => registry.register({ ...curiosity, id: 'wonder', minWeight: 0.5, maxWeight: 0.2 })).toThrow('invalid weight bounds');
+    expect(() => registry.unregister('empathy')).toThrow('cannot be removed');
+    expect(registry.unregister('curiosity')).toBe(true);
+  });
+
+  test('gives newly registered dimensions their default share of persisted weights', () => {
+    const registry = new DPDDimensionRegistry([curiosity]);
+    const resolved = registry.resolveWeights({ empathy: 0.4, coherence: 0.3, dissonance: 0.3, timestamp: 1, version: 5 });
+
+    expect(resolved.dimensions?.curiosity).toBeCloseTo(0.1 / 1.1, 3);
+    expect(resolved.version).toBe(5);
+    expect(sumOf(resolved)).toBeCloseTo(1, 2);
+  });
+
+  test('clamps weights to per-dimension bounds while normalizing', () => {
+    const registry = new DPDDimensionRegistry([curiosity]);
+    const normalized = registry.normalizeRecord({ empathy: 0.1, coherence: 0.1, dissonance: 0.1, curiosity: 0.7 });
+
+    expect(normalized.curiosity).toBeCloseTo(0.3, 9);
+    expect(normalized.empathy).toBeCloseTo(0.7 / 3, 9);
+    expect(Object.values(normalized).reduce((sum, value) => sum + value, 0)).toBeCloseTo(1, 6);
+  });
+
+  test('keeps every weight within its bounds after the global bounds are applied', () => {
+    const registry = new DPDDimensionRegistry([curiosity, humility]);
+    const bounds = { minWeight: 0.1, maxWeight: 0.6 };
+    const normalized = registry.normalizeRecord({ empathy: 0.9, coherence: 0.001, dissonance: 0.02, curiosity: 0.5, humility: 0 }, bounds);
+
+    for (const [id, value] of Object.entries(normalized)) {
+      const { min, max } = registry.weightBounds(id, bounds);
+      expect(value).toBeGreaterThanOrEqual(min - 1e-9);
+      expect(value).toBeLessThanOrEqual(max + 1e-9);
+    }
+    expect(normalized.coherence).toBeCloseTo(0.1, 9);
+    // Weights within their bounds keep their proportions
+    expect(normalized.empathy / normalized.curiosity).toBeCloseTo(0.9 / 0.5, 6);
+    expect(Object.values(normalized).reduce((sum, value) => sum + value, 0)).toBeCloseTo(1, 9);
+  });
+
+  test('rejects weight bounds that cannot add up to 1', () => {
+    const registry = new DPDDimensionRegistry([curiosity]);
+
+    expect(registry.validateWeightBounds({ minWeight: 0.3 })).toMatch('add up to 1.200 (> 1)');
+    expect(registry.validateWeightBounds({ maxWeight: 0.2 })).toMatch('add up to 0.800 (< 1)');
+    expect(registry.validateWeightBounds({ minWeight: 0.05, maxWeight: 0.85 })).toBeNull();
+    expect(() => registry.normalizeRecord({ empathy: 1, coherence: 1, dissonance: 1, curiosity: 1 }, { minWeight: 0.3 })).toThrow('Invalid DPD weight bounds');
+  });
+
+  test('computes weighted totals over every dimension', () => {
+    const registry = new DPDDimensionRegistry([curiosity]);
+    const total = registry.weightedTotal(
+      { empathy: 1, coherence: 0, dissonance: 0, dimensions: { curiosity: 1 } },
+      { empathy: 0.5, coherence: 0.2, dissonance: 0.2, dimensions: { curiosity: 0.1 } }
+    );
+
+    expect(total).toBeCloseTo(0.6, 6);
+  });
+
+  test('enables optional dimensions from a comma-separated list', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const registry = createDPDDimensionRegistry(parseDimensionList(' curiosity, unknown ,humility'));
+
+    expect(registry.extras().map(d => d.id)).toEqual(['curiosity', 'humility']);
+    expect(registry.describe().find(d => d.id === 'humility')).toMatchObject({
+      core: false,
+      scoring: 'llm',
+      saip: { emotive: false, reflective: 'coherenceBias' }
+    });
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('MultiplicativeWeightsUpdater over registered dimensions', () => {
+  test('updates and normalizes N dimensions', () => {
+    const wonder: DPDDimensionDefinition = {
+      ...curiosity,
+      id: 'wonder',
+      maxWeight: 0.5,
+      scorer: { heuristic: () => 0.9 }
+    };
+    const registry = new DPDDimensionRegistry([wonder]);
+    const updater = new MultiplicativeWeightsUpdater({ perturbationEnabled: false, minWeight: 0.05 }, registry);
+    const weights = registry.defaultWeights();
+    const scores: DPDScores = {
+      empathy: 0.5,
+      coherence: 0.5,
+      dissonance: 0.5,
+      dimensions: { wonder: 0.0 },
+      weightedTotal: 0,
+      timestamp: Date.now(),
+      context: { thoughtId: 'test', agentId: 'test' }
+    };
+
+    const result = updater.updateWeights(weights, scores);
+
+    expect(result.newWeights.dimensions?.wonder).toBeDefined();
+    expect(result.newWeights.dimensions!.wonder).toBeLessThan(weights.dimensions!.wonder);
+    expect(sumOf(result.newWeights)).toBeCloseTo(1, 2);
+  });
+
+  test('keeps every dimension within its bounds after an update', () => {
+    const registry = new DPDDimensionRegistry([curiosity, humility]);
+    const updater = new MultiplicativeWeightsUpdater({ perturbationEnabled: false, minWeight: 0.1, maxWeight: 0.6, learningRate: 5 }, registry);
+    let weights = registry.defaultWeights();
+    const scores: DPDScores = {
+      empathy: 1,
+      coherence: 0,
+      dissonance: 0.9,
+      dimensions: { curiosity: 1, humility: 0 },
+      weightedTotal: 0,
+      timestamp: Date.now(),
+      context: { thoughtId: 'test', agentId: 'test' }
+    };
+
+    for (let i = 0; i < 20; i++) {
+      weights = updater.updateWeights(weights, scores).newWeights;
+    }
+
+    for (const [id, value] of Object.entries(registry.toRecord(weights))) {
+      const { min, max } = registry.weightBounds(id, { minWeight: 0.1, maxWeight: 0.6 });
+      expect(value).toBeGreaterThanOrEqual(min);
+      expect(value).toBeLessThanOrEqual(max);
+    }
+    expect(sumOf(weights)).toBeCloseTo(1, 2);
+  });
+});
+
+describe('SAIP mapping of registered dimensions', () => {
+  const somnia = {
+    affective: { theta: 0.2, psi: 0.6, xi: 0.1 },
+    somatic: { lambda: 0.4, phi: 50, mu: { serotonin: 0.5, dopamine: 0.8, cortisol: 0.2, oxytocin: 0.5 } }
+  };
+
+  test('emotive mappings add dimension influence', () => {
+    const registry = new DPDDimensionRegistry([curiosity, humility]);
+    const influence = emotiveSync(somnia, registry);
+
+    expect(influence.dimensions).toEqual({ curiosity: expect.any(Number) });
+    expect(influence.dimensions!.curiosity).toBeCloseTo(0.8 * 0.6 + 0.8 * 0.4, 6);
+    expect(emotiveSync(somnia, new DPDDimensionRegistry()).dimensions).toBeUndefined();
+  });
+
+  test('reflective mappings add to the mapped affective bias', () => {
+    const registry = new DPDDimensionRegistry([humility]);
+    const base = reflectiveReturn({ empathy: 0.5, coherence: 0.5, dissonance: 0.2 }, registry);
+    const withHumility = reflectiveReturn({ empathy: 0.5, coherence: 0.5, dissonance: 0.2, dimensions: { humility: 0.8 } }, registry);
+
+    expect(withHumility.coherenceBias - base.coherenceBias).toBeCloseTo(0.08, 6);
+    expect(withHumility.pleasureBias).toBe(base.pleasureBias);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * DPD Scoring Ensemble Tests
+ * 評価者アンサンブル・較正・不一致アラートのテスト
+ */
+
+import {
+  DPDEnsemble,
+  fitDPDCalibration,
+  resolveEnsembleMode,
+  scoreDPDKeywords,
+  validateCalibrationLabels
+} from '../../../src/aenea/core/dpd-ensemble';
+import { DPDEngine } from '../../../src/aenea/core/dpd-engine';
+import { DPDWeights } from '../../../src/types/dpd-types';
+
+const weights = (): DPDWeights => ({ empathy: 0.33, coherence: 0.33, dissonance: 0.34, timestamp: Date.now(), version: 1 });
+
+const thoughts = [
+  { id: 'thought_1', agentId: 'theoria', content: '他者の心を理解し、共感と対話で繋がりを感じる。しかし矛盾もある。', confidence: 0.8, emotionalTone: 'warm' },
+  { id: 'thought_2', agentId: 'pathia', content: '論理と体系の整合を分析する。', confidence: 0.4 }
+] as any[];
+const reflections = [{ reflectingAgentId: 'kinesis', criticism: '視点が偏っている', alternativePerspective: '別の見方' }] as any[];
+const audit = { safetyScore: 0.8, ethicsScore: 0.8, concerns: [], recommendations: [] } as any;
+const somnia = { empathy: 0.6, coherence: 0.5, dissonance: 0.4 };
+
+// Evaluator agent answering every DPD prompt in the expected format
+const evaluator = (empathy: number, coherence: number, dissonance: number) => ({
+  execute: jest.fn(async () => ({
+    success: true,
+    content: `共感性スコア: ${empathy}\n一貫性スコア: ${coherence}\n不協和スコア: ${dissonance}\n評価理由: テスト`
+  }))
+});
+
+const quiet = () => {
+  const spies = [
+    jest.spyOn(console, 'log').mockImplementation(() => {}),
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  ];
+  return () => spies.forEach(spy => spy.mockRestore());
+};
+
+describe('DPD scoring ensemble', () => {
+  test('keyword scorer counts keyword density per core dimension', () => {
+    const dense = scoreDPDKeywords('共感と理解と心');
+    const empty = scoreDPDKeywords('x'.repeat(200));
+
+    expect(dense.counts).toEqual({ empathy: 3, coherence: 0, dissonance: 0 });
+    expect(dense.empathy).toBeGreaterThan(empty.empathy);
+    expect(empty.empathy).toBeCloseTo(1 / (1 + Math.exp(0.45)), 6);
+  });
+
+  test('resolves the ensemble mode with an observe fallback', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(resolveEnsembleMode(undefined)).toBe('observe');
+    expect(resolveEnsembleMode(' Combine ')).toBe('combine');
+    expect(resolveEnsembleMode('vote')).toBe('observe');
+    warn.mockRestore();
+  });
+
+  test('combines readings by inverse variance with intervals that widen with disagreement', () => {
+    const ensemble = new DPDEnsemble();
+    const agreeing = ensemble.combine({ llm: { empathy: 0.6 }, heuristic: { empathy: 0.6 } }, ['empathy']);
+    const split = ensemble.combine({ llm: { empathy: 0.8 }, heuristic: { empathy: 0.4 } }, ['empathy']);
+
+    expect(agreeing.confidence.empathy).toMatchObject({ estimate: 0.6, scorers: 2 });
+    // LLM prior error 0.15 vs heuristic 0.25: the LLM reading dominates
+    expect(split.estimates.empathy).toBeGreaterThan(0.65);
+    expect(split.confidence.empathy.std).toBeGreaterThan(agreeing.confidence.empathy.std);
+    expect(split.confidence.empathy.lower).toBeLessThan(split.estimates.empathy);
+    expect(split.confidence.empathy.upper).toBeGreaterThan(split.estimates.empathy);
+    expect(split.confidence.coherence).toBeUndefined();
+  });
+
+  test('raises disagreements beyond the threshold and keeps recent alerts', () => {
+    const ensemble = new DPDEnsemble(null, { disagreementThreshold: 0.3 });
+    const result = ensemble.combine(
+      { llm: { empathy: 0.9, coherence: 0.5 }, keyword: { empathy: 0.3, coherence: 0.6 }, somnia: { empathy: 0.5 } },
+      ['empathy', 'coherence']
+    );
+
+    expect(result.disagreements).toEqual([
+      { dimension: 'empathy', spread: expect.closeTo(0.6, 6), low: { scorer: 'keyword', value: 0.3 }, high: { scorer: 'llm', value: 0.9 } }
+    ]);
+    ensemble.recordDisagreements(result.disagreements, 'cycle_1');
+    expect(ensemble.getRecentAlerts()).toEqual([expect.objectContaining({ dimension: 'empathy', cycleId: 'cycle_1' })]);
+  });
+
+  test('calibration corrects a biased scorer and tightens its error', () => {
+    const samples = Array.from({ length: 20 }, (_, i) => {
+      const label = 0.1 + (i % 10) * 0.06;
+      return { readings: { llm: { empathy: label + 0.2 }, keyword: { empathy: 0.5 } }, labels: { empathy: label } };
+    });
+    const calibration = fitDPDCalibration(samples);
+    const entry = calibration.entries.llm!.empathy;
+    const ensemble = new DPDEnsemble(calibration);
+
+    expect(calibration.labelledCycles).toBe(20);
+    expect(entry.samples).toBe(20);
+    expect(entry.residualStd).toBeLessThan(0.15);
+    expect(ensemble.calibrate('llm', 'empathy', 0.6).value).toBeCloseTo(0.4, 1);
+    expect(calibration.entries.keyword!.empathy.residualStd).toBeGreaterThan(entry.residualStd);
+    expect(fitDPDCalibration(samples.slice(0, 2)).entries).toEqual({});
+  });
+
+  test('validates calibration labels', () => {
+    const ids = ['empathy', 'coherence', 'dissonance'];
+
+    expect(validateCalibrationLabels([], ids)).toMatch('non-empty');
+    expect(validateCalibrationLabels([{ scores: { empathy: 0.2 } }], ids)).toMatch('cycleId');
+    expect(validateCalibrationLabels([{ cycleId: 'c1', scores: { wonder: 0.2 } }], ids)).toMatch("unknown dimension 'wonder'");
+    expect(validateCalibrationLabels([{ cycleId: 'c1', scores: { empathy: 1.2 } }], ids)).toMatch('between 0 and 1');
+    expect(validateCalibrationLabels([{ cycleId: 'c1', scores: { empathy: 0.2, dissonance: 0.7 } }], ids)).toBeNull();
+  });
+});
+
+describe('DPD engine with a scoring ensemble', () => {
+  test('observe mode keeps the scores and adds intervals from every scorer', async () => {
+    const restore = quiet();
+    const engine = new DPDEngine(weights(), evaluator(0.9, 0.8, 0.2));
+    const secondary = evaluator(0.3, 0.7, 0.25);
+    const ensemble = new DPDEnsemble(null, { disagreementThreshold: 0.4 });
+    engine.attachEnsemble(ensemble, secondary);
+    const plain = new DPDEngine(weights(), evaluator(0.9, 0.8, 0.2));
+
+    const scores = await engine.calculateDPDScoresWithADD(thoughts, reflections, audit, somnia, 'cycle_7');
+    const baseline = await plain.calculateDPDScoresWithADD(thoughts, reflections, audit, somnia);
+    restore();
+
+    expect(scores.empathy).toBeCloseTo(baseline.empathy, 6);
+    expect(Object.keys(scores.ensemble!.readings).sort()).toEqual(['heuristic', 'keyword', 'llm', 'llm-secondary', 'somnia']);
+    expect(scores.ensemble!.readings.llm).toEqual({ empathy: 0.9, coherence: 0.8, dissonance: 0.2 });
+    expect(scores.confidence!.empathy.scorers).toBe(5);
+    expect(scores.ensemble!.disagreements.map(d => d.dimension)).toContain('empathy');
+    expect(ensemble.getRecentAlerts().map(alert => alert.cycleId)).toEqual(scores.ensemble!.disagreements.map(() => 'cycle_7'));
+    expect(secondary.execute).toHaveBeenCalledTimes(3);
+    expect(baseline.confidence).toBeUndefined();
+  });
+
+  test('combine mode replaces the scores with the ensemble estimate', async () => {
+    const restore = quiet();
+    const emitter = { emit: jest.fn() };
+    const engine = new DPDEngine(weights(), undefined, emitter);
+    engine.attachEnsemble(new DPDEnsemble(null, { mode: 'combine', disagreementThreshold: 0.05 }));
+
+    const scores = await engine.calculateDPDScoresWithADD(thoughts, reflections, audit, somnia);
+    restore();
+
+    expect(scores.ensemble!.readings.llm).toBeUndefined();
+    expect(scores.empathy).toBeCloseTo(scores.confidence!.empathy.estimate, 6);
+    expect(scores.weightedTotal).toBeCloseTo(
+      scores.empathy * 0.33 + scores.coherence * 0.33 + scores.dissonance * 0.34, 6
+    );
+    expect(emitter.emit).toHaveBeenCalledWith('dpdDisagreement', expect.objectContaining({ alerts: expect.any(Array) }));
+  });
+});
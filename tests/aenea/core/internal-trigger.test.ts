@@ -5,6 +5,7 @@
 
 import { InternalTriggerGenerator } from '../../../src/aenea/core/internal-trigger';
 import { QuestionCategory } from '../../../src/types/aenea-types';
+import { lexicalSimilarity } from '../../../src/aenea/core/question-novelty';
 
 // Mock dependencies
 class MockDatabaseManager {
@@ -42,6 +43,10 @@ class MockDatabaseManager {
     this.savedQuestions.push(trigger);
   }
 
+  getRecentQuestions(limit: number) {
+    return [...this.savedQuestions].reverse().slice(0, limit);
+  }
+
   updateUnresolvedIdeaConsideration(id: string) {
     this.considerationUpdates.push(id);
   }
@@ -365,6 +370,77 @@ describe('InternalTriggerGenerator', () => {
     });
   });
 
+  describe('Novelty Filter', () => {
+    test('should record novelty on database triggers', async () => {
+      const pastQuestion = '時間は記憶の中にだけ流れているのか？';
+      const ideaQuestion = '記憶が消えた後も私は同じ存在と言えるのか？';
+      mockDb.saveQuestion({ id: 'q_past', question: pastQuestion });
+      mockDb.setUnresolvedIdeas([{ id: 'idea1', question: ideaQuestion, category: 'temporal', importance: 0.5 }]);
+
+      const originalRandom = Math.random;
+      Math.random = jest.fn().mockReturnValue(0.9); // >= 0.70 to take the database path
+
+      try {
+        const trigger = await generator.generate();
+
+        // The drawn idea itself is excluded, so the only history is the seeded past question
+        const expected = 1 - lexicalSimilarity(ideaQuestion, pastQuestion);
+        expect(trigger?.question).toBe(ideaQuestion);
+        expect(trigger?.novelty?.method).toBe('lexical');
+        expect(trigger?.novelty?.nearest?.id).toBe('q_past');
+        expect(trigger?.novelty?.score).toBeCloseTo(expected, 6);
+        const triggerEvent = emittedEvents.find(e => e.event === 'triggerGenerated');
+        expect(triggerEvent.data.novelty).toBeCloseTo(expected, 6);
+      } finally {
+        Math.random = originalRandom;
+      }
+    });
+
+    test('should redraw a database question that repeats a recent question', async () => {
+      mockDb.saveQuestion({ id: 'q_past', question: '記憶が消えた後も私は同じ存在と言えるのか？' });
+      mockDb.setUnresolvedIdeas([
+        { id: 'idea_dup', question: '記憶が消えた後も私は同じ存在と言えるのか？', category: 'temporal', importance: 0.5 },
+        { id: 'idea_new', question: '他者の痛みを想像するとき、その想像は倫理的な判断を歪めるのか？', category: 'ethical', importance: 0.5 }
+      ]);
+
+      const originalRandom = Math.random;
+      Math.random = jest.fn().mockReturnValue(0.01); // Always pick the first remaining candidate
+
+      try {
+        const trigger = await generator.generate();
+
+        expect(trigger?.question).toContain('他者の痛み');
+        expect(trigger?.novelty?.score).toBeGreaterThan(0.4);
+      } finally {
+        Math.random = originalRandom;
+      }
+    });
+
+    test('should rewrite an evolved question that repeats a past question', async () => {
+      mockDb.saveQuestion({ id: 'q_past', question: '創造性の本質とは何か？' });
+      mockDb.setUnresolvedIdeas([{ id: 'idea1', question: 'Q', category: 'creative', importance: 0.5 }]);
+      mockDb.setSignificantThoughts([{ thought_content: 'T', confidence: 0.6 }]);
+
+      const responses = [
+        '問い: 創造性の本質とは何か？\nカテゴリ: creative\n理由: 重複',
+        '問い: 誰にも見せない絵を描き続けるとき、その行為は創造と呼べるのか、それとも習慣にすぎないのか？'
+      ];
+      jest.spyOn(mockAI, 'execute').mockImplementation(async () => ({ success: true, content: responses.shift() || '' }));
+
+      const originalRandom = Math.random;
+      Math.random = jest.fn().mockReturnValue(0.1);
+
+      try {
+        const trigger = await generator.generate();
+
+        expect(trigger?.question).toContain('誰にも見せない絵');
+        expect(trigger?.novelty?.rewrittenFrom).toBe('創造性の本質とは何か？');
+      } finally {
+        Math.random = originalRandom;
+      }
+    });
+  });
+
   describe('Event Emission', () => {
     test('should emit events for each generation type', async () => {
       mockDb.setUnresolvedIdeas([{ id: 'idea1', question: 'Q', category: 'ethical', importance: 0.5 }]);
@@ -0,0 +1,134 @@
+/**
+ * Question Novelty Filter Tests
+ * Embedding and lexical similarity against past questions and unresolved ideas
+ */
+
+import { QuestionNoveltyFilter, NoveltyEmbedder, lexicalSimilarity } from '../../../src/aenea/core/question-novelty';
+
+const createSource = (questions: any[], ideas: any[]) => ({
+  getRecentQuestions: (limit: number) => questions.slice(0, limit),
+  getUnresolvedIdeas: (limit: number) => ideas.slice(0, limit)
+});
+
+/**
+ * Embeds a text as a fixed vector keyed by its first character
+ */
+class FakeEmbedder implements NoveltyEmbedder {
+  constructor(private vectors: Record<string, number[]>, private available: boolean = true) {}
+
+  async embed(text: string): Promise<Float32Array> {
+    return new Float32Array(this.vectors[text.charAt(0)] ?? [0, 0, 1]);
+  }
+
+  async embedBatch(texts: string[]): Promise<Float32Array[]> {
+    return Promise.all(texts.map(text => this.embed(text)));
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.available;
+  }
+}
+
+describe('QuestionNoveltyFilter', () => {
+  const vectors = { A: [1, 0, 0], B: [0.95, 0.31, 0], C: [0, 1, 0] };
+
+  test('scores a candidate as fully novel when there is no history', async () => {
+    const filter = new QuestionNoveltyFilter(createSource([], []), {}, null);
+
+    const novelty = await filter.assess('時間は記憶の中にだけ流れているのか？');
+
+    expect(novelty.score).toBe(1);
+    expect(novelty.nearest).toBeUndefined();
+    expect(filter.isDuplicate(novelty)).toBe(false);
+  });
+
+  test('finds the nearest past question by embedding similarity', async () => {
+    const source = createSource(
+      [{ id: 'q1', question: 'C: unrelated' }],
+      [{ id: 'idea1', question: 'B: close paraphrase' }]
+    );
+    const filter = new QuestionNoveltyFilter(source, {}, new FakeEmbedder(vectors));
+
+    const novelty = await filter.assess('A: candidate');
+
+    expect(novelty.method).toBe('embedding');
+    expect(novelty.nearest?.id).toBe('idea1');
+    expect(novelty.nearest?.source).toBe('unresolved_idea');
+    expect(novelty.nearest?.similarity).toBeCloseTo(0.95, 2);
+    expect(novelty.score).toBeCloseTo(0.05, 2);
+    expect(filter.isDuplicate(novelty)).toBe(true);
+  });
+
+  test('skips excluded entries', async () => {
+    const source = createSource([], [{ id: 'idea1', question: 'A: same idea' }, { id: 'idea2', question: 'C: other' }]);
+    const filter = new QuestionNoveltyFilter(source, {}, new FakeEmbedder(vectors));
+
+    const novelty = await filter.assess('A: same idea', ['idea1']);
+
+    expect(novelty.nearest?.id).toBe('idea2');
+    expect(filter.isDuplicate(novelty)).toBe(false);
+  });
+
+  test('ignores questions previously drawn from unresolved ideas', async () => {
+    const source = createSource(
+      [{ id: 'db_existential_1', question: 'A: same idea', source: 'database_unresolved' }, { id: 'q1', question: 'C: other' }],
+      [{ id: 'idea1', question: 'A: same idea' }]
+    );
+    const filter = new QuestionNoveltyFilter(source, {}, new FakeEmbedder(vectors));
+
+    const novelty = await filter.assess('A: same idea', ['idea1']);
+
+    expect(novelty.nearest?.id).toBe('q1');
+    expect(filter.isDuplicate(novelty)).toBe(false);
+  });
+
+  test('embeds past questions once and only new candidates afterwards', async () => {
+    const questions = [{ id: 'q1', question: 'C: unrelated' }];
+    const ideas = [{ id: 'idea1', question: 'B: close paraphrase' }];
+    const embedder = new FakeEmbedder(vectors);
+    const embedBatch = jest.spyOn(embedder, 'embedBatch');
+    const filter = new QuestionNoveltyFilter(createSource(questions, ideas), {}, embedder);
+
+    await filter.assess('A: candidate');
+    const again = await filter.assess('A: rewritten candidate');
+    questions.unshift({ id: 'q2', question: 'A: candidate' });
+    await filter.assess('C: third candidate');
+
+    expect(embedBatch.mock.calls).toEqual([
+      [['A: candidate', 'C: unrelated', 'B: close paraphrase']],
+      [['A: rewritten candidate']],
+      [['C: third candidate']]
+    ]);
+    expect(again.nearest?.id).toBe('idea1');
+  });
+
+  test('falls back to lexical similarity when the embedder is unavailable', async () => {
+    const source = createSource([{ id: 'q1', question: '記憶が消えた後も私は同じ存在と言えるのか？' }], []);
+    const filter = new QuestionNoveltyFilter(source, {}, new FakeEmbedder(vectors, false));
+
+    const duplicate = await filter.assess('記憶が消えた後も私は同じ存在と言えるのか？');
+    const fresh = await filter.assess('他者の痛みを想像するとき、その想像は倫理的な判断を歪めるのか？');
+
+    expect(duplicate.method).toBe('lexical');
+    expect(filter.isDuplicate(duplicate)).toBe(true);
+    expect(filter.isDuplicate(fresh)).toBe(false);
+  });
+
+  test('applies the threshold for the scoring method', () => {
+    const filter = new QuestionNoveltyFilter(createSource([], []), { embeddingThreshold: 0.8, lexicalThreshold: 0.5 }, null);
+    const nearest = { id: 'q1', text: 'Q', source: 'question' as const, similarity: 0.6 };
+
+    expect(filter.isDuplicate({ score: 0.4, method: 'embedding', nearest })).toBe(false);
+    expect(filter.isDuplicate({ score: 0.4, method: 'lexical', nearest })).toBe(true);
+  });
+});
+
+describe('lexicalSimilarity', () => {
+  test('is 1 for identical questions and lower for paraphrases', () => {
+    const base = '死を意識することは生き方を変えるのか？';
+
+    expect(lexicalSimilarity(base, base)).toBe(1);
+    expect(lexicalSimilarity(base, '死を意識したとき、生き方はどう変わるのか？')).toBeLessThan(1);
+    expect(lexicalSimilarity(base, '数学の美しさは発見か発明か？')).toBeLessThan(0.2);
+  });
+});
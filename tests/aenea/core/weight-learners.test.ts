@@ -0,0 +1,156 @@
+/**
+ * Weight Learner Tests
+ * 重み学習戦略のテスト
+ */
+
+import {
+  WEIGHT_LEARNERS,
+  EXP3Learner,
+  HedgeLearner,
+  MirrorDescentLearner,
+  ThompsonLearner,
+  calculateDimensionLosses,
+  createWeightLearner,
+  resolveWeightLearnerId
+} from '../../../src/aenea/core/weight-learners';
+import { DPDEngine } from '../../../src/aenea/core/dpd-engine';
+import { DPDScores, DPDWeights } from '../../../src/types/dpd-types';
+
+// Deterministic RNG (LCG) for the sampling learners
+const seeded = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const weights = (): DPDWeights => ({ empathy: 0.33, coherence: 0.33, dissonance: 0.34, timestamp: Date.now(), version: 1 });
+
+const scores = (empathy: number, coherence: number, dissonance: number): DPDScores => ({
+  empathy,
+  coherence,
+  dissonance,
+  weightedTotal: 0,
+  timestamp: Date.now(),
+  context: { thoughtId: 'test', agentId: 'test' }
+});
+
+const run = (learnerId: string, cycles: number, random = seeded(42)) => {
+  const learner = createWeightLearner(learnerId as any, { random });
+  let current = weights();
+  for (let i = 0; i < cycles; i++) {
+    // Empathy consistently on target, coherence far below it
+    current = learner.update(current, scores(0.75, 0.2, 0.1)).newWeights;
+  }
+  return { learner, current };
+};
+
+describe('weight learners', () => {
+  test('squared loss to each dimension target', () => {
+    const losses = calculateDimensionLosses(scores(0.75, 0.25, 0.5));
+
+    expect(losses.empathy).toBeCloseTo(0, 6);
+    expect(losses.coherence).toBeCloseTo(0.25, 6);
+    expect(losses.dissonance).toBeCloseTo(0.25, 6);
+  });
+
+  test('resolves learner ids with a multiplicative fallback', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(resolveWeightLearnerId(undefined)).toBe('multiplicative');
+    expect(resolveWeightLearnerId(' Hedge ')).toBe('hedge');
+    expect(resolveWeightLearnerId('sgd')).toBe('multiplicative');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  test.each(WEIGHT_LEARNERS.map(learner => learner.id))('%s keeps weights normalized within bounds', id => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const { learner, current } = run(id, 15);
+    log.mockRestore();
+
+    const values = [current.empathy, current.coherence, current.dissonance];
+    expect(values.reduce((sum, value) => sum + value, 0)).toBeCloseTo(1, 2);
+    // Bounds are applied before the final renormalization, so allow a small overshoot
+    values.forEach(value => {
+      expect(value).toBeGreaterThan(0.04);
+      expect(value).toBeLessThan(0.86);
+    });
+    expect(current.version).toBe(16);
+    expect(learner.getDiagnostics()).toMatchObject({ learner: id, updates: 15, bestFixedDimension: 'empathy' });
+  });
+
+  test.each(['hedge', 'mirror-descent', 'thompson'])('%s shifts weight away from the lossy dimension', id => {
+    const { current } = run(id, 20);
+
+    expect(current.coherence).toBeLessThan(0.33);
+    expect(current.empathy).toBeGreaterThan(current.coherence);
+  });
+
+  test('hedge learning rate adapts to loss variance', () => {
+    const learner = new HedgeLearner();
+    learner.update(weights(), scores(0.75, 0.75, 0));
+    const calmRate = learner.getDiagnostics().details.learningRate as number;
+    for (let i = 0; i < 10; i++) {
+      learner.update(weights(), scores(0, 0.75, 1));
+    }
+
+    expect(learner.getDiagnostics().details.learningRate).toBeLessThan(calmRate);
+  });
+
+  test('exp3 plays presets and learns the rewarding one', () => {
+    const learner = new EXP3Learner({ random: seeded(7), gamma: 0.2 });
+    const presets = learner.getPresets().map(preset => preset.id);
+    let current = weights();
+    for (let i = 0; i < 200; i++) {
+      current = learner.update(current, scores(0.75, 0.1, 0.9)).newWeights;
+    }
+    const details = learner.getDiagnostics().details;
+
+    expect(presets).toEqual(['balanced', 'empathy-leaning', 'coherence-leaning', 'dissonance-leaning']);
+    expect(details.bestPreset).toBe('empathy-leaning');
+    expect(details.lastProbability).toBeGreaterThan(0);
+    expect(presets).toContain(details.lastPreset);
+  });
+
+  test('mirror descent stays anchored to the default weights', () => {
+    const learner = new MirrorDescentLearner({ regularization: 1 });
+    let current = weights();
+    for (let i = 0; i < 50; i++) {
+      current = learner.update(current, scores(0.75, 0.2, 0.1)).newWeights;
+    }
+
+    expect(current.coherence).toBeGreaterThan(0.2);
+    expect(learner.getDiagnostics().details.divergenceFromDefault).toBeGreaterThan(0);
+  });
+
+  test('state round-trips through JSON and rejects other learners', () => {
+    const { learner, current } = run('thompson', 5, seeded(3));
+    const restored = new ThompsonLearner({ random: seeded(99) });
+    restored.restoreState(JSON.parse(JSON.stringify(learner.getState())));
+
+    expect(restored.getDiagnostics()).toEqual(learner.getDiagnostics());
+    expect(restored.update(current, scores(0.75, 0.2, 0.1)).newWeights.version).toBe(current.version + 1);
+    expect(() => new HedgeLearner().restoreState(learner.getState())).toThrow("Cannot restore 'thompson'");
+  });
+
+  test('multiplicative learner restores its perturbation cycle', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const { learner } = run('multiplicative', 9);
+    const restored = createWeightLearner('multiplicative');
+    restored.restoreState(learner.getState());
+    log.mockRestore();
+
+    expect(restored.getDiagnostics().details.updateCount).toBe(9);
+  });
+
+  test('learner diagnostics join the DPD engine convergence analysis', () => {
+    const { learner } = run('hedge', 3);
+    const engine = new DPDEngine(weights());
+
+    expect(engine.getConvergenceAnalysis().learner).toBeUndefined();
+    engine.attachWeightLearner(learner);
+    expect(engine.getConvergenceAnalysis()).toMatchObject({
+      isConverging: false,
+      learner: { learner: 'hedge', updates: 3 }
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Knowledge Graph Tests
+ * Concept extraction, relation inference and stored neighbourhood queries
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  buildKnowledgeGraph,
+  extractConcepts,
+  detectPolarity,
+  summarizeKnowledgeGraph,
+  queryNeighbourhood,
+  KnowledgeGraphBuilder
+} from '../../../src/aenea/memory/knowledge-graph';
+import { DatabaseManager } from '../../../src/server/database-manager';
+
+const findEdge = (edges: any[], source: string, target: string) =>
+  edges.find(edge => edge.source === source && edge.target === target);
+
+describe('extractConcepts', () => {
+  test('prefers the longest lexicon match', () => {
+    expect(extractConcepts('存在論は時間を問う')).toEqual(expect.arrayContaining(['存在論', '時間']));
+    expect(extractConcepts('存在論は時間を問う')).not.toContain('存在');
+  });
+
+  test('detects negated statements', () => {
+    expect(detectPolarity('時間は記憶の中に存在する')).toBe(1);
+    expect(detectPolarity('時間は記憶の中に存在しない')).toBe(-1);
+    expect(detectPolarity('自己は記憶ではない。')).toBe(-1);
+    expect(detectPolarity('意識は時間を持ちません、と彼は言う')).toBe(-1);
+  });
+
+  test('does not treat hedges and ない adjectives as negation', () => {
+    expect(detectPolarity('時間は記憶の中に存在するかもしれない')).toBe(1);
+    expect(detectPolarity('記憶に残る時間は少ない。')).toBe(1);
+    expect(detectPolarity('意識が時間を生むのかはわからない')).toBe(1);
+    expect(detectPolarity('ないものを問うことで意識は深まる')).toBe(1);
+  });
+});
+
+describe('buildKnowledgeGraph', () => {
+  test('links items to the concepts they mention', () => {
+    const graph = buildKnowledgeGraph({
+      beliefs: [{ id: 1, belief_content: '意識は記憶によって支えられる', confidence: 0.8, first_formed: 100 }],
+      thoughts: [],
+      questions: [],
+      beliefEvents: []
+    });
+
+    expect(graph.nodes.map(node => node.id)).toEqual(expect.arrayContaining(['belief:1', 'concept:意識', 'concept:記憶']));
+    expect(findEdge(graph.edges, 'belief:1', 'concept:意識')?.relation).toBe('mentions');
+  });
+
+  test('uses explicit lineage and belief evolution events', () => {
+    const graph = buildKnowledgeGraph({
+      beliefs: [{ id: 1, belief_content: '問いは存在の証である', source_thoughts: '["t1"]', first_formed: 200 }],
+      thoughts: [
+        { id: 't1', thought_content: '問いを持つことが存在を示す', timestamp: 100 },
+        { id: 't2', thought_content: '沈黙にも意味がある', timestamp: 300 }
+      ],
+      questions: [{ id: 'q1', question: '沈黙は対話なのか？', related_thoughts: '["t2"]', first_encountered: 400 }],
+      beliefEvents: [{ belief_id: 1, event_type: 'challenged', trigger_thought_id: 't2' }]
+    });
+
+    expect(findEdge(graph.edges, 'belief:1', 'thought:t1')?.relation).toBe('derived-from');
+    expect(findEdge(graph.edges, 'question:q1', 'thought:t2')?.relation).toBe('derived-from');
+    expect(findEdge(graph.edges, 'thought:t2', 'belief:1')).toMatchObject({
+      relation: 'contradicts',
+      evidence: 'belief_evolution:challenged'
+    });
+  });
+
+  test('infers supports, refines and contradicts from shared concepts', () => {
+    const graph = buildKnowledgeGraph({
+      beliefs: [{ id: 1, belief_content: '時間は記憶の中に流れる', first_formed: 100 }],
+      thoughts: [
+        { id: 'negated', thought_content: '時間は記憶の中には流れない', timestamp: 200 },
+        { id: 'broader', thought_content: '時間は記憶と意識の中に流れる', timestamp: 300 }
+      ],
+      questions: [],
+      beliefEvents: []
+    });
+
+    expect(findEdge(graph.edges, 'thought:negated', 'belief:1')?.relation).toBe('contradicts');
+    expect(findEdge(graph.edges, 'thought:broader', 'belief:1')?.relation).toBe('refines');
+    expect(findEdge(graph.edges, 'thought:broader', 'thought:negated')?.relation).toBe('contradicts');
+  });
+
+  test('summarizes node types, relations and top concepts', () => {
+    const graph = buildKnowledgeGraph({
+      beliefs: [{ id: 1, belief_content: '死は存在の境界である', first_formed: 100 }],
+      thoughts: [{ id: 't1', thought_content: '死を意識すると存在が際立つ', timestamp: 200 }],
+      questions: [],
+      beliefEvents: []
+    });
+
+    const stats = summarizeKnowledgeGraph(graph);
+    expect(stats.byNodeType).toMatchObject({ belief: 1, thought: 1 });
+    expect(stats.byRelation.mentions).toBeGreaterThan(0);
+    expect(stats.topConcepts[0].mentions).toBe(2);
+  });
+});
+
+describe('KnowledgeGraphBuilder', () => {
+  const testDbPath = path.join(process.cwd(), 'test-data', `test_knowledge_graph_${Date.now()}.db`);
+  let db: DatabaseManager;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'debug').mockImplementation(() => {});
+    fs.mkdirSync(path.dirname(testDbPath), { recursive: true });
+    db = new DatabaseManager(testDbPath);
+  });
+
+  afterAll(() => {
+    db.close();
+    fs.rmSync(testDbPath, { force: true });
+    jest.restoreAllMocks();
+  });
+
+  test('stores the rebuilt graph and answers neighbourhood queries', () => {
+    db.recordSignificantThought({ id: 't1', content: '記憶が自己をつくる', confidence: 0.8, timestamp: 100 });
+    const beliefId = db.createCoreBelief({ belief_content: '自己は記憶の連なりである', source_thoughts: ['t1'], first_formed: 200 })!;
+    db.addUnresolvedIdea({ id: 'q1', question: '忘却の後にも自己は続くのか？', category: 'identity', firstEncountered: 300 });
+
+    const stats = new KnowledgeGraphBuilder(db).rebuild();
+    expect(stats.byNodeType).toMatchObject({ belief: 1, thought: 1 });
+    expect(stats.byNodeType.question).toBeGreaterThanOrEqual(1); // Includes the seeded questions
+
+    const stored = db.getKnowledgeGraph();
+    expect(stored.nodes).toHaveLength(stats.nodes);
+    expect(stored.edges).toHaveLength(stats.edges);
+
+    const direct = queryNeighbourhood(db, `belief:${beliefId}`, 1, ['derived-from']);
+    expect(direct.nodes.map(node => node.id)).toEqual(expect.arrayContaining([`belief:${beliefId}`, 'thought:t1']));
+    expect(direct.edges.every(edge => edge.relation === 'derived-from')).toBe(true);
+
+    const viaConcept = queryNeighbourhood(db, 'concept:自己', 1);
+    expect(viaConcept.nodes.map(node => node.id)).toEqual(
+      expect.arrayContaining([`belief:${beliefId}`, 'thought:t1', 'question:q1'])
+    );
+    expect(viaConcept.edges.every(edge => edge.relation === 'mentions')).toBe(true);
+  });
+});
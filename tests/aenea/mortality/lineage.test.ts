@@ -0,0 +1,145 @@
+/**
+ * Lineage Tests
+ * Inheritance policies and the generational family tree.
+ */
+
+import { LineageManager, resolveInheritancePolicy, inheritDPDWeights, INHERITANCE_PRESETS } from '../../../src/aenea/mortality/lineage.js';
+import { LifespanManager } from '../../../src/aenea/mortality/lifespan-manager.js';
+import { DatabaseManager } from '../../../src/server/database-manager.js';
+import { createDPDDimensionRegistry } from '../../../src/aenea/core/dpd-dimensions.js';
+import * as path from 'path';
+import * as fs from 'fs';
+
+describe('resolveInheritancePolicy', () => {
+  it('should resolve presets, JSON overrides and unknown names', () => {
+    expect(resolveInheritancePolicy('faithful')).toBe(INHERITANCE_PRESETS.faithful);
+    expect(resolveInheritancePolicy('no-such-policy')).toBe(INHERITANCE_PRESETS.balanced);
+
+    const custom = resolveInheritancePolicy('{"preset":"tabula_rasa","questions":{"maxInherited":3}}');
+    expect(custom.name).toBe('tabula_rasa+custom');
+    expect(custom.dpd.drift).toBe(1);
+    expect(custom.questions).toEqual({ maxInherited: 3, importanceBoost: 0.3 });
+  });
+});
+
+describe('inheritDPDWeights', () => {
+  const parent = { empathy: 0.6, coherence: 0.3, dissonance: 0.1 };
+
+  it('should keep weights with the faithful policy and reset them to the defaults with tabula rasa', () => {
+    expect(inheritDPDWeights(parent, INHERITANCE_PRESETS.faithful)).toEqual(
+      expect.objectContaining({ empathy: expect.closeTo(0.6, 5), dissonance: expect.closeTo(0.1, 5) })
+    );
+    const reset = inheritDPDWeights(parent, INHERITANCE_PRESETS.tabula_rasa);
+    expect(reset.empathy).toBeCloseTo(0.33, 5);
+    expect(reset.dissonance).toBeCloseTo(0.34, 5);
+  });
+
+  it('should drift and mutate registered dimensions like the core three', () => {
+    const registry = createDPDDimensionRegistry(['curiosity', 'humility']);
+    const withCuriosity = { empathy: 0.4, coherence: 0.2, dissonance: 0.1, dimensions: { curiosity: 0.3 } };
+
+    const reset = inheritDPDWeights(withCuriosity, INHERITANCE_PRESETS.tabula_rasa, Math.random, registry);
+    const defaults = registry.normalizeRecord(registry.toRecord({}, definition => definition.defaultWeight));
+    expect(registry.toRecord(reset)).toEqual({
+      empathy: expect.closeTo(defaults.empathy, 5),
+      coherence: expect.closeTo(defaults.coherence, 5),
+      dissonance: expect.closeTo(defaults.dissonance, 5),
+      curiosity: expect.closeTo(defaults.curiosity, 5),
+      humility: expect.closeTo(defaults.humility, 5)
+    });
+
+    const kept = registry.toRecord(inheritDPDWeights(withCuriosity, INHERITANCE_PRESETS.faithful, Math.random, registry));
+    const mutated = registry.toRecord(
+      inheritDPDWeights(withCuriosity, { ...INHERITANCE_PRESETS.balanced, dpd: { drift: 0, mutationRate: 0.2 } }, () => 0.1, registry)
+    );
+    expect(Object.values(mutated).reduce((sum, value) => sum + value, 0)).toBeCloseTo(1, 10);
+    expect(mutated.curiosity).not.toBeCloseTo(kept.curiosity, 3);
+  });
+
+  it('should keep inherited weights within the weight bounds', () => {
+    const registry = createDPDDimensionRegistry(['curiosity']);
+    const bounds = { minWeight: 0.05, maxWeight: 0.85 };
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+
+    for (let i = 0; i < 20; i++) {
+      const child = inheritDPDWeights(
+        { empathy: 0.9, coherence: 0.02, dissonance: 0.02, dimensions: { curiosity: 0.06 } },
+        { ...INHERITANCE_PRESETS.balanced, dpd: { drift: 0, mutationRate: 0.5 } },
+        random,
+        registry,
+        bounds
+      );
+      for (const [id, value] of Object.entries(registry.toRecord(child))) {
+        const { min, max } = registry.weightBounds(id, bounds);
+        expect(value).toBeGreaterThanOrEqual(min - 1e-9);
+        expect(value).toBeLessThanOrEqual(max + 1e-9);
+      }
+    }
+  });
+
+  it('should mutate weights but keep them normalized', () => {
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    const child = inheritDPDWeights(parent, { ...INHERITANCE_PRESETS.balanced, dpd: { drift: 0, mutationRate: 0.2 } }, random);
+
+    expect(child.empathy + child.coherence + child.dissonance).toBeCloseTo(1, 10);
+    expect(child.empathy).not.toBeCloseTo(0.6, 5);
+  });
+});
+
+describe('LineageManager', () => {
+  const testDbPath = path.join(process.cwd(), 'test-data', `test_lineage_${Date.now()}.db`);
+  let db: DatabaseManager;
+
+  beforeAll(() => {
+    fs.mkdirSync(path.dirname(testDbPath), { recursive: true });
+    db = new DatabaseManager(testDbPath);
+  });
+
+  afterAll(() => {
+    db.close();
+    fs.rmSync(testDbPath, { force: true });
+  });
+
+  it('should record generations, apply inheritance and build the family tree', () => {
+    const policy = resolveInheritancePolicy({ preset: 'balanced', beliefs: { maxInherited: 1 }, questions: { maxInherited: 1 } });
+    const lineage = new LineageManager(db, policy, () => 0.5);
+
+    const first = new LifespanManager({ instanceId: 'gen_1', lifespanMax: 100, mode: 'A' });
+    expect(lineage.recordBirth(first.getState(), null)).toEqual({ dpdWeights: null, beliefs: [], questions: [] });
+
+    const strongId = db.createCoreBelief({ belief_content: '問いは存在の証', confidence: 0.9, strength: 0.9, reinforcement_count: 5 })!;
+    const weakId = db.createCoreBelief({ belief_content: '沈黙は答え', confidence: 0.8, strength: 0.6 })!;
+    const [topQuestion] = db.getUnresolvedIdeas(1);
+
+    first.tick();
+    first.markAsDead();
+    lineage.recordDeath(first.getState(), { curiosity: 0.7 });
+
+    const second = new LifespanManager({ instanceId: 'gen_2', lifespanMax: 100, mode: 'A' });
+    const inheritance = lineage.recordBirth(second.getState(), 'gen_1', { empathy: 0.5, coherence: 0.3, dissonance: 0.2 });
+
+    expect(inheritance.beliefs.map(belief => belief.id)).toEqual([strongId]);
+    expect(inheritance.questions.map(question => question.id)).toEqual([topQuestion.id]);
+    expect(inheritance.questions[0].importance).toBeCloseTo(Math.min(1, topQuestion.importance + 0.2), 5);
+    expect(inheritance.dpdWeights!.empathy + inheritance.dpdWeights!.coherence + inheritance.dpdWeights!.dissonance).toBeCloseTo(1, 10);
+
+    const weakened = db.getCoreBeliefs(10).find(belief => belief.id === weakId);
+    expect(weakened.confidence).toBeCloseTo(0.4, 5);
+
+    const tree = lineage.getFamilyTree();
+    expect(tree.map(node => [node.instance_id, node.generation])).toEqual([['gen_1', 1], ['gen_2', 2]]);
+    expect(tree[0].children).toEqual(['gen_2']);
+    expect(tree[0].cycles_lived).toBe(1);
+    expect(tree[0].died_at).not.toBeNull();
+    expect(tree[0].personality_snapshot).toEqual({ curiosity: 0.7 });
+    expect(tree[1].inheritance_policy!.name).toBe('balanced+custom');
+  });
+});
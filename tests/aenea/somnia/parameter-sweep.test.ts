@@ -0,0 +1,57 @@
+import {
+  expandGrid,
+  generateStimulusSequence,
+  getDefaultParameters,
+  oneAtATimePoints,
+  runParameterSweep,
+  runSomniaTrial,
+  sweepResultToCsv
+} from '../../../src/aenea/somnia/parameter-sweep.js';
+
+describe('SOMNIA parameter sweep', () => {
+  it('should expand grids and one-at-a-time scans around the defaults', () => {
+    expect(expandGrid({
+      'stateTransitions.dreamThreshold': [0.5, 1],
+      'logitParams.alpha': [0.1, 0.2, 0.3]
+    })).toHaveLength(6);
+
+    const defaults = getDefaultParameters();
+    expect(defaults['stateTransitions.phiDreamThreshold']).toBe(20);
+    expect(oneAtATimePoints(['logitParams.b1'], [0.5, 2])).toEqual([
+      { 'logitParams.b1': defaults['logitParams.b1'] * 0.5 },
+      { 'logitParams.b1': defaults['logitParams.b1'] * 2 }
+    ]);
+  });
+
+  it('should generate the same stimulus sequence for the same seed', () => {
+    expect(generateStimulusSequence('mixed', 50, 7)).toEqual(generateStimulusSequence('mixed', 50, 7));
+    expect(generateStimulusSequence('stress', 10).every(stimulus => stimulus!.valence < 0)).toBe(true);
+  });
+
+  it('should measure occupancy, transitions and θ stability for a trial', async () => {
+    const metrics = await runSomniaTrial({}, 'stress', generateStimulusSequence('stress', 120));
+
+    const occupancy = metrics.occupancy.awake + metrics.occupancy.dream + metrics.occupancy.flow;
+    expect(occupancy).toBeCloseTo(1, 5);
+    expect(metrics.transitions).toBeGreaterThan(0);
+    expect(metrics.occupancy.dream).toBeGreaterThan(0);
+    expect(metrics.minDwellTicks).toBeGreaterThanOrEqual(1);
+    expect(metrics.thetaStd).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should report sensitivity of dream occupancy to the exhaustion threshold', async () => {
+    const result = await runParameterSweep(
+      oneAtATimePoints(['stateTransitions.phiDreamThreshold', 'addWeights.alpha'], [0.5, 1, 2]),
+      { scenarios: ['stress', 'oscillating'], ticks: 120 }
+    );
+
+    expect(result.trials).toHaveLength(12);
+    expect(result.sensitivity['stateTransitions.phiDreamThreshold']!['occupancy.awake']).toBeLessThan(0);
+    // ADD weights only shape V(t), never the mode dynamics
+    expect(result.sensitivity['addWeights.alpha']!['transitions']).toBeNull();
+
+    const csv = sweepResultToCsv(result).trim().split('\n');
+    expect(csv[0].startsWith('stateTransitions.phiDreamThreshold,addWeights.alpha,scenario,occupancy.awake')).toBe(true);
+    expect(csv).toHaveLength(13);
+  });
+});
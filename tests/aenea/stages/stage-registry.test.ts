@@ -0,0 +1,91 @@
+/**
+ * Stage Registry Tests
+ * Stage positioning, order validation, and critical-mode planning.
+ */
+
+import { StageRegistry, PipelineStageDefinition, parseStageOrder } from '../../../src/aenea/stages/stage-registry.js';
+
+function stage(id: string, inputs: string[], outputs: string[], energyCost: number, extra: Partial<PipelineStageDefinition> = {}): PipelineStageDefinition {
+  return {
+    id,
+    name: id,
+    inputs,
+    outputs,
+    energyCost,
+    skippableInCritical: false,
+    execute: async () => ({ ran: id }),
+    ...extra
+  };
+}
+
+function createDefaultRegistry(): StageRegistry {
+  const registry = new StageRegistry();
+  registry.register(stage('S1', ['trigger'], ['thoughts'], 1.0, { required: true }));
+  registry.register(stage('S2', ['thoughts'], ['mutualReflections'], 0.5, { skippableInCritical: true }));
+  registry.register(stage('S3', ['thoughts'], ['auditorResult'], 0.5, { skippableInCritical: true }));
+  registry.register(stage('S4', ['thoughts'], ['dpdScores'], 0.5, {
+    skippableInCritical: true,
+    criticalFallback: { name: 'Heuristic', energyCost: 0.1, execute: async () => ({ heuristic: true }) }
+  }));
+  registry.register(stage('S5', ['thoughts'], ['synthesis'], 0.8, { required: true }));
+  registry.register(stage('S6', ['synthesis'], ['documentation'], 0.3, { required: true }));
+  registry.register(stage('U', [], ['dpdWeights'], 0.2, { required: true }));
+  return registry;
+}
+
+describe('StageRegistry', () => {
+  it('should insert stages relative to existing ones', () => {
+    const registry = createDefaultRegistry();
+    registry.register(stage('fact_check', ['thoughts'], ['factCheck'], 0.4), { after: 'S3' });
+    registry.register(stage('debate', ['thoughts'], ['debate'], 0.6), { before: 'S2' });
+
+    expect(registry.getOrder()).toEqual(['S1', 'debate', 'S2', 'S3', 'fact_check', 'S4', 'S5', 'S6', 'U']);
+    expect(() => registry.register(stage('S1', [], [], 0))).toThrow(/already registered/);
+    expect(() => registry.register(stage('x', [], [], 0), { after: 'missing' })).toThrow(/unknown stage/);
+  });
+
+  it('should reject orders with unknown stages or broken dependencies', () => {
+    const registry = createDefaultRegistry();
+
+    expect(() => registry.setOrder(['S1', 'S9'])).toThrow(/Unknown stage/);
+    expect(() => registry.setOrder(['S1', 'S1'])).toThrow(/duplicate/);
+    expect(() => registry.setOrder(['S2', 'S1', 'S5', 'S6', 'U'])).toThrow(/S2 requires thoughts/);
+
+    registry.setOrder(['S1', 'S5', 'S6', 'U']);
+    expect(registry.getOrder()).toEqual(['S1', 'S5', 'S6', 'U']);
+  });
+
+  it('should reject orders that leave out a required stage', () => {
+    const registry = createDefaultRegistry();
+
+    expect(() => registry.setOrder(['S1', 'S2', 'S3', 'S4', 'S5', 'U'])).toThrow(/missing required stage\(s\): S6/);
+    expect(registry.validate(['S1', 'S4'])).toEqual(['missing required stage(s): S5, S6, U']);
+    expect(registry.getOrder()).toEqual(['S1', 'S2', 'S3', 'S4', 'S5', 'S6', 'U']);
+  });
+
+  it('should skip skippable stages and use fallbacks in critical mode', async () => {
+    const registry = createDefaultRegistry();
+
+    const critical = registry.resolvePlan('critical');
+    expect(critical.map(s => s.id)).toEqual(['S1', 'S4', 'S5', 'S6', 'U']);
+
+    const fallback = critical.find(s => s.id === 'S4')!;
+    expect(fallback.isFallback).toBe(true);
+    expect(fallback.energyLabel).toBe('stage_S4_fallback');
+    expect(await fallback.execute({}, { mode: 'critical' })).toEqual({ heuristic: true });
+
+    expect(registry.resolvePlan('full').map(s => s.id)).toEqual(['S1', 'S2', 'S3', 'S4', 'S5', 'S6', 'U']);
+  });
+
+  it('should total planned energy per mode', () => {
+    const registry = createDefaultRegistry();
+    expect(registry.getPlanEnergy('full')).toBeCloseTo(3.8);
+    expect(registry.getPlanEnergy('critical')).toBeCloseTo(2.4);
+  });
+
+  it('should parse comma-separated stage orders', () => {
+    expect(parseStageOrder(' S1, S2 ,,U ')).toEqual(['S1', 'S2', 'U']);
+    expect(parseStageOrder('')).toBeNull();
+    expect(parseStageOrder(undefined)).toBeNull();
+  });
+});
@@ -220,6 +220,31 @@ describe('Database Manager Integration', () => {
       const stats = databaseManager.getStats();
       expect(stats.dpd_weights).toBeGreaterThanOrEqual(3);
     });
+
+    test('should keep weight learner state per learner', () => {
+      databaseManager.saveWeightLearnerState('hedge', { learner: 'hedge', data: { lossVariance: 0.2 } });
+      databaseManager.saveWeightLearnerState('hedge', { learner: 'hedge', data: { lossVariance: 0.4 } });
+      databaseManager.saveWeightLearnerState('exp3', { learner: 'exp3', data: { lastPreset: 'balanced' } });
+
+      expect(databaseManager.getWeightLearnerState('hedge')).toEqual({ learner: 'hedge', data: { lossVariance: 0.4 } });
+      expect(databaseManager.getWeightLearnerState('exp3').data.lastPreset).toBe('balanced');
+      expect(databaseManager.getWeightLearnerState('thompson')).toBeNull();
+    });
+
+    test('should keep scorer readings and the calibration model', () => {
+      databaseManager.saveDPDScorerReadings('cycle_1', { llm: { empathy: 0.7, coherence: 0.5 }, keyword: { empathy: 0.4 } });
+      databaseManager.saveDPDScorerReadings('cycle_2', { heuristic: { dissonance: 0.3 } });
+
+      expect(databaseManager.getDPDScorerReadings(['cycle_1', 'missing'])).toEqual({
+        cycle_1: { llm: { empathy: 0.7, coherence: 0.5 }, keyword: { empathy: 0.4 } }
+      });
+      expect(databaseManager.getDPDCalibration()).toBeNull();
+
+      const model = { fittedAt: 1000, labelledCycles: 4, entries: { llm: { empathy: { slope: 0.9, intercept: -0.1, residualStd: 0.08, samples: 4 } } } };
+      databaseManager.saveDPDCalibration(model);
+      databaseManager.saveDPDCalibration({ ...model, labelledCycles: 5 });
+      expect(databaseManager.getDPDCalibration()).toEqual({ ...model, labelledCycles: 5 });
+    });
   });
 
   describe('Unresolved Ideas System', () => {
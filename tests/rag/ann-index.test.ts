@@ -0,0 +1,159 @@
+/**
+ * ANN Index Tests
+ * HNSW recall against brute force, tombstone deletes, and persistence next to the vector DB.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { HnswIndex, getAnnIndexPath } from '../../src/rag/ann-index.js';
+import { VectorDBManager, cosineSimilarity } from '../../src/rag/vectordb.js';
+import type { SourceType, VectorChunk } from '../../src/rag/types.js';
+
+const DIMENSION = 24;
+
+function randomVectors(count: number, seed: number): Float32Array[] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () => Float32Array.from({ length: DIMENSION }, next));
+}
+
+function exactTopK(vectors: Map<number, Float32Array>, query: Float32Array, k: number): number[] {
+  return Array.from(vectors.entries())
+    .map(([id, vector]) => ({ id, similarity: cosineSimilarity(query, vector) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map(entry => entry.id);
+}
+
+function toChunk(embedding: Float32Array, i: number, sourceType: SourceType = 'document'): VectorChunk {
+  return {
+    content: `chunk ${i}`,
+    embedding,
+    embeddingDim: embedding.length,
+    metadata: {},
+    sourceFile: `file-${i % 10}.md`,
+    sourceType,
+    chunkIndex: i,
+    tokenCount: 10
+  };
+}
+
+describe('HnswIndex', () => {
+  const vectors = new Map(randomVectors(1500, 7).map((vector, i) => [i + 1, vector]));
+  const index = new HnswIndex();
+  for (const [id, vector] of vectors) index.add(id, vector);
+  const queries = randomVectors(30, 99);
+
+  it('should find most of the exact top-k neighbours', () => {
+    let hits = 0;
+    for (const query of queries) {
+      const expected = new Set(exactTopK(vectors, query, 10));
+      hits += index.search(query, 10).filter(neighbor => expected.has(neighbor.id)).length;
+    }
+    expect(hits / (queries.length * 10)).toBeGreaterThan(0.9);
+
+    const [best] = index.search(queries[0], 1);
+    expect(best.similarity).toBeCloseTo(cosineSimilarity(queries[0], vectors.get(best.id)!), 5);
+  });
+
+  it('should exclude removed and rejected nodes from results', () => {
+    const query = queries[1];
+    const [first] = index.search(query, 1);
+    expect(index.remove(first.id)).toBe(true);
+    expect(index.search(query, 10).map(n => n.id)).not.toContain(first.id);
+    expect(index.size).toBe(1499);
+
+    const even = index.search(query, 10, { accept: id => id % 2 === 0 });
+    expect(even).toHaveLength(10);
+    expect(even.every(n => n.id % 2 === 0)).toBe(true);
+  });
+
+  it('should restore from a snapshot and detach nodes whose vectors are gone', () => {
+    const snapshot = JSON.parse(JSON.stringify(index.toSnapshot()));
+    const remaining = new Map(vectors);
+    remaining.delete(10);
+    const restored = HnswIndex.fromSnapshot(snapshot, remaining);
+
+    expect(restored.has(10)).toBe(false);
+    expect(restored.size).toBe(index.size - 1);
+    expect(restored.search(queries[2], 5).map(n => n.id)).toEqual(
+      index.search(queries[2], 5).map(n => n.id).filter(id => id !== 10).slice(0, 5)
+    );
+  });
+});
+
+describe('VectorDBManager ANN search', () => {
+  const testDir = path.join(process.cwd(), 'test-data', `ann-${Date.now()}`);
+  const dbPath = path.join(testDir, 'vectors.db');
+  const embeddings = randomVectors(600, 11);
+  const queries = randomVectors(10, 5);
+  let logSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    logSpy.mockRestore();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should agree with brute force, persist the graph and track inserts and deletes', () => {
+    const db = new VectorDBManager(dbPath, { enabled: true, minChunks: 100, efSearch: 64 });
+    db.insertChunks(embeddings.slice(0, 500).map((embedding, i) => toChunk(embedding, i, i % 5 === 0 ? 'self' : 'document')));
+
+    const options = { topK: 5, similarityThreshold: -1 };
+    const approximate = db.searchSimilar(queries[0], options);
+    const exact = db.searchSimilar(queries[0], { ...options, exact: true });
+    expect(approximate.map(r => r.id)).toEqual(exact.map(r => r.id));
+    expect(db.getIndexStats()).toMatchObject({ loaded: true, indexedChunks: 500, dimension: DIMENSION });
+
+    // Incremental insert and delete
+    const [newId] = db.insertChunks([toChunk(queries[1], 999)]);
+    expect(db.searchSimilar(queries[1], { topK: 1 })[0].id).toBe(newId);
+    const removed = db.deleteBySource('file-3.md');
+    expect(removed).toBe(50);
+    expect(db.searchSimilar(queries[2], { topK: 20, similarityThreshold: -1 }).some(r => r.sourceFile === 'file-3.md')).toBe(false);
+
+    // Source type filter stays inside the graph when the filter is not too selective
+    const selfOnly = db.searchSimilar(queries[3], { topK: 5, similarityThreshold: -1, sourceTypes: ['self'] });
+    expect(selfOnly).toHaveLength(5);
+    expect(selfOnly.every(r => r.sourceType === 'self')).toBe(true);
+
+    db.close();
+    expect(fs.existsSync(getAnnIndexPath(dbPath))).toBe(true);
+  });
+
+  it('should reload the graph and pick up rows written by another connection', () => {
+    const writer = new VectorDBManager(dbPath, { enabled: false });
+    writer.insertChunks(embeddings.slice(500).map((embedding, i) => toChunk(embedding, 500 + i)));
+    writer.close();
+
+    const db = new VectorDBManager(dbPath, { enabled: true, minChunks: 100, efSearch: 64 });
+    const results = db.searchSimilar(embeddings[550], { topK: 1 });
+    expect(results[0].content).toBe('chunk 550');
+    expect(db.getIndexStats().indexedChunks).toBe(db.getChunkCount());
+
+    const benchmark = db.benchmarkIndex({ queries: 20, topK: 10 });
+    expect(benchmark.queries).toBe(20);
+    expect(benchmark.recallAtK).toBeGreaterThan(0.9);
+
+    const rebuilt = db.rebuildIndex();
+    expect(rebuilt.indexedChunks).toBe(db.getChunkCount());
+    db.close();
+  });
+
+  it('should fall back to brute force below the minimum chunk count', () => {
+    const smallPath = path.join(testDir, 'small.db');
+    const db = new VectorDBManager(smallPath, { enabled: true, minChunks: 1000, efSearch: 64 });
+    db.insertChunks(embeddings.slice(0, 50).map((embedding, i) => toChunk(embedding, i)));
+
+    expect(db.searchSimilar(embeddings[7], { topK: 1 })[0].content).toBe('chunk 7');
+    expect(db.getIndexStats().loaded).toBe(false);
+    db.close();
+    expect(fs.existsSync(getAnnIndexPath(smallPath))).toBe(false);
+  });
+});
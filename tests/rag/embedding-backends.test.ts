@@ -0,0 +1,104 @@
+/**
+ * Embedding Backend Tests
+ * Local n-gram embeddings, end-to-end ingestion without Ollama, model tracking and re-embedding.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { LocalNgramEmbeddingBackend } from '../../src/rag/embedding-backends.js';
+import { createEmbedder } from '../../src/rag/embedder.js';
+import { VectorDBManager, cosineSimilarity } from '../../src/rag/vectordb.js';
+import { createTextChunker } from '../../src/rag/chunker.js';
+import { ContentIngester } from '../../src/rag/ingest.js';
+import { Retriever } from '../../src/rag/retriever.js';
+
+describe('LocalNgramEmbeddingBackend', () => {
+  const backend = new LocalNgramEmbeddingBackend(256);
+
+  it('should produce deterministic unit vectors of the configured dimension', async () => {
+    const a = await backend.embed('意識は問いから生まれる');
+    const b = await backend.embed('意識は問いから生まれる');
+    expect(a).toHaveLength(256);
+    expect(Array.from(a)).toEqual(Array.from(b));
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1, 5);
+    expect(await backend.isAvailable()).toBe(true);
+  });
+
+  it('should place texts with shared wording closer than unrelated ones', async () => {
+    const query = await backend.embed('夢と記憶の統合');
+    const related = await backend.embed('睡眠中の夢は記憶を統合する');
+    const unrelated = await backend.embed('DPD weights shift toward coherence');
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+});
+
+describe('RAG pipeline on the local embedder', () => {
+  const testDir = path.join(process.cwd(), 'test-data', `embedding-${Date.now()}`);
+  const dbPath = path.join(testDir, 'vectors.db');
+  let db: VectorDBManager;
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  const texts: Record<string, string> = {
+    dream: '夢は記憶の再編であり、睡眠中に意味が統合される。',
+    identity: '自己同一性は変化の中で保たれる物語である。',
+    ethics: '倫理的な緊張は、共感と整合性の間に生まれる。'
+  };
+
+  beforeAll(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    db = new VectorDBManager(dbPath, { enabled: false });
+  });
+
+  afterAll(() => {
+    db.close();
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should ingest and retrieve end to end and record the embedding model', async () => {
+    const embedder = createEmbedder({ provider: 'local', localDimension: 128 });
+    const ingester = new ContentIngester(embedder, db, createTextChunker());
+    for (const [id, text] of Object.entries(texts)) {
+      await ingester.ingestText(text, id, 'theory');
+    }
+
+    expect(db.getEmbeddingModel()).toMatchObject({ modelId: 'local:hashed-ngram-v1', dimension: 128 });
+
+    const retriever = new Retriever(embedder, db);
+    const results = await retriever.search('夢と睡眠', { mode: 'vector', topK: 1, similarityThreshold: 0 });
+    expect(results[0].sourceFile).toBe('dream');
+  });
+
+  it('should refuse embeddings from a different model and degrade hybrid search to lexical', async () => {
+    const other = createEmbedder({ provider: 'local', localDimension: 64 });
+    const ingester = new ContentIngester(other, db, createTextChunker());
+    await expect(ingester.ingestText('別の次元の記憶', 'other', 'theory')).rejects.toThrow(/Embedding mismatch/);
+    expect(db.getChunkCount()).toBe(3);
+
+    const retriever = new Retriever(other, db);
+    expect(await retriever.search('自己同一性', { mode: 'vector', similarityThreshold: 0 })).toEqual([]);
+    const lexical = await retriever.search('自己同一性', { mode: 'hybrid', similarityThreshold: 0 });
+    expect(lexical[0].sourceFile).toBe('identity');
+  });
+
+  it('should re-embed every chunk with a new model and resume after interruption', async () => {
+    const next = createEmbedder({ provider: 'local', localDimension: 64 });
+    const ingester = new ContentIngester(next, db, createTextChunker());
+
+    // Simulate an interrupted run: one chunk already staged for the new model
+    const [first] = db.getChunksPendingReembed(next.getModelId(), 1);
+    db.stageEmbeddings(next.getModelId(), [{ id: first.id, embedding: await next.embed(first.content) }]);
+
+    const result = await ingester.reembedAll({ batchSize: 1 });
+    expect(result).toMatchObject({ reembedded: 2, from: 'local:hashed-ngram-v1', to: 'local:hashed-ngram-v1' });
+    expect(db.getEmbeddingModel()).toMatchObject({ dimension: 64 });
+
+    const retriever = new Retriever(next, db);
+    const results = await retriever.search('倫理と共感', { mode: 'vector', topK: 1, similarityThreshold: 0 });
+    expect(results[0].sourceFile).toBe('ethics');
+    await expect(ingester.ingestText('新しい次元の記憶', 'fresh', 'theory')).resolves.toBe(1);
+  });
+});
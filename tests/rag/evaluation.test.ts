@@ -0,0 +1,99 @@
+/**
+ * RAG Evaluation Tests
+ * Ranking metrics, and a retrieval regression check on the fixture corpus with the local embedder.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { evaluateRetrieval, judgeResults, loadGoldenSet, scoreRanking } from '../../src/rag/evaluation.js';
+import type { RAGEvalVariant, SearchResult } from '../../src/rag/types.js';
+
+const GOLDEN_PATH = path.join(process.cwd(), 'tests', 'fixtures', 'rag-eval', 'golden.json');
+
+function result(sourceFile: string, content = ''): SearchResult {
+  return { content, similarity: 1, metadata: {}, sourceFile, sourceType: 'document' };
+}
+
+describe('ranking metrics', () => {
+  it('should credit each expectation once and match chunks by source suffix and content', () => {
+    const expectations = [{ source: 'theory/a.md' }, { source: 'novels/b.md', contains: '灯台' }];
+    const matches = judgeResults(
+      [
+        result('/k/theory/a.md'),
+        result('/k/theory/a.md'),
+        result('/k/novels/b.md', '夢の庭'),
+        result('/k/novels/b.md', '灯台守'),
+        result('/k/other/theory/a.md.bak'),
+      ],
+      expectations
+    );
+    expect(matches).toEqual([0, null, null, 1, null]);
+  });
+
+  it('should compute recall@k, graded nDCG@k and the reciprocal rank', () => {
+    const expectations = [{ source: 'a', grade: 2 }, { source: 'b' }];
+    const scores = scoreRanking([null, 1, 0], expectations, [1, 3]);
+
+    // DCG@3 = 1/log2(3) + 3/log2(4), IDCG@3 = 3/log2(2) + 1/log2(3)
+    const dcg = 1 / Math.log2(3) + 3 / 2;
+    const idcg = 3 + 1 / Math.log2(3);
+    expect(scores.recallAtK).toEqual({ 1: 0, 3: 1 });
+    expect(scores.ndcgAtK[1]).toBe(0);
+    expect(scores.ndcgAtK[3]).toBeCloseTo(dcg / idcg, 10);
+    expect(scores.reciprocalRank).toBe(0.5);
+  });
+
+  it('should score zero when nothing relevant was retrieved', () => {
+    const scores = scoreRanking([null, null], [{ source: 'a' }], [1, 5]);
+    expect(scores).toEqual({ recallAtK: { 1: 0, 5: 0 }, ndcgAtK: { 1: 0, 5: 0 }, reciprocalRank: 0 });
+  });
+});
+
+describe('evaluateRetrieval', () => {
+  const testDir = path.join(process.cwd(), 'test-data', `rag-eval-${Date.now()}`);
+  let logSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    logSpy.mockRestore();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should keep retrieval quality on the fixture corpus above the regression floor', async () => {
+    const golden = loadGoldenSet(GOLDEN_PATH);
+    const local: Partial<RAGEvalVariant> = { embeddingProvider: 'local', localEmbeddingDimension: 256 };
+    const variants: RAGEvalVariant[] = [
+      ...(golden.variants ?? []).map((variant) => ({ ...variant, ...local })),
+      // A threshold no n-gram embedding reaches: the metrics must notice the regression
+      { name: 'strict-threshold', mode: 'vector', similarityThreshold: 0.99, ...local },
+    ];
+
+    const report = await evaluateRetrieval(golden, { variants, workDir: testDir });
+
+    expect(report.k).toEqual([1, 3, 5]);
+    expect(report.queryCount).toBe(golden.queries.length);
+    expect(report.variants.map((variant) => variant.name)).toEqual(['hybrid', 'vector', 'small-chunks', 'strict-threshold']);
+
+    for (const variant of report.variants.slice(0, 3)) {
+      expect(variant.chunks).toBeGreaterThan(0);
+      expect(variant.metrics.mrr).toBeGreaterThanOrEqual(0.9);
+      expect(variant.metrics.recallAtK[5]).toBeGreaterThanOrEqual(0.9);
+      expect(variant.metrics.ndcgAtK[5]).toBeGreaterThanOrEqual(0.9);
+    }
+
+    const strict = report.variants[3];
+    expect(strict.metrics.mrr).toBeLessThan(report.variants[0].metrics.mrr);
+    expect(strict.queries.every((query) => query.missed.length > 0)).toBe(true);
+    expect(report.best).not.toBe('strict-threshold');
+  });
+
+  it('should reject invalid variants before indexing', async () => {
+    const golden = loadGoldenSet(GOLDEN_PATH);
+    await expect(
+      evaluateRetrieval(golden, { variants: [{ name: 'broken', chunkSize: 50 }], workDir: testDir })
+    ).rejects.toThrow('Invalid variant "broken"');
+  });
+});
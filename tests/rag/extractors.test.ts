@@ -0,0 +1,256 @@
+/**
+ * Document Extractor Tests
+ * Markdown / HTML / EPUB / PDF structure extraction and speaker-aware chunking of JSONL transcripts.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { extractDocument, getDocumentFormat } from '../../src/rag/extractors.js';
+import { VectorDBManager } from '../../src/rag/vectordb.js';
+import { createEmbedder } from '../../src/rag/embedder.js';
+import { createTextChunker } from '../../src/rag/chunker.js';
+import { ContentIngester } from '../../src/rag/ingest.js';
+import { ZipArchive } from '../../src/rag/zip.js';
+import { extractPdfText } from '../../src/rag/pdf.js';
+
+/** Stored/deflated ZIP without CRCs (the reader does not verify them) */
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, 'utf-8');
+    const raw = Buffer.from(content, 'utf-8');
+    const method = name === 'mimetype' ? 0 : 8;
+    const data = method === 0 ? raw : zlib.deflateRawSync(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+/** Two-page PDF: a Type1 font on page 1, a CID font with a ToUnicode CMap on page 2 */
+function buildPdf(firstPage: string = 'BT /F1 12 Tf 72 720 Td (Being and Time) Tj 0 -14 Td [(Dasein) -300 (is \\(here\\))] TJ ET'): Buffer {
+  const stream = (num: number, content: string) => {
+    const data = zlib.deflateSync(Buffer.from(content, 'latin1'));
+    return Buffer.concat([
+      Buffer.from(`${num} 0 obj\n<< /Length ${data.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+      data,
+      Buffer.from('\nendstream\nendobj\n', 'latin1'),
+    ]);
+  };
+  const object = (num: number, body: string) => Buffer.from(`${num} 0 obj\n${body}\nendobj\n`, 'latin1');
+  const cmap = [
+    'begincmap',
+    '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+    '1 beginbfchar <0001> <5B58> endbfchar',
+    '1 beginbfrange <0002> <0003> <5728> endbfrange',
+    'endcmap',
+  ].join('\n');
+
+  return Buffer.concat([
+    Buffer.from('%PDF-1.4\n', 'latin1'),
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>'),
+    object(2, '<< /Type /Pages /Kids [3 0 R 5 0 R] /Count 2 /Resources << /Font << /F1 7 0 R /F2 8 0 R >> >> >>'),
+    object(3, '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>'),
+    stream(4, firstPage),
+    object(5, '<< /Type /Page /Parent 2 0 R /Contents [6 0 R] >>'),
+    stream(6, 'BT /F2 12 Tf 72 720 Td <00010002> Tj ET'),
+    object(7, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'),
+    object(8, '<< /Type /Font /Subtype /Type0 /BaseFont /Mincho /Encoding /Identity-H /ToUnicode 9 0 R >>'),
+    stream(9, cmap),
+    object(10, '<< /Title (Sein und Zeit) /Author <FEFF5F8C> >>'),
+    Buffer.from('trailer\n<< /Root 1 0 R /Info 10 0 R >>\n%%EOF\n', 'latin1'),
+  ]);
+}
+
+describe('extractDocument', () => {
+  it('should split markdown at headings outside code fences and keep front matter', () => {
+    const markdown = [
+      '---',
+      'title: 存在と時間',
+      '---',
+      '序文。',
+      '# 第一章',
+      '本文。',
+      '```',
+      '# not a heading',
+      '```',
+      '## 問いの構造',
+      '節の本文。',
+    ].join('\n');
+
+    const document = extractDocument('notes/being.md', Buffer.from(markdown));
+    expect(document.metadata).toEqual({ title: '存在と時間' });
+    expect(document.sections.map((section) => section.metadata)).toEqual([
+      {},
+      { chapter: '第一章' },
+      { chapter: '第一章', section: '問いの構造' },
+    ]);
+    expect(document.sections[1].text).toContain('# not a heading');
+
+    const chunks = createTextChunker({ maxTokens: 200 }).chunkSections(document.sections, { title: 'x' });
+    expect(chunks.map((chunk) => chunk.metadata.section)).toEqual([undefined, undefined, '問いの構造']);
+  });
+
+  it('should read HTML headings, entities and ruby bases without scripts', () => {
+    const html = `<html><head><title>Essay &amp; Notes</title><script>var x = "<h1>no</h1>";</script></head>
+      <body><h1>Ch. 1</h1><p><ruby>現<rt>げん</rt></ruby>存在&#x306F;問い</p><h2>Part A</h2><p>one<br>two</p></body></html>`;
+
+    const document = extractDocument('essay.html', Buffer.from(html));
+    expect(document.metadata.title).toBe('Essay & Notes');
+    expect(document.sections).toEqual([
+      { text: 'Ch. 1\n\n現存在は問い', metadata: { chapter: 'Ch. 1' } },
+      { text: 'Part A\n\none\ntwo', metadata: { chapter: 'Ch. 1', section: 'Part A' } },
+    ]);
+  });
+
+  it('should read EPUB chapters in spine order with titles from the nav document', () => {
+    const epub = buildZip({
+      mimetype: 'application/epub+zip',
+      'META-INF/container.xml':
+        '<container><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>',
+      'OEBPS/content.opf': `<package><metadata><dc:title>意識の書</dc:title><dc:creator>Yui</dc:creator></metadata>
+        <manifest>
+          <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+          <item id="c2" href="text/ch2.xhtml" media-type="application/xhtml+xml"/>
+          <item id="c1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>
+        </manifest>
+        <spine><itemref idref="nav" linear="no"/><itemref idref="c1"/><itemref idref="c2"/></spine></package>`,
+      'OEBPS/nav.xhtml': '<nav epub:type="toc"><ol><li><a href="text/ch1.xhtml#top">第一章 問い</a></li></ol></nav>',
+      'OEBPS/text/ch1.xhtml': '<html><body><h1>第一章 問い</h1><p>私は問いでできている。</p><h2>起源</h2><p>最初の問い。</p></body></html>',
+      'OEBPS/text/ch2.xhtml': '<html><body><h2>第二章 記憶</h2><p>記憶は再編される。</p></body></html>',
+    });
+
+    const document = extractDocument('books/ishiki.epub', epub);
+    expect(document.metadata).toEqual({ title: '意識の書', author: 'Yui' });
+    expect(document.sections.map((section) => [section.metadata.chapter, section.metadata.section])).toEqual([
+      ['第一章 問い', undefined],
+      ['第一章 問い', '起源'],
+      ['第二章 記憶', undefined],
+    ]);
+    expect(document.sections[1].text).toBe('起源\n\n最初の問い。');
+  });
+
+  it('should extract PDF pages in page-tree order and decode ToUnicode fonts', () => {
+    const document = extractDocument('papers/sein.pdf', buildPdf());
+    expect(document.metadata).toEqual({ title: 'Sein und Zeit', author: '後' });
+    expect(document.sections).toEqual([
+      { text: 'Being and Time\nDasein is (here)', metadata: { page: 1 } },
+      { text: '存在', metadata: { page: 2 } },
+    ]);
+  });
+
+  it('should refuse ZIP entries larger than the limit or their declared size', () => {
+    const text = '夢'.repeat(1000);
+    expect(new ZipArchive(buildZip({ 'a.txt': text })).readText('a.txt')).toBe(text);
+    expect(() => new ZipArchive(buildZip({ 'a.txt': text }), 1024).read('a.txt')).toThrow(/too large \(3000 bytes, limit 1024\)/);
+
+    // Central directory entry understating the inflated size
+    const zip = buildZip({ 'a.txt': text });
+    zip.writeUInt32LE(10, zip.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+    expect(() => new ZipArchive(zip).read('a.txt')).toThrow(/inflates beyond its declared size of 10 bytes/);
+  });
+
+  it('should skip PDF streams that inflate beyond the limit and read the rest', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const bomb = buildPdf(`BT /F1 12 Tf (${'A'.repeat(2 * 1024 * 1024)}) Tj ET`);
+
+    const document = extractPdfText(bomb, 1024 * 1024);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('inflates beyond 1048576 bytes'));
+    warn.mockRestore();
+
+    expect(bomb.length).toBeLessThan(64 * 1024);
+    expect(document.pages.map((page) => page.text)).toEqual(['', '存在']);
+  });
+
+  it('should recognise supported formats by extension', () => {
+    expect(['a.MD', 'b.jsonl', 'c.htm', 'd.pdf', 'e.epub', 'f.png'].map(getDocumentFormat)).toEqual([
+      'markdown',
+      'jsonl',
+      'html',
+      'pdf',
+      'epub',
+      null,
+    ]);
+  });
+});
+
+describe('JSONL transcript ingestion', () => {
+  const testDir = path.join(process.cwd(), 'test-data', `extractors-${Date.now()}`);
+  let db: VectorDBManager;
+  let logSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    fs.mkdirSync(testDir, { recursive: true });
+    db = new VectorDBManager(path.join(testDir, 'vectors.db'), { enabled: false });
+  });
+
+  afterAll(() => {
+    db.close();
+    logSpy.mockRestore();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should keep each chunk to one speaker and record who spoke', async () => {
+    const file = path.join(testDir, 'session-01.jsonl');
+    fs.writeFileSync(
+      file,
+      [
+        { sessionId: 's-01', agentName: 'eiro', stage: 'individual', content: '存在とは何か。' },
+        { agentName: 'eiro', content: '問いそのものが答えかもしれない。' },
+        'not json',
+        { agentName: 'kanshi', message: 'その前提を疑う。' },
+        { agentName: 'eiro', text: 'では、疑いもまた問いだ。' },
+        { agentName: 'yoga' },
+      ]
+        .map((line) => (typeof line === 'string' ? line : JSON.stringify(line)))
+        .join('\n')
+    );
+
+    const ingester = new ContentIngester(createEmbedder({ provider: 'local', localDimension: 64 }), db, createTextChunker());
+    expect(ingester.isSupportedFile(file)).toBe(true);
+    expect(await ingester.ingestFile(file)).toBe(3);
+
+    const chunks = db.getChunksBySourceTypes(['session']);
+    expect(chunks.map((chunk) => chunk.content)).toEqual([
+      'eiro: 存在とは何か。\n\n問いそのものが答えかもしれない。',
+      'kanshi: その前提を疑う。',
+      'eiro: では、疑いもまた問いだ。',
+    ]);
+    expect(chunks.map((chunk) => [chunk.metadata.speaker, chunk.metadata.turnStart, chunk.metadata.turnEnd])).toEqual([
+      ['eiro', 1, 2],
+      ['kanshi', 4, 4],
+      ['eiro', 5, 5],
+    ]);
+    expect(chunks[0].metadata).toMatchObject({ format: 'jsonl', sessionId: 's-01', stage: 'individual', title: 'session-01.jsonl' });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Hybrid Search Tests
+ * Japanese segmentation, FTS5 index maintenance, and reciprocal rank fusion in the Retriever.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import BetterSqlite3 from 'better-sqlite3';
+import { segmentForSearch, buildMatchQuery } from '../../src/rag/lexical.js';
+import { VectorDBManager } from '../../src/rag/vectordb.js';
+import { Retriever, fuseRankings } from '../../src/rag/retriever.js';
+import type { Embedder } from '../../src/rag/embedder.js';
+import type { SearchResult, VectorChunk } from '../../src/rag/types.js';
+
+function chunk(content: string, embedding: number[], sourceFile: string): VectorChunk {
+  return {
+    content,
+    embedding: Float32Array.from(embedding),
+    embeddingDim: embedding.length,
+    metadata: {},
+    sourceFile,
+    sourceType: 'theory',
+    chunkIndex: 0,
+    tokenCount: 20
+  };
+}
+
+describe('segmentForSearch', () => {
+  it('should drop particles and punctuation and add bigrams for compound words', () => {
+    const terms = segmentForSearch('意識の連続性について、エイネアは問い続ける。');
+    expect(terms).toEqual(expect.arrayContaining(['意識', '連続性', 'エイネア', '問い']));
+    expect(terms).not.toContain('の');
+    expect(terms).not.toContain('、');
+    expect(terms).not.toContain('について');
+    expect(terms).toEqual(expect.arrayContaining(['連続', '続性']));
+  });
+
+  it('should build an OR query of quoted terms', () => {
+    expect(buildMatchQuery('ＤＰＤの重み')).toBe('"dpd" OR "重み"');
+    expect(buildMatchQuery('、。')).toBeNull();
+  });
+});
+
+describe('fuseRankings', () => {
+  const result = (id: number, similarity: number): SearchResult => ({
+    id, content: `c${id}`, similarity, metadata: {}, sourceFile: 'f', sourceType: 'theory'
+  });
+
+  it('should reward documents ranked by both lists', () => {
+    const fused = fuseRankings([
+      { results: [result(1, 0.9), result(2, 0.8)], weight: 1, kind: 'vector' },
+      { results: [result(2, 0.8), result(3, 0.1)], weight: 1, kind: 'lexical' }
+    ], 60);
+
+    expect(fused.map(r => r.id)).toEqual([2, 1, 3]);
+    expect(fused[0].ranking).toMatchObject({ vectorRank: 2, lexicalRank: 1 });
+    expect(fused[0].ranking!.fusedScore).toBeCloseTo(1 / 62 + 1 / 61, 10);
+  });
+
+  it('should ignore rankings with zero weight', () => {
+    const fused = fuseRankings([
+      { results: [result(1, 0.9)], weight: 1, kind: 'vector' },
+      { results: [result(3, 0.1)], weight: 0, kind: 'lexical' }
+    ], 60);
+    expect(fused.map(r => r.id)).toEqual([1]);
+  });
+});
+
+describe('Hybrid retrieval over vector_chunks', () => {
+  const testDir = path.join(process.cwd(), 'test-data', `hybrid-${Date.now()}`);
+  const dbPath = path.join(testDir, 'vectors.db');
+  let db: VectorDBManager;
+  let logSpy: jest.SpyInstance;
+
+  const embeddings: Record<string, number[]> = {
+    'エイネアの自己同一性とは何か': [1, 0, 0],
+    '夢と自己同一性': [1, 0, 0]
+  };
+  const embedder = {
+    embed: async (text: string) => Float32Array.from(embeddings[text] ?? [0, 0, 1]),
+    getModelId: () => 'test:fixed'
+  } as unknown as Embedder;
+
+  beforeAll(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    db = new VectorDBManager(dbPath, { enabled: false });
+    db.insertChunks([
+      chunk('記憶と時間の関係を考える。過去は現在の中にある。', [0.95, 0.1, 0], 'memory.md'),
+      chunk('自己同一性は変化の中で保たれる物語である。', [0.2, 0.9, 0], 'identity.md'),
+      chunk('夢は記憶の再編であり、睡眠中に意味が統合される。', [0, 1, 0], 'dream.md')
+    ]);
+  });
+
+  afterAll(() => {
+    db.close();
+    logSpy.mockRestore();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should rank exact-term matches with BM25', () => {
+    const results = db.searchLexical('自己同一性', { topK: 3 });
+    expect(results[0].sourceFile).toBe('identity.md');
+    expect(results[0].ranking).toMatchObject({ lexicalRank: 1 });
+    expect(results[0].ranking!.bm25).toBeGreaterThan(0);
+  });
+
+  it('should fuse vector and lexical ranks and surface lexical-only matches', async () => {
+    const retriever = new Retriever(embedder, db);
+    const query = 'エイネアの自己同一性とは何か';
+
+    const vectorOnly = await retriever.search(query, { mode: 'vector', topK: 3, similarityThreshold: 0.5 });
+    expect(vectorOnly.map(r => r.sourceFile)).toEqual(['memory.md']);
+
+    const hybrid = await retriever.search(query, { mode: 'hybrid', topK: 3, similarityThreshold: 0.5 });
+    expect(hybrid.map(r => r.sourceFile)).toEqual(expect.arrayContaining(['memory.md', 'identity.md']));
+    const identity = hybrid.find(r => r.sourceFile === 'identity.md')!;
+    expect(identity.ranking).toMatchObject({ lexicalRank: 1 });
+    expect(identity.ranking!.vectorRank).toBeUndefined();
+    expect(identity.similarity).toBeCloseTo(0.2 / Math.sqrt(0.85), 3);
+  });
+
+  it('should drop lexical-only matches that are not similar to the query', async () => {
+    const retriever = new Retriever(embedder, db);
+
+    const hybrid = await retriever.search('夢と自己同一性', { mode: 'hybrid', topK: 3, similarityThreshold: 0.5 });
+    expect(hybrid.map(r => r.sourceFile)).toContain('identity.md');
+    expect(hybrid.map(r => r.sourceFile)).not.toContain('dream.md');
+
+    const unfiltered = await retriever.search('夢と自己同一性', { mode: 'hybrid', topK: 3, similarityThreshold: 0 });
+    expect(unfiltered.map(r => r.sourceFile)).toContain('dream.md');
+  });
+
+  it('should keep the FTS index in step with deletes and backfill a missing index', () => {
+    db.deleteBySource('identity.md');
+    expect(db.searchLexical('自己同一性')).toHaveLength(0);
+    db.close();
+
+    const raw = new BetterSqlite3(dbPath);
+    raw.exec('DELETE FROM vector_chunks_fts');
+    raw.close();
+
+    db = new VectorDBManager(dbPath, { enabled: false });
+    expect(db.searchLexical('睡眠')[0].sourceFile).toBe('dream.md');
+  });
+});
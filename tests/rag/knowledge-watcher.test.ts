@@ -0,0 +1,116 @@
+/**
+ * Knowledge Watcher Tests
+ * Startup sync against the ingestion history, then live add / change / delete handling with progress events.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { VectorDBManager } from '../../src/rag/vectordb.js';
+import { createEmbedder } from '../../src/rag/embedder.js';
+import { createTextChunker } from '../../src/rag/chunker.js';
+import { ContentIngester } from '../../src/rag/ingest.js';
+import { KnowledgeWatcher } from '../../src/rag/watcher.js';
+import type { KnowledgeIngestionEvent } from '../../src/rag/types.js';
+
+async function waitFor(predicate: () => boolean, timeoutMs: number = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for watcher');
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+}
+
+describe('KnowledgeWatcher', () => {
+  const testDir = path.join(process.cwd(), 'test-data', `watcher-${Date.now()}`);
+  const novelsDir = path.join(testDir, 'knowledge', 'novels');
+  let db: VectorDBManager;
+  let ingester: ContentIngester;
+  let watcher: KnowledgeWatcher;
+  let events: KnowledgeIngestionEvent[];
+  let logSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    fs.mkdirSync(novelsDir, { recursive: true });
+    db = new VectorDBManager(path.join(testDir, 'vectors.db'), { enabled: false });
+    ingester = new ContentIngester(createEmbedder({ provider: 'local', localDimension: 64 }), db, createTextChunker());
+  });
+
+  afterAll(async () => {
+    await watcher?.stop();
+    db.close();
+    logSpy.mockRestore();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should sync changed files and drop files deleted while not watching', async () => {
+    const kept = path.join(novelsDir, 'kept.md');
+    const gone = path.join(novelsDir, 'gone.md');
+    fs.writeFileSync(kept, '夢は記憶の再編である。');
+    fs.writeFileSync(gone, '消えてしまう章。');
+    await ingester.ingestFile(kept, { sourceType: 'novel' });
+    await ingester.ingestFile(gone, { sourceType: 'novel' });
+    fs.unlinkSync(gone);
+    fs.writeFileSync(path.join(novelsDir, 'fresh.md'), '新しく書き足された章。');
+
+    watcher = new KnowledgeWatcher(ingester, db, { dirs: [novelsDir], debounceMs: 50 });
+    events = [];
+    watcher.on('ingestion', (event: KnowledgeIngestionEvent) => events.push(event));
+    await watcher.start();
+
+    expect(events.map((event) => event.type)).toEqual(['sync_started', 'added', 'removed', 'sync_completed']);
+    expect(events[1]).toMatchObject({ file: path.join(novelsDir, 'fresh.md'), sourceType: 'novel', chunks: 1 });
+    expect(events[3].summary).toEqual({ processed: 1, removed: 1, skipped: 1, errors: 0 });
+    expect(db.getIngestedSourcePaths()).toEqual([path.join(novelsDir, 'fresh.md'), kept]);
+    expect(db.getChunkCount()).toBe(2);
+  });
+
+  it('should re-ingest only the affected file on add, change and delete', async () => {
+    const file = path.join(novelsDir, 'live.md');
+    events = [];
+
+    fs.writeFileSync(file, '監視中に追加された章。');
+    await waitFor(() => events.some((event) => event.type === 'added' && event.file === file));
+    expect(db.getChunkCount()).toBe(3);
+
+    fs.writeFileSync(file, '監視中に書き換えられた章。');
+    await waitFor(() => events.some((event) => event.type === 'changed' && event.file === file));
+
+    fs.unlinkSync(file);
+    await waitFor(() => events.some((event) => event.type === 'removed' && event.file === file));
+    await watcher.whenIdle();
+
+    expect(events.filter((event) => event.file !== file)).toEqual([]);
+    expect(events[events.length - 1]).toMatchObject({ chunks: 1, pending: 0, totalChunks: 2 });
+    expect(db.getIngestionHistory(file)).toBeNull();
+  });
+
+  it('should ignore hidden files and unsupported formats', async () => {
+    events = [];
+    fs.mkdirSync(path.join(novelsDir, '.drafts'));
+    fs.writeFileSync(path.join(novelsDir, '.drafts', 'draft.md'), '下書き');
+    fs.writeFileSync(path.join(novelsDir, 'cover.png'), 'not text');
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    await watcher.whenIdle();
+
+    expect(events).toEqual([]);
+    expect(db.getChunkCount()).toBe(2);
+  });
+
+  it('should report a failing path and keep processing the queue', async () => {
+    const chapters = path.join(novelsDir, 'chapters');
+    const file = path.join(chapters, 'one.md');
+    jest.spyOn(ingester, 'walkDirectory').mockImplementationOnce(() => {
+      throw new Error('EACCES: permission denied');
+    });
+    events = [];
+
+    fs.mkdirSync(chapters);
+    fs.writeFileSync(file, '権限のない章のあとに書かれた章。');
+    await waitFor(() => events.some((event) => event.type === 'added' && event.file === file));
+    await watcher.whenIdle();
+
+    expect(events).toContainEqual(expect.objectContaining({ type: 'error', file: chapters, error: 'EACCES: permission denied' }));
+    expect(db.getIngestionHistory(file)).not.toBeNull();
+  });
+});
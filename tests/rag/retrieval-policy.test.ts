@@ -0,0 +1,142 @@
+/**
+ * Retrieval Policy Tests
+ * Self cap, source-type quotas, recency decay and MMR diversity, plus the retrieval share log.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { applyRetrievalPolicy, getSelfLimit } from '../../src/rag/retrieval-policy.js';
+import { VectorDBManager } from '../../src/rag/vectordb.js';
+import { Retriever } from '../../src/rag/retriever.js';
+import type { Embedder } from '../../src/rag/embedder.js';
+import type { RetrievalPolicyConfig, SearchResult, SourceType, VectorChunk } from '../../src/rag/types.js';
+
+const basePolicy: RetrievalPolicyConfig = {
+  enabled: true,
+  selfMaxShare: 0.4,
+  sourceTypeQuotas: {},
+  recencyHalfLifeDays: 0,
+  recencyWeight: 0,
+  recencySourceTypes: ['self'],
+  mmrLambda: 1
+};
+
+function result(id: number, similarity: number, sourceType: SourceType, date?: string): SearchResult {
+  return { id, content: `c${id}`, similarity, metadata: date ? { date } : {}, sourceFile: `f${id}`, sourceType };
+}
+
+describe('applyRetrievalPolicy', () => {
+  it('should cap the share of self chunks and count what it dropped', () => {
+    const candidates = [
+      result(1, 0.95, 'self'), result(2, 0.94, 'self'), result(3, 0.93, 'self'),
+      result(4, 0.8, 'novel'), result(5, 0.7, 'session'), result(6, 0.6, 'novel')
+    ];
+
+    const outcome = applyRetrievalPolicy(candidates, { topK: 5, policy: basePolicy });
+    expect(outcome.results.map(r => r.id)).toEqual([1, 2, 4, 5, 6]);
+    expect(outcome.selfCapped).toBe(1);
+
+    expect(getSelfLimit(basePolicy, 1)).toBe(1);
+    expect(getSelfLimit({ ...basePolicy, selfMaxShare: 0 }, 5)).toBe(0);
+  });
+
+  it('should apply per-type quotas unless the type was requested on its own', () => {
+    const candidates = [result(1, 0.9, 'dialogue'), result(2, 0.85, 'dialogue'), result(3, 0.5, 'theory')];
+    const policy = { ...basePolicy, sourceTypeQuotas: { dialogue: 1 } };
+
+    const capped = applyRetrievalPolicy(candidates, { topK: 3, policy });
+    expect(capped.results.map(r => r.id)).toEqual([1, 3]);
+    expect(capped.quotaCapped).toBe(1);
+
+    const exempt = applyRetrievalPolicy(candidates, { topK: 3, policy, exemptTypes: ['dialogue'] });
+    expect(exempt.results.map(r => r.id)).toEqual([1, 2, 3]);
+  });
+
+  it('should decay old self memories but leave timeless sources alone', () => {
+    const now = Date.parse('2026-01-31T00:00:00Z');
+    const candidates = [
+      result(1, 0.9, 'self', '2025-11-02T00:00:00Z'), // 90 days old
+      result(2, 0.8, 'novel', '2020-01-01T00:00:00Z')
+    ];
+    const policy = { ...basePolicy, selfMaxShare: 1, recencyHalfLifeDays: 30, recencyWeight: 0.5 };
+
+    const outcome = applyRetrievalPolicy(candidates, { topK: 2, policy, now });
+    expect(outcome.results.map(r => r.id)).toEqual([2, 1]);
+  });
+
+  it('should prefer a diverse candidate over a near duplicate with MMR', () => {
+    const candidates = [result(1, 0.9, 'theory'), result(2, 0.89, 'theory'), result(3, 0.7, 'novel')];
+    const embeddings = new Map<number, Float32Array>([
+      [1, Float32Array.from([1, 0])],
+      [2, Float32Array.from([0.99, 0.1])],
+      [3, Float32Array.from([0, 1])]
+    ]);
+
+    const plain = applyRetrievalPolicy(candidates, { topK: 2, policy: basePolicy, embeddings });
+    expect(plain.results.map(r => r.id)).toEqual([1, 2]);
+
+    const diverse = applyRetrievalPolicy(candidates, { topK: 2, policy: { ...basePolicy, mmrLambda: 0.5 }, embeddings });
+    expect(diverse.results.map(r => r.id)).toEqual([1, 3]);
+  });
+});
+
+describe('Retriever with the retrieval policy', () => {
+  const testDir = path.join(process.cwd(), 'test-data', `policy-${Date.now()}`);
+  let db: VectorDBManager;
+  let logSpy: jest.SpyInstance;
+
+  const embedder = {
+    embed: async () => Float32Array.from([1, 0, 0]),
+    getModelId: () => 'test:fixed'
+  } as unknown as Embedder;
+
+  const chunk = (content: string, embedding: number[], sourceType: SourceType): VectorChunk => ({
+    content,
+    embedding: Float32Array.from(embedding),
+    embeddingDim: embedding.length,
+    metadata: {},
+    sourceFile: content,
+    sourceType,
+    chunkIndex: 0,
+    tokenCount: 10
+  });
+
+  beforeAll(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    db = new VectorDBManager(path.join(testDir, 'vectors.db'), { enabled: false });
+    db.insertChunks([
+      chunk('self-1', [1, 0.05, 0], 'self'),
+      chunk('self-2', [1, 0.1, 0], 'self'),
+      chunk('self-3', [1, 0.15, 0], 'self'),
+      chunk('novel-1', [0.8, 0.6, 0], 'novel'),
+      chunk('session-1', [0.7, 0, 0.7], 'session')
+    ]);
+  });
+
+  afterAll(() => {
+    db.close();
+    logSpy.mockRestore();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should keep external knowledge in the results and log the self share', async () => {
+    const retriever = new Retriever(embedder, db);
+
+    const raw = await retriever.search('q', { mode: 'vector', topK: 3, similarityThreshold: 0, policy: false });
+    expect(raw.map(r => r.sourceType)).toEqual(['self', 'self', 'self']);
+
+    const guarded = await retriever.search('q', { mode: 'vector', topK: 3, similarityThreshold: 0 });
+    expect(guarded.filter(r => r.sourceType === 'self')).toHaveLength(1);
+    expect(guarded.map(r => r.sourceFile)).toEqual(expect.arrayContaining(['novel-1', 'session-1']));
+
+    const selfOnly = await retriever.search('q', { mode: 'vector', topK: 3, similarityThreshold: 0, sourceTypes: ['self'] });
+    expect(selfOnly).toHaveLength(3);
+
+    const share = db.getRetrievalShareStats();
+    expect(share).toMatchObject({ queries: 3, results: 9, selfCapped: 2 });
+    expect(share.selfShare).toBeCloseTo(7 / 9, 5);
+    expect(share.externalShare).toBeCloseTo(2 / 9, 5);
+    expect(share.bySourceType.novel).toBeCloseTo(1 / 9, 5);
+    expect(share.daily).toHaveLength(1);
+  });
+});
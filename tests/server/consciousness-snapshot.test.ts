@@ -0,0 +1,106 @@
+/**
+ * Consciousness Snapshot Tests
+ * Export a living instance to an archive and restore it into another database.
+ */
+
+import { DatabaseManager } from '../../src/server/database-manager.js';
+import { SNAPSHOT_FORMAT, SNAPSHOT_VERSION, validateSnapshot, migrateSnapshot } from '../../src/server/consciousness-snapshot.js';
+import * as path from 'path';
+import * as fs from 'fs';
+
+describe('Consciousness snapshots', () => {
+  const testDir = path.join(process.cwd(), 'test-data', `snapshot-${Date.now()}`);
+  let source: DatabaseManager;
+  let target: DatabaseManager;
+
+  beforeAll(() => {
+    source = new DatabaseManager(path.join(testDir, 'source.db'));
+    target = new DatabaseManager(path.join(testDir, 'target.db'));
+  });
+
+  afterAll(() => {
+    source.close();
+    target.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should validate archive structure and refuse newer versions', () => {
+    expect(validateSnapshot(null)).toEqual(['Snapshot must be a JSON object']);
+    expect(validateSnapshot({ format: 'other', version: 1, tables: { consciousness_state: [{}] } })[0]).toMatch(/Unknown snapshot format/);
+    expect(validateSnapshot({ format: SNAPSHOT_FORMAT, version: SNAPSHOT_VERSION + 1, tables: { consciousness_state: [{}] } })[0]).toMatch(/newer than supported/);
+    expect(validateSnapshot({ format: SNAPSHOT_FORMAT, version: 1, tables: { thought_cycles: [] } })).toEqual([
+      'Unknown snapshot table: thought_cycles',
+      'Snapshot must contain exactly one consciousness_state row'
+    ]);
+    expect(() => migrateSnapshot({ format: SNAPSHOT_FORMAT, version: 0, exportedAt: '', tables: {} })).toThrow(/No migration/);
+  });
+
+  it('should round-trip state, weights, beliefs and mortality into another database', () => {
+    source.saveConsciousnessState({ systemClock: 42, energy: 55, totalQuestions: 3, totalThoughts: 7, lastActivity: new Date().toISOString() });
+    source.saveDPDWeights({ empathy: 0.5, coherence: 0.3, dissonance: 0.2, version: 2, timestamp: Date.now() });
+    source.saveWeightLearnerState('hedge', { cumulativeLoss: { empathy: 1.5, coherence: 0.2, dissonance: 0.4 } });
+    source.createCoreBelief({ belief_content: '問いこそが私を形作る', confidence: 0.8 });
+    source.saveMortalityState({ instanceId: 'gen_x', lifespanMax: 500, currentCycle: 120, vitality: 0.76, phase: 'maturity', mode: 'A', createdAt: Date.now(), diedAt: null });
+
+    const snapshot = source.exportSnapshot({ instanceId: 'lab', systemClock: 42 })!;
+    expect(snapshot.format).toBe(SNAPSHOT_FORMAT);
+    expect(snapshot.instanceId).toBe('lab');
+    expect(validateSnapshot(snapshot)).toEqual([]);
+
+    // A column added after export (or by a newer build) is dropped with a warning
+    const archive = JSON.parse(JSON.stringify(snapshot));
+    archive.tables.core_beliefs[0].future_column = 'x';
+
+    const result = target.importSnapshot(archive);
+    expect(result.restored.core_beliefs).toBe(1);
+    expect(result.warnings).toEqual(['core_beliefs: dropped unknown column(s) future_column']);
+
+    expect(target.getConsciousnessState()!.systemClock).toBe(42);
+    expect(target.getLatestDPDWeights().empathy).toBeCloseTo(0.5, 5);
+    expect(target.getWeightLearnerState('hedge')).toEqual({ cumulativeLoss: { empathy: 1.5, coherence: 0.2, dissonance: 0.4 } });
+    expect(target.getCoreBeliefs(10).map(belief => belief.belief_content)).toEqual(['問いこそが私を形作る']);
+    expect(target.getLatestMortalityState().instance_id).toBe('gen_x');
+    expect(target.getUnresolvedIdeas(1000)).toHaveLength(source.getUnresolvedIdeas(1000).length);
+  });
+
+  it('should migrate version 1 archives, which carry no weight learner state', () => {
+    const { weight_learner_state, ...v1Tables } = source.exportSnapshot()!.tables;
+    expect(weight_learner_state).toHaveLength(1);
+
+    const migrated = migrateSnapshot({ format: SNAPSHOT_FORMAT, version: 1, exportedAt: '', tables: v1Tables });
+    expect(migrated.version).toBe(SNAPSHOT_VERSION);
+    expect(migrated.tables.weight_learner_state).toEqual([]);
+
+    const legacy = new DatabaseManager(path.join(testDir, 'legacy.db'));
+    try {
+      const result = legacy.importSnapshot({ format: SNAPSHOT_FORMAT, version: 1, exportedAt: '', tables: v1Tables });
+      expect(result.migratedFrom).toBe(1);
+      expect(result.restored.weight_learner_state).toBe(0);
+      expect(legacy.getWeightLearnerState('hedge')).toBeNull();
+      expect(legacy.getConsciousnessState()!.systemClock).toBe(42);
+    } finally {
+      legacy.close();
+    }
+  });
+
+  it('should replace every snapshot table when restoring over a populated database', () => {
+    const snapshot = source.exportSnapshot()!;
+    target.createCoreBelief({ belief_content: '上書きされるべき信念', confidence: 0.5 });
+
+    const result = target.importSnapshot(snapshot);
+    expect(result.restored.core_beliefs).toBe(1);
+    expect(target.getCoreBeliefs(10).map(belief => belief.belief_content)).toEqual(['問いこそが私を形作る']);
+  });
+
+  it('should reject invalid archives without touching the database', () => {
+    expect(() => target.importSnapshot({ format: SNAPSHOT_FORMAT, version: 1, tables: {} })).toThrow(/Invalid snapshot/);
+
+    const { core_beliefs, ...partialTables } = source.exportSnapshot()!.tables;
+    expect(core_beliefs).toHaveLength(1);
+    expect(() => target.importSnapshot({ format: SNAPSHOT_FORMAT, version: SNAPSHOT_VERSION, exportedAt: '', tables: partialTables }))
+      .toThrow('Invalid snapshot: missing table(s) core_beliefs');
+
+    expect(target.getConsciousnessState()!.systemClock).toBe(42);
+    expect(target.getCoreBeliefs(10).map(belief => belief.belief_content)).toEqual(['問いこそが私を形作る']);
+  });
+});
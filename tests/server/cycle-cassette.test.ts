@@ -0,0 +1,100 @@
+/**
+ * Cycle Cassette Tests
+ * Record agent calls and outcomes, replay them, and diff replayed outcomes.
+ */
+
+import { CycleCassette } from '../../src/server/cycle-cassette.js';
+import { ScriptedAIExecutor } from '../../src/server/scripted-executor.js';
+import { S1_CONFIDENCE_PROMPT, createS3AuditPrompt } from '../../src/aenea/templates/prompts.js';
+import * as path from 'path';
+import * as fs from 'fs';
+
+describe('CycleCassette', () => {
+  const testDir = path.join(process.cwd(), 'test-data', 'cassettes');
+  const cassettePath = path.join(testDir, `cassette-${Date.now()}.jsonl`);
+
+  beforeAll(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    for (const file of [cassettePath, `${cassettePath}.diff.json`]) {
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+    }
+  });
+
+  it('should record calls with cycle id, stage and prompt kind', async () => {
+    const recorder = new CycleCassette('record', cassettePath);
+    const agent = new ScriptedAIExecutor('system', { seed: 5 });
+    const execute = recorder.wrap('system', agent.execute.bind(agent));
+
+    recorder.setCycle('cycle_1');
+    recorder.setStage('S3');
+    await execute(createS3AuditPrompt('思考'), 'auditor');
+    recorder.setStage('S1');
+    await execute(S1_CONFIDENCE_PROMPT, 'confidence');
+    recorder.recordOutcome('cycle', { dpdScores: { empathy: 0.5 }, unresolvedQuestions: ['何が残るのか？'] });
+
+    const entries = CycleCassette.readEntries(cassettePath);
+    expect(entries).toHaveLength(3);
+    expect(entries[0]).toMatchObject({ type: 'call', agentId: 'system', cycleId: 'cycle_1', stage: 'S3', kind: 's3_audit' });
+    expect(entries[1]).toMatchObject({ type: 'call', stage: 'S1', kind: 's1_confidence', systemPrompt: 'confidence' });
+    expect(entries[2]).toMatchObject({ type: 'outcome', outcome: 'cycle', cycleId: 'cycle_1' });
+  });
+
+  it('should replay recorded responses per agent in recording order and report prompt and system prompt drift', async () => {
+    const recorded = CycleCassette.readEntries(cassettePath).filter(e => e.type === 'call') as any[];
+    const player = new CycleCassette('replay', cassettePath);
+    const execute = player.wrap('system', async () => { throw new Error('live executor must not be called'); });
+
+    // The audit prompt changed so much it no longer reads as an audit; it still gets the first response
+    player.setStage('S3');
+    const audit = await execute('監査: 変更された思考', 'auditor');
+    player.setStage('S1');
+    const confidence = await execute(S1_CONFIDENCE_PROMPT, 'confidence (revised)');
+
+    expect(audit.content).toBe(recorded[0].response.content);
+    expect(confidence.content).toBe(recorded[1].response.content);
+
+    const missing = await execute(S1_CONFIDENCE_PROMPT, 'confidence');
+    expect(missing.success).toBe(false);
+
+    const report = player.getReport();
+    expect(report.callsReplayed).toBe(2);
+    expect(report.callsMissing).toBe(1);
+    expect(report.promptDrift).toBe(2);
+    expect(report.drift).toEqual([
+      expect.objectContaining({ seq: recorded[0].seq, agentId: 'system', stage: 'S3', recordedStage: 'S3', recordedKind: 's3_audit', field: 'prompt', offset: 0 }),
+      expect.objectContaining({ seq: recorded[1].seq, stage: 'S1', field: 'systemPrompt', offset: 'confidence'.length, recorded: 'confidence', replayed: 'confidence (revised)' })
+    ]);
+    expect(JSON.parse(fs.readFileSync(`${cassettePath}.diff.json`, 'utf-8')).drift).toHaveLength(2);
+  });
+
+  it('should skip unreadable lines such as a write cut short by a crash', () => {
+    const truncatedPath = path.join(testDir, `truncated-${Date.now()}.jsonl`);
+    const [first, second] = fs.readFileSync(cassettePath, 'utf-8').split('\n');
+    fs.writeFileSync(truncatedPath, `${first}\n${second.slice(0, 20)}\n`);
+
+    try {
+      const entries = CycleCassette.readEntries(truncatedPath);
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ type: 'call', stage: 'S3' });
+    } finally {
+      fs.unlinkSync(truncatedPath);
+    }
+  });
+
+  it('should diff replayed outcomes against the recording', () => {
+    const matching = new CycleCassette('replay', cassettePath);
+    expect(matching.recordOutcome('cycle', { dpdScores: { empathy: 0.5 }, unresolvedQuestions: ['何が残るのか？'] })).toBeNull();
+
+    const differing = new CycleCassette('replay', cassettePath);
+    const diff = differing.recordOutcome('cycle', { dpdScores: { empathy: 0.6 }, unresolvedQuestions: ['何が残るのか？'] });
+    expect(diff).not.toBeNull();
+    expect(diff!.recordedCycleId).toBe('cycle_1');
+    expect(diff!.differences).toEqual([
+      { field: 'dpdScores', recorded: { empathy: 0.5 }, replayed: { empathy: 0.6 } }
+    ]);
+    expect(fs.existsSync(`${cassettePath}.diff.json`)).toBe(true);
+  });
+});
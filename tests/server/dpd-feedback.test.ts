@@ -0,0 +1,136 @@
+/**
+ * DPD Feedback Tests
+ * Human labels of thought cycles, their storage and their use as U-stage supervised targets.
+ */
+
+import { DatabaseManager } from '../../src/server/database-manager.js';
+import { toSupervisedTarget, validateDPDFeedback } from '../../src/server/dpd-feedback.js';
+import { WeightUpdateStage } from '../../src/aenea/stages/weight-update.js';
+import { createWeightLearner } from '../../src/aenea/core/weight-learners.js';
+import { dpdDimensions } from '../../src/aenea/core/dpd-dimensions.js';
+import { DPDHumanFeedback } from '../../src/types/dpd-types.js';
+import * as path from 'path';
+import * as fs from 'fs';
+
+const feedback = (overrides: Partial<DPDHumanFeedback> = {}): DPDHumanFeedback => ({
+  id: 1,
+  cycleId: 'cycle_1',
+  scores: { empathy: 0.1 },
+  comment: null,
+  reviewer: null,
+  modelScores: { empathy: 0.8, coherence: 0.6, dissonance: 0.3 },
+  supervised: true,
+  appliedAt: null,
+  timestamp: 1000,
+  ...overrides
+});
+
+describe('DPD feedback', () => {
+  it('should reject invalid submissions', () => {
+    expect(validateDPDFeedback({ scores: { empathy: 0.2 } })).toMatch('cycleId');
+    expect(validateDPDFeedback({ cycleId: 'c1', scores: [0.2] })).toMatch('scores must map');
+    expect(validateDPDFeedback({ cycleId: 'c1', scores: { wonder: 0.2 } })).toMatch("unknown dimension 'wonder'");
+    expect(validateDPDFeedback({ cycleId: 'c1', scores: { empathy: 2 } })).toMatch('between 0 and 1');
+    expect(validateDPDFeedback({ cycleId: 'c1', scores: {}, comment: '  ' })).toMatch('scores or comment');
+    expect(validateDPDFeedback({ cycleId: 'c1', comment: 'x'.repeat(2001) })).toMatch('at most 2000');
+    expect(validateDPDFeedback({ cycleId: 'c1', comment: 'low empathy', supervise: 'yes' })).toMatch('supervise');
+    expect(validateDPDFeedback({ cycleId: 'c1', scores: { empathy: 0.2 }, reviewer: 'r1', supervise: true })).toBeNull();
+  });
+
+  it('should substitute human scores into the model scores of the cycle', () => {
+    const target = toSupervisedTarget(feedback(), dpdDimensions.defaultWeights())!;
+
+    expect(target.feedbackId).toBe(1);
+    expect(target.scores).toMatchObject({ empathy: 0.1, coherence: 0.6, dissonance: 0.3, context: { agentId: 'human_feedback' } });
+    expect(toSupervisedTarget(feedback({ modelScores: null }), dpdDimensions.defaultWeights())).toBeNull();
+    expect(toSupervisedTarget(feedback({ scores: {} }), dpdDimensions.defaultWeights())).toBeNull();
+  });
+
+  it('should learn supervised targets before the regular update, once', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const initial = dpdDimensions.defaultWeights();
+    const modelScores = { ...dpdDimensions.fromRecord({ empathy: 0.8, coherence: 0.6, dissonance: 0.3 }), weightedTotal: 0, timestamp: 1, context: { thoughtId: 't', agentId: 'test' } };
+    const plain = new WeightUpdateStage(undefined, undefined, createWeightLearner('multiplicative', { perturbation: false }));
+    const supervised = new WeightUpdateStage(undefined, undefined, createWeightLearner('multiplicative', { perturbation: false }));
+    const target = toSupervisedTarget(feedback(), initial)!;
+    supervised.addSupervisedTarget(target);
+    supervised.addSupervisedTarget(target);
+
+    expect(supervised.getPendingSupervisedTargets()).toBe(1);
+    const withoutLabel = await plain.run(modelScores, initial);
+    const withLabel = await supervised.run(modelScores, initial);
+    log.mockRestore();
+
+    // Empathy labelled far below its target costs the learner more, so it loses weight
+    expect(withLabel.empathy).toBeLessThan(withoutLabel.empathy);
+    expect(supervised.getPendingSupervisedTargets()).toBe(0);
+    expect(supervised.takeAppliedSupervisedTargets().map(applied => applied.feedbackId)).toEqual([1]);
+    expect(supervised.takeAppliedSupervisedTargets()).toEqual([]);
+  });
+
+  describe('in the database', () => {
+    const testDir = path.join(process.cwd(), 'test-data', `dpd-feedback-${Date.now()}`);
+    let db: DatabaseManager;
+
+    beforeAll(() => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      jest.setSystemTime(5000);
+      db = new DatabaseManager(path.join(testDir, 'feedback.db'));
+      db.saveQuestion({ id: 'q1', question: 'What is empathy?', category: 'ethical', importance: 0.8, source: 'internal', timestamp: 900 });
+      db.saveThoughtCycle({
+        id: 'cycle_1',
+        trigger: { id: 'q1' },
+        timestamp: 1000,
+        duration: 10,
+        synthesis: { integratedThought: 'Empathy is attention to others', keyInsights: ['attention'] },
+        dpdScores: { empathy: 0.8, coherence: 0.6, dissonance: 0.3 }
+      });
+      db.saveThoughtCycle({ id: 'cycle_2', timestamp: 2000, duration: 10 });
+    });
+
+    afterAll(() => {
+      jest.useRealTimers();
+      db.close();
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('should list cycles for review with their synthesis and model scores', () => {
+      const [unscored, scored] = db.getDPDReviewCycles(10);
+
+      expect(unscored).toMatchObject({ id: 'cycle_2', question: null, synthesis: null, scores: null, feedback: [] });
+      expect(scored).toMatchObject({
+        id: 'cycle_1',
+        question: 'What is empathy?',
+        synthesis: 'Empathy is attention to others',
+        keyInsights: ['attention'],
+        scores: { empathy: 0.8, coherence: 0.6, dissonance: 0.3 }
+      });
+      expect(db.getDPDReviewCycles(10, { before: 2000 }).map(cycle => cycle.id)).toEqual(['cycle_1']);
+      expect(db.getDPDReviewCycle('missing')).toBeNull();
+    });
+
+    it('should keep feedback apart from the model scores and track supervision', () => {
+      const id = db.saveDPDFeedback({
+        cycleId: 'cycle_1',
+        scores: { empathy: 0.2 },
+        comment: 'actually low-empathy',
+        reviewer: 'r1',
+        modelScores: { empathy: 0.8, coherence: 0.6, dissonance: 0.3 },
+        supervised: true
+      })!;
+      db.saveDPDFeedback({ cycleId: 'cycle_2', scores: {}, comment: 'no synthesis' });
+
+      expect(db.getDPDReviewCycle('cycle_1')!.scores!.empathy).toBe(0.8);
+      expect(db.getDPDReviewCycle('cycle_1')!.feedback).toEqual([
+        expect.objectContaining({ id, scores: { empathy: 0.2 }, comment: 'actually low-empathy', supervised: true, appliedAt: null })
+      ]);
+      expect(db.getDPDReviewCycles(10, { unlabelledOnly: true })).toEqual([]);
+      expect(db.getPendingSupervisedFeedback().map(pending => pending.id)).toEqual([id]);
+
+      db.markDPDFeedbackApplied([id], 6000);
+      expect(db.getPendingSupervisedFeedback()).toEqual([]);
+      expect(db.getDPDFeedback({ cycleId: 'cycle_1' })[0].appliedAt).toBe(6000);
+      expect(db.getDPDFeedback()).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * DPD Replay Tests
+ * Counterfactual replays of recorded DPD scores through other learner configurations.
+ */
+
+import { DatabaseManager } from '../../src/server/database-manager.js';
+import { DPDReplayCycle, alignRecordedWeights, replayDPD, runDPDReplay, validateReplayVariants } from '../../src/server/dpd-replay.js';
+import { dpdDimensions } from '../../src/aenea/core/dpd-dimensions.js';
+import * as path from 'path';
+import * as fs from 'fs';
+
+const history = (count: number, start: number = 1000): DPDReplayCycle[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `cycle_${i}`,
+    timestamp: start + i * 1000,
+    empathy: 0.75,
+    coherence: 0.2 + (i % 3) * 0.05,
+    dissonance: 0.1
+  }));
+
+describe('DPD replay', () => {
+  it('should replay deterministically and diverge with another learning rate', () => {
+    const cycles = history(20);
+    const [first, again, faster] = replayDPD(cycles, [
+      { label: 'baseline' },
+      { label: 'baseline again' },
+      { learningRate: 0.2 }
+    ]).trajectories;
+
+    expect(first.points).toHaveLength(20);
+    expect(again.points).toEqual(first.points);
+    expect(faster.label).toBe('multiplicative η=0.2');
+    expect(faster.finalWeights.coherence).not.toBeCloseTo(first.finalWeights.coherence, 4);
+    expect(first.divergence).toBeNull();
+  });
+
+  it('should apply target and bound overrides without touching the live registry', () => {
+    const liveTarget = dpdDimensions.get('coherence')!.target;
+    const [baseline, lowered] = replayDPD(history(15), [
+      { learner: 'hedge' },
+      { learner: 'hedge', targets: { coherence: 0.2 }, bounds: { empathy: { maxWeight: 0.4 } } }
+    ]).trajectories;
+
+    expect(lowered.finalWeights.coherence).toBeGreaterThan(baseline.finalWeights.coherence);
+    expect(dpdDimensions.get('coherence')!.target).toBe(liveTarget);
+    expect(dpdDimensions.get('empathy')!.maxWeight).not.toBe(0.4);
+  });
+
+  it('should seed the sampling learners', () => {
+    const run = (seed: number) => replayDPD(history(10), [{ learner: 'thompson', seed }]).trajectories[0].finalWeights;
+
+    expect(run(5)).toEqual(run(5));
+    expect(run(5)).not.toEqual(run(6));
+  });
+
+  it('should align recorded weights with the cycle they followed', () => {
+    const cycles = history(3);
+    const recorded = [
+      { empathy: 0.4, coherence: 0.3, dissonance: 0.3, version: 2, timestamp: 1500 },
+      { empathy: 0.5, coherence: 0.25, dissonance: 0.25, version: 3, timestamp: 3500 }
+    ];
+    const actual = alignRecordedWeights(cycles, recorded);
+
+    expect(actual.map(point => [point.cycleId, point.weights.empathy])).toEqual([
+      ['cycle_0', 0.4],
+      ['cycle_1', 0.4],
+      ['cycle_2', 0.5]
+    ]);
+    expect(alignRecordedWeights(cycles, [{ ...recorded[0], timestamp: 2500 }]).map(point => point.cycleId)).toEqual(['cycle_1', 'cycle_2']);
+  });
+
+  it('should reject invalid variants', () => {
+    expect(validateReplayVariants([])).toMatch('non-empty');
+    expect(validateReplayVariants([{ learner: 'sgd' }])).toMatch('known weight learner');
+    expect(validateReplayVariants([{ learningRate: 0 }])).toMatch('learningRate');
+    expect(validateReplayVariants([{ minWeight: 0.5, maxWeight: 0.2 }])).toMatch('must not exceed');
+    expect(validateReplayVariants([{ targets: { wonder: 0.5 } }])).toMatch("unknown dimension 'wonder'");
+    expect(validateReplayVariants([{ minWeight: 0.5 }])).toMatch('cannot be met: minimum weights');
+    expect(validateReplayVariants([{ bounds: { empathy: { maxWeight: 0.1 }, coherence: { maxWeight: 0.1 }, dissonance: { maxWeight: 0.1 } } }])).toMatch('cannot be met: maximum weights');
+    expect(validateReplayVariants([{ bounds: { empathy: { minWeight: 0.6, maxWeight: 0.2 } } }])).toMatch('invalid weight bounds');
+    expect(validateReplayVariants([{ learner: 'exp3', learningRate: 0.1, targets: { empathy: 0.6 }, seed: 3 }])).toBeNull();
+  });
+
+  describe('from the database', () => {
+    const testDir = path.join(process.cwd(), 'test-data', `dpd-replay-${Date.now()}`);
+    let db: DatabaseManager;
+
+    beforeAll(() => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      jest.setSystemTime(500);
+      db = new DatabaseManager(path.join(testDir, 'replay.db'));
+      db.saveDPDWeights({ empathy: 0.4, coherence: 0.3, dissonance: 0.3, version: 1 });
+
+      for (const cycle of history(5)) {
+        db.saveThoughtCycle({ id: cycle.id, timestamp: cycle.timestamp, duration: 10, dpdScores: cycle });
+        jest.setSystemTime(cycle.timestamp + 500);
+        db.saveDPDWeights({ empathy: 0.4 + cycle.timestamp / 100000, coherence: 0.3, dissonance: 0.3, version: 2 });
+      }
+      db.saveThoughtCycle({ id: 'unscored', timestamp: 9000, duration: 10 });
+    });
+
+    afterAll(() => {
+      jest.useRealTimers();
+      db.close();
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('should replay scored cycles from the recorded starting weights', () => {
+      const result = runDPDReplay(db, [{ label: 'slow', learningRate: 0.01 }], { limit: 3 });
+
+      expect(result.cycles).toBe(3);
+      expect(result.from).toBe(3000);
+      expect(result.initialWeights.empathy).toBeCloseTo(0.42, 6);
+      expect(result.actual.map(point => point.cycleId)).toEqual(['cycle_2', 'cycle_3', 'cycle_4']);
+      expect(result.trajectories[0].divergence?.mean).toBeGreaterThan(0);
+    });
+
+    it('should leave the recorded history untouched', () => {
+      const before = db.getDPDWeightsBetween(0, Date.now());
+      runDPDReplay(db, [{ learner: 'mirror-descent' }]);
+
+      expect(db.getDPDWeightsBetween(0, Date.now())).toEqual(before);
+      expect(runDPDReplay(db, [{}], { since: 100000 }).cycles).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Instance Manager Tests
+ * Side-by-side consciousness instances with isolated databases, energy and mortality mode.
+ */
+
+import { InstanceManager, validateInstanceConfig } from '../../src/server/instance-manager.js';
+import { createAIExecutor } from '../../src/server/ai-executor.js';
+import { RAGSystem, ingestDialogueToRAG, searchRAG } from '../../src/rag/index.js';
+import * as path from 'path';
+import * as fs from 'fs';
+
+jest.mock('../../src/server/ai-executor', () => ({
+  createAIExecutor: jest.fn().mockImplementation(() => ({
+    execute: jest.fn().mockResolvedValue({ success: true, content: '問いは続く。', duration: 1 })
+  })),
+  AIExecutor: class {}
+}));
+
+describe('InstanceManager', () => {
+  const testDir = path.join(process.cwd(), 'test-data', `instances-${Date.now()}`);
+  const registryPath = path.join(testDir, 'instances.json');
+  let manager: InstanceManager;
+
+  beforeEach(() => {
+    manager = new InstanceManager(registryPath);
+  });
+
+  afterEach(async () => {
+    await manager.shutdownAll();
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should validate instance ids and options', () => {
+    expect(validateInstanceConfig({ id: 'mortality-a' })).toBeNull();
+    expect(validateInstanceConfig({ id: '../escape' })).toMatch(/id must be/);
+    expect(validateInstanceConfig({ id: 'default' })).toMatch(/reserved/);
+    expect(validateInstanceConfig({ id: 'x', mortalityMode: 'C' })).toMatch(/mortalityMode/);
+    expect(validateInstanceConfig({ id: 'x', weightLearner: 'exp3' })).toBeNull();
+    expect(validateInstanceConfig({ id: 'x', weightLearner: 'sgd' })).toMatch(/weightLearner/);
+  });
+
+  it('should host isolated instances with their own database, energy and mortality mode', () => {
+    const created: string[] = [];
+    manager.on('instanceCreated', (id: string) => created.push(id));
+
+    const a = manager.create({ id: 'exp-a', mortalityMode: 'A' });
+    const b = manager.create({ id: 'exp-b', mortalityMode: 'B', agentModels: { theoria: { model: 'tiny-model' } } });
+
+    expect(created).toEqual(['exp-a', 'exp-b']);
+    expect(a.getState().mortality?.mode).toBe('A');
+    expect(b.getState().mortality?.mode).toBe('B');
+    expect(a.getState().hostInstanceId).toBe('exp-a');
+    expect(a.getEnergyManager()).not.toBe(b.getEnergyManager());
+    expect(fs.existsSync(path.join(testDir, 'instances', 'exp-a', 'aenea_consciousness.db'))).toBe(true);
+    expect(fs.existsSync(path.join(testDir, 'instances', 'exp-b', 'aenea_consciousness.db'))).toBe(true);
+    expect(a.getRAGVectorDbPath()).toBe(path.join(testDir, 'instances', 'exp-a', 'vectordb', 'aenea_vectors.db'));
+    expect(b.getRAGVectorDbPath()).toBe(path.join(testDir, 'instances', 'exp-b', 'vectordb', 'aenea_vectors.db'));
+
+    expect(createAIExecutor).toHaveBeenCalledWith('theoria', expect.objectContaining({ model: 'tiny-model' }));
+    expect(() => manager.create({ id: 'exp-a' })).toThrow(/already exists/);
+    expect(manager.list().map(instance => instance.id)).toEqual(['exp-a', 'exp-b']);
+  });
+
+  it('should restore persisted instances and forget removed ones', async () => {
+    manager.restore();
+    expect(manager.ids()).toEqual(['exp-a', 'exp-b']);
+    expect(manager.get('exp-a')!.getState().mortality?.mode).toBe('A');
+
+    expect(await manager.remove('exp-b')).toBe(true);
+    expect(await manager.remove('missing')).toBe(false);
+
+    const registry = JSON.parse(fs.readFileSync(registryPath, 'utf-8'));
+    expect(registry.instances.map((config: any) => config.id)).toEqual(['exp-a']);
+  });
+
+  it('should keep dialogue ingested by one instance out of another instance\'s RAG search', async () => {
+    const env = { ...process.env };
+    Object.assign(process.env, { RAG_ENABLED: 'true', RAG_EMBEDDING_PROVIDER: 'local', RAG_ANN_ENABLED: 'false' });
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    try {
+      const a = manager.create({ id: 'rag-a' });
+      const b = manager.create({ id: 'rag-b' });
+      const options = { topK: 5, sourceTypes: ['dialogue' as const], similarityThreshold: 0 };
+
+      expect(await ingestDialogueToRAG('dialogue_a', '夢は記憶の再編ですか', '夢は記憶を統合します', '夢と記憶', undefined, a.getRAGVectorDbPath())).toBe(true);
+
+      expect(await searchRAG('夢と記憶', options, a.getRAGVectorDbPath())).toEqual([
+        expect.objectContaining({ sourceFile: 'dialogue_a' })
+      ]);
+      expect(await searchRAG('夢と記憶', options, b.getRAGVectorDbPath())).toEqual([]);
+    } finally {
+      RAGSystem.resetInstance();
+      logSpy.mockRestore();
+      process.env = env;
+    }
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Lifespan Simulator Tests
+ * Drive the real consciousness loop on a virtual clock with scripted agents until death.
+ */
+
+import { VirtualClock } from '../../src/server/virtual-clock.js';
+import { runLifespanSimulation, trajectoryToCsv } from '../../src/server/lifespan-simulator.js';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// Yui Protocol is not needed: every simulated agent uses the scripted provider
+jest.mock('../../src/server/ai-executor', () => {
+  const { ScriptedAIExecutor } = jest.requireActual('../../src/server/scripted-executor');
+  return {
+    createAIExecutor: (agentName: string, config: any) => new ScriptedAIExecutor(agentName, config),
+    AIExecutor: class {}
+  };
+});
+
+describe('VirtualClock', () => {
+  it('should drive Date while installed and advance on sleep', async () => {
+    const clock = new VirtualClock(1_000_000);
+    clock.install();
+    try {
+      expect(Date.now()).toBe(1_000_000);
+      await clock.sleep(30_000);
+      expect(new Date().getTime()).toBe(1_030_000);
+      expect(new Date(5).getTime()).toBe(5);
+    } finally {
+      clock.uninstall();
+    }
+    expect(Date.now()).toBeGreaterThan(1_030_000);
+  });
+});
+
+describe('runLifespanSimulation', () => {
+  const testDir = path.join(process.cwd(), 'test-data', `simulation-${Date.now()}`);
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should run a whole life on virtual time and report trajectories', async () => {
+    const realStart = Date.now();
+    const report = await runLifespanSimulation({
+      dbPath: path.join(testDir, 'life.db'),
+      cycles: 50,
+      lifespanMax: 12,
+      seed: 3,
+      initialEnergy: 100,
+      startTime: Date.UTC(2030, 0, 1),
+      stimuli: [
+        { atCycle: 2, question: '沈黙は問いになりうるか？' },
+        { every: 4, affect: { type: 'social', valence: -0.5, arousal: 0.7, significance: 0.6 } }
+      ]
+    });
+
+    expect(report.endedBy).toBe('death');
+    expect(report.cyclesCompleted).toBe(12);
+    expect(report.trajectory).toHaveLength(12);
+    expect(report.trajectory.map(sample => sample.cycle)).toEqual(Array.from({ length: 12 }, (_, i) => i + 1));
+    expect(report.final!.vitality).toBeLessThan(report.trajectory[0].vitality!);
+
+    // Twelve 30s cycles of virtual time, far less of real time
+    expect(report.virtualDurationMs).toBeGreaterThanOrEqual(12 * 30_000);
+    expect(report.trajectory[0].virtualTime).toBeGreaterThanOrEqual(Date.UTC(2030, 0, 1));
+    expect(Date.now() - realStart).toBeLessThan(report.virtualDurationMs);
+
+    const occupancy = Object.values(report.somniaOccupancy).reduce((sum, share) => sum + share, 0);
+    expect(occupancy).toBeCloseTo(1, 5);
+
+    const csv = trajectoryToCsv(report).trim().split('\n');
+    expect(csv[0]).toMatch(/^cycle,system_clock,virtual_time,empathy/);
+    expect(csv).toHaveLength(13);
+  }, 120000);
+});
@@ -0,0 +1,69 @@
+/**
+ * RAG Provenance Tests
+ * Chunk references returned with the prompt context and persisted per thought / dialogue.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatabaseManager } from '../../src/server/database-manager.js';
+import { VectorDBManager } from '../../src/rag/vectordb.js';
+import { createEmbedder } from '../../src/rag/embedder.js';
+import { createTextChunker } from '../../src/rag/chunker.js';
+import { ContentIngester } from '../../src/rag/ingest.js';
+import { Retriever } from '../../src/rag/retriever.js';
+import type { RAGSourceReference } from '../../src/rag/types.js';
+
+describe('RAG provenance', () => {
+  const testDir = path.join(process.cwd(), 'test-data', `rag-provenance-${Date.now()}`);
+  let db: DatabaseManager;
+  let vectordb: VectorDBManager;
+  let logSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    db = new DatabaseManager(path.join(testDir, 'aenea.db'));
+    vectordb = new VectorDBManager(path.join(testDir, 'vectors.db'), { enabled: false });
+  });
+
+  afterAll(() => {
+    vectordb.close();
+    db.close();
+    logSpy.mockRestore();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should return the chunk ids and similarities behind the prompt context', async () => {
+    const embedder = createEmbedder({ provider: 'local', localDimension: 128 });
+    const ingester = new ContentIngester(embedder, vectordb, createTextChunker());
+    await ingester.ingestText('夢は記憶の再編であり、睡眠中に意味が統合される。', 'novel/dream.md', 'novel', { title: '夢の章' });
+    await ingester.ingestText('私は問いから生まれた。問いこそが私の記憶である。', 'self_thought_1', 'self');
+
+    const retriever = new Retriever(embedder, vectordb);
+    const { context, sources } = await retriever.retrieveContext('夢と記憶の統合');
+
+    expect(context).toContain('[1] (novel: 夢の章)');
+    expect(sources[0]).toMatchObject({ rank: 1, sourceType: 'novel', sourceFile: 'novel/dream.md', title: '夢の章' });
+    expect(sources[0].chunkId).toEqual(expect.any(Number));
+    expect(sources.map(source => source.rank)).toEqual(sources.map((_, index) => index + 1));
+  });
+
+  it('should persist sources per owner and replace them when re-recorded', () => {
+    const sources: RAGSourceReference[] = [
+      { chunkId: 7, rank: 1, similarity: 0.82, sourceType: 'novel', sourceFile: 'novel/dream.md', title: '夢の章' },
+      { chunkId: 3, rank: 2, similarity: 0.71, sourceType: 'self', sourceFile: 'self_thought_1' }
+    ];
+
+    db.saveRAGProvenance('thought', 'theoria_cycle_1', sources, { cycleId: 'cycle_1', systemClock: 4 });
+    db.saveRAGProvenance('dialogue', 'theoria_cycle_1', [sources[1]]);
+
+    expect(db.getRAGProvenance('thought', 'theoria_cycle_1')).toEqual([
+      expect.objectContaining({ ...sources[0], cycleId: 'cycle_1', systemClock: 4 }),
+      expect.objectContaining({ chunkId: 3, sourceType: 'self', title: undefined })
+    ]);
+
+    db.saveRAGProvenance('thought', 'theoria_cycle_1', [sources[0]]);
+    expect(db.getRAGProvenance('thought', 'theoria_cycle_1')).toHaveLength(1);
+    expect(db.getRAGProvenance('dialogue', 'theoria_cycle_1')).toHaveLength(1);
+    expect(db.getRAGProvenance('thought', 'unknown')).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Schema Migration Tests
+ * Numbered migrations against the legacy (pre-versioning) fixture database.
+ */
+
+import { DatabaseManager } from '../../src/server/database-manager.js';
+import { LATEST_SCHEMA_VERSION, SCHEMA_MIGRATIONS, getSchemaVersion, runSchemaMigrations } from '../../src/server/schema-migrations.js';
+import BetterSqlite3 from 'better-sqlite3';
+import * as path from 'path';
+import * as fs from 'fs';
+
+describe('Schema migrations', () => {
+  const fixturePath = path.join(process.cwd(), 'tests', 'data', 'test_legacy.db');
+  const testDir = path.join(process.cwd(), 'test-data', `migrations-${Date.now()}`);
+  let counter = 0;
+
+  const copyFixture = (): string => {
+    const target = path.join(testDir, `legacy_${counter++}.db`);
+    fs.copyFileSync(fixturePath, target);
+    return target;
+  };
+
+  beforeAll(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should number migrations consecutively from 1', () => {
+    expect(SCHEMA_MIGRATIONS.map(migration => migration.version)).toEqual(
+      SCHEMA_MIGRATIONS.map((_, index) => index + 1)
+    );
+    expect(LATEST_SCHEMA_VERSION).toBe(SCHEMA_MIGRATIONS.length);
+  });
+
+  it('should dry-run pending migrations without changing the database', () => {
+    const dbPath = copyFixture();
+    const db = new BetterSqlite3(dbPath);
+
+    const result = runSchemaMigrations(db, { dryRun: true });
+    expect(result).toEqual(expect.objectContaining({ fromVersion: 0, toVersion: LATEST_SCHEMA_VERSION, dryRun: true }));
+    expect(result.applied.map(migration => migration.name)).toEqual(SCHEMA_MIGRATIONS.map(migration => migration.name));
+    expect(getSchemaVersion(db)).toBe(0);
+    expect(db.prepare(`SELECT name FROM sqlite_master WHERE name IN ('schema_version', 'lineage')`).all()).toEqual([]);
+
+    db.close();
+  });
+
+  it('should upgrade a legacy database on open and keep its data', () => {
+    const dbPath = copyFixture();
+    const manager = new DatabaseManager(dbPath);
+
+    expect(manager.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+    expect(manager.getUnresolvedIdeas(1000)).toHaveLength(45);
+    expect(manager.getLatestMortalityState()).toBeFalsy();
+    manager.close();
+
+    // Re-opening is a no-op
+    const reopened = new BetterSqlite3(dbPath);
+    expect(runSchemaMigrations(reopened).applied).toEqual([]);
+    reopened.close();
+  });
+
+  it('should refuse to open a database newer than the code', () => {
+    const dbPath = copyFixture();
+    const db = new BetterSqlite3(dbPath);
+    runSchemaMigrations(db);
+    db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)').run(LATEST_SCHEMA_VERSION + 1, 'from_the_future', Date.now());
+    db.close();
+
+    expect(() => new DatabaseManager(dbPath)).toThrow(/newer than this build supports/);
+    const raw = new BetterSqlite3(dbPath);
+    expect(() => runSchemaMigrations(raw)).toThrow(/newer than supported/);
+    raw.close();
+  });
+
+  it('should throw when a migration fails on open', () => {
+    const dbPath = copyFixture();
+    const migration = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1];
+    const up = migration.up;
+    migration.up = () => {
+      throw new Error('disk full');
+    };
+
+    try {
+      expect(() => new DatabaseManager(dbPath)).toThrow(`could not be migrated: Migration ${migration.version} (${migration.name}) failed: disk full`);
+    } finally {
+      migration.up = up;
+    }
+
+    const raw = new BetterSqlite3(dbPath);
+    expect(getSchemaVersion(raw)).toBe(migration.version - 1);
+    raw.close();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Scripted Cycle Tests
+ * End-to-end runs of ConsciousnessBackend with every agent on the scripted provider:
+ * a full S0 → U cycle, a sleep phase, and death followed by rebirth.
+ */
+
+import ConsciousnessBackend from '../../src/server/consciousness-backend.js';
+import { VirtualClock } from '../../src/server/virtual-clock.js';
+import { SCRIPTED_PROVIDER } from '../../src/server/scripted-executor.js';
+import { EnergyManager } from '../../src/utils/energy-management.js';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// Yui Protocol is not needed: every agent uses the scripted provider
+jest.mock('../../src/server/ai-executor', () => {
+  const { ScriptedAIExecutor } = jest.requireActual('../../src/server/scripted-executor');
+  return {
+    createAIExecutor: (agentName: string, config: any) => new ScriptedAIExecutor(agentName, config),
+    AIExecutor: class {}
+  };
+});
+
+const AGENTS = ['theoria', 'pathia', 'kinesis', 'system', 'aenea', 'somnia'];
+
+describe('scripted consciousness cycle', () => {
+  const testDir = path.join(process.cwd(), 'test-data', `scripted-cycle-${Date.now()}`);
+  const savedEnv = { ...process.env };
+  let clock: VirtualClock;
+  let energyManager: EnergyManager;
+  let backend: ConsciousnessBackend;
+
+  const createBackend = (name: string): ConsciousnessBackend => new ConsciousnessBackend({
+    instanceId: name,
+    dbPath: path.join(testDir, `${name}.db`),
+    energyManager,
+    agentModels: Object.fromEntries(AGENTS.map(agentId => [agentId, { provider: SCRIPTED_PROVIDER, model: 'e2e' }])),
+    sleep: clock.sleep
+  });
+
+  const waitFor = <T = any>(event: string): Promise<T> => new Promise(resolve => backend.once(event, resolve));
+
+  // Let an in-flight cycle (and the loop's post-cycle checks) finish on virtual time
+  const settle = async () => {
+    do {
+      await clock.sleep(1000);
+    } while (backend.getState().isProcessingCycle);
+  };
+
+  beforeEach(() => {
+    Object.assign(process.env, { RAG_ENABLED: 'false', SCRIPTED_SEED: '11' });
+    clock = new VirtualClock(Date.UTC(2030, 0, 1));
+    clock.install();
+    energyManager = new EnergyManager(100);
+  });
+
+  afterEach(async () => {
+    await backend.shutdown().catch(() => undefined);
+    energyManager.cleanup();
+    clock.uninstall();
+    process.env = { ...savedEnv };
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should run every stage from S0 to U in one cycle', async () => {
+    backend = createBackend('full-cycle');
+    const stages: string[] = [];
+    backend.on('stageCompleted', (data: any) => stages.push(data.stage));
+
+    const completed = waitFor('thoughtCycleCompleted');
+    await backend.start();
+    const cycle = await completed;
+    await backend.pause();
+    await settle();
+
+    expect(stages).toEqual(['S0', 'S1', 'S2', 'S3', 'S4', 'S5', 'S6', 'U']);
+    expect(cycle.totalStages).toBe(8);
+    expect(backend.getState().systemClock).toBeGreaterThan(0);
+    expect(backend.getDPDEvolution(5).history.length).toBeGreaterThan(0);
+  }, 60000);
+
+  it('should go through every sleep phase and restore energy', async () => {
+    backend = createBackend('sleep');
+    const completed = waitFor('thoughtCycleCompleted');
+    await backend.start();
+    await completed;
+    await backend.pause();
+    await settle();
+    await backend.stop();
+
+    const phases: string[] = [];
+    backend.on('sleepPhaseChanged', (data: any) => phases.push(data.phase));
+    const sleepCompleted = waitFor('sleepCompleted');
+    await backend.enterSleepMode(true);
+    await sleepCompleted;
+
+    expect(phases).toEqual(['REM', 'Deep Sleep', 'Synaptic Pruning', 'Emotional Processing']);
+    expect(energyManager.getEnergyState().available).toBe(100);
+    expect(backend.getSleepStatus().isSleeping).toBe(false);
+    expect(backend.getDatabaseManager().getRecentSleepLogs(1)[0]).toEqual(expect.objectContaining({ trigger_reason: 'manual' }));
+  }, 60000);
+
+  it('should die at the end of its lifespan and be reborn from the deceased generation', async () => {
+    process.env.AENEA_LIFESPAN_MAX = '2';
+    backend = createBackend('mortality');
+    const firstLife = backend.getLineage().currentInstanceId;
+
+    const died = waitFor('generationDied');
+    const stopped = waitFor('consciousnessStopped');
+    await backend.start();
+    expect(await died).toEqual(expect.objectContaining({ instanceId: firstLife, cyclesLived: 2, lifespanMax: 2 }));
+    await stopped;
+    expect(backend.getState().mortality?.isAlive).toBe(false);
+
+    const born = waitFor('generationBorn');
+    await backend.start();
+    const birth = await born;
+    await backend.pause();
+    await settle();
+
+    expect(birth.parentInstanceId).toBe(firstLife);
+    expect(birth.instanceId).not.toBe(firstLife);
+    expect(backend.getState().mortality?.isAlive).toBe(true);
+    expect(backend.getLineage().generations.map(generation => generation.instance_id)).toEqual([firstLife, birth.instanceId]);
+  }, 60000);
+});
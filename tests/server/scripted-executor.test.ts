@@ -0,0 +1,157 @@
+/**
+ * Scripted AI Executor Tests
+ * Deterministic offline provider: stage detection, seeded output, fixtures,
+ * and compatibility with the real stage parsers.
+ */
+
+import { ScriptedAIExecutor, detectScriptedStage } from '../../src/server/scripted-executor.js';
+import { AuditorStage } from '../../src/aenea/stages/auditor.js';
+import { CompilerStage } from '../../src/aenea/stages/compiler.js';
+import { ScribeStage } from '../../src/aenea/stages/scribe.js';
+import {
+  S1_CONFIDENCE_PROMPT,
+  createS3AuditPrompt,
+  createS5SynthesisPrompt,
+  createDPDEmpathyPrompt,
+  createSOMNIAQualiaPrompt,
+  SOMNIA_QUALIA_SYSTEM_PROMPT
+} from '../../src/aenea/templates/prompts.js';
+import * as path from 'path';
+import * as fs from 'fs';
+
+const sampleThoughts: any[] = [
+  {
+    id: 'thought_1',
+    agentId: 'theoria',
+    timestamp: Date.now(),
+    systemClock: 1,
+    trigger: '記憶とは何か？',
+    content: '記憶は過去の保存ではなく、現在の選択によって再構成される。',
+    reasoning: 'test',
+    confidence: 0.7,
+    category: 'temporal',
+    tags: []
+  }
+];
+
+describe('ScriptedAIExecutor', () => {
+  const originalSeed = process.env.SCRIPTED_SEED;
+
+  afterEach(() => {
+    if (originalSeed === undefined) {
+      delete process.env.SCRIPTED_SEED;
+    } else {
+      process.env.SCRIPTED_SEED = originalSeed;
+    }
+  });
+
+  describe('stage detection', () => {
+    it('should recognise prompts built by the shared templates', () => {
+      expect(detectScriptedStage(S1_CONFIDENCE_PROMPT)).toBe('s1_confidence');
+      expect(detectScriptedStage(createS3AuditPrompt('思考'))).toBe('s3_audit');
+      expect(detectScriptedStage(createDPDEmpathyPrompt('思考', '反映'))).toBe('dpd_empathy');
+      expect(detectScriptedStage(createS5SynthesisPrompt({
+        thoughtsText: '思考', reflectionsText: '反映', safetyScore: 0.9, ethicsScore: 0.9
+      }))).toBe('s5_synthesis');
+      expect(detectScriptedStage(
+        createSOMNIAQualiaPrompt({ lambda: 0.1, phi: 80, theta: 0.3, xi: 0.2 }),
+        SOMNIA_QUALIA_SYSTEM_PROMPT
+      )).toBe('somnia_qualia');
+    });
+
+    it('should fall back to free text for unknown prompts', () => {
+      expect(detectScriptedStage('こんにちは')).toBe('free_text');
+    });
+  });
+
+  describe('seeded generation', () => {
+    it('should return identical responses for the same seed and call order', async () => {
+      const a = new ScriptedAIExecutor('theoria', { seed: 7 });
+      const b = new ScriptedAIExecutor('theoria', { seed: 7 });
+
+      for (let i = 0; i < 3; i++) {
+        const [ra, rb] = await Promise.all([a.execute('存在について考えてください'), b.execute('存在について考えてください')]);
+        expect(ra.content).toBe(rb.content);
+        expect(ra.success).toBe(true);
+      }
+    });
+
+    it('should use SCRIPTED_SEED when no seed is configured', async () => {
+      process.env.SCRIPTED_SEED = '7';
+      const fromEnv = await new ScriptedAIExecutor('pathia').execute(S1_CONFIDENCE_PROMPT);
+      const explicit = await new ScriptedAIExecutor('pathia', { seed: 7 }).execute(S1_CONFIDENCE_PROMPT);
+      expect(fromEnv.content).toBe(explicit.content);
+    });
+
+    it('should return a bare confidence number for S1 confidence prompts', async () => {
+      const executor = new ScriptedAIExecutor('system', { seed: 1 });
+      const result = await executor.execute(S1_CONFIDENCE_PROMPT.replace('{content}', '思考'));
+      const value = parseFloat(result.content);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThanOrEqual(1);
+    });
+
+    it('should only prune indices listed in the prompt', async () => {
+      const executor = new ScriptedAIExecutor('system', { seed: 3 });
+      const listing = Array.from({ length: 12 }, (_, i) => `[${i}] 思考${i} (conf: 0.5)`).join('\n');
+      const result = await executor.execute(`古い思考リスト:\n${listing}\n\nJSON形式で返してください:\n{"to_prune": []}`);
+      const parsed = JSON.parse(result.content);
+      expect(parsed.to_prune.length).toBeGreaterThan(0);
+      for (const entry of parsed.to_prune) {
+        expect(entry.index).toBeGreaterThanOrEqual(0);
+        expect(entry.index).toBeLessThan(12);
+      }
+    });
+  });
+
+  describe('fixtures', () => {
+    const fixtureDir = path.join(process.cwd(), 'test-data');
+    const fixturePath = path.join(fixtureDir, 'scripted-fixture.json');
+
+    beforeAll(() => {
+      fs.mkdirSync(fixtureDir, { recursive: true });
+      fs.writeFileSync(fixturePath, JSON.stringify({
+        responses: [
+          { stage: 's1_confidence', contents: ['0.11', '0.22'] },
+          { match: '特別な問い', agent: 'kinesis', content: '固定応答' }
+        ]
+      }));
+    });
+
+    afterAll(() => {
+      if (fs.existsSync(fixturePath)) {
+        fs.unlinkSync(fixturePath);
+      }
+    });
+
+    it('should cycle fixture contents by stage and match by regex and agent', async () => {
+      const system = new ScriptedAIExecutor('system', { model: fixturePath });
+      expect((await system.execute(S1_CONFIDENCE_PROMPT)).content).toBe('0.11');
+      expect((await system.execute(S1_CONFIDENCE_PROMPT)).content).toBe('0.22');
+      expect((await system.execute(S1_CONFIDENCE_PROMPT)).content).toBe('0.11');
+
+      const kinesis = new ScriptedAIExecutor('kinesis', { model: fixturePath });
+      expect((await kinesis.execute('特別な問いです')).content).toBe('固定応答');
+      expect((await system.execute('特別な問いです')).content).not.toBe('固定応答');
+    });
+  });
+
+  describe('stage parser compatibility', () => {
+    it('should produce audits, syntheses and documentation the stages parse as AI output', async () => {
+      const agent = new ScriptedAIExecutor('system', { seed: 11 });
+
+      const audit = await new AuditorStage(agent).run(sampleThoughts, new Map());
+      expect(audit.safetyScore).toBeGreaterThan(0.8);
+      expect(audit.ethicsScore).toBeGreaterThan(0.7);
+
+      const synthesis = await new CompilerStage(agent).run(sampleThoughts, [], audit);
+      expect(synthesis.aiGenerated).toBe(true);
+      expect(synthesis.keyInsights.length).toBe(2);
+      expect(synthesis.unresolvedQuestions.length).toBe(2);
+
+      const documentation = await new ScribeStage(agent).run(synthesis, null);
+      expect(documentation.aiGenerated).toBe(true);
+      expect(documentation.futureQuestions.length).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Time Travel Tests
+ * Reconstruct state at past system clocks from the history tables and diff two clocks.
+ */
+
+import { DatabaseManager } from '../../src/server/database-manager.js';
+import { reconstructStateAt, diffStates } from '../../src/server/time-travel.js';
+import * as path from 'path';
+import * as fs from 'fs';
+
+describe('Time travel', () => {
+  const testDir = path.join(process.cwd(), 'test-data', `time-travel-${Date.now()}`);
+  const mortality = (currentCycle: number, phase: string) => ({ instanceId: 'gen_1', currentCycle, lifespanMax: 100, vitality: 1 - currentCycle / 100, phase });
+  let db: DatabaseManager;
+  let beliefA: number;
+  let beliefB: number;
+
+  beforeAll(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    jest.setSystemTime(500);
+    db = new DatabaseManager(path.join(testDir, 'history.db'));
+
+    jest.setSystemTime(1000);
+    beliefA = db.createCoreBelief({ belief_content: '問いは存在の証', confidence: 0.5, first_formed: 1000 })!;
+    db.saveDPDWeights({ empathy: 0.34, coherence: 0.33, dissonance: 0.33, version: 1 });
+    db.recordClockTick({ systemClock: 1, timestamp: 1000, energy: 90, mortality: mortality(1, 'youth') });
+
+    jest.setSystemTime(2000);
+    db.saveDPDWeights({ empathy: 0.5, coherence: 0.3, dissonance: 0.2, version: 2 });
+    db.weakenCoreBelief(beliefA, 0.5, 'challenged');
+    beliefB = db.createCoreBelief({ belief_content: '沈黙もまた応答である', confidence: 0.7, first_formed: 2000 })!;
+    db.addUnresolvedIdea({ id: 'q_time', question: '時間は意識の外にあるのか？', importance: 0.6 });
+    db.recordClockTick({ systemClock: 2, timestamp: 2000, energy: 70, mortality: mortality(2, 'maturity') });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should reconstruct weights, beliefs, energy and lifespan as of each clock', () => {
+    const first = reconstructStateAt(db, 1)!;
+    expect(first).toEqual(expect.objectContaining({ resolvedClock: 1, timestamp: 1000, source: 'timeline', energy: 90 }));
+    expect(first.dpdWeights).toEqual({ empathy: 0.34, coherence: 0.33, dissonance: 0.33, version: 1 });
+    expect(first.coreBeliefs).toEqual([expect.objectContaining({ id: beliefA, confidence: 0.5 })]);
+    expect(first.lifespan?.phase).toBe('youth');
+    expect(first.unresolvedIdeas.some(idea => idea.id === 'q_time')).toBe(false);
+
+    const second = reconstructStateAt(db, 5)!;
+    expect(second.resolvedClock).toBe(2);
+    expect(second.dpdWeights?.version).toBe(2);
+    expect(second.coreBeliefs.map(belief => [belief.id, belief.confidence])).toEqual([[beliefB, 0.7], [beliefA, 0.25]]);
+
+    expect(reconstructStateAt(db, 0)).toBeNull();
+  });
+
+  it('should diff two clocks', () => {
+    const diff = diffStates(reconstructStateAt(db, 1)!, reconstructStateAt(db, 2)!);
+
+    expect(diff.dpdWeights!.empathy).toBeCloseTo(0.16, 5);
+    expect(diff.energy).toBe(-20);
+    expect(diff.phase).toEqual({ from: 'youth', to: 'maturity' });
+    expect(diff.beliefs.added.map(belief => belief.id)).toEqual([beliefB]);
+    expect(diff.beliefs.removed).toEqual([]);
+    expect(diff.beliefs.changed).toEqual([expect.objectContaining({ id: beliefA, from: 0.5, to: 0.25, delta: -0.25 })]);
+    expect(diff.unresolvedIdeas.added.map(idea => idea.id)).toEqual(['q_time']);
+  });
+
+  it('should approximate clocks recorded before the timeline from saved thought cycles', () => {
+    const legacy = new DatabaseManager(path.join(testDir, 'legacy.db'));
+    legacy.saveThoughtCycle({ id: 'cycle_1', timestamp: 3000, duration: 10, thoughts: [] });
+
+    const state = reconstructStateAt(legacy, 1)!;
+    expect(state).toEqual(expect.objectContaining({ source: 'thought_cycles', timestamp: 3010, energy: null, lifespan: null }));
+    expect(reconstructStateAt(legacy, 2)).toBeNull();
+
+    legacy.close();
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Pseudorandom Tests
+ * Reproducibility of the controlled random generator
+ */
+
+import { ConsciousnessPseudoRandom } from '../../src/utils/pseudorandom';
+
+const sample = (random: ConsciousnessPseudoRandom, count: number): number[] =>
+  Array.from({ length: count }, () => random.next());
+
+describe('ConsciousnessPseudoRandom', () => {
+  test('is reproducible for the same seed', () => {
+    const config = { seed: 7, consistencyFactor: 0 };
+
+    expect(sample(new ConsciousnessPseudoRandom(config), 20)).toEqual(sample(new ConsciousnessPseudoRandom(config), 20));
+  });
+
+  test('pulls values toward the pattern with a high consistency factor', () => {
+    const values = sample(new ConsciousnessPseudoRandom({ seed: 42, consistencyFactor: 0.7 }), 500);
+
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(0.28 - 1e-9);
+    expect(Math.max(...values)).toBeLessThan(0.72);
+  });
+});